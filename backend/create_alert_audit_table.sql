@@ -0,0 +1,38 @@
+-- Create Alert_Audit table if it doesn't exist
+-- One row per user acknowledge / resolve action on an alert (system auto-resolutions are not audited)
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Alert_Audit' AND xtype='U')
+BEGIN
+    CREATE TABLE Alert_Audit (
+        audit_id INT IDENTITY(1,1) PRIMARY KEY,
+        alert_id INT NOT NULL,
+        action NVARCHAR(20) NOT NULL,
+        previous_status NVARCHAR(20) NULL,
+        notes NVARCHAR(500) NULL,
+        user_id INT NOT NULL,
+        timestamp DATETIME2 NOT NULL DEFAULT GETDATE(),
+        ip_address NVARCHAR(45) NULL,
+        user_agent NVARCHAR(500) NULL,
+
+        CONSTRAINT CK_Alert_Audit_Action CHECK (action IN ('acknowledge', 'resolve')),
+
+        INDEX IX_Alert_Audit_AlertId (alert_id, timestamp),
+        INDEX IX_Alert_Audit_UserId (user_id, timestamp)
+    );
+
+    PRINT 'Alert_Audit table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Alert_Audit table already exists';
+END
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME = 'Alert_Audit'
+ORDER BY ORDINAL_POSITION;
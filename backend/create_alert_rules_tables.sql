@@ -0,0 +1,112 @@
+-- Create alert rule tables if they don't exist
+-- Alert_Rules holds threshold / fault-code conditions evaluated against new telemetry rows.
+-- Alert_Rule_State tracks, per rule and device, the last evaluated Entry_ID and the
+-- consecutive matching / clearing reading counts used for raising and auto-resolving.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Alert_Rules' AND xtype='U')
+BEGIN
+    CREATE TABLE Alert_Rules (
+        rule_id INT IDENTITY(1,1) PRIMARY KEY,
+        name NVARCHAR(100) NOT NULL,
+        description NVARCHAR(500) NULL,
+        client_id NVARCHAR(50) NULL,
+        device_id NVARCHAR(50) NULL,
+        telemetry_table NVARCHAR(128) NOT NULL,
+        condition_type NVARCHAR(20) NOT NULL,
+        field_name NVARCHAR(128) NOT NULL,
+        operator NVARCHAR(10) NULL,
+        threshold_value FLOAT NULL,
+        threshold_config_key NVARCHAR(200) NULL,
+        fault_codes NVARCHAR(200) NULL,
+        consecutive_readings INT NOT NULL DEFAULT 1,
+        clear_readings INT NOT NULL DEFAULT 1,
+        severity NVARCHAR(20) NOT NULL DEFAULT 'warning',
+        is_enabled BIT NOT NULL DEFAULT 1,
+        created_by INT NOT NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+        updated_by INT NULL,
+        updated_at DATETIME2 NULL,
+
+        CONSTRAINT CK_Alert_Rules_ConditionType CHECK (condition_type IN ('threshold', 'fault_code')),
+        CONSTRAINT CK_Alert_Rules_Operator CHECK (operator IS NULL OR operator IN ('gt', 'gte', 'lt', 'lte', 'eq', 'neq')),
+        CONSTRAINT CK_Alert_Rules_Severity CHECK (severity IN ('info', 'warning', 'critical')),
+        CONSTRAINT CK_Alert_Rules_Readings CHECK (consecutive_readings >= 1 AND clear_readings >= 1),
+
+        INDEX IX_Alert_Rules_IsEnabled (is_enabled),
+        INDEX IX_Alert_Rules_ClientId (client_id),
+        INDEX IX_Alert_Rules_DeviceId (device_id)
+    );
+
+    PRINT 'Alert_Rules table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Alert_Rules table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Alert_Rule_State' AND xtype='U')
+BEGIN
+    CREATE TABLE Alert_Rule_State (
+        rule_id INT NOT NULL,
+        device_id NVARCHAR(50) NOT NULL,
+        last_entry_id INT NOT NULL DEFAULT 0,
+        match_count INT NOT NULL DEFAULT 0,
+        clear_count INT NOT NULL DEFAULT 0,
+        updated_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+
+        CONSTRAINT PK_Alert_Rule_State PRIMARY KEY (rule_id, device_id),
+        CONSTRAINT FK_Alert_Rule_State_Rules FOREIGN KEY (rule_id) REFERENCES Alert_Rules(rule_id) ON DELETE CASCADE
+    );
+
+    PRINT 'Alert_Rule_State table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Alert_Rule_State table already exists';
+END
+
+-- Link generated alerts back to their rule so repeated triggers update one open alert
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('alerts') AND name = 'rule_id')
+BEGIN
+    ALTER TABLE alerts ADD
+        rule_id INT NULL,
+        trigger_count INT NOT NULL DEFAULT 1,
+        trigger_value NVARCHAR(100) NULL,
+        last_triggered_at DATETIME2 NULL;
+
+    PRINT 'Rule columns added to alerts table';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_Alerts_RuleId_DeviceId')
+BEGIN
+    CREATE INDEX IX_Alerts_RuleId_DeviceId ON alerts (rule_id, device_id, status);
+END
+
+-- Telemetry rows that raised / last re-triggered an alert, so the alerts inbox can link to them
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('alerts') AND name = 'trigger_entry_id')
+BEGIN
+    ALTER TABLE alerts ADD
+        trigger_entry_id INT NULL,
+        last_trigger_entry_id INT NULL;
+
+    PRINT 'Trigger entry columns added to alerts table';
+END
+
+-- Example rules (uncomment and adjust created_by to an admin user id)
+-- INSERT INTO Alert_Rules (name, telemetry_table, condition_type, field_name, operator, threshold_value, consecutive_readings, severity, created_by)
+-- VALUES ('HV output voltage low', 'IoT_Data_New', 'threshold', 'HVOutputVoltage_kV', 'lt', 20, 3, 'warning', 1);
+-- INSERT INTO Alert_Rules (name, telemetry_table, condition_type, field_name, operator, threshold_config_key, severity, created_by)
+-- VALUES ('Motor current above configured threshold', 'IoT_Data_Sick_Test', 'threshold', 'Motor_Current_mA', 'gt', 'device_settings.motor_current_threshold_ma', 'critical', 1);
+-- INSERT INTO Alert_Rules (name, telemetry_table, condition_type, field_name, fault_codes, severity, created_by)
+-- VALUES ('Thermostat broken', 'IoT_Data_New', 'fault_code', 'FaultCodes', '3', 'critical', 1);
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME IN ('Alert_Rules', 'Alert_Rule_State')
+ORDER BY TABLE_NAME, ORDINAL_POSITION;
@@ -0,0 +1,80 @@
+-- Two-person approval for configuration activation
+-- Once these tables exist, activating a device configuration or a universal communication
+-- configuration only proposes the change; a second user has to approve it before it is
+-- activated (or scheduled, when the proposal carries a time or maintenance window). Proposals
+-- can be commented on, rejected with a reason, withdrawn by the proposer, and expire after
+-- CONFIG_APPROVAL_EXPIRY_HOURS. Set CONFIG_APPROVAL_REQUIRED=false to go back to direct activation.
+--
+-- Approving a universal configuration is checked with
+-- sp_ValidateUniversalConfigPermission @permission_type = 'APPROVE', next to the existing 'ACTIVATE'.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Config_Change_Approvals' AND xtype='U')
+BEGIN
+    CREATE TABLE Config_Change_Approvals (
+        approval_id INT IDENTITY(1,1) PRIMARY KEY,
+        target_type NVARCHAR(10) NOT NULL,
+        device_id NVARCHAR(50) NULL,
+        config_id INT NOT NULL,
+        status NVARCHAR(20) NOT NULL DEFAULT 'proposed',
+        change_reason NVARCHAR(500) NULL,
+        scheduled_for DATETIME2 NULL,
+        use_maintenance_window BIT NOT NULL DEFAULT 0,
+        proposed_by INT NOT NULL,
+        proposed_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        expires_at DATETIME2 NOT NULL,
+        decided_by INT NULL,
+        decided_at DATETIME2 NULL,
+        decision_comment NVARCHAR(500) NULL,
+        result_message NVARCHAR(1000) NULL,
+
+        CONSTRAINT CK_Config_Change_Approvals_Target CHECK (
+            (target_type = 'device' AND device_id IS NOT NULL) OR (target_type = 'universal' AND device_id IS NULL)
+        ),
+        CONSTRAINT CK_Config_Change_Approvals_Status CHECK (
+            status IN ('proposed', 'approved', 'rejected', 'expired', 'withdrawn')
+        ),
+        INDEX IX_Config_Change_Approvals_Status (status, expires_at)
+    );
+
+    -- One open proposal per device, and one for the universal configuration
+    CREATE UNIQUE INDEX UX_Config_Change_Approvals_Open
+        ON Config_Change_Approvals (target_type, device_id)
+        WHERE status = 'proposed';
+
+    PRINT 'Config_Change_Approvals table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Config_Change_Approvals table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Config_Approval_Comments' AND xtype='U')
+BEGIN
+    CREATE TABLE Config_Approval_Comments (
+        comment_id INT IDENTITY(1,1) PRIMARY KEY,
+        approval_id INT NOT NULL,
+        user_id INT NOT NULL,
+        comment NVARCHAR(1000) NOT NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+
+        CONSTRAINT FK_Config_Approval_Comments_Approval FOREIGN KEY (approval_id)
+            REFERENCES Config_Change_Approvals(approval_id) ON DELETE CASCADE,
+        INDEX IX_Config_Approval_Comments_Approval (approval_id, created_at)
+    );
+
+    PRINT 'Config_Approval_Comments table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Config_Approval_Comments table already exists';
+END
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME IN ('Config_Change_Approvals', 'Config_Approval_Comments')
+ORDER BY TABLE_NAME, ORDINAL_POSITION;
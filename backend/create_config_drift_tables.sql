@@ -0,0 +1,47 @@
+-- Config drift detection
+-- Requires create_deployment_reconciliation_tables.sql (Device_Config_Polls).
+-- Devices report their running config hash and firmware on every /device/version poll. Each
+-- check-in is kept in Device_Config_Checkins together with the hash the device should be running;
+-- Device_Config_Polls.drift_since marks when the current mismatch started so a persistent drift
+-- can raise a config_drift alert.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Device_Config_Checkins' AND xtype='U')
+BEGIN
+    CREATE TABLE Device_Config_Checkins (
+        checkin_id BIGINT IDENTITY(1,1) PRIMARY KEY,
+        device_id NVARCHAR(50) NOT NULL,
+        reported_hash NVARCHAR(64) NULL,
+        firmware_version NVARCHAR(50) NULL,
+        expected_config_id INT NULL,
+        expected_hash NVARCHAR(64) NULL,
+        in_sync BIT NULL,
+        checked_in_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+
+        INDEX IX_Device_Config_Checkins_Device (device_id, checked_in_at DESC)
+    );
+
+    PRINT 'Device_Config_Checkins table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Device_Config_Checkins table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('Device_Config_Polls') AND name = 'firmware_version')
+BEGIN
+    ALTER TABLE Device_Config_Polls ADD
+        firmware_version NVARCHAR(50) NULL,
+        drift_since DATETIME2 NULL;
+
+    PRINT 'Drift columns added to Device_Config_Polls table';
+END
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME IN ('Device_Config_Checkins', 'Device_Config_Polls')
+ORDER BY TABLE_NAME, ORDINAL_POSITION;
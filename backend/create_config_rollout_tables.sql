@@ -0,0 +1,84 @@
+-- Create configuration rollout campaign tables if they don't exist
+-- A campaign pushes one configuration to a set of devices (a client, a conversion logic ID or an
+-- explicit list) in waves. Wave 0 is the canary; later waves start once the previous wave has
+-- reported back through /device/status. The campaign halts itself when the failure rate of
+-- reported deployments passes failure_threshold_percent; resuming a halted campaign records the
+-- counts at that point (baseline_*) so only failures after the resume count towards the next halt.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Config_Rollout_Campaigns' AND xtype='U')
+BEGIN
+    CREATE TABLE Config_Rollout_Campaigns (
+        campaign_id INT IDENTITY(1,1) PRIMARY KEY,
+        campaign_name NVARCHAR(255) NOT NULL,
+        config_name NVARCHAR(255) NOT NULL,
+        config_data NVARCHAR(MAX) NOT NULL,
+        config_hash NVARCHAR(64) NOT NULL,
+        target_type NVARCHAR(20) NOT NULL,
+        target_value NVARCHAR(MAX) NULL,
+        canary_percent INT NOT NULL DEFAULT 10,
+        wave_count INT NOT NULL DEFAULT 3,
+        failure_threshold_percent INT NOT NULL DEFAULT 20,
+        status NVARCHAR(20) NOT NULL DEFAULT 'running',
+        current_wave INT NOT NULL DEFAULT 0,
+        total_waves INT NOT NULL DEFAULT 1,
+        status_reason NVARCHAR(500) NULL,
+        baseline_reported INT NOT NULL DEFAULT 0,
+        baseline_failed INT NOT NULL DEFAULT 0,
+        notes NVARCHAR(1000) NULL,
+        created_by INT NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+        updated_by INT NULL,
+        updated_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+        completed_at DATETIME2 NULL,
+
+        CONSTRAINT CK_Config_Rollout_Campaigns_TargetType CHECK (target_type IN ('client', 'logic', 'devices')),
+        CONSTRAINT CK_Config_Rollout_Campaigns_Status CHECK (status IN ('running', 'paused', 'halted', 'aborted', 'completed')),
+        CONSTRAINT CK_Config_Rollout_Campaigns_Canary CHECK (canary_percent BETWEEN 1 AND 100),
+        CONSTRAINT CK_Config_Rollout_Campaigns_Threshold CHECK (failure_threshold_percent BETWEEN 0 AND 100),
+
+        INDEX IX_Config_Rollout_Campaigns_Status (status, created_at)
+    );
+
+    PRINT 'Config_Rollout_Campaigns table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Config_Rollout_Campaigns table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Config_Rollout_Targets' AND xtype='U')
+BEGIN
+    CREATE TABLE Config_Rollout_Targets (
+        target_id INT IDENTITY(1,1) PRIMARY KEY,
+        campaign_id INT NOT NULL,
+        device_id NVARCHAR(50) NOT NULL,
+        wave_number INT NOT NULL,
+        status NVARCHAR(20) NOT NULL DEFAULT 'waiting',
+        config_id INT NULL,
+        deployment_id INT NULL,
+        started_at DATETIME2 NULL,
+
+        CONSTRAINT FK_Config_Rollout_Targets_Campaign FOREIGN KEY (campaign_id) REFERENCES Config_Rollout_Campaigns(campaign_id) ON DELETE CASCADE,
+        CONSTRAINT CK_Config_Rollout_Targets_Status CHECK (status IN ('waiting', 'deployed', 'cancelled')),
+        CONSTRAINT UQ_Config_Rollout_Targets_Device UNIQUE (campaign_id, device_id),
+
+        INDEX IX_Config_Rollout_Targets_Wave (campaign_id, wave_number),
+        INDEX IX_Config_Rollout_Targets_Deployment (deployment_id)
+    );
+
+    PRINT 'Config_Rollout_Targets table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Config_Rollout_Targets table already exists';
+END
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME IN ('Config_Rollout_Campaigns', 'Config_Rollout_Targets')
+ORDER BY TABLE_NAME, ORDINAL_POSITION;
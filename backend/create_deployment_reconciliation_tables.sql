@@ -0,0 +1,44 @@
+-- Deployment reconciliation support
+-- Device_Config_Polls keeps the latest version poll and config download of each device. Devices
+-- that pass their running hash (?current=<hash prefix>) on /device/version let the reconciler
+-- confirm a deployment even when the device never posts to /device/status.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Device_Config_Polls' AND xtype='U')
+BEGIN
+    CREATE TABLE Device_Config_Polls (
+        device_id NVARCHAR(50) NOT NULL PRIMARY KEY,
+        last_polled_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+        reported_hash NVARCHAR(64) NULL,
+        reported_at DATETIME2 NULL,
+        downloaded_config_id INT NULL,
+        downloaded_at DATETIME2 NULL
+    );
+
+    PRINT 'Device_Config_Polls table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Device_Config_Polls table already exists';
+END
+
+-- Each retry restarts the timeout window from last_attempt_at; completion_source records whether a
+-- deployment finished through a device report, an inferred version match or a timeout
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('Device_Config_Deployments') AND name = 'last_attempt_at')
+BEGIN
+    ALTER TABLE Device_Config_Deployments ADD
+        last_attempt_at DATETIME2 NULL,
+        completion_source NVARCHAR(20) NULL;
+
+    PRINT 'Reconciliation columns added to Device_Config_Deployments table';
+END
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME = 'Device_Config_Polls'
+   OR (TABLE_NAME = 'Device_Config_Deployments' AND COLUMN_NAME IN ('last_attempt_at', 'completion_source', 'retry_count'))
+ORDER BY TABLE_NAME, ORDINAL_POSITION;
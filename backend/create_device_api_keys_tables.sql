@@ -0,0 +1,126 @@
+-- Create device API key tables if they don't exist
+-- Device_API_Keys stores each device key as a SHA-256 hash plus a short visible prefix. A rotated key
+-- moves to 'grace' and keeps working until grace_until; usage_count / last_used_at are updated on
+-- every authenticated device call. Device_API_Key_Audit records reveals, copies, rotations,
+-- imports, expiry changes and revocations.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Device_API_Keys' AND xtype='U')
+BEGIN
+    CREATE TABLE Device_API_Keys (
+        key_id INT IDENTITY(1,1) PRIMARY KEY,
+        device_id NVARCHAR(50) NOT NULL,
+        key_prefix NVARCHAR(16) NOT NULL,
+        key_hash CHAR(64) NOT NULL,
+        status NVARCHAR(20) NOT NULL DEFAULT 'active',
+        created_by INT NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+        expires_at DATETIME2 NULL,
+        grace_until DATETIME2 NULL,
+        revoked_at DATETIME2 NULL,
+        revoked_by INT NULL,
+        last_used_at DATETIME2 NULL,
+        usage_count INT NOT NULL DEFAULT 0,
+
+        CONSTRAINT CK_Device_API_Keys_Status CHECK (status IN ('active', 'grace', 'revoked')),
+        CONSTRAINT UQ_Device_API_Keys_KeyHash UNIQUE (key_hash),
+
+        INDEX IX_Device_API_Keys_DeviceId (device_id, status)
+    );
+
+    PRINT 'Device_API_Keys table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Device_API_Keys table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Device_API_Key_Audit' AND xtype='U')
+BEGIN
+    CREATE TABLE Device_API_Key_Audit (
+        audit_id INT IDENTITY(1,1) PRIMARY KEY,
+        device_id NVARCHAR(50) NOT NULL,
+        key_id INT NULL,
+        action NVARCHAR(20) NOT NULL,
+        reason NVARCHAR(500) NULL,
+        user_id INT NULL,
+        timestamp DATETIME2 NOT NULL DEFAULT GETDATE(),
+        ip_address NVARCHAR(45) NULL,
+        user_agent NVARCHAR(500) NULL,
+
+        CONSTRAINT CK_Device_API_Key_Audit_Action CHECK (action IN ('view', 'copy', 'rotate', 'import', 'revoke', 'set_expiry')),
+
+        INDEX IX_Device_API_Key_Audit_DeviceId (device_id, timestamp)
+    );
+
+    PRINT 'Device_API_Key_Audit table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Device_API_Key_Audit table already exists';
+END
+GO
+
+-- Move existing plaintext keys from device.APIKey into Device_API_Keys. The hash matches the
+-- backend's SHA-256 of the key for ASCII keys; the prefix is at most a quarter of the key.
+IF OBJECT_ID('tempdb..#Legacy_API_Keys') IS NOT NULL DROP TABLE #Legacy_API_Keys;
+
+SELECT
+    d.Device_ID AS device_id,
+    LEFT(d.APIKey, CASE WHEN LEN(d.APIKey) / 4 < 8 THEN LEN(d.APIKey) / 4 ELSE 8 END) AS key_prefix,
+    LOWER(CONVERT(CHAR(64), HASHBYTES('SHA2_256', CAST(d.APIKey AS VARCHAR(255))), 2)) AS key_hash
+INTO #Legacy_API_Keys
+FROM device d
+WHERE d.APIKey IS NOT NULL AND d.APIKey <> ''
+  AND NOT EXISTS (SELECT 1 FROM Device_API_Keys k WHERE k.device_id = d.Device_ID);
+
+-- key_hash is unique, and a key shared by several devices would let each of them act as the
+-- others, so shared keys are not migrated. Those devices keep their plaintext key in
+-- device.APIKey and can't authenticate until they get a new key (rotate it in the admin UI).
+IF OBJECT_ID('tempdb..#Shared_API_Keys') IS NOT NULL DROP TABLE #Shared_API_Keys;
+
+SELECT l.device_id, l.key_prefix
+INTO #Shared_API_Keys
+FROM #Legacy_API_Keys l
+WHERE EXISTS (SELECT 1 FROM #Legacy_API_Keys o WHERE o.key_hash = l.key_hash AND o.device_id <> l.device_id)
+   OR EXISTS (SELECT 1 FROM Device_API_Keys k WHERE k.key_hash = l.key_hash);
+
+IF EXISTS (SELECT 1 FROM #Shared_API_Keys)
+BEGIN
+    PRINT 'Some devices share an API key and were not migrated; rotate their keys in the admin UI:';
+
+    SELECT device_id AS shared_key_device_id, key_prefix
+    FROM #Shared_API_Keys
+    ORDER BY key_prefix, device_id;
+END
+
+INSERT INTO Device_API_Keys (device_id, key_prefix, key_hash, status)
+SELECT l.device_id, l.key_prefix, l.key_hash, 'active'
+FROM #Legacy_API_Keys l
+WHERE NOT EXISTS (SELECT 1 FROM #Shared_API_Keys s WHERE s.device_id = l.device_id);
+
+INSERT INTO Device_API_Key_Audit (device_id, key_id, action, reason)
+SELECT k.device_id, k.key_id, 'import', 'Migrated from device.APIKey'
+FROM Device_API_Keys k
+WHERE NOT EXISTS (SELECT 1 FROM Device_API_Key_Audit a WHERE a.key_id = k.key_id);
+
+-- Only the visible prefix stays in the legacy column
+UPDATE d
+SET APIKey = k.key_prefix
+FROM device d
+JOIN Device_API_Keys k ON k.device_id = d.Device_ID AND k.status = 'active'
+WHERE d.APIKey <> k.key_prefix;
+
+DROP TABLE #Legacy_API_Keys;
+DROP TABLE #Shared_API_Keys;
+
+PRINT 'Existing device API keys migrated';
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME IN ('Device_API_Keys', 'Device_API_Key_Audit')
+ORDER BY TABLE_NAME, ORDINAL_POSITION;
@@ -0,0 +1,50 @@
+-- Create device request nonce table if it doesn't exist
+-- Device_Auth_Nonces remembers the nonce of every signed device request so a captured request
+-- can't be replayed. Rows are only needed while their timestamp is inside the signature window
+-- and are pruned by the API as devices make new requests.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Device_Auth_Nonces' AND xtype='U')
+BEGIN
+    CREATE TABLE Device_Auth_Nonces (
+        device_id NVARCHAR(50) NOT NULL,
+        nonce NVARCHAR(64) NOT NULL,
+        used_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+
+        CONSTRAINT PK_Device_Auth_Nonces PRIMARY KEY (device_id, nonce),
+
+        INDEX IX_Device_Auth_Nonces_UsedAt (device_id, used_at)
+    );
+
+    PRINT 'Device_Auth_Nonces table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Device_Auth_Nonces table already exists';
+END
+
+-- Signing keys are derived from the plain API key, HMAC-SHA256(apiKey, 'device-signing'), and
+-- stored encrypted so the at-rest key_hash can't be used to sign requests. Existing keys have no
+-- plain key on record; they get their signing key the next time the device sends its API key,
+-- which the signed config routes accept once in the X-API-Key header for this purpose.
+IF EXISTS (SELECT * FROM sysobjects WHERE name='Device_API_Keys' AND xtype='U')
+   AND NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('Device_API_Keys') AND name = 'signing_key_encrypted')
+BEGIN
+    ALTER TABLE Device_API_Keys ADD signing_key_encrypted NVARCHAR(200) NULL;
+
+    PRINT 'Device_API_Keys.signing_key_encrypted column added successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Device_API_Keys.signing_key_encrypted column already exists or Device_API_Keys is missing';
+END
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME = 'Device_Auth_Nonces'
+   OR (TABLE_NAME = 'Device_API_Keys' AND COLUMN_NAME = 'signing_key_encrypted')
+ORDER BY TABLE_NAME, ORDINAL_POSITION;
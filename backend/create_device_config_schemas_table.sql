@@ -0,0 +1,93 @@
+-- Device configuration schemas
+-- Versioned JSON Schemas that device configurations must satisfy. A schema applies to the devices
+-- of one ConversionLogicID; the schema with a NULL conversion_logic_id is the generic fallback.
+-- Saving a schema adds a new version and makes it the active one, so older versions stay available
+-- for reference and can be re-activated. Device_Configurations.config_schema_version records the
+-- schema version a configuration was validated against.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Device_Config_Schemas' AND xtype='U')
+BEGIN
+    CREATE TABLE Device_Config_Schemas (
+        schema_id INT IDENTITY(1,1) PRIMARY KEY,
+        conversion_logic_id INT NULL,
+        device_type NVARCHAR(20) NOT NULL,
+        schema_version INT NOT NULL,
+        description NVARCHAR(500) NULL,
+        schema_json NVARCHAR(MAX) NOT NULL,
+        is_active BIT NOT NULL DEFAULT 1,
+        created_by INT NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+
+        CONSTRAINT CK_Device_Config_Schemas_Json CHECK (ISJSON(schema_json) = 1),
+        CONSTRAINT UQ_Device_Config_Schemas_Version UNIQUE (conversion_logic_id, schema_version)
+    );
+
+    -- Only one active schema per logic ID (and one generic fallback)
+    CREATE UNIQUE INDEX UX_Device_Config_Schemas_Active
+        ON Device_Config_Schemas (conversion_logic_id)
+        WHERE is_active = 1;
+
+    PRINT 'Device_Config_Schemas table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Device_Config_Schemas table already exists';
+END
+GO
+
+-- Generic fallback schema matching the fields the configuration builder has always produced
+IF NOT EXISTS (SELECT * FROM Device_Config_Schemas WHERE conversion_logic_id IS NULL)
+BEGIN
+    INSERT INTO Device_Config_Schemas (conversion_logic_id, device_type, schema_version, description, schema_json, is_active)
+    VALUES (NULL, 'Generic', 1, 'Default schema for devices without a logic-specific schema', N'{
+  "type": "object",
+  "required": ["device_id", "thingspeak", "device_settings", "communication_settings"],
+  "properties": {
+    "device_id": { "type": "string", "title": "Device ID", "minLength": 1, "autofill": "device_id" },
+    "deviceType": { "type": "string", "title": "Device Type", "enum": ["P1", "P2", "Generic"] },
+    "thingspeak": {
+      "type": "object",
+      "title": "ThingSpeak",
+      "required": ["channel_id", "api_key", "field_id"],
+      "properties": {
+        "channel_id": { "type": "integer", "title": "Channel ID", "minimum": 1, "autofill": "channel_id" },
+        "api_key": { "type": "string", "title": "API Key", "maxLength": 64, "default": "", "description": "Write API key of the ThingSpeak channel" },
+        "field_id": { "type": "integer", "title": "Field ID", "minimum": 1, "maximum": 8, "default": 1, "autofill": "field_id" }
+      }
+    },
+    "device_settings": {
+      "type": "object",
+      "title": "Device Settings",
+      "properties": {
+        "sampling_rate_seconds": { "type": "integer", "title": "Sampling Rate", "unit": "s", "minimum": 10, "maximum": 3600, "default": 300, "description": "How often the device samples its sensors" },
+        "telemetry_interval_minutes": { "type": "integer", "title": "Telemetry Interval", "unit": "min", "minimum": 1, "maximum": 1440, "default": 8, "description": "How often readings are sent to the server" },
+        "motor_current_threshold_ma": { "type": "integer", "title": "Motor Current Threshold", "unit": "mA", "minimum": 0, "maximum": 50000, "default": 5000 },
+        "enable_gps_tracking": { "type": "boolean", "title": "Enable GPS Tracking", "default": true }
+      }
+    },
+    "communication_settings": {
+      "type": "object",
+      "title": "Communication",
+      "properties": {
+        "protocol": { "type": "string", "title": "Protocol", "enum": ["http", "https", "mqtt"], "default": "https" },
+        "endpoint_url": { "type": "string", "title": "Endpoint URL", "pattern": "^(https?|mqtts?)://", "maxLength": 500, "default": "https://your-endpoint.com/api/data" },
+        "retry_attempts": { "type": "integer", "title": "Retry Attempts", "minimum": 0, "maximum": 10, "default": 3 },
+        "timeout_seconds": { "type": "integer", "title": "Timeout", "unit": "s", "minimum": 1, "maximum": 300, "default": 30 },
+        "batch_size": { "type": "integer", "title": "Batch Size", "minimum": 1, "maximum": 1000, "default": 100, "description": "Readings sent per request" }
+      }
+    },
+    "custom_parameters": { "type": "object", "title": "Custom Parameters", "description": "Free-form key/value settings passed through to the firmware" }
+  }
+}', 1);
+
+    PRINT 'Generic configuration schema added';
+END
+
+-- Verify the table structure
+SELECT
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME = 'Device_Config_Schemas'
+ORDER BY ORDINAL_POSITION;
@@ -0,0 +1,60 @@
+-- Create device liveness tables if they don't exist
+-- Device_Liveness holds the last recorded online / late / offline / maintenance state of
+-- each device plus any maintenance window. Device_Liveness_History records every transition.
+-- Rows are maintained by the liveness sweep; devices without a row are computed on the fly.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Device_Liveness' AND xtype='U')
+BEGIN
+    CREATE TABLE Device_Liveness (
+        device_id NVARCHAR(50) NOT NULL PRIMARY KEY,
+        state NVARCHAR(20) NOT NULL,
+        state_changed_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+        last_seen_at DATETIME2 NULL,
+        maintenance_since DATETIME2 NULL,
+        maintenance_until DATETIME2 NULL,
+        maintenance_reason NVARCHAR(500) NULL,
+        updated_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+
+        CONSTRAINT CK_Device_Liveness_State CHECK (state IN ('online', 'late', 'offline', 'maintenance')),
+
+        INDEX IX_Device_Liveness_State (state)
+    );
+
+    PRINT 'Device_Liveness table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Device_Liveness table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Device_Liveness_History' AND xtype='U')
+BEGIN
+    CREATE TABLE Device_Liveness_History (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        device_id NVARCHAR(50) NOT NULL,
+        from_state NVARCHAR(20) NULL,
+        to_state NVARCHAR(20) NOT NULL,
+        last_seen_at DATETIME2 NULL,
+        reason NVARCHAR(500) NULL,
+        changed_by INT NULL,
+        changed_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+
+        INDEX IX_Device_Liveness_History_DeviceId (device_id, changed_at)
+    );
+
+    PRINT 'Device_Liveness_History table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Device_Liveness_History table already exists';
+END
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME IN ('Device_Liveness', 'Device_Liveness_History')
+ORDER BY TABLE_NAME, ORDINAL_POSITION;
@@ -0,0 +1,43 @@
+-- Layered (effective) device configuration
+-- A device downloads the merge of the active Universal_Communication_Config block, its client's
+-- overrides (Client_Config_Overrides) and its own active Device_Configurations row.
+-- Device_Configurations.effective_hash holds the hash of that merged result for the active row,
+-- so version polls, deployment reconciliation and drift detection compare against what the
+-- device actually downloads. It is NULL until first resolved, in which case config_hash applies.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Client_Config_Overrides' AND xtype='U')
+BEGIN
+    CREATE TABLE Client_Config_Overrides (
+        client_id INT PRIMARY KEY,
+        overrides_json NVARCHAR(MAX) NOT NULL,
+        notes NVARCHAR(500) NULL,
+        updated_by INT NULL,
+        updated_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+
+        CONSTRAINT CK_Client_Config_Overrides_Json CHECK (ISJSON(overrides_json) = 1)
+    );
+
+    PRINT 'Client_Config_Overrides table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Client_Config_Overrides table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('Device_Configurations') AND name = 'effective_hash')
+BEGIN
+    ALTER TABLE Device_Configurations ADD effective_hash NVARCHAR(64) NULL;
+
+    PRINT 'effective_hash column added to Device_Configurations table';
+END
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME = 'Client_Config_Overrides'
+   OR (TABLE_NAME = 'Device_Configurations' AND COLUMN_NAME = 'effective_hash')
+ORDER BY TABLE_NAME, ORDINAL_POSITION;
@@ -0,0 +1,76 @@
+-- Login throttling and the authentication audit log
+-- Failed logins are counted per account (keyed by email, whether or not it exists) and per IP
+-- address. After LOGIN_FREE_ATTEMPTS failures each further attempt has to wait a doubling delay,
+-- and reaching the lockout threshold locks the key for LOGIN_LOCKOUT_MINUTES. Counters restart
+-- once LOGIN_FAILURE_WINDOW_MINUTES pass without a lockout; a successful login clears the account.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Login_Throttle' AND xtype='U')
+BEGIN
+    CREATE TABLE Login_Throttle (
+        -- 'account:<email>' or 'ip:<address>'
+        throttle_key NVARCHAR(300) NOT NULL PRIMARY KEY,
+        failed_count INT NOT NULL DEFAULT 0,
+        first_failed_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        last_failed_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        locked_until DATETIME2 NULL,
+
+        INDEX IX_Login_Throttle_Locked (locked_until),
+        INDEX IX_Login_Throttle_Last_Failed (last_failed_at)
+    );
+
+    PRINT 'Login_Throttle table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Login_Throttle table already exists';
+END
+
+-- Logins, logouts, lockouts and token refreshes go to the same log as the two-factor events, so
+-- the log is created here too for installs that haven't run create_two_factor_tables.sql
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Auth_Events' AND xtype='U')
+BEGIN
+    CREATE TABLE Auth_Events (
+        event_id BIGINT IDENTITY(1,1) PRIMARY KEY,
+        event_type NVARCHAR(50) NOT NULL,
+        -- Account the event is about; NULL when it can't be tied to one
+        user_id INT NULL,
+        -- Admin who acted on the account, for admin actions
+        actor_user_id INT NULL,
+        ip_address NVARCHAR(45) NULL,
+        user_agent NVARCHAR(500) NULL,
+        details NVARCHAR(1000) NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+
+        INDEX IX_Auth_Events_Created (created_at),
+        INDEX IX_Auth_Events_User (user_id, created_at),
+        INDEX IX_Auth_Events_Type (event_type, created_at)
+    );
+
+    PRINT 'Auth_Events table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Auth_Events table already exists';
+END
+
+-- Filtering the log by address
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE object_id = OBJECT_ID('Auth_Events') AND name = 'IX_Auth_Events_Ip')
+BEGIN
+    CREATE INDEX IX_Auth_Events_Ip ON Auth_Events (ip_address, created_at);
+
+    PRINT 'IX_Auth_Events_Ip index created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'IX_Auth_Events_Ip index already exists';
+END
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME IN ('Login_Throttle', 'Auth_Events')
+ORDER BY TABLE_NAME, ORDINAL_POSITION;
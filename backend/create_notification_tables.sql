@@ -0,0 +1,178 @@
+-- Create alert notification tables if they don't exist
+-- Notification_Channels are admin-managed destinations (SMTP email, generic webhook, Slack-compatible webhook).
+-- Notification_Subscriptions let a user route alerts matching client / device / severity / type filters
+-- to a channel, either immediately or in a daily digest. Notification_Preferences holds per-user
+-- quiet hours and digest timing. Notification_Deliveries tracks each message and
+-- Notification_Delivery_Attempts logs every send attempt against it.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Notification_Channels' AND xtype='U')
+BEGIN
+    CREATE TABLE Notification_Channels (
+        channel_id INT IDENTITY(1,1) PRIMARY KEY,
+        name NVARCHAR(100) NOT NULL,
+        channel_type NVARCHAR(20) NOT NULL,
+        config NVARCHAR(MAX) NOT NULL DEFAULT '{}',
+        is_enabled BIT NOT NULL DEFAULT 1,
+        created_by INT NOT NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+        updated_by INT NULL,
+        updated_at DATETIME2 NULL,
+
+        CONSTRAINT CK_Notification_Channels_Type CHECK (channel_type IN ('email', 'webhook', 'slack')),
+        CONSTRAINT CK_Notification_Channels_Config CHECK (ISJSON(config) = 1)
+    );
+
+    PRINT 'Notification_Channels table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Notification_Channels table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Notification_Subscriptions' AND xtype='U')
+BEGIN
+    CREATE TABLE Notification_Subscriptions (
+        subscription_id INT IDENTITY(1,1) PRIMARY KEY,
+        user_id INT NOT NULL,
+        channel_id INT NOT NULL,
+        client_id NVARCHAR(50) NULL,
+        device_id NVARCHAR(50) NULL,
+        severities NVARCHAR(100) NULL,
+        alert_types NVARCHAR(500) NULL,
+        delivery_mode NVARCHAR(20) NOT NULL DEFAULT 'immediate',
+        is_enabled BIT NOT NULL DEFAULT 1,
+        created_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+        updated_at DATETIME2 NULL,
+
+        CONSTRAINT CK_Notification_Subscriptions_Mode CHECK (delivery_mode IN ('immediate', 'digest')),
+        CONSTRAINT FK_Notification_Subscriptions_Channels FOREIGN KEY (channel_id) REFERENCES Notification_Channels(channel_id) ON DELETE CASCADE,
+
+        INDEX IX_Notification_Subscriptions_UserId (user_id),
+        INDEX IX_Notification_Subscriptions_ChannelId (channel_id)
+    );
+
+    PRINT 'Notification_Subscriptions table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Notification_Subscriptions table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Notification_Preferences' AND xtype='U')
+BEGIN
+    CREATE TABLE Notification_Preferences (
+        user_id INT NOT NULL PRIMARY KEY,
+        timezone NVARCHAR(64) NOT NULL DEFAULT 'UTC',
+        quiet_hours_start NVARCHAR(5) NULL,
+        quiet_hours_end NVARCHAR(5) NULL,
+        critical_bypasses_quiet_hours BIT NOT NULL DEFAULT 1,
+        digest_hour INT NOT NULL DEFAULT 8,
+        last_digest_at DATETIME2 NULL,
+        updated_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+
+        CONSTRAINT CK_Notification_Preferences_DigestHour CHECK (digest_hour BETWEEN 0 AND 23)
+    );
+
+    PRINT 'Notification_Preferences table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Notification_Preferences table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Notification_Deliveries' AND xtype='U')
+BEGIN
+    CREATE TABLE Notification_Deliveries (
+        delivery_id INT IDENTITY(1,1) PRIMARY KEY,
+        kind NVARCHAR(20) NOT NULL DEFAULT 'alert',
+        alert_id INT NULL,
+        subscription_id INT NULL,
+        channel_id INT NOT NULL,
+        user_id INT NULL,
+        recipient NVARCHAR(500) NULL,
+        status NVARCHAR(20) NOT NULL,
+        attempts INT NOT NULL DEFAULT 0,
+        next_attempt_at DATETIME2 NULL,
+        last_error NVARCHAR(1000) NULL,
+        digest_id INT NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+        sent_at DATETIME2 NULL,
+        updated_at DATETIME2 NULL,
+
+        -- pending: due for sending, deferred: held by quiet hours, digest: waiting for the daily digest,
+        -- digested: folded into the digest delivery referenced by digest_id
+        CONSTRAINT CK_Notification_Deliveries_Kind CHECK (kind IN ('alert', 'digest', 'test')),
+        CONSTRAINT CK_Notification_Deliveries_Status CHECK (status IN ('pending', 'deferred', 'digest', 'digested', 'sent', 'failed')),
+
+        INDEX IX_Notification_Deliveries_Status (status, next_attempt_at),
+        INDEX IX_Notification_Deliveries_UserId (user_id, created_at),
+        INDEX IX_Notification_Deliveries_DigestId (digest_id)
+    );
+
+    PRINT 'Notification_Deliveries table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Notification_Deliveries table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Notification_Delivery_Attempts' AND xtype='U')
+BEGIN
+    CREATE TABLE Notification_Delivery_Attempts (
+        attempt_id INT IDENTITY(1,1) PRIMARY KEY,
+        delivery_id INT NOT NULL,
+        attempt_number INT NOT NULL,
+        succeeded BIT NOT NULL,
+        response_code NVARCHAR(50) NULL,
+        error NVARCHAR(1000) NULL,
+        duration_ms INT NULL,
+        attempted_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+
+        CONSTRAINT FK_Notification_Delivery_Attempts_Deliveries FOREIGN KEY (delivery_id) REFERENCES Notification_Deliveries(delivery_id) ON DELETE CASCADE,
+
+        INDEX IX_Notification_Delivery_Attempts_DeliveryId (delivery_id)
+    );
+
+    PRINT 'Notification_Delivery_Attempts table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Notification_Delivery_Attempts table already exists';
+END
+
+-- Single-row watermark of the last alert fanned out to subscriptions
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Notification_Dispatch_State' AND xtype='U')
+BEGIN
+    CREATE TABLE Notification_Dispatch_State (
+        id INT NOT NULL PRIMARY KEY DEFAULT 1,
+        last_alert_id INT NOT NULL DEFAULT 0,
+        updated_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+
+        CONSTRAINT CK_Notification_Dispatch_State_SingleRow CHECK (id = 1)
+    );
+
+    PRINT 'Notification_Dispatch_State table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Notification_Dispatch_State table already exists';
+END
+
+-- Example channels (uncomment and adjust created_by to an admin user id)
+-- INSERT INTO Notification_Channels (name, channel_type, config, created_by)
+-- VALUES ('Ops email', 'email', '{}', 1);
+-- INSERT INTO Notification_Channels (name, channel_type, config, created_by)
+-- VALUES ('Ops Slack', 'slack', '{"url": "https://hooks.slack.com/services/XXX/YYY/ZZZ"}', 1);
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME IN (
+    'Notification_Channels', 'Notification_Subscriptions', 'Notification_Preferences',
+    'Notification_Deliveries', 'Notification_Delivery_Attempts', 'Notification_Dispatch_State'
+)
+ORDER BY TABLE_NAME, ORDINAL_POSITION;
@@ -0,0 +1,35 @@
+-- Self-service password reset
+-- A forgot-password request emails a one-time link. Only a SHA-256 hash of the link's token is
+-- stored; tokens expire after PASSWORD_RESET_EXPIRY_MINUTES, are used up by the reset, and are
+-- superseded by a newer request. A completed reset ends all of the user's User_Sessions.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Password_Reset_Tokens' AND xtype='U')
+BEGIN
+    CREATE TABLE Password_Reset_Tokens (
+        token_id INT IDENTITY(1,1) PRIMARY KEY,
+        user_id INT NOT NULL,
+        token_hash NVARCHAR(64) NOT NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        expires_at DATETIME2 NOT NULL,
+        used_at DATETIME2 NULL,
+        requested_ip NVARCHAR(45) NULL,
+
+        CONSTRAINT UQ_Password_Reset_Tokens_Hash UNIQUE (token_hash),
+        INDEX IX_Password_Reset_Tokens_User (user_id, created_at)
+    );
+
+    PRINT 'Password_Reset_Tokens table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Password_Reset_Tokens table already exists';
+END
+
+-- Verify the table structure
+SELECT
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME = 'Password_Reset_Tokens'
+ORDER BY ORDINAL_POSITION;
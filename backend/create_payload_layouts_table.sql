@@ -0,0 +1,47 @@
+-- Create Payload_Layouts table if it doesn't exist
+-- Admin-defined payload layouts, one active layout per ConversionLogicID.
+-- Logic IDs 1 (P1) and 2 (P2) are built-in decoders and cannot be overridden.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Payload_Layouts' AND xtype='U')
+BEGIN
+    CREATE TABLE Payload_Layouts (
+        layout_id INT IDENTITY(1,1) PRIMARY KEY,
+        conversion_logic_id INT NOT NULL,
+        name NVARCHAR(100) NOT NULL,
+        logic_type NVARCHAR(20) NULL,
+        description NVARCHAR(500) NULL,
+        target_table NVARCHAR(128) NULL,
+        layout_json NVARCHAR(MAX) NOT NULL,
+        is_active BIT NOT NULL DEFAULT 1,
+        created_by INT NOT NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        updated_by INT NULL,
+        updated_at DATETIME2 NULL,
+
+        CONSTRAINT CK_Payload_Layouts_Json CHECK (ISJSON(layout_json) = 1),
+        CONSTRAINT CK_Payload_Layouts_LogicId CHECK (conversion_logic_id > 2),
+
+        INDEX IX_Payload_Layouts_LogicId (conversion_logic_id),
+        INDEX IX_Payload_Layouts_IsActive (is_active)
+    );
+
+    -- Only one active layout per logic ID
+    CREATE UNIQUE INDEX UX_Payload_Layouts_ActiveLogicId
+        ON Payload_Layouts (conversion_logic_id)
+        WHERE is_active = 1;
+
+    PRINT 'Payload_Layouts table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Payload_Layouts table already exists';
+END
+
+-- Verify the table structure
+SELECT 
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS 
+WHERE TABLE_NAME = 'Payload_Layouts'
+ORDER BY ORDINAL_POSITION;
@@ -0,0 +1,99 @@
+-- Scheduled configuration activation
+-- Device and universal configuration activations can be queued for a future time instead of
+-- taking effect immediately. A device activation can instead target the next maintenance window
+-- of the device (or, when the device has none, of its client). Windows repeat weekly and are
+-- defined in UTC. The server-side scheduler runs due activations with the same audit records as
+-- a manual activation; a window activation that missed its window waits for the next one.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Config_Maintenance_Windows' AND xtype='U')
+BEGIN
+    CREATE TABLE Config_Maintenance_Windows (
+        window_id INT IDENTITY(1,1) PRIMARY KEY,
+        scope_type NVARCHAR(10) NOT NULL,
+        scope_id NVARCHAR(50) NOT NULL,
+        window_name NVARCHAR(100) NOT NULL,
+        days_of_week NVARCHAR(20) NOT NULL,
+        start_minute INT NOT NULL,
+        duration_minutes INT NOT NULL,
+        is_active BIT NOT NULL DEFAULT 1,
+        created_by INT NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+
+        CONSTRAINT CK_Config_Maintenance_Windows_Scope CHECK (scope_type IN ('client', 'device')),
+        CONSTRAINT CK_Config_Maintenance_Windows_Start CHECK (start_minute BETWEEN 0 AND 1439),
+        CONSTRAINT CK_Config_Maintenance_Windows_Duration CHECK (duration_minutes BETWEEN 15 AND 1440),
+        INDEX IX_Config_Maintenance_Windows_Scope (scope_type, scope_id)
+    );
+
+    PRINT 'Config_Maintenance_Windows table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Config_Maintenance_Windows table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Scheduled_Config_Activations' AND xtype='U')
+BEGIN
+    CREATE TABLE Scheduled_Config_Activations (
+        schedule_id INT IDENTITY(1,1) PRIMARY KEY,
+        target_type NVARCHAR(10) NOT NULL,
+        device_id NVARCHAR(50) NULL,
+        config_id INT NOT NULL,
+        scheduled_for DATETIME2 NOT NULL,
+        window_id INT NULL,
+        window_ends_at DATETIME2 NULL,
+        status NVARCHAR(20) NOT NULL DEFAULT 'scheduled',
+        reason NVARCHAR(500) NULL,
+        error_message NVARCHAR(1000) NULL,
+        created_by INT NOT NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        -- When the scheduler picked the entry up; an entry left executing long after that is failed
+        claimed_at DATETIME2 NULL,
+        executed_at DATETIME2 NULL,
+        cancelled_by INT NULL,
+        cancelled_at DATETIME2 NULL,
+
+        CONSTRAINT CK_Scheduled_Config_Activations_Target CHECK (
+            (target_type = 'device' AND device_id IS NOT NULL) OR (target_type = 'universal' AND device_id IS NULL)
+        ),
+        CONSTRAINT CK_Scheduled_Config_Activations_Status CHECK (
+            status IN ('scheduled', 'executing', 'completed', 'failed', 'cancelled')
+        ),
+        CONSTRAINT FK_Scheduled_Config_Activations_Window FOREIGN KEY (window_id)
+            REFERENCES Config_Maintenance_Windows(window_id) ON DELETE SET NULL,
+        INDEX IX_Scheduled_Config_Activations_Due (status, scheduled_for)
+    );
+
+    -- One pending activation per device, and one for the universal configuration
+    CREATE UNIQUE INDEX UX_Scheduled_Config_Activations_Pending
+        ON Scheduled_Config_Activations (target_type, device_id)
+        WHERE status = 'scheduled';
+
+    PRINT 'Scheduled_Config_Activations table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Scheduled_Config_Activations table already exists';
+END
+
+-- Installs from before claimed_at existed
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('Scheduled_Config_Activations') AND name = 'claimed_at')
+BEGIN
+    ALTER TABLE Scheduled_Config_Activations ADD claimed_at DATETIME2 NULL;
+
+    PRINT 'Scheduled_Config_Activations.claimed_at column added successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Scheduled_Config_Activations.claimed_at column already exists';
+END
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME IN ('Config_Maintenance_Windows', 'Scheduled_Config_Activations')
+ORDER BY TABLE_NAME, ORDINAL_POSITION;
@@ -0,0 +1,34 @@
+-- Rotating refresh tokens for User_Sessions
+-- Every refresh marks the presented token used and issues its successor in the same session. A
+-- used token that is presented again means it was copied, so the whole session is ended.
+-- Only a SHA-256 hash of each refresh token is stored.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='User_Session_Refresh_Tokens' AND xtype='U')
+BEGIN
+    CREATE TABLE User_Session_Refresh_Tokens (
+        token_id INT IDENTITY(1,1) PRIMARY KEY,
+        session_id NVARCHAR(64) NOT NULL,
+        token_hash NVARCHAR(64) NOT NULL,
+        issued_at DATETIME2 NOT NULL DEFAULT GETDATE(),
+        used_at DATETIME2 NULL,
+        replaced_by INT NULL,
+
+        CONSTRAINT UQ_User_Session_Refresh_Tokens_Hash UNIQUE (token_hash),
+        INDEX IX_User_Session_Refresh_Tokens_Session (session_id)
+    );
+
+    PRINT 'User_Session_Refresh_Tokens table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'User_Session_Refresh_Tokens table already exists';
+END
+
+-- Verify the table structure
+SELECT
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME = 'User_Session_Refresh_Tokens'
+ORDER BY ORDINAL_POSITION;
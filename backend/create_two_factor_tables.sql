@@ -0,0 +1,96 @@
+-- TOTP two-factor authentication
+-- Users enroll an authenticator app (RFC 6238, 30 second steps, 6 digits) and get one-time
+-- recovery codes. TOTP secrets are stored AES-256-GCM encrypted; recovery codes as SHA-256 hashes.
+-- roles.requires_two_factor makes enrollment mandatory at the next login for every user of the role.
+-- Auth_Events records security-relevant account events for the session logs.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='User_Two_Factor' AND xtype='U')
+BEGIN
+    CREATE TABLE User_Two_Factor (
+        user_id INT PRIMARY KEY,
+        secret_encrypted NVARCHAR(255) NOT NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        -- NULL until the first code from the authenticator app is confirmed
+        enabled_at DATETIME2 NULL,
+        -- Time step of the last accepted code, so a code can't be used twice
+        last_used_step BIGINT NULL
+    );
+
+    PRINT 'User_Two_Factor table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'User_Two_Factor table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='User_Recovery_Codes' AND xtype='U')
+BEGIN
+    CREATE TABLE User_Recovery_Codes (
+        code_id INT IDENTITY(1,1) PRIMARY KEY,
+        user_id INT NOT NULL,
+        code_hash NVARCHAR(64) NOT NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        used_at DATETIME2 NULL,
+
+        INDEX IX_User_Recovery_Codes_User (user_id)
+    );
+
+    PRINT 'User_Recovery_Codes table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'User_Recovery_Codes table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='Auth_Events' AND xtype='U')
+BEGIN
+    CREATE TABLE Auth_Events (
+        event_id BIGINT IDENTITY(1,1) PRIMARY KEY,
+        event_type NVARCHAR(50) NOT NULL,
+        -- Account the event is about; NULL when it can't be tied to one
+        user_id INT NULL,
+        -- Admin who acted on the account, for admin actions
+        actor_user_id INT NULL,
+        ip_address NVARCHAR(45) NULL,
+        user_agent NVARCHAR(500) NULL,
+        details NVARCHAR(1000) NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+
+        INDEX IX_Auth_Events_Created (created_at),
+        INDEX IX_Auth_Events_User (user_id, created_at),
+        INDEX IX_Auth_Events_Type (event_type, created_at)
+    );
+
+    PRINT 'Auth_Events table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'Auth_Events table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('roles') AND name = 'requires_two_factor')
+BEGIN
+    ALTER TABLE roles ADD requires_two_factor BIT NOT NULL
+        CONSTRAINT DF_roles_requires_two_factor DEFAULT 0;
+
+    -- Admins can change roles, rotate device keys and push fleet-wide configs, so they start out
+    -- with 2FA required (the column is new in this batch, hence EXEC)
+    EXEC('UPDATE roles SET requires_two_factor = 1 WHERE name = ''admin''');
+
+    PRINT 'roles.requires_two_factor column added successfully';
+END
+ELSE
+BEGIN
+    PRINT 'roles.requires_two_factor column already exists';
+END
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME IN ('User_Two_Factor', 'User_Recovery_Codes', 'Auth_Events')
+   OR (TABLE_NAME = 'roles' AND COLUMN_NAME = 'requires_two_factor')
+ORDER BY TABLE_NAME, ORDINAL_POSITION;
@@ -0,0 +1,60 @@
+-- Invite-only registration
+-- Accounts are created from single-use, expiring invitations bound to an email, role and client.
+-- Only a SHA-256 hash of the invitation token is stored. When ALLOW_OPEN_REGISTRATION=true,
+-- sign-ups without an invitation are created with account_status 'pending' and can't log in until
+-- an admin approves them.
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='User_Invitations' AND xtype='U')
+BEGIN
+    CREATE TABLE User_Invitations (
+        invitation_id INT IDENTITY(1,1) PRIMARY KEY,
+        token_hash NVARCHAR(64) NOT NULL,
+        email NVARCHAR(255) NOT NULL,
+        role NVARCHAR(50) NOT NULL,
+        client_id NVARCHAR(50) NULL,
+        invited_by INT NOT NULL,
+        created_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+        expires_at DATETIME2 NOT NULL,
+        accepted_at DATETIME2 NULL,
+        accepted_user_id INT NULL,
+        revoked_at DATETIME2 NULL,
+        revoked_by INT NULL,
+
+        CONSTRAINT UQ_User_Invitations_Token UNIQUE (token_hash),
+        INDEX IX_User_Invitations_Email (email),
+        INDEX IX_User_Invitations_Created (created_at)
+    );
+
+    PRINT 'User_Invitations table created successfully';
+END
+ELSE
+BEGIN
+    PRINT 'User_Invitations table already exists';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('users') AND name = 'account_status')
+BEGIN
+    ALTER TABLE users ADD
+        account_status NVARCHAR(20) NOT NULL
+            CONSTRAINT DF_users_account_status DEFAULT 'active'
+            CONSTRAINT CK_users_account_status CHECK (account_status IN ('active', 'pending', 'rejected')),
+        status_changed_by INT NULL,
+        status_changed_at DATETIME2 NULL;
+
+    PRINT 'users.account_status column added successfully';
+END
+ELSE
+BEGIN
+    PRINT 'users.account_status column already exists';
+END
+
+-- Verify the table structure
+SELECT
+    TABLE_NAME,
+    COLUMN_NAME,
+    DATA_TYPE,
+    IS_NULLABLE,
+    COLUMN_DEFAULT
+FROM INFORMATION_SCHEMA.COLUMNS
+WHERE TABLE_NAME = 'User_Invitations'
+   OR (TABLE_NAME = 'users' AND COLUMN_NAME IN ('account_status', 'status_changed_by', 'status_changed_at'))
+ORDER BY TABLE_NAME, ORDINAL_POSITION;
@@ -0,0 +1,108 @@
+/**
+ * Notification Sandbox
+ * Local SMTP and HTTP stand-ins for testing alert notifications without real mail or webhook endpoints.
+ *
+ *   node notification_sandbox.js
+ *
+ * Then set SMTP_HOST=localhost, SMTP_PORT=2525 (no SMTP_USER / SMTP_SECURE) and point webhook or
+ * Slack channels at http://localhost:4010/<anything>. Received messages are printed to the console.
+ * Requests to a path containing "/fail" get a 500 so retries can be exercised.
+ */
+
+import net from 'net';
+import http from 'http';
+
+const SMTP_PORT = parseInt(process.env.SANDBOX_SMTP_PORT) || 2525;
+const HTTP_PORT = parseInt(process.env.SANDBOX_HTTP_PORT) || 4010;
+
+const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  cyan: '\x1b[36m'
+};
+
+// Just enough SMTP to accept a message from nodemailer
+const smtpServer = net.createServer(socket => {
+  let inData = false;
+  let buffer = '';
+  let envelope = { from: null, to: [], data: [] };
+
+  const reply = (line) => socket.write(`${line}\r\n`);
+  reply('220 notification-sandbox ESMTP');
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString();
+    let index;
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          console.log(`${colors.cyan}[SMTP] Mail from ${envelope.from} to ${envelope.to.join(', ')}${colors.reset}`);
+          console.log(envelope.data.join('\n'));
+          console.log('');
+          envelope = { from: null, to: [], data: [] };
+          reply('250 OK: queued');
+        } else {
+          envelope.data.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      if (command === 'EHLO' || command === 'HELO') {
+        reply('250 notification-sandbox');
+      } else if (command === 'MAIL') {
+        envelope.from = line.slice(10).trim();
+        reply('250 OK');
+      } else if (command === 'RCPT') {
+        envelope.to.push(line.slice(8).trim());
+        reply('250 OK');
+      } else if (command === 'DATA') {
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (command === 'RSET') {
+        envelope = { from: null, to: [], data: [] };
+        reply('250 OK');
+      } else if (command === 'NOOP') {
+        reply('250 OK');
+      } else if (command === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+      } else {
+        reply('502 Command not implemented');
+      }
+    }
+  });
+
+  socket.on('error', error => console.error(`${colors.red}[SMTP] ${error.message}${colors.reset}`));
+});
+
+// Accepts any POST and echoes it to the console
+const httpServer = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const failing = req.url.includes('/fail');
+    const color = failing ? colors.red : colors.green;
+    console.log(`${color}[HTTP] ${req.method} ${req.url} -> ${failing ? 500 : 200}${colors.reset}`);
+    if (req.headers['x-signature-sha256']) {
+      console.log(`X-Signature-SHA256: ${req.headers['x-signature-sha256']}`);
+    }
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+    console.log('');
+
+    res.writeHead(failing ? 500 : 200, { 'Content-Type': 'text/plain' });
+    res.end(failing ? 'sandbox failure' : 'ok');
+  });
+});
+
+smtpServer.listen(SMTP_PORT, () => console.log(`SMTP stand-in listening on localhost:${SMTP_PORT}`));
+httpServer.listen(HTTP_PORT, () => console.log(`HTTP stand-in listening on http://localhost:${HTTP_PORT}`));
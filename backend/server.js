@@ -2,6 +2,7 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
+import jwt from 'jsonwebtoken';
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
@@ -16,6 +17,16 @@ import motorRoutes from './src/routes/motors.js';
 import adminRoutes from './src/routes/admin.js';
 import deviceConfigRoutes from './src/routes/deviceConfig.js';
 import universalCommunicationRoutes from './src/routes/universalCommunication.js';
+import ingestRoutes from './src/routes/ingest.js';
+import payloadLayoutRoutes from './src/routes/payloadLayouts.js';
+import alertRuleRoutes from './src/routes/alertRules.js';
+import notificationRoutes from './src/routes/notifications.js';
+import AlertEngine from './src/services/alertEngine.js';
+import DeviceLivenessService from './src/services/deviceLiveness.js';
+import NotificationService from './src/services/notificationService.js';
+import DeploymentReconciler from './src/services/deploymentReconciler.js';
+import ConfigDriftService from './src/services/configDrift.js';
+import ScheduledActivationService from './src/services/scheduledActivations.js';
 
 // Load environment variables
 dotenv.config();
@@ -29,14 +40,52 @@ const PORT = process.env.PORT || 3001;
 // Security middleware
 app.use(helmet());
 
-// Rate limiting
+// Behind a load balancer the client address is in X-Forwarded-For; TRUST_PROXY is the number of
+// proxy hops to trust, so rate limits and login throttling see the real IP
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', parseInt(process.env.TRUST_PROXY) || 1);
+}
+
+// Rate limiting. Requests with an access token we signed get their own, higher budget per user, so
+// a busy office behind one address doesn't exhaust the per-IP limit; everything else (including
+// forged or expired tokens and all auth routes) stays limited per IP. Logins are additionally
+// throttled per account and per IP by the auth routes themselves.
+const getRateLimitUserId = (req) => {
+  if (req.rateLimitUserId !== undefined) return req.rateLimitUserId;
+
+  let userId = null;
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+  if (token && !req.path.startsWith('/api/v1/auth')) {
+    try {
+      userId = jwt.verify(token, process.env.JWT_SECRET).userId ?? null;
+    } catch {
+      userId = null;
+    }
+  }
+  req.rateLimitUserId = userId;
+  return userId;
+};
+
+const rateLimitWindowMs = (process.env.RATE_LIMIT_WINDOW || 15) * 60 * 1000; // 15 minutes
+
 const limiter = rateLimit({
-  windowMs: (process.env.RATE_LIMIT_WINDOW || 15) * 60 * 1000, // 15 minutes
+  windowMs: rateLimitWindowMs,
   max: process.env.RATE_LIMIT_MAX_REQUESTS || 100, // limit each IP to 100 requests per windowMs
-  message: 'Too many requests from this IP, please try again later.'
+  message: 'Too many requests from this IP, please try again later.',
+  skip: (req) => getRateLimitUserId(req) !== null
 });
 app.use(limiter);
 
+const userLimiter = rateLimit({
+  windowMs: rateLimitWindowMs,
+  max: parseInt(process.env.RATE_LIMIT_USER_MAX_REQUESTS) || 1000, // per signed-in user
+  message: 'Too many requests, please try again later.',
+  keyGenerator: (req) => `user:${getRateLimitUserId(req)}`,
+  skip: (req) => getRateLimitUserId(req) === null
+});
+app.use(userLimiter);
+
 // CORS configuration
 const allowedOrigins = [
   process.env.FRONTEND_URL,
@@ -58,7 +107,7 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key']
 }));
 
 // Body parsing middleware
@@ -75,6 +124,10 @@ app.use('/api/v1/motors', motorRoutes);
 app.use('/api/v1/admin', adminRoutes);
 app.use('/api/v1/device-config', deviceConfigRoutes);
 app.use('/api/v1/admin/universal-communication', universalCommunicationRoutes);
+app.use('/api/v1/ingest', ingestRoutes);
+app.use('/api/v1/payload-layouts', payloadLayoutRoutes);
+app.use('/api/v1/alert-rules', alertRuleRoutes);
+app.use('/api/v1/notifications', notificationRoutes);
 
 // Health check endpoint
 app.get('/api/v1/health', (req, res) => {
@@ -112,6 +165,48 @@ app.listen(PORT, '0.0.0.0', () => {
   console.log(`🏥 Health check: ${process.env.NODE_ENV === 'production' ? 'https://genvolt-webapp-backend-epezdjc9hfcyf4hr.centralindia-01.azurewebsites.net' : 'http://localhost:' + PORT}/api/v1/health`);
   console.log(`✅ CORS configured for origins:`, allowedOrigins);
   console.log(`📅 Started at: ${new Date().toISOString()}`);
+
+  // Alert rules are also evaluated right after ingestion; the sweep covers rows written by other pipelines
+  if (process.env.ALERT_ENGINE_ENABLED !== 'false') {
+    const sweepSeconds = parseInt(process.env.ALERT_SWEEP_INTERVAL_SECONDS) || 60;
+    AlertEngine.start(sweepSeconds * 1000);
+    console.log(`🔔 Alert engine sweeping every ${sweepSeconds}s`);
+  }
+
+  // Liveness transitions (and offline alerts) are recorded by a periodic sweep
+  if (process.env.LIVENESS_SWEEP_ENABLED !== 'false') {
+    const livenessSeconds = parseInt(process.env.LIVENESS_SWEEP_INTERVAL_SECONDS) || 60;
+    DeviceLivenessService.start(livenessSeconds * 1000);
+    console.log(`💓 Device liveness sweeping every ${livenessSeconds}s`);
+  }
+
+  // New alerts are picked up by the notification dispatcher, which also handles retries and digests
+  if (process.env.NOTIFICATIONS_ENABLED !== 'false') {
+    const notificationSeconds = parseInt(process.env.NOTIFICATION_SWEEP_INTERVAL_SECONDS) || 30;
+    NotificationService.start(notificationSeconds * 1000);
+    console.log(`📨 Notification dispatcher sweeping every ${notificationSeconds}s`);
+  }
+
+  // Deployments that devices never report on are confirmed from version polls, retried or expired
+  if (process.env.DEPLOYMENT_RECONCILER_ENABLED !== 'false') {
+    const reconcileSeconds = parseInt(process.env.DEPLOYMENT_RECONCILE_INTERVAL_SECONDS) || 60;
+    DeploymentReconciler.start(reconcileSeconds * 1000);
+    console.log(`🔄 Deployment reconciler sweeping every ${reconcileSeconds}s`);
+  }
+
+  // Devices whose reported config hash keeps differing from their active config raise drift alerts
+  if (process.env.CONFIG_DRIFT_SWEEP_ENABLED !== 'false') {
+    const driftSeconds = parseInt(process.env.CONFIG_DRIFT_SWEEP_INTERVAL_SECONDS) || 300;
+    ConfigDriftService.start(driftSeconds * 1000);
+    console.log(`🧭 Config drift sweep every ${driftSeconds}s`);
+  }
+
+  // Scheduled and maintenance-window configuration activations
+  if (process.env.CONFIG_SCHEDULER_ENABLED !== 'false') {
+    const schedulerSeconds = parseInt(process.env.CONFIG_SCHEDULER_INTERVAL_SECONDS) || 60;
+    ScheduledActivationService.start(schedulerSeconds * 1000);
+    console.log(`🗓️ Config activation scheduler every ${schedulerSeconds}s`);
+  }
 });
 
 export default app;
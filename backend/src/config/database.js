@@ -26,6 +26,7 @@ const config = {
 class Database {
   constructor() {
     this.pool = null;
+    this.readySchema = new Set();
   }
 
   async connect() {
@@ -77,6 +78,38 @@ class Database {
     }
   }
 
+  /**
+   * Check for tables (and columns added to existing tables) created by the migration scripts
+   * Tables are never dropped at runtime, so a positive check is cached
+   * @param {string[]} tables - Table names
+   * @param {string[]} columns - Columns as 'Table.column'
+   * @returns {Promise<boolean>} - true when all of them exist
+   */
+  async tablesExist(tables, columns = []) {
+    const cacheKey = [...tables, ...columns].join(',');
+    if (this.readySchema.has(cacheKey)) return true;
+
+    const params = {};
+    const checks = [
+      ...tables.map((table, index) => {
+        params[`table${index}`] = table;
+        return `EXISTS (SELECT 1 FROM sys.tables WHERE name = @table${index})`;
+      }),
+      ...columns.map((column, index) => {
+        const [table, name] = column.split('.');
+        params[`columnTable${index}`] = table;
+        params[`column${index}`] = name;
+        return `EXISTS (SELECT 1 FROM sys.columns WHERE object_id = OBJECT_ID(@columnTable${index}) AND name = @column${index})`;
+      })
+    ];
+
+    const result = await this.query(`SELECT CASE WHEN ${checks.join(' AND ')} THEN 1 ELSE 0 END as ready`, params);
+    if (result[0].ready !== 1) return false;
+
+    this.readySchema.add(cacheKey);
+    return true;
+  }
+
   async close() {
     try {
       if (this.pool) {
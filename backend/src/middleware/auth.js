@@ -21,9 +21,9 @@ export const authenticateToken = async (req, res, next) => {
 
     const decoded = jwt.verify(token, process.env.JWT_SECRET);
     
-    // Verify session is still active
-    console.log('Checking session validity for token:', token.substring(0, 20) + '...');
-    const sessionData = await SessionManager.validateSession(token);
+    // Verify session is still active (tokens issued before sessions were tracked have no sid)
+    console.log('Checking session validity for session:', decoded.sid);
+    const sessionData = decoded.sid ? await SessionManager.validateSession(decoded.sid) : null;
     console.log('Session validation result:', sessionData ? 'VALID' : 'INVALID');
     
     if (!sessionData) {
@@ -73,7 +73,7 @@ const ROLE_HIERARCHY = {
 };
 
 // Helper function to check if user role meets minimum requirement
-const hasMinimumRole = (userRole, requiredRole) => {
+export const hasMinimumRole = (userRole, requiredRole) => {
   const userLevel = ROLE_HIERARCHY[userRole] || 0;
   const requiredLevel = ROLE_HIERARCHY[requiredRole] || 0;
   return userLevel >= requiredLevel;
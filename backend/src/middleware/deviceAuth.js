@@ -0,0 +1,144 @@
+import database from '../config/database.js';
+import DeviceApiKeyService, { deriveSigningKey, safeEqual, signDeviceRequest } from '../services/deviceApiKeys.js';
+import { tablesMissingResponse } from './tablesMissing.js';
+
+const SIGNATURE_WINDOW_SECONDS = parseInt(process.env.DEVICE_SIGNATURE_WINDOW_SECONDS) || 300;
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+const loadDevice = async (deviceId) => {
+  const devices = await database.query(
+    'SELECT Device_ID, client_id, APIKey, ConversionLogicID FROM device WHERE Device_ID = @deviceId',
+    { deviceId }
+  );
+  return devices[0] || null;
+};
+
+const toRequestDevice = (device, apiKeyId) => ({
+  id: device.Device_ID,
+  clientId: device.client_id,
+  conversionLogicId: device.ConversionLogicID,
+  apiKeyId
+});
+
+// Authenticate a device using its per-device API key.
+// The key is accepted from the X-API-Key header or, for ThingSpeak-style
+// firmware, from an api_key field in the body or query string. Keys are checked
+// against the hashed Device_API_Keys table; the plaintext device.APIKey column is
+// only used until create_device_api_keys_tables.sql has been run.
+export const authenticateDevice = async (req, res, next) => {
+  try {
+    const { deviceId } = req.params;
+    const apiKey = req.headers['x-api-key'] || req.body?.api_key || req.query?.api_key;
+
+    if (!apiKey) {
+      return res.status(401).json({ error: 'Device API key required' });
+    }
+
+    const device = await loadDevice(deviceId);
+
+    let apiKeyId = null;
+    if (device && await DeviceApiKeyService.tablesExist()) {
+      const key = await DeviceApiKeyService.verify(device.Device_ID, apiKey);
+      apiKeyId = key?.keyId || null;
+    } else if (device && device.APIKey && safeEqual(device.APIKey, apiKey)) {
+      apiKeyId = 'legacy';
+    }
+
+    // Same response for unknown devices and wrong keys to avoid device enumeration
+    if (!apiKeyId) {
+      return res.status(401).json({ error: 'Invalid device credentials' });
+    }
+
+    req.device = toRequestDevice(device, apiKeyId);
+
+    next();
+  } catch (error) {
+    console.error('Device authentication error:', error);
+    return res.status(500).json({ error: 'Device authentication failed' });
+  }
+};
+
+// Keys migrated from device.APIKey have no signing key, and only the plain key can produce one.
+// Such a key is accepted once in the X-API-Key header; its signing key is stored then, and the
+// device has to sign every later request.
+const bootstrapSigningKey = async (req) => {
+  if (!await DeviceApiKeyService.tablesExist() || !await DeviceApiKeyService.signingColumnExists()) {
+    return false;
+  }
+
+  const device = await loadDevice(req.params.deviceId);
+  const key = device && await DeviceApiKeyService.bootstrapSigningKey(device.Device_ID, req.headers['x-api-key']);
+  if (!key) {
+    return false;
+  }
+
+  req.device = toRequestDevice(device, key.keyId);
+  return true;
+};
+
+// Authenticate a signed device request for the device-facing config endpoints.
+// The API key itself is never sent: the device signs "deviceId:timestamp:nonce"
+// with HMAC-SHA256 keyed by its signing key, HMAC-SHA256(apiKey, "device-signing") in hex, and sends
+//   X-Device-Timestamp: unix time in seconds
+//   X-Device-Nonce:     8-64 random characters [A-Za-z0-9_-], never reused
+//   X-Device-Signature: hex HMAC
+// The signature is bound to the deviceId in the URL, so a device can only read or
+// report its own config. User JWTs are not accepted on these routes. A device whose key
+// predates signing keys sends X-API-Key on its first request instead (see bootstrapSigningKey).
+export const authenticateSignedDevice = async (req, res, next) => {
+  try {
+    const { deviceId } = req.params;
+    const timestamp = req.headers['x-device-timestamp'];
+    const nonce = req.headers['x-device-nonce'];
+    const signature = req.headers['x-device-signature'];
+
+    if (!timestamp || !nonce || !signature) {
+      if (req.headers['x-api-key'] && await bootstrapSigningKey(req)) {
+        return next();
+      }
+      return res.status(401).json({ error: 'Device signature required' });
+    }
+
+    const requestTime = Number(timestamp);
+    if (!Number.isInteger(requestTime) || Math.abs(Date.now() / 1000 - requestTime) > SIGNATURE_WINDOW_SECONDS) {
+      return res.status(401).json({ error: 'Request timestamp outside allowed window' });
+    }
+
+    if (!NONCE_PATTERN.test(nonce)) {
+      return res.status(401).json({ error: 'Invalid request nonce' });
+    }
+
+    const keysTable = await DeviceApiKeyService.tablesExist();
+    if (!await DeviceApiKeyService.nonceTableExists() || (keysTable && !await DeviceApiKeyService.signingColumnExists())) {
+      return tablesMissingResponse(res, 'Device request signing', 'create_device_auth_nonces_table.sql');
+    }
+
+    const device = await loadDevice(deviceId);
+
+    let apiKeyId = null;
+    if (device && keysTable) {
+      const key = await DeviceApiKeyService.verifySignature(device.Device_ID, timestamp, nonce, signature);
+      apiKeyId = key?.keyId || null;
+    } else if (device && device.APIKey) {
+      const expected = signDeviceRequest(deriveSigningKey(device.APIKey), device.Device_ID, timestamp, nonce);
+      apiKeyId = safeEqual(expected, String(signature).toLowerCase()) ? 'legacy' : null;
+    }
+
+    // Same response for unknown devices and wrong signatures to avoid device enumeration
+    if (!apiKeyId) {
+      return res.status(401).json({ error: 'Invalid device credentials' });
+    }
+
+    // Nonces are recorded only after the signature checks out, so unsigned traffic can't fill the table
+    if (!await DeviceApiKeyService.consumeNonce(device.Device_ID, nonce, SIGNATURE_WINDOW_SECONDS)) {
+      return res.status(401).json({ error: 'Request nonce already used' });
+    }
+
+    req.device = toRequestDevice(device, apiKeyId);
+
+    next();
+  } catch (error) {
+    console.error('Device signature authentication error:', error);
+    return res.status(500).json({ error: 'Device authentication failed' });
+  }
+};
@@ -1,24 +1,53 @@
 import database from '../config/database.js';
-import { randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import sql from 'mssql';
+import { randomUUID, randomBytes, createHash } from 'crypto';
+
+// Access tokens are short-lived and renewed with a rotating refresh token. The session behind them
+// ends after SESSION_IDLE_TIMEOUT_MINUTES without API activity, or SESSION_ABSOLUTE_TIMEOUT_HOURS
+// after login, whichever comes first.
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
+const IDLE_TIMEOUT_MINUTES = parseInt(process.env.SESSION_IDLE_TIMEOUT_MINUTES) || 30;
+const ABSOLUTE_TIMEOUT_HOURS = parseInt(process.env.SESSION_ABSOLUTE_TIMEOUT_HOURS) || 12;
+
+const hashToken = (token) => createHash('sha256').update(String(token)).digest('hex');
 
 class SessionManager {
+  static async refreshTokensAvailable() {
+    return database.tablesExist(['User_Session_Refresh_Tokens']);
+  }
+
+  static signAccessToken(user, sessionId, expiresIn = ACCESS_TOKEN_EXPIRES_IN) {
+    return jwt.sign(
+      {
+        userId: user.id,
+        email: user.email,
+        role: user.roles,
+        sid: sessionId
+      },
+      process.env.JWT_SECRET,
+      { expiresIn }
+    );
+  }
+
   // Create a new session when user logs in
-  static async createSession(userId, token, req) {
+  // Returns { sessionId, token, refreshToken }, or null when the session couldn't be recorded.
+  // Without the refresh token table the access token lasts as long as the session instead.
+  static async createSession(user, req) {
     try {
       const userAgent = req.headers['user-agent'] || 'Unknown';
       const ipAddress = req.ip || req.connection.remoteAddress || req.socket.remoteAddress || 'Unknown';
       
-      console.log(`Creating session for user ${userId}, IP: ${ipAddress}`);
+      console.log(`Creating session for user ${user.id}, IP: ${ipAddress}`);
       
       // Clean up old expired sessions first
       await this.cleanupExpiredSessions();
       
-      // Calculate expiration time (7 days from now)
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
-      
-      // Create new session record using existing table structure
+      const withRefresh = await this.refreshTokensAvailable();
       const sessionId = randomUUID();
+      const token = this.signAccessToken(user, sessionId, withRefresh ? ACCESS_TOKEN_EXPIRES_IN : `${ABSOLUTE_TIMEOUT_HOURS}h`);
+
+      // Create new session record using existing table structure
       const result = await database.query(`
         INSERT INTO User_Sessions (
           session_id,
@@ -29,16 +58,18 @@ class SessionManager {
           last_activity
         )
         OUTPUT INSERTED.session_id
-        VALUES (@sessionId, @userId, @token, @expiresAt, GETDATE(), GETDATE())
+        VALUES (@sessionId, @userId, @token, DATEADD(HOUR, @absoluteHours, GETDATE()), GETDATE(), GETDATE())
       `, {
         sessionId,
-        userId: userId.toString(),
+        userId: user.id.toString(),
         token,
-        expiresAt
+        absoluteHours: ABSOLUTE_TIMEOUT_HOURS
       });
 
       console.log(`Session created successfully with ID: ${result[0]?.session_id}`);
-      return result[0]?.session_id;
+
+      const refreshToken = withRefresh ? await this.issueRefreshToken(sessionId) : null;
+      return { sessionId, token, refreshToken };
     } catch (error) {
       console.error('Error creating session:', error);
       console.error('Error details:', error.message);
@@ -46,36 +77,149 @@ class SessionManager {
     }
   }
 
+  static async issueRefreshToken(sessionId) {
+    const refreshToken = randomBytes(32).toString('base64url');
+    await database.query(`
+      INSERT INTO User_Session_Refresh_Tokens (session_id, token_hash, issued_at)
+      VALUES (@sessionId, @tokenHash, GETDATE())
+    `, { sessionId, tokenHash: hashToken(refreshToken) });
+    return refreshToken;
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token.
+   * Presenting a token that was already exchanged ends its session, since only a copy of the
+   * token could still be holding it.
+   * @returns {Promise<Object>} - { token, refreshToken, userId } on success, otherwise
+   *   { error, reuseDetected, userId } (userId is missing when the token is unknown)
+   */
+  static async rotateRefreshToken(refreshToken) {
+    const rows = await database.query(`
+      SELECT
+        t.token_id,
+        t.session_id,
+        t.used_at,
+        u.id,
+        u.email,
+        u.roles,
+        CASE WHEN s.expires_at > GETDATE()
+          AND s.last_activity > DATEADD(MINUTE, -@idleMinutes, GETDATE()) THEN 1 ELSE 0 END as is_live
+      FROM User_Session_Refresh_Tokens t
+      INNER JOIN User_Sessions s ON s.session_id = t.session_id
+      INNER JOIN users u ON CAST(s.user_id AS INT) = u.id
+      WHERE t.token_hash = @tokenHash
+    `, { tokenHash: hashToken(refreshToken), idleMinutes: IDLE_TIMEOUT_MINUTES });
+
+    const row = rows[0];
+    if (!row) {
+      return { error: 'Invalid refresh token' };
+    }
+    if (row.used_at) {
+      await this.revokeSessionFamily(row.session_id, row.id);
+      return { error: 'Refresh token reuse detected; the session has been ended', reuseDetected: true, userId: row.id };
+    }
+    if (!row.is_live) {
+      return { error: 'Session expired or invalid', userId: row.id };
+    }
+
+    const token = this.signAccessToken(row, row.session_id);
+    const nextRefreshToken = randomBytes(32).toString('base64url');
+
+    const pool = await database.connect();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      // Only one caller can exchange a token; a concurrent second use counts as reuse
+      const claimed = await transaction.request()
+        .input('tokenId', row.token_id)
+        .query(`
+          UPDATE User_Session_Refresh_Tokens
+          SET used_at = GETDATE()
+          OUTPUT INSERTED.token_id
+          WHERE token_id = @tokenId AND used_at IS NULL
+        `);
+      if (claimed.recordset.length === 0) {
+        await transaction.rollback();
+        await this.revokeSessionFamily(row.session_id, row.id);
+        return { error: 'Refresh token reuse detected; the session has been ended', reuseDetected: true, userId: row.id };
+      }
+
+      const issued = await transaction.request()
+        .input('sessionId', row.session_id)
+        .input('tokenHash', hashToken(nextRefreshToken))
+        .query(`
+          INSERT INTO User_Session_Refresh_Tokens (session_id, token_hash, issued_at)
+          OUTPUT INSERTED.token_id
+          VALUES (@sessionId, @tokenHash, GETDATE())
+        `);
+
+      await transaction.request()
+        .input('tokenId', row.token_id)
+        .input('replacedBy', issued.recordset[0].token_id)
+        .query('UPDATE User_Session_Refresh_Tokens SET replaced_by = @replacedBy WHERE token_id = @tokenId');
+
+      await transaction.request()
+        .input('sessionId', row.session_id)
+        .input('token', token)
+        .query('UPDATE User_Sessions SET session_token = @token WHERE session_id = @sessionId');
+
+      await transaction.commit();
+      return { token, refreshToken: nextRefreshToken, userId: row.id };
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  // End a session and retire every refresh token issued for it
+  static async revokeSessionFamily(sessionId, userId) {
+    console.warn(`Refresh token reuse for session ${sessionId} (user ${userId}); ending session`);
+    await this.endSession(sessionId);
+    await database.query(`
+      UPDATE User_Session_Refresh_Tokens
+      SET used_at = GETDATE()
+      WHERE session_id = @sessionId AND used_at IS NULL
+    `, { sessionId });
+  }
+
   // Update session on logout
-  static async endSession(token) {
+  static async endSession(sessionId) {
     try {
       await database.query(`
         UPDATE User_Sessions 
         SET expires_at = GETDATE()
-        WHERE session_token = @token AND expires_at > GETDATE()
-      `, { token });
+        WHERE session_id = @sessionId AND expires_at > GETDATE()
+      `, { sessionId });
     } catch (error) {
       console.error('Error ending session:', error);
     }
   }
 
-  // Validate if session is still active
-  static async validateSession(token) {
+  // End every live session of a user, e.g. after their password was reset
+  // Returns the number of sessions ended
+  static async endAllUserSessions(userId) {
+    const ended = await database.query(`
+      UPDATE User_Sessions
+      SET expires_at = GETDATE()
+      OUTPUT INSERTED.session_id
+      WHERE user_id = @userId AND expires_at > GETDATE()
+    `, { userId: userId.toString() });
+    return ended.length;
+  }
+
+  // Validate that a session is live and record the activity; sessions past the idle or absolute
+  // timeout are rejected
+  static async validateSession(sessionId) {
     try {
       const sessions = await database.query(`
-        SELECT 
-          s.session_id,
-          s.user_id,
-          s.created_at,
-          s.expires_at,
-          u.user_name,
-          u.email,
-          u.roles
-        FROM User_Sessions s
-        INNER JOIN users u ON CAST(s.user_id AS INT) = u.id
-        WHERE s.session_token = @token 
-        AND s.expires_at > GETDATE()
-      `, { token });
+        UPDATE User_Sessions
+        SET last_activity = GETDATE()
+        OUTPUT INSERTED.session_id, INSERTED.user_id, INSERTED.created_at, INSERTED.expires_at
+        WHERE session_id = @sessionId
+        AND expires_at > GETDATE()
+        AND last_activity > DATEADD(MINUTE, -@idleMinutes, GETDATE())
+      `, { sessionId, idleMinutes: IDLE_TIMEOUT_MINUTES });
 
       return sessions[0] || null;
     } catch (error) {
@@ -84,9 +228,25 @@ class SessionManager {
     }
   }
 
+  // Close sessions that went idle so they stop counting as active; they are rejected on use anyway
+  static async expireIdleSessions() {
+    try {
+      await database.query(`
+        UPDATE User_Sessions
+        SET expires_at = DATEADD(MINUTE, @idleMinutes, last_activity)
+        WHERE expires_at > GETDATE()
+        AND last_activity <= DATEADD(MINUTE, -@idleMinutes, GETDATE())
+      `, { idleMinutes: IDLE_TIMEOUT_MINUTES });
+    } catch (error) {
+      console.error('Error expiring idle sessions:', error);
+    }
+  }
+
   // Get all active sessions for admin
   static async getActiveSessions() {
     try {
+      await this.expireIdleSessions();
+
       const sessions = await database.query(`
         SELECT 
           s.session_id,
@@ -116,6 +276,8 @@ class SessionManager {
   // Get sessions with pagination and filtering
   static async getSessionsPaginated(page = 1, limit = 20, filter = 'active', searchTerm = '', startDate = null, endDate = null, sortBy = 'created_at', sortOrder = 'desc') {
     try {
+      await this.expireIdleSessions();
+
       const offset = (page - 1) * limit;
       
       // Build WHERE clause based on filter
@@ -237,6 +399,8 @@ class SessionManager {
   // Get sessions for specific user
   static async getUserSessions(userId) {
     try {
+      await this.expireIdleSessions();
+
       const sessions = await database.query(`
         SELECT 
           session_id,
@@ -297,6 +461,13 @@ class SessionManager {
         DELETE FROM User_Sessions 
         WHERE expires_at < DATEADD(day, -7, GETDATE())
       `);
+
+      if (await this.refreshTokensAvailable()) {
+        await database.query(`
+          DELETE t FROM User_Session_Refresh_Tokens t
+          WHERE NOT EXISTS (SELECT 1 FROM User_Sessions s WHERE s.session_id = t.session_id)
+        `);
+      }
     } catch (error) {
       console.error('Error cleaning up expired sessions:', error);
     }
@@ -305,6 +476,8 @@ class SessionManager {
   // Get session statistics for admin dashboard
   static async getSessionStats() {
     try {
+      await this.expireIdleSessions();
+
       const stats = await database.query(`
         SELECT 
           COUNT(CASE WHEN expires_at > GETDATE() THEN 1 END) as active_sessions,
@@ -0,0 +1,6 @@
+// Response for features whose tables haven't been created yet
+export const tablesMissingResponse = (res, feature, script) => res.status(501).json({
+  success: false,
+  error: `${feature} not yet available. Database tables need to be created.`,
+  details: `Please run ${script}.`
+});
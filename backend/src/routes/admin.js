@@ -4,6 +4,12 @@ import database from '../config/database.js';
 import { authenticateToken, requireAdmin } from '../middleware/auth.js';
 import bcrypt from 'bcrypt';
 import SessionManager from '../middleware/sessionManager.js';
+import { tablesMissingResponse } from '../middleware/tablesMissing.js';
+import DeviceApiKeyService, { MAX_GRACE_HOURS, getKeyPrefix, toKeyResponse } from '../services/deviceApiKeys.js';
+import UserInvitationService from '../services/userInvitations.js';
+import TwoFactorService from '../services/twoFactor.js';
+import AuthEventService, { AUTH_EVENT_TYPES } from '../services/authEvents.js';
+import LoginThrottleService from '../services/loginThrottle.js';
 
 const router = express.Router();
 
@@ -30,13 +36,15 @@ router.get('/debug', async (req, res) => {
 router.get('/users', async (req, res) => {
   try {
     console.log('Fetching users from database...');
+    const withStatus = await UserInvitationService.tablesExist();
     const users = await database.query(`
       SELECT 
         u.id,
         u.user_name,
         u.email,
         u.roles,
-        u.client_id
+        u.client_id,
+        ${withStatus ? 'u.account_status' : "'active' as account_status"}
       FROM users u
       ORDER BY u.id DESC
     `);
@@ -51,7 +59,7 @@ router.get('/users', async (req, res) => {
         email: user.email,
         role: user.roles,
         clientId: user.client_id,
-        status: 'active', // You can add status field to database later
+        status: user.account_status,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       }))
@@ -187,6 +195,88 @@ router.post('/users', [
   }
 });
 
+// Approve or reject an account that signed up without an invitation
+router.put('/users/:userId/:decision(approve|reject)', [
+  param('userId').isNumeric()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await UserInvitationService.tablesExist()) {
+      return tablesMissingResponse(res, 'Account approval', 'create_user_invitations_table.sql');
+    }
+
+    const { userId, decision } = req.params;
+    const user = await UserInvitationService.setAccountStatus(
+      parseInt(userId),
+      decision === 'approve' ? 'active' : 'rejected',
+      req.user.id
+    );
+    if (!user) {
+      return res.status(404).json({ error: 'No pending account with this ID' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        id: user.id,
+        name: user.user_name,
+        email: user.email,
+        role: user.roles,
+        clientId: user.client_id,
+        status: user.account_status
+      },
+      message: decision === 'approve' ? 'Account approved' : 'Account rejected'
+    });
+
+  } catch (error) {
+    console.error('Error deciding pending account:', error);
+    res.status(500).json({ error: 'Failed to update account status' });
+  }
+});
+
+// Reset a user's two-factor authentication, e.g. after a lost phone. They enroll again at their
+// next login if their role requires it.
+router.post('/users/:userId/2fa/reset', [
+  param('userId').isNumeric(),
+  body('reason').optional().isString().trim().isLength({ max: 500 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await TwoFactorService.tablesExist()) {
+      return tablesMissingResponse(res, 'Two-factor authentication', 'create_two_factor_tables.sql');
+    }
+
+    const userId = parseInt(req.params.userId);
+    if (!await TwoFactorService.disable(userId)) {
+      return res.status(404).json({ error: 'Two-factor authentication is not set up for this user' });
+    }
+
+    await AuthEventService.record('TWO_FACTOR_RESET', {
+      userId,
+      actorUserId: req.user.id,
+      req,
+      details: req.body.reason || null
+    });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication reset'
+    });
+
+  } catch (error) {
+    console.error('Error resetting two-factor authentication:', error);
+    res.status(500).json({ error: 'Failed to reset two-factor authentication' });
+  }
+});
+
 // Update user
 router.put('/users/:userId', [
   param('userId').isNumeric(),
@@ -550,7 +640,7 @@ router.get('/devices/:deviceId', [
           channelId: device.Channel_ID,
           fieldId: device.Field_ID,
           clientId: device.client_id,
-          apiKey: device.APIKey, // Full API key for editing
+          apiKey: device.APIKey ? device.APIKey.substring(0, 8) + '...' : 'N/A', // Only the prefix is stored once keys are hashed
           conversionLogicId: device.ConversionLogicID,
           lastDataTime: device.last_data_time,
           status: device.status,
@@ -613,7 +703,9 @@ router.put('/devices/:deviceId', [
       updateFields.client_id = '@clientId';
       params.clientId = req.body.clientId;
     }
-    if (req.body.apiKey !== undefined) {
+    // Hashed key storage replaces the plaintext column once its tables exist
+    const hashedKeys = req.body.apiKey !== undefined && await DeviceApiKeyService.tablesExist();
+    if (req.body.apiKey !== undefined && !hashedKeys) {
       updateFields.APIKey = '@apiKey';
       params.apiKey = req.body.apiKey;
     }
@@ -622,10 +714,30 @@ router.put('/devices/:deviceId', [
       params.conversionLogicId = req.body.conversionLogicId;
     }
 
-    if (Object.keys(updateFields).length === 0) {
+    if (Object.keys(updateFields).length === 0 && !hashedKeys) {
       return res.status(400).json({ error: 'No fields to update' });
     }
 
+    if (hashedKeys) {
+      const existing = await database.query('SELECT Device_ID FROM device WHERE Device_ID = @deviceId', { deviceId });
+      if (existing.length === 0) {
+        return res.status(404).json({ error: 'Device not found' });
+      }
+      await DeviceApiKeyService.importKey(deviceId, req.body.apiKey, {
+        userId: req.user.id,
+        reason: 'Key set from device settings',
+        req
+      });
+
+      if (Object.keys(updateFields).length === 0) {
+        return res.json({
+          success: true,
+          message: 'Device updated successfully',
+          data: { Device_ID: deviceId }
+        });
+      }
+    }
+
     const setClause = Object.entries(updateFields)
       .map(([field, placeholder]) => `${field} = ${placeholder}`)
       .join(', ');
@@ -687,6 +799,9 @@ router.post('/devices', [
       return res.status(409).json({ error: 'Device with this ID already exists' });
     }
 
+    // With hashed key storage the device row only keeps the key's visible prefix
+    const hashedKeys = await DeviceApiKeyService.tablesExist();
+
     // Insert new device
     const result = await database.query(`
       INSERT INTO device (Device_ID, Channel_ID, Field_ID, client_id, APIKey, ConversionLogicID)
@@ -696,12 +811,21 @@ router.post('/devices', [
       channelId,
       fieldId: fieldId || null,
       clientId,
-      apiKey,
+      apiKey: hashedKeys ? getKeyPrefix(apiKey) : apiKey,
       conversionLogicId
     });
 
     const rowsAffected = result?.rowsAffected?.[0] || result?.rowsAffected || 0;
     if (rowsAffected > 0) {
+      if (hashedKeys) {
+        await DeviceApiKeyService.importKey(deviceId, apiKey, {
+          userId: req.user.id,
+          reason: 'Key set when device was added',
+          graceHours: 0,
+          req
+        });
+      }
+
       res.status(201).json({
         success: true,
         message: 'Device added to monitoring successfully',
@@ -710,7 +834,7 @@ router.post('/devices', [
           channelId,
           fieldId,
           clientId,
-          apiKey: apiKey.substring(0, 8) + '...', // Mask API key in response
+          apiKey: getKeyPrefix(apiKey) + '...', // Mask API key in response
           conversionLogicId
         }
       });
@@ -765,6 +889,252 @@ router.delete('/devices/:deviceId', [
   }
 });
 
+// Device API key lifecycle
+
+const apiKeyTablesMissingResponse = (res) => tablesMissingResponse(res, 'API key management', 'create_device_api_keys_tables.sql');
+
+const findDevice = async (deviceId) => {
+  const devices = await database.query('SELECT Device_ID FROM device WHERE Device_ID = @deviceId', { deviceId });
+  return devices[0] || null;
+};
+
+// Get a device's keys (prefix and usage only - full keys are never stored)
+router.get('/device/:deviceId/api-key', [
+  param('deviceId').isString().notEmpty()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!(await DeviceApiKeyService.tablesExist())) {
+      return apiKeyTablesMissingResponse(res);
+    }
+
+    const { deviceId } = req.params;
+    if (!(await findDevice(deviceId))) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    const keys = (await DeviceApiKeyService.getKeys(deviceId)).map(key => toKeyResponse(key));
+    const current = keys.find(key => key.state === 'active') || null;
+    await DeviceApiKeyService.logAction(deviceId, current?.keyId, 'view', { userId: req.user.id, req });
+
+    res.json({
+      success: true,
+      data: {
+        deviceId,
+        current,
+        keys,
+        viewedBy: req.user.username,
+        viewedAt: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching device API key:', error);
+    res.status(500).json({ error: 'Failed to fetch device API key' });
+  }
+});
+
+// Regenerate a device's key; the previous key keeps working for the grace period
+router.post('/device/:deviceId/api-key', [
+  param('deviceId').isString().notEmpty(),
+  body('reason').isString().trim().isLength({ min: 1, max: 500 }),
+  body('graceHours').optional().isInt({ min: 0, max: MAX_GRACE_HOURS }).toInt(),
+  body('expiresAt').optional({ nullable: true }).isISO8601().custom(value => {
+    if (new Date(value) <= new Date()) {
+      throw new Error('expiresAt must be in the future');
+    }
+    return true;
+  })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!(await DeviceApiKeyService.tablesExist())) {
+      return apiKeyTablesMissingResponse(res);
+    }
+
+    const { deviceId } = req.params;
+    if (!(await findDevice(deviceId))) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    const { apiKey, key, previousGraceUntil } = await DeviceApiKeyService.rotate(deviceId, {
+      userId: req.user.id,
+      reason: req.body.reason,
+      graceHours: req.body.graceHours,
+      expiresAt: req.body.expiresAt || null,
+      req
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'API key regenerated. Store it now - it will not be shown again.',
+      data: {
+        apiKey,
+        key: toKeyResponse(key),
+        previousKeyGraceUntil: previousGraceUntil
+      }
+    });
+
+  } catch (error) {
+    console.error('Error regenerating device API key:', error);
+    res.status(500).json({ error: 'Failed to regenerate device API key' });
+  }
+});
+
+// Set or clear a key's expiry date
+router.put('/device/:deviceId/api-key/:keyId/expiry', [
+  param('deviceId').isString().notEmpty(),
+  param('keyId').isInt({ min: 1 }).toInt(),
+  body('expiresAt').optional({ nullable: true }).isISO8601(),
+  body('reason').optional().isString().isLength({ max: 500 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!(await DeviceApiKeyService.tablesExist())) {
+      return apiKeyTablesMissingResponse(res);
+    }
+
+    const { deviceId, keyId } = req.params;
+    const key = await DeviceApiKeyService.setExpiry(deviceId, keyId, req.body.expiresAt || null, {
+      userId: req.user.id,
+      reason: req.body.reason,
+      req
+    });
+
+    if (!key) {
+      return res.status(404).json({ error: 'API key not found or already revoked' });
+    }
+
+    res.json({
+      success: true,
+      message: 'API key expiry updated',
+      data: toKeyResponse(key)
+    });
+
+  } catch (error) {
+    console.error('Error updating API key expiry:', error);
+    res.status(500).json({ error: 'Failed to update API key expiry' });
+  }
+});
+
+// Revoke a key immediately (e.g. end a rotation grace period early)
+router.put('/device/:deviceId/api-key/:keyId/revoke', [
+  param('deviceId').isString().notEmpty(),
+  param('keyId').isInt({ min: 1 }).toInt(),
+  body('reason').optional().isString().isLength({ max: 500 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!(await DeviceApiKeyService.tablesExist())) {
+      return apiKeyTablesMissingResponse(res);
+    }
+
+    const { deviceId, keyId } = req.params;
+    const key = await DeviceApiKeyService.revoke(deviceId, keyId, {
+      userId: req.user.id,
+      reason: req.body.reason,
+      req
+    });
+
+    if (!key) {
+      return res.status(404).json({ error: 'API key not found or already revoked' });
+    }
+
+    res.json({
+      success: true,
+      message: 'API key revoked',
+      data: toKeyResponse(key)
+    });
+
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
+// Record client-side actions on a revealed key (copy to clipboard)
+router.post('/device/:deviceId/api-key/log', [
+  param('deviceId').isString().notEmpty(),
+  body('action').isIn(['copy']),
+  body('keyId').optional({ nullable: true }).isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!(await DeviceApiKeyService.tablesExist())) {
+      return apiKeyTablesMissingResponse(res);
+    }
+
+    await DeviceApiKeyService.logAction(req.params.deviceId, req.body.keyId, req.body.action, {
+      userId: req.user.id,
+      req
+    });
+
+    res.json({ success: true, message: 'Action logged' });
+
+  } catch (error) {
+    console.error('Error logging API key action:', error);
+    res.status(500).json({ error: 'Failed to log API key action' });
+  }
+});
+
+// Get the key audit trail for a device
+router.get('/device/:deviceId/api-key/audit', [
+  param('deviceId').isString().notEmpty(),
+  query('limit').optional().isInt({ min: 1, max: 200 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!(await DeviceApiKeyService.tablesExist())) {
+      return apiKeyTablesMissingResponse(res);
+    }
+
+    const entries = await DeviceApiKeyService.getAudit(req.params.deviceId, req.query.limit || 50);
+
+    res.json({
+      success: true,
+      data: entries.map(entry => ({
+        auditId: entry.audit_id,
+        keyId: entry.key_id,
+        keyPrefix: entry.key_prefix,
+        action: entry.action,
+        reason: entry.reason,
+        userId: entry.user_id,
+        userName: entry.user_name,
+        timestamp: entry.timestamp,
+        ipAddress: entry.ip_address
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error fetching API key audit trail:', error);
+    res.status(500).json({ error: 'Failed to fetch API key audit trail' });
+  }
+});
+
 // Get available client IDs for dropdown
 router.get('/client-ids', async (req, res) => {
   try {
@@ -908,6 +1278,115 @@ router.delete('/sessions/:sessionId', [
   }
 });
 
+// Authentication audit log (logins, lockouts, logouts, token refreshes, 2FA and password resets)
+// for the session logs
+router.get('/sessions/events', [
+  query('userId').optional().isNumeric(),
+  query('eventType').optional().isIn(AUTH_EVENT_TYPES),
+  query('search').optional().isString().trim().isLength({ max: 100 }),
+  query('ipAddress').optional().isString().trim().isLength({ max: 45 }),
+  query('since').optional().isISO8601().toDate(),
+  query('limit').optional().isInt({ min: 1, max: 500 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await AuthEventService.tablesExist()) {
+      return tablesMissingResponse(res, 'Security events', 'create_login_throttle_tables.sql');
+    }
+
+    const events = await AuthEventService.list({
+      userId: req.query.userId ? parseInt(req.query.userId) : null,
+      eventType: req.query.eventType || null,
+      search: req.query.search || null,
+      ipAddress: req.query.ipAddress || null,
+      since: req.query.since || null,
+      limit: req.query.limit || 100
+    });
+
+    res.json({
+      success: true,
+      data: events
+    });
+
+  } catch (error) {
+    console.error('Error fetching security events:', error);
+    res.status(500).json({ error: 'Failed to fetch security events' });
+  }
+});
+
+const loginThrottleTablesMissingResponse = (res) => tablesMissingResponse(res, 'Login lockouts', 'create_login_throttle_tables.sql');
+
+// Accounts and IP addresses currently locked out of login
+router.get('/sessions/lockouts', async (req, res) => {
+  try {
+    if (!await LoginThrottleService.tablesExist()) {
+      return loginThrottleTablesMissingResponse(res);
+    }
+
+    const lockouts = await LoginThrottleService.listLockouts();
+
+    res.json({
+      success: true,
+      data: lockouts
+    });
+
+  } catch (error) {
+    console.error('Error fetching login lockouts:', error);
+    res.status(500).json({ error: 'Failed to fetch login lockouts' });
+  }
+});
+
+// Lift a lockout before it runs out
+router.delete('/sessions/lockouts/:throttleKey', [
+  param('throttleKey').isString().matches(/^(account|ip):.+/)
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await LoginThrottleService.tablesExist()) {
+      return loginThrottleTablesMissingResponse(res);
+    }
+
+    const { throttleKey } = req.params;
+    const unlocked = await LoginThrottleService.unlock(throttleKey);
+    if (!unlocked) {
+      return res.status(404).json({ error: 'Lockout not found or already expired' });
+    }
+
+    // Account lockouts are logged against the user when the email belongs to one
+    let userId = null;
+    if (throttleKey.startsWith('account:')) {
+      const users = await database.query(
+        'SELECT id FROM users WHERE email = @email',
+        { email: throttleKey.slice('account:'.length) }
+      );
+      userId = users[0]?.id || null;
+    }
+    await AuthEventService.record('LOGIN_UNLOCKED', {
+      userId,
+      actorUserId: req.user.id,
+      req,
+      details: `Lockout lifted for ${throttleKey}`
+    });
+
+    res.json({
+      success: true,
+      message: 'Lockout lifted'
+    });
+
+  } catch (error) {
+    console.error('Error lifting login lockout:', error);
+    res.status(500).json({ error: 'Failed to lift login lockout' });
+  }
+});
+
 // Get session statistics
 router.get('/sessions/stats', requireAdmin, async (req, res) => {
   try {
@@ -1050,6 +1529,65 @@ router.get('/roles', requireAdmin, async (req, res) => {
   }
 });
 
+// Which roles must use two-factor authentication
+router.get('/two-factor/policy', async (req, res) => {
+  try {
+    if (!await TwoFactorService.tablesExist()) {
+      return tablesMissingResponse(res, 'Two-factor authentication', 'create_two_factor_tables.sql');
+    }
+
+    res.json({
+      success: true,
+      data: await TwoFactorService.getPolicy()
+    });
+
+  } catch (error) {
+    console.error('Error fetching two-factor policy:', error);
+    res.status(500).json({ error: 'Failed to fetch two-factor policy' });
+  }
+});
+
+router.put('/two-factor/policy/:roleName', [
+  param('roleName').isLength({ min: 1 }).trim(),
+  body('required').isBoolean()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await TwoFactorService.tablesExist()) {
+      return tablesMissingResponse(res, 'Two-factor authentication', 'create_two_factor_tables.sql');
+    }
+
+    const { roleName } = req.params;
+    const required = req.body.required === true || req.body.required === 'true';
+    const role = await TwoFactorService.setRolePolicy(roleName, required);
+    if (!role) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+
+    await AuthEventService.record('TWO_FACTOR_POLICY_CHANGED', {
+      actorUserId: req.user.id,
+      req,
+      details: `${roleName}: ${required ? 'required' : 'optional'}`
+    });
+
+    res.json({
+      success: true,
+      data: role,
+      message: required
+        ? `Two-factor authentication is now required for ${roleName}`
+        : `Two-factor authentication is now optional for ${roleName}`
+    });
+
+  } catch (error) {
+    console.error('Error updating two-factor policy:', error);
+    res.status(500).json({ error: 'Failed to update two-factor policy' });
+  }
+});
+
 // Update role permissions
 router.put('/roles/:roleName/permissions', [
   requireAdmin,
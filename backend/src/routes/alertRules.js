@@ -0,0 +1,304 @@
+import express from 'express';
+import { body, param, validationResult } from 'express-validator';
+import database from '../config/database.js';
+import { authenticateToken, requireAdmin, requireViewerOrAbove } from '../middleware/auth.js';
+import { addDataFilter } from '../middleware/dataFilter.js';
+import { tablesMissingResponse } from '../middleware/tablesMissing.js';
+import { TELEMETRY_TABLES_BY_NAME } from '../services/telemetryTables.js';
+import AlertEngine, { RULE_CONDITION_TYPES, RULE_OPERATORS, describeRule } from '../services/alertEngine.js';
+
+const router = express.Router();
+
+router.use(authenticateToken);
+router.use(requireViewerOrAbove);
+router.use(addDataFilter);
+
+const tableMissingResponse = (res) => tablesMissingResponse(res, 'Alert rules', 'create_alert_rules_tables.sql');
+
+const ruleValidators = [
+  body('name').isString().trim().isLength({ min: 1, max: 100 }),
+  body('description').optional({ nullable: true }).isString().isLength({ max: 500 }),
+  body('clientId').optional({ nullable: true }).isString(),
+  body('deviceId').optional({ nullable: true }).isString(),
+  body('telemetryTable').isIn(Object.keys(TELEMETRY_TABLES_BY_NAME)),
+  body('conditionType').isIn(RULE_CONDITION_TYPES),
+  body('fieldName').isString().notEmpty(),
+  body('operator').optional({ nullable: true }).isIn(Object.keys(RULE_OPERATORS)),
+  body('thresholdValue').optional({ nullable: true }).isFloat().toFloat(),
+  body('thresholdConfigKey').optional({ nullable: true }).isString().matches(/^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/),
+  body('faultCodes').optional({ nullable: true }).isArray(),
+  body('faultCodes.*').optional().isInt({ min: 0 }).toInt(),
+  body('consecutiveReadings').optional().isInt({ min: 1, max: 1000 }).toInt(),
+  body('clearReadings').optional().isInt({ min: 1, max: 1000 }).toInt(),
+  body('severity').isIn(['info', 'warning', 'critical']),
+  body('isEnabled').optional().isBoolean().toBoolean()
+];
+
+// Cross-field checks the per-field validators can't express; returns a list of errors
+function validateRuleDefinition(rule) {
+  const errors = [];
+  const target = TELEMETRY_TABLES_BY_NAME[rule.telemetryTable];
+
+  if (target && !target.columns.includes(rule.fieldName)) {
+    errors.push(`fieldName must be one of ${target.columns.join(', ')}`);
+  }
+
+  if (rule.conditionType === 'threshold') {
+    if (!rule.operator) {
+      errors.push('operator is required for threshold rules');
+    }
+    const hasValue = rule.thresholdValue !== null && rule.thresholdValue !== undefined;
+    if (hasValue === Boolean(rule.thresholdConfigKey)) {
+      errors.push('Provide either thresholdValue or thresholdConfigKey');
+    }
+  } else if (!rule.faultCodes || rule.faultCodes.length === 0) {
+    errors.push('faultCodes is required for fault_code rules');
+  }
+
+  return errors;
+}
+
+const toParams = (rule) => ({
+  name: rule.name,
+  description: rule.description || null,
+  // A device scope implies its client, so only one of the two is stored
+  clientId: rule.deviceId ? null : (rule.clientId || null),
+  deviceId: rule.deviceId || null,
+  telemetryTable: rule.telemetryTable,
+  conditionType: rule.conditionType,
+  fieldName: rule.fieldName,
+  operator: rule.conditionType === 'threshold' ? rule.operator : null,
+  thresholdValue: rule.conditionType === 'threshold' ? (rule.thresholdValue ?? null) : null,
+  thresholdConfigKey: rule.conditionType === 'threshold' ? (rule.thresholdConfigKey || null) : null,
+  faultCodes: rule.conditionType === 'fault_code' ? rule.faultCodes.join(',') : null,
+  consecutiveReadings: rule.consecutiveReadings || 1,
+  clearReadings: rule.clearReadings || 1,
+  severity: rule.severity,
+  isEnabled: rule.isEnabled ?? true
+});
+
+const toResponse = (row) => {
+  const rule = AlertEngine.toRule(row);
+  return { ...rule, condition: describeRule(rule) };
+};
+
+// Tables, fields and operators available to rules (drives the admin form)
+router.get('/meta', async (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      tables: Object.values(TELEMETRY_TABLES_BY_NAME).map(target => ({
+        table: target.table,
+        columns: target.columns
+      })),
+      operators: Object.entries(RULE_OPERATORS).map(([value, operator]) => ({ value, symbol: operator.symbol })),
+      conditionTypes: RULE_CONDITION_TYPES
+    }
+  });
+});
+
+// List rules; non-admins only see global rules and rules scoped to their clients
+router.get('/', async (req, res) => {
+  try {
+    if (!(await AlertEngine.tablesExist())) {
+      return res.json({ success: true, data: [] });
+    }
+
+    const { dataFilter } = req;
+    let whereClause = '';
+    let params = {};
+
+    if (!dataFilter.isAdmin) {
+      const { whereClause: clientFilter, params: clientParams } = dataFilter.buildClientFilter('d');
+      whereClause = `
+        WHERE (r.client_id IS NULL AND r.device_id IS NULL)
+          OR r.client_id IN (SELECT d.client_id FROM device d WHERE ${clientFilter})
+          OR r.device_id IN (SELECT d.Device_ID FROM device d WHERE ${clientFilter})
+      `;
+      params = clientParams;
+    }
+
+    const rows = await database.query(`
+      SELECT r.* FROM Alert_Rules r
+      ${whereClause}
+      ORDER BY r.is_enabled DESC, r.name
+    `, params);
+
+    res.json({
+      success: true,
+      data: rows.map(toResponse)
+    });
+
+  } catch (error) {
+    console.error('Error fetching alert rules:', error);
+    res.status(500).json({ error: 'Failed to fetch alert rules' });
+  }
+});
+
+// Create rule (admin only)
+router.post('/', [requireAdmin, ...ruleValidators], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!(await AlertEngine.tablesExist())) {
+      return tableMissingResponse(res);
+    }
+
+    const ruleErrors = validateRuleDefinition(req.body);
+    if (ruleErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid alert rule', details: ruleErrors });
+    }
+
+    const result = await database.query(`
+      INSERT INTO Alert_Rules (
+        name, description, client_id, device_id, telemetry_table, condition_type, field_name,
+        operator, threshold_value, threshold_config_key, fault_codes,
+        consecutive_readings, clear_readings, severity, is_enabled, created_by, created_at
+      )
+      OUTPUT INSERTED.*
+      VALUES (
+        @name, @description, @clientId, @deviceId, @telemetryTable, @conditionType, @fieldName,
+        @operator, @thresholdValue, @thresholdConfigKey, @faultCodes,
+        @consecutiveReadings, @clearReadings, @severity, @isEnabled, @userId, GETDATE()
+      )
+    `, { ...toParams(req.body), userId: req.user.id });
+
+    res.status(201).json({
+      success: true,
+      data: toResponse(result[0]),
+      message: 'Alert rule created successfully'
+    });
+
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    res.status(500).json({ error: 'Failed to create alert rule' });
+  }
+});
+
+// Update rule (admin only); counters restart so the new condition is applied cleanly
+router.put('/:ruleId', [
+  requireAdmin,
+  param('ruleId').isInt({ min: 1 }).toInt(),
+  ...ruleValidators
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!(await AlertEngine.tablesExist())) {
+      return tableMissingResponse(res);
+    }
+
+    const ruleErrors = validateRuleDefinition(req.body);
+    if (ruleErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid alert rule', details: ruleErrors });
+    }
+
+    const result = await database.query(`
+      UPDATE Alert_Rules
+      SET name = @name,
+          description = @description,
+          client_id = @clientId,
+          device_id = @deviceId,
+          telemetry_table = @telemetryTable,
+          condition_type = @conditionType,
+          field_name = @fieldName,
+          operator = @operator,
+          threshold_value = @thresholdValue,
+          threshold_config_key = @thresholdConfigKey,
+          fault_codes = @faultCodes,
+          consecutive_readings = @consecutiveReadings,
+          clear_readings = @clearReadings,
+          severity = @severity,
+          is_enabled = @isEnabled,
+          updated_by = @userId,
+          updated_at = GETDATE()
+      OUTPUT INSERTED.*
+      WHERE rule_id = @ruleId
+    `, { ...toParams(req.body), ruleId: req.params.ruleId, userId: req.user.id });
+
+    if (result.length === 0) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+
+    await database.query(
+      'UPDATE Alert_Rule_State SET match_count = 0, clear_count = 0 WHERE rule_id = @ruleId',
+      { ruleId: req.params.ruleId }
+    );
+
+    res.json({
+      success: true,
+      data: toResponse(result[0]),
+      message: 'Alert rule updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    res.status(500).json({ error: 'Failed to update alert rule' });
+  }
+});
+
+// Delete rule (admin only); alerts it raised are kept for history
+router.delete('/:ruleId', [
+  requireAdmin,
+  param('ruleId').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!(await AlertEngine.tablesExist())) {
+      return tableMissingResponse(res);
+    }
+
+    const result = await database.query(
+      'DELETE FROM Alert_Rules OUTPUT DELETED.rule_id WHERE rule_id = @ruleId',
+      { ruleId: req.params.ruleId }
+    );
+
+    if (result.length === 0) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Alert rule deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    res.status(500).json({ error: 'Failed to delete alert rule' });
+  }
+});
+
+// Run the engine now instead of waiting for the next sweep (admin only)
+router.post('/evaluate', requireAdmin, async (req, res) => {
+  try {
+    if (!(await AlertEngine.tablesExist())) {
+      return tableMissingResponse(res);
+    }
+
+    const summary = await AlertEngine.evaluate();
+    if (!summary) {
+      return res.status(409).json({ error: 'Alert evaluation already in progress' });
+    }
+
+    res.json({
+      success: true,
+      data: summary
+    });
+
+  } catch (error) {
+    console.error('Error evaluating alert rules:', error);
+    res.status(500).json({ error: 'Failed to evaluate alert rules' });
+  }
+});
+
+export default router;
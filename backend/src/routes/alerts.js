@@ -2,12 +2,98 @@ import express from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import database from '../config/database.js';
 import { authenticateToken, requireViewerOrAbove, requireUserOrAdmin } from '../middleware/auth.js';
+import { addDataFilter, requireDataAccess, addClientFilterToQuery } from '../middleware/dataFilter.js';
+import { tablesMissingResponse } from '../middleware/tablesMissing.js';
 
 const router = express.Router();
 
-// Apply authentication to all alert routes
+const ALERT_SELECT = `
+  SELECT
+    a.*,
+    d.client_id,
+    ua.user_name AS acknowledged_by_name,
+    ur.user_name AS resolved_by_name
+  FROM alerts a
+  LEFT JOIN device d ON a.device_id = d.Device_ID
+  LEFT JOIN users ua ON a.acknowledged_by = ua.id
+  LEFT JOIN users ur ON a.resolved_by = ur.id
+`;
+
+// Rule columns only exist once create_alert_rules_tables.sql has been run
+const toAlertResponse = (alert) => ({
+  id: alert.id,
+  deviceId: alert.device_id,
+  clientId: alert.client_id || null,
+  type: alert.alert_type,
+  severity: alert.severity,
+  status: alert.status,
+  title: alert.title,
+  description: alert.description,
+  createdAt: alert.created_at,
+  updatedAt: alert.updated_at,
+  acknowledgedAt: alert.acknowledged_at,
+  acknowledgedBy: alert.acknowledged_by,
+  acknowledgedByName: alert.acknowledged_by_name || null,
+  resolvedAt: alert.resolved_at,
+  resolvedBy: alert.resolved_by,
+  resolvedByName: alert.resolved_by_name || null,
+  resolution: alert.resolution || null,
+  ruleId: alert.rule_id ?? null,
+  triggerCount: alert.trigger_count ?? 1,
+  triggerValue: alert.trigger_value ?? null,
+  lastTriggeredAt: alert.last_triggered_at ?? null
+});
+
+/**
+ * Restrict an UPDATE on alerts to devices owned by the user's clients (admins are unrestricted)
+ * @param {Object} dataFilter - Data filter from req.dataFilter
+ * @returns {Object} - {condition, params}
+ */
+const accessibleDeviceCondition = (dataFilter) => {
+  if (dataFilter.isAdmin) {
+    return { condition: '', params: {} };
+  }
+
+  const { whereClause, params } = dataFilter.buildClientFilter('d');
+  return {
+    condition: ` AND device_id IN (SELECT d.Device_ID FROM device d WHERE ${whereClause})`,
+    params
+  };
+};
+
+/**
+ * Audit trail for acknowledge / resolve actions
+ */
+const logAlertAction = async (alertId, action, req, previousStatus, notes) => {
+  try {
+    await database.query(`
+      INSERT INTO Alert_Audit (
+        alert_id, action, previous_status, notes,
+        user_id, timestamp, ip_address, user_agent
+      ) VALUES (
+        @alertId, @action, @previousStatus, @notes,
+        @userId, GETDATE(), @ipAddress, @userAgent
+      )
+    `, {
+      alertId,
+      action,
+      previousStatus: previousStatus || null,
+      notes: notes || null,
+      userId: req.user.id,
+      ipAddress: req.ip || null,
+      userAgent: req.get('User-Agent') || null
+    });
+  } catch (error) {
+    console.error('Failed to log alert audit:', error);
+    // Don't throw - audit logging failure shouldn't break the main operation
+  }
+};
+
+// Apply authentication and client isolation to all alert routes
 router.use(authenticateToken);
 router.use(requireViewerOrAbove);
+router.use(addDataFilter);
+router.use(requireDataAccess);
 
 // Get all alerts with filtering and pagination
 router.get('/', [
@@ -24,6 +110,7 @@ router.get('/', [
     }
 
     const { status, severity, deviceId, page = 1, limit = 20 } = req.query;
+    const { dataFilter } = req;
     const offset = (page - 1) * limit;
 
     // Build WHERE clause
@@ -45,34 +132,20 @@ router.get('/', [
       params.deviceId = deviceId;
     }
 
+    const { query: filteredWhereClause, params: filterParams } = addClientFilterToQuery(whereClause, dataFilter, 'd');
+    Object.assign(params, filterParams);
+
     // Get total count
     const countResult = await database.query(
-      `SELECT COUNT(*) as total FROM alerts a ${whereClause}`,
+      `SELECT COUNT(*) as total FROM alerts a LEFT JOIN device d ON a.device_id = d.Device_ID ${filteredWhereClause}`,
       params
     );
     const total = countResult[0]?.total || 0;
 
     // Get paginated alerts
     const alerts = await database.query(`
-      SELECT 
-        a.id,
-        a.device_id,
-        a.alert_type,
-        a.severity,
-        a.status,
-        a.title,
-        a.description,
-        a.created_at,
-        a.updated_at,
-        a.acknowledged_at,
-        a.acknowledged_by,
-        a.resolved_at,
-        a.resolved_by,
-        d.device_name,
-        d.location
-      FROM alerts a
-      LEFT JOIN devices d ON a.device_id = d.device_id
-      ${whereClause}
+      ${ALERT_SELECT}
+      ${filteredWhereClause}
       ORDER BY 
         CASE a.severity 
           WHEN 'critical' THEN 1
@@ -85,23 +158,7 @@ router.get('/', [
 
     res.json({
       success: true,
-      data: alerts.map(alert => ({
-        id: alert.id,
-        deviceId: alert.device_id,
-        deviceName: alert.device_name,
-        location: alert.location,
-        type: alert.alert_type,
-        severity: alert.severity,
-        status: alert.status,
-        title: alert.title,
-        description: alert.description,
-        createdAt: alert.created_at,
-        updatedAt: alert.updated_at,
-        acknowledgedAt: alert.acknowledged_at,
-        acknowledgedBy: alert.acknowledged_by,
-        resolvedAt: alert.resolved_at,
-        resolvedBy: alert.resolved_by
-      })),
+      data: alerts.map(toAlertResponse),
       pagination: {
         page,
         limit,
@@ -116,9 +173,58 @@ router.get('/', [
   }
 });
 
+// Get alert statistics (registered before /:alertId so 'stats' isn't parsed as an id)
+router.get('/stats/summary', async (req, res) => {
+  try {
+    const { dataFilter } = req;
+
+    const statsQuery = `
+      SELECT 
+        COUNT(*) as total_alerts,
+        COUNT(CASE WHEN a.status = 'active' THEN 1 END) as active_alerts,
+        COUNT(CASE WHEN a.status = 'acknowledged' THEN 1 END) as acknowledged_alerts,
+        COUNT(CASE WHEN a.status = 'resolved' THEN 1 END) as resolved_alerts,
+        COUNT(CASE WHEN a.severity = 'critical' THEN 1 END) as critical_alerts,
+        COUNT(CASE WHEN a.severity = 'warning' THEN 1 END) as warning_alerts,
+        COUNT(CASE WHEN a.severity = 'info' THEN 1 END) as info_alerts,
+        COUNT(CASE WHEN a.status = 'active' AND a.severity = 'critical' THEN 1 END) as active_critical_alerts,
+        COUNT(CASE WHEN a.created_at >= DATEADD(hour, -24, GETDATE()) THEN 1 END) as alerts_24h
+      FROM alerts a
+      LEFT JOIN device d ON a.device_id = d.Device_ID
+    `;
+    const { query: filteredStatsQuery, params: statsParams } = addClientFilterToQuery(statsQuery, dataFilter, 'd');
+    const stats = await database.query(filteredStatsQuery, statsParams);
+
+    const deviceStatsQuery = `
+      SELECT TOP 5
+        a.device_id,
+        COUNT(*) as alert_count
+      FROM alerts a
+      LEFT JOIN device d ON a.device_id = d.Device_ID
+      WHERE a.created_at >= DATEADD(day, -7, GETDATE())
+      GROUP BY a.device_id
+      ORDER BY alert_count DESC
+    `;
+    const { query: filteredDeviceStatsQuery, params: deviceStatsParams } = addClientFilterToQuery(deviceStatsQuery, dataFilter, 'd');
+    const deviceStats = await database.query(filteredDeviceStatsQuery, deviceStatsParams);
+
+    res.json({
+      success: true,
+      data: {
+        summary: stats[0] || {},
+        topDevices: deviceStats || []
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching alert statistics:', error);
+    res.status(500).json({ error: 'Failed to fetch alert statistics' });
+  }
+});
+
 // Get alert by ID
 router.get('/:alertId', [
-  param('alertId').isUUID()
+  param('alertId').isInt({ min: 1 }).toInt()
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -128,60 +234,202 @@ router.get('/:alertId', [
 
     const { alertId } = req.params;
 
-    const alerts = await database.query(`
-      SELECT 
-        a.id,
-        a.device_id,
-        a.alert_type,
-        a.severity,
-        a.status,
-        a.title,
-        a.description,
-        a.created_at,
-        a.updated_at,
-        a.acknowledged_at,
-        a.acknowledged_by,
-        a.resolved_at,
-        a.resolved_by,
-        d.device_name,
-        d.location,
-        d.device_type
-      FROM alerts a
-      LEFT JOIN devices d ON a.device_id = d.device_id
-      WHERE a.id = @alertId
-    `, { alertId });
+    const { query: alertQuery, params } = addClientFilterToQuery(
+      `${ALERT_SELECT} WHERE a.id = @alertId`, req.dataFilter, 'd'
+    );
+    const alerts = await database.query(alertQuery, { ...params, alertId });
 
     if (!alerts || alerts.length === 0) {
-      return res.status(404).json({ error: 'Alert not found' });
+      return res.status(404).json({ error: 'Alert not found or access denied' });
+    }
+
+    res.json({
+      success: true,
+      data: toAlertResponse(alerts[0])
+    });
+
+  } catch (error) {
+    console.error('Error fetching alert:', error);
+    res.status(500).json({ error: 'Failed to fetch alert' });
+  }
+});
+
+// Get an alert's timeline: raise, repeated triggers, notifications, acknowledgement and resolution
+router.get('/:alertId/timeline', [
+  param('alertId').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { alertId } = req.params;
+
+    const { query: alertQuery, params } = addClientFilterToQuery(
+      `${ALERT_SELECT} WHERE a.id = @alertId`, req.dataFilter, 'd'
+    );
+    const alerts = await database.query(alertQuery, { ...params, alertId });
+
+    if (!alerts || alerts.length === 0) {
+      return res.status(404).json({ error: 'Alert not found or access denied' });
     }
 
     const alert = alerts[0];
+    const events = [{
+      type: 'created',
+      at: alert.created_at,
+      title: 'Alert raised',
+      detail: alert.description,
+      entryId: alert.trigger_entry_id ?? null
+    }];
+
+    if (alert.trigger_count > 1 && alert.last_triggered_at) {
+      events.push({
+        type: 'retriggered',
+        at: alert.last_triggered_at,
+        title: `Triggered ${alert.trigger_count} times`,
+        detail: alert.trigger_value !== null ? `Last value ${alert.trigger_value}` : null,
+        entryId: alert.last_trigger_entry_id ?? null
+      });
+    }
+
+    if (alert.acknowledged_at) {
+      events.push({
+        type: 'acknowledged',
+        at: alert.acknowledged_at,
+        title: 'Acknowledged',
+        actor: alert.acknowledged_by_name || (alert.acknowledged_by ? `User #${alert.acknowledged_by}` : null)
+      });
+    }
+
+    if (alert.resolved_at) {
+      events.push({
+        type: 'resolved',
+        at: alert.resolved_at,
+        title: 'Resolved',
+        // resolved_by is NULL for system resolutions (rule cleared, device back online)
+        actor: alert.resolved_by_name || (alert.resolved_by ? `User #${alert.resolved_by}` : 'System'),
+        detail: alert.resolution || null
+      });
+    }
+
+    if (await database.tablesExist(['Notification_Deliveries'])) {
+      const deliveries = await database.query(`
+        SELECT nd.status, nd.recipient, nd.last_error, nd.created_at, nd.sent_at, nd.updated_at,
+               nc.name AS channel_name, nc.channel_type
+        FROM Notification_Deliveries nd
+        LEFT JOIN Notification_Channels nc ON nd.channel_id = nc.channel_id
+        WHERE nd.alert_id = @alertId AND nd.kind = 'alert'
+      `, { alertId });
+
+      for (const delivery of deliveries) {
+        events.push({
+          type: 'notification',
+          at: delivery.sent_at || delivery.updated_at || delivery.created_at,
+          title: `Notification ${delivery.status}`,
+          detail: [
+            delivery.channel_name ? `${delivery.channel_name} (${delivery.channel_type})` : null,
+            delivery.recipient,
+            delivery.status === 'failed' ? delivery.last_error : null
+          ].filter(Boolean).join(' - ') || null
+        });
+      }
+    }
+
+    events.sort((a, b) => new Date(a.at) - new Date(b.at));
+
+    // Rule-raised alerts point at the telemetry row that triggered them (HexTroubleshoot entry)
+    let triggerEntry = null;
+    if (alert.rule_id && alert.trigger_entry_id) {
+      const rules = await database.query(
+        'SELECT telemetry_table FROM Alert_Rules WHERE rule_id = @ruleId',
+        { ruleId: alert.rule_id }
+      );
+      if (rules.length > 0) {
+        triggerEntry = {
+          table: rules[0].telemetry_table,
+          entryId: alert.trigger_entry_id,
+          lastEntryId: alert.last_trigger_entry_id ?? alert.trigger_entry_id
+        };
+      }
+    }
 
     res.json({
       success: true,
       data: {
-        id: alert.id,
-        deviceId: alert.device_id,
-        deviceName: alert.device_name,
-        location: alert.location,
-        deviceType: alert.device_type,
-        type: alert.alert_type,
-        severity: alert.severity,
-        status: alert.status,
-        title: alert.title,
-        description: alert.description,
-        createdAt: alert.created_at,
-        updatedAt: alert.updated_at,
-        acknowledgedAt: alert.acknowledged_at,
-        acknowledgedBy: alert.acknowledged_by,
-        resolvedAt: alert.resolved_at,
-        resolvedBy: alert.resolved_by
+        alert: toAlertResponse(alert),
+        triggerEntry,
+        events
       }
     });
 
   } catch (error) {
-    console.error('Error fetching alert:', error);
-    res.status(500).json({ error: 'Failed to fetch alert' });
+    console.error('Error fetching alert timeline:', error);
+    res.status(500).json({ error: 'Failed to fetch alert timeline' });
+  }
+});
+
+// Get the acknowledge / resolve audit trail for an alert
+router.get('/:alertId/audit', [
+  param('alertId').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { alertId } = req.params;
+
+    if (!await database.tablesExist(['Alert_Audit'])) {
+      return tablesMissingResponse(res, 'Alert audit trail', 'create_alert_audit_table.sql');
+    }
+
+    // Only alerts the user can see expose their audit trail
+    const { query: alertQuery, params } = addClientFilterToQuery(
+      'SELECT a.id FROM alerts a LEFT JOIN device d ON a.device_id = d.Device_ID WHERE a.id = @alertId',
+      req.dataFilter, 'd'
+    );
+    const alerts = await database.query(alertQuery, { ...params, alertId });
+
+    if (!alerts || alerts.length === 0) {
+      return res.status(404).json({ error: 'Alert not found or access denied' });
+    }
+
+    const auditEntries = await database.query(`
+      SELECT
+        aa.audit_id,
+        aa.action,
+        aa.previous_status,
+        aa.notes,
+        aa.user_id,
+        aa.timestamp,
+        aa.ip_address,
+        u.user_name
+      FROM Alert_Audit aa
+      LEFT JOIN users u ON aa.user_id = u.id
+      WHERE aa.alert_id = @alertId
+      ORDER BY aa.timestamp DESC
+    `, { alertId });
+
+    res.json({
+      success: true,
+      data: auditEntries.map(entry => ({
+        auditId: entry.audit_id,
+        action: entry.action,
+        previousStatus: entry.previous_status,
+        notes: entry.notes,
+        userId: entry.user_id,
+        userName: entry.user_name,
+        timestamp: entry.timestamp,
+        ipAddress: entry.ip_address
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error fetching alert audit trail:', error);
+    res.status(500).json({ error: 'Failed to fetch alert audit trail' });
   }
 });
 
@@ -202,14 +450,14 @@ router.post('/', [
 
     const { deviceId, type, severity, title, description } = req.body;
 
-    // Verify device exists
-    const devices = await database.query(
-      'SELECT device_id FROM devices WHERE device_id = @deviceId',
-      { deviceId }
+    // Verify device exists and belongs to one of the user's clients
+    const { query: deviceQuery, params: deviceParams } = addClientFilterToQuery(
+      'SELECT d.Device_ID FROM device d WHERE d.Device_ID = @deviceId', req.dataFilter, 'd'
     );
+    const devices = await database.query(deviceQuery, { ...deviceParams, deviceId });
 
     if (!devices || devices.length === 0) {
-      return res.status(404).json({ error: 'Device not found' });
+      return res.status(404).json({ error: 'Device not found or access denied' });
     }
 
     const result = await database.query(`
@@ -251,10 +499,62 @@ router.post('/', [
   }
 });
 
+// Acknowledge several active alerts at once (user or admin)
+router.put('/acknowledge', [
+  requireUserOrAdmin,
+  body('alertIds').isArray({ min: 1, max: 100 }),
+  body('alertIds.*').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const alertIds = [...new Set(req.body.alertIds)];
+    const { condition, params: accessParams } = accessibleDeviceCondition(req.dataFilter);
+    const params = { ...accessParams, userId: req.user.id };
+    const placeholders = alertIds.map((id, index) => {
+      params[`alertId${index}`] = id;
+      return `@alertId${index}`;
+    });
+
+    const result = await database.query(`
+      UPDATE alerts 
+      SET 
+        status = 'acknowledged',
+        acknowledged_at = GETDATE(),
+        acknowledged_by = @userId,
+        updated_at = GETDATE()
+      OUTPUT INSERTED.id
+      WHERE id IN (${placeholders.join(', ')}) AND status = 'active'${condition}
+    `, params);
+
+    const acknowledged = result.map(row => row.id);
+    for (const alertId of acknowledged) {
+      await logAlertAction(alertId, 'acknowledge', req, 'active');
+    }
+
+    res.json({
+      success: true,
+      message: `${acknowledged.length} alert(s) acknowledged`,
+      data: {
+        acknowledged,
+        // Already acknowledged, resolved, unknown or not accessible ids
+        skipped: alertIds.filter(id => !acknowledged.includes(id))
+      }
+    });
+
+  } catch (error) {
+    console.error('Error acknowledging alerts:', error);
+    res.status(500).json({ error: 'Failed to acknowledge alerts' });
+  }
+});
+
 // Acknowledge alert (user or admin)
 router.put('/:alertId/acknowledge', [
   requireUserOrAdmin,
-  param('alertId').isUUID()
+  param('alertId').isInt({ min: 1 }).toInt()
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -264,6 +564,7 @@ router.put('/:alertId/acknowledge', [
 
     const { alertId } = req.params;
     const userId = req.user.id;
+    const { condition, params } = accessibleDeviceCondition(req.dataFilter);
 
     const result = await database.query(`
       UPDATE alerts 
@@ -273,13 +574,15 @@ router.put('/:alertId/acknowledge', [
         acknowledged_by = @userId,
         updated_at = GETDATE()
       OUTPUT INSERTED.id, INSERTED.status, INSERTED.acknowledged_at
-      WHERE id = @alertId AND status = 'active'
-    `, { alertId, userId });
+      WHERE id = @alertId AND status = 'active'${condition}
+    `, { ...params, alertId, userId });
 
     if (!result || result.length === 0) {
-      return res.status(404).json({ error: 'Alert not found or already acknowledged' });
+      return res.status(404).json({ error: 'Alert not found, already acknowledged or access denied' });
     }
 
+    await logAlertAction(alertId, 'acknowledge', req, 'active');
+
     res.json({
       success: true,
       message: 'Alert acknowledged successfully',
@@ -299,7 +602,7 @@ router.put('/:alertId/acknowledge', [
 // Resolve alert (user or admin)
 router.put('/:alertId/resolve', [
   requireUserOrAdmin,
-  param('alertId').isUUID(),
+  param('alertId').isInt({ min: 1 }).toInt(),
   body('resolution').optional().isString().isLength({ max: 500 })
 ], async (req, res) => {
   try {
@@ -311,6 +614,7 @@ router.put('/:alertId/resolve', [
     const { alertId } = req.params;
     const { resolution } = req.body;
     const userId = req.user.id;
+    const { condition, params } = accessibleDeviceCondition(req.dataFilter);
 
     const result = await database.query(`
       UPDATE alerts 
@@ -320,14 +624,16 @@ router.put('/:alertId/resolve', [
         resolved_by = @userId,
         resolution = @resolution,
         updated_at = GETDATE()
-      OUTPUT INSERTED.id, INSERTED.status, INSERTED.resolved_at
-      WHERE id = @alertId AND status IN ('active', 'acknowledged')
-    `, { alertId, userId, resolution: resolution || null });
+      OUTPUT INSERTED.id, INSERTED.status, INSERTED.resolved_at, DELETED.status AS previous_status
+      WHERE id = @alertId AND status IN ('active', 'acknowledged')${condition}
+    `, { ...params, alertId, userId, resolution: resolution || null });
 
     if (!result || result.length === 0) {
-      return res.status(404).json({ error: 'Alert not found or already resolved' });
+      return res.status(404).json({ error: 'Alert not found, already resolved or access denied' });
     }
 
+    await logAlertAction(alertId, 'resolve', req, result[0].previous_status, resolution);
+
     res.json({
       success: true,
       message: 'Alert resolved successfully',
@@ -344,44 +650,4 @@ router.put('/:alertId/resolve', [
   }
 });
 
-// Get alert statistics
-router.get('/stats/summary', async (req, res) => {
-  try {
-    const stats = await database.query(`
-      SELECT 
-        COUNT(*) as total_alerts,
-        COUNT(CASE WHEN status = 'active' THEN 1 END) as active_alerts,
-        COUNT(CASE WHEN status = 'acknowledged' THEN 1 END) as acknowledged_alerts,
-        COUNT(CASE WHEN status = 'resolved' THEN 1 END) as resolved_alerts,
-        COUNT(CASE WHEN severity = 'critical' THEN 1 END) as critical_alerts,
-        COUNT(CASE WHEN severity = 'warning' THEN 1 END) as warning_alerts,
-        COUNT(CASE WHEN severity = 'info' THEN 1 END) as info_alerts,
-        COUNT(CASE WHEN created_at >= DATEADD(hour, -24, GETDATE()) THEN 1 END) as alerts_24h
-      FROM alerts
-    `);
-
-    const deviceStats = await database.query(`
-      SELECT TOP 5
-        device_id,
-        COUNT(*) as alert_count
-      FROM alerts
-      WHERE created_at >= DATEADD(day, -7, GETDATE())
-      GROUP BY device_id
-      ORDER BY alert_count DESC
-    `);
-
-    res.json({
-      success: true,
-      data: {
-        summary: stats[0] || {},
-        topDevices: deviceStats || []
-      }
-    });
-
-  } catch (error) {
-    console.error('Error fetching alert statistics:', error);
-    res.status(500).json({ error: 'Failed to fetch alert statistics' });
-  }
-});
-
 export default router;
\ No newline at end of file
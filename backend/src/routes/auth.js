@@ -4,6 +4,16 @@ import jwt from 'jsonwebtoken';
 import { body, validationResult } from 'express-validator';
 import database from '../config/database.js';
 import SessionManager from '../middleware/sessionManager.js';
+import { authenticateToken } from '../middleware/auth.js';
+import { tablesMissingResponse } from '../middleware/tablesMissing.js';
+import AuthEventService from '../services/authEvents.js';
+import TwoFactorService, { CHALLENGE_PURPOSES } from '../services/twoFactor.js';
+import PasswordResetService from '../services/passwordReset.js';
+import LoginThrottleService from '../services/loginThrottle.js';
+import UserInvitationService, {
+  OPEN_REGISTRATION_ROLE,
+  isOpenRegistrationAllowed
+} from '../services/userInvitations.js';
 
 const router = express.Router();
 
@@ -17,9 +27,108 @@ const validateRegister = [
   body('name').isLength({ min: 2 }).trim(),
   body('email').isEmail().normalizeEmail(),
   body('password').isLength({ min: 6 }),
-  body('role').optional().isIn(['admin', 'user', 'viewer'])
+  body('inviteToken').optional().isString().notEmpty()
 ];
 
+const validateRefresh = [
+  body('refreshToken').isString().notEmpty()
+];
+
+const validateChallenge = [
+  body('challengeToken').isString().notEmpty()
+];
+
+const validateTwoFactorCode = [
+  body('code').isString().trim().matches(/^\d{6}$/).withMessage('Code must be 6 digits')
+];
+
+const validateTwoFactorVerify = [
+  ...validateChallenge,
+  body('code').optional().isString().trim().matches(/^\d{6}$/).withMessage('Code must be 6 digits'),
+  body('recoveryCode').optional().isString().trim().notEmpty()
+];
+
+const validateForgotPassword = [
+  body('email').isEmail().normalizeEmail()
+];
+
+const validateResetPassword = [
+  body('token').isString().notEmpty(),
+  body('password').isLength({ min: 6 })
+];
+
+const twoFactorTablesMissingResponse = (res) => tablesMissingResponse(res, 'Two-factor authentication', 'create_two_factor_tables.sql');
+
+const toUserResponse = (user) => ({
+  id: user.id,
+  name: user.user_name,
+  email: user.email,
+  role: user.roles,
+  clientId: user.client_id
+});
+
+const getUserById = async (userId) => {
+  const users = await database.query(
+    'SELECT id, user_name, email, roles, client_id FROM users WHERE id = @userId',
+    { userId }
+  );
+  return users[0] || null;
+};
+
+const invitationTablesMissingResponse = (res) => tablesMissingResponse(res, 'Registration', 'create_user_invitations_table.sql');
+
+const passwordResetTablesMissingResponse = (res) => tablesMissingResponse(res, 'Password reset', 'create_password_reset_tokens_table.sql');
+
+const formatWait = (seconds) => seconds < 60
+  ? `${seconds} second${seconds === 1 ? '' : 's'}`
+  : `${Math.ceil(seconds / 60)} minute${Math.ceil(seconds / 60) === 1 ? '' : 's'}`;
+
+// 429 for an attempt the login throttle turned away
+const throttledResponse = (res, blocked) => {
+  const wait = formatWait(blocked.retryAfter);
+  let error = `Too many failed login attempts. Please wait ${wait} before trying again.`;
+  if (blocked.locked) {
+    error = blocked.scope === 'account'
+      ? `This account is temporarily locked after too many failed login attempts. Try again in ${wait}.`
+      : `Too many failed login attempts from your network. Try again in ${wait}.`;
+  }
+
+  res.set('Retry-After', String(blocked.retryAfter));
+  return res.status(429).json({ error, retryAfter: blocked.retryAfter });
+};
+
+// Count a failed attempt against the account and address, logging any lockout it causes
+const countLoginFailure = async (keys, userId, req) => {
+  if (!await LoginThrottleService.tablesExist()) return;
+
+  const locked = await LoginThrottleService.recordFailure(keys);
+  for (const lockout of locked) {
+    await AuthEventService.record('LOGIN_LOCKED', {
+      userId: lockout.scope === 'account' ? userId : null,
+      req,
+      details: `${lockout.throttleKey} locked after ${lockout.failedCount} failed attempts`
+    });
+  }
+};
+
+// Turn the attempt away when the account or address is delayed or locked out
+const checkLoginThrottle = async (keys, userId, req, res) => {
+  if (!await LoginThrottleService.tablesExist()) return false;
+
+  const blocked = await LoginThrottleService.check(keys);
+  if (!blocked) return false;
+
+  await AuthEventService.record('LOGIN_BLOCKED', {
+    userId,
+    req,
+    details: `${blocked.locked ? 'Locked out' : 'Delayed'} (${blocked.scope}) for ${keys[0].slice('account:'.length)}`
+  });
+  throttledResponse(res, blocked);
+  return true;
+};
+
+const FORGOT_PASSWORD_MESSAGE = 'If an account exists for that email, a link to reset the password has been sent.';
+
 // Login endpoint
 router.post('/login', validateLogin, async (req, res) => {
   try {
@@ -29,14 +138,23 @@ router.post('/login', validateLogin, async (req, res) => {
     }
 
     const { email, password } = req.body;
+    const throttleKeys = LoginThrottleService.keysFor(email, req);
+
+    if (await checkLoginThrottle(throttleKeys, null, req, res)) {
+      return;
+    }
 
     // Find user by email
+    const withStatus = await UserInvitationService.tablesExist();
     const users = await database.query(
-      'SELECT id, user_name, email, password, roles, client_id FROM users WHERE email = @email',
+      `SELECT id, user_name, email, password, roles, client_id, ${withStatus ? 'account_status' : "'active' as account_status"}
+       FROM users WHERE email = @email`,
       { email }
     );
 
     if (!users || users.length === 0) {
+      await AuthEventService.record('LOGIN_FAILED', { req, details: `Unknown email: ${email}` });
+      await countLoginFailure(throttleKeys, null, req);
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
@@ -45,34 +163,57 @@ router.post('/login', validateLogin, async (req, res) => {
     // Verify password
     const isValidPassword = await bcrypt.compare(password, user.password);
     if (!isValidPassword) {
+      await AuthEventService.record('LOGIN_FAILED', { userId: user.id, req, details: 'Wrong password' });
+      await countLoginFailure(throttleKeys, user.id, req);
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { 
-        userId: user.id,
-        email: user.email,
-        role: user.roles
-      },
-      process.env.JWT_SECRET,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '24h' }
-    );
+    // Uninvited sign-ups can't log in until an admin approves them
+    if (user.account_status === 'pending') {
+      await AuthEventService.record('LOGIN_FAILED', { userId: user.id, req, details: 'Account awaiting approval' });
+      return res.status(403).json({ error: 'Your account is awaiting admin approval' });
+    }
+    if (user.account_status === 'rejected') {
+      await AuthEventService.record('LOGIN_FAILED', { userId: user.id, req, details: 'Account request rejected' });
+      return res.status(403).json({ error: 'Your account request was not approved' });
+    }
 
-    // Create session record
-    await SessionManager.createSession(user.id, token, req);
+    // With 2FA the password only earns a short-lived challenge; the session comes after the code
+    if (await TwoFactorService.tablesExist()) {
+      if (await TwoFactorService.isEnabled(user.id)) {
+        return res.json({
+          message: 'Two-factor code required',
+          twoFactorRequired: true,
+          challengeToken: TwoFactorService.signChallenge(user.id, CHALLENGE_PURPOSES.VERIFY)
+        });
+      }
+      if (await TwoFactorService.isRequiredForRole(user.roles)) {
+        return res.json({
+          message: 'Two-factor authentication must be set up for your role',
+          twoFactorSetupRequired: true,
+          challengeToken: TwoFactorService.signChallenge(user.id, CHALLENGE_PURPOSES.SETUP)
+        });
+      }
+    }
 
-    // Return user info and token
+    // Create session record with its access and refresh tokens
+    const session = await SessionManager.createSession(user, req);
+    if (!session) {
+      return res.status(500).json({ error: 'Failed to start session' });
+    }
+    // Failures are only forgiven after a complete sign-in, so a known password can't be used to
+    // reset the budget for guessing 2FA codes
+    if (await LoginThrottleService.tablesExist()) {
+      await LoginThrottleService.recordSuccess(throttleKeys);
+    }
+    await AuthEventService.record('LOGIN_SUCCEEDED', { userId: user.id, req, details: 'Password' });
+
+    // Return user info and tokens
     res.json({
       message: 'Login successful',
-      token,
-      user: {
-        id: user.id,
-        name: user.user_name,
-        email: user.email,
-        role: user.roles,
-        clientId: user.client_id
-      }
+      token: session.token,
+      refreshToken: session.refreshToken,
+      user: toUserResponse(user)
     });
 
   } catch (error) {
@@ -81,7 +222,316 @@ router.post('/login', validateLogin, async (req, res) => {
   }
 });
 
-// Register endpoint
+// Second login step: a code from the authenticator app or a one-time recovery code
+router.post('/2fa/verify', validateTwoFactorVerify, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await TwoFactorService.tablesExist()) {
+      return twoFactorTablesMissingResponse(res);
+    }
+
+    const { challengeToken, code, recoveryCode } = req.body;
+    if (!code && !recoveryCode) {
+      return res.status(400).json({ error: 'A code or recovery code is required' });
+    }
+
+    const userId = TwoFactorService.readChallenge(challengeToken, CHALLENGE_PURPOSES.VERIFY);
+    const user = userId ? await getUserById(userId) : null;
+    if (!user) {
+      return res.status(401).json({ error: 'Sign-in timed out. Please enter your password again.' });
+    }
+
+    // Codes are guessed against the same per-account budget as passwords
+    const throttleKeys = LoginThrottleService.keysFor(user.email, req);
+    if (await checkLoginThrottle(throttleKeys, userId, req, res)) {
+      return;
+    }
+
+    const verified = recoveryCode
+      ? await TwoFactorService.useRecoveryCode(userId, recoveryCode)
+      : await TwoFactorService.verifyCode(userId, code);
+    if (!verified) {
+      await AuthEventService.record('TWO_FACTOR_FAILED', {
+        userId,
+        req,
+        details: recoveryCode ? 'Invalid recovery code' : 'Invalid authenticator code'
+      });
+      await countLoginFailure(throttleKeys, userId, req);
+      return res.status(401).json({ error: recoveryCode ? 'Invalid recovery code' : 'Invalid code' });
+    }
+    if (recoveryCode) {
+      await AuthEventService.record('RECOVERY_CODE_USED', { userId, req });
+    }
+
+    const session = await SessionManager.createSession(user, req);
+    if (!session) {
+      return res.status(500).json({ error: 'Failed to start session' });
+    }
+    if (await LoginThrottleService.tablesExist()) {
+      await LoginThrottleService.recordSuccess(throttleKeys);
+    }
+    await AuthEventService.record('LOGIN_SUCCEEDED', {
+      userId,
+      req,
+      details: recoveryCode ? 'Password and recovery code' : 'Password and authenticator code'
+    });
+
+    res.json({
+      message: 'Login successful',
+      token: session.token,
+      refreshToken: session.refreshToken,
+      user: toUserResponse(user)
+    });
+
+  } catch (error) {
+    console.error('Two-factor verification error:', error);
+    res.status(500).json({ error: 'Authentication failed' });
+  }
+});
+
+// Mandatory enrollment during login, for roles that require 2FA
+router.post('/2fa/setup', validateChallenge, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await TwoFactorService.tablesExist()) {
+      return twoFactorTablesMissingResponse(res);
+    }
+
+    const userId = TwoFactorService.readChallenge(req.body.challengeToken, CHALLENGE_PURPOSES.SETUP);
+    const user = userId ? await getUserById(userId) : null;
+    if (!user) {
+      return res.status(401).json({ error: 'Sign-in timed out. Please enter your password again.' });
+    }
+
+    const enrollment = await TwoFactorService.startEnrollment(user.id, user.email);
+    if (!enrollment) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    res.json({
+      success: true,
+      data: enrollment
+    });
+
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+router.post('/2fa/setup/confirm', [...validateChallenge, ...validateTwoFactorCode], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await TwoFactorService.tablesExist()) {
+      return twoFactorTablesMissingResponse(res);
+    }
+
+    const userId = TwoFactorService.readChallenge(req.body.challengeToken, CHALLENGE_PURPOSES.SETUP);
+    const user = userId ? await getUserById(userId) : null;
+    if (!user) {
+      return res.status(401).json({ error: 'Sign-in timed out. Please enter your password again.' });
+    }
+
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(user.id, req.body.code);
+    if (!recoveryCodes) {
+      return res.status(401).json({ error: 'Invalid code' });
+    }
+    await AuthEventService.record('TWO_FACTOR_ENROLLED', { userId: user.id, req, details: 'Required by role policy' });
+
+    const session = await SessionManager.createSession(user, req);
+    if (!session) {
+      return res.status(500).json({ error: 'Failed to start session' });
+    }
+    await AuthEventService.record('LOGIN_SUCCEEDED', {
+      userId: user.id,
+      req,
+      details: 'Password and new two-factor enrollment'
+    });
+
+    res.json({
+      message: 'Two-factor authentication enabled',
+      token: session.token,
+      refreshToken: session.refreshToken,
+      user: toUserResponse(user),
+      recoveryCodes
+    });
+
+  } catch (error) {
+    console.error('Two-factor setup confirmation error:', error);
+    res.status(500).json({ error: 'Failed to confirm two-factor setup' });
+  }
+});
+
+// Two-factor settings for the signed-in user
+router.get('/2fa', authenticateToken, async (req, res) => {
+  try {
+    if (!await TwoFactorService.tablesExist()) {
+      return twoFactorTablesMissingResponse(res);
+    }
+
+    res.json({
+      success: true,
+      data: await TwoFactorService.getStatus(req.user.id, req.user.role)
+    });
+
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error);
+    res.status(500).json({ error: 'Failed to fetch two-factor status' });
+  }
+});
+
+router.post('/2fa/enroll', authenticateToken, async (req, res) => {
+  try {
+    if (!await TwoFactorService.tablesExist()) {
+      return twoFactorTablesMissingResponse(res);
+    }
+
+    const enrollment = await TwoFactorService.startEnrollment(req.user.id, req.user.email);
+    if (!enrollment) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    res.json({
+      success: true,
+      data: enrollment
+    });
+
+  } catch (error) {
+    console.error('Error starting two-factor enrollment:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+router.post('/2fa/enroll/confirm', authenticateToken, validateTwoFactorCode, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await TwoFactorService.tablesExist()) {
+      return twoFactorTablesMissingResponse(res);
+    }
+
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(req.user.id, req.body.code);
+    if (!recoveryCodes) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+    await AuthEventService.record('TWO_FACTOR_ENROLLED', { userId: req.user.id, req });
+
+    res.json({
+      success: true,
+      data: { recoveryCodes },
+      message: 'Two-factor authentication enabled'
+    });
+
+  } catch (error) {
+    console.error('Error confirming two-factor enrollment:', error);
+    res.status(500).json({ error: 'Failed to confirm two-factor setup' });
+  }
+});
+
+router.post('/2fa/recovery-codes', authenticateToken, validateTwoFactorCode, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await TwoFactorService.tablesExist()) {
+      return twoFactorTablesMissingResponse(res);
+    }
+
+    if (!await TwoFactorService.verifyCode(req.user.id, req.body.code)) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(req.user.id);
+    await AuthEventService.record('RECOVERY_CODES_REGENERATED', { userId: req.user.id, req });
+
+    res.json({
+      success: true,
+      data: { recoveryCodes },
+      message: 'Recovery codes regenerated'
+    });
+
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error);
+    res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+  }
+});
+
+router.post('/2fa/disable', authenticateToken, validateTwoFactorCode, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await TwoFactorService.tablesExist()) {
+      return twoFactorTablesMissingResponse(res);
+    }
+
+    if (await TwoFactorService.isRequiredForRole(req.user.role)) {
+      return res.status(403).json({ error: 'Two-factor authentication is required for your role' });
+    }
+    if (!await TwoFactorService.verifyCode(req.user.id, req.body.code)) {
+      return res.status(400).json({ error: 'Invalid code' });
+    }
+
+    await TwoFactorService.disable(req.user.id);
+    await AuthEventService.record('TWO_FACTOR_DISABLED', { userId: req.user.id, req });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error);
+    res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+});
+
+// Look up an invitation so the registration form can show what it grants
+router.get('/invitations/:token', async (req, res) => {
+  try {
+    if (!await UserInvitationService.tablesExist()) {
+      return invitationTablesMissingResponse(res);
+    }
+
+    const invitation = await UserInvitationService.findUsable(req.params.token);
+    if (!invitation) {
+      return res.status(404).json({ error: 'Invitation is invalid, expired or already used' });
+    }
+
+    res.json({
+      email: invitation.email,
+      role: invitation.role,
+      clientId: invitation.client_id,
+      expiresAt: invitation.expires_at
+    });
+
+  } catch (error) {
+    console.error('Invitation lookup error:', error);
+    res.status(500).json({ error: 'Failed to look up invitation' });
+  }
+});
+
+// Register endpoint: invited users get the invitation's role and client and are signed in; without
+// an invitation the account waits for admin approval (only when open registration is allowed)
 router.post('/register', validateRegister, async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -89,7 +539,26 @@ router.post('/register', validateRegister, async (req, res) => {
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { name, email, password, role = 'user' } = req.body;
+    const { name, email, password, inviteToken } = req.body;
+
+    if (!await UserInvitationService.tablesExist()) {
+      return invitationTablesMissingResponse(res);
+    }
+
+    if (!inviteToken && !isOpenRegistrationAllowed()) {
+      return res.status(403).json({ error: 'Registration is by invitation only' });
+    }
+
+    let invitation = null;
+    if (inviteToken) {
+      invitation = await UserInvitationService.findUsable(inviteToken);
+      if (!invitation) {
+        return res.status(400).json({ error: 'Invitation is invalid, expired or already used' });
+      }
+      if (invitation.email !== email.toLowerCase()) {
+        return res.status(400).json({ error: 'This invitation was issued for a different email address' });
+      }
+    }
 
     // Check if user already exists
     const existingUsers = await database.query(
@@ -105,48 +574,48 @@ router.post('/register', validateRegister, async (req, res) => {
     const saltRounds = 12;
     const passwordHash = await bcrypt.hash(password, saltRounds);
 
-    // Create user
-    const result = await database.query(`
-      INSERT INTO users (user_name, email, password, roles)
-      OUTPUT INSERTED.id, INSERTED.user_name, INSERTED.email, INSERTED.roles, INSERTED.client_id
-      VALUES (@name, @email, @passwordHash, @role)
-    `, {
-      name,
-      email,
-      passwordHash,
-      role
-    });
-
-    if (!result || result.length === 0) {
-      return res.status(500).json({ error: 'Failed to create user' });
-    }
-
-    const newUser = result[0];
-
-    // Generate JWT token
-    const token = jwt.sign(
-      { 
-        userId: newUser.id,
-        email: newUser.email,
-        role: newUser.roles
-      },
-      process.env.JWT_SECRET,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '24h' }
-    );
+    if (!invitation) {
+      await database.query(`
+        INSERT INTO users (user_name, email, password, roles, account_status)
+        VALUES (@name, @email, @passwordHash, @role, 'pending')
+      `, {
+        name,
+        email,
+        passwordHash,
+        role: OPEN_REGISTRATION_ROLE
+      });
+
+      return res.status(202).json({
+        message: 'Account created. You can sign in once an administrator has approved it.',
+        pending: true
+      });
+    }
+
+    const newUser = await UserInvitationService.acceptInvitation(invitation, { name, passwordHash });
+    if (!newUser) {
+      return res.status(400).json({ error: 'Invitation is invalid, expired or already used' });
+    }
+
+    // Roles that require 2FA enroll before their first session, as on login
+    if (await TwoFactorService.tablesExist() && await TwoFactorService.isRequiredForRole(newUser.roles)) {
+      return res.status(201).json({
+        message: 'Account created. Set up two-factor authentication to finish signing in.',
+        twoFactorSetupRequired: true,
+        challengeToken: TwoFactorService.signChallenge(newUser.id, CHALLENGE_PURPOSES.SETUP)
+      });
+    }
 
     // Create session record for new user
-    await SessionManager.createSession(newUser.id, token, req);
+    const session = await SessionManager.createSession(newUser, req);
+    if (!session) {
+      return res.status(500).json({ error: 'Failed to start session' });
+    }
 
     res.status(201).json({
       message: 'User created successfully',
-      token,
-      user: {
-        id: newUser.id,
-        name: newUser.user_name,
-        email: newUser.email,
-        role: newUser.roles,
-        clientId: newUser.client_id
-      }
+      token: session.token,
+      refreshToken: session.refreshToken,
+      user: toUserResponse(newUser)
     });
 
   } catch (error) {
@@ -166,6 +635,10 @@ router.get('/verify', async (req, res) => {
     }
 
     const decoded = jwt.verify(token, process.env.JWT_SECRET);
+
+    if (!decoded.sid || !await SessionManager.validateSession(decoded.sid)) {
+      return res.status(401).json({ error: 'Session expired or invalid' });
+    }
     
     // Get fresh user data
     const users = await database.query(
@@ -181,13 +654,7 @@ router.get('/verify', async (req, res) => {
 
     res.json({
       valid: true,
-      user: {
-        id: user.id,
-        name: user.user_name,
-        email: user.email,
-        role: user.roles,
-        clientId: user.client_id
-      }
+      user: toUserResponse(user)
     });
 
   } catch (error) {
@@ -200,6 +667,129 @@ router.get('/verify', async (req, res) => {
   }
 });
 
+// Refresh endpoint: trades a refresh token for a new access token and refresh token
+router.post('/refresh', validateRefresh, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await SessionManager.refreshTokensAvailable()) {
+      return tablesMissingResponse(res, 'Token refresh', 'create_session_refresh_tokens_table.sql');
+    }
+
+    const result = await SessionManager.rotateRefreshToken(req.body.refreshToken);
+    if (result.reuseDetected) {
+      await AuthEventService.record('REFRESH_TOKEN_REUSED', {
+        userId: result.userId,
+        req,
+        details: 'A used refresh token was presented again; the session was ended'
+      });
+    }
+    if (result.error) {
+      return res.status(401).json({ error: result.error });
+    }
+    await AuthEventService.record('TOKEN_REFRESHED', { userId: result.userId, req });
+
+    res.json({
+      message: 'Token refreshed',
+      token: result.token,
+      refreshToken: result.refreshToken
+    });
+
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Token refresh failed' });
+  }
+});
+
+// Email a password reset link. The response doesn't say whether the account exists.
+router.post('/forgot-password', validateForgotPassword, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await PasswordResetService.tablesExist()) {
+      return passwordResetTablesMissingResponse(res);
+    }
+
+    // Reply before the lookup and the mail, so the response time doesn't tell whether the account exists
+    res.json({ message: FORGOT_PASSWORD_MESSAGE });
+
+    PasswordResetService.requestReset(req.body.email, req.ip)
+      .then(userId => userId && AuthEventService.record('PASSWORD_RESET_REQUESTED', { userId, req }))
+      .catch(error => {
+        console.error('Error sending password reset link:', error);
+      });
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Failed to request password reset' });
+  }
+});
+
+// Check a reset link before showing the new-password form
+router.get('/reset-password/:token', async (req, res) => {
+  try {
+    if (!await PasswordResetService.tablesExist()) {
+      return passwordResetTablesMissingResponse(res);
+    }
+
+    const reset = await PasswordResetService.findUsable(req.params.token);
+    if (!reset) {
+      return res.status(404).json({ error: 'Reset link is invalid, expired or already used' });
+    }
+
+    res.json({
+      email: reset.email,
+      expiresAt: reset.expires_at
+    });
+
+  } catch (error) {
+    console.error('Password reset lookup error:', error);
+    res.status(500).json({ error: 'Failed to look up reset link' });
+  }
+});
+
+// Set a new password with a reset link; every existing session of the user is ended
+router.post('/reset-password', validateResetPassword, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await PasswordResetService.tablesExist()) {
+      return passwordResetTablesMissingResponse(res);
+    }
+
+    const { token, password } = req.body;
+    const hashedPassword = await bcrypt.hash(password, 12);
+
+    const result = await PasswordResetService.resetPassword(token, hashedPassword);
+    if (!result) {
+      return res.status(404).json({ error: 'Reset link is invalid, expired or already used' });
+    }
+
+    await AuthEventService.record('PASSWORD_RESET', {
+      userId: result.userId,
+      req,
+      details: `${result.sessionsEnded} session(s) ended`
+    });
+
+    res.json({
+      message: 'Password has been reset. Please sign in with your new password.'
+    });
+
+  } catch (error) {
+    console.error('Password reset error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
 // Logout endpoint
 router.post('/logout', async (req, res) => {
   try {
@@ -207,8 +797,17 @@ router.post('/logout', async (req, res) => {
     const token = authHeader && authHeader.split(' ')[1];
 
     if (token) {
-      // End the session
-      await SessionManager.endSession(token);
+      // End the session, even when the access token has already expired
+      let decoded = null;
+      try {
+        decoded = jwt.verify(token, process.env.JWT_SECRET, { ignoreExpiration: true });
+      } catch {
+        // A token we didn't sign has no session to end
+      }
+      if (decoded?.sid) {
+        await SessionManager.endSession(decoded.sid);
+        await AuthEventService.record('LOGOUT', { userId: decoded.userId, req });
+      }
     }
 
     res.json({
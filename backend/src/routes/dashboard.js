@@ -3,6 +3,7 @@ import { query, validationResult } from 'express-validator';
 import database from '../config/database.js';
 import { authenticateToken, requireViewerOrAbove } from '../middleware/auth.js';
 import { addDataFilter, requireDataAccess, addClientFilterToQuery } from '../middleware/dataFilter.js';
+import DeviceLivenessService from '../services/deviceLiveness.js';
 
 const router = express.Router();
 
@@ -37,16 +38,10 @@ router.get('/overview', async (req, res) => {
     const { query: filteredDataQuery, params: dataParams } = addClientFilterToQuery(dataQuery, dataFilter, 'd');
     const recentDataStats = await database.query(filteredDataQuery, dataParams);
 
-    // Get device activity stats with client filtering
-    const activityQuery = `
-      SELECT 
-        COUNT(DISTINCT iot.Device_ID) as active_devices_24h,
-        COUNT(DISTINCT CASE WHEN iot.FaultCodes IS NOT NULL AND iot.FaultCodes != '' THEN iot.Device_ID END) as devices_with_faults
-      FROM IoT_Data_New iot
-      JOIN device d ON iot.Device_ID = d.Device_ID
-    `;
-    const { query: filteredActivityQuery, params: activityParams } = addClientFilterToQuery(activityQuery, dataFilter, 'd');
-    const activityStats = await database.query(filteredActivityQuery, activityParams);
+    // Liveness per device (online / late / offline / maintenance) with client filtering
+    const liveness = await DeviceLivenessService.getLivenessSafely({ dataFilter });
+    const livenessCounts = { online: 0, late: 0, offline: 0, maintenance: 0 };
+    liveness.forEach(device => { livenessCounts[device.state]++; });
 
     // Get basic runtime statistics with client filtering
     const runtimeQuery = `
@@ -62,21 +57,41 @@ router.get('/overview', async (req, res) => {
     const { query: filteredRuntimeQuery, params: runtimeParams } = addClientFilterToQuery(runtimeQuery, dataFilter, 'd');
     const runtimeStats = await database.query(filteredRuntimeQuery, runtimeParams);
 
+    // Open alert counts with client filtering (alerts table may not exist on older databases)
+    let alertStats = [];
+    try {
+      const alertQuery = `
+        SELECT
+          COUNT(*) as active_alerts,
+          COUNT(CASE WHEN a.severity = 'critical' THEN 1 END) as critical_alerts,
+          COUNT(CASE WHEN a.severity = 'warning' THEN 1 END) as warning_alerts,
+          COUNT(CASE WHEN a.severity = 'info' THEN 1 END) as info_alerts
+        FROM alerts a
+        JOIN device d ON a.device_id = d.Device_ID
+        WHERE a.status IN ('active', 'acknowledged')
+      `;
+      const { query: filteredAlertQuery, params: alertParams } = addClientFilterToQuery(alertQuery, dataFilter, 'd');
+      alertStats = await database.query(filteredAlertQuery, alertParams);
+    } catch (error) {
+      console.error('Error fetching alert counts for overview:', error.message);
+    }
+
     res.json({
       success: true,
       data: {
         devices: {
           total_devices: deviceStats[0]?.total_devices || 0,
-          online_devices: activityStats[0]?.active_devices_24h || 0,
-          offline_devices: Math.max(0, (deviceStats[0]?.total_devices || 0) - (activityStats[0]?.active_devices_24h || 0)),
-          maintenance_devices: 0
+          online_devices: livenessCounts.online,
+          late_devices: livenessCounts.late,
+          offline_devices: livenessCounts.offline,
+          maintenance_devices: livenessCounts.maintenance
         },
         dataPoints: recentDataStats[0] || {},
         alerts: {
-          active_alerts: 0,
-          critical_alerts: activityStats[0]?.devices_with_faults || 0,
-          warning_alerts: 0,
-          info_alerts: 0
+          active_alerts: alertStats[0]?.active_alerts || 0,
+          critical_alerts: alertStats[0]?.critical_alerts || 0,
+          warning_alerts: alertStats[0]?.warning_alerts || 0,
+          info_alerts: alertStats[0]?.info_alerts || 0
         },
         runtimeStats: runtimeStats[0] || {}
       }
@@ -3,12 +3,33 @@ import { query, param, body, validationResult } from 'express-validator';
 import database from '../config/database.js';
 import { authenticateToken, requireAdmin, requireUserOrAdmin } from '../middleware/auth.js';
 import { addDataFilter, requireDataAccess, addClientFilterToQuery } from '../middleware/dataFilter.js';
-import crypto from 'crypto';
+import { authenticateSignedDevice } from '../middleware/deviceAuth.js';
+import { tablesMissingResponse } from '../middleware/tablesMissing.js';
+import DeviceApiKeyService, { getKeyPrefix } from '../services/deviceApiKeys.js';
+import {
+  logConfigurationAction,
+  createConfiguration,
+  activateConfiguration,
+  createDeployment
+} from '../services/deviceConfigurations.js';
+import ConfigRolloutService, { CAMPAIGN_STATUSES, TARGET_TYPES, toCampaignResponse } from '../services/configRollout.js';
+import DeploymentReconciler from '../services/deploymentReconciler.js';
+import ConfigDriftService, { isInSync } from '../services/configDrift.js';
+import ConfigSchemaService from '../services/configSchemaService.js';
+import EffectiveConfigService from '../services/effectiveConfig.js';
+import ScheduledActivationService, {
+  SCHEDULE_STATUSES,
+  WINDOW_SCOPES
+} from '../services/scheduledActivations.js';
+import ConfigApprovalService, { APPROVAL_STATUSES } from '../services/configApprovals.js';
+import { logUniversalConfigAction } from '../services/universalConfigs.js';
+import { validateConfigSchema, formatConfigErrors } from '../shared/configSchema.js';
+import { diffConfigs } from '../shared/configDiff.js';
 
 const router = express.Router();
 
-// Apply authentication to all device config routes
-router.use(authenticateToken);
+// Admin routes use user JWTs; the /device routes below authenticate the device itself
+router.use('/admin', authenticateToken);
 
 /**
  * Configuration validation utilities
@@ -35,39 +56,19 @@ const validateConfigurationJSON = (configData) => {
   }
 };
 
-// Generate configuration hash for version checking
-const generateConfigHash = (configData) => {
-  return crypto.createHash('sha256').update(configData).digest('hex');
-};
+// Field-level schema violations; the summary carries the paths too since clients often only show `error`
+const schemaErrorResponse = (res, schemaLabel, errors) => res.status(400).json({
+  error: `Invalid configuration (schema ${schemaLabel}): ${formatConfigErrors(errors)}`,
+  details: errors
+});
 
-/**
- * Audit trail utilities
- */
-const logConfigurationAction = async (configId, action, userId, previousData, newData, changeReason, ipAddress, userAgent) => {
-  try {
-    await database.query(`
-      INSERT INTO Device_Config_Audit (
-        config_id, action, previous_config_data, new_config_data,
-        user_id, timestamp, ip_address, user_agent, change_reason
-      ) VALUES (
-        @configId, @action, @previousData, @newData,
-        @userId, GETDATE(), @ipAddress, @userAgent, @changeReason
-      )
-    `, {
-      configId,
-      action,
-      previousData: previousData || null,
-      newData: newData || null,
-      userId,
-      ipAddress: ipAddress || null,
-      userAgent: userAgent || null,
-      changeReason: changeReason || null
-    });
-  } catch (error) {
-    console.error('Failed to log configuration audit:', error);
-    // Don't throw - audit logging failure shouldn't break the main operation
-  }
-};
+const scheduleTablesMissingResponse = (res) => tablesMissingResponse(res, 'Scheduled activation', 'create_scheduled_activation_tables.sql');
+
+// Changes that can't be proposed are refused while two-person approval is on, so no single admin can make them
+const approvalRequiredResponse = (res, error) => res.status(409).json({
+  error,
+  approvalRequired: true
+});
 
 /**
  * ADMIN CONFIGURATION MANAGEMENT ROUTES
@@ -357,45 +358,23 @@ router.post('/admin/configs/:deviceId', [
       return res.status(400).json({ error: `Invalid configuration: ${validation.error}` });
     }
 
-    // Generate configuration hash
-    const configHash = generateConfigHash(configData);
-
-    // Get next version number for this device
-    const versionResult = await database.query(
-      'SELECT ISNULL(MAX(config_version), 0) + 1 as next_version FROM Device_Configurations WHERE device_id = @deviceId',
-      { deviceId }
-    );
-    const configVersion = versionResult[0]?.next_version || 1;
+    const { schema, errors: schemaErrors } = await ConfigSchemaService.validateForDevice(deviceId, validation.parsed);
+    if (schemaErrors.length > 0) {
+      return schemaErrorResponse(res, schema.label, schemaErrors);
+    }
 
-    // Insert new configuration
-    const result = await database.query(`
-      INSERT INTO Device_Configurations (
-        device_id, config_version, config_name, config_data, config_hash,
-        config_schema_version, is_active, is_deployed, deployment_status,
-        created_by, created_at, notes
-      )
-      OUTPUT INSERTED.config_id
-      VALUES (
-        @deviceId, @configVersion, @configName, @configData, @configHash,
-        '1.0', 0, 0, 'pending',
-        @userId, GETDATE(), @notes
-      )
-    `, {
-      deviceId,
-      configVersion,
+    const { configId, configVersion, configHash } = await createConfiguration(deviceId, {
       configName,
       configData,
-      configHash,
+      notes: notes || null,
       userId: req.user.id,
-      notes: notes || null
+      schemaVersion: schema?.label
     });
 
-    if (!result || result.length === 0) {
+    if (!configId) {
       return res.status(500).json({ error: 'Failed to create configuration' });
     }
 
-    const configId = result[0].config_id;
-
     // Log audit trail
     await logConfigurationAction(
       configId,
@@ -429,13 +408,17 @@ router.post('/admin/configs/:deviceId', [
   }
 });
 
-// Activate a device configuration
+// Activate a device configuration, now or later: scheduledFor and/or useMaintenanceWindow queue the
+// activation for the scheduler instead (202). While approvals are required the activation is only
+// proposed (202) and happens once someone else approves it.
 router.post('/admin/configs/:deviceId/activate', [
   requireAdmin,
   addDataFilter,
   param('deviceId').isString().notEmpty(),
   body('configId').isInt().toInt(),
-  body('changeReason').optional().isString().isLength({ max: 500 }).trim()
+  body('changeReason').optional().isString().isLength({ max: 500 }).trim(),
+  body('scheduledFor').optional({ nullable: true }).isISO8601().toDate(),
+  body('useMaintenanceWindow').optional().isBoolean().toBoolean()
 ], async (req, res) => {
   try {
     console.log('Activation request:', { deviceId: req.params.deviceId, configId: req.body.configId, userId: req.user?.id });
@@ -445,7 +428,7 @@ router.post('/admin/configs/:deviceId/activate', [
     }
 
     const { deviceId } = req.params;
-    const { configId, changeReason } = req.body;
+    const { configId, changeReason, scheduledFor, useMaintenanceWindow } = req.body;
     const { dataFilter } = req;
 
     // Check if Device_Configurations table exists first
@@ -490,38 +473,99 @@ router.post('/admin/configs/:deviceId/activate', [
       return res.status(400).json({ error: 'Configuration is already active' });
     }
 
-    // Get currently active config for audit trail
-    const currentActiveConfig = await database.query(
-      'SELECT config_id, config_data FROM Device_Configurations WHERE device_id = @deviceId AND is_active = 1',
-      { deviceId }
-    );
+    const stored = validateConfigurationJSON(configs[0].config_data);
+    if (!stored.valid) {
+      return res.status(400).json({ error: `Invalid configuration: ${stored.error}` });
+    }
 
-    // Deactivate all current configurations for this device
-    console.log('Deactivating existing configs for device:', deviceId);
-    const deactivateResult = await database.query(
-      'UPDATE Device_Configurations SET is_active = 0 WHERE device_id = @deviceId',
-      { deviceId }
-    );
-    console.log('Deactivate result:', deactivateResult);
+    // The schema may have changed since this version was saved
+    const { schema, errors: schemaErrors } = await ConfigSchemaService.validateForDevice(deviceId, stored.parsed);
+    if (schemaErrors.length > 0) {
+      return schemaErrorResponse(res, schema.label, schemaErrors);
+    }
+
+    const scheduling = !!(scheduledFor || useMaintenanceWindow);
+    if (scheduling) {
+      if (!await ScheduledActivationService.tablesExist()) {
+        return scheduleTablesMissingResponse(res);
+      }
+      if (scheduledFor && scheduledFor <= new Date()) {
+        return res.status(400).json({ error: 'scheduledFor must be in the future' });
+      }
+    }
+
+    if (await ConfigApprovalService.isRequired()) {
+      const openProposal = await ConfigApprovalService.getPending('device', deviceId);
+      if (openProposal) {
+        return res.status(409).json({
+          error: `Device already has a change awaiting approval (#${openProposal.approvalId}); it has to be decided or withdrawn first`
+        });
+      }
+
+      const approval = await ConfigApprovalService.propose({
+        targetType: 'device',
+        deviceId,
+        configId,
+        changeReason: changeReason || null,
+        scheduledFor: scheduledFor || null,
+        useMaintenanceWindow
+      }, req.user.id, { ipAddress: req.ip, userAgent: req.get('User-Agent') });
+
+      return res.status(202).json({
+        success: true,
+        approvalRequired: true,
+        data: approval,
+        message: 'Activation proposed; it takes effect once another administrator approves it'
+      });
+    }
+
+    if (scheduling) {
+      const pending = await ScheduledActivationService.getPending('device', deviceId);
+      if (pending) {
+        return res.status(409).json({
+          error: `Device already has an activation scheduled for ${pending.scheduledFor.toISOString()}; cancel it first`
+        });
+      }
+
+      const { schedule, error } = await ScheduledActivationService.schedule({
+        targetType: 'device',
+        deviceId,
+        configId,
+        scheduledFor,
+        useMaintenanceWindow,
+        reason: changeReason || null
+      }, req.user.id);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      await logConfigurationAction(
+        configId,
+        'SCHEDULE',
+        req.user.id,
+        null,
+        null,
+        `Activation scheduled for ${schedule.scheduledFor.toISOString()}${changeReason ? `: ${changeReason}` : ''}`,
+        req.ip,
+        req.get('User-Agent')
+      );
+
+      return res.status(202).json({
+        success: true,
+        data: schedule,
+        message: `Activation scheduled for ${schedule.scheduledFor.toISOString()}`
+      });
+    }
 
-    // Activate the selected configuration
     console.log('Activating config:', { configId, userId: req.user.id });
-    const activateResult = await database.query(`
-      UPDATE Device_Configurations 
-      SET is_active = 1, activated_at = GETDATE(), activated_by = @userId
-      WHERE config_id = @configId
-    `, {
-      configId,
-      userId: req.user.id
-    });
-    console.log('Activate result:', activateResult);
+    const previousActiveConfig = await activateConfiguration(deviceId, configId, req.user.id);
 
     // Log audit trail for activation
     await logConfigurationAction(
       configId,
       'ACTIVATE',
       req.user.id,
-      currentActiveConfig[0]?.config_data || null,
+      previousActiveConfig?.config_data || null,
       configs[0].config_data,
       changeReason,
       req.ip,
@@ -539,6 +583,125 @@ router.post('/admin/configs/:deviceId/activate', [
   }
 });
 
+// Roll back to an earlier version: its payload becomes a new version, which is activated right away
+router.post('/admin/configs/:deviceId/rollback', [
+  requireAdmin,
+  addDataFilter,
+  param('deviceId').isString().notEmpty(),
+  body('configId').isInt().toInt(),
+  body('reason').isString().trim().isLength({ min: 3, max: 500 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { deviceId } = req.params;
+    const { configId, reason } = req.body;
+    const { dataFilter } = req;
+
+    let configQuery = `
+      SELECT dc.config_id, dc.config_version, dc.config_name, dc.config_data, dc.config_hash
+      FROM Device_Configurations dc
+      LEFT JOIN device d ON dc.device_id = d.Device_ID
+      WHERE dc.config_id = @configId AND dc.device_id = @deviceId
+    `;
+    const configParams = { configId, deviceId };
+
+    if (!dataFilter.isAdmin) {
+      const { whereClause: clientFilter, params: clientParams } = dataFilter.buildClientFilter('d');
+      configQuery += ` AND ${clientFilter}`;
+      Object.assign(configParams, clientParams);
+    }
+
+    const configs = await database.query(configQuery, configParams);
+    if (!configs || configs.length === 0) {
+      return res.status(404).json({ error: 'Configuration not found or access denied' });
+    }
+    const source = configs[0];
+
+    if (await ConfigApprovalService.isRequired()) {
+      return approvalRequiredResponse(res,
+        `Rollbacks need a second administrator; propose activating version ${source.config_version} instead`);
+    }
+
+    const active = await database.query(
+      'SELECT config_version, config_data, config_hash FROM Device_Configurations WHERE device_id = @deviceId AND is_active = 1',
+      { deviceId }
+    );
+    if (active[0]?.config_hash === source.config_hash) {
+      return res.status(409).json({ error: `The active configuration already matches version ${source.config_version}` });
+    }
+
+    const validation = validateConfigurationJSON(source.config_data);
+    if (!validation.valid) {
+      return res.status(400).json({ error: `Invalid configuration: ${validation.error}` });
+    }
+
+    // Old payloads are held to the current schema like any new version
+    const { schema, errors: schemaErrors } = await ConfigSchemaService.validateForDevice(deviceId, validation.parsed);
+    if (schemaErrors.length > 0) {
+      return schemaErrorResponse(res, schema.label, schemaErrors);
+    }
+
+    const { configId: newConfigId, configVersion, configHash } = await createConfiguration(deviceId, {
+      configName: source.config_name,
+      configData: source.config_data,
+      notes: `Rollback to version ${source.config_version}: ${reason}`,
+      userId: req.user.id,
+      schemaVersion: schema?.label
+    });
+
+    if (!newConfigId) {
+      return res.status(500).json({ error: 'Failed to create configuration' });
+    }
+
+    await logConfigurationAction(
+      newConfigId,
+      'ROLLBACK',
+      req.user.id,
+      active[0]?.config_data || null,
+      source.config_data,
+      reason,
+      req.ip,
+      req.get('User-Agent')
+    );
+
+    const previousActiveConfig = await activateConfiguration(deviceId, newConfigId, req.user.id);
+    await logConfigurationAction(
+      newConfigId,
+      'ACTIVATE',
+      req.user.id,
+      previousActiveConfig?.config_data || null,
+      source.config_data,
+      reason,
+      req.ip,
+      req.get('User-Agent')
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `Rolled back to version ${source.config_version} as version ${configVersion}`,
+      data: {
+        configId: newConfigId,
+        deviceId,
+        configVersion,
+        configHash,
+        rolledBackFrom: source.config_version,
+        changes: diffConfigs(
+          active[0] ? JSON.parse(active[0].config_data) : {},
+          validation.parsed
+        )
+      }
+    });
+
+  } catch (error) {
+    console.error('Error rolling back configuration:', error);
+    res.status(500).json({ error: 'Failed to roll back configuration' });
+  }
+});
+
 // Get deployment status for devices
 router.get('/admin/deployments', [
   requireAdmin,
@@ -705,28 +868,14 @@ router.post('/admin/deployments/:deviceId/deploy', [
     }
 
     // Create deployment record
-    const deploymentResult = await database.query(`
-      INSERT INTO Device_Config_Deployments (
-        config_id, device_id, deployment_status, initiated_by, initiated_at, deployment_method
-      )
-      OUTPUT INSERTED.deployment_id
-      VALUES (
-        @configId, @deviceId, 'pending', @userId, GETDATE(), 'api'
-      )
-    `, {
-      configId: targetConfigId,
-      deviceId,
-      userId: req.user.id
-    });
+    const deploymentId = await createDeployment(deviceId, targetConfigId, req.user.id);
 
-    if (!deploymentResult || deploymentResult.length === 0) {
+    if (!deploymentId) {
       return res.status(500).json({ error: 'Failed to create deployment record' });
     }
 
-    const deploymentId = deploymentResult[0].deployment_id;
-
-    // In a real implementation, here you would trigger the actual deployment process
-    // For now, we'll just mark it as pending and let the device poll for updates
+    // The device picks the configuration up on its next version poll and reports back via
+    // /device/status. Fleet-wide deployments go through rollout campaigns instead.
 
     res.status(201).json({
       success: true,
@@ -746,13 +895,17 @@ router.post('/admin/deployments/:deviceId/deploy', [
 });
 
 /**
- * ULTRA-LIGHTWEIGHT DEVICE API ROUTES
- * Optimized for IoT device constraints (minimal bandwidth)
+ * CONFIGURATION SCHEMA ROUTES
+ * Versioned JSON Schemas per ConversionLogicID (see services/configSchemaService.js)
  */
 
-// Ultra-lightweight version check API - returns only short hash (< 10 bytes)
-router.get('/device/version/:deviceId', [
-  param('deviceId').isString().notEmpty()
+const schemaTableMissingResponse = (res) => tablesMissingResponse(res, 'Configuration schemas', 'create_device_config_schemas_table.sql');
+
+// List schemas; includeInactive adds the older versions
+router.get('/admin/schemas', [
+  requireAdmin,
+  query('logicId').optional().isInt({ min: 1 }).toInt(),
+  query('includeInactive').optional().isBoolean().toBoolean()
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -760,27 +913,29 @@ router.get('/device/version/:deviceId', [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { deviceId } = req.params;
+    if (!await ConfigSchemaService.tableExists()) {
+      return res.json({ success: true, data: [] });
+    }
 
-    // Get active configuration hash for the device
-    const result = await database.query(`
-      SELECT LEFT(config_hash, 8) as version_hash
-      FROM Device_Configurations 
-      WHERE device_id = @deviceId AND is_active = 1
-    `, { deviceId });
+    const schemas = await ConfigSchemaService.listSchemas({
+      conversionLogicId: req.query.logicId,
+      includeInactive: req.query.includeInactive || false
+    });
 
-    // Return plain text response to minimize overhead
-    res.set('Content-Type', 'text/plain');
-    res.send(result[0]?.version_hash || 'none');
+    res.json({
+      success: true,
+      data: schemas
+    });
 
   } catch (error) {
-    console.error('Error checking config version:', error);
-    res.status(500).send('error');
+    console.error('Error fetching configuration schemas:', error);
+    res.status(500).json({ error: 'Failed to fetch configuration schemas' });
   }
 });
 
-// Configuration download API - returns full configuration JSON
-router.get('/device/config/:deviceId', [
+// Schema that applies to a device (used by the configuration builder); data is null when none is registered
+router.get('/admin/schemas/device/:deviceId', [
+  requireAdmin,
   param('deviceId').isString().notEmpty()
 ], async (req, res) => {
   try {
@@ -789,50 +944,24 @@ router.get('/device/config/:deviceId', [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { deviceId } = req.params;
-
-    // Get active configuration for the device
-    const result = await database.query(`
-      SELECT 
-        config_id,
-        config_data,
-        config_hash,
-        config_version,
-        config_name
-      FROM Device_Configurations 
-      WHERE device_id = @deviceId AND is_active = 1
-    `, { deviceId });
-
-    if (!result || result.length === 0) {
-      return res.status(404).json({ error: 'No active configuration found' });
-    }
-
-    const config = result[0];
-
-    // Parse and return configuration data with minimal metadata
-    const configData = JSON.parse(config.config_data);
-    
     res.json({
-      id: config.config_id,
-      version: config.config_version,
-      hash: config.config_hash,
-      name: config.config_name,
-      data: configData
+      success: true,
+      data: await ConfigSchemaService.getSchemaForDevice(req.params.deviceId)
     });
 
   } catch (error) {
-    console.error('Error fetching device config:', error);
-    res.status(500).json({ error: 'Failed to fetch configuration' });
+    console.error('Error fetching device configuration schema:', error);
+    res.status(500).json({ error: 'Failed to fetch device configuration schema' });
   }
 });
 
-// Device status reporting API - for deployment feedback
-router.post('/device/status/:deviceId', [
-  param('deviceId').isString().notEmpty(),
-  body('configId').isInt().toInt(),
-  body('status').isIn(['success', 'failed', 'in_progress']),
-  body('error').optional().isString().isLength({ max: 1000 }).trim(),
-  body('deploymentId').optional().isInt().toInt()
+// Save a new schema version for a logic ID (omit conversionLogicId for the generic schema)
+router.post('/admin/schemas', [
+  requireAdmin,
+  body('conversionLogicId').optional({ nullable: true }).isInt({ min: 1 }).toInt(),
+  body('deviceType').isString().trim().isLength({ min: 1, max: 20 }),
+  body('description').optional({ nullable: true }).isString().isLength({ max: 500 }),
+  body('schema').isObject()
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -840,80 +969,43 @@ router.post('/device/status/:deviceId', [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { deviceId } = req.params;
-    const { configId, status, error, deploymentId } = req.body;
-
-    // If deployment ID is provided, update that specific deployment
-    if (deploymentId) {
-      await database.query(`
-        UPDATE Device_Config_Deployments 
-        SET 
-          deployment_status = @status,
-          completed_at = CASE WHEN @status IN ('success', 'failed') THEN GETDATE() ELSE completed_at END,
-          error_message = @error
-        WHERE deployment_id = @deploymentId 
-          AND device_id = @deviceId 
-          AND config_id = @configId
-      `, {
-        status,
-        error: error || null,
-        deploymentId,
-        deviceId,
-        configId
-      });
-    } else {
-      // Update the most recent deployment for this device/config
-      await database.query(`
-        UPDATE Device_Config_Deployments 
-        SET 
-          deployment_status = @status,
-          completed_at = CASE WHEN @status IN ('success', 'failed') THEN GETDATE() ELSE completed_at END,
-          error_message = @error
-        WHERE config_id = @configId 
-          AND device_id = @deviceId 
-          AND deployment_id = (
-            SELECT TOP 1 deployment_id 
-            FROM Device_Config_Deployments 
-            WHERE config_id = @configId AND device_id = @deviceId 
-            ORDER BY initiated_at DESC
-          )
-      `, {
-        status,
-        error: error || null,
-        configId,
-        deviceId
-      });
+    if (!await ConfigSchemaService.tableExists()) {
+      return schemaTableMissingResponse(res);
     }
 
-    // If deployment was successful, mark configuration as deployed
-    if (status === 'success') {
-      await database.query(`
-        UPDATE Device_Configurations 
-        SET is_deployed = 1, deployment_status = 'deployed'
-        WHERE config_id = @configId AND device_id = @deviceId
-      `, { configId, deviceId });
+    const { conversionLogicId, deviceType, description, schema } = req.body;
+
+    const schemaErrors = validateConfigSchema(schema);
+    if (schemaErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid configuration schema', details: schemaErrors });
     }
 
-    // Return minimal response
-    res.json({ success: true });
+    const record = await ConfigSchemaService.createVersion({
+      conversionLogicId: conversionLogicId ?? null,
+      deviceType,
+      description: description || null,
+      schema
+    }, req.user.id);
+
+    res.status(201).json({
+      success: true,
+      data: record,
+      message: `Schema ${record.label} saved and activated`
+    });
 
   } catch (error) {
-    console.error('Error updating device status:', error);
-    res.status(500).json({ error: 'Failed to update status' });
+    if (error.number === 2627 || error.number === 2601) {
+      return res.status(409).json({ error: 'Another schema version was saved at the same time, please retry' });
+    }
+    console.error('Error creating configuration schema:', error);
+    res.status(500).json({ error: 'Failed to create configuration schema' });
   }
 });
 
-/**
- * AUDIT TRAIL AND HISTORY ENDPOINTS
- */
-
-// Get configuration history for a device
-router.get('/admin/configs/:deviceId/history', [
+// Make an earlier schema version active again
+router.post('/admin/schemas/:schemaId/activate', [
   requireAdmin,
-  addDataFilter,
-  param('deviceId').isString().notEmpty(),
-  query('page').optional().isInt({ min: 1 }).toInt(),
-  query('limit').optional().isInt({ min: 1, max: 50 }).toInt()
+  param('schemaId').isInt({ min: 1 }).toInt()
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -921,17 +1013,1051 @@ router.get('/admin/configs/:deviceId/history', [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { deviceId } = req.params;
-    const { page = 1, limit = 20 } = req.query;
-    const offset = (page - 1) * limit;
-    const { dataFilter } = req;
+    if (!await ConfigSchemaService.tableExists()) {
+      return schemaTableMissingResponse(res);
+    }
 
-    // Build query with client filtering
-    let baseQuery = `
-      SELECT 
-        dc.config_id,
-        dc.config_version,
-        dc.config_name,
+    const record = await ConfigSchemaService.activateVersion(req.params.schemaId);
+    if (!record) {
+      return res.status(404).json({ error: 'Configuration schema not found' });
+    }
+
+    res.json({
+      success: true,
+      data: record,
+      message: `Schema ${record.label} is now active`
+    });
+
+  } catch (error) {
+    console.error('Error activating configuration schema:', error);
+    res.status(500).json({ error: 'Failed to activate configuration schema' });
+  }
+});
+
+/**
+ * EFFECTIVE CONFIGURATION ROUTES
+ * Universal settings, client overrides and device configuration merged into what the device
+ * downloads (see services/effectiveConfig.js)
+ */
+
+const effectiveConfigTablesMissingResponse = (res) => tablesMissingResponse(res, 'Client configuration overrides', 'create_effective_config_tables.sql');
+
+// Overrides reach every device of the client merged with its own config, so each result is held to that device's schema
+const validateOverrideChanges = async (changes) => {
+  const errors = [];
+  for (const { after } of changes) {
+    const { schema, errors: deviceErrors } = await ConfigSchemaService.validateForDevice(after.deviceId, after.data);
+    deviceErrors.forEach(error => {
+      errors.push({ ...error, deviceId: after.deviceId, schema: schema.label });
+    });
+  }
+  return errors;
+};
+
+// Audit entry on the active config of each device whose effective configuration an override change touched
+const logOverrideChanges = async (changes, action, changeReason, req) => {
+  for (const { before, after } of changes) {
+    await logConfigurationAction(
+      after.layers.device.configId,
+      action,
+      req.user.id,
+      JSON.stringify(before.data),
+      JSON.stringify(after.data),
+      changeReason,
+      req.ip,
+      req.get('User-Agent')
+    );
+  }
+};
+
+// Merged configuration of a device with the layer each field came from
+router.get('/admin/configs/:deviceId/effective', [
+  requireAdmin,
+  addDataFilter,
+  param('deviceId').isString().notEmpty()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { deviceId } = req.params;
+    const { dataFilter } = req;
+
+    let deviceQuery = 'SELECT d.Device_ID FROM device d WHERE d.Device_ID = @deviceId';
+    const deviceParams = { deviceId };
+
+    if (!dataFilter.isAdmin) {
+      const { whereClause: clientFilter, params: clientParams } = dataFilter.buildClientFilter('d');
+      deviceQuery += ` AND ${clientFilter}`;
+      Object.assign(deviceParams, clientParams);
+    }
+
+    const devices = await database.query(deviceQuery, deviceParams);
+    if (!devices || devices.length === 0) {
+      return res.status(404).json({ error: 'Device not found or access denied' });
+    }
+
+    const effective = await EffectiveConfigService.resolve(deviceId);
+
+    res.json({
+      success: true,
+      data: {
+        deviceId: effective.deviceId,
+        data: effective.data,
+        sources: effective.sources,
+        hash: effective.hash,
+        layers: effective.layers,
+        // false until create_effective_config_tables.sql has run; only the device layer applies then
+        layered: await EffectiveConfigService.tablesExist()
+      }
+    });
+
+  } catch (error) {
+    console.error('Error resolving effective configuration:', error);
+    res.status(500).json({ error: 'Failed to resolve effective configuration' });
+  }
+});
+
+// Client-level overrides; data is null when the client has none
+router.get('/admin/client-overrides/:clientId', [
+  requireAdmin,
+  param('clientId').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await EffectiveConfigService.tablesExist()) {
+      return effectiveConfigTablesMissingResponse(res);
+    }
+
+    res.json({
+      success: true,
+      data: await EffectiveConfigService.getClientOverrides(req.params.clientId)
+    });
+
+  } catch (error) {
+    console.error('Error fetching client configuration overrides:', error);
+    res.status(500).json({ error: 'Failed to fetch client configuration overrides' });
+  }
+});
+
+// Replace a client's overrides; every device of the client picks them up on its next version poll
+router.put('/admin/client-overrides/:clientId', [
+  requireAdmin,
+  param('clientId').isInt({ min: 1 }).toInt(),
+  body('overrides').isObject().withMessage('overrides must be an object'),
+  body('notes').optional({ nullable: true }).isString().isLength({ max: 500 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await EffectiveConfigService.tablesExist()) {
+      return effectiveConfigTablesMissingResponse(res);
+    }
+
+    if (await ConfigApprovalService.isRequired()) {
+      return approvalRequiredResponse(res, 'Client configuration overrides cannot be changed while two-person approval is required');
+    }
+
+    const { clientId } = req.params;
+    const notes = req.body.notes || null;
+    const changes = await EffectiveConfigService.previewClientOverrides(clientId, req.body.overrides);
+
+    const schemaErrors = await validateOverrideChanges(changes);
+    if (schemaErrors.length > 0) {
+      const deviceIds = [...new Set(schemaErrors.map(error => error.deviceId))].join(', ');
+      return res.status(400).json({
+        error: `Overrides would make the configuration of device ${deviceIds} invalid: ${formatConfigErrors(schemaErrors)}`,
+        details: schemaErrors
+      });
+    }
+
+    const overrides = await EffectiveConfigService.saveClientOverrides(clientId, {
+      overrides: req.body.overrides,
+      notes
+    }, req.user.id);
+
+    await logOverrideChanges(
+      changes,
+      'CLIENT_OVERRIDES',
+      `Overrides of client ${clientId} saved${notes ? `: ${notes}` : ''}`,
+      req
+    );
+
+    res.json({
+      success: true,
+      data: overrides,
+      message: 'Client configuration overrides saved'
+    });
+
+  } catch (error) {
+    console.error('Error saving client configuration overrides:', error);
+    res.status(500).json({ error: 'Failed to save client configuration overrides' });
+  }
+});
+
+router.delete('/admin/client-overrides/:clientId', [
+  requireAdmin,
+  param('clientId').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await EffectiveConfigService.tablesExist()) {
+      return effectiveConfigTablesMissingResponse(res);
+    }
+
+    if (await ConfigApprovalService.isRequired()) {
+      return approvalRequiredResponse(res, 'Client configuration overrides cannot be changed while two-person approval is required');
+    }
+
+    const { clientId } = req.params;
+    const changes = await EffectiveConfigService.previewClientOverrides(clientId, null);
+
+    if (!await EffectiveConfigService.deleteClientOverrides(clientId)) {
+      return res.status(404).json({ error: 'Client has no configuration overrides' });
+    }
+
+    await logOverrideChanges(changes, 'CLIENT_OVERRIDES_REMOVED', `Overrides of client ${clientId} removed`, req);
+
+    res.json({
+      success: true,
+      message: 'Client configuration overrides removed'
+    });
+
+  } catch (error) {
+    console.error('Error removing client configuration overrides:', error);
+    res.status(500).json({ error: 'Failed to remove client configuration overrides' });
+  }
+});
+
+/**
+ * SCHEDULED ACTIVATION ROUTES
+ * Queued device / universal activations and the maintenance windows they can wait for
+ * (see services/scheduledActivations.js)
+ */
+
+// Scheduled activations in a time range, for the calendar
+router.get('/admin/scheduled-activations', [
+  requireAdmin,
+  query('from').optional().isISO8601().toDate(),
+  query('to').optional().isISO8601().toDate(),
+  query('status').optional().isIn(SCHEDULE_STATUSES),
+  query('deviceId').optional().isString().notEmpty()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ScheduledActivationService.tablesExist()) {
+      return res.json({ success: true, data: [] });
+    }
+
+    const { from, to, status, deviceId } = req.query;
+    res.json({
+      success: true,
+      data: await ScheduledActivationService.listSchedules({ from, to, status, deviceId })
+    });
+
+  } catch (error) {
+    console.error('Error fetching scheduled activations:', error);
+    res.status(500).json({ error: 'Failed to fetch scheduled activations' });
+  }
+});
+
+router.post('/admin/scheduled-activations/:scheduleId/cancel', [
+  requireAdmin,
+  param('scheduleId').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ScheduledActivationService.tablesExist()) {
+      return scheduleTablesMissingResponse(res);
+    }
+
+    const schedule = await ScheduledActivationService.cancel(req.params.scheduleId, req.user.id);
+    if (!schedule) {
+      return res.status(409).json({ error: 'Scheduled activation not found or no longer pending' });
+    }
+
+    if (schedule.targetType === 'device') {
+      await logConfigurationAction(
+        schedule.configId,
+        'CANCEL_SCHEDULE',
+        req.user.id,
+        null,
+        null,
+        `Activation scheduled for ${schedule.scheduledFor.toISOString()} cancelled`,
+        req.ip,
+        req.get('User-Agent')
+      );
+    } else {
+      await logUniversalConfigAction(schedule.configId, 'SCHEDULE_CANCELLED', req.user.id);
+    }
+
+    res.json({
+      success: true,
+      data: schedule,
+      message: 'Scheduled activation cancelled'
+    });
+
+  } catch (error) {
+    console.error('Error cancelling scheduled activation:', error);
+    res.status(500).json({ error: 'Failed to cancel scheduled activation' });
+  }
+});
+
+router.get('/admin/maintenance-windows', [
+  requireAdmin,
+  query('scopeType').optional().isIn(WINDOW_SCOPES),
+  query('scopeId').optional().isString().notEmpty()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ScheduledActivationService.tablesExist()) {
+      return res.json({ success: true, data: [] });
+    }
+
+    res.json({
+      success: true,
+      data: await ScheduledActivationService.listWindows({
+        scopeType: req.query.scopeType,
+        scopeId: req.query.scopeId
+      })
+    });
+
+  } catch (error) {
+    console.error('Error fetching maintenance windows:', error);
+    res.status(500).json({ error: 'Failed to fetch maintenance windows' });
+  }
+});
+
+// Weekly window in UTC: daysOfWeek uses 0 = Sunday, startTime is HH:mm
+router.post('/admin/maintenance-windows', [
+  requireAdmin,
+  body('scopeType').isIn(WINDOW_SCOPES),
+  body('scopeId').isString().trim().isLength({ min: 1, max: 50 }),
+  body('windowName').isString().trim().isLength({ min: 1, max: 100 }),
+  body('daysOfWeek').isArray({ min: 1, max: 7 }),
+  body('daysOfWeek.*').isInt({ min: 0, max: 6 }).toInt(),
+  body('startTime').matches(/^([01]\d|2[0-3]):[0-5]\d$/).withMessage('startTime must be HH:mm'),
+  body('durationMinutes').isInt({ min: 15, max: 1440 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ScheduledActivationService.tablesExist()) {
+      return scheduleTablesMissingResponse(res);
+    }
+
+    const window = await ScheduledActivationService.createWindow(req.body, req.user.id);
+
+    res.status(201).json({
+      success: true,
+      data: window,
+      message: 'Maintenance window created'
+    });
+
+  } catch (error) {
+    console.error('Error creating maintenance window:', error);
+    res.status(500).json({ error: 'Failed to create maintenance window' });
+  }
+});
+
+// Activations already scheduled in the window keep their time
+router.delete('/admin/maintenance-windows/:windowId', [
+  requireAdmin,
+  param('windowId').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ScheduledActivationService.tablesExist()) {
+      return scheduleTablesMissingResponse(res);
+    }
+
+    if (!await ScheduledActivationService.deleteWindow(req.params.windowId)) {
+      return res.status(404).json({ error: 'Maintenance window not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Maintenance window deleted'
+    });
+
+  } catch (error) {
+    console.error('Error deleting maintenance window:', error);
+    res.status(500).json({ error: 'Failed to delete maintenance window' });
+  }
+});
+
+/**
+ * CONFIG APPROVAL ROUTES
+ * Proposed device / universal activations waiting for a second user (see services/configApprovals.js)
+ */
+
+const approvalTablesMissingResponse = (res) => tablesMissingResponse(res, 'Config approvals', 'create_config_approval_tables.sql');
+
+const requestInfo = (req) => ({ ipAddress: req.ip, userAgent: req.get('User-Agent') });
+
+router.get('/admin/approvals', [
+  requireAdmin,
+  query('status').optional().isIn(APPROVAL_STATUSES),
+  query('targetType').optional().isIn(['device', 'universal']),
+  query('deviceId').optional().isString().notEmpty()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ConfigApprovalService.tablesExist()) {
+      return res.json({ success: true, data: [], required: false });
+    }
+
+    const { status, targetType, deviceId } = req.query;
+    res.json({
+      success: true,
+      data: await ConfigApprovalService.listApprovals({ status, targetType, deviceId }),
+      required: await ConfigApprovalService.isRequired()
+    });
+
+  } catch (error) {
+    console.error('Error fetching config approvals:', error);
+    res.status(500).json({ error: 'Failed to fetch config approvals' });
+  }
+});
+
+router.get('/admin/approvals/:approvalId', [
+  requireAdmin,
+  param('approvalId').isInt().toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ConfigApprovalService.tablesExist()) {
+      return approvalTablesMissingResponse(res);
+    }
+
+    const approval = await ConfigApprovalService.getApproval(req.params.approvalId);
+    if (!approval) {
+      return res.status(404).json({ error: 'Proposal not found' });
+    }
+
+    res.json({
+      success: true,
+      data: { ...approval, comments: await ConfigApprovalService.getComments(approval.approvalId) }
+    });
+
+  } catch (error) {
+    console.error('Error fetching config approval:', error);
+    res.status(500).json({ error: 'Failed to fetch config approval' });
+  }
+});
+
+router.post('/admin/approvals/:approvalId/comments', [
+  requireAdmin,
+  param('approvalId').isInt().toInt(),
+  body('comment').isString().trim().isLength({ min: 1, max: 1000 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ConfigApprovalService.tablesExist()) {
+      return approvalTablesMissingResponse(res);
+    }
+
+    if (!await ConfigApprovalService.getApproval(req.params.approvalId)) {
+      return res.status(404).json({ error: 'Proposal not found' });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: await ConfigApprovalService.addComment(req.params.approvalId, req.user.id, req.body.comment),
+      message: 'Comment added'
+    });
+
+  } catch (error) {
+    console.error('Error adding approval comment:', error);
+    res.status(500).json({ error: 'Failed to add comment' });
+  }
+});
+
+// Approve carries the change out right away (or hands it to the scheduler)
+router.post('/admin/approvals/:approvalId/approve', [
+  requireAdmin,
+  param('approvalId').isInt().toInt(),
+  body('comment').optional().isString().trim().isLength({ max: 500 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ConfigApprovalService.tablesExist()) {
+      return approvalTablesMissingResponse(res);
+    }
+
+    const { approval, error, status } = await ConfigApprovalService.approve(
+      req.params.approvalId, req.user.id, req.body.comment, requestInfo(req)
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    res.json({
+      success: true,
+      data: approval,
+      message: `Change approved: ${approval.resultMessage}`
+    });
+
+  } catch (error) {
+    console.error('Error approving config change:', error);
+    res.status(500).json({ error: 'Failed to approve config change' });
+  }
+});
+
+router.post('/admin/approvals/:approvalId/reject', [
+  requireAdmin,
+  param('approvalId').isInt().toInt(),
+  body('reason').isString().trim().isLength({ min: 3, max: 500 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ConfigApprovalService.tablesExist()) {
+      return approvalTablesMissingResponse(res);
+    }
+
+    const { approval, error, status } = await ConfigApprovalService.reject(
+      req.params.approvalId, req.user.id, req.body.reason, requestInfo(req)
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    res.json({
+      success: true,
+      data: approval,
+      message: 'Change rejected'
+    });
+
+  } catch (error) {
+    console.error('Error rejecting config change:', error);
+    res.status(500).json({ error: 'Failed to reject config change' });
+  }
+});
+
+router.post('/admin/approvals/:approvalId/withdraw', [
+  requireAdmin,
+  param('approvalId').isInt().toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ConfigApprovalService.tablesExist()) {
+      return approvalTablesMissingResponse(res);
+    }
+
+    const { approval, error, status } = await ConfigApprovalService.withdraw(
+      req.params.approvalId, req.user.id, requestInfo(req)
+    );
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    res.json({
+      success: true,
+      data: approval,
+      message: 'Change withdrawn'
+    });
+
+  } catch (error) {
+    console.error('Error withdrawing config change:', error);
+    res.status(500).json({ error: 'Failed to withdraw config change' });
+  }
+});
+
+/**
+ * ROLLOUT CAMPAIGN ROUTES
+ * Staged deployment of one configuration to many devices (see services/configRollout.js)
+ */
+
+const rolloutTablesMissingResponse = (res) => tablesMissingResponse(res, 'Rollout campaigns', 'create_config_rollout_tables.sql');
+
+// List rollout campaigns with progress counts
+router.get('/admin/rollouts', [
+  requireAdmin,
+  query('status').optional().isIn([...CAMPAIGN_STATUSES, 'all']),
+  query('limit').optional().isInt({ min: 1, max: 200 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ConfigRolloutService.tablesExist()) {
+      return rolloutTablesMissingResponse(res);
+    }
+
+    const { status = 'all', limit = 50 } = req.query;
+    const campaigns = await ConfigRolloutService.listCampaigns({
+      status: status === 'all' ? null : status,
+      limit
+    });
+
+    res.json({
+      success: true,
+      data: campaigns
+    });
+
+  } catch (error) {
+    console.error('Error fetching rollout campaigns:', error);
+    res.status(500).json({ error: 'Failed to fetch rollout campaigns' });
+  }
+});
+
+// Get a rollout campaign with per-wave progress and its target devices
+router.get('/admin/rollouts/:campaignId', [
+  requireAdmin,
+  param('campaignId').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ConfigRolloutService.tablesExist()) {
+      return rolloutTablesMissingResponse(res);
+    }
+
+    const { campaignId } = req.params;
+    const campaign = await ConfigRolloutService.getCampaign(campaignId);
+    if (!campaign) {
+      return res.status(404).json({ error: 'Rollout campaign not found' });
+    }
+
+    const [progress, waves, targets] = await Promise.all([
+      ConfigRolloutService.getProgress([campaignId]),
+      ConfigRolloutService.getWaveProgress(campaignId),
+      ConfigRolloutService.getTargets(campaignId)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        ...toCampaignResponse(campaign, progress.get(campaignId)),
+        configData: JSON.parse(campaign.config_data),
+        waves,
+        targets
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching rollout campaign:', error);
+    res.status(500).json({ error: 'Failed to fetch rollout campaign' });
+  }
+});
+
+// Create a rollout campaign and start its canary wave
+router.post('/admin/rollouts', [
+  requireAdmin,
+  body('campaignName').isString().isLength({ min: 1, max: 255 }).trim(),
+  body('configName').isString().isLength({ min: 1, max: 255 }).trim(),
+  body('configData').notEmpty(),
+  body('targetType').isIn(TARGET_TYPES),
+  body('targetValue').if(body('targetType').isIn(['client', 'logic'])).isInt({ min: 1 }).toInt(),
+  body('deviceIds').if(body('targetType').equals('devices')).isArray({ min: 1, max: 1000 }),
+  body('deviceIds.*').optional().isString().notEmpty(),
+  body('canaryPercent').optional().isInt({ min: 1, max: 100 }).toInt(),
+  body('waveCount').optional().isInt({ min: 1, max: 20 }).toInt(),
+  body('failureThresholdPercent').optional().isInt({ min: 0, max: 100 }).toInt(),
+  body('notes').optional().isString().isLength({ max: 1000 }).trim()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ConfigRolloutService.tablesExist()) {
+      return rolloutTablesMissingResponse(res);
+    }
+
+    // Each wave activates configurations right away
+    if (await ConfigApprovalService.isRequired()) {
+      return approvalRequiredResponse(res, 'Rollout campaigns cannot be started while two-person approval is required');
+    }
+
+    const {
+      campaignName,
+      configName,
+      configData: rawConfigData,
+      targetType,
+      targetValue,
+      deviceIds,
+      canaryPercent = 10,
+      waveCount = 3,
+      failureThresholdPercent = 20,
+      notes
+    } = req.body;
+
+    const configData = typeof rawConfigData === 'string' ? rawConfigData : JSON.stringify(rawConfigData);
+    const validation = validateConfigurationJSON(configData);
+    if (!validation.valid) {
+      return res.status(400).json({ error: `Invalid configuration: ${validation.error}` });
+    }
+
+    const targetDevices = await ConfigRolloutService.resolveTargets(targetType, targetType === 'devices' ? deviceIds : targetValue);
+    const schemaErrors = await ConfigSchemaService.validateForDevices(targetDevices, validation.parsed);
+    if (schemaErrors.length > 0) {
+      const schemas = [...new Set(schemaErrors.map(error => error.schema))].join(', ');
+      return schemaErrorResponse(res, schemas, schemaErrors);
+    }
+
+    const campaign = await ConfigRolloutService.createCampaign({
+      campaignName,
+      configName,
+      configData,
+      targetType,
+      targetValue,
+      deviceIds,
+      canaryPercent,
+      waveCount,
+      failureThresholdPercent,
+      notes
+    }, req.user.id, req);
+
+    if (!campaign) {
+      return res.status(400).json({ error: 'No devices match the campaign target' });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Rollout campaign started',
+      data: toCampaignResponse(await ConfigRolloutService.getCampaign(campaign.campaign_id))
+    });
+
+  } catch (error) {
+    console.error('Error creating rollout campaign:', error);
+    res.status(500).json({ error: 'Failed to create rollout campaign' });
+  }
+});
+
+// Pause, resume or abort a rollout campaign
+router.post('/admin/rollouts/:campaignId/:action', [
+  requireAdmin,
+  param('campaignId').isInt({ min: 1 }).toInt(),
+  param('action').isIn(['pause', 'resume', 'abort']),
+  body('reason').optional().isString().isLength({ max: 500 }).trim()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await ConfigRolloutService.tablesExist()) {
+      return rolloutTablesMissingResponse(res);
+    }
+
+    const { campaignId, action } = req.params;
+    const { reason } = req.body;
+
+    // Resuming starts the next wave; pausing and aborting stay available to wind a campaign down
+    if (action === 'resume' && await ConfigApprovalService.isRequired()) {
+      return approvalRequiredResponse(res, 'Rollout campaigns cannot be resumed while two-person approval is required');
+    }
+
+    let campaign;
+    if (action === 'pause') {
+      campaign = await ConfigRolloutService.pause(campaignId, req.user.id, reason);
+    } else if (action === 'resume') {
+      campaign = await ConfigRolloutService.resume(campaignId, req.user.id, reason, req);
+    } else {
+      campaign = await ConfigRolloutService.abort(campaignId, req.user.id, reason);
+    }
+
+    if (!campaign) {
+      return res.status(409).json({ error: `Rollout campaign not found or cannot ${action} in its current state` });
+    }
+
+    const progress = await ConfigRolloutService.getProgress([campaignId]);
+    res.json({
+      success: true,
+      message: `Rollout campaign ${action === 'abort' ? 'aborted' : action === 'pause' ? 'paused' : 'resumed'}`,
+      data: toCampaignResponse(await ConfigRolloutService.getCampaign(campaignId), progress.get(campaignId))
+    });
+
+  } catch (error) {
+    console.error('Error updating rollout campaign:', error);
+    res.status(500).json({ error: 'Failed to update rollout campaign' });
+  }
+});
+
+/**
+ * ULTRA-LIGHTWEIGHT DEVICE API ROUTES
+ * Optimized for IoT device constraints (minimal bandwidth)
+ * Requests are signed with the device's API key (see authenticateSignedDevice)
+ */
+
+// Ultra-lightweight version check API - returns only short hash (< 10 bytes)
+// Devices should pass ?current=<hash prefix> of the config they are running and ?fw=<firmware version>
+// so deployments can be confirmed and config drift detected
+router.get('/device/version/:deviceId', [
+  authenticateSignedDevice,
+  param('deviceId').isString().notEmpty(),
+  query('current').optional().isHexadecimal().isLength({ min: 8, max: 64 }),
+  query('fw').optional().isString().isLength({ min: 1, max: 50 }).matches(/^[\w.+-]+$/)
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    // Always the authenticated device, never another ID from the request
+    const deviceId = req.device.id;
+
+    // Hash of the merged universal / client / device configuration the device would download
+    const effective = await EffectiveConfigService.resolve(deviceId);
+    const activeConfig = effective?.layers.device
+      ? { config_id: effective.layers.device.configId, config_hash: effective.hash }
+      : null;
+
+    const { current, fw } = req.query;
+    try {
+      await EffectiveConfigService.storeHash(effective);
+      await DeploymentReconciler.recordPoll(deviceId, current || null);
+      if (current || fw) {
+        await ConfigDriftService.recordCheckin(deviceId, {
+          reportedHash: current || null,
+          firmwareVersion: fw || null,
+          activeConfig
+        });
+      }
+    } catch (pollError) {
+      console.error('Failed to record config poll:', pollError);
+    }
+
+    // Return plain text response to minimize overhead
+    res.set('Content-Type', 'text/plain');
+    res.send(activeConfig ? activeConfig.config_hash.slice(0, 8) : 'none');
+
+  } catch (error) {
+    console.error('Error checking config version:', error);
+    res.status(500).send('error');
+  }
+});
+
+// Configuration download API - returns the effective (universal + client + device) configuration JSON
+router.get('/device/config/:deviceId', [
+  authenticateSignedDevice,
+  param('deviceId').isString().notEmpty()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const deviceId = req.device.id;
+
+    // The device's own active configuration is still required; the other layers only add to it
+    const effective = await EffectiveConfigService.resolve(deviceId);
+    const config = effective?.layers.device;
+
+    if (!config) {
+      return res.status(404).json({ error: 'No active configuration found' });
+    }
+
+    try {
+      await EffectiveConfigService.storeHash(effective);
+      await DeploymentReconciler.recordDownload(deviceId, config.configId);
+    } catch (pollError) {
+      console.error('Failed to record config download:', pollError);
+    }
+
+    // Merged configuration data with minimal metadata
+    res.json({
+      id: config.configId,
+      version: config.configVersion,
+      hash: effective.hash,
+      name: config.configName,
+      data: effective.data
+    });
+
+  } catch (error) {
+    console.error('Error fetching device config:', error);
+    res.status(500).json({ error: 'Failed to fetch configuration' });
+  }
+});
+
+// Device status reporting API - for deployment feedback
+router.post('/device/status/:deviceId', [
+  authenticateSignedDevice,
+  param('deviceId').isString().notEmpty(),
+  body('configId').isInt().toInt(),
+  body('status').isIn(['success', 'failed', 'in_progress']),
+  body('error').optional().isString().isLength({ max: 1000 }).trim(),
+  body('deploymentId').optional().isInt().toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const deviceId = req.device.id;
+    const { configId, status, error, deploymentId } = req.body;
+
+    // If deployment ID is provided, update that specific deployment
+    if (deploymentId) {
+      await database.query(`
+        UPDATE Device_Config_Deployments 
+        SET 
+          deployment_status = @status,
+          completed_at = CASE WHEN @status IN ('success', 'failed') THEN GETDATE() ELSE completed_at END,
+          error_message = @error
+        WHERE deployment_id = @deploymentId 
+          AND device_id = @deviceId 
+          AND config_id = @configId
+      `, {
+        status,
+        error: error || null,
+        deploymentId,
+        deviceId,
+        configId
+      });
+    } else {
+      // Update the most recent deployment for this device/config
+      await database.query(`
+        UPDATE Device_Config_Deployments 
+        SET 
+          deployment_status = @status,
+          completed_at = CASE WHEN @status IN ('success', 'failed') THEN GETDATE() ELSE completed_at END,
+          error_message = @error
+        WHERE config_id = @configId 
+          AND device_id = @deviceId 
+          AND deployment_id = (
+            SELECT TOP 1 deployment_id 
+            FROM Device_Config_Deployments 
+            WHERE config_id = @configId AND device_id = @deviceId 
+            ORDER BY initiated_at DESC
+          )
+      `, {
+        status,
+        error: error || null,
+        configId,
+        deviceId
+      });
+    }
+
+    // If deployment was successful, mark configuration as deployed
+    if (status === 'success') {
+      await database.query(`
+        UPDATE Device_Configurations 
+        SET is_deployed = 1, deployment_status = 'deployed'
+        WHERE config_id = @configId AND device_id = @deviceId
+      `, { configId, deviceId });
+    } else if (status === 'failed') {
+      await database.query(`
+        UPDATE Device_Configurations
+        SET deployment_status = 'failed'
+        WHERE config_id = @configId AND device_id = @deviceId
+      `, { configId, deviceId });
+    }
+
+    // Let a running rollout campaign advance or halt on this result
+    if (status === 'success' || status === 'failed') {
+      try {
+        await ConfigRolloutService.recordDeploymentResult(deviceId, configId);
+      } catch (rolloutError) {
+        console.error('Failed to update rollout campaign:', rolloutError);
+      }
+    }
+
+    // Return minimal response
+    res.json({ success: true });
+
+  } catch (error) {
+    console.error('Error updating device status:', error);
+    res.status(500).json({ error: 'Failed to update status' });
+  }
+});
+
+/**
+ * AUDIT TRAIL AND HISTORY ENDPOINTS
+ */
+
+// Get configuration history for a device
+router.get('/admin/configs/:deviceId/history', [
+  requireAdmin,
+  addDataFilter,
+  param('deviceId').isString().notEmpty(),
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 50 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { deviceId } = req.params;
+    const { page = 1, limit = 20 } = req.query;
+    const offset = (page - 1) * limit;
+    const { dataFilter } = req;
+
+    // Build query with client filtering
+    let baseQuery = `
+      SELECT 
+        dc.config_id,
+        dc.config_version,
+        dc.config_name,
         dc.is_active,
         dc.is_deployed,
         dc.deployment_status,
@@ -1160,7 +2286,11 @@ router.get('/admin/devices/status', [
     let baseQuery;
     
     if (configTableExists) {
-      // Build query with configuration data
+      const reconciled = await DeploymentReconciler.tablesExist();
+      const driftTracked = reconciled && await ConfigDriftService.tablesExist();
+      const expectedHash = await EffectiveConfigService.expectedHashSql('dc');
+
+      // Build query with configuration data and the latest deployment of the active config
       baseQuery = `
         SELECT 
           d.Device_ID as device_id,
@@ -1168,6 +2298,7 @@ router.get('/admin/devices/status', [
           dc.config_id,
           dc.config_name,
           dc.config_version,
+          ${expectedHash} as config_hash,
           dc.deployment_status,
           dc.activated_at,
           (
@@ -1175,9 +2306,24 @@ router.get('/admin/devices/status', [
             FROM Device_Configurations dc2 
             WHERE dc2.device_id = d.Device_ID
           ) as total_configs,
-          ISNULL(dc.activated_at, GETDATE()) as last_updated
+          ISNULL(dc.activated_at, GETDATE()) as last_updated,
+          dep.retry_count as deployment_retries,
+          dep.error_message as deployment_error,
+          ${reconciled ? 'dep.completion_source' : 'NULL'} as completion_source,
+          ${reconciled ? 'p.last_polled_at' : 'NULL'} as last_polled_at,
+          ${reconciled ? 'p.reported_hash' : 'NULL'} as reported_hash,
+          ${reconciled ? 'p.reported_at' : 'NULL'} as reported_at,
+          ${driftTracked ? 'p.firmware_version' : 'NULL'} as firmware_version,
+          ${driftTracked ? 'p.drift_since' : 'NULL'} as drift_since
         FROM device d
         LEFT JOIN Device_Configurations dc ON d.Device_ID = dc.device_id AND dc.is_active = 1
+        OUTER APPLY (
+          SELECT TOP 1 *
+          FROM Device_Config_Deployments dcd
+          WHERE dcd.config_id = dc.config_id
+          ORDER BY dcd.initiated_at DESC
+        ) dep
+        ${reconciled ? 'LEFT JOIN Device_Config_Polls p ON p.device_id = d.Device_ID' : ''}
       `;
     } else {
       // Build query without configuration data
@@ -1188,10 +2334,19 @@ router.get('/admin/devices/status', [
           NULL as config_id,
           NULL as config_name,
           NULL as config_version,
+          NULL as config_hash,
           NULL as deployment_status,
           NULL as activated_at,
           0 as total_configs,
-          GETDATE() as last_updated
+          GETDATE() as last_updated,
+          NULL as deployment_retries,
+          NULL as deployment_error,
+          NULL as completion_source,
+          NULL as last_polled_at,
+          NULL as reported_hash,
+          NULL as reported_at,
+          NULL as firmware_version,
+          NULL as drift_since
         FROM device d
       `;
     }
@@ -1219,10 +2374,21 @@ router.get('/admin/devices/status', [
           config_name: device.config_name,
           config_version: device.config_version,
           deployment_status: device.deployment_status,
-          activated_at: device.activated_at
+          activated_at: device.activated_at,
+          deployment_retries: device.deployment_retries || 0,
+          deployment_error: device.deployment_error,
+          completion_source: device.completion_source
         } : null,
         total_configs: device.total_configs,
-        last_updated: device.last_updated
+        last_updated: device.last_updated,
+        last_polled_at: device.last_polled_at,
+        config_sync: device.reported_hash || device.firmware_version ? {
+          reported_hash: device.reported_hash,
+          reported_at: device.reported_at,
+          firmware_version: device.firmware_version,
+          in_sync: isInSync(device.reported_hash, device.config_hash),
+          drift_since: device.drift_since
+        } : null
       }))
     });
 
@@ -1272,11 +2438,13 @@ router.get('/admin/device/:deviceId/details', [
       return res.status(404).json({ error: 'Device not found' });
     }
 
+    // Full keys are never returned; once hashed storage is set up the column already holds just the prefix
+    const hashedKeys = await DeviceApiKeyService.tablesExist();
     const deviceData = {
       device_id: result[0].Device_ID,
       channel_id: result[0].Channel_ID,
       field_id: result[0].Field_ID,
-      api_key: result[0].APIKey,
+      api_key_prefix: result[0].APIKey ? (hashedKeys ? result[0].APIKey : getKeyPrefix(result[0].APIKey)) : null,
       client_id: result[0].client_id,
       conversion_logic_id: result[0].ConversionLogicID
     };
@@ -1285,7 +2453,7 @@ router.get('/admin/device/:deviceId/details', [
       device_id: deviceData.device_id,
       channel_id: deviceData.channel_id,
       field_id: deviceData.field_id,
-      api_key: deviceData.api_key ? '***' + deviceData.api_key.slice(-4) : 'NULL',
+      api_key_prefix: deviceData.api_key_prefix || 'NULL',
       client_id: deviceData.client_id,
       conversion_logic_id: deviceData.conversion_logic_id
     });
@@ -1,8 +1,13 @@
 import express from 'express';
-import { query, param, validationResult } from 'express-validator';
+import { query, param, body, validationResult } from 'express-validator';
 import database from '../config/database.js';
-import { authenticateToken, requireViewerOrAbove } from '../middleware/auth.js';
+import { authenticateToken, requireViewerOrAbove, requireUserOrAdmin } from '../middleware/auth.js';
 import { addDataFilter, requireDataAccess, addClientFilterToQuery } from '../middleware/dataFilter.js';
+import { tablesMissingResponse } from '../middleware/tablesMissing.js';
+import { convertHexData, compareDecodedData } from '../shared/hexConversion.js';
+import PayloadLayoutService from '../services/payloadLayoutService.js';
+import DeviceLivenessService, { toLivenessResponse } from '../services/deviceLiveness.js';
+import ConfigDriftService from '../services/configDrift.js';
 
 const router = express.Router();
 
@@ -12,6 +17,8 @@ router.use(requireViewerOrAbove);
 router.use(addDataFilter);
 router.use(requireDataAccess);
 
+const livenessTableMissingResponse = (res) => tablesMissingResponse(res, 'Device maintenance', 'create_device_liveness_tables.sql');
+
 // Get all devices with latest data
 router.get('/', async (req, res) => {
   try {
@@ -62,6 +69,7 @@ router.get('/', async (req, res) => {
 
     const { query: filteredQuery, params } = addClientFilterToQuery(devicesQuery, dataFilter, 'd');
     const devices = await database.query(filteredQuery, params);
+    const liveness = await DeviceLivenessService.getLivenessSafely({ dataFilter });
 
     res.json({
       success: true,
@@ -70,6 +78,7 @@ router.get('/', async (req, res) => {
         name: device.Device_ID,
         channelId: null,
         clientId: device.client_id,
+        liveness: toLivenessResponse(liveness.get(device.Device_ID)),
         latestData: {
           entryId: device.Entry_ID,
           runtimeMin: device.RuntimeMin,
@@ -117,6 +126,8 @@ router.get('/:deviceId', [
     }
 
     const device = devices[0];
+    const liveness = await DeviceLivenessService.getLivenessSafely({ deviceId: device.Device_ID });
+    const configSync = await ConfigDriftService.getDeviceSyncSafely(device.Device_ID);
 
     // Get latest 100 data points with full details
     const dataPoints = await database.query(
@@ -137,8 +148,9 @@ router.get('/:deviceId', [
         name: device.Device_ID,
         channelId: device.Channel_ID,
         clientId: device.client_id,
-        apiKey: device.APIKey,
         conversionLogicID: device.ConversionLogicID,
+        liveness: toLivenessResponse(liveness.get(device.Device_ID)),
+        configSync,
         dataPoints: dataPoints.map(point => ({
           entryId: point.Entry_ID,
           runtimeMin: point.RuntimeMin,
@@ -312,4 +324,320 @@ router.get('/:deviceId/stats', [
   }
 });
 
-export default router;
\ No newline at end of file
+// Look up a device the current user may access, including its conversion logic
+async function findAccessibleDevice(deviceId, dataFilter) {
+  const deviceQuery = 'SELECT Device_ID, client_id, ConversionLogicID FROM device d WHERE Device_ID = @deviceId';
+  const { query: filteredQuery, params } = addClientFilterToQuery(deviceQuery, dataFilter, 'd');
+  const devices = await database.query(filteredQuery, { ...params, deviceId });
+  return devices[0] || null;
+}
+
+// Re-decode a stored reading's HexField with the shared decoder
+router.get('/:deviceId/data/:entryId/decode', [
+  param('deviceId').isString().notEmpty(),
+  param('entryId').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { deviceId, entryId } = req.params;
+
+    const device = await findAccessibleDevice(deviceId, req.dataFilter);
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found or access denied' });
+    }
+
+    const target = await PayloadLayoutService.getTelemetryTable(device.ConversionLogicID);
+    if (!target) {
+      return res.status(422).json({
+        error: `No decoder or telemetry table available for ConversionLogicID: ${device.ConversionLogicID}`
+      });
+    }
+
+    const rows = await database.query(
+      `SELECT Entry_ID, HexField, ${target.columns.join(', ')}
+       FROM ${target.table}
+       WHERE Device_ID = @deviceId AND Entry_ID = @entryId`,
+      { deviceId, entryId }
+    );
+
+    if (rows.length === 0) {
+      return res.status(404).json({ error: 'Data entry not found' });
+    }
+
+    const row = rows[0];
+    const result = convertHexData(row.HexField, device.ConversionLogicID);
+
+    res.json({
+      success: true,
+      data: {
+        ...result,
+        deviceId: device.Device_ID,
+        entryId: row.Entry_ID,
+        hexField: row.HexField,
+        conversionLogicId: device.ConversionLogicID,
+        mismatches: result.success ? compareDecodedData(result.decodedData, row, target.columns) : []
+      }
+    });
+
+  } catch (error) {
+    console.error('Error decoding device data:', error);
+    res.status(500).json({ error: 'Failed to decode device data' });
+  }
+});
+
+// Bulk re-decode stored readings and report rows whose columns disagree with HexField
+router.get('/:deviceId/decode/verify', [
+  param('deviceId').isString().notEmpty(),
+  query('limit').optional().isInt({ min: 1, max: 5000 }).toInt(),
+  query('startDate').optional().isISO8601(),
+  query('endDate').optional().isISO8601()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { deviceId } = req.params;
+    const { limit = 500, startDate, endDate } = req.query;
+
+    const device = await findAccessibleDevice(deviceId, req.dataFilter);
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found or access denied' });
+    }
+
+    const target = await PayloadLayoutService.getTelemetryTable(device.ConversionLogicID);
+    if (!target) {
+      return res.status(422).json({
+        error: `No decoder or telemetry table available for ConversionLogicID: ${device.ConversionLogicID}`
+      });
+    }
+
+    let whereClause = 'WHERE Device_ID = @deviceId AND HexField IS NOT NULL';
+    const params = { deviceId, limit };
+
+    if (startDate) {
+      whereClause += ' AND CreatedAt >= @startDate';
+      params.startDate = startDate;
+    }
+
+    if (endDate) {
+      whereClause += ' AND CreatedAt <= @endDate';
+      params.endDate = endDate;
+    }
+
+    const rows = await database.query(
+      `SELECT TOP (@limit) Entry_ID, HexField, CreatedAt, ${target.columns.join(', ')}
+       FROM ${target.table}
+       ${whereClause}
+       ORDER BY Entry_ID DESC`,
+      params
+    );
+
+    const mismatched = [];
+    const failed = [];
+
+    for (const row of rows) {
+      const result = convertHexData(row.HexField, device.ConversionLogicID);
+      if (!result.success) {
+        failed.push({ entryId: row.Entry_ID, hexField: row.HexField, error: result.error });
+        continue;
+      }
+
+      const mismatches = compareDecodedData(result.decodedData, row, target.columns);
+      if (mismatches.length > 0) {
+        mismatched.push({ entryId: row.Entry_ID, hexField: row.HexField, timestamp: row.CreatedAt, mismatches });
+      }
+    }
+
+    res.json({
+      success: true,
+      data: {
+        deviceId: device.Device_ID,
+        conversionLogicId: device.ConversionLogicID,
+        table: target.table,
+        checked: rows.length,
+        matched: rows.length - mismatched.length - failed.length,
+        mismatched,
+        failed
+      }
+    });
+
+  } catch (error) {
+    console.error('Error verifying device data:', error);
+    res.status(500).json({ error: 'Failed to verify device data' });
+  }
+});
+
+// Liveness transition history for a device
+router.get('/:deviceId/liveness/history', [
+  param('deviceId').isString().notEmpty(),
+  query('limit').optional().isInt({ min: 1, max: 500 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const device = await findAccessibleDevice(req.params.deviceId, req.dataFilter);
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found or access denied' });
+    }
+
+    const tableStatus = await DeviceLivenessService.getTableStatus();
+    if (!tableStatus.liveness) {
+      return res.json({ success: true, data: [] });
+    }
+
+    const history = await DeviceLivenessService.getHistory(device.Device_ID, req.query.limit || 50);
+
+    res.json({
+      success: true,
+      data: history.map(entry => ({
+        id: entry.id,
+        fromState: entry.from_state,
+        toState: entry.to_state,
+        lastSeenAt: entry.last_seen_at,
+        reason: entry.reason,
+        changedBy: entry.changed_by,
+        changedAt: entry.changed_at
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error fetching liveness history:', error);
+    res.status(500).json({ error: 'Failed to fetch liveness history' });
+  }
+});
+
+// Config check-ins (running hash / firmware reported on version polls) for a device
+router.get('/:deviceId/config-checkins', [
+  param('deviceId').isString().notEmpty(),
+  query('limit').optional().isInt({ min: 1, max: 500 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const device = await findAccessibleDevice(req.params.deviceId, req.dataFilter);
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found or access denied' });
+    }
+
+    if (!await ConfigDriftService.tablesExist()) {
+      return res.json({ success: true, data: [] });
+    }
+
+    const checkins = await ConfigDriftService.getCheckins(device.Device_ID, req.query.limit || 50);
+
+    res.json({
+      success: true,
+      data: checkins.map(checkin => ({
+        id: checkin.checkin_id,
+        reportedHash: checkin.reported_hash,
+        firmwareVersion: checkin.firmware_version,
+        expectedConfigId: checkin.expected_config_id,
+        expectedHash: checkin.expected_hash,
+        inSync: checkin.in_sync === null ? null : Boolean(checkin.in_sync),
+        checkedInAt: checkin.checked_in_at
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error fetching config check-ins:', error);
+    res.status(500).json({ error: 'Failed to fetch config check-ins' });
+  }
+});
+
+// Put a device into maintenance so silence doesn't count as offline
+router.put('/:deviceId/maintenance', [
+  requireUserOrAdmin,
+  param('deviceId').isString().notEmpty(),
+  body('until').optional({ nullable: true }).isISO8601(),
+  body('reason').optional({ nullable: true }).isString().isLength({ max: 500 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { until = null, reason = null } = req.body;
+    if (until && new Date(until) <= new Date()) {
+      return res.status(400).json({ error: 'Maintenance end time must be in the future' });
+    }
+
+    const device = await findAccessibleDevice(req.params.deviceId, req.dataFilter);
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found or access denied' });
+    }
+
+    const tableStatus = await DeviceLivenessService.getTableStatus();
+    if (!tableStatus.liveness) {
+      return livenessTableMissingResponse(res);
+    }
+
+    const liveness = await DeviceLivenessService.setMaintenance(device.Device_ID, {
+      until,
+      reason,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      data: toLivenessResponse(liveness),
+      message: 'Device placed in maintenance'
+    });
+
+  } catch (error) {
+    console.error('Error setting device maintenance:', error);
+    res.status(500).json({ error: 'Failed to set device maintenance' });
+  }
+});
+
+// End a device's maintenance window early
+router.delete('/:deviceId/maintenance', [
+  requireUserOrAdmin,
+  param('deviceId').isString().notEmpty()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const device = await findAccessibleDevice(req.params.deviceId, req.dataFilter);
+    if (!device) {
+      return res.status(404).json({ error: 'Device not found or access denied' });
+    }
+
+    const tableStatus = await DeviceLivenessService.getTableStatus();
+    if (!tableStatus.liveness) {
+      return livenessTableMissingResponse(res);
+    }
+
+    const liveness = await DeviceLivenessService.setMaintenance(device.Device_ID, {
+      enabled: false,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      data: toLivenessResponse(liveness),
+      message: 'Device maintenance ended'
+    });
+
+  } catch (error) {
+    console.error('Error ending device maintenance:', error);
+    res.status(500).json({ error: 'Failed to end device maintenance' });
+  }
+});
+
+export default router;
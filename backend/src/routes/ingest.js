@@ -0,0 +1,170 @@
+import express from 'express';
+import { body, param, validationResult } from 'express-validator';
+import sql from 'mssql';
+import database from '../config/database.js';
+import { authenticateDevice } from '../middleware/deviceAuth.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { convertHexData } from '../shared/hexConversion.js';
+import PayloadLayoutService from '../services/payloadLayoutService.js';
+import AlertEngine from '../services/alertEngine.js';
+
+const router = express.Router();
+
+const MAX_BATCH_SIZE = 100;
+
+// Insert one decoded reading; Entry_ID continues the device's own sequence
+async function insertReading(transaction, target, deviceId, hexField, decodedData, timestamp) {
+  const request = transaction.request()
+    .input('deviceId', deviceId)
+    .input('hexField', hexField)
+    .input('timestamp', timestamp);
+
+  target.columns.forEach((column, index) => {
+    request.input(`c${index}`, decodedData[column]);
+  });
+
+  const columnList = [...target.columns, ...target.timestampColumns].join(', ');
+  const valueList = [
+    ...target.columns.map((_, index) => `@c${index}`),
+    ...target.timestampColumns.map(() => '@timestamp')
+  ].join(', ');
+
+  const result = await request.query(`
+    INSERT INTO ${target.table} (Entry_ID, Device_ID, HexField, ${columnList})
+    OUTPUT INSERTED.Entry_ID
+    SELECT ISNULL(MAX(Entry_ID), 0) + 1, @deviceId, @hexField, ${valueList}
+    FROM ${target.table} WITH (UPDLOCK, HOLDLOCK)
+    WHERE Device_ID = @deviceId
+  `);
+
+  return result.recordset[0].Entry_ID;
+}
+
+const entryValidators = [
+  body('data').optional().isString().notEmpty(),
+  body('timestamp').optional().isISO8601(),
+  body('entries').optional().isArray({ min: 1, max: MAX_BATCH_SIZE }),
+  body('entries.*.data').optional().isString().notEmpty(),
+  body('entries.*.timestamp').optional().isISO8601()
+];
+
+// Resolve the target device for admin-pushed test packets (no device key involved)
+const loadDevice = async (req, res, next) => {
+  try {
+    const devices = await database.query(
+      'SELECT Device_ID, client_id, ConversionLogicID FROM device WHERE Device_ID = @deviceId',
+      { deviceId: req.params.deviceId }
+    );
+
+    if (devices.length === 0) {
+      return res.status(404).json({ error: 'Device not found' });
+    }
+
+    req.device = {
+      id: devices[0].Device_ID,
+      clientId: devices[0].client_id,
+      conversionLogicId: devices[0].ConversionLogicID
+    };
+
+    next();
+  } catch (error) {
+    console.error('Error loading device for synthetic ingest:', error);
+    res.status(500).json({ error: 'Failed to load device' });
+  }
+};
+
+// Decode and store readings for req.device
+// Accepts a single reading ({ data, timestamp? }) or a batch ({ entries: [...] })
+async function ingestReadings(req, res) {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { device } = req;
+    const entries = req.body.entries || (req.body.data ? [{ data: req.body.data, timestamp: req.body.timestamp }] : []);
+
+    if (entries.length === 0) {
+      return res.status(400).json({ error: 'Either data or entries is required' });
+    }
+
+    const target = await PayloadLayoutService.getTelemetryTable(device.conversionLogicId);
+    if (!target) {
+      return res.status(422).json({
+        error: `Device has no ingestible conversion logic (ConversionLogicID: ${device.conversionLogicId})`
+      });
+    }
+
+    // Decode everything up front so a bad reading rejects the whole batch
+    const decoded = entries.map((entry, index) => ({
+      index,
+      hexField: String(entry.data).trim(),
+      timestamp: entry.timestamp ? new Date(entry.timestamp) : new Date(),
+      result: convertHexData(entry.data, device.conversionLogicId)
+    }));
+
+    const failures = decoded.filter(item => !item.result.success);
+    if (failures.length > 0) {
+      return res.status(422).json({
+        error: 'Failed to decode payload',
+        details: failures.map(item => ({ index: item.index, error: item.result.error }))
+      });
+    }
+
+    const pool = await database.connect();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    const entryIds = [];
+    try {
+      for (const item of decoded) {
+        entryIds.push(await insertReading(
+          transaction, target, device.id, item.hexField, item.result.decodedData, item.timestamp
+        ));
+      }
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    // Don't hold up the device response on rule evaluation
+    AlertEngine.evaluate(device.id).catch(error => {
+      console.error(`Alert evaluation failed for ${device.id}:`, error);
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        deviceId: device.id,
+        logicType: decoded[0].result.logicType,
+        table: target.table,
+        inserted: entryIds.length,
+        entryIds
+      }
+    });
+
+  } catch (error) {
+    console.error('Error ingesting telemetry:', error);
+    res.status(500).json({ error: 'Failed to ingest telemetry' });
+  }
+}
+
+// Device telemetry push
+router.post('/:deviceId', [
+  param('deviceId').isString().notEmpty(),
+  authenticateDevice,
+  ...entryValidators
+], ingestReadings);
+
+// Test packets composed in HexTroubleshoot, pushed through the same decode/insert path
+router.post('/:deviceId/synthetic', [
+  authenticateToken,
+  requireAdmin,
+  param('deviceId').isString().notEmpty(),
+  loadDevice,
+  ...entryValidators
+], ingestReadings);
+
+export default router;
@@ -2,6 +2,7 @@ import express from 'express';
 import { query, param, validationResult } from 'express-validator';
 import database from '../config/database.js';
 import { authenticateToken, requireViewerOrAbove } from '../middleware/auth.js';
+import DeviceLivenessService, { toLivenessResponse } from '../services/deviceLiveness.js';
 
 const router = express.Router();
 
@@ -50,6 +51,8 @@ router.get('/', async (req, res) => {
       WHERE latest.rn = 1
       ORDER BY latest.Device_ID
     `);
+    // The motor listing isn't client-filtered, so neither is its liveness
+    const liveness = await DeviceLivenessService.getLivenessSafely();
 
     res.json({
       success: true,
@@ -67,7 +70,8 @@ router.get('/', async (req, res) => {
         motorCurrentMA: motor.Motor_Current_mA,
         createdAt: motor.CreatedAt,
         hexField: motor.HexField,
-        timestamp: motor.Timestamp
+        timestamp: motor.Timestamp,
+        liveness: toLivenessResponse(liveness.get(motor.Device_ID))
       }))
     });
 
@@ -118,10 +122,17 @@ router.get('/:deviceId', [
 
     const latestData = dataPoints[0];
 
+    // Decoder selection comes from the device registry, not the data table
+    const deviceRows = await database.query(
+      'SELECT ConversionLogicID FROM device WHERE Device_ID = @deviceId',
+      { deviceId }
+    );
+
     res.json({
       success: true,
       data: {
         deviceId: latestData.Device_ID,
+        conversionLogicID: deviceRows[0]?.ConversionLogicID ?? null,
         latestData: {
           entryId: latestData.Entry_ID,
           gsmSignalStrength: latestData.GSM_Signal_Strength,
@@ -0,0 +1,625 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import database from '../config/database.js';
+import { authenticateToken, requireAdmin, requireViewerOrAbove } from '../middleware/auth.js';
+import { addDataFilter } from '../middleware/dataFilter.js';
+import { tablesMissingResponse } from '../middleware/tablesMissing.js';
+import { CHANNEL_TYPES, redactChannelConfig, validateChannelConfig } from '../services/notificationChannels.js';
+import NotificationService, { ALERT_SEVERITIES, DELIVERY_MODES, isValidTimeZone } from '../services/notificationService.js';
+
+const router = express.Router();
+
+router.use(authenticateToken);
+router.use(requireViewerOrAbove);
+router.use(addDataFilter);
+
+const tableMissingResponse = (res) => tablesMissingResponse(res, 'Notifications', 'create_notification_tables.sql');
+
+// Every route below needs the notification tables
+router.use(async (req, res, next) => {
+  try {
+    if (!(await NotificationService.tablesExist())) {
+      return tableMissingResponse(res);
+    }
+    next();
+  } catch (error) {
+    console.error('Error checking notification tables:', error);
+    res.status(500).json({ error: 'Failed to check notification tables' });
+  }
+});
+
+const HH_MM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const channelValidators = [
+  body('name').isString().trim().isLength({ min: 1, max: 100 }),
+  body('type').isIn(CHANNEL_TYPES),
+  body('config').optional().isObject(),
+  body('isEnabled').optional().isBoolean().toBoolean()
+];
+
+const subscriptionValidators = [
+  body('channelId').isInt({ min: 1 }).toInt(),
+  body('clientId').optional({ nullable: true }).isString(),
+  body('deviceId').optional({ nullable: true }).isString(),
+  body('severities').optional().isArray(),
+  body('severities.*').isIn(ALERT_SEVERITIES),
+  body('alertTypes').optional().isArray(),
+  body('alertTypes.*').isString().trim().notEmpty().isLength({ max: 50 }),
+  body('deliveryMode').isIn(DELIVERY_MODES),
+  body('isEnabled').optional().isBoolean().toBoolean()
+];
+
+const toChannelResponse = (row, isAdmin) => {
+  const channel = NotificationService.toChannel(row);
+  // Non-admins only need enough to pick a channel when subscribing
+  return isAdmin
+    ? { ...channel, config: redactChannelConfig(channel.config) }
+    : { id: channel.id, name: channel.name, type: channel.type, isEnabled: channel.isEnabled };
+};
+
+// Secrets come back redacted, so keep the stored value when a redacted placeholder is sent back
+const mergeRedactedConfig = (incoming, existing) => {
+  const merged = { ...incoming };
+  if (merged.secret === '********') merged.secret = existing.secret;
+  if (merged.headers && existing.headers) {
+    merged.headers = Object.fromEntries(Object.entries(merged.headers).map(([name, value]) => [
+      name,
+      value === '********' ? existing.headers[name] : value
+    ]));
+  }
+  return merged;
+};
+
+// Check the subscriber can see the client / device their subscription filters on
+async function validateSubscriptionScope(subscription, dataFilter) {
+  if (subscription.clientId && !dataFilter.canAccessClient(subscription.clientId)) {
+    return 'Access denied to the requested client';
+  }
+
+  if (subscription.deviceId) {
+    const devices = await database.query(
+      'SELECT client_id FROM device WHERE Device_ID = @deviceId',
+      { deviceId: subscription.deviceId }
+    );
+    if (devices.length === 0 || !dataFilter.canAccessClient(devices[0].client_id)) {
+      return 'Device not found or access denied';
+    }
+  }
+
+  const channels = await database.query(
+    'SELECT channel_id FROM Notification_Channels WHERE channel_id = @channelId AND is_enabled = 1',
+    { channelId: subscription.channelId }
+  );
+  if (channels.length === 0) {
+    return 'Channel not found or disabled';
+  }
+
+  return null;
+}
+
+const toSubscriptionParams = (subscription) => ({
+  channelId: subscription.channelId,
+  clientId: subscription.deviceId ? null : (subscription.clientId || null),
+  deviceId: subscription.deviceId || null,
+  severities: subscription.severities?.length ? subscription.severities.join(',') : null,
+  alertTypes: subscription.alertTypes?.length ? subscription.alertTypes.join(',') : null,
+  deliveryMode: subscription.deliveryMode,
+  isEnabled: subscription.isEnabled ?? true
+});
+
+const SUBSCRIPTION_SELECT = `
+  SELECT s.*, c.name as channel_name, c.channel_type
+  FROM Notification_Subscriptions s
+  JOIN Notification_Channels c ON c.channel_id = s.channel_id
+`;
+
+// List channels (all users, so they can subscribe; config only for admins)
+router.get('/channels', async (req, res) => {
+  try {
+    const { isAdmin } = req.dataFilter;
+    const rows = await database.query(`
+      SELECT * FROM Notification_Channels
+      ${isAdmin ? '' : 'WHERE is_enabled = 1'}
+      ORDER BY name
+    `);
+
+    res.json({
+      success: true,
+      data: rows.map(row => toChannelResponse(row, isAdmin))
+    });
+
+  } catch (error) {
+    console.error('Error fetching notification channels:', error);
+    res.status(500).json({ error: 'Failed to fetch notification channels' });
+  }
+});
+
+// Create channel (admin only)
+router.post('/channels', [requireAdmin, ...channelValidators], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, type, config = {}, isEnabled = true } = req.body;
+    const configErrors = validateChannelConfig(type, config);
+    if (configErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid channel config', details: configErrors });
+    }
+
+    const result = await database.query(`
+      INSERT INTO Notification_Channels (name, channel_type, config, is_enabled, created_by, created_at)
+      OUTPUT INSERTED.*
+      VALUES (@name, @type, @config, @isEnabled, @userId, GETDATE())
+    `, { name, type, config: JSON.stringify(config), isEnabled, userId: req.user.id });
+
+    res.status(201).json({
+      success: true,
+      data: toChannelResponse(result[0], true),
+      message: 'Notification channel created successfully'
+    });
+
+  } catch (error) {
+    console.error('Error creating notification channel:', error);
+    res.status(500).json({ error: 'Failed to create notification channel' });
+  }
+});
+
+// Update channel (admin only)
+router.put('/channels/:channelId', [
+  requireAdmin,
+  param('channelId').isInt({ min: 1 }).toInt(),
+  ...channelValidators
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const existing = await database.query(
+      'SELECT config FROM Notification_Channels WHERE channel_id = @channelId',
+      { channelId: req.params.channelId }
+    );
+    if (existing.length === 0) {
+      return res.status(404).json({ error: 'Notification channel not found' });
+    }
+
+    const { name, type, isEnabled = true } = req.body;
+    const config = mergeRedactedConfig(req.body.config || {}, JSON.parse(existing[0].config || '{}'));
+    const configErrors = validateChannelConfig(type, config);
+    if (configErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid channel config', details: configErrors });
+    }
+
+    const result = await database.query(`
+      UPDATE Notification_Channels
+      SET name = @name,
+          channel_type = @type,
+          config = @config,
+          is_enabled = @isEnabled,
+          updated_by = @userId,
+          updated_at = GETDATE()
+      OUTPUT INSERTED.*
+      WHERE channel_id = @channelId
+    `, {
+      channelId: req.params.channelId,
+      name,
+      type,
+      config: JSON.stringify(config),
+      isEnabled,
+      userId: req.user.id
+    });
+
+    res.json({
+      success: true,
+      data: toChannelResponse(result[0], true),
+      message: 'Notification channel updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Error updating notification channel:', error);
+    res.status(500).json({ error: 'Failed to update notification channel' });
+  }
+});
+
+// Delete channel (admin only); its subscriptions go with it, delivery history is kept
+router.delete('/channels/:channelId', [
+  requireAdmin,
+  param('channelId').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const result = await database.query(
+      'DELETE FROM Notification_Channels OUTPUT DELETED.channel_id WHERE channel_id = @channelId',
+      { channelId: req.params.channelId }
+    );
+
+    if (result.length === 0) {
+      return res.status(404).json({ error: 'Notification channel not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Notification channel deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting notification channel:', error);
+    res.status(500).json({ error: 'Failed to delete notification channel' });
+  }
+});
+
+// Send a test message through a channel (admin only)
+router.post('/channels/:channelId/test', [
+  requireAdmin,
+  param('channelId').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const result = await NotificationService.sendTest(req.params.channelId, req.user);
+    if (!result) {
+      return res.status(404).json({ error: 'Notification channel not found' });
+    }
+
+    res.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Error sending test notification:', error);
+    res.status(500).json({ error: 'Failed to send test notification' });
+  }
+});
+
+// List the current user's subscriptions
+router.get('/subscriptions', async (req, res) => {
+  try {
+    const rows = await database.query(`
+      ${SUBSCRIPTION_SELECT}
+      WHERE s.user_id = @userId
+      ORDER BY s.created_at DESC
+    `, { userId: req.user.id });
+
+    res.json({
+      success: true,
+      data: rows.map(row => NotificationService.toSubscription(row))
+    });
+
+  } catch (error) {
+    console.error('Error fetching notification subscriptions:', error);
+    res.status(500).json({ error: 'Failed to fetch notification subscriptions' });
+  }
+});
+
+// Subscribe the current user
+router.post('/subscriptions', subscriptionValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const scopeError = await validateSubscriptionScope(req.body, req.dataFilter);
+    if (scopeError) {
+      return res.status(400).json({ error: scopeError });
+    }
+
+    const inserted = await database.query(`
+      INSERT INTO Notification_Subscriptions (user_id, channel_id, client_id, device_id, severities, alert_types, delivery_mode, is_enabled, created_at)
+      OUTPUT INSERTED.subscription_id
+      VALUES (@userId, @channelId, @clientId, @deviceId, @severities, @alertTypes, @deliveryMode, @isEnabled, GETDATE())
+    `, { ...toSubscriptionParams(req.body), userId: req.user.id });
+
+    const rows = await database.query(`${SUBSCRIPTION_SELECT} WHERE s.subscription_id = @subscriptionId`, {
+      subscriptionId: inserted[0].subscription_id
+    });
+
+    res.status(201).json({
+      success: true,
+      data: NotificationService.toSubscription(rows[0]),
+      message: 'Subscription created successfully'
+    });
+
+  } catch (error) {
+    console.error('Error creating notification subscription:', error);
+    res.status(500).json({ error: 'Failed to create notification subscription' });
+  }
+});
+
+// Update one of the current user's subscriptions
+router.put('/subscriptions/:subscriptionId', [
+  param('subscriptionId').isInt({ min: 1 }).toInt(),
+  ...subscriptionValidators
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const scopeError = await validateSubscriptionScope(req.body, req.dataFilter);
+    if (scopeError) {
+      return res.status(400).json({ error: scopeError });
+    }
+
+    const result = await database.query(`
+      UPDATE Notification_Subscriptions
+      SET channel_id = @channelId,
+          client_id = @clientId,
+          device_id = @deviceId,
+          severities = @severities,
+          alert_types = @alertTypes,
+          delivery_mode = @deliveryMode,
+          is_enabled = @isEnabled,
+          updated_at = GETDATE()
+      OUTPUT INSERTED.subscription_id
+      WHERE subscription_id = @subscriptionId AND user_id = @userId
+    `, { ...toSubscriptionParams(req.body), subscriptionId: req.params.subscriptionId, userId: req.user.id });
+
+    if (result.length === 0) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    const rows = await database.query(`${SUBSCRIPTION_SELECT} WHERE s.subscription_id = @subscriptionId`, {
+      subscriptionId: req.params.subscriptionId
+    });
+
+    res.json({
+      success: true,
+      data: NotificationService.toSubscription(rows[0]),
+      message: 'Subscription updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Error updating notification subscription:', error);
+    res.status(500).json({ error: 'Failed to update notification subscription' });
+  }
+});
+
+// Delete one of the current user's subscriptions
+router.delete('/subscriptions/:subscriptionId', [
+  param('subscriptionId').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const result = await database.query(`
+      DELETE FROM Notification_Subscriptions
+      OUTPUT DELETED.subscription_id
+      WHERE subscription_id = @subscriptionId AND user_id = @userId
+    `, { subscriptionId: req.params.subscriptionId, userId: req.user.id });
+
+    if (result.length === 0) {
+      return res.status(404).json({ error: 'Subscription not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Subscription deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting notification subscription:', error);
+    res.status(500).json({ error: 'Failed to delete notification subscription' });
+  }
+});
+
+// Current user's quiet hours and digest settings
+router.get('/preferences', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: await NotificationService.getPreferences(req.user.id)
+    });
+
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    res.status(500).json({ error: 'Failed to fetch notification preferences' });
+  }
+});
+
+router.put('/preferences', [
+  body('timezone').isString().custom(isValidTimeZone).withMessage('Unknown timezone'),
+  body('quietHoursStart').optional({ nullable: true }).matches(HH_MM),
+  body('quietHoursEnd').optional({ nullable: true }).matches(HH_MM),
+  body('criticalBypassesQuietHours').optional().isBoolean().toBoolean(),
+  body('digestHour').isInt({ min: 0, max: 23 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const {
+      timezone,
+      quietHoursStart = null,
+      quietHoursEnd = null,
+      criticalBypassesQuietHours = true,
+      digestHour
+    } = req.body;
+
+    if (Boolean(quietHoursStart) !== Boolean(quietHoursEnd)) {
+      return res.status(400).json({ error: 'Provide both quiet hours start and end, or neither' });
+    }
+
+    await database.query(`
+      MERGE Notification_Preferences AS target
+      USING (SELECT @userId AS user_id) AS source
+      ON target.user_id = source.user_id
+      WHEN MATCHED THEN
+        UPDATE SET timezone = @timezone,
+                   quiet_hours_start = @quietHoursStart,
+                   quiet_hours_end = @quietHoursEnd,
+                   critical_bypasses_quiet_hours = @criticalBypassesQuietHours,
+                   digest_hour = @digestHour,
+                   updated_at = GETDATE()
+      WHEN NOT MATCHED THEN
+        INSERT (user_id, timezone, quiet_hours_start, quiet_hours_end, critical_bypasses_quiet_hours, digest_hour, updated_at)
+        VALUES (@userId, @timezone, @quietHoursStart, @quietHoursEnd, @criticalBypassesQuietHours, @digestHour, GETDATE());
+    `, {
+      userId: req.user.id,
+      timezone,
+      quietHoursStart,
+      quietHoursEnd,
+      criticalBypassesQuietHours,
+      digestHour
+    });
+
+    res.json({
+      success: true,
+      data: await NotificationService.getPreferences(req.user.id),
+      message: 'Notification preferences updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    res.status(500).json({ error: 'Failed to update notification preferences' });
+  }
+});
+
+// Delivery log; users see their own, admins can see everything with ?all=true
+router.get('/deliveries', [
+  query('status').optional().isIn(['pending', 'deferred', 'digest', 'digested', 'sent', 'failed']),
+  query('all').optional().isBoolean().toBoolean(),
+  query('limit').optional().isInt({ min: 1, max: 500 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { status, all = false, limit = 100 } = req.query;
+    const showAll = all && req.dataFilter.isAdmin;
+
+    let whereClause = 'WHERE 1=1';
+    const params = { limit };
+    if (!showAll) {
+      whereClause += ' AND d.user_id = @userId';
+      params.userId = req.user.id;
+    }
+    if (status) {
+      whereClause += ' AND d.status = @status';
+      params.status = status;
+    }
+
+    const rows = await database.query(`
+      SELECT TOP (@limit) d.*, c.name as channel_name, c.channel_type, a.title as alert_title, a.severity as alert_severity,
+        a.device_id as alert_device_id, u.user_name
+      FROM Notification_Deliveries d
+      LEFT JOIN Notification_Channels c ON c.channel_id = d.channel_id
+      LEFT JOIN alerts a ON a.id = d.alert_id
+      LEFT JOIN users u ON u.id = d.user_id
+      ${whereClause}
+      ORDER BY d.delivery_id DESC
+    `, params);
+
+    res.json({
+      success: true,
+      data: rows.map(row => ({
+        id: row.delivery_id,
+        kind: row.kind,
+        alertId: row.alert_id,
+        alertTitle: row.alert_title,
+        alertSeverity: row.alert_severity,
+        deviceId: row.alert_device_id,
+        channelId: row.channel_id,
+        channelName: row.channel_name,
+        channelType: row.channel_type,
+        userId: row.user_id,
+        userName: row.user_name,
+        recipient: row.recipient,
+        status: row.status,
+        attempts: row.attempts,
+        nextAttemptAt: row.next_attempt_at,
+        lastError: row.last_error,
+        digestId: row.digest_id,
+        createdAt: row.created_at,
+        sentAt: row.sent_at
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error fetching notification deliveries:', error);
+    res.status(500).json({ error: 'Failed to fetch notification deliveries' });
+  }
+});
+
+// Attempt log for a single delivery
+router.get('/deliveries/:deliveryId/attempts', [
+  param('deliveryId').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const deliveries = await database.query(
+      'SELECT user_id FROM Notification_Deliveries WHERE delivery_id = @deliveryId',
+      { deliveryId: req.params.deliveryId }
+    );
+    if (deliveries.length === 0 || (!req.dataFilter.isAdmin && deliveries[0].user_id !== req.user.id)) {
+      return res.status(404).json({ error: 'Delivery not found' });
+    }
+
+    const attempts = await database.query(`
+      SELECT * FROM Notification_Delivery_Attempts
+      WHERE delivery_id = @deliveryId
+      ORDER BY attempt_number
+    `, { deliveryId: req.params.deliveryId });
+
+    res.json({
+      success: true,
+      data: attempts.map(attempt => ({
+        id: attempt.attempt_id,
+        attemptNumber: attempt.attempt_number,
+        succeeded: Boolean(attempt.succeeded),
+        responseCode: attempt.response_code,
+        error: attempt.error,
+        durationMs: attempt.duration_ms,
+        attemptedAt: attempt.attempted_at
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error fetching delivery attempts:', error);
+    res.status(500).json({ error: 'Failed to fetch delivery attempts' });
+  }
+});
+
+// Run the dispatcher now instead of waiting for the next sweep (admin only)
+router.post('/dispatch', requireAdmin, async (req, res) => {
+  try {
+    const summary = await NotificationService.dispatch();
+    if (!summary) {
+      return res.status(409).json({ error: 'Notification dispatch already in progress' });
+    }
+
+    res.json({
+      success: true,
+      data: summary
+    });
+
+  } catch (error) {
+    console.error('Error dispatching notifications:', error);
+    res.status(500).json({ error: 'Failed to dispatch notifications' });
+  }
+});
+
+export default router;
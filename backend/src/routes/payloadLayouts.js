@@ -0,0 +1,263 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import database from '../config/database.js';
+import { authenticateToken, requireAdmin, requireViewerOrAbove } from '../middleware/auth.js';
+import { tablesMissingResponse } from '../middleware/tablesMissing.js';
+import { validatePayloadLayout } from '../shared/payloadLayout.js';
+import { getDecoder } from '../shared/hexConversion.js';
+import { TELEMETRY_TABLES_BY_NAME } from '../services/telemetryTables.js';
+import PayloadLayoutService from '../services/payloadLayoutService.js';
+
+const router = express.Router();
+
+router.use(authenticateToken);
+
+const tableMissingResponse = (res) => tablesMissingResponse(res, 'Payload layouts', 'create_payload_layouts_table.sql');
+
+// Validate the layout body and its storage target; returns a list of errors
+function validateLayoutRequest(layout, targetTable) {
+  const errors = validatePayloadLayout(layout);
+
+  if (targetTable) {
+    const base = TELEMETRY_TABLES_BY_NAME[targetTable];
+    if (!base) {
+      errors.push(`targetTable must be one of ${Object.keys(TELEMETRY_TABLES_BY_NAME).join(', ')}`);
+    } else if (errors.length === 0) {
+      const keys = new Set(layout.fields.flatMap(field => [field.key, field.descriptionsKey].filter(Boolean)));
+      if (!base.columns.some(column => keys.has(column))) {
+        errors.push(`No layout field keys match the columns of ${targetTable}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Get active layouts (used by HexTroubleshoot and detail pages to register decoders)
+router.get('/', [
+  requireViewerOrAbove,
+  query('includeInactive').optional().isBoolean().toBoolean()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!(await PayloadLayoutService.tableExists())) {
+      return res.json({ success: true, data: [] });
+    }
+
+    // Inactive layouts are only listed for admins managing them
+    const includeInactive = req.query.includeInactive && req.user.role === 'admin';
+    const rows = await database.query(`
+      SELECT * FROM Payload_Layouts
+      ${includeInactive ? '' : 'WHERE is_active = 1'}
+      ORDER BY conversion_logic_id, layout_id DESC
+    `);
+
+    res.json({
+      success: true,
+      data: rows.map(row => PayloadLayoutService.toRecord(row))
+    });
+
+  } catch (error) {
+    console.error('Error fetching payload layouts:', error);
+    res.status(500).json({ error: 'Failed to fetch payload layouts' });
+  }
+});
+
+// Create a layout for a new ConversionLogicID
+router.post('/', [
+  requireAdmin,
+  body('conversionLogicId').isInt({ min: 3 }).toInt(),
+  body('name').isString().trim().isLength({ min: 1, max: 100 }),
+  body('logicType').optional({ nullable: true }).isString().trim().isLength({ max: 20 }),
+  body('description').optional({ nullable: true }).isString().isLength({ max: 500 }),
+  body('targetTable').optional({ nullable: true }).isString(),
+  body('layout').isObject()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!(await PayloadLayoutService.tableExists())) {
+      return tableMissingResponse(res);
+    }
+
+    const { conversionLogicId, name, logicType, description, targetTable, layout } = req.body;
+
+    if (getDecoder(conversionLogicId)?.builtIn) {
+      return res.status(409).json({ error: `Logic ID ${conversionLogicId} is a built-in decoder` });
+    }
+
+    const layoutErrors = validateLayoutRequest(layout, targetTable);
+    if (layoutErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid payload layout', details: layoutErrors });
+    }
+
+    const existing = await database.query(
+      'SELECT layout_id FROM Payload_Layouts WHERE conversion_logic_id = @conversionLogicId AND is_active = 1',
+      { conversionLogicId }
+    );
+    if (existing.length > 0) {
+      return res.status(409).json({ error: `An active layout already exists for logic ID ${conversionLogicId}` });
+    }
+
+    const result = await database.query(`
+      INSERT INTO Payload_Layouts (
+        conversion_logic_id, name, logic_type, description, target_table, layout_json, is_active, created_by, created_at
+      )
+      OUTPUT INSERTED.*
+      VALUES (
+        @conversionLogicId, @name, @logicType, @description, @targetTable, @layoutJson, 1, @userId, GETUTCDATE()
+      )
+    `, {
+      conversionLogicId,
+      name,
+      logicType: logicType || null,
+      description: description || null,
+      targetTable: targetTable || null,
+      layoutJson: JSON.stringify(layout),
+      userId: req.user.id
+    });
+
+    PayloadLayoutService.invalidate();
+
+    res.status(201).json({
+      success: true,
+      data: PayloadLayoutService.toRecord(result[0]),
+      message: 'Payload layout created successfully'
+    });
+
+  } catch (error) {
+    console.error('Error creating payload layout:', error);
+    res.status(500).json({ error: 'Failed to create payload layout' });
+  }
+});
+
+// Update a layout in place (the decoder changes on the next cache reload)
+router.put('/:layoutId', [
+  requireAdmin,
+  param('layoutId').isInt({ min: 1 }).toInt(),
+  body('name').optional().isString().trim().isLength({ min: 1, max: 100 }),
+  body('logicType').optional({ nullable: true }).isString().trim().isLength({ max: 20 }),
+  body('description').optional({ nullable: true }).isString().isLength({ max: 500 }),
+  body('targetTable').optional({ nullable: true }).isString(),
+  body('layout').optional().isObject(),
+  body('isActive').optional().isBoolean().toBoolean()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!(await PayloadLayoutService.tableExists())) {
+      return tableMissingResponse(res);
+    }
+
+    const { layoutId } = req.params;
+    const rows = await database.query('SELECT * FROM Payload_Layouts WHERE layout_id = @layoutId', { layoutId });
+    if (rows.length === 0) {
+      return res.status(404).json({ error: 'Payload layout not found' });
+    }
+
+    const current = PayloadLayoutService.toRecord(rows[0]);
+    const layout = req.body.layout ?? current.layout;
+    const targetTable = req.body.targetTable !== undefined ? req.body.targetTable : current.targetTable;
+
+    const layoutErrors = validateLayoutRequest(layout, targetTable);
+    if (layoutErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid payload layout', details: layoutErrors });
+    }
+
+    if (req.body.isActive && !current.isActive) {
+      const active = await database.query(
+        'SELECT layout_id FROM Payload_Layouts WHERE conversion_logic_id = @conversionLogicId AND is_active = 1',
+        { conversionLogicId: current.conversionLogicId }
+      );
+      if (active.length > 0) {
+        return res.status(409).json({ error: `An active layout already exists for logic ID ${current.conversionLogicId}` });
+      }
+    }
+
+    const result = await database.query(`
+      UPDATE Payload_Layouts
+      SET name = @name,
+          logic_type = @logicType,
+          description = @description,
+          target_table = @targetTable,
+          layout_json = @layoutJson,
+          is_active = @isActive,
+          updated_by = @userId,
+          updated_at = GETUTCDATE()
+      OUTPUT INSERTED.*
+      WHERE layout_id = @layoutId
+    `, {
+      layoutId,
+      name: req.body.name ?? current.name,
+      logicType: req.body.logicType !== undefined ? req.body.logicType : current.logicType,
+      description: req.body.description !== undefined ? req.body.description : current.description,
+      targetTable: targetTable || null,
+      layoutJson: JSON.stringify(layout),
+      isActive: req.body.isActive ?? current.isActive,
+      userId: req.user.id
+    });
+
+    PayloadLayoutService.invalidate();
+
+    res.json({
+      success: true,
+      data: PayloadLayoutService.toRecord(result[0]),
+      message: 'Payload layout updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Error updating payload layout:', error);
+    res.status(500).json({ error: 'Failed to update payload layout' });
+  }
+});
+
+// Deactivate a layout; devices on its logic ID fall back to "unknown logic"
+router.delete('/:layoutId', [
+  requireAdmin,
+  param('layoutId').isInt({ min: 1 }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!(await PayloadLayoutService.tableExists())) {
+      return tableMissingResponse(res);
+    }
+
+    const result = await database.query(`
+      UPDATE Payload_Layouts
+      SET is_active = 0, updated_by = @userId, updated_at = GETUTCDATE()
+      OUTPUT INSERTED.layout_id
+      WHERE layout_id = @layoutId
+    `, { layoutId: req.params.layoutId, userId: req.user.id });
+
+    if (result.length === 0) {
+      return res.status(404).json({ error: 'Payload layout not found' });
+    }
+
+    PayloadLayoutService.invalidate();
+
+    res.json({
+      success: true,
+      message: 'Payload layout deactivated successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deactivating payload layout:', error);
+    res.status(500).json({ error: 'Failed to deactivate payload layout' });
+  }
+});
+
+export default router;
@@ -3,7 +3,16 @@ import { body, param, validationResult } from 'express-validator';
 import sql from 'mssql';
 import database from '../config/database.js';
 import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { tablesMissingResponse } from '../middleware/tablesMissing.js';
 import crypto from 'crypto';
+import EffectiveConfigService from '../services/effectiveConfig.js';
+import {
+    activateUniversalConfig,
+    hasUniversalConfigPermission,
+    logUniversalConfigAction
+} from '../services/universalConfigs.js';
+import ScheduledActivationService from '../services/scheduledActivations.js';
+import ConfigApprovalService from '../services/configApprovals.js';
 
 const router = express.Router();
 
@@ -225,6 +234,59 @@ router.post('/', [
         
         // Generate hash
         const configHash = generateConfigHash(communication_settings);
+
+        // The settings reach every device, so with approvals on they are saved inactive and proposed
+        if (await ConfigApprovalService.isRequired()) {
+            const openProposal = await ConfigApprovalService.getPending('universal');
+            if (openProposal) {
+                return res.status(409).json({
+                    error: `A universal configuration change is already awaiting approval (#${openProposal.approvalId})`
+                });
+            }
+
+            const result = await database.query(`
+                INSERT INTO Universal_Communication_Config (
+                    config_name,
+                    communication_settings,
+                    config_hash,
+                    is_active,
+                    is_template,
+                    created_by,
+                    created_at,
+                    notes
+                ) OUTPUT INSERTED.config_id
+                VALUES (
+                    'Direct Update',
+                    @communication_settings,
+                    @config_hash,
+                    0,
+                    0,
+                    @created_by,
+                    GETUTCDATE(),
+                    @notes
+                )
+            `, {
+                communication_settings: JSON.stringify(communication_settings),
+                config_hash: configHash,
+                created_by: userId,
+                notes: notes || null
+            });
+
+            const newConfigId = result[0].config_id;
+            const approval = await ConfigApprovalService.propose({
+                targetType: 'universal',
+                configId: newConfigId,
+                changeReason: notes || null
+            }, userId);
+
+            return res.status(202).json({
+                success: true,
+                approvalRequired: true,
+                config_id: newConfigId,
+                approval,
+                message: 'Universal communication update proposed; it takes effect once another authorized user approves it'
+            });
+        }
         
         // Begin transaction
         const pool = await database.connect();
@@ -312,6 +374,9 @@ router.post('/', [
                 `);
             
             await transaction.commit();
+
+            // Universal settings are the base layer of every device's effective configuration
+            await EffectiveConfigService.refreshHashesSafely();
             
             res.json({
                 success: true,
@@ -441,9 +506,11 @@ router.post('/templates', [
 });
 
 // POST /api/v1/admin/universal-communication/activate/:id
-// Activate a template
+// Activate a template, or schedule its activation when scheduledFor is given
 router.post('/activate/:id', [
-    param('id').isInt().withMessage('Invalid template ID')
+    param('id').isInt().withMessage('Invalid template ID'),
+    body('scheduledFor').optional({ nullable: true }).isISO8601().toDate(),
+    body('reason').optional().isString().isLength({ max: 500 }).trim()
 ], async (req, res) => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
@@ -452,6 +519,7 @@ router.post('/activate/:id', [
 
     const templateId = parseInt(req.params.id);
     const userId = req.user.id;
+    const { scheduledFor, reason } = req.body;
     
     try {
         // Check if template exists
@@ -467,75 +535,75 @@ router.post('/activate/:id', [
         const config = template[0];
         
         // Check permissions using stored procedure
-        const permissionResult = await database.execute('sp_ValidateUniversalConfigPermission', {
-            config_id: templateId,
-            user_id: userId,
-            permission_type: 'ACTIVATE'
-        });
-        
-        if (!permissionResult || permissionResult.length === 0 || !permissionResult[0].has_permission) {
+        if (!await hasUniversalConfigPermission(templateId, userId, 'ACTIVATE')) {
             return res.status(403).json({ 
                 error: 'You do not have permission to activate this configuration' 
             });
         }
-        
-        // Begin transaction
-        const pool = await database.connect();
-        const transaction = new sql.Transaction(pool);
-        await transaction.begin();
-        
-        try {
-            // Deactivate current active configuration
-            await transaction.request().query(`
-                UPDATE Universal_Communication_Config 
-                SET is_active = 0 
-                WHERE is_active = 1
-            `);
-            
-            // Activate the selected template
-            await transaction.request()
-                .input('config_id', templateId)
-                .input('activated_by', userId)
-                .query(`
-                    UPDATE Universal_Communication_Config 
-                    SET is_active = 1,
-                        activated_at = GETUTCDATE(),
-                        activated_by = @activated_by
-                    WHERE config_id = @config_id
-                `);
-            
-            // Log to audit
-            await transaction.request()
-                .input('config_id', templateId)
-                .input('changed_by', userId)
-                .input('new_settings', config.communication_settings)
-                .query(`
-                    INSERT INTO Universal_Comm_Config_Audit (
-                        config_id,
-                        action,
-                        changed_by,
-                        changed_at,
-                        new_settings
-                    ) VALUES (
-                        @config_id,
-                        'ACTIVATED',
-                        @changed_by,
-                        GETUTCDATE(),
-                        @new_settings
-                    )
-                `);
-            
-            await transaction.commit();
-            
-            res.json({
+
+        if (scheduledFor) {
+            if (!await ScheduledActivationService.tablesExist()) {
+                return tablesMissingResponse(res, 'Scheduled activation', 'create_scheduled_activation_tables.sql');
+            }
+            if (scheduledFor <= new Date()) {
+                return res.status(400).json({ error: 'scheduledFor must be in the future' });
+            }
+        }
+
+        // Swapping the universal configuration affects every device, so it needs a second approver
+        if (await ConfigApprovalService.isRequired()) {
+            const openProposal = await ConfigApprovalService.getPending('universal');
+            if (openProposal) {
+                return res.status(409).json({
+                    error: `A universal configuration change is already awaiting approval (#${openProposal.approvalId})`
+                });
+            }
+
+            const approval = await ConfigApprovalService.propose({
+                targetType: 'universal',
+                configId: templateId,
+                changeReason: reason || null,
+                scheduledFor: scheduledFor || null
+            }, userId);
+
+            return res.status(202).json({
                 success: true,
-                message: `Configuration "${config.config_name}" activated successfully`
+                approvalRequired: true,
+                approval,
+                message: `Activation of "${config.configuration_name || config.config_name}" proposed; it takes effect once another authorized user approves it`
             });
-            
-        } catch (error) {
-            await transaction.rollback();
-            throw error;
         }
+
+        if (scheduledFor) {
+            const pending = await ScheduledActivationService.getPending('universal');
+            if (pending) {
+                return res.status(409).json({
+                    error: `A universal activation is already scheduled for ${pending.scheduledFor.toISOString()}; cancel it first`
+                });
+            }
+
+            const { schedule } = await ScheduledActivationService.schedule({
+                targetType: 'universal',
+                configId: templateId,
+                scheduledFor,
+                reason: reason || null
+            }, userId);
+
+            await logUniversalConfigAction(templateId, 'SCHEDULED', userId, config.communication_settings);
+
+            return res.status(202).json({
+                success: true,
+                schedule,
+                message: `Configuration "${config.configuration_name || config.config_name}" scheduled for ${schedule.scheduledFor.toISOString()}`
+            });
+        }
+        
+        await activateUniversalConfig(templateId, userId);
+            
+        res.json({
+            success: true,
+            message: `Configuration "${config.config_name}" activated successfully`
+        });
         
     } catch (error) {
         console.error('Error activating template:', error);
@@ -3,6 +3,8 @@ import bcrypt from 'bcryptjs';
 import { body, param, validationResult } from 'express-validator';
 import database from '../config/database.js';
 import { authenticateToken, requireAdmin, requireUserOrAdmin } from '../middleware/auth.js';
+import { tablesMissingResponse } from '../middleware/tablesMissing.js';
+import UserInvitationService, { MAX_EXPIRY_HOURS } from '../services/userInvitations.js';
 
 const router = express.Router();
 
@@ -120,6 +122,113 @@ router.get('/permissions', async (req, res) => {
   }
 });
 
+// Invitations issued by admins and client admins (see services/userInvitations.js)
+const invitationTablesMissingResponse = (res) => tablesMissingResponse(res, 'Invitations', 'create_user_invitations_table.sql');
+
+router.get('/invitations', requireUserOrAdmin, async (req, res) => {
+  try {
+    if (!await UserInvitationService.tablesExist()) {
+      return res.json({ success: true, data: [] });
+    }
+
+    const inviter = await UserInvitationService.getInviter(req.user);
+    if (!inviter.isAdmin && !inviter.clientId) {
+      return res.status(403).json({ error: 'Only admins and client admins can view invitations' });
+    }
+
+    res.json({
+      success: true,
+      data: await UserInvitationService.list(inviter)
+    });
+
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    res.status(500).json({ error: 'Failed to fetch invitations' });
+  }
+});
+
+// The invite link is only returned here; afterwards only the token hash is kept
+router.post('/invitations', [
+  requireUserOrAdmin,
+  body('email').isEmail().normalizeEmail(),
+  body('role').isString().trim().notEmpty(),
+  body('clientId').optional({ nullable: true }).isString().trim(),
+  body('expiresInHours').optional().isInt({ min: 1, max: MAX_EXPIRY_HOURS }).toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await UserInvitationService.tablesExist()) {
+      return invitationTablesMissingResponse(res);
+    }
+
+    const { email, role, expiresInHours } = req.body;
+    const inviter = await UserInvitationService.getInviter(req.user);
+    // Client admins always invite into their own client
+    const clientId = inviter.isAdmin ? (req.body.clientId || null) : (req.body.clientId ?? inviter.clientId);
+
+    const refusal = await UserInvitationService.checkInvitePermission(inviter, { role, clientId });
+    if (refusal) {
+      return res.status(403).json({ error: refusal });
+    }
+
+    const existingUsers = await database.query('SELECT id FROM users WHERE email = @email', { email });
+    if (existingUsers.length > 0) {
+      return res.status(409).json({ error: 'A user with this email already exists' });
+    }
+
+    const { invitation, token, inviteLink } = await UserInvitationService.create(
+      { email, role, clientId, expiresInHours },
+      req.user.id
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { ...invitation, token, inviteLink },
+      message: `Invitation created for ${email}`
+    });
+
+  } catch (error) {
+    console.error('Error creating invitation:', error);
+    res.status(500).json({ error: 'Failed to create invitation' });
+  }
+});
+
+router.delete('/invitations/:invitationId', [
+  requireUserOrAdmin,
+  param('invitationId').isInt().toInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!await UserInvitationService.tablesExist()) {
+      return invitationTablesMissingResponse(res);
+    }
+
+    const inviter = await UserInvitationService.getInviter(req.user);
+    const invitation = await UserInvitationService.revoke(req.params.invitationId, inviter);
+    if (!invitation) {
+      return res.status(404).json({ error: 'Open invitation not found' });
+    }
+
+    res.json({
+      success: true,
+      data: invitation,
+      message: 'Invitation revoked'
+    });
+
+  } catch (error) {
+    console.error('Error revoking invitation:', error);
+    res.status(500).json({ error: 'Failed to revoke invitation' });
+  }
+});
+
 // Get user by ID (admin only)
 router.get('/:userId', [
   requireAdmin,
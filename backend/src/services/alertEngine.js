@@ -0,0 +1,376 @@
+import database from '../config/database.js';
+import { TELEMETRY_TABLES_BY_NAME } from './telemetryTables.js';
+
+export const RULE_OPERATORS = {
+  gt: { symbol: '>', test: (value, threshold) => value > threshold },
+  gte: { symbol: '>=', test: (value, threshold) => value >= threshold },
+  lt: { symbol: '<', test: (value, threshold) => value < threshold },
+  lte: { symbol: '<=', test: (value, threshold) => value <= threshold },
+  eq: { symbol: '=', test: (value, threshold) => value === threshold },
+  neq: { symbol: '!=', test: (value, threshold) => value !== threshold }
+};
+
+export const RULE_CONDITION_TYPES = ['threshold', 'fault_code'];
+
+const MAX_ROWS_PER_RULE = 5000;
+
+// "5, 3" (P1 FaultCodes) or 4 (P2 Fault_Code) -> [5, 3] / [4]
+const parseCodeList = (value) => String(value ?? '')
+  .split(',')
+  .map(item => item.trim())
+  .filter(item => item !== '')
+  .map(Number)
+  .filter(item => !isNaN(item));
+
+// Resolve "device_settings.motor_current_threshold_ma" inside a device's active config
+const getConfigValue = (config, path) => path.split('.').reduce((value, key) => value?.[key], config);
+
+/**
+ * Check a single reading against a rule
+ * @param {Object} rule - Rule record (see AlertEngine.toRule)
+ * @param {*} value - Column value of the reading
+ * @param {number|null} threshold - Resolved threshold for threshold rules
+ * @returns {boolean}
+ */
+export function ruleMatches(rule, value, threshold) {
+  if (rule.conditionType === 'fault_code') {
+    const codes = parseCodeList(value);
+    return rule.faultCodes.some(code => codes.includes(code));
+  }
+
+  const operator = RULE_OPERATORS[rule.operator];
+  const numeric = value === null || value === '' ? NaN : Number(value);
+  if (!operator || threshold === null || threshold === undefined || isNaN(numeric)) {
+    return false;
+  }
+  return operator.test(numeric, Number(threshold));
+}
+
+// Human readable condition, used for alert descriptions and the admin UI
+export function describeRule(rule, threshold = rule.thresholdValue) {
+  if (rule.conditionType === 'fault_code') {
+    return `${rule.fieldName} contains fault ${rule.faultCodes.join(' or ')}`;
+  }
+  const limit = threshold ?? rule.thresholdConfigKey;
+  const condition = `${rule.fieldName} ${RULE_OPERATORS[rule.operator]?.symbol || rule.operator} ${limit}`;
+  return rule.consecutiveReadings > 1
+    ? `${condition} for ${rule.consecutiveReadings} consecutive readings`
+    : condition;
+}
+
+class AlertEngine {
+  static running = false;
+  static warnedMissing = false;
+  static timer = null;
+
+  /**
+   * Map an Alert_Rules row to a rule record
+   * @param {Object} row - Database row
+   * @returns {Object} - Rule record
+   */
+  static toRule(row) {
+    return {
+      id: row.rule_id,
+      name: row.name,
+      description: row.description,
+      clientId: row.client_id,
+      deviceId: row.device_id,
+      telemetryTable: row.telemetry_table,
+      conditionType: row.condition_type,
+      fieldName: row.field_name,
+      operator: row.operator,
+      thresholdValue: row.threshold_value,
+      thresholdConfigKey: row.threshold_config_key,
+      faultCodes: parseCodeList(row.fault_codes),
+      consecutiveReadings: row.consecutive_readings,
+      clearReadings: row.clear_readings,
+      severity: row.severity,
+      isEnabled: row.is_enabled,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedBy: row.updated_by,
+      updatedAt: row.updated_at
+    };
+  }
+
+  /**
+   * Check whether the alert rule tables have been created
+   * @returns {Promise<boolean>}
+   */
+  static async tablesExist() {
+    return database.tablesExist(['Alert_Rules', 'Alert_Rule_State']);
+  }
+
+  /**
+   * Start the periodic sweep that picks up rows written outside the ingest endpoint
+   * @param {number} intervalMs - Sweep interval
+   */
+  static start(intervalMs) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.evaluate().catch(error => console.error('Alert sweep failed:', error));
+    }, intervalMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Evaluate all enabled rules against rows added since the last run
+   * @param {string|null} deviceId - Limit the run to one device (used after ingestion)
+   * @returns {Promise<Object|null>} - Run summary, or null when skipped
+   */
+  static async evaluate(deviceId = null) {
+    // Overlapping runs would double count readings; the next sweep catches up
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      if (!await this.tablesExist()) {
+        if (!this.warnedMissing) {
+          console.warn('Alert rule tables not found; run create_alert_rules_tables.sql to enable the alert engine');
+          this.warnedMissing = true;
+        }
+        return null;
+      }
+
+      const rules = (await database.query('SELECT * FROM Alert_Rules WHERE is_enabled = 1'))
+        .map(row => this.toRule(row));
+
+      const configCache = new Map();
+      const summary = { rules: rules.length, readings: 0, raised: 0, resolved: 0 };
+
+      for (const rule of rules) {
+        try {
+          const result = await this.evaluateRule(rule, deviceId, configCache);
+          summary.readings += result.readings;
+          summary.raised += result.raised;
+          summary.resolved += result.resolved;
+        } catch (error) {
+          console.error(`Error evaluating alert rule ${rule.id}:`, error);
+        }
+      }
+
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Evaluate one rule for every in-scope device with unevaluated readings
+   */
+  static async evaluateRule(rule, deviceId, configCache) {
+    const target = TELEMETRY_TABLES_BY_NAME[rule.telemetryTable];
+    const result = { readings: 0, raised: 0, resolved: 0 };
+    if (!target || !target.columns.includes(rule.fieldName)) {
+      return result;
+    }
+
+    const conditions = ['1 = 1'];
+    const params = { ruleId: rule.id };
+    if (rule.deviceId) {
+      conditions.push('d.Device_ID = @ruleDeviceId');
+      params.ruleDeviceId = rule.deviceId;
+    } else if (rule.clientId) {
+      conditions.push('d.client_id = @ruleClientId');
+      params.ruleClientId = rule.clientId;
+    }
+    if (deviceId) {
+      conditions.push('d.Device_ID = @deviceId');
+      params.deviceId = deviceId;
+    }
+    const scope = conditions.join(' AND ');
+
+    // Devices entering scope start from their latest reading instead of replaying history
+    await database.query(`
+      INSERT INTO Alert_Rule_State (rule_id, device_id, last_entry_id, match_count, clear_count, updated_at)
+      SELECT @ruleId, d.Device_ID,
+        ISNULL((SELECT MAX(t.Entry_ID) FROM ${target.table} t WHERE t.Device_ID = d.Device_ID), 0),
+        0, 0, GETDATE()
+      FROM device d
+      WHERE ${scope}
+        AND NOT EXISTS (
+          SELECT 1 FROM Alert_Rule_State s WHERE s.rule_id = @ruleId AND s.device_id = d.Device_ID
+        )
+    `, params);
+
+    const rows = await database.query(`
+      SELECT TOP ${MAX_ROWS_PER_RULE}
+        t.Device_ID, t.Entry_ID, t.${rule.fieldName} AS value,
+        s.match_count, s.clear_count
+      FROM ${target.table} t
+      JOIN device d ON t.Device_ID = d.Device_ID
+      JOIN Alert_Rule_State s ON s.rule_id = @ruleId AND s.device_id = t.Device_ID
+      WHERE ${scope} AND t.Entry_ID > s.last_entry_id
+      ORDER BY t.Device_ID, t.Entry_ID
+    `, params);
+
+    const byDevice = new Map();
+    rows.forEach(row => {
+      if (!byDevice.has(row.Device_ID)) byDevice.set(row.Device_ID, []);
+      byDevice.get(row.Device_ID).push(row);
+    });
+
+    for (const [rowDeviceId, readings] of byDevice) {
+      const threshold = rule.conditionType === 'threshold'
+        ? await this.resolveThreshold(rule, rowDeviceId, configCache)
+        : null;
+
+      const deviceResult = await this.evaluateReadings(rule, rowDeviceId, readings, threshold);
+      result.readings += readings.length;
+      result.raised += deviceResult.raised;
+      result.resolved += deviceResult.resolved;
+    }
+
+    return result;
+  }
+
+  /**
+   * Walk a device's new readings in order, raising or resolving the rule's alert
+   */
+  static async evaluateReadings(rule, deviceId, readings, threshold) {
+    let matchCount = readings[0].match_count;
+    let clearCount = readings[0].clear_count;
+    let raised = 0;
+    let resolved = 0;
+    let triggers = 0;
+    let lastTrigger = null;
+
+    const openAlerts = await database.query(`
+      SELECT TOP 1 id FROM alerts
+      WHERE rule_id = @ruleId AND device_id = @deviceId AND status IN ('active', 'acknowledged')
+      ORDER BY created_at DESC
+    `, { ruleId: rule.id, deviceId });
+    let openAlertId = openAlerts[0]?.id || null;
+
+    for (const reading of readings) {
+      // Rows without a value for the field (e.g. partial layout columns) don't affect the counters
+      if (reading.value === null || reading.value === undefined) continue;
+
+      if (ruleMatches(rule, reading.value, threshold)) {
+        matchCount++;
+        clearCount = 0;
+        if (matchCount >= rule.consecutiveReadings) {
+          lastTrigger = reading;
+          if (openAlertId) {
+            triggers++;
+          } else {
+            openAlertId = await this.raiseAlert(rule, deviceId, reading, threshold);
+            raised++;
+          }
+        }
+      } else {
+        clearCount++;
+        matchCount = 0;
+        if (openAlertId && clearCount >= rule.clearReadings) {
+          await this.resolveAlert(openAlertId, triggers, lastTrigger);
+          openAlertId = null;
+          triggers = 0;
+          lastTrigger = null;
+          resolved++;
+        }
+      }
+    }
+
+    // Repeated triggers on an already open alert are folded into one update
+    if (openAlertId && triggers > 0) {
+      await this.recordTriggers(openAlertId, triggers, lastTrigger);
+    }
+
+    await database.query(`
+      UPDATE Alert_Rule_State
+      SET last_entry_id = @lastEntryId, match_count = @matchCount, clear_count = @clearCount, updated_at = GETDATE()
+      WHERE rule_id = @ruleId AND device_id = @deviceId
+    `, {
+      ruleId: rule.id,
+      deviceId,
+      lastEntryId: readings[readings.length - 1].Entry_ID,
+      matchCount,
+      clearCount
+    });
+
+    return { raised, resolved };
+  }
+
+  static async resolveThreshold(rule, deviceId, configCache) {
+    if (rule.thresholdValue !== null && rule.thresholdValue !== undefined) {
+      return rule.thresholdValue;
+    }
+    if (!rule.thresholdConfigKey) {
+      return null;
+    }
+
+    if (!configCache.has(deviceId)) {
+      let config = null;
+      try {
+        const configs = await database.query(
+          'SELECT config_data FROM Device_Configurations WHERE device_id = @deviceId AND is_active = 1',
+          { deviceId }
+        );
+        config = configs[0]?.config_data ? JSON.parse(configs[0].config_data) : null;
+      } catch (error) {
+        console.error(`Error loading active config for ${deviceId}:`, error.message);
+      }
+      configCache.set(deviceId, config);
+    }
+
+    const value = Number(getConfigValue(configCache.get(deviceId), rule.thresholdConfigKey));
+    return isNaN(value) ? null : value;
+  }
+
+  static async raiseAlert(rule, deviceId, reading, threshold) {
+    const result = await database.query(`
+      INSERT INTO alerts (
+        device_id, alert_type, severity, status, title, description, created_at,
+        rule_id, trigger_count, trigger_value, last_triggered_at,
+        trigger_entry_id, last_trigger_entry_id
+      )
+      OUTPUT INSERTED.id
+      VALUES (
+        @deviceId, @type, @severity, 'active', @title, @description, GETDATE(),
+        @ruleId, 1, @triggerValue, GETDATE(),
+        @entryId, @entryId
+      )
+    `, {
+      deviceId,
+      type: rule.conditionType,
+      severity: rule.severity,
+      title: rule.name,
+      description: `${describeRule(rule, threshold)} (value ${reading.value}, entry #${reading.Entry_ID})`,
+      ruleId: rule.id,
+      triggerValue: String(reading.value),
+      entryId: reading.Entry_ID
+    });
+
+    return result[0].id;
+  }
+
+  static async recordTriggers(alertId, count, reading) {
+    await database.query(`
+      UPDATE alerts
+      SET trigger_count = trigger_count + @count,
+          trigger_value = @triggerValue,
+          last_triggered_at = GETDATE(),
+          last_trigger_entry_id = @entryId,
+          updated_at = GETDATE()
+      WHERE id = @alertId
+    `, { alertId, count, triggerValue: String(reading.value), entryId: reading.Entry_ID });
+  }
+
+  static async resolveAlert(alertId, pendingTriggers, lastTrigger) {
+    if (pendingTriggers > 0) {
+      await this.recordTriggers(alertId, pendingTriggers, lastTrigger);
+    }
+
+    // resolved_by stays NULL to mark a system resolution
+    await database.query(`
+      UPDATE alerts
+      SET status = 'resolved',
+          resolved_at = GETDATE(),
+          resolution = 'Auto-resolved: condition cleared',
+          updated_at = GETDATE()
+      WHERE id = @alertId AND status IN ('active', 'acknowledged')
+    `, { alertId });
+  }
+}
+
+export default AlertEngine;
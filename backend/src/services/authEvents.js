@@ -0,0 +1,128 @@
+import database from '../config/database.js';
+
+/**
+ * Persistent log of security-relevant account events, shown alongside sessions in the admin UI.
+ * Recording never fails the request that triggered it.
+ */
+
+export const AUTH_EVENT_TYPES = [
+  'TWO_FACTOR_ENROLLED',
+  'TWO_FACTOR_DISABLED',
+  'TWO_FACTOR_RESET',
+  'TWO_FACTOR_FAILED',
+  'RECOVERY_CODE_USED',
+  'RECOVERY_CODES_REGENERATED',
+  'TWO_FACTOR_POLICY_CHANGED',
+  'PASSWORD_RESET_REQUESTED',
+  'PASSWORD_RESET',
+  'LOGIN_SUCCEEDED',
+  'LOGIN_FAILED',
+  'LOGIN_BLOCKED',
+  'LOGIN_LOCKED',
+  'LOGIN_UNLOCKED',
+  'LOGOUT',
+  'TOKEN_REFRESHED',
+  'REFRESH_TOKEN_REUSED'
+];
+
+const MAX_EVENTS = 500;
+
+export const toAuthEventResponse = (row) => ({
+  eventId: row.event_id,
+  eventType: row.event_type,
+  userId: row.user_id,
+  userName: row.user_name || null,
+  email: row.email || null,
+  actorUserId: row.actor_user_id,
+  actorName: row.actor_name || null,
+  ipAddress: row.ip_address,
+  userAgent: row.user_agent,
+  details: row.details,
+  createdAt: row.created_at
+});
+
+class AuthEventService {
+  static async tablesExist() {
+    return database.tablesExist(['Auth_Events']);
+  }
+
+  /**
+   * Record an event
+   * @param {string} eventType - One of AUTH_EVENT_TYPES
+   * @param {Object} options - { userId, actorUserId, req, details }
+   */
+  static async record(eventType, { userId = null, actorUserId = null, req = null, details = null } = {}) {
+    try {
+      if (!await this.tablesExist()) return;
+
+      await database.query(`
+        INSERT INTO Auth_Events (event_type, user_id, actor_user_id, ip_address, user_agent, details, created_at)
+        VALUES (@eventType, @userId, @actorUserId, @ipAddress, @userAgent, @details, GETUTCDATE())
+      `, {
+        eventType,
+        userId,
+        actorUserId,
+        ipAddress: req ? (req.ip || req.socket?.remoteAddress || null) : null,
+        userAgent: req ? (req.headers['user-agent'] || null)?.substring(0, 500) : null,
+        details: details ? String(details).substring(0, 1000) : null
+      });
+    } catch (error) {
+      console.error(`Error recording auth event ${eventType}:`, error);
+    }
+  }
+
+  /**
+   * Most recent events, newest first
+   * @param {Object} filters - { userId, eventType, search, ipAddress, since, limit }; search matches
+   *   the user's name or email and the details (which hold the email of failed unknown-account logins)
+   */
+  static async list({
+    userId = null,
+    eventType = null,
+    search = null,
+    ipAddress = null,
+    since = null,
+    limit = 100
+  } = {}) {
+    const conditions = [];
+    const params = { limit: Math.min(limit, MAX_EVENTS) };
+
+    if (userId) {
+      conditions.push('e.user_id = @userId');
+      params.userId = userId;
+    }
+    if (eventType) {
+      conditions.push('e.event_type = @eventType');
+      params.eventType = eventType;
+    }
+    if (search) {
+      conditions.push('(u.user_name LIKE @search OR u.email LIKE @search OR e.details LIKE @search)');
+      params.search = `%${search}%`;
+    }
+    if (ipAddress) {
+      conditions.push('e.ip_address = @ipAddress');
+      params.ipAddress = ipAddress;
+    }
+    if (since) {
+      conditions.push('e.created_at >= @since');
+      params.since = since;
+    }
+
+    const rows = await database.query(`
+      SELECT TOP (@limit)
+        e.*,
+        u.user_name,
+        u.email,
+        a.user_name as actor_name
+      FROM Auth_Events e
+      LEFT JOIN users u ON e.user_id = u.id
+      LEFT JOIN users a ON e.actor_user_id = a.id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY e.created_at DESC, e.event_id DESC
+    `, params);
+
+    return rows.map(toAuthEventResponse);
+  }
+}
+
+export default AuthEventService;
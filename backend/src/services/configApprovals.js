@@ -0,0 +1,433 @@
+import database from '../config/database.js';
+import { logConfigurationAction, activateConfiguration } from './deviceConfigurations.js';
+import {
+  activateUniversalConfig,
+  hasUniversalConfigPermission,
+  logUniversalConfigAction
+} from './universalConfigs.js';
+import ScheduledActivationService from './scheduledActivations.js';
+import ConfigSchemaService from './configSchemaService.js';
+import { formatConfigErrors } from '../shared/configSchema.js';
+
+/**
+ * Two-person approval for configuration activation.
+ * With the approval tables in place, activating a device or universal configuration creates a
+ * proposal instead; a different user approves it, which activates the configuration (or queues
+ * it with the scheduler when the proposal carries a time or maintenance window). Every step is
+ * written to the regular audit trail of the target: Device_Config_Audit for device
+ * configurations, Universal_Comm_Config_Audit for universal ones. Open proposals expire after
+ * CONFIG_APPROVAL_EXPIRY_HOURS; expiry is applied whenever proposals are read or decided.
+ * Rollbacks, rollout campaigns and client overrides can't be proposed, so the config routes
+ * refuse them while approval is required.
+ */
+
+export const APPROVAL_STATUSES = ['proposed', 'approved', 'rejected', 'expired', 'withdrawn'];
+
+const EXPIRY_HOURS = parseInt(process.env.CONFIG_APPROVAL_EXPIRY_HOURS) || 72;
+
+// Audit action names follow each trail's existing convention
+const DEVICE_ACTIONS = {
+  proposed: 'PROPOSE',
+  approved: 'APPROVE',
+  rejected: 'REJECT',
+  withdrawn: 'WITHDRAW',
+  expired: 'APPROVAL_EXPIRED'
+};
+const UNIVERSAL_ACTIONS = {
+  proposed: 'PROPOSED',
+  approved: 'APPROVED',
+  rejected: 'REJECTED',
+  withdrawn: 'WITHDRAWN',
+  expired: 'APPROVAL_EXPIRED'
+};
+
+export const toApprovalResponse = (row) => ({
+  approvalId: row.approval_id,
+  targetType: row.target_type,
+  deviceId: row.device_id,
+  configId: row.config_id,
+  configName: row.config_name || null,
+  configVersion: row.config_version ?? null,
+  status: row.status,
+  changeReason: row.change_reason,
+  scheduledFor: row.scheduled_for,
+  useMaintenanceWindow: !!row.use_maintenance_window,
+  proposedBy: row.proposed_by,
+  proposedByName: row.proposed_by_name || null,
+  proposedAt: row.proposed_at,
+  expiresAt: row.expires_at,
+  decidedBy: row.decided_by,
+  decidedByName: row.decided_by_name || null,
+  decidedAt: row.decided_at,
+  decisionComment: row.decision_comment,
+  resultMessage: row.result_message
+});
+
+const APPROVAL_SELECT = `
+  SELECT a.*,
+    COALESCE(dc.config_name, u.configuration_name, u.config_name) as config_name,
+    dc.config_version,
+    pu.user_name as proposed_by_name,
+    du.user_name as decided_by_name
+  FROM Config_Change_Approvals a
+  LEFT JOIN Device_Configurations dc ON a.target_type = 'device' AND dc.config_id = a.config_id
+  LEFT JOIN Universal_Communication_Config u ON a.target_type = 'universal' AND u.config_id = a.config_id
+  LEFT JOIN users pu ON a.proposed_by = pu.id
+  LEFT JOIN users du ON a.decided_by = du.id
+`;
+
+class ConfigApprovalService {
+  static async tablesExist() {
+    return database.tablesExist(['Config_Change_Approvals', 'Config_Approval_Comments']);
+  }
+
+  /**
+   * Whether activations have to go through a proposal
+   */
+  static async isRequired() {
+    return process.env.CONFIG_APPROVAL_REQUIRED !== 'false' && await this.tablesExist();
+  }
+
+  static async getApproval(approvalId) {
+    const rows = await database.query(`${APPROVAL_SELECT} WHERE a.approval_id = @approvalId`, { approvalId });
+    return rows[0] ? toApprovalResponse(rows[0]) : null;
+  }
+
+  static async getComments(approvalId) {
+    const rows = await database.query(`
+      SELECT c.*, u.user_name
+      FROM Config_Approval_Comments c
+      LEFT JOIN users u ON c.user_id = u.id
+      WHERE c.approval_id = @approvalId
+      ORDER BY c.created_at ASC, c.comment_id ASC
+    `, { approvalId });
+
+    return rows.map(row => ({
+      commentId: row.comment_id,
+      userId: row.user_id,
+      userName: row.user_name || null,
+      comment: row.comment,
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * @param {Object} filters - { status, targetType, deviceId }
+   */
+  static async listApprovals({ status, targetType, deviceId } = {}) {
+    await this.expireStale();
+
+    const conditions = [];
+    const params = {};
+    if (status) {
+      conditions.push('a.status = @status');
+      params.status = status;
+    }
+    if (targetType) {
+      conditions.push('a.target_type = @targetType');
+      params.targetType = targetType;
+    }
+    if (deviceId) {
+      conditions.push('a.device_id = @deviceId');
+      params.deviceId = deviceId;
+    }
+
+    const rows = await database.query(`
+      SELECT TOP 200 * FROM (${APPROVAL_SELECT}) a
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY a.proposed_at DESC
+    `, params);
+
+    return rows.map(toApprovalResponse);
+  }
+
+  static async getPending(targetType, deviceId = null) {
+    await this.expireStale();
+
+    const rows = await database.query(`
+      ${APPROVAL_SELECT}
+      WHERE a.status = 'proposed' AND a.target_type = @targetType
+        AND (a.device_id = @deviceId OR (a.device_id IS NULL AND @deviceId IS NULL))
+    `, { targetType, deviceId });
+    return rows[0] ? toApprovalResponse(rows[0]) : null;
+  }
+
+  /**
+   * Propose an activation
+   * @param {Object} data - { targetType, deviceId, configId, changeReason, scheduledFor, useMaintenanceWindow }
+   * @param {Object} request - { ipAddress, userAgent } for the device audit trail
+   */
+  static async propose({ targetType, deviceId = null, configId, changeReason = null, scheduledFor = null, useMaintenanceWindow = false }, userId, request = {}) {
+    const rows = await database.query(`
+      INSERT INTO Config_Change_Approvals (
+        target_type, device_id, config_id, status, change_reason, scheduled_for, use_maintenance_window,
+        proposed_by, proposed_at, expires_at
+      )
+      OUTPUT INSERTED.approval_id
+      VALUES (
+        @targetType, @deviceId, @configId, 'proposed', @changeReason, @scheduledFor, @useMaintenanceWindow,
+        @userId, GETUTCDATE(), DATEADD(HOUR, @expiryHours, GETUTCDATE())
+      )
+    `, {
+      targetType,
+      deviceId,
+      configId,
+      changeReason,
+      scheduledFor,
+      useMaintenanceWindow: !!useMaintenanceWindow,
+      userId,
+      expiryHours: EXPIRY_HOURS
+    });
+
+    const approval = await this.getApproval(rows[0].approval_id);
+    await this.audit(approval, 'proposed', userId, changeReason, request);
+    return approval;
+  }
+
+  static async addComment(approvalId, userId, comment) {
+    await database.query(`
+      INSERT INTO Config_Approval_Comments (approval_id, user_id, comment, created_at)
+      VALUES (@approvalId, @userId, @comment, GETUTCDATE())
+    `, { approvalId, userId, comment });
+
+    return this.getComments(approvalId);
+  }
+
+  /**
+   * Approve a proposal and carry out the change
+   * When the change can't be carried out the proposal is reopened, so it can be approved again or rejected
+   * @returns {Promise<Object>} - { approval } or { error, status } when it can't be approved
+   */
+  static async approve(approvalId, userId, comment = null, request = {}) {
+    await this.expireStale();
+
+    const approval = await this.getApproval(approvalId);
+    const refusal = await this.checkDecision(approval, userId);
+    if (refusal) return refusal;
+
+    if (approval.targetType === 'universal' && !await hasUniversalConfigPermission(approval.configId, userId, 'APPROVE')) {
+      return { status: 403, error: 'You do not have permission to approve this configuration' };
+    }
+
+    // The target may have changed since the proposal was made
+    const blocked = await this.checkTarget(approval);
+    if (blocked) return { status: 409, error: blocked };
+
+    // Claimed first so two approvers can't both carry out the change
+    if (!await this.decide(approvalId, 'approved', userId, comment)) {
+      return { status: 409, error: 'Proposal is no longer open' };
+    }
+
+    let resultMessage;
+    try {
+      resultMessage = await this.carryOut(approval, request);
+    } catch (error) {
+      console.error(`Error carrying out approved change ${approvalId}:`, error);
+      await this.reopen(approvalId, `Approval failed: ${error.message}`);
+      return { status: error.status || 500, error: `The change could not be carried out: ${error.message}` };
+    }
+
+    await database.query(
+      'UPDATE Config_Change_Approvals SET result_message = @resultMessage WHERE approval_id = @approvalId',
+      { approvalId, resultMessage: resultMessage.slice(0, 1000) }
+    );
+    await this.audit(approval, 'approved', userId, comment, request);
+
+    return { approval: await this.getApproval(approvalId) };
+  }
+
+  /**
+   * Reject a proposal; the proposer withdraws instead
+   */
+  static async reject(approvalId, userId, reason, request = {}) {
+    await this.expireStale();
+
+    const approval = await this.getApproval(approvalId);
+    const refusal = await this.checkDecision(approval, userId);
+    if (refusal) return refusal;
+
+    if (!await this.decide(approvalId, 'rejected', userId, reason)) {
+      return { status: 409, error: 'Proposal is no longer open' };
+    }
+    await this.audit(approval, 'rejected', userId, reason, request);
+    return { approval: await this.getApproval(approvalId) };
+  }
+
+  static async withdraw(approvalId, userId, request = {}) {
+    const approval = await this.getApproval(approvalId);
+    if (!approval) {
+      return { status: 404, error: 'Proposal not found' };
+    }
+    if (approval.proposedBy !== userId) {
+      return { status: 403, error: 'Only the proposer can withdraw a proposal' };
+    }
+
+    if (!await this.decide(approvalId, 'withdrawn', userId, null)) {
+      return { status: 409, error: 'Proposal is no longer open' };
+    }
+    await this.audit(approval, 'withdrawn', userId, null, request);
+    return { approval: await this.getApproval(approvalId) };
+  }
+
+  /**
+   * Mark open proposals past their expiry as expired
+   * @returns {Promise<number>} - Number of proposals expired
+   */
+  static async expireStale() {
+    if (!await this.tablesExist()) return 0;
+
+    const expired = await database.query(`
+      UPDATE Config_Change_Approvals
+      SET status = 'expired', decided_at = GETUTCDATE()
+      OUTPUT INSERTED.approval_id
+      WHERE status = 'proposed' AND expires_at <= GETUTCDATE()
+    `);
+
+    for (const { approval_id: approvalId } of expired) {
+      const approval = await this.getApproval(approvalId);
+      await this.audit(approval, 'expired', approval.proposedBy, `Proposal #${approvalId} expired without a decision`, {
+        userAgent: 'config-approvals'
+      });
+    }
+    return expired.length;
+  }
+
+  // Shared checks for approve/reject; returns { error, status } when the user can't decide
+  static async checkDecision(approval, userId) {
+    if (!approval) {
+      return { status: 404, error: 'Proposal not found' };
+    }
+    if (approval.status !== 'proposed') {
+      return { status: 409, error: `Proposal is already ${approval.status}` };
+    }
+    if (approval.proposedBy === userId) {
+      return { status: 403, error: 'A proposal has to be decided by someone other than its proposer' };
+    }
+    return null;
+  }
+
+  // Returns why the proposed activation can no longer go ahead, if it can't
+  static async checkTarget(approval) {
+    if (approval.targetType === 'universal') {
+      const rows = await database.query(
+        'SELECT is_active FROM Universal_Communication_Config WHERE config_id = @configId',
+        { configId: approval.configId }
+      );
+      if (rows.length === 0) return 'Universal configuration no longer exists';
+      if (rows[0].is_active && !approval.scheduledFor) return 'Universal configuration is already active';
+    } else {
+      const rows = await database.query(
+        'SELECT config_data, is_active FROM Device_Configurations WHERE config_id = @configId AND device_id = @deviceId',
+        { configId: approval.configId, deviceId: approval.deviceId }
+      );
+      if (rows.length === 0) return 'Configuration no longer exists';
+      if (rows[0].is_active) return 'Configuration is already active';
+
+      const { schema, errors } = await ConfigSchemaService.validateForDevice(approval.deviceId, JSON.parse(rows[0].config_data));
+      if (errors.length > 0) {
+        return `Invalid configuration (schema ${schema.label}): ${formatConfigErrors(errors)}`;
+      }
+    }
+
+    if (approval.scheduledFor || approval.useMaintenanceWindow) {
+      if (!await ScheduledActivationService.tablesExist()) {
+        return 'Scheduled activation is not available; run create_scheduled_activation_tables.sql';
+      }
+      if (approval.scheduledFor && approval.scheduledFor <= new Date()) {
+        return `The proposed activation time ${approval.scheduledFor.toISOString()} has passed`;
+      }
+      const pending = await ScheduledActivationService.getPending(approval.targetType, approval.deviceId);
+      if (pending) {
+        return `An activation is already scheduled for ${pending.scheduledFor.toISOString()}; cancel it first`;
+      }
+    }
+    return null;
+  }
+
+  // Activate or schedule an approved change, attributed to its proposer; returns a result message
+  // and throws when nothing was changed
+  static async carryOut(approval, request) {
+    const reason = `Approved change #${approval.approvalId}${approval.changeReason ? `: ${approval.changeReason}` : ''}`;
+
+    if (approval.scheduledFor || approval.useMaintenanceWindow) {
+      const { schedule, error } = await ScheduledActivationService.schedule({
+        targetType: approval.targetType,
+        deviceId: approval.deviceId,
+        configId: approval.configId,
+        scheduledFor: approval.scheduledFor,
+        useMaintenanceWindow: approval.useMaintenanceWindow,
+        reason
+      }, approval.proposedBy);
+      if (error) {
+        const failure = new Error(error);
+        failure.status = 409;
+        throw failure;
+      }
+      return `Scheduled for ${schedule.scheduledFor.toISOString()} (schedule #${schedule.scheduleId})`;
+    }
+
+    if (approval.targetType === 'universal') {
+      if (!await activateUniversalConfig(approval.configId, approval.proposedBy)) {
+        const failure = new Error('Universal configuration no longer exists');
+        failure.status = 409;
+        throw failure;
+      }
+      return 'Activated';
+    }
+
+    const configs = await database.query(
+      'SELECT config_data FROM Device_Configurations WHERE config_id = @configId',
+      { configId: approval.configId }
+    );
+    const previousActiveConfig = await activateConfiguration(approval.deviceId, approval.configId, approval.proposedBy);
+    await logConfigurationAction(
+      approval.configId,
+      'ACTIVATE',
+      approval.proposedBy,
+      previousActiveConfig?.config_data || null,
+      configs[0].config_data,
+      reason,
+      request.ipAddress,
+      request.userAgent
+    );
+    return 'Activated';
+  }
+
+  // Close an open proposal; false when it was decided (or expired) in the meantime
+  static async decide(approvalId, status, userId, comment) {
+    const rows = await database.query(`
+      UPDATE Config_Change_Approvals
+      SET status = @status, decided_by = @userId, decided_at = GETUTCDATE(), decision_comment = @comment
+      OUTPUT INSERTED.approval_id
+      WHERE approval_id = @approvalId AND status = 'proposed' AND expires_at > GETUTCDATE()
+    `, { approvalId, status, userId, comment: comment || null });
+    return rows.length > 0;
+  }
+
+  // Undo an approval whose change failed; the reason stays as the result message
+  static async reopen(approvalId, resultMessage) {
+    await database.query(`
+      UPDATE Config_Change_Approvals
+      SET status = 'proposed', decided_by = NULL, decided_at = NULL, decision_comment = NULL,
+        result_message = @resultMessage
+      WHERE approval_id = @approvalId AND status = 'approved'
+    `, { approvalId, resultMessage: resultMessage.slice(0, 1000) });
+  }
+
+  static async audit(approval, status, userId, note, { ipAddress = null, userAgent = null } = {}) {
+    const summary = `Change #${approval.approvalId} ${status}${note ? `: ${note}` : ''}`;
+
+    if (approval.targetType === 'universal') {
+      try {
+        await logUniversalConfigAction(approval.configId, UNIVERSAL_ACTIONS[status], userId);
+      } catch (error) {
+        console.error('Failed to log universal configuration audit:', error);
+      }
+      return;
+    }
+
+    await logConfigurationAction(approval.configId, DEVICE_ACTIONS[status], userId, null, null, summary, ipAddress, userAgent);
+  }
+}
+
+export default ConfigApprovalService;
@@ -0,0 +1,214 @@
+import database from '../config/database.js';
+import EffectiveConfigService from './effectiveConfig.js';
+
+/**
+ * Config drift detection.
+ * Devices pass their running config hash (prefix) and firmware version on each version poll.
+ * Every check-in is stored with the hash of the device's effective config at that moment. A device
+ * whose reported hash differs from its effective config is drifting; drift_since records when the
+ * mismatch started and a config_drift alert is raised once it has lasted DRIFT_ALERT_MINUTES.
+ */
+
+const DRIFT_ALERT_MINUTES = parseInt(process.env.DRIFT_ALERT_MINUTES) || 120;
+const CHECKIN_RETENTION_DAYS = parseInt(process.env.CONFIG_CHECKIN_RETENTION_DAYS) || 30;
+
+const DRIFT_ALERT_TYPE = 'config_drift';
+
+/**
+ * Compare a reported hash prefix against the desired config hash
+ * @returns {boolean|null} - null when either side is unknown
+ */
+export function isInSync(reportedHash, configHash) {
+  if (!reportedHash || !configHash) return null;
+  return configHash.toLowerCase().startsWith(reportedHash.toLowerCase());
+}
+
+// SQL form of isInSync for a Device_Config_Polls alias p and the expected hash expression
+const inSyncSql = (expectedHash) => `
+  CASE
+    WHEN p.reported_hash IS NULL OR ${expectedHash} IS NULL THEN NULL
+    WHEN LEFT(${expectedHash}, LEN(p.reported_hash)) = p.reported_hash THEN 1
+    ELSE 0
+  END`;
+
+export const toSyncResponse = (row) => row ? {
+  reportedHash: row.reported_hash,
+  firmwareVersion: row.firmware_version,
+  reportedAt: row.reported_at,
+  lastPolledAt: row.last_polled_at,
+  expectedHash: row.config_hash || null,
+  inSync: row.in_sync === null || row.in_sync === undefined ? null : Boolean(row.in_sync),
+  driftSince: row.drift_since
+} : null;
+
+class ConfigDriftService {
+  static timer = null;
+  static running = false;
+
+  static async tablesExist() {
+    return database.tablesExist(['Device_Config_Checkins'], ['Device_Config_Polls.drift_since']);
+  }
+
+  /**
+   * Store a check-in and update the device's drift state
+   * @param {string} deviceId
+   * @param {Object} checkin - { reportedHash, firmwareVersion, activeConfig: { config_id, config_hash } | null },
+   *   where config_hash is the effective hash the device should be running
+   */
+  static async recordCheckin(deviceId, { reportedHash = null, firmwareVersion = null, activeConfig = null }) {
+    if (!await this.tablesExist()) return;
+
+    const hash = reportedHash ? reportedHash.toLowerCase() : null;
+    const inSync = isInSync(hash, activeConfig?.config_hash);
+
+    await database.query(`
+      INSERT INTO Device_Config_Checkins (
+        device_id, reported_hash, firmware_version, expected_config_id, expected_hash, in_sync, checked_in_at
+      ) VALUES (
+        @deviceId, @reportedHash, @firmwareVersion, @expectedConfigId, @expectedHash, @inSync, GETDATE()
+      )
+    `, {
+      deviceId,
+      reportedHash: hash,
+      firmwareVersion,
+      expectedConfigId: activeConfig?.config_id || null,
+      expectedHash: activeConfig?.config_hash || null,
+      inSync
+    });
+
+    // Device_Config_Polls row is created by DeploymentReconciler.recordPoll on the same request
+    await database.query(`
+      UPDATE Device_Config_Polls
+      SET firmware_version = COALESCE(@firmwareVersion, firmware_version),
+          drift_since = CASE
+            WHEN @reportedHash IS NULL THEN drift_since
+            WHEN @inSync = 0 THEN ISNULL(drift_since, GETDATE())
+            ELSE NULL
+          END
+      WHERE device_id = @deviceId
+    `, { deviceId, firmwareVersion, reportedHash: hash, inSync: inSync === false ? 0 : 1 });
+  }
+
+  /**
+   * Latest reported state and drift for one device
+   */
+  static async getDeviceSync(deviceId) {
+    if (!await this.tablesExist()) return null;
+
+    const expectedHash = await EffectiveConfigService.expectedHashSql('dc');
+    const rows = await database.query(`
+      SELECT p.*, ${expectedHash} as config_hash, ${inSyncSql(expectedHash)} as in_sync
+      FROM Device_Config_Polls p
+      LEFT JOIN Device_Configurations dc ON dc.device_id = p.device_id AND dc.is_active = 1
+      WHERE p.device_id = @deviceId
+    `, { deviceId });
+
+    return toSyncResponse(rows[0]);
+  }
+
+  // Device detail must still render when drift data can't be read
+  static async getDeviceSyncSafely(deviceId) {
+    try {
+      return await this.getDeviceSync(deviceId);
+    } catch (error) {
+      console.error('Error reading config sync state:', error.message);
+      return null;
+    }
+  }
+
+  static async getCheckins(deviceId, limit = 50) {
+    return database.query(`
+      SELECT TOP (@limit) checkin_id, reported_hash, firmware_version, expected_config_id, expected_hash, in_sync, checked_in_at
+      FROM Device_Config_Checkins
+      WHERE device_id = @deviceId
+      ORDER BY checked_in_at DESC, checkin_id DESC
+    `, { deviceId, limit });
+  }
+
+  /**
+   * Start the periodic sweep that keeps drift state current and raises drift alerts
+   * @param {number} intervalMs - Sweep interval
+   */
+  static start(intervalMs) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.refresh().catch(error => console.error('Config drift sweep failed:', error));
+    }, intervalMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Recompute drift against the current active configs (activations change the desired hash
+   * without a check-in), raise / resolve drift alerts and prune old check-ins
+   * @returns {Promise<Object|null>} - { raised, resolved } or null when skipped
+   */
+  static async refresh() {
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      if (!await this.tablesExist()) return null;
+
+      const expectedHash = await EffectiveConfigService.expectedHashSql('dc');
+      await database.query(`
+        UPDATE p
+        SET drift_since = CASE WHEN ${inSyncSql(expectedHash)} = 0 THEN ISNULL(p.drift_since, GETDATE()) ELSE NULL END
+        FROM Device_Config_Polls p
+        LEFT JOIN Device_Configurations dc ON dc.device_id = p.device_id AND dc.is_active = 1
+      `);
+
+      const drifting = await database.query(`
+        SELECT p.device_id, p.reported_hash, p.drift_since, ${expectedHash} as config_hash, dc.config_version
+        FROM Device_Config_Polls p
+        LEFT JOIN Device_Configurations dc ON dc.device_id = p.device_id AND dc.is_active = 1
+        WHERE p.drift_since < DATEADD(minute, -@alertMinutes, GETDATE())
+          AND NOT EXISTS (
+            SELECT 1 FROM alerts a
+            WHERE a.device_id = p.device_id AND a.alert_type = @type AND a.status IN ('active', 'acknowledged')
+          )
+      `, { alertMinutes: DRIFT_ALERT_MINUTES, type: DRIFT_ALERT_TYPE });
+
+      for (const device of drifting) {
+        await this.raiseDriftAlert(device);
+      }
+
+      const resolved = await database.query(`
+        UPDATE a
+        SET status = 'resolved',
+            resolved_at = GETDATE(),
+            resolution = 'Auto-resolved: device running the active configuration',
+            updated_at = GETDATE()
+        OUTPUT INSERTED.id
+        FROM alerts a
+        LEFT JOIN Device_Config_Polls p ON p.device_id = a.device_id
+        WHERE a.alert_type = @type AND a.status IN ('active', 'acknowledged') AND p.drift_since IS NULL
+      `, { type: DRIFT_ALERT_TYPE });
+
+      await database.query(
+        'DELETE FROM Device_Config_Checkins WHERE checked_in_at < DATEADD(day, -@retentionDays, GETDATE())',
+        { retentionDays: CHECKIN_RETENTION_DAYS }
+      );
+
+      return { raised: drifting.length, resolved: resolved.length };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  static async raiseDriftAlert(device) {
+    try {
+      await database.query(`
+        INSERT INTO alerts (device_id, alert_type, severity, status, title, description, created_at)
+        VALUES (@deviceId, @type, 'warning', 'active', 'Configuration drift', @description, GETDATE())
+      `, {
+        deviceId: device.device_id,
+        type: DRIFT_ALERT_TYPE,
+        description: `Device reports config ${device.reported_hash} but active config v${device.config_version} is ${device.config_hash?.slice(0, 8)}; drifting since ${new Date(device.drift_since).toISOString()}`
+      });
+    } catch (error) {
+      console.error(`Error raising drift alert for ${device.device_id}:`, error.message);
+    }
+  }
+}
+
+export default ConfigDriftService;
@@ -0,0 +1,461 @@
+import database from '../config/database.js';
+import {
+  generateConfigHash,
+  logConfigurationAction,
+  createConfiguration,
+  activateConfiguration,
+  createDeployment
+} from './deviceConfigurations.js';
+
+/**
+ * Staged configuration rollouts.
+ * A campaign resolves its target devices once, splits them into a canary wave (wave 0) and
+ * wave_count follow-up waves, and deploys one wave at a time. Each deployed device gets a new
+ * config version that becomes active immediately, so it is picked up on the next version poll.
+ * Device status reports drive the campaign forward: the next wave starts when every device in
+ * the current wave has reported, and the campaign halts when the failure rate passes its threshold.
+ */
+
+export const CAMPAIGN_STATUSES = ['running', 'paused', 'halted', 'aborted', 'completed'];
+export const TARGET_TYPES = ['client', 'logic', 'devices'];
+
+/**
+ * Assign devices to waves
+ * @param {string[]} deviceIds
+ * @param {number} canaryPercent - Share of devices in the canary wave (at least one device)
+ * @param {number} waveCount - Number of waves after the canary
+ * @returns {Object} - { waves: [{ deviceId, wave }], totalWaves }
+ */
+export function planWaves(deviceIds, canaryPercent, waveCount) {
+  const sorted = [...deviceIds].sort();
+  const canarySize = Math.min(sorted.length, Math.max(1, Math.ceil(sorted.length * canaryPercent / 100)));
+  const remaining = sorted.slice(canarySize);
+  const followUpWaves = Math.min(waveCount, remaining.length);
+
+  const waves = sorted.slice(0, canarySize).map(deviceId => ({ deviceId, wave: 0 }));
+  remaining.forEach((deviceId, index) => {
+    waves.push({ deviceId, wave: 1 + Math.floor(index * followUpWaves / remaining.length) });
+  });
+
+  return { waves, totalWaves: 1 + followUpWaves };
+}
+
+const TARGET_PROGRESS_COLUMNS = `
+  COUNT(*) as total,
+  SUM(CASE WHEN t.status = 'waiting' THEN 1 ELSE 0 END) as waiting,
+  SUM(CASE WHEN t.status = 'cancelled' THEN 1 ELSE 0 END) as cancelled,
+  SUM(CASE WHEN t.status = 'deployed' AND dep.deployment_status = 'pending' THEN 1 ELSE 0 END) as pending,
+  SUM(CASE WHEN t.status = 'deployed' AND dep.deployment_status = 'in_progress' THEN 1 ELSE 0 END) as in_progress,
+  SUM(CASE WHEN t.status = 'deployed' AND dep.deployment_status = 'success' THEN 1 ELSE 0 END) as succeeded,
+  SUM(CASE WHEN t.status = 'deployed' AND dep.deployment_status = 'failed' THEN 1 ELSE 0 END) as failed
+`;
+
+export const toProgressResponse = (row = {}) => ({
+  total: row.total || 0,
+  waiting: row.waiting || 0,
+  cancelled: row.cancelled || 0,
+  pending: row.pending || 0,
+  inProgress: row.in_progress || 0,
+  succeeded: row.succeeded || 0,
+  failed: row.failed || 0
+});
+
+export const toCampaignResponse = (campaign, progress) => ({
+  campaignId: campaign.campaign_id,
+  campaignName: campaign.campaign_name,
+  configName: campaign.config_name,
+  configHash: campaign.config_hash,
+  targetType: campaign.target_type,
+  targetValue: campaign.target_value,
+  canaryPercent: campaign.canary_percent,
+  waveCount: campaign.wave_count,
+  failureThresholdPercent: campaign.failure_threshold_percent,
+  status: campaign.status,
+  statusReason: campaign.status_reason,
+  currentWave: campaign.current_wave,
+  totalWaves: campaign.total_waves,
+  notes: campaign.notes,
+  createdBy: campaign.created_by,
+  createdByName: campaign.created_by_name || null,
+  createdAt: campaign.created_at,
+  updatedAt: campaign.updated_at,
+  completedAt: campaign.completed_at,
+  progress: toProgressResponse(progress)
+});
+
+class ConfigRolloutService {
+  static async tablesExist() {
+    return database.tablesExist(['Config_Rollout_Campaigns', 'Config_Rollout_Targets']);
+  }
+
+  /**
+   * Resolve the devices a campaign targets
+   * @param {string} targetType - client | logic | devices
+   * @param {string|number|string[]} targetValue - client ID, conversion logic ID or device ID list
+   * @returns {Promise<string[]>} - Existing device IDs
+   */
+  static async resolveTargets(targetType, targetValue) {
+    if (targetType === 'client') {
+      const devices = await database.query(
+        'SELECT Device_ID FROM device WHERE client_id = @clientId',
+        { clientId: targetValue }
+      );
+      return devices.map(device => device.Device_ID);
+    }
+
+    if (targetType === 'logic') {
+      const devices = await database.query(
+        'SELECT Device_ID FROM device WHERE ConversionLogicID = @logicId',
+        { logicId: targetValue }
+      );
+      return devices.map(device => device.Device_ID);
+    }
+
+    const requested = [...new Set(targetValue)];
+    const params = {};
+    const placeholders = requested.map((deviceId, index) => {
+      params[`device${index}`] = deviceId;
+      return `@device${index}`;
+    });
+    const devices = await database.query(
+      `SELECT Device_ID FROM device WHERE Device_ID IN (${placeholders.join(', ')})`,
+      params
+    );
+    return devices.map(device => device.Device_ID);
+  }
+
+  static async getCampaign(campaignId) {
+    const campaigns = await database.query(`
+      SELECT c.*, u.user_name as created_by_name
+      FROM Config_Rollout_Campaigns c
+      LEFT JOIN users u ON c.created_by = u.id
+      WHERE c.campaign_id = @campaignId
+    `, { campaignId });
+    return campaigns[0] || null;
+  }
+
+  static async listCampaigns({ status, limit = 50 } = {}) {
+    const params = { limit };
+    let whereClause = '';
+    if (status) {
+      whereClause = 'WHERE c.status = @status';
+      params.status = status;
+    }
+
+    const campaigns = await database.query(`
+      SELECT TOP (@limit) c.*, u.user_name as created_by_name
+      FROM Config_Rollout_Campaigns c
+      LEFT JOIN users u ON c.created_by = u.id
+      ${whereClause}
+      ORDER BY c.created_at DESC, c.campaign_id DESC
+    `, params);
+
+    const progress = await this.getProgress(campaigns.map(campaign => campaign.campaign_id));
+    return campaigns.map(campaign => toCampaignResponse(campaign, progress.get(campaign.campaign_id)));
+  }
+
+  /**
+   * Target counts per campaign
+   * @returns {Promise<Map>} - campaign_id => progress row
+   */
+  static async getProgress(campaignIds) {
+    if (campaignIds.length === 0) return new Map();
+
+    const params = {};
+    const placeholders = campaignIds.map((campaignId, index) => {
+      params[`campaign${index}`] = campaignId;
+      return `@campaign${index}`;
+    });
+
+    const rows = await database.query(`
+      SELECT t.campaign_id, ${TARGET_PROGRESS_COLUMNS}
+      FROM Config_Rollout_Targets t
+      LEFT JOIN Device_Config_Deployments dep ON t.deployment_id = dep.deployment_id
+      WHERE t.campaign_id IN (${placeholders.join(', ')})
+      GROUP BY t.campaign_id
+    `, params);
+
+    return new Map(rows.map(row => [row.campaign_id, row]));
+  }
+
+  static async getWaveProgress(campaignId) {
+    const rows = await database.query(`
+      SELECT t.wave_number, ${TARGET_PROGRESS_COLUMNS}
+      FROM Config_Rollout_Targets t
+      LEFT JOIN Device_Config_Deployments dep ON t.deployment_id = dep.deployment_id
+      WHERE t.campaign_id = @campaignId
+      GROUP BY t.wave_number
+      ORDER BY t.wave_number
+    `, { campaignId });
+
+    return rows.map(row => ({ wave: row.wave_number, ...toProgressResponse(row) }));
+  }
+
+  static async getTargets(campaignId) {
+    const targets = await database.query(`
+      SELECT t.device_id, t.wave_number, t.status, t.config_id, t.deployment_id, t.started_at,
+        dep.deployment_status, dep.completed_at, dep.error_message
+      FROM Config_Rollout_Targets t
+      LEFT JOIN Device_Config_Deployments dep ON t.deployment_id = dep.deployment_id
+      WHERE t.campaign_id = @campaignId
+      ORDER BY t.wave_number, t.device_id
+    `, { campaignId });
+
+    return targets.map(target => ({
+      deviceId: target.device_id,
+      wave: target.wave_number,
+      status: target.status === 'deployed' ? target.deployment_status : target.status,
+      configId: target.config_id,
+      deploymentId: target.deployment_id,
+      startedAt: target.started_at,
+      completedAt: target.completed_at,
+      errorMessage: target.error_message
+    }));
+  }
+
+  /**
+   * Create a campaign and start its canary wave
+   * @param {Object} data - { campaignName, configName, configData (JSON string), targetType,
+   *   targetValue, deviceIds, canaryPercent, waveCount, failureThresholdPercent, notes }
+   * @returns {Promise<Object|null>} - Campaign row, or null when no devices matched
+   */
+  static async createCampaign(data, userId, req = null) {
+    const deviceIds = await this.resolveTargets(data.targetType, data.targetType === 'devices' ? data.deviceIds : data.targetValue);
+    if (deviceIds.length === 0) {
+      return null;
+    }
+
+    const { waves, totalWaves } = planWaves(deviceIds, data.canaryPercent, data.waveCount);
+
+    const inserted = await database.query(`
+      INSERT INTO Config_Rollout_Campaigns (
+        campaign_name, config_name, config_data, config_hash, target_type, target_value,
+        canary_percent, wave_count, failure_threshold_percent, status, current_wave, total_waves,
+        notes, created_by, created_at, updated_by, updated_at
+      )
+      OUTPUT INSERTED.*
+      VALUES (
+        @campaignName, @configName, @configData, @configHash, @targetType, @targetValue,
+        @canaryPercent, @waveCount, @failureThresholdPercent, 'running', 0, @totalWaves,
+        @notes, @userId, GETDATE(), @userId, GETDATE()
+      )
+    `, {
+      campaignName: data.campaignName,
+      configName: data.configName,
+      configData: data.configData,
+      configHash: generateConfigHash(data.configData),
+      targetType: data.targetType,
+      targetValue: data.targetType === 'devices' ? deviceIds.join(',') : String(data.targetValue),
+      canaryPercent: data.canaryPercent,
+      waveCount: data.waveCount,
+      failureThresholdPercent: data.failureThresholdPercent,
+      totalWaves,
+      notes: data.notes || null,
+      userId
+    });
+
+    const campaign = inserted[0];
+    for (const { deviceId, wave } of waves) {
+      await database.query(`
+        INSERT INTO Config_Rollout_Targets (campaign_id, device_id, wave_number, status)
+        VALUES (@campaignId, @deviceId, @wave, 'waiting')
+      `, { campaignId: campaign.campaign_id, deviceId, wave });
+    }
+
+    await this.startWave(campaign, 0, userId, req);
+    return campaign;
+  }
+
+  /**
+   * Give every waiting device in a wave the campaign config and a pending deployment
+   */
+  static async startWave(campaign, waveNumber, userId, req = null) {
+    const targets = await database.query(`
+      SELECT target_id, device_id FROM Config_Rollout_Targets
+      WHERE campaign_id = @campaignId AND wave_number = @waveNumber AND status = 'waiting'
+    `, { campaignId: campaign.campaign_id, waveNumber });
+
+    const changeReason = `Rollout campaign #${campaign.campaign_id} (${campaign.campaign_name}), ${waveNumber === 0 ? 'canary wave' : `wave ${waveNumber}`}`;
+
+    for (const target of targets) {
+      const { configId } = await createConfiguration(target.device_id, {
+        configName: campaign.config_name,
+        configData: campaign.config_data,
+        notes: changeReason,
+        userId
+      });
+      const previousActiveConfig = await activateConfiguration(target.device_id, configId, userId);
+      await logConfigurationAction(
+        configId,
+        'ACTIVATE',
+        userId,
+        previousActiveConfig?.config_data || null,
+        campaign.config_data,
+        changeReason,
+        req?.ip,
+        req?.get('User-Agent')
+      );
+      const deploymentId = await createDeployment(target.device_id, configId, userId, 'campaign');
+
+      await database.query(`
+        UPDATE Config_Rollout_Targets
+        SET status = 'deployed', config_id = @configId, deployment_id = @deploymentId, started_at = GETDATE()
+        WHERE target_id = @targetId
+      `, { targetId: target.target_id, configId, deploymentId });
+    }
+
+    console.log(`🚀 Rollout campaign ${campaign.campaign_id}: started wave ${waveNumber} (${targets.length} devices)`);
+  }
+
+  /**
+   * Halt, advance or complete a running campaign based on the reported deployments
+   */
+  static async evaluate(campaignId, req = null) {
+    const campaign = await this.getCampaign(campaignId);
+    if (!campaign || campaign.status !== 'running') {
+      return campaign;
+    }
+
+    const [totals] = await database.query(`
+      SELECT ${TARGET_PROGRESS_COLUMNS}
+      FROM Config_Rollout_Targets t
+      LEFT JOIN Device_Config_Deployments dep ON t.deployment_id = dep.deployment_id
+      WHERE t.campaign_id = @campaignId
+    `, { campaignId });
+
+    const reported = (totals.succeeded || 0) + (totals.failed || 0) - campaign.baseline_reported;
+    const failed = (totals.failed || 0) - campaign.baseline_failed;
+    const failureRate = reported > 0 ? (failed * 100) / reported : 0;
+
+    if (failureRate > campaign.failure_threshold_percent) {
+      await database.query(`
+        UPDATE Config_Rollout_Campaigns
+        SET status = 'halted', status_reason = @reason, updated_by = NULL, updated_at = GETDATE()
+        WHERE campaign_id = @campaignId AND status = 'running'
+      `, {
+        campaignId,
+        reason: `Failure rate ${Math.round(failureRate)}% (${failed} of ${reported}) exceeded ${campaign.failure_threshold_percent}% threshold`
+      });
+      console.log(`⛔ Rollout campaign ${campaignId} halted at ${Math.round(failureRate)}% failure rate`);
+      return this.getCampaign(campaignId);
+    }
+
+    const [currentWave] = await database.query(`
+      SELECT ${TARGET_PROGRESS_COLUMNS}
+      FROM Config_Rollout_Targets t
+      LEFT JOIN Device_Config_Deployments dep ON t.deployment_id = dep.deployment_id
+      WHERE t.campaign_id = @campaignId AND t.wave_number = @waveNumber
+    `, { campaignId, waveNumber: campaign.current_wave });
+
+    const outstanding = (currentWave.waiting || 0) + (currentWave.pending || 0) + (currentWave.in_progress || 0);
+    if (outstanding > 0) {
+      return campaign;
+    }
+
+    const nextWave = campaign.current_wave + 1;
+    if (nextWave >= campaign.total_waves) {
+      await database.query(`
+        UPDATE Config_Rollout_Campaigns
+        SET status = 'completed', completed_at = GETDATE(), updated_at = GETDATE()
+        WHERE campaign_id = @campaignId AND status = 'running'
+      `, { campaignId });
+      return this.getCampaign(campaignId);
+    }
+
+    // Only one concurrent status report gets to start the next wave
+    const claimed = await database.query(`
+      UPDATE Config_Rollout_Campaigns
+      SET current_wave = @nextWave, updated_at = GETDATE()
+      OUTPUT INSERTED.campaign_id
+      WHERE campaign_id = @campaignId AND current_wave = @currentWave AND status = 'running'
+    `, { campaignId, nextWave, currentWave: campaign.current_wave });
+
+    if (claimed.length > 0) {
+      await this.startWave(campaign, nextWave, campaign.created_by, req);
+    }
+    return this.getCampaign(campaignId);
+  }
+
+  /**
+   * Feed a device status report into any running campaign that deployed this config
+   */
+  static async recordDeploymentResult(deviceId, configId) {
+    if (!await this.tablesExist()) return;
+
+    const targets = await database.query(`
+      SELECT t.campaign_id
+      FROM Config_Rollout_Targets t
+      JOIN Config_Rollout_Campaigns c ON t.campaign_id = c.campaign_id
+      WHERE t.device_id = @deviceId AND t.config_id = @configId AND c.status = 'running'
+    `, { deviceId, configId });
+
+    for (const target of targets) {
+      await this.evaluate(target.campaign_id);
+    }
+  }
+
+  static async pause(campaignId, userId, reason) {
+    return this.setStatus(campaignId, 'paused', ['running'], userId, reason);
+  }
+
+  /**
+   * Resume a paused or halted campaign; failures so far no longer count towards the threshold
+   */
+  static async resume(campaignId, userId, reason, req = null) {
+    const result = await database.query(`
+      UPDATE c
+      SET status = 'running', status_reason = @reason, updated_by = @userId, updated_at = GETDATE(),
+        baseline_reported = totals.reported, baseline_failed = totals.failed
+      OUTPUT INSERTED.campaign_id
+      FROM Config_Rollout_Campaigns c
+      CROSS APPLY (
+        SELECT
+          ISNULL(SUM(CASE WHEN dep.deployment_status IN ('success', 'failed') THEN 1 ELSE 0 END), 0) as reported,
+          ISNULL(SUM(CASE WHEN dep.deployment_status = 'failed' THEN 1 ELSE 0 END), 0) as failed
+        FROM Config_Rollout_Targets t
+        JOIN Device_Config_Deployments dep ON t.deployment_id = dep.deployment_id
+        WHERE t.campaign_id = c.campaign_id AND t.status = 'deployed'
+      ) totals
+      WHERE c.campaign_id = @campaignId AND c.status IN ('paused', 'halted')
+    `, { campaignId, userId, reason: reason || null });
+
+    if (result.length === 0) {
+      return null;
+    }
+    return this.evaluate(campaignId, req);
+  }
+
+  /**
+   * Stop a campaign for good; devices that have not been deployed to yet are skipped
+   */
+  static async abort(campaignId, userId, reason) {
+    const campaign = await this.setStatus(campaignId, 'aborted', ['running', 'paused', 'halted'], userId, reason);
+    if (campaign) {
+      await database.query(`
+        UPDATE Config_Rollout_Targets SET status = 'cancelled'
+        WHERE campaign_id = @campaignId AND status = 'waiting'
+      `, { campaignId });
+    }
+    return campaign;
+  }
+
+  static async setStatus(campaignId, status, fromStatuses, userId, reason) {
+    const params = { campaignId, status, userId, reason: reason || null };
+    const placeholders = fromStatuses.map((fromStatus, index) => {
+      params[`from${index}`] = fromStatus;
+      return `@from${index}`;
+    });
+
+    const result = await database.query(`
+      UPDATE Config_Rollout_Campaigns
+      SET status = @status, status_reason = @reason, updated_by = @userId, updated_at = GETDATE(),
+        completed_at = CASE WHEN @status = 'aborted' THEN GETDATE() ELSE completed_at END
+      OUTPUT INSERTED.*
+      WHERE campaign_id = @campaignId AND status IN (${placeholders.join(', ')})
+    `, params);
+
+    return result[0] || null;
+  }
+}
+
+export default ConfigRolloutService;
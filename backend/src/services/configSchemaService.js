@@ -0,0 +1,193 @@
+import database from '../config/database.js';
+import { validateConfigData } from '../shared/configSchema.js';
+
+/**
+ * Versioned configuration schemas per ConversionLogicID (Device_Config_Schemas).
+ * A device's configuration is validated against the active schema for its logic ID,
+ * falling back to the generic schema (conversion_logic_id NULL). Without any schema
+ * only the basic JSON checks in the config routes apply.
+ */
+class ConfigSchemaService {
+  static toRecord(row) {
+    return {
+      id: row.schema_id,
+      conversionLogicId: row.conversion_logic_id,
+      deviceType: row.device_type,
+      version: row.schema_version,
+      label: this.label(row),
+      description: row.description,
+      schema: JSON.parse(row.schema_json),
+      isActive: row.is_active,
+      createdBy: row.created_by,
+      createdByName: row.created_by_name || null,
+      createdAt: row.created_at
+    };
+  }
+
+  // Stored in Device_Configurations.config_schema_version, e.g. "L3-v2" or "G-v1" for the generic schema
+  static label(row) {
+    const scope = row.conversion_logic_id === null ? 'G' : `L${row.conversion_logic_id}`;
+    return `${scope}-v${row.schema_version}`;
+  }
+
+  static async tableExists() {
+    return database.tablesExist(['Device_Config_Schemas']);
+  }
+
+  static async listSchemas({ conversionLogicId, includeInactive = false } = {}) {
+    const conditions = [];
+    const params = {};
+
+    if (!includeInactive) {
+      conditions.push('s.is_active = 1');
+    }
+    if (conversionLogicId !== undefined) {
+      conditions.push(conversionLogicId === null
+        ? 's.conversion_logic_id IS NULL'
+        : 's.conversion_logic_id = @conversionLogicId');
+      params.conversionLogicId = conversionLogicId;
+    }
+
+    const rows = await database.query(`
+      SELECT s.*, u.user_name as created_by_name
+      FROM Device_Config_Schemas s
+      LEFT JOIN users u ON s.created_by = u.id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY ISNULL(s.conversion_logic_id, 0), s.schema_version DESC
+    `, params);
+
+    return rows.map(row => this.toRecord(row));
+  }
+
+  static async getSchema(schemaId) {
+    const rows = await database.query('SELECT * FROM Device_Config_Schemas WHERE schema_id = @schemaId', { schemaId });
+    return rows[0] ? this.toRecord(rows[0]) : null;
+  }
+
+  /**
+   * Active schema for a logic ID, or the generic one when the logic ID has none
+   * @returns {Promise<Object|null>} - Schema record
+   */
+  static async getActiveSchema(conversionLogicId) {
+    if (!await this.tableExists()) return null;
+
+    const rows = await database.query(`
+      SELECT TOP 1 * FROM Device_Config_Schemas
+      WHERE is_active = 1 AND (conversion_logic_id = @conversionLogicId OR conversion_logic_id IS NULL)
+      ORDER BY CASE WHEN conversion_logic_id IS NULL THEN 1 ELSE 0 END
+    `, { conversionLogicId: conversionLogicId ?? null });
+
+    return rows[0] ? this.toRecord(rows[0]) : null;
+  }
+
+  static async getSchemaForDevice(deviceId) {
+    const devices = await database.query(
+      'SELECT ConversionLogicID FROM device WHERE Device_ID = @deviceId',
+      { deviceId }
+    );
+    return this.getActiveSchema(devices[0]?.ConversionLogicID);
+  }
+
+  /**
+   * Check parsed configuration data against the device's schema
+   * @returns {Promise<Object>} - { schema, errors: [{ path, message }] }; schema is null when none applies
+   */
+  static async validateForDevice(deviceId, configData) {
+    const schema = await this.getSchemaForDevice(deviceId);
+    if (!schema) {
+      return { schema: null, errors: [] };
+    }
+    return { schema, errors: validateConfigData(schema.schema, configData) };
+  }
+
+  /**
+   * Check one configuration against the schemas of every device it will be sent to (rollout campaigns)
+   * Each error carries the label of the schema it came from
+   */
+  static async validateForDevices(deviceIds, configData) {
+    if (deviceIds.length === 0 || !await this.tableExists()) {
+      return [];
+    }
+
+    const params = {};
+    const placeholders = deviceIds.map((deviceId, index) => {
+      params[`device${index}`] = deviceId;
+      return `@device${index}`;
+    });
+    const logicIds = await database.query(
+      `SELECT DISTINCT ConversionLogicID FROM device WHERE Device_ID IN (${placeholders.join(', ')})`,
+      params
+    );
+
+    const errors = [];
+    const checked = new Set();
+    for (const { ConversionLogicID } of logicIds) {
+      const schema = await this.getActiveSchema(ConversionLogicID);
+      if (!schema || checked.has(schema.id)) continue;
+      checked.add(schema.id);
+
+      validateConfigData(schema.schema, configData).forEach(error => {
+        errors.push({ ...error, schema: schema.label });
+      });
+    }
+    return errors;
+  }
+
+  /**
+   * Save a schema as the next version for its logic ID and make it the active one
+   * @returns {Promise<Object>} - The new schema record
+   */
+  static async createVersion({ conversionLogicId = null, deviceType, description = null, schema }, userId) {
+    const scope = conversionLogicId === null ? 'conversion_logic_id IS NULL' : 'conversion_logic_id = @conversionLogicId';
+
+    // One batch so a failed insert (e.g. a concurrent save taking the version) keeps the old schema active
+    const inserted = await database.query(`
+      SET XACT_ABORT ON;
+      BEGIN TRANSACTION;
+
+      UPDATE Device_Config_Schemas SET is_active = 0 WHERE ${scope} AND is_active = 1;
+
+      INSERT INTO Device_Config_Schemas (
+        conversion_logic_id, device_type, schema_version, description, schema_json, is_active, created_by, created_at
+      )
+      OUTPUT INSERTED.*
+      SELECT
+        @conversionLogicId, @deviceType, ISNULL(MAX(schema_version), 0) + 1, @description, @schemaJson, 1, @userId, GETUTCDATE()
+      FROM Device_Config_Schemas
+      WHERE ${scope};
+
+      COMMIT TRANSACTION;
+    `, {
+      conversionLogicId,
+      deviceType,
+      description,
+      schemaJson: JSON.stringify(schema),
+      userId
+    });
+
+    return this.toRecord(inserted[0]);
+  }
+
+  /**
+   * Make an earlier version the active schema for its logic ID again
+   */
+  static async activateVersion(schemaId) {
+    const record = await this.getSchema(schemaId);
+    if (!record || record.isActive) {
+      return record;
+    }
+
+    const scope = record.conversionLogicId === null ? 'conversion_logic_id IS NULL' : 'conversion_logic_id = @conversionLogicId';
+    await database.query(`
+      SET XACT_ABORT ON;
+      BEGIN TRANSACTION;
+      UPDATE Device_Config_Schemas SET is_active = 0 WHERE ${scope} AND is_active = 1;
+      UPDATE Device_Config_Schemas SET is_active = 1 WHERE schema_id = @schemaId;
+      COMMIT TRANSACTION;
+    `, { conversionLogicId: record.conversionLogicId, schemaId });
+
+    return this.getSchema(schemaId);
+  }
+}
+
+export default ConfigSchemaService;
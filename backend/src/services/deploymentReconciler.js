@@ -0,0 +1,204 @@
+import database from '../config/database.js';
+import ConfigRolloutService from './configRollout.js';
+import EffectiveConfigService from './effectiveConfig.js';
+
+/**
+ * Background reconciliation of Device_Config_Deployments.
+ * Devices pull their configuration, so a deployment only finishes when the device reports back.
+ * The reconciler closes the gaps: a deployment is marked successful when the device's version
+ * poll shows it is running the target config hash, and a deployment that sees no response within
+ * the timeout window gets another window (a retry) until the retry budget is spent, then fails.
+ */
+
+const TIMEOUT_MINUTES = parseInt(process.env.DEPLOYMENT_TIMEOUT_MINUTES) || 60;
+const MAX_RETRIES = parseInt(process.env.DEPLOYMENT_MAX_RETRIES) || 3;
+
+// completion_source is NULL for deployments finished by a /device/status report
+export const COMPLETION_SOURCES = ['inferred', 'timeout', 'superseded'];
+
+class DeploymentReconciler {
+  static timer = null;
+  static running = false;
+
+  static async tablesExist() {
+    return database.tablesExist(['Device_Config_Polls'], ['Device_Config_Deployments.last_attempt_at']);
+  }
+
+  /**
+   * Remember a device's version poll
+   * @param {string|null} reportedHash - Hash prefix of the config the device says it is running
+   */
+  static async recordPoll(deviceId, reportedHash = null) {
+    if (!await this.tablesExist()) return;
+
+    await database.query(`
+      MERGE Device_Config_Polls AS target
+      USING (SELECT @deviceId AS device_id) AS source ON target.device_id = source.device_id
+      WHEN MATCHED THEN UPDATE SET
+        last_polled_at = GETDATE(),
+        reported_hash = COALESCE(@reportedHash, target.reported_hash),
+        reported_at = CASE WHEN @reportedHash IS NULL THEN target.reported_at ELSE GETDATE() END
+      WHEN NOT MATCHED THEN
+        INSERT (device_id, last_polled_at, reported_hash, reported_at)
+        VALUES (@deviceId, GETDATE(), @reportedHash, CASE WHEN @reportedHash IS NULL THEN NULL ELSE GETDATE() END);
+    `, { deviceId, reportedHash: reportedHash ? reportedHash.toLowerCase() : null });
+  }
+
+  static async recordDownload(deviceId, configId) {
+    if (!await this.tablesExist()) return;
+
+    await database.query(`
+      MERGE Device_Config_Polls AS target
+      USING (SELECT @deviceId AS device_id) AS source ON target.device_id = source.device_id
+      WHEN MATCHED THEN UPDATE SET downloaded_config_id = @configId, downloaded_at = GETDATE()
+      WHEN NOT MATCHED THEN
+        INSERT (device_id, last_polled_at, downloaded_config_id, downloaded_at)
+        VALUES (@deviceId, GETDATE(), @configId, GETDATE());
+    `, { deviceId, configId });
+  }
+
+  /**
+   * Start the periodic reconciliation sweep
+   * @param {number} intervalMs - Sweep interval
+   */
+  static start(intervalMs) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.refresh().catch(error => console.error('Deployment reconciliation failed:', error));
+    }, intervalMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Confirm, retry or expire open deployments
+   * @returns {Promise<Object|null>} - { confirmed, retried, failed } or null when skipped
+   */
+  static async refresh() {
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      if (!await this.tablesExist()) return null;
+
+      const confirmed = await this.confirmFromPolls();
+      const { retried, failed } = await this.expireStale();
+
+      if (confirmed + retried + failed > 0) {
+        console.log(`🔄 Deployment reconciliation: ${confirmed} confirmed, ${retried} retried, ${failed} failed`);
+      }
+      return { confirmed, retried, failed };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Mark open deployments successful when the device reported the target hash after the deployment started
+   */
+  static async confirmFromPolls() {
+    const expectedHash = await EffectiveConfigService.expectedHashSql('dc');
+    const matches = await database.query(`
+      SELECT dep.deployment_id, dep.device_id, dep.config_id
+      FROM Device_Config_Deployments dep
+      JOIN Device_Configurations dc ON dep.config_id = dc.config_id
+      JOIN Device_Config_Polls p ON p.device_id = dep.device_id
+      WHERE dep.deployment_status IN ('pending', 'in_progress')
+        AND p.reported_hash IS NOT NULL
+        AND p.reported_at >= dep.initiated_at
+        AND LEFT(${expectedHash}, LEN(p.reported_hash)) = p.reported_hash
+    `);
+
+    let confirmed = 0;
+    for (const deployment of matches) {
+      if (await this.complete(deployment, 'success', 'inferred', null)) {
+        confirmed++;
+      }
+    }
+    return confirmed;
+  }
+
+  /**
+   * Give timed-out deployments another window, or fail them once the retries are used up
+   */
+  static async expireStale() {
+    const stale = await database.query(`
+      SELECT dep.deployment_id, dep.device_id, dep.config_id, ISNULL(dep.retry_count, 0) as retry_count, dc.is_active
+      FROM Device_Config_Deployments dep
+      LEFT JOIN Device_Configurations dc ON dep.config_id = dc.config_id
+      WHERE dep.deployment_status IN ('pending', 'in_progress')
+        AND ISNULL(dep.last_attempt_at, dep.initiated_at) < DATEADD(minute, -@timeoutMinutes, GETDATE())
+    `, { timeoutMinutes: TIMEOUT_MINUTES });
+
+    let retried = 0;
+    let failed = 0;
+
+    for (const deployment of stale) {
+      // The device is no longer meant to run this config, so waiting for it is pointless
+      if (!deployment.is_active) {
+        if (await this.complete(deployment, 'failed', 'superseded', 'Superseded by a newer configuration')) {
+          failed++;
+        }
+        continue;
+      }
+
+      if (deployment.retry_count < MAX_RETRIES) {
+        const attempt = deployment.retry_count + 1;
+        await database.query(`
+          UPDATE Device_Config_Deployments
+          SET deployment_status = 'pending',
+              retry_count = @attempt,
+              last_attempt_at = GETDATE(),
+              error_message = @error
+          WHERE deployment_id = @deploymentId AND deployment_status IN ('pending', 'in_progress')
+        `, {
+          deploymentId: deployment.deployment_id,
+          attempt,
+          error: `No response from device within ${TIMEOUT_MINUTES} minutes (retry ${attempt} of ${MAX_RETRIES})`
+        });
+        retried++;
+        continue;
+      }
+
+      const error = `No response from device after ${MAX_RETRIES + 1} attempts of ${TIMEOUT_MINUTES} minutes`;
+      if (await this.complete(deployment, 'failed', 'timeout', error)) {
+        failed++;
+      }
+    }
+
+    return { retried, failed };
+  }
+
+  /**
+   * Close a deployment and keep the config row and any rollout campaign in step
+   * @returns {Promise<boolean>} - false when the deployment was closed by someone else first
+   */
+  static async complete(deployment, status, source, error) {
+    const updated = await database.query(`
+      UPDATE Device_Config_Deployments
+      SET deployment_status = @status, completed_at = GETDATE(), completion_source = @source, error_message = @error
+      OUTPUT INSERTED.deployment_id
+      WHERE deployment_id = @deploymentId AND deployment_status IN ('pending', 'in_progress')
+    `, { deploymentId: deployment.deployment_id, status, source, error });
+
+    if (updated.length === 0) {
+      return false;
+    }
+
+    await database.query(`
+      UPDATE Device_Configurations
+      SET is_deployed = CASE WHEN @status = 'success' THEN 1 ELSE is_deployed END,
+          deployment_status = CASE WHEN @status = 'success' THEN 'deployed' ELSE 'failed' END
+      WHERE config_id = @configId AND device_id = @deviceId
+    `, { configId: deployment.config_id, deviceId: deployment.device_id, status });
+
+    try {
+      await ConfigRolloutService.recordDeploymentResult(deployment.device_id, deployment.config_id);
+    } catch (rolloutError) {
+      console.error('Failed to update rollout campaign:', rolloutError);
+    }
+
+    return true;
+  }
+}
+
+export default DeploymentReconciler;
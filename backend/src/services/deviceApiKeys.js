@@ -0,0 +1,390 @@
+import crypto from 'crypto';
+import database from '../config/database.js';
+import { decryptSecret, encryptSecret } from './secretEncryption.js';
+
+/**
+ * Device API key lifecycle.
+ * A key is only shown in full when it is generated; afterwards just its SHA-256 hash and a short
+ * visible prefix are kept. Rotating a key leaves the previous one usable until its grace period
+ * ends so the device can be reconfigured without dropping readings. Reveals, copies, rotations,
+ * expiry changes and revocations are recorded in Device_API_Key_Audit.
+ *
+ * Config endpoints polled by devices use signed requests instead of sending the key: the device
+ * signs "deviceId:timestamp:nonce" with HMAC-SHA256, keyed by its signing key
+ * HMAC-SHA256(apiKey, "device-signing") in hex, and each nonce is accepted only once per device.
+ * The signing key is stored encrypted (DEVICE_SIGNING_ENCRYPTION_KEY) and is unrelated to key_hash,
+ * so reading Device_API_Keys is not enough to forge requests. Keys stored before signing keys
+ * existed get theirs the next time the device authenticates with the plain key, on the ingest
+ * routes or once on the signed routes (see bootstrapSigningKey).
+ */
+
+export const KEY_PREFIX_LENGTH = 8;
+export const KEY_AUDIT_ACTIONS = ['view', 'copy', 'rotate', 'import', 'revoke', 'set_expiry'];
+
+const DEFAULT_GRACE_HOURS = parseInt(process.env.DEVICE_KEY_GRACE_HOURS) || 24;
+export const MAX_GRACE_HOURS = 24 * 30;
+
+export const hashApiKey = (apiKey) => crypto.createHash('sha256').update(String(apiKey)).digest('hex');
+
+export const deriveSigningKey = (apiKey) =>
+  crypto.createHmac('sha256', String(apiKey)).update('device-signing').digest('hex');
+
+const signingKeyMaterial = () => process.env.DEVICE_SIGNING_ENCRYPTION_KEY || process.env.JWT_SECRET;
+
+const encryptSigningKey = (apiKey) => encryptSecret(deriveSigningKey(apiKey), signingKeyMaterial());
+
+export const signDeviceRequest = (signingKey, deviceId, timestamp, nonce) =>
+  crypto.createHmac('sha256', signingKey).update(`${deviceId}:${timestamp}:${nonce}`).digest('hex');
+
+// Constant-time comparison so key checks don't leak timing information
+export const safeEqual = (a, b) => {
+  const bufA = Buffer.from(String(a));
+  const bufB = Buffer.from(String(b));
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+};
+
+export const generateApiKey = () => `dk_${crypto.randomBytes(24).toString('base64url')}`;
+
+// Never show more than a quarter of a key, so short imported keys keep most of their entropy hidden
+export const getKeyPrefix = (apiKey) =>
+  String(apiKey).slice(0, Math.min(KEY_PREFIX_LENGTH, Math.floor(String(apiKey).length / 4)));
+
+/**
+ * Work out whether a stored key is currently usable
+ * @param {Object} key - Device_API_Keys row
+ * @param {Date} now
+ * @returns {string} - active | grace | expired | revoked
+ */
+export function getKeyState(key, now = new Date()) {
+  if (key.status === 'revoked') return 'revoked';
+  if (key.expires_at && new Date(key.expires_at) <= now) return 'expired';
+  if (key.status === 'grace') {
+    return key.grace_until && new Date(key.grace_until) > now ? 'grace' : 'expired';
+  }
+  return 'active';
+}
+
+export const toKeyResponse = (key, now = new Date()) => ({
+  keyId: key.key_id,
+  keyPrefix: key.key_prefix,
+  state: getKeyState(key, now),
+  createdAt: key.created_at,
+  createdBy: key.created_by,
+  createdByName: key.created_by_name || null,
+  expiresAt: key.expires_at,
+  graceUntil: key.grace_until,
+  revokedAt: key.revoked_at,
+  lastUsedAt: key.last_used_at,
+  usageCount: key.usage_count
+});
+
+class DeviceApiKeyService {
+
+  static async tablesExist() {
+    return database.tablesExist(['Device_API_Keys', 'Device_API_Key_Audit']);
+  }
+
+  static async nonceTableExists() {
+    return database.tablesExist(['Device_Auth_Nonces']);
+  }
+
+  // Device_API_Keys.signing_key_encrypted, added by create_device_auth_nonces_table.sql
+  static async signingColumnExists() {
+    return database.tablesExist([], ['Device_API_Keys.signing_key_encrypted']);
+  }
+
+  /**
+   * All keys for a device, newest first
+   */
+  static async getKeys(deviceId) {
+    return database.query(`
+      SELECT k.*, u.user_name AS created_by_name
+      FROM Device_API_Keys k
+      LEFT JOIN users u ON k.created_by = u.id
+      WHERE k.device_id = @deviceId
+      ORDER BY k.created_at DESC, k.key_id DESC
+    `, { deviceId });
+  }
+
+  /**
+   * Check a key presented by a device and count the use
+   * @returns {Promise<Object|null>} - { keyId, state } or null when the key is unknown or unusable
+   */
+  static async verify(deviceId, apiKey) {
+    const withSigning = await this.signingColumnExists();
+    const keys = await database.query(`
+      SELECT key_id, status, expires_at, grace_until,
+        ${withSigning ? 'CASE WHEN signing_key_encrypted IS NULL THEN 0 ELSE 1 END' : '1'} as has_signing_key
+      FROM Device_API_Keys
+      WHERE device_id = @deviceId AND key_hash = @keyHash
+    `, { deviceId, keyHash: hashApiKey(apiKey) });
+
+    const key = keys[0];
+    const state = key ? getKeyState(key) : null;
+    if (state !== 'active' && state !== 'grace') {
+      return null;
+    }
+
+    // Only the plain key can produce the signing key, so older keys pick it up here
+    if (!key.has_signing_key) {
+      await database.query(
+        'UPDATE Device_API_Keys SET signing_key_encrypted = @signingKey WHERE key_id = @keyId AND signing_key_encrypted IS NULL',
+        { keyId: key.key_id, signingKey: encryptSigningKey(apiKey) }
+      );
+    }
+
+    await this.recordUse(key.key_id);
+    return { keyId: key.key_id, state };
+  }
+
+  /**
+   * Accept a plain key on the signed routes when it has no signing key yet (keys migrated from
+   * device.APIKey), storing the signing key so every later request has to be signed
+   * @returns {Promise<Object|null>} - { keyId, state } or null when the key is unknown, unusable
+   *   or already has a signing key
+   */
+  static async bootstrapSigningKey(deviceId, apiKey) {
+    const keys = await database.query(`
+      SELECT key_id, status, expires_at, grace_until
+      FROM Device_API_Keys
+      WHERE device_id = @deviceId AND key_hash = @keyHash AND signing_key_encrypted IS NULL
+    `, { deviceId, keyHash: hashApiKey(apiKey) });
+
+    const key = keys[0];
+    const state = key ? getKeyState(key) : null;
+    if (state !== 'active' && state !== 'grace') {
+      return null;
+    }
+
+    // Only one request gets through, even when several arrive at once
+    const updated = await database.query(`
+      UPDATE Device_API_Keys
+      SET signing_key_encrypted = @signingKey
+      OUTPUT INSERTED.key_id
+      WHERE key_id = @keyId AND signing_key_encrypted IS NULL
+    `, { keyId: key.key_id, signingKey: encryptSigningKey(apiKey) });
+    if (updated.length === 0) {
+      return null;
+    }
+
+    await this.recordUse(key.key_id);
+    return { keyId: key.key_id, state };
+  }
+
+  /**
+   * Check a signed device request against every usable key of the device, so a device that
+   * is still on its previous key keeps working during the grace period
+   * @returns {Promise<Object|null>} - { keyId, state } or null when no usable key matches
+   */
+  static async verifySignature(deviceId, timestamp, nonce, signature) {
+    const keys = await database.query(`
+      SELECT key_id, signing_key_encrypted, status, expires_at, grace_until
+      FROM Device_API_Keys
+      WHERE device_id = @deviceId AND status IN ('active', 'grace') AND signing_key_encrypted IS NOT NULL
+    `, { deviceId });
+
+    const now = new Date();
+    const key = keys.find(candidate => {
+      const state = getKeyState(candidate, now);
+      if (state !== 'active' && state !== 'grace') return false;
+
+      let signingKey;
+      try {
+        signingKey = decryptSecret(candidate.signing_key_encrypted, signingKeyMaterial());
+      } catch (error) {
+        // Encrypted under a different DEVICE_SIGNING_ENCRYPTION_KEY; the device has to re-key
+        console.error(`Unreadable signing key ${candidate.key_id} for device ${deviceId}:`, error.message);
+        return false;
+      }
+      return safeEqual(signDeviceRequest(signingKey, deviceId, timestamp, nonce), String(signature).toLowerCase());
+    });
+
+    if (!key) {
+      return null;
+    }
+
+    await this.recordUse(key.key_id);
+    return { keyId: key.key_id, state: getKeyState(key, now) };
+  }
+
+  static async recordUse(keyId) {
+    await database.query(`
+      UPDATE Device_API_Keys
+      SET usage_count = usage_count + 1, last_used_at = GETDATE()
+      WHERE key_id = @keyId
+    `, { keyId });
+  }
+
+  /**
+   * Remember a request nonce for a device
+   * @param {number} windowSeconds - How long signed timestamps are accepted; older nonces are pruned
+   * @returns {Promise<boolean>} - false when the nonce was already used (replayed request)
+   */
+  static async consumeNonce(deviceId, nonce, windowSeconds) {
+    // Anything older than twice the window can no longer pass the timestamp check
+    await database.query(`
+      DELETE FROM Device_Auth_Nonces
+      WHERE device_id = @deviceId AND used_at < DATEADD(second, -@retainSeconds, GETDATE())
+    `, { deviceId, retainSeconds: windowSeconds * 2 });
+
+    try {
+      const inserted = await database.query(`
+        INSERT INTO Device_Auth_Nonces (device_id, nonce, used_at)
+        OUTPUT INSERTED.nonce
+        SELECT @deviceId, @nonce, GETDATE()
+        WHERE NOT EXISTS (
+          SELECT 1 FROM Device_Auth_Nonces WHERE device_id = @deviceId AND nonce = @nonce
+        )
+      `, { deviceId, nonce });
+      return inserted.length > 0;
+    } catch (error) {
+      // Primary key violation: the same nonce arrived concurrently
+      if (error.number === 2627) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a device's active key, keeping the old one valid for the grace period
+   * @param {string} deviceId
+   * @param {string} apiKey - New plaintext key (only its hash is stored)
+   * @param {Object} options - { userId, reason, graceHours, expiresAt, action, req }
+   * @returns {Promise<Object>} - The new key row and the grace deadline of the old key
+   */
+  static async storeKey(deviceId, apiKey, options = {}) {
+    const { userId = null, reason = null, expiresAt = null, action = 'rotate', req = null } = options;
+    const graceHours = options.graceHours ?? DEFAULT_GRACE_HOURS;
+
+    const superseded = await database.query(`
+      UPDATE Device_API_Keys
+      SET status = CASE WHEN @graceHours > 0 THEN 'grace' ELSE 'revoked' END,
+          grace_until = CASE WHEN @graceHours > 0 THEN DATEADD(hour, @graceHours, GETDATE()) ELSE NULL END,
+          revoked_at = CASE WHEN @graceHours > 0 THEN NULL ELSE GETDATE() END,
+          revoked_by = CASE WHEN @graceHours > 0 THEN NULL ELSE @userId END
+      OUTPUT INSERTED.key_id, INSERTED.grace_until
+      WHERE device_id = @deviceId AND status = 'active'
+    `, { deviceId, graceHours, userId });
+
+    const withSigning = await this.signingColumnExists();
+    const inserted = await database.query(`
+      INSERT INTO Device_API_Keys (device_id, key_prefix, key_hash, ${withSigning ? 'signing_key_encrypted, ' : ''}status, created_by, expires_at)
+      OUTPUT INSERTED.*
+      VALUES (@deviceId, @keyPrefix, @keyHash, ${withSigning ? '@signingKey, ' : ''}'active', @userId, @expiresAt)
+    `, {
+      deviceId,
+      keyPrefix: getKeyPrefix(apiKey),
+      keyHash: hashApiKey(apiKey),
+      ...(withSigning ? { signingKey: encryptSigningKey(apiKey) } : {}),
+      userId,
+      expiresAt: expiresAt ? new Date(expiresAt) : null
+    });
+
+    // The legacy column only keeps the visible prefix so older screens can still show which key is set
+    await database.query(
+      'UPDATE device SET APIKey = @keyPrefix WHERE Device_ID = @deviceId',
+      { deviceId, keyPrefix: getKeyPrefix(apiKey) }
+    );
+
+    const key = inserted[0];
+    const previousGraceUntil = superseded[0]?.grace_until || null;
+    await this.logAction(deviceId, key.key_id, action, {
+      userId,
+      reason: [
+        reason,
+        superseded.length > 0
+          ? (previousGraceUntil ? `previous key valid until ${new Date(previousGraceUntil).toISOString()}` : 'previous key revoked')
+          : null
+      ].filter(Boolean).join('; ') || null,
+      req
+    });
+
+    return { key, previousGraceUntil };
+  }
+
+  /**
+   * Generate a new random key for a device
+   * @returns {Promise<Object>} - { apiKey, key, previousGraceUntil }
+   */
+  static async rotate(deviceId, options = {}) {
+    const apiKey = generateApiKey();
+    const result = await this.storeKey(deviceId, apiKey, { ...options, action: 'rotate' });
+    return { apiKey, ...result };
+  }
+
+  /**
+   * Store an admin-supplied key (e.g. one already flashed onto the device)
+   */
+  static async importKey(deviceId, apiKey, options = {}) {
+    return this.storeKey(deviceId, apiKey, { ...options, action: 'import' });
+  }
+
+  static async revoke(deviceId, keyId, { userId, reason, req } = {}) {
+    const result = await database.query(`
+      UPDATE Device_API_Keys
+      SET status = 'revoked', revoked_at = GETDATE(), revoked_by = @userId
+      OUTPUT INSERTED.*
+      WHERE key_id = @keyId AND device_id = @deviceId AND status <> 'revoked'
+    `, { deviceId, keyId, userId });
+
+    if (result.length > 0) {
+      await this.logAction(deviceId, keyId, 'revoke', { userId, reason, req });
+    }
+    return result[0] || null;
+  }
+
+  static async setExpiry(deviceId, keyId, expiresAt, { userId, reason, req } = {}) {
+    const result = await database.query(`
+      UPDATE Device_API_Keys
+      SET expires_at = @expiresAt
+      OUTPUT INSERTED.*
+      WHERE key_id = @keyId AND device_id = @deviceId AND status <> 'revoked'
+    `, { deviceId, keyId, expiresAt: expiresAt ? new Date(expiresAt) : null });
+
+    if (result.length > 0) {
+      await this.logAction(deviceId, keyId, 'set_expiry', {
+        userId,
+        reason: [reason, expiresAt ? `expires ${new Date(expiresAt).toISOString()}` : 'expiry removed'].filter(Boolean).join('; '),
+        req
+      });
+    }
+    return result[0] || null;
+  }
+
+  static async logAction(deviceId, keyId, action, { userId = null, reason = null, req = null } = {}) {
+    try {
+      await database.query(`
+        INSERT INTO Device_API_Key_Audit (
+          device_id, key_id, action, reason, user_id, timestamp, ip_address, user_agent
+        ) VALUES (
+          @deviceId, @keyId, @action, @reason, @userId, GETDATE(), @ipAddress, @userAgent
+        )
+      `, {
+        deviceId,
+        keyId: keyId || null,
+        action,
+        reason: reason ? String(reason).slice(0, 500) : null,
+        userId,
+        ipAddress: req?.ip || null,
+        userAgent: req?.get('User-Agent') || null
+      });
+    } catch (error) {
+      console.error('Failed to log API key audit:', error);
+      // Don't throw - audit logging failure shouldn't break the main operation
+    }
+  }
+
+  static async getAudit(deviceId, limit = 50) {
+    return database.query(`
+      SELECT TOP (@limit)
+        a.audit_id, a.key_id, a.action, a.reason, a.user_id, a.timestamp, a.ip_address,
+        k.key_prefix, u.user_name
+      FROM Device_API_Key_Audit a
+      LEFT JOIN Device_API_Keys k ON a.key_id = k.key_id
+      LEFT JOIN users u ON a.user_id = u.id
+      WHERE a.device_id = @deviceId
+      ORDER BY a.timestamp DESC, a.audit_id DESC
+    `, { deviceId, limit });
+  }
+}
+
+export default DeviceApiKeyService;
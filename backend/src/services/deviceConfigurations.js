@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import database from '../config/database.js';
+import EffectiveConfigService from './effectiveConfig.js';
+
+/**
+ * Shared device configuration operations used by the admin config routes and by
+ * rollout campaigns: creating a new version, activating it and writing the audit trail.
+ */
+
+// Generate configuration hash for version checking
+export const generateConfigHash = (configData) => {
+  return crypto.createHash('sha256').update(configData).digest('hex');
+};
+
+export const logConfigurationAction = async (configId, action, userId, previousData, newData, changeReason, ipAddress, userAgent) => {
+  try {
+    await database.query(`
+      INSERT INTO Device_Config_Audit (
+        config_id, action, previous_config_data, new_config_data,
+        user_id, timestamp, ip_address, user_agent, change_reason
+      ) VALUES (
+        @configId, @action, @previousData, @newData,
+        @userId, GETDATE(), @ipAddress, @userAgent, @changeReason
+      )
+    `, {
+      configId,
+      action,
+      previousData: previousData || null,
+      newData: newData || null,
+      userId,
+      ipAddress: ipAddress || null,
+      userAgent: userAgent || null,
+      changeReason: changeReason || null
+    });
+  } catch (error) {
+    console.error('Failed to log configuration audit:', error);
+    // Don't throw - audit logging failure shouldn't break the main operation
+  }
+};
+
+/**
+ * Insert the next configuration version for a device
+ * @param {string} deviceId
+ * @param {Object} config - { configName, configData (JSON string), notes, userId, schemaVersion }
+ * @returns {Promise<Object>} - { configId, configVersion, configHash }
+ */
+export async function createConfiguration(deviceId, { configName, configData, notes = null, userId, schemaVersion = '1.0' }) {
+  const configHash = generateConfigHash(configData);
+
+  const versionResult = await database.query(
+    'SELECT ISNULL(MAX(config_version), 0) + 1 as next_version FROM Device_Configurations WHERE device_id = @deviceId',
+    { deviceId }
+  );
+  const configVersion = versionResult[0]?.next_version || 1;
+
+  const result = await database.query(`
+    INSERT INTO Device_Configurations (
+      device_id, config_version, config_name, config_data, config_hash,
+      config_schema_version, is_active, is_deployed, deployment_status,
+      created_by, created_at, notes
+    )
+    OUTPUT INSERTED.config_id
+    VALUES (
+      @deviceId, @configVersion, @configName, @configData, @configHash,
+      @schemaVersion, 0, 0, 'pending',
+      @userId, GETDATE(), @notes
+    )
+  `, {
+    deviceId,
+    configVersion,
+    configName,
+    configData,
+    configHash,
+    schemaVersion,
+    userId,
+    notes
+  });
+
+  return { configId: result[0]?.config_id, configVersion, configHash };
+}
+
+/**
+ * Make a configuration the one the device downloads on its next poll
+ * @returns {Promise<Object|null>} - The previously active config ({ config_id, config_data }) if any
+ */
+export async function activateConfiguration(deviceId, configId, userId) {
+  const currentActiveConfig = await database.query(
+    'SELECT config_id, config_data FROM Device_Configurations WHERE device_id = @deviceId AND is_active = 1',
+    { deviceId }
+  );
+
+  await database.query(
+    'UPDATE Device_Configurations SET is_active = 0 WHERE device_id = @deviceId',
+    { deviceId }
+  );
+
+  await database.query(`
+    UPDATE Device_Configurations
+    SET is_active = 1, activated_at = GETDATE(), activated_by = @userId
+    WHERE config_id = @configId
+  `, { configId, userId });
+
+  await EffectiveConfigService.refreshHashesSafely({ deviceId });
+
+  return currentActiveConfig[0] || null;
+}
+
+/**
+ * Record a pending deployment of a configuration to a device
+ * @returns {Promise<number>} - deployment_id
+ */
+export async function createDeployment(deviceId, configId, userId, deploymentMethod = 'api') {
+  const result = await database.query(`
+    INSERT INTO Device_Config_Deployments (
+      config_id, device_id, deployment_status, initiated_by, initiated_at, deployment_method
+    )
+    OUTPUT INSERTED.deployment_id
+    VALUES (
+      @configId, @deviceId, 'pending', @userId, GETDATE(), @deploymentMethod
+    )
+  `, { configId, deviceId, userId, deploymentMethod });
+
+  return result[0]?.deployment_id;
+}
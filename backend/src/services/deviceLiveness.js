@@ -0,0 +1,330 @@
+import database from '../config/database.js';
+
+export const LIVENESS_STATES = ['online', 'late', 'offline', 'maintenance'];
+
+// Used when a device has no active config (matches the ConfigBuilder default)
+const DEFAULT_INTERVAL_MINUTES = 8;
+// A device is late after missing half a report, offline after missing roughly two
+const LATE_FACTOR = parseFloat(process.env.LIVENESS_LATE_FACTOR) || 1.5;
+const OFFLINE_FACTOR = parseFloat(process.env.LIVENESS_OFFLINE_FACTOR) || 3;
+
+const OFFLINE_ALERT_TYPE = 'device_offline';
+
+/**
+ * Work out a device's liveness state
+ * @param {Date|null} lastSeenAt - Timestamp of the latest telemetry row
+ * @param {number} intervalMinutes - Expected reporting interval
+ * @param {Object} maintenance - { since, until } from Device_Liveness
+ * @param {Date} now
+ * @returns {string} - online | late | offline | maintenance
+ */
+export function computeLivenessState(lastSeenAt, intervalMinutes, maintenance = {}, now = new Date()) {
+  if (maintenance.since && (!maintenance.until || new Date(maintenance.until) > now)) {
+    return 'maintenance';
+  }
+  if (!lastSeenAt) {
+    return 'offline';
+  }
+
+  const silentMinutes = (now - new Date(lastSeenAt)) / 60000;
+  if (silentMinutes <= intervalMinutes * LATE_FACTOR) return 'online';
+  if (silentMinutes <= intervalMinutes * OFFLINE_FACTOR) return 'late';
+  return 'offline';
+}
+
+const latestOf = (...dates) => dates
+  .filter(Boolean)
+  .map(date => new Date(date))
+  .sort((a, b) => b - a)[0] || null;
+
+class DeviceLivenessService {
+  static timer = null;
+  static running = false;
+
+  /**
+   * Check which of the optional tables used for liveness exist
+   * @returns {Promise<Object>} - { liveness, configurations }
+   */
+  static async getTableStatus() {
+    return {
+      liveness: await database.tablesExist(['Device_Liveness', 'Device_Liveness_History']),
+      configurations: await database.tablesExist(['Device_Configurations'])
+    };
+  }
+
+  /**
+   * Compute the current liveness of devices from their latest telemetry
+   * @param {Object} scope - { deviceId, dataFilter }: a single device, and/or the devices a request's
+   *   client filter allows; all devices when neither is given. Listings pass the filter rather than
+   *   their device IDs, which would run into SQL Server's 2,100-parameter limit on large fleets.
+   * @returns {Promise<Map<string, Object>>} - Device ID -> liveness
+   */
+  static async getLiveness({ deviceId = null, dataFilter = null } = {}) {
+    const tableStatus = await this.getTableStatus();
+    const conditions = [];
+    let params = {};
+    if (deviceId) {
+      conditions.push('d.Device_ID = @deviceId');
+      params.deviceId = deviceId;
+    }
+    if (dataFilter && !dataFilter.isAdmin) {
+      const clientFilter = dataFilter.buildClientFilter('d');
+      conditions.push(clientFilter.whereClause);
+      params = { ...params, ...clientFilter.params };
+    }
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const rows = await database.query(`
+      SELECT
+        d.Device_ID,
+        d.client_id,
+        (SELECT MAX(i.CreatedAt) FROM IoT_Data_New i WHERE i.Device_ID = d.Device_ID) as iot_last_seen,
+        (SELECT MAX(m.CreatedAt) FROM IoT_Data_Sick_Test m WHERE m.Device_ID = d.Device_ID) as motor_last_seen,
+        ${tableStatus.configurations ? 'dc.config_data' : 'NULL as config_data'},
+        ${tableStatus.liveness
+          ? 'l.state, l.state_changed_at, l.maintenance_since, l.maintenance_until, l.maintenance_reason'
+          : 'NULL as state, NULL as state_changed_at, NULL as maintenance_since, NULL as maintenance_until, NULL as maintenance_reason'}
+      FROM device d
+      ${tableStatus.configurations ? 'LEFT JOIN Device_Configurations dc ON dc.device_id = d.Device_ID AND dc.is_active = 1' : ''}
+      ${tableStatus.liveness ? 'LEFT JOIN Device_Liveness l ON l.device_id = d.Device_ID' : ''}
+      ${whereClause}
+    `, params);
+
+    const now = new Date();
+    const liveness = new Map();
+
+    rows.forEach(row => {
+      let intervalMinutes = DEFAULT_INTERVAL_MINUTES;
+      try {
+        const configured = Number(JSON.parse(row.config_data || '{}').device_settings?.telemetry_interval_minutes);
+        if (configured > 0) intervalMinutes = configured;
+      } catch (error) {
+        // Malformed config JSON - keep the default interval
+      }
+
+      const lastSeenAt = latestOf(row.iot_last_seen, row.motor_last_seen);
+      const maintenance = { since: row.maintenance_since, until: row.maintenance_until };
+      const state = computeLivenessState(lastSeenAt, intervalMinutes, maintenance, now);
+
+      liveness.set(row.Device_ID, {
+        deviceId: row.Device_ID,
+        clientId: row.client_id,
+        state,
+        lastSeenAt,
+        expectedIntervalMinutes: intervalMinutes,
+        lateAfterMinutes: intervalMinutes * LATE_FACTOR,
+        offlineAfterMinutes: intervalMinutes * OFFLINE_FACTOR,
+        // Only meaningful when the persisted state agrees with the computed one
+        stateChangedAt: row.state === state ? row.state_changed_at : null,
+        previousState: row.state,
+        maintenanceSince: state === 'maintenance' ? row.maintenance_since : null,
+        maintenanceUntil: state === 'maintenance' ? row.maintenance_until : null,
+        maintenanceReason: state === 'maintenance' ? row.maintenance_reason : null,
+        maintenanceExpired: Boolean(row.maintenance_since) && state !== 'maintenance'
+      });
+    });
+
+    return liveness;
+  }
+
+  /**
+   * getLiveness for listings, where liveness is decoration and a failure shouldn't take the listing down
+   */
+  static async getLivenessSafely(scope = {}) {
+    try {
+      return await this.getLiveness(scope);
+    } catch (error) {
+      console.error('Error computing device liveness:', error.message);
+      return new Map();
+    }
+  }
+
+  /**
+   * Start the periodic sweep that records transitions and raises offline alerts
+   * @param {number} intervalMs - Sweep interval
+   */
+  static start(intervalMs) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.refresh().catch(error => console.error('Liveness sweep failed:', error));
+    }, intervalMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Persist state changes, write transition history and raise / resolve offline alerts
+   * @returns {Promise<Object|null>} - { checked, transitions } or null when skipped
+   */
+  static async refresh() {
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      const tableStatus = await this.getTableStatus();
+      if (!tableStatus.liveness) return null;
+
+      const liveness = await this.getLiveness();
+      let transitions = 0;
+
+      for (const device of liveness.values()) {
+        if (device.maintenanceExpired) {
+          await database.query(`
+            UPDATE Device_Liveness
+            SET maintenance_since = NULL, maintenance_until = NULL, maintenance_reason = NULL, updated_at = GETDATE()
+            WHERE device_id = @deviceId
+          `, { deviceId: device.deviceId });
+        }
+
+        if (device.previousState === device.state) continue;
+
+        await this.recordTransition(
+          device.deviceId,
+          device.previousState,
+          device.state,
+          device.lastSeenAt,
+          device.maintenanceExpired ? 'Maintenance window ended' : null
+        );
+        transitions++;
+      }
+
+      return { checked: liveness.size, transitions };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Store a state change for a device and keep its offline alert in step
+   */
+  static async recordTransition(deviceId, fromState, toState, lastSeenAt, reason = null, userId = null) {
+    await database.query(`
+      MERGE Device_Liveness AS target
+      USING (SELECT @deviceId AS device_id) AS source
+      ON target.device_id = source.device_id
+      WHEN MATCHED THEN
+        UPDATE SET state = @toState, state_changed_at = GETDATE(), last_seen_at = @lastSeenAt, updated_at = GETDATE()
+      WHEN NOT MATCHED THEN
+        INSERT (device_id, state, state_changed_at, last_seen_at, updated_at)
+        VALUES (@deviceId, @toState, GETDATE(), @lastSeenAt, GETDATE());
+    `, { deviceId, toState, lastSeenAt });
+
+    await database.query(`
+      INSERT INTO Device_Liveness_History (device_id, from_state, to_state, last_seen_at, reason, changed_by, changed_at)
+      VALUES (@deviceId, @fromState, @toState, @lastSeenAt, @reason, @userId, GETDATE())
+    `, { deviceId, fromState, toState, lastSeenAt, reason, userId });
+
+    try {
+      if (toState === 'offline' && fromState) {
+        await this.raiseOfflineAlert(deviceId, lastSeenAt);
+      } else if (fromState === 'offline') {
+        await this.resolveOfflineAlert(deviceId, toState);
+      }
+    } catch (error) {
+      console.error(`Error updating offline alert for ${deviceId}:`, error.message);
+    }
+  }
+
+  static async raiseOfflineAlert(deviceId, lastSeenAt) {
+    const open = await database.query(`
+      SELECT TOP 1 id FROM alerts
+      WHERE device_id = @deviceId AND alert_type = @type AND status IN ('active', 'acknowledged')
+    `, { deviceId, type: OFFLINE_ALERT_TYPE });
+    if (open.length > 0) return;
+
+    await database.query(`
+      INSERT INTO alerts (device_id, alert_type, severity, status, title, description, created_at)
+      VALUES (@deviceId, @type, 'warning', 'active', 'Device offline', @description, GETDATE())
+    `, {
+      deviceId,
+      type: OFFLINE_ALERT_TYPE,
+      description: lastSeenAt
+        ? `No telemetry received since ${new Date(lastSeenAt).toISOString()}`
+        : 'No telemetry has been received from this device'
+    });
+  }
+
+  static async resolveOfflineAlert(deviceId, toState) {
+    await database.query(`
+      UPDATE alerts
+      SET status = 'resolved',
+          resolved_at = GETDATE(),
+          resolution = @resolution,
+          updated_at = GETDATE()
+      WHERE device_id = @deviceId AND alert_type = @type AND status IN ('active', 'acknowledged')
+    `, {
+      deviceId,
+      type: OFFLINE_ALERT_TYPE,
+      resolution: toState === 'maintenance'
+        ? 'Auto-resolved: device placed in maintenance'
+        : 'Auto-resolved: device reporting again'
+    });
+  }
+
+  /**
+   * Put a device into maintenance, or take it out of maintenance when enabled is false
+   */
+  static async setMaintenance(deviceId, { until = null, reason = null, userId = null, enabled = true }) {
+    const current = (await this.getLiveness({ deviceId })).get(deviceId);
+    if (!current) return null;
+
+    await database.query(`
+      MERGE Device_Liveness AS target
+      USING (SELECT @deviceId AS device_id) AS source
+      ON target.device_id = source.device_id
+      WHEN MATCHED THEN
+        UPDATE SET maintenance_since = @since, maintenance_until = @until, maintenance_reason = @reason, updated_at = GETDATE()
+      WHEN NOT MATCHED THEN
+        INSERT (device_id, state, state_changed_at, last_seen_at, maintenance_since, maintenance_until, maintenance_reason, updated_at)
+        VALUES (@deviceId, @state, GETDATE(), @lastSeenAt, @since, @until, @reason, GETDATE());
+    `, {
+      deviceId,
+      state: current.state,
+      lastSeenAt: current.lastSeenAt,
+      since: enabled ? new Date() : null,
+      until: enabled ? until : null,
+      reason: enabled ? reason : null
+    });
+
+    const updated = (await this.getLiveness({ deviceId })).get(deviceId);
+    if (updated.state !== current.previousState) {
+      await this.recordTransition(
+        deviceId,
+        current.previousState,
+        updated.state,
+        updated.lastSeenAt,
+        enabled ? (reason || 'Maintenance started') : 'Maintenance ended',
+        userId
+      );
+    }
+
+    return (await this.getLiveness({ deviceId })).get(deviceId);
+  }
+
+  /**
+   * Transition history for a device, newest first
+   */
+  static async getHistory(deviceId, limit = 50) {
+    return database.query(`
+      SELECT TOP (@limit) id, device_id, from_state, to_state, last_seen_at, reason, changed_by, changed_at
+      FROM Device_Liveness_History
+      WHERE device_id = @deviceId
+      ORDER BY changed_at DESC, id DESC
+    `, { deviceId, limit });
+  }
+}
+
+/**
+ * Shape a liveness record for API responses
+ */
+export const toLivenessResponse = (liveness) => liveness ? {
+  state: liveness.state,
+  lastSeenAt: liveness.lastSeenAt,
+  expectedIntervalMinutes: liveness.expectedIntervalMinutes,
+  lateAfterMinutes: liveness.lateAfterMinutes,
+  offlineAfterMinutes: liveness.offlineAfterMinutes,
+  stateChangedAt: liveness.stateChangedAt,
+  maintenanceUntil: liveness.maintenanceUntil,
+  maintenanceReason: liveness.maintenanceReason
+} : null;
+
+export default DeviceLivenessService;
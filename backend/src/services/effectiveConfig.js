@@ -0,0 +1,241 @@
+import crypto from 'crypto';
+import database from '../config/database.js';
+import { mergeConfigLayers } from '../shared/effectiveConfig.js';
+
+/**
+ * Effective device configuration: universal communication settings, then client overrides,
+ * then the device's active configuration (see shared/effectiveConfig.js for the merge rules).
+ * The hash of the merged result is stored on the active Device_Configurations row as
+ * effective_hash whenever a layer changes, and is what devices see on /device/version.
+ * Without create_effective_config_tables.sql only the device layer applies.
+ */
+
+// The universal block only carries communication settings, so it is layered under that key
+const UNIVERSAL_KEY = 'communication_settings';
+
+const parseJson = (json, label) => {
+  if (!json) return null;
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    console.error(`Failed to parse ${label}:`, error.message);
+    return null;
+  }
+};
+
+class EffectiveConfigService {
+  static async tablesExist() {
+    return database.tablesExist(['Client_Config_Overrides'], ['Device_Configurations.effective_hash']);
+  }
+
+  /**
+   * SQL expression for the hash a device should be running, for a Device_Configurations alias
+   */
+  static async expectedHashSql(alias = 'dc') {
+    return await this.tablesExist()
+      ? `ISNULL(${alias}.effective_hash, ${alias}.config_hash)`
+      : `${alias}.config_hash`;
+  }
+
+  // Device rows with their active config and every layer above it
+  static async loadLayers(where, params) {
+    const layered = await this.tablesExist();
+
+    return database.query(`
+      SELECT
+        d.Device_ID as device_id,
+        d.client_id,
+        dc.config_id,
+        dc.config_version,
+        dc.config_name,
+        dc.config_data,
+        dc.config_hash,
+        ${layered ? 'dc.effective_hash' : 'NULL'} as effective_hash,
+        ${layered ? 'o.overrides_json' : 'NULL'} as overrides_json,
+        ${layered ? 'o.updated_at' : 'NULL'} as overrides_updated_at,
+        ${layered ? 'u.config_id' : 'NULL'} as universal_config_id,
+        ${layered ? 'u.communication_settings' : 'NULL'} as universal_settings,
+        ${layered ? 'u.config_hash' : 'NULL'} as universal_hash
+      FROM device d
+      LEFT JOIN Device_Configurations dc ON dc.device_id = d.Device_ID AND dc.is_active = 1
+      ${layered ? `
+      LEFT JOIN Client_Config_Overrides o ON o.client_id = d.client_id
+      OUTER APPLY (
+        SELECT TOP 1 config_id, communication_settings, config_hash
+        FROM Universal_Communication_Config
+        WHERE is_active = 1
+        ORDER BY config_id DESC
+      ) u` : ''}
+      WHERE ${where}
+    `, params);
+  }
+
+  /**
+   * Merge the layers of one loaded row
+   * @returns {Object} - { deviceId, data, sources, hash, storedHash, layers: { universal, client, device } }
+   */
+  static resolveRow(row) {
+    const universalSettings = parseJson(row.universal_settings, `universal settings ${row.universal_config_id}`);
+    const clientOverrides = parseJson(row.overrides_json, `overrides of client ${row.client_id}`);
+    const deviceData = parseJson(row.config_data, `config ${row.config_id}`);
+
+    const { data, sources } = mergeConfigLayers([
+      { layer: 'universal', data: universalSettings ? { [UNIVERSAL_KEY]: universalSettings } : null },
+      { layer: 'client', data: clientOverrides },
+      { layer: 'device', data: deviceData }
+    ]);
+
+    // A device config with nothing layered over it keeps its own hash, so existing devices stay in sync
+    let hash = null;
+    if (row.config_id) {
+      hash = universalSettings || clientOverrides
+        ? crypto.createHash('sha256').update(JSON.stringify(data)).digest('hex')
+        : row.config_hash;
+    }
+
+    return {
+      deviceId: row.device_id,
+      data,
+      sources,
+      hash,
+      storedHash: row.effective_hash,
+      layers: {
+        universal: universalSettings ? { configId: row.universal_config_id, hash: row.universal_hash } : null,
+        client: clientOverrides ? { clientId: row.client_id, updatedAt: row.overrides_updated_at } : null,
+        device: row.config_id ? {
+          configId: row.config_id,
+          configVersion: row.config_version,
+          configName: row.config_name,
+          configHash: row.config_hash
+        } : null
+      }
+    };
+  }
+
+  /**
+   * Effective configuration for one device
+   * @returns {Promise<Object|null>} - null when the device doesn't exist
+   */
+  static async resolve(deviceId) {
+    const rows = await this.loadLayers('d.Device_ID = @deviceId', { deviceId });
+    return rows[0] ? this.resolveRow(rows[0]) : null;
+  }
+
+  /**
+   * Store a resolved hash on the active config row when it changed
+   */
+  static async storeHash(resolved) {
+    if (!resolved?.layers.device || resolved.hash === resolved.storedHash || !await this.tablesExist()) {
+      return false;
+    }
+
+    await database.query(
+      'UPDATE Device_Configurations SET effective_hash = @hash WHERE config_id = @configId',
+      { hash: resolved.hash, configId: resolved.layers.device.configId }
+    );
+    return true;
+  }
+
+  /**
+   * Recompute stored hashes after a layer changed
+   * @param {Object} scope - { deviceId } or { clientId }; empty for every device (universal changes)
+   * @returns {Promise<number>} - Number of active configs whose hash changed
+   */
+  static async refreshHashes({ deviceId, clientId } = {}) {
+    if (!await this.tablesExist()) return 0;
+
+    let where = 'dc.config_id IS NOT NULL';
+    const params = {};
+    if (deviceId !== undefined) {
+      where += ' AND d.Device_ID = @deviceId';
+      params.deviceId = deviceId;
+    } else if (clientId !== undefined) {
+      where += ' AND d.client_id = @clientId';
+      params.clientId = clientId;
+    }
+
+    let updated = 0;
+    for (const row of await this.loadLayers(where, params)) {
+      if (await this.storeHash(this.resolveRow(row))) {
+        updated++;
+      }
+    }
+    return updated;
+  }
+
+  // Layer changes are saved by the time this runs; a stale hash is corrected on the device's next poll
+  static async refreshHashesSafely(scope) {
+    try {
+      return await this.refreshHashes(scope);
+    } catch (error) {
+      console.error('Error refreshing effective config hashes:', error.message);
+      return 0;
+    }
+  }
+
+  /**
+   * Effective configuration of each configured device of a client, now and with other overrides
+   * @param {Object|null} overrides - The client's overrides after the change; null when removed
+   * @returns {Promise<Object[]>} - [{ before, after }] as returned by resolveRow
+   */
+  static async previewClientOverrides(clientId, overrides) {
+    const rows = await this.loadLayers('dc.config_id IS NOT NULL AND d.client_id = @clientId', { clientId });
+
+    return rows.map(row => ({
+      before: this.resolveRow(row),
+      after: this.resolveRow({ ...row, overrides_json: overrides ? JSON.stringify(overrides) : null })
+    }));
+  }
+
+  static async getClientOverrides(clientId) {
+    const rows = await database.query(`
+      SELECT o.*, u.user_name as updated_by_name
+      FROM Client_Config_Overrides o
+      LEFT JOIN users u ON o.updated_by = u.id
+      WHERE o.client_id = @clientId
+    `, { clientId });
+
+    const row = rows[0];
+    return row ? {
+      clientId: row.client_id,
+      overrides: JSON.parse(row.overrides_json),
+      notes: row.notes,
+      updatedBy: row.updated_by,
+      updatedByName: row.updated_by_name || null,
+      updatedAt: row.updated_at
+    } : null;
+  }
+
+  static async saveClientOverrides(clientId, { overrides, notes = null }, userId) {
+    await database.query(`
+      MERGE Client_Config_Overrides AS target
+      USING (SELECT @clientId as client_id) AS source
+      ON target.client_id = source.client_id
+      WHEN MATCHED THEN UPDATE SET
+        overrides_json = @overridesJson,
+        notes = @notes,
+        updated_by = @userId,
+        updated_at = GETDATE()
+      WHEN NOT MATCHED THEN
+        INSERT (client_id, overrides_json, notes, updated_by, updated_at)
+        VALUES (@clientId, @overridesJson, @notes, @userId, GETDATE());
+    `, { clientId, overridesJson: JSON.stringify(overrides), notes, userId });
+
+    await this.refreshHashesSafely({ clientId });
+    return this.getClientOverrides(clientId);
+  }
+
+  static async deleteClientOverrides(clientId) {
+    const deleted = await database.query(
+      'DELETE FROM Client_Config_Overrides OUTPUT DELETED.client_id WHERE client_id = @clientId',
+      { clientId }
+    );
+
+    if (deleted.length > 0) {
+      await this.refreshHashesSafely({ clientId });
+    }
+    return deleted.length > 0;
+  }
+}
+
+export default EffectiveConfigService;
@@ -0,0 +1,190 @@
+import database from '../config/database.js';
+
+/**
+ * Failed-login counters per account and per IP address.
+ * Past the free attempts every further attempt must wait a doubling delay (1s, 2s, 4s, ... up to
+ * LOGIN_MAX_DELAY_SECONDS), and reaching the lockout threshold locks the key for
+ * LOGIN_LOCKOUT_MINUTES. Emails without an account are counted too, so the responses don't reveal
+ * which accounts exist. Attempts rejected by the throttle don't count as failures.
+ */
+
+const WINDOW_MINUTES = parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES) || 15;
+const MAX_DELAY_SECONDS = parseInt(process.env.LOGIN_MAX_DELAY_SECONDS) || 30;
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES) || 15;
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
+// A shared office address sees everyone's typos, so it gets more room than a single account
+const SCOPES = {
+  account: {
+    freeAttempts: parseInt(process.env.LOGIN_FREE_ATTEMPTS) || 3,
+    lockoutThreshold: parseInt(process.env.LOGIN_ACCOUNT_LOCKOUT_THRESHOLD) || 10
+  },
+  ip: {
+    freeAttempts: parseInt(process.env.LOGIN_IP_FREE_ATTEMPTS) || 10,
+    lockoutThreshold: parseInt(process.env.LOGIN_IP_LOCKOUT_THRESHOLD) || 50
+  }
+};
+
+const scopeOf = (throttleKey) => throttleKey.split(':')[0];
+
+const delayFor = (scope, failedCount) => {
+  const extra = failedCount - SCOPES[scope].freeAttempts;
+  return extra > 0 ? Math.min(2 ** (extra - 1), MAX_DELAY_SECONDS) : 0;
+};
+
+export const toLockoutResponse = (row) => ({
+  throttleKey: row.throttle_key,
+  scope: scopeOf(row.throttle_key),
+  subject: row.throttle_key.slice(row.throttle_key.indexOf(':') + 1),
+  lastFailedAt: row.last_failed_at,
+  lockedUntil: row.locked_until
+});
+
+class LoginThrottleService {
+  static lastPurge = 0;
+
+  static async tablesExist() {
+    return database.tablesExist(['Login_Throttle']);
+  }
+
+  /**
+   * Throttle keys for a login attempt
+   * @returns {string[]} - [accountKey, ipKey]
+   */
+  static keysFor(email, req) {
+    const ipAddress = req.ip || req.socket?.remoteAddress || 'unknown';
+    return [`account:${String(email).toLowerCase()}`, `ip:${ipAddress}`];
+  }
+
+  /**
+   * Whether an attempt may go ahead
+   * @returns {Promise<Object|null>} - null when allowed, otherwise { scope, locked, retryAfter } where
+   *   retryAfter is in seconds
+   */
+  static async check(keys) {
+    const rows = await database.query(`
+      SELECT
+        throttle_key,
+        failed_count,
+        CASE WHEN locked_until > GETUTCDATE()
+          THEN DATEDIFF(SECOND, GETUTCDATE(), locked_until) ELSE 0 END as lock_remaining,
+        DATEDIFF(SECOND, last_failed_at, GETUTCDATE()) as seconds_since_failure,
+        CASE WHEN first_failed_at > DATEADD(MINUTE, -@windowMinutes, GETUTCDATE()) THEN 1 ELSE 0 END as in_window
+      FROM Login_Throttle
+      WHERE throttle_key IN (@accountKey, @ipKey)
+    `, { accountKey: keys[0], ipKey: keys[1], windowMinutes: WINDOW_MINUTES });
+
+    let blocked = null;
+    for (const row of rows) {
+      const scope = scopeOf(row.throttle_key);
+      let result = null;
+
+      if (row.lock_remaining > 0) {
+        result = { scope, locked: true, retryAfter: row.lock_remaining };
+      } else if (row.in_window) {
+        const wait = delayFor(scope, row.failed_count) - row.seconds_since_failure;
+        if (wait > 0) {
+          result = { scope, locked: false, retryAfter: wait };
+        }
+      }
+
+      if (result && (!blocked || result.retryAfter > blocked.retryAfter)) {
+        blocked = result;
+      }
+    }
+    return blocked;
+  }
+
+  /**
+   * Count a failed attempt against each key, locking the ones that reach their threshold
+   * @returns {Promise<Object[]>} - Keys locked by this failure: [{ throttleKey, scope, failedCount }]
+   */
+  static async recordFailure(keys) {
+    await this.purgeStale();
+
+    const locked = [];
+    for (const throttleKey of keys) {
+      const scope = scopeOf(throttleKey);
+
+      // Counting restarts once the window has passed without a lockout
+      const rows = await database.query(`
+        MERGE Login_Throttle WITH (HOLDLOCK) AS t
+        USING (SELECT @throttleKey AS throttle_key) AS s
+        ON t.throttle_key = s.throttle_key
+        WHEN MATCHED THEN UPDATE SET
+          failed_count = CASE WHEN t.first_failed_at <= DATEADD(MINUTE, -@windowMinutes, GETUTCDATE())
+            THEN 1 ELSE t.failed_count + 1 END,
+          first_failed_at = CASE WHEN t.first_failed_at <= DATEADD(MINUTE, -@windowMinutes, GETUTCDATE())
+            THEN GETUTCDATE() ELSE t.first_failed_at END,
+          last_failed_at = GETUTCDATE()
+        WHEN NOT MATCHED THEN
+          INSERT (throttle_key, failed_count, first_failed_at, last_failed_at)
+          VALUES (@throttleKey, 1, GETUTCDATE(), GETUTCDATE())
+        OUTPUT INSERTED.failed_count;
+      `, { throttleKey, windowMinutes: WINDOW_MINUTES });
+
+      const failedCount = rows[0].failed_count;
+      if (failedCount >= SCOPES[scope].lockoutThreshold) {
+        // The count starts over after the lockout, so the free attempts and delays apply again
+        await database.query(`
+          UPDATE Login_Throttle
+          SET locked_until = DATEADD(MINUTE, @lockoutMinutes, GETUTCDATE()),
+              failed_count = 0,
+              first_failed_at = GETUTCDATE()
+          WHERE throttle_key = @throttleKey
+        `, { throttleKey, lockoutMinutes: LOCKOUT_MINUTES });
+        locked.push({ throttleKey, scope, failedCount });
+      }
+    }
+    return locked;
+  }
+
+  // A successful login clears the account's counter; the address keeps its record
+  static async recordSuccess(keys) {
+    await database.query(
+      'DELETE FROM Login_Throttle WHERE throttle_key = @accountKey',
+      { accountKey: keys[0] }
+    );
+  }
+
+  static async listLockouts() {
+    const rows = await database.query(`
+      SELECT throttle_key, last_failed_at, locked_until
+      FROM Login_Throttle
+      WHERE locked_until > GETUTCDATE()
+      ORDER BY locked_until DESC
+    `);
+    return rows.map(toLockoutResponse);
+  }
+
+  /**
+   * Lift a lockout early
+   * @returns {Promise<boolean>} - false when the key wasn't locked
+   */
+  static async unlock(throttleKey) {
+    const rows = await database.query(`
+      DELETE FROM Login_Throttle
+      OUTPUT DELETED.throttle_key
+      WHERE throttle_key = @throttleKey AND locked_until > GETUTCDATE()
+    `, { throttleKey });
+    return rows.length > 0;
+  }
+
+  // Forget counters that can no longer delay or lock anything
+  static async purgeStale() {
+    if (Date.now() - this.lastPurge < PURGE_INTERVAL_MS) return;
+    this.lastPurge = Date.now();
+
+    try {
+      await database.query(`
+        DELETE FROM Login_Throttle
+        WHERE (locked_until IS NULL OR locked_until <= GETUTCDATE())
+          AND last_failed_at <= DATEADD(MINUTE, -@windowMinutes, GETUTCDATE())
+      `, { windowMinutes: WINDOW_MINUTES });
+    } catch (error) {
+      console.error('Error purging login throttle counters:', error);
+    }
+  }
+}
+
+export default LoginThrottleService;
@@ -0,0 +1,73 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+
+/**
+ * Outgoing mail (password resets and alert notifications) through a pluggable transport.
+ * MAIL_TRANSPORT picks one of the registered transports:
+ *   smtp - nodemailer with the SMTP_* settings (notification_sandbox.js is a local stand-in)
+ *   file - writes each message as JSON to MAIL_OUTBOX_DIR, for development without any mail server
+ * smtp is the default; file has to be chosen explicitly since the messages carry live reset links.
+ * Other transports can be added with registerMailTransport; each one resolves with
+ * { transport, messageId, response } (response being the server's reply, when there is one) or throws.
+ */
+
+const MAIL_FROM = process.env.MAIL_FROM || process.env.SMTP_FROM || 'IoT Dashboard <no-reply@example.com>';
+const OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || 'mail_outbox';
+const REQUEST_TIMEOUT_MS = parseInt(process.env.NOTIFICATION_TIMEOUT_MS) || 10000;
+
+let smtpTransporter = null;
+
+const transports = {
+  async smtp(message) {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP is not configured (set SMTP_HOST)');
+    }
+    if (!smtpTransporter) {
+      smtpTransporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+          : undefined,
+        connectionTimeout: REQUEST_TIMEOUT_MS,
+        socketTimeout: REQUEST_TIMEOUT_MS
+      });
+    }
+
+    const info = await smtpTransporter.sendMail(message);
+    return { transport: 'smtp', messageId: info.messageId, response: info.response };
+  },
+
+  async file(message) {
+    const messageId = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+    const file = path.resolve(OUTBOX_DIR, `${messageId}.json`);
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify({ ...message, date: new Date().toISOString() }, null, 2));
+    console.log(`Mail to ${message.to} written to ${file}`);
+    return { transport: 'file', messageId };
+  }
+};
+
+export const registerMailTransport = (name, send) => {
+  transports[name] = send;
+};
+
+const getTransportName = () => process.env.MAIL_TRANSPORT || 'smtp';
+
+/**
+ * Send a message through the configured transport
+ * @param {Object} message - { to, subject, text, html, from }; from defaults to MAIL_FROM
+ */
+export async function sendMail({ to, subject, text, html, from }) {
+  const name = getTransportName();
+  const send = transports[name];
+  if (!send) {
+    throw new Error(`Unknown mail transport: ${name}`);
+  }
+
+  return send({ from: from || MAIL_FROM, to, subject, text, html });
+}
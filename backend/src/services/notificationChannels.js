@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import { sendMail } from './mailTransport.js';
+
+/**
+ * Notification channel senders: SMTP email, generic HTTP webhook and Slack-compatible webhook.
+ * Every sender resolves with { responseCode } on success and throws an Error (optionally
+ * carrying responseCode) on failure so the dispatcher can log the attempt either way.
+ * Email goes through the shared mail transport (see mailTransport.js), so the SMTP settings come
+ * from the environment and a local stand-in can be used in development (notification_sandbox.js).
+ */
+
+export const CHANNEL_TYPES = ['email', 'webhook', 'slack'];
+
+const REQUEST_TIMEOUT_MS = parseInt(process.env.NOTIFICATION_TIMEOUT_MS) || 10000;
+
+const SEVERITY_COLORS = {
+  critical: '#dc2626',
+  warning: '#f59e0b',
+  info: '#3b82f6'
+};
+
+const isHttpUrl = (value) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validate a channel's config JSON for its type
+ * @param {string} type - Channel type
+ * @param {Object} config - Parsed config
+ * @returns {string[]} - Validation errors
+ */
+export function validateChannelConfig(type, config) {
+  const errors = [];
+
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return ['config must be a JSON object'];
+  }
+
+  if (type === 'email') {
+    if (config.to !== undefined && (!Array.isArray(config.to) || config.to.some(address => typeof address !== 'string' || !address.includes('@')))) {
+      errors.push('config.to must be a list of email addresses');
+    }
+  } else {
+    if (!isHttpUrl(config.url)) {
+      errors.push('config.url must be an http(s) URL');
+    }
+    if (config.headers !== undefined && (typeof config.headers !== 'object' || Array.isArray(config.headers))) {
+      errors.push('config.headers must be an object');
+    }
+    if (config.secret !== undefined && typeof config.secret !== 'string') {
+      errors.push('config.secret must be a string');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Hide secrets before returning a channel config to the client
+ */
+export function redactChannelConfig(config) {
+  const redacted = { ...config };
+  if (redacted.secret) redacted.secret = '********';
+  if (redacted.headers) {
+    redacted.headers = Object.fromEntries(Object.keys(redacted.headers).map(name => [name, '********']));
+  }
+  return redacted;
+}
+
+/**
+ * Build the subject and plain-text body for a message covering one or more alerts
+ * @param {Object} message - { kind, alerts }
+ */
+export function formatMessage({ kind, alerts }) {
+  const lines = alerts.map(alert =>
+    `[${alert.severity.toUpperCase()}] ${alert.deviceId}: ${alert.title}` +
+    (alert.description ? ` - ${alert.description}` : '') +
+    ` (${new Date(alert.createdAt).toISOString()})`
+  );
+
+  if (kind === 'digest') {
+    return {
+      subject: `Alert digest: ${alerts.length} alert${alerts.length === 1 ? '' : 's'}`,
+      text: lines.length > 0 ? lines.join('\n') : 'No alerts.'
+    };
+  }
+
+  const alert = alerts[0];
+  return {
+    subject: `${kind === 'test' ? '[TEST] ' : ''}[${alert.severity.toUpperCase()}] ${alert.deviceId}: ${alert.title}`,
+    text: lines[0]
+  };
+}
+
+async function postJson(url, body, headers = {}) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    const error = new Error(`HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    error.responseCode = String(response.status);
+    throw error;
+  }
+  return { responseCode: String(response.status) };
+}
+
+const senders = {
+  async email(config, message, recipient) {
+    const to = [recipient, ...(config.to || [])].filter(Boolean);
+    if (to.length === 0) {
+      throw new Error('No email recipient');
+    }
+
+    const { subject, text } = formatMessage(message);
+    const info = await sendMail({
+      from: config.from || process.env.SMTP_FROM,
+      to: to.join(', '),
+      subject,
+      text
+    });
+    return { responseCode: (info.response || '').slice(0, 50) || 'sent' };
+  },
+
+  async webhook(config, message) {
+    const payload = {
+      event: message.kind === 'digest' ? 'alert.digest' : message.kind === 'test' ? 'alert.test' : 'alert.raised',
+      sentAt: new Date().toISOString(),
+      alerts: message.alerts
+    };
+    const body = JSON.stringify(payload);
+    const headers = { ...(config.headers || {}) };
+    if (config.secret) {
+      // Receivers verify the HMAC of the raw request body with the shared secret
+      const signature = crypto.createHmac('sha256', config.secret).update(body).digest('hex');
+      headers['X-Signature-SHA256'] = `sha256=${signature}`;
+    }
+    return postJson(config.url, body, headers);
+  },
+
+  async slack(config, message) {
+    const { subject } = formatMessage(message);
+    return postJson(config.url, JSON.stringify({
+      text: subject,
+      ...(config.channel ? { channel: config.channel } : {}),
+      ...(config.username ? { username: config.username } : {}),
+      attachments: message.alerts.map(alert => ({
+        color: SEVERITY_COLORS[alert.severity] || SEVERITY_COLORS.info,
+        title: `${alert.deviceId}: ${alert.title}`,
+        text: alert.description || '',
+        fields: [
+          { title: 'Severity', value: alert.severity, short: true },
+          { title: 'Type', value: alert.alertType, short: true }
+        ],
+        ts: Math.floor(new Date(alert.createdAt).getTime() / 1000)
+      }))
+    }), config.headers);
+  }
+};
+
+/**
+ * Send a message over a channel
+ * @param {Object} channel - { type, config }
+ * @param {Object} message - { kind, alerts }
+ * @param {string|null} recipient - Email address for email channels
+ * @returns {Promise<Object>} - { responseCode }
+ */
+export async function sendToChannel(channel, message, recipient = null) {
+  const sender = senders[channel.type];
+  if (!sender) {
+    throw new Error(`Unsupported channel type: ${channel.type}`);
+  }
+  return sender(channel.config, message, recipient);
+}
@@ -0,0 +1,516 @@
+import database from '../config/database.js';
+import { sendToChannel } from './notificationChannels.js';
+
+export const DELIVERY_MODES = ['immediate', 'digest'];
+export const ALERT_SEVERITIES = ['info', 'warning', 'critical'];
+
+const MAX_ATTEMPTS = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS) || 5;
+// Minutes to wait before each retry; the last value repeats
+const RETRY_BACKOFF_MINUTES = [1, 5, 15, 60];
+const FAN_OUT_BATCH = 500;
+const SEND_BATCH = 100;
+
+const DEFAULT_PREFERENCES = {
+  timezone: 'UTC',
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  criticalBypassesQuietHours: true,
+  digestHour: 8,
+  lastDigestAt: null
+};
+
+const splitList = (value) => value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+
+export const isValidTimeZone = (timeZone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Local calendar date and time of day for a timezone
+ * @returns {Object} - { date: 'YYYY-MM-DD', hour, minutes (since midnight) }
+ */
+export function getLocalTime(now, timeZone) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone: isValidTimeZone(timeZone) ? timeZone : 'UTC',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(now).map(part => [part.type, part.value])
+  );
+  const hour = parseInt(parts.hour);
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, hour, minutes: hour * 60 + parseInt(parts.minute) };
+}
+
+const toMinutes = (hhmm) => {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether a user's quiet hours are in effect; windows may wrap past midnight (e.g. 22:00-07:00)
+ */
+export function isQuietTime(preferences, now = new Date()) {
+  const { quietHoursStart, quietHoursEnd, timezone } = preferences;
+  if (!quietHoursStart || !quietHoursEnd || quietHoursStart === quietHoursEnd) {
+    return false;
+  }
+
+  const current = getLocalTime(now, timezone).minutes;
+  const start = toMinutes(quietHoursStart);
+  const end = toMinutes(quietHoursEnd);
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+/**
+ * Whether a user's daily digest is due: their digest hour has passed today and
+ * no digest has gone out yet on their local date
+ */
+export function isDigestDue(preferences, now = new Date()) {
+  const local = getLocalTime(now, preferences.timezone);
+  if (local.hour < preferences.digestHour) {
+    return false;
+  }
+  return !preferences.lastDigestAt ||
+    getLocalTime(new Date(preferences.lastDigestAt), preferences.timezone).date !== local.date;
+}
+
+/**
+ * Whether an alert matches a subscription's filters and the subscriber may see its device
+ */
+export function matchesSubscription(subscription, alert) {
+  if (subscription.userRole !== 'admin' && (!alert.clientId || alert.clientId !== subscription.userClientId)) {
+    return false;
+  }
+  if (subscription.clientId && subscription.clientId !== alert.clientId) return false;
+  if (subscription.deviceId && subscription.deviceId !== alert.deviceId) return false;
+  if (subscription.severities.length > 0 && !subscription.severities.includes(alert.severity)) return false;
+  if (subscription.alertTypes.length > 0 && !subscription.alertTypes.includes(alert.alertType)) return false;
+  return true;
+}
+
+const toAlert = (row) => ({
+  id: row.id,
+  deviceId: row.device_id,
+  clientId: row.client_id,
+  alertType: row.alert_type,
+  severity: row.severity,
+  status: row.status,
+  title: row.title,
+  description: row.description,
+  createdAt: row.created_at
+});
+
+class NotificationService {
+  static running = false;
+  static timer = null;
+
+  static async tablesExist() {
+    return database.tablesExist([
+      'Notification_Channels', 'Notification_Subscriptions', 'Notification_Preferences',
+      'Notification_Deliveries', 'Notification_Delivery_Attempts', 'Notification_Dispatch_State'
+    ]);
+  }
+
+  static toChannel(row) {
+    return {
+      id: row.channel_id,
+      name: row.name,
+      type: row.channel_type,
+      config: JSON.parse(row.config || '{}'),
+      isEnabled: Boolean(row.is_enabled),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  static toSubscription(row) {
+    return {
+      id: row.subscription_id,
+      userId: row.user_id,
+      channelId: row.channel_id,
+      channelName: row.channel_name,
+      channelType: row.channel_type,
+      clientId: row.client_id,
+      deviceId: row.device_id,
+      severities: splitList(row.severities),
+      alertTypes: splitList(row.alert_types),
+      deliveryMode: row.delivery_mode,
+      isEnabled: Boolean(row.is_enabled),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  static toPreferences(row) {
+    if (!row) return { ...DEFAULT_PREFERENCES };
+    return {
+      timezone: row.timezone,
+      quietHoursStart: row.quiet_hours_start,
+      quietHoursEnd: row.quiet_hours_end,
+      criticalBypassesQuietHours: Boolean(row.critical_bypasses_quiet_hours),
+      digestHour: row.digest_hour,
+      lastDigestAt: row.last_digest_at
+    };
+  }
+
+  static async getPreferences(userId) {
+    const rows = await database.query('SELECT * FROM Notification_Preferences WHERE user_id = @userId', { userId });
+    return this.toPreferences(rows[0]);
+  }
+
+  /**
+   * Start the periodic dispatcher
+   * @param {number} intervalMs - Sweep interval
+   */
+  static start(intervalMs) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.dispatch().catch(error => console.error('Notification dispatch failed:', error));
+    }, intervalMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * One dispatcher pass: fan new alerts out to subscriptions, release deliveries held by
+   * quiet hours, assemble due digests and send everything that is due
+   * @returns {Promise<Object|null>} - Summary, or null when skipped
+   */
+  static async dispatch() {
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      if (!(await this.tablesExist())) return null;
+
+      const now = new Date();
+      const queued = await this.fanOut(now);
+      const released = await this.releaseDeferred(now);
+      const digests = await this.queueDigests(now);
+      const { sent, failed } = await this.sendDue();
+
+      return { queued, released, digests, sent, failed };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Create deliveries for alerts raised since the last pass
+  static async fanOut(now) {
+    const state = await database.query('SELECT last_alert_id FROM Notification_Dispatch_State WHERE id = 1');
+    if (state.length === 0) {
+      // First run: start from the current alert so existing history isn't sent out
+      await database.query(`
+        INSERT INTO Notification_Dispatch_State (id, last_alert_id, updated_at)
+        SELECT 1, ISNULL(MAX(id), 0), GETDATE() FROM alerts
+      `);
+      return 0;
+    }
+
+    const alerts = (await database.query(`
+      SELECT TOP (@batch) a.id, a.device_id, a.alert_type, a.severity, a.status, a.title, a.description, a.created_at, d.client_id
+      FROM alerts a
+      LEFT JOIN device d ON d.Device_ID = a.device_id
+      WHERE a.id > @lastAlertId
+      ORDER BY a.id
+    `, { batch: FAN_OUT_BATCH, lastAlertId: state[0].last_alert_id })).map(toAlert);
+
+    if (alerts.length === 0) return 0;
+
+    const subscriptions = (await database.query(`
+      SELECT s.*, c.channel_type, u.email as user_email, u.roles as user_role, u.client_id as user_client_id,
+        p.timezone, p.quiet_hours_start, p.quiet_hours_end, p.critical_bypasses_quiet_hours, p.digest_hour, p.last_digest_at
+      FROM Notification_Subscriptions s
+      JOIN Notification_Channels c ON c.channel_id = s.channel_id AND c.is_enabled = 1
+      JOIN users u ON u.id = s.user_id
+      LEFT JOIN Notification_Preferences p ON p.user_id = s.user_id
+      WHERE s.is_enabled = 1
+    `)).map(row => ({
+      ...this.toSubscription(row),
+      userEmail: row.user_email,
+      userRole: row.user_role,
+      userClientId: row.user_client_id,
+      preferences: this.toPreferences(row.timezone ? row : null)
+    }));
+
+    let queued = 0;
+    for (const alert of alerts) {
+      for (const subscription of subscriptions.filter(candidate => matchesSubscription(candidate, alert))) {
+        let status = 'pending';
+        if (subscription.deliveryMode === 'digest') {
+          status = 'digest';
+        } else if (isQuietTime(subscription.preferences, now) &&
+          !(alert.severity === 'critical' && subscription.preferences.criticalBypassesQuietHours)) {
+          status = 'deferred';
+        }
+
+        await database.query(`
+          INSERT INTO Notification_Deliveries (kind, alert_id, subscription_id, channel_id, user_id, recipient, status, next_attempt_at, created_at)
+          VALUES ('alert', @alertId, @subscriptionId, @channelId, @userId, @recipient, @status, GETDATE(), GETDATE())
+        `, {
+          alertId: alert.id,
+          subscriptionId: subscription.id,
+          channelId: subscription.channelId,
+          userId: subscription.userId,
+          recipient: subscription.channelType === 'email' ? subscription.userEmail : null,
+          status
+        });
+        queued++;
+      }
+    }
+
+    await database.query(
+      'UPDATE Notification_Dispatch_State SET last_alert_id = @lastAlertId, updated_at = GETDATE() WHERE id = 1',
+      { lastAlertId: alerts[alerts.length - 1].id }
+    );
+
+    return queued;
+  }
+
+  // Move deliveries held by quiet hours back to pending once the user's quiet hours are over
+  static async releaseDeferred(now) {
+    const rows = await database.query(`
+      SELECT DISTINCT d.user_id, p.timezone, p.quiet_hours_start, p.quiet_hours_end,
+        p.critical_bypasses_quiet_hours, p.digest_hour, p.last_digest_at
+      FROM Notification_Deliveries d
+      LEFT JOIN Notification_Preferences p ON p.user_id = d.user_id
+      WHERE d.status = 'deferred'
+    `);
+
+    let released = 0;
+    for (const row of rows) {
+      if (isQuietTime(this.toPreferences(row.timezone ? row : null), now)) continue;
+
+      const result = await database.query(`
+        UPDATE Notification_Deliveries
+        SET status = 'pending', next_attempt_at = GETDATE(), updated_at = GETDATE()
+        OUTPUT INSERTED.delivery_id
+        WHERE user_id = @userId AND status = 'deferred'
+      `, { userId: row.user_id });
+      released += result.length;
+    }
+    return released;
+  }
+
+  // Fold waiting digest entries into one digest delivery per user and channel
+  static async queueDigests(now) {
+    const rows = await database.query(`
+      SELECT DISTINCT d.user_id, p.timezone, p.quiet_hours_start, p.quiet_hours_end,
+        p.critical_bypasses_quiet_hours, p.digest_hour, p.last_digest_at
+      FROM Notification_Deliveries d
+      LEFT JOIN Notification_Preferences p ON p.user_id = d.user_id
+      WHERE d.status = 'digest'
+    `);
+
+    let digests = 0;
+    for (const row of rows) {
+      if (!isDigestDue(this.toPreferences(row.timezone ? row : null), now)) continue;
+
+      const groups = await database.query(`
+        SELECT channel_id, MAX(recipient) as recipient
+        FROM Notification_Deliveries
+        WHERE user_id = @userId AND status = 'digest'
+        GROUP BY channel_id
+      `, { userId: row.user_id });
+
+      for (const group of groups) {
+        const digest = await database.query(`
+          INSERT INTO Notification_Deliveries (kind, channel_id, user_id, recipient, status, next_attempt_at, created_at)
+          OUTPUT INSERTED.delivery_id
+          VALUES ('digest', @channelId, @userId, @recipient, 'pending', GETDATE(), GETDATE())
+        `, { channelId: group.channel_id, userId: row.user_id, recipient: group.recipient });
+
+        await database.query(`
+          UPDATE Notification_Deliveries
+          SET status = 'digested', digest_id = @digestId, updated_at = GETDATE()
+          WHERE user_id = @userId AND channel_id = @channelId AND status = 'digest'
+        `, { digestId: digest[0].delivery_id, userId: row.user_id, channelId: group.channel_id });
+        digests++;
+      }
+
+      await database.query(`
+        MERGE Notification_Preferences AS target
+        USING (SELECT @userId AS user_id) AS source
+        ON target.user_id = source.user_id
+        WHEN MATCHED THEN
+          UPDATE SET last_digest_at = GETDATE()
+        WHEN NOT MATCHED THEN
+          INSERT (user_id, last_digest_at, updated_at) VALUES (@userId, GETDATE(), GETDATE());
+      `, { userId: row.user_id });
+    }
+    return digests;
+  }
+
+  // Send pending deliveries whose next attempt is due
+  static async sendDue() {
+    const deliveries = await database.query(`
+      SELECT TOP (@batch) d.*, c.name as channel_name, c.channel_type, c.config, c.is_enabled as channel_enabled
+      FROM Notification_Deliveries d
+      LEFT JOIN Notification_Channels c ON c.channel_id = d.channel_id
+      WHERE d.status = 'pending' AND (d.next_attempt_at IS NULL OR d.next_attempt_at <= GETDATE())
+      ORDER BY d.delivery_id
+    `, { batch: SEND_BATCH });
+
+    let sent = 0;
+    let failed = 0;
+    for (const delivery of deliveries) {
+      const result = await this.deliver(delivery);
+      if (result.success) sent++;
+      else failed++;
+    }
+    return { sent, failed };
+  }
+
+  // Alerts a delivery carries; digests carry every alert folded into them
+  static async loadMessage(delivery) {
+    if (delivery.kind === 'test') {
+      return {
+        kind: 'test',
+        alerts: [{
+          id: 0,
+          deviceId: 'TEST-DEVICE',
+          clientId: null,
+          alertType: 'test',
+          severity: 'info',
+          status: 'active',
+          title: 'Test notification',
+          description: `Test message for channel "${delivery.channel_name}"`,
+          createdAt: new Date()
+        }]
+      };
+    }
+
+    const alerts = (await database.query(`
+      SELECT a.id, a.device_id, a.alert_type, a.severity, a.status, a.title, a.description, a.created_at, dev.client_id
+      FROM alerts a
+      LEFT JOIN device dev ON dev.Device_ID = a.device_id
+      WHERE ${delivery.kind === 'digest'
+        ? 'a.id IN (SELECT alert_id FROM Notification_Deliveries WHERE digest_id = @deliveryId)'
+        : 'a.id = @alertId'}
+      ORDER BY a.id
+    `, { deliveryId: delivery.delivery_id, alertId: delivery.alert_id })).map(toAlert);
+
+    return { kind: delivery.kind, alerts };
+  }
+
+  /**
+   * Make one send attempt for a delivery row and log it
+   * @param {Object} delivery - Notification_Deliveries row joined with its channel
+   * @param {Object} options - { retry: false to fail immediately instead of scheduling a retry }
+   * @returns {Promise<Object>} - { success, error }
+   */
+  static async deliver(delivery, { retry = true } = {}) {
+    const attemptNumber = delivery.attempts + 1;
+    const startedAt = Date.now();
+    let responseCode = null;
+    let errorMessage = null;
+
+    try {
+      if (!delivery.channel_type || !delivery.channel_enabled) {
+        throw new Error('Channel is disabled or has been deleted');
+      }
+
+      const message = await this.loadMessage(delivery);
+      if (message.alerts.length === 0) {
+        throw new Error('Alert no longer exists');
+      }
+
+      const result = await sendToChannel(
+        { type: delivery.channel_type, config: JSON.parse(delivery.config || '{}') },
+        message,
+        delivery.recipient
+      );
+      responseCode = result.responseCode;
+    } catch (error) {
+      errorMessage = (error.message || String(error)).slice(0, 1000);
+      responseCode = error.responseCode || null;
+    }
+
+    const success = errorMessage === null;
+
+    await database.query(`
+      INSERT INTO Notification_Delivery_Attempts (delivery_id, attempt_number, succeeded, response_code, error, duration_ms, attempted_at)
+      VALUES (@deliveryId, @attemptNumber, @succeeded, @responseCode, @error, @durationMs, GETDATE())
+    `, {
+      deliveryId: delivery.delivery_id,
+      attemptNumber,
+      succeeded: success,
+      responseCode,
+      error: errorMessage,
+      durationMs: Date.now() - startedAt
+    });
+
+    if (success) {
+      await database.query(`
+        UPDATE Notification_Deliveries
+        SET status = 'sent', attempts = @attempts, sent_at = GETDATE(), last_error = NULL, next_attempt_at = NULL, updated_at = GETDATE()
+        WHERE delivery_id = @deliveryId
+      `, { deliveryId: delivery.delivery_id, attempts: attemptNumber });
+    } else {
+      const giveUp = !retry || attemptNumber >= MAX_ATTEMPTS;
+      const backoff = RETRY_BACKOFF_MINUTES[Math.min(attemptNumber - 1, RETRY_BACKOFF_MINUTES.length - 1)];
+      await database.query(`
+        UPDATE Notification_Deliveries
+        SET status = @status,
+            attempts = @attempts,
+            last_error = @error,
+            next_attempt_at = ${giveUp ? 'NULL' : 'DATEADD(MINUTE, @backoff, GETDATE())'},
+            updated_at = GETDATE()
+        WHERE delivery_id = @deliveryId
+      `, {
+        deliveryId: delivery.delivery_id,
+        status: giveUp ? 'failed' : 'pending',
+        attempts: attemptNumber,
+        error: errorMessage,
+        backoff
+      });
+    }
+
+    return { success, error: errorMessage };
+  }
+
+  /**
+   * Send a test message over a channel right away (logged like any other delivery)
+   * @param {number} channelId
+   * @param {Object} user - Requesting user; email channels send to their address
+   * @returns {Promise<Object|null>} - { deliveryId, success, error }, or null if the channel doesn't exist
+   */
+  static async sendTest(channelId, user) {
+    const channels = await database.query('SELECT * FROM Notification_Channels WHERE channel_id = @channelId', { channelId });
+    if (channels.length === 0) return null;
+    const channel = channels[0];
+
+    const inserted = await database.query(`
+      INSERT INTO Notification_Deliveries (kind, channel_id, user_id, recipient, status, created_at)
+      OUTPUT INSERTED.*
+      VALUES ('test', @channelId, @userId, @recipient, 'pending', GETDATE())
+    `, {
+      channelId,
+      userId: user.id,
+      recipient: channel.channel_type === 'email' ? user.email : null
+    });
+
+    const result = await this.deliver({
+      ...inserted[0],
+      channel_name: channel.name,
+      channel_type: channel.channel_type,
+      config: channel.config,
+      // Tests are allowed on disabled channels so they can be checked before enabling
+      channel_enabled: true
+    }, { retry: false });
+
+    return { deliveryId: inserted[0].delivery_id, ...result };
+  }
+}
+
+export default NotificationService;
@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import sql from 'mssql';
+import database from '../config/database.js';
+import SessionManager from '../middleware/sessionManager.js';
+import { sendMail } from './mailTransport.js';
+import UserInvitationService from './userInvitations.js';
+
+/**
+ * Self-service password reset.
+ * A request for a known, active account emails a one-time link; the response is the same either
+ * way so the endpoint can't be used to find out which emails have accounts. Tokens are stored as
+ * SHA-256 hashes, expire, are used up by the reset and are superseded by a newer request.
+ * Completing a reset ends all of the user's sessions.
+ */
+
+const EXPIRY_MINUTES = parseInt(process.env.PASSWORD_RESET_EXPIRY_MINUTES) || 60;
+
+const hashToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+export const buildResetLink = (token) =>
+  `${(process.env.FRONTEND_URL || '').replace(/\/$/, '')}/reset-password?token=${encodeURIComponent(token)}`;
+
+class PasswordResetService {
+  static async tablesExist() {
+    return database.tablesExist(['Password_Reset_Tokens']);
+  }
+
+  /**
+   * Email a reset link if the address belongs to an active account
+   * @returns {Promise<number|null>} - The user ID the link was sent to, or null
+   */
+  static async requestReset(email, requestedIp = null) {
+    // Pending and rejected sign-ups can't sign in, so they get no link either
+    const withStatus = await UserInvitationService.tablesExist();
+    const users = await database.query(`
+      SELECT id, user_name, email
+      FROM users
+      WHERE email = @email${withStatus ? " AND account_status = 'active'" : ''}
+    `, { email });
+    const user = users[0];
+    if (!user) return null;
+
+    // Only the newest link works
+    await database.query(`
+      UPDATE Password_Reset_Tokens
+      SET expires_at = GETUTCDATE()
+      WHERE user_id = @userId AND used_at IS NULL AND expires_at > GETUTCDATE()
+    `, { userId: user.id });
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    await database.query(`
+      INSERT INTO Password_Reset_Tokens (user_id, token_hash, created_at, expires_at, requested_ip)
+      VALUES (@userId, @tokenHash, GETUTCDATE(), DATEADD(MINUTE, @expiryMinutes, GETUTCDATE()), @requestedIp)
+    `, {
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiryMinutes: EXPIRY_MINUTES,
+      requestedIp
+    });
+
+    const link = buildResetLink(token);
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your IoT Dashboard password',
+      text: [
+        `Hi ${user.user_name},`,
+        '',
+        'Someone asked to reset the password for your IoT Dashboard account. To choose a new password, open:',
+        link,
+        '',
+        `The link works once and expires in ${EXPIRY_MINUTES} minutes. If you didn't ask for this, you can ignore this email.`
+      ].join('\n'),
+      html: `<p>Hi ${escapeHtml(user.user_name)},</p>` +
+        '<p>Someone asked to reset the password for your IoT Dashboard account.</p>' +
+        `<p><a href="${escapeHtml(link)}">Choose a new password</a></p>` +
+        `<p>The link works once and expires in ${EXPIRY_MINUTES} minutes. ` +
+        "If you didn't ask for this, you can ignore this email.</p>"
+    });
+
+    return user.id;
+  }
+
+  /**
+   * Open reset token, or null when it is unknown, used or expired
+   */
+  static async findUsable(token) {
+    const rows = await database.query(`
+      SELECT t.token_id, t.user_id, t.expires_at, u.email
+      FROM Password_Reset_Tokens t
+      INNER JOIN users u ON t.user_id = u.id
+      WHERE t.token_hash = @tokenHash AND t.used_at IS NULL AND t.expires_at > GETUTCDATE()
+    `, { tokenHash: hashToken(token) });
+    return rows[0] || null;
+  }
+
+  /**
+   * Set a new password with a reset token, then end all of the user's sessions
+   * @returns {Promise<Object|null>} - { userId, sessionsEnded }, or null when the token can't be used
+   */
+  static async resetPassword(token, passwordHash) {
+    const pool = await database.connect();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    let userId;
+    try {
+      const claimed = await transaction.request()
+        .input('tokenHash', hashToken(token))
+        .query(`
+          UPDATE Password_Reset_Tokens
+          SET used_at = GETUTCDATE()
+          OUTPUT INSERTED.user_id
+          WHERE token_hash = @tokenHash AND used_at IS NULL AND expires_at > GETUTCDATE()
+        `);
+      if (claimed.recordset.length === 0) {
+        await transaction.rollback();
+        return null;
+      }
+      userId = claimed.recordset[0].user_id;
+
+      await transaction.request()
+        .input('userId', userId)
+        .input('passwordHash', passwordHash)
+        .query('UPDATE users SET password = @passwordHash WHERE id = @userId');
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    const sessionsEnded = await SessionManager.endAllUserSessions(userId);
+    return { userId, sessionsEnded };
+  }
+}
+
+function escapeHtml(value) {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export default PasswordResetService;
@@ -0,0 +1,124 @@
+import database from '../config/database.js';
+import { syncLayoutDecoders } from '../shared/payloadLayout.js';
+import { TELEMETRY_TABLES_BY_NAME, getTelemetryTable } from './telemetryTables.js';
+
+class PayloadLayoutService {
+  // Active layouts are cached and pushed into the shared decoder registry
+  static layoutCache = null;
+  static cacheTimeout = 60 * 1000; // 1 minute
+
+  /**
+   * Map a Payload_Layouts row to the record shape used by the shared library and the API
+   * @param {Object} row - Database row
+   * @returns {Object} - Layout record
+   */
+  static toRecord(row) {
+    return {
+      id: row.layout_id,
+      conversionLogicId: row.conversion_logic_id,
+      name: row.name,
+      logicType: row.logic_type,
+      description: row.description,
+      targetTable: row.target_table,
+      layout: JSON.parse(row.layout_json),
+      isActive: row.is_active,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedBy: row.updated_by,
+      updatedAt: row.updated_at
+    };
+  }
+
+  /**
+   * Check whether the Payload_Layouts table has been created
+   * @returns {Promise<boolean>}
+   */
+  static async tableExists() {
+    return database.tablesExist(['Payload_Layouts']);
+  }
+
+  /**
+   * Load active layouts, using the cache when fresh
+   * @returns {Promise<Array>} - Active layout records
+   */
+  static async getActiveLayouts() {
+    if (this.layoutCache && Date.now() - this.layoutCache.timestamp < this.cacheTimeout) {
+      return this.layoutCache.records;
+    }
+
+    try {
+      if (!(await this.tableExists())) {
+        return [];
+      }
+
+      const rows = await database.query(`
+        SELECT * FROM Payload_Layouts WHERE is_active = 1 ORDER BY conversion_logic_id
+      `);
+
+      const records = [];
+      for (const row of rows) {
+        try {
+          records.push(this.toRecord(row));
+        } catch (error) {
+          console.error(`Skipping payload layout ${row.layout_id} with invalid JSON:`, error.message);
+        }
+      }
+
+      const skipped = syncLayoutDecoders(records);
+      skipped.forEach(item => {
+        console.warn(`Payload layout for logic ID ${item.conversionLogicId} not registered:`, item.errors.join('; '));
+      });
+
+      this.layoutCache = { records, timestamp: Date.now() };
+      return records;
+
+    } catch (error) {
+      console.error('Error loading payload layouts:', error);
+      return this.layoutCache?.records || [];
+    }
+  }
+
+  /**
+   * Make sure layout-backed decoders are registered before decoding
+   */
+  static async ensureDecoders() {
+    await this.getActiveLayouts();
+  }
+
+  /**
+   * Resolve the telemetry table for a logic ID
+   * Layout decoders store the fields whose keys match the target table's columns
+   * @param {number} conversionLogicId - Device ConversionLogicID
+   * @returns {Promise<Object|null>} - Table descriptor or null when readings cannot be stored
+   */
+  static async getTelemetryTable(conversionLogicId) {
+    const builtIn = getTelemetryTable(conversionLogicId);
+    if (builtIn) {
+      return builtIn;
+    }
+
+    const records = await this.getActiveLayouts();
+    const record = records.find(r => r.conversionLogicId === Number(conversionLogicId));
+    const base = record?.targetTable ? TELEMETRY_TABLES_BY_NAME[record.targetTable] : null;
+    if (!base) {
+      return null;
+    }
+
+    const keys = new Set(record.layout.fields.flatMap(field => (
+      field.type === 'bitmask' && field.enum
+        ? [field.key, field.descriptionsKey || `${field.key}Descriptions`]
+        : [field.key]
+    )));
+
+    return { ...base, columns: base.columns.filter(column => keys.has(column)) };
+  }
+
+  /**
+   * Drop the cache so the next lookup reloads layouts from the database
+   */
+  static invalidate() {
+    this.layoutCache = null;
+  }
+}
+
+export default PayloadLayoutService;
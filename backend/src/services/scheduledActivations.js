@@ -0,0 +1,431 @@
+import database from '../config/database.js';
+import { logConfigurationAction, activateConfiguration } from './deviceConfigurations.js';
+import { activateUniversalConfig } from './universalConfigs.js';
+import ConfigSchemaService from './configSchemaService.js';
+import { formatConfigErrors } from '../shared/configSchema.js';
+
+/**
+ * Scheduled configuration activation.
+ * Device and universal activations can be queued for a fixed time; device activations can also
+ * wait for the device's next maintenance window. Windows repeat weekly in UTC; a device's own
+ * windows take precedence over its client's. The scheduler activates due entries through the
+ * same code paths (and audit records) as a manual activation, attributed to the user who
+ * scheduled them. An entry still executing STALE_CLAIM_MINUTES after it was claimed belonged to a
+ * run that died; it is marked failed rather than run again, since it may have gone through.
+ */
+
+export const SCHEDULE_STATUSES = ['scheduled', 'executing', 'completed', 'failed', 'cancelled'];
+export const WINDOW_SCOPES = ['client', 'device'];
+
+const STALE_CLAIM_MINUTES = 15;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const formatTime = (minutes) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const parseTime = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const toWindowResponse = (row) => ({
+  windowId: row.window_id,
+  scopeType: row.scope_type,
+  scopeId: row.scope_id,
+  windowName: row.window_name,
+  daysOfWeek: row.days_of_week.split(',').map(Number),
+  startTime: formatTime(row.start_minute),
+  durationMinutes: row.duration_minutes,
+  isActive: row.is_active,
+  createdBy: row.created_by,
+  createdByName: row.created_by_name || null,
+  createdAt: row.created_at
+});
+
+export const toScheduleResponse = (row) => ({
+  scheduleId: row.schedule_id,
+  targetType: row.target_type,
+  deviceId: row.device_id,
+  configId: row.config_id,
+  configName: row.config_name || null,
+  configVersion: row.config_version ?? null,
+  scheduledFor: row.scheduled_for,
+  windowId: row.window_id,
+  windowName: row.window_name || null,
+  windowEndsAt: row.window_ends_at,
+  status: row.status,
+  reason: row.reason,
+  errorMessage: row.error_message,
+  createdBy: row.created_by,
+  createdByName: row.created_by_name || null,
+  createdAt: row.created_at,
+  executedAt: row.executed_at,
+  cancelledBy: row.cancelled_by,
+  cancelledAt: row.cancelled_at
+});
+
+/**
+ * Earliest opening of any of the windows at or after a time
+ * @returns {Object|null} - { window, start, end }; start is `after` itself when a window is open then
+ */
+export function nextWindowOpening(windows, after) {
+  let best = null;
+  const midnight = Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate());
+
+  // Start a day early so a window that opened yesterday and is still open is found
+  for (let offset = -1; offset <= 7; offset++) {
+    const day = new Date(midnight + offset * DAY_MS);
+    for (const window of windows) {
+      if (!window.days_of_week.split(',').map(Number).includes(day.getUTCDay())) continue;
+
+      const opens = new Date(day.getTime() + window.start_minute * MINUTE_MS);
+      const closes = new Date(opens.getTime() + window.duration_minutes * MINUTE_MS);
+      if (closes <= after) continue;
+
+      const start = opens < after ? after : opens;
+      if (!best || start < best.start) {
+        best = { window, start, end: closes };
+      }
+    }
+  }
+  return best;
+}
+
+const SCHEDULE_SELECT = `
+  SELECT s.*,
+    COALESCE(dc.config_name, u.configuration_name, u.config_name) as config_name,
+    dc.config_version,
+    w.window_name,
+    cu.user_name as created_by_name
+  FROM Scheduled_Config_Activations s
+  LEFT JOIN Device_Configurations dc ON s.target_type = 'device' AND dc.config_id = s.config_id
+  LEFT JOIN Universal_Communication_Config u ON s.target_type = 'universal' AND u.config_id = s.config_id
+  LEFT JOIN Config_Maintenance_Windows w ON s.window_id = w.window_id
+  LEFT JOIN users cu ON s.created_by = cu.id
+`;
+
+class ScheduledActivationService {
+  static timer = null;
+  static running = false;
+
+  static async tablesExist() {
+    return database.tablesExist(['Config_Maintenance_Windows', 'Scheduled_Config_Activations']);
+  }
+
+  // Scheduled_Config_Activations.claimed_at, added by a later version of create_scheduled_activation_tables.sql
+  static async claimColumnExists() {
+    return database.tablesExist([], ['Scheduled_Config_Activations.claimed_at']);
+  }
+
+  static async listWindows({ scopeType, scopeId } = {}) {
+    const conditions = [];
+    const params = {};
+    if (scopeType) {
+      conditions.push('w.scope_type = @scopeType');
+      params.scopeType = scopeType;
+    }
+    if (scopeId) {
+      conditions.push('w.scope_id = @scopeId');
+      params.scopeId = String(scopeId);
+    }
+
+    const rows = await database.query(`
+      SELECT w.*, u.user_name as created_by_name
+      FROM Config_Maintenance_Windows w
+      LEFT JOIN users u ON w.created_by = u.id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY w.scope_type, w.scope_id, w.start_minute
+    `, params);
+
+    return rows.map(toWindowResponse);
+  }
+
+  static async createWindow({ scopeType, scopeId, windowName, daysOfWeek, startTime, durationMinutes }, userId) {
+    const rows = await database.query(`
+      INSERT INTO Config_Maintenance_Windows (
+        scope_type, scope_id, window_name, days_of_week, start_minute, duration_minutes, is_active, created_by, created_at
+      )
+      OUTPUT INSERTED.*
+      VALUES (
+        @scopeType, @scopeId, @windowName, @daysOfWeek, @startMinute, @durationMinutes, 1, @userId, GETUTCDATE()
+      )
+    `, {
+      scopeType,
+      scopeId: String(scopeId),
+      windowName,
+      daysOfWeek: [...new Set(daysOfWeek)].sort().join(','),
+      startMinute: parseTime(startTime),
+      durationMinutes,
+      userId
+    });
+
+    return toWindowResponse(rows[0]);
+  }
+
+  static async deleteWindow(windowId) {
+    const rows = await database.query(
+      'DELETE FROM Config_Maintenance_Windows OUTPUT DELETED.window_id WHERE window_id = @windowId',
+      { windowId }
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Maintenance windows that apply to a device: its own, or its client's when it has none
+   */
+  static async getDeviceWindows(deviceId) {
+    const rows = await database.query(`
+      SELECT w.*
+      FROM Config_Maintenance_Windows w
+      JOIN device d ON d.Device_ID = @deviceId
+      WHERE w.is_active = 1
+        AND ((w.scope_type = 'device' AND w.scope_id = d.Device_ID)
+          OR (w.scope_type = 'client' AND w.scope_id = CAST(d.client_id AS NVARCHAR(50))))
+    `, { deviceId });
+
+    const deviceWindows = rows.filter(row => row.scope_type === 'device');
+    return deviceWindows.length > 0 ? deviceWindows : rows;
+  }
+
+  static async getSchedule(scheduleId) {
+    const rows = await database.query(`${SCHEDULE_SELECT} WHERE s.schedule_id = @scheduleId`, { scheduleId });
+    return rows[0] ? toScheduleResponse(rows[0]) : null;
+  }
+
+  /**
+   * Scheduled activations for the calendar
+   * @param {Object} filters - { from, to, status, deviceId }
+   */
+  static async listSchedules({ from, to, status, deviceId } = {}) {
+    const conditions = [];
+    const params = {};
+    if (from) {
+      conditions.push('s.scheduled_for >= @from');
+      params.from = from;
+    }
+    if (to) {
+      conditions.push('s.scheduled_for < @to');
+      params.to = to;
+    }
+    if (status) {
+      conditions.push('s.status = @status');
+      params.status = status;
+    }
+    if (deviceId) {
+      conditions.push('s.device_id = @deviceId');
+      params.deviceId = deviceId;
+    }
+
+    const rows = await database.query(`
+      ${SCHEDULE_SELECT}
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY s.scheduled_for ASC, s.schedule_id ASC
+    `, params);
+
+    return rows.map(toScheduleResponse);
+  }
+
+  static async getPending(targetType, deviceId = null) {
+    const rows = await database.query(`
+      ${SCHEDULE_SELECT}
+      WHERE s.status = 'scheduled' AND s.target_type = @targetType
+        AND (s.device_id = @deviceId OR (s.device_id IS NULL AND @deviceId IS NULL))
+    `, { targetType, deviceId });
+    return rows[0] ? toScheduleResponse(rows[0]) : null;
+  }
+
+  /**
+   * Queue an activation
+   * @param {Object} data - { targetType, deviceId, configId, scheduledFor (Date), useMaintenanceWindow, reason }
+   * @returns {Promise<Object>} - { schedule } or { error } when no maintenance window applies
+   */
+  static async schedule({ targetType, deviceId = null, configId, scheduledFor, useMaintenanceWindow = false, reason = null }, userId) {
+    let runAt = scheduledFor || new Date();
+    let windowId = null;
+    let windowEndsAt = null;
+
+    if (useMaintenanceWindow) {
+      const opening = nextWindowOpening(await this.getDeviceWindows(deviceId), runAt);
+      if (!opening) {
+        return { error: `No maintenance window is defined for device ${deviceId} or its client` };
+      }
+      runAt = opening.start;
+      windowId = opening.window.window_id;
+      windowEndsAt = opening.end;
+    }
+
+    const rows = await database.query(`
+      INSERT INTO Scheduled_Config_Activations (
+        target_type, device_id, config_id, scheduled_for, window_id, window_ends_at, status, reason, created_by, created_at
+      )
+      OUTPUT INSERTED.schedule_id
+      VALUES (
+        @targetType, @deviceId, @configId, @runAt, @windowId, @windowEndsAt, 'scheduled', @reason, @userId, GETUTCDATE()
+      )
+    `, { targetType, deviceId, configId, runAt, windowId, windowEndsAt, reason, userId });
+
+    return { schedule: await this.getSchedule(rows[0].schedule_id) };
+  }
+
+  static async cancel(scheduleId, userId) {
+    const rows = await database.query(`
+      UPDATE Scheduled_Config_Activations
+      SET status = 'cancelled', cancelled_by = @userId, cancelled_at = GETUTCDATE()
+      OUTPUT INSERTED.schedule_id
+      WHERE schedule_id = @scheduleId AND status = 'scheduled'
+    `, { scheduleId, userId });
+
+    return rows.length > 0 ? this.getSchedule(scheduleId) : null;
+  }
+
+  /**
+   * Start the periodic scheduler
+   * @param {number} intervalMs - Check interval
+   */
+  static start(intervalMs) {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.refresh().catch(error => console.error('Scheduled activation run failed:', error));
+    }, intervalMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Run every due activation
+   * @returns {Promise<Object|null>} - { completed, failed, deferred, abandoned } or null when skipped
+   */
+  static async refresh() {
+    if (this.running) return null;
+    this.running = true;
+
+    try {
+      if (!await this.tablesExist()) return null;
+
+      // Window activations whose window closed before they ran (e.g. the server was down) wait for the next one
+      const missed = await database.query(`
+        SELECT * FROM Scheduled_Config_Activations
+        WHERE status = 'scheduled' AND window_ends_at IS NOT NULL AND window_ends_at <= GETUTCDATE()
+      `);
+      for (const schedule of missed) {
+        await this.deferToNextWindow(schedule);
+      }
+
+      const withClaimTime = await this.claimColumnExists();
+      const abandoned = withClaimTime ? await this.failStaleClaims() : 0;
+
+      // Claiming flips the status first, so a slow run is never picked up twice
+      const due = await database.query(`
+        UPDATE Scheduled_Config_Activations
+        SET status = 'executing'${withClaimTime ? ', claimed_at = GETUTCDATE()' : ''}
+        OUTPUT INSERTED.*
+        WHERE status = 'scheduled' AND scheduled_for <= GETUTCDATE()
+      `);
+
+      let completed = 0;
+      for (const schedule of due) {
+        if (await this.execute(schedule)) {
+          completed++;
+        }
+      }
+
+      return { completed, failed: due.length - completed, deferred: missed.length, abandoned };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Entries claimed before claimed_at existed are left over from a run before the upgrade
+  static async failStaleClaims() {
+    const stale = await database.query(`
+      UPDATE Scheduled_Config_Activations
+      SET status = 'failed', executed_at = GETUTCDATE(),
+        error_message = 'The scheduler stopped while running this activation; check the active configuration and schedule it again if needed'
+      OUTPUT INSERTED.schedule_id
+      WHERE status = 'executing'
+        AND (claimed_at IS NULL OR claimed_at <= DATEADD(MINUTE, -@staleMinutes, GETUTCDATE()))
+    `, { staleMinutes: STALE_CLAIM_MINUTES });
+
+    for (const { schedule_id: scheduleId } of stale) {
+      console.warn(`Scheduled activation ${scheduleId} was left executing by an earlier run; marked failed`);
+    }
+    return stale.length;
+  }
+
+  static async deferToNextWindow(schedule) {
+    const opening = nextWindowOpening(await this.getDeviceWindows(schedule.device_id), new Date());
+    if (!opening) {
+      await this.finish(schedule.schedule_id, 'failed', 'Maintenance window was missed and no window is defined any more', 'scheduled');
+      return;
+    }
+
+    await database.query(`
+      UPDATE Scheduled_Config_Activations
+      SET scheduled_for = @start, window_id = @windowId, window_ends_at = @end
+      WHERE schedule_id = @scheduleId AND status = 'scheduled'
+    `, { scheduleId: schedule.schedule_id, start: opening.start, windowId: opening.window.window_id, end: opening.end });
+  }
+
+  static async execute(schedule) {
+    try {
+      const error = schedule.target_type === 'universal'
+        ? await this.executeUniversal(schedule)
+        : await this.executeDevice(schedule);
+
+      await this.finish(schedule.schedule_id, error ? 'failed' : 'completed', error);
+      return !error;
+    } catch (error) {
+      console.error(`Error running scheduled activation ${schedule.schedule_id}:`, error);
+      await this.finish(schedule.schedule_id, 'failed', error.message);
+      return false;
+    }
+  }
+
+  // Returns an error message when the activation can't go ahead
+  static async executeDevice(schedule) {
+    const configs = await database.query(
+      'SELECT config_id, config_data, is_active FROM Device_Configurations WHERE config_id = @configId AND device_id = @deviceId',
+      { configId: schedule.config_id, deviceId: schedule.device_id }
+    );
+    if (configs.length === 0) {
+      return 'Configuration no longer exists';
+    }
+    if (configs[0].is_active) {
+      return null;
+    }
+
+    // The schema may have changed since the activation was scheduled
+    const { schema, errors } = await ConfigSchemaService.validateForDevice(schedule.device_id, JSON.parse(configs[0].config_data));
+    if (errors.length > 0) {
+      return `Invalid configuration (schema ${schema.label}): ${formatConfigErrors(errors)}`;
+    }
+
+    const previousActiveConfig = await activateConfiguration(schedule.device_id, schedule.config_id, schedule.created_by);
+    await logConfigurationAction(
+      schedule.config_id,
+      'ACTIVATE',
+      schedule.created_by,
+      previousActiveConfig?.config_data || null,
+      configs[0].config_data,
+      `Scheduled activation #${schedule.schedule_id}${schedule.reason ? `: ${schedule.reason}` : ''}`,
+      null,
+      'config-scheduler'
+    );
+    return null;
+  }
+
+  static async executeUniversal(schedule) {
+    const config = await activateUniversalConfig(schedule.config_id, schedule.created_by);
+    return config ? null : 'Universal configuration no longer exists';
+  }
+
+  static async finish(scheduleId, status, errorMessage = null, fromStatus = 'executing') {
+    await database.query(`
+      UPDATE Scheduled_Config_Activations
+      SET status = @status, error_message = @errorMessage, executed_at = GETUTCDATE()
+      WHERE schedule_id = @scheduleId AND status = @fromStatus
+    `, { scheduleId, status, errorMessage: errorMessage ? errorMessage.slice(0, 1000) : null, fromStatus });
+  }
+}
+
+export default ScheduledActivationService;
@@ -0,0 +1,24 @@
+import crypto from 'crypto';
+
+/**
+ * AES-256-GCM for secrets the server has to read back, such as TOTP secrets and device signing
+ * keys, so a copy of the database alone doesn't reveal them. Values are stored as
+ * "iv.tag.ciphertext" in base64; the key is the SHA-256 of the given key material, so changing
+ * the material makes existing values unreadable.
+ */
+
+const deriveKey = (keyMaterial) => crypto.createHash('sha256').update(keyMaterial || '').digest();
+
+export function encryptSecret(secret, keyMaterial) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(keyMaterial), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+}
+
+export function decryptSecret(stored, keyMaterial) {
+  const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(keyMaterial), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,27 @@
+// Telemetry tables written by ingestion and read back by the decode/verify endpoints
+export const TELEMETRY_TABLES_BY_NAME = {
+  IoT_Data_New: {
+    table: 'IoT_Data_New',
+    columns: [
+      'RuntimeMin', 'FaultCodes', 'FaultDescriptions', 'LeadingFaultCode', 'LeadingFaultTimeHr',
+      'GensetSignal', 'ThermostatStatus', 'HVOutputVoltage_kV', 'HVSourceNo', 'HVOutputCurrent_mA'
+    ],
+    timestampColumns: ['CreatedAt']
+  },
+  IoT_Data_Sick_Test: {
+    table: 'IoT_Data_Sick_Test',
+    columns: [
+      'GSM_Signal_Strength', 'Motor_ON_Time_sec', 'Motor_OFF_Time_sec', 'Number_of_Wheels_Configured',
+      'Latitude', 'Longitude', 'Number_of_Wheels_Detected', 'Fault_Code', 'Motor_Current_mA'
+    ],
+    timestampColumns: ['CreatedAt', 'Timestamp']
+  }
+};
+
+// Built-in decoders, keyed by the device's ConversionLogicID
+export const TELEMETRY_TABLES = {
+  1: TELEMETRY_TABLES_BY_NAME.IoT_Data_New,
+  2: TELEMETRY_TABLES_BY_NAME.IoT_Data_Sick_Test
+};
+
+export const getTelemetryTable = (conversionLogicId) => TELEMETRY_TABLES[conversionLogicId] || null;
@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import database from '../config/database.js';
+import { decryptSecret, encryptSecret } from './secretEncryption.js';
+
+/**
+ * TOTP two-factor authentication (RFC 6238: HMAC-SHA1, 30 second steps, 6 digits).
+ * After the password is checked, login hands out a short-lived challenge token instead of a
+ * session; the session is only created once a code (or a one-time recovery code) is verified.
+ * Users whose role requires 2FA but who haven't enrolled yet get a setup challenge and enroll
+ * before their first session.
+ */
+
+const ISSUER = process.env.TWO_FACTOR_ISSUER || 'IoT Dashboard';
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+// Accept the previous and next step too, for clock drift between phone and server
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_EXPIRES_IN = '5m';
+
+export const CHALLENGE_PURPOSES = {
+  VERIFY: 'two_factor_verify',
+  SETUP: 'two_factor_setup'
+};
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded) {
+  let bits = 0;
+  let value = 0;
+  const bytes = [];
+
+  for (const char of encoded.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotp(secret, step) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, '0');
+}
+
+const currentStep = () => Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+/**
+ * The time step a code belongs to, or null when it doesn't match any step in the drift window
+ */
+function matchTotpStep(secret, code) {
+  const normalized = String(code).replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const now = currentStep();
+  for (let step = now - DRIFT_STEPS; step <= now + DRIFT_STEPS; step++) {
+    const expected = generateTotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Secrets have to be readable to check codes, so they are encrypted rather than hashed
+const encryptionKeyMaterial = () => process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET;
+
+const hashRecoveryCode = (code) => crypto
+  .createHash('sha256')
+  .update(String(code).replace(/[\s-]/g, '').toLowerCase())
+  .digest('hex');
+
+// Ten hex characters shown as xxxxx-xxxxx
+const generateRecoveryCode = () => {
+  const raw = crypto.randomBytes(5).toString('hex');
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+};
+
+class TwoFactorService {
+  static async tablesExist() {
+    return database.tablesExist(['User_Two_Factor', 'User_Recovery_Codes'], ['roles.requires_two_factor']);
+  }
+
+  static signChallenge(userId, purpose) {
+    return jwt.sign({ userId, purpose }, process.env.JWT_SECRET, { expiresIn: CHALLENGE_EXPIRES_IN });
+  }
+
+  /**
+   * The user ID from a challenge token, or null when it is invalid, expired or for another purpose
+   */
+  static readChallenge(challengeToken, purpose) {
+    try {
+      const decoded = jwt.verify(challengeToken, process.env.JWT_SECRET);
+      return decoded.purpose === purpose ? decoded.userId : null;
+    } catch {
+      return null;
+    }
+  }
+
+  static async isRequiredForRole(role) {
+    const rows = await database.query(
+      'SELECT requires_two_factor FROM roles WHERE name = @role',
+      { role }
+    );
+    return rows[0]?.requires_two_factor === true;
+  }
+
+  static async isEnabled(userId) {
+    const rows = await database.query(
+      'SELECT 1 as enabled FROM User_Two_Factor WHERE user_id = @userId AND enabled_at IS NOT NULL',
+      { userId }
+    );
+    return rows.length > 0;
+  }
+
+  static async getStatus(userId, role) {
+    const rows = await database.query(`
+      SELECT
+        t.enabled_at,
+        (SELECT COUNT(*) FROM User_Recovery_Codes c WHERE c.user_id = @userId AND c.used_at IS NULL) as recovery_codes_remaining
+      FROM (SELECT @userId as user_id) u
+      LEFT JOIN User_Two_Factor t ON t.user_id = u.user_id
+    `, { userId });
+
+    return {
+      enabled: !!rows[0]?.enabled_at,
+      enabledAt: rows[0]?.enabled_at || null,
+      recoveryCodesRemaining: rows[0]?.enabled_at ? rows[0].recovery_codes_remaining : 0,
+      required: await this.isRequiredForRole(role)
+    };
+  }
+
+  /**
+   * Start (or restart) enrollment with a fresh secret
+   * @returns {Promise<Object|null>} - { secret, otpauthUrl, qrCode }, or null when 2FA is already enabled
+   */
+  static async startEnrollment(userId, accountName) {
+    if (await this.isEnabled(userId)) {
+      return null;
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20));
+    await database.query(`
+      MERGE User_Two_Factor AS target
+      USING (SELECT @userId as user_id) AS source
+      ON target.user_id = source.user_id
+      WHEN MATCHED THEN
+        UPDATE SET secret_encrypted = @secretEncrypted, created_at = GETUTCDATE(), last_used_step = NULL
+      WHEN NOT MATCHED THEN
+        INSERT (user_id, secret_encrypted, created_at) VALUES (@userId, @secretEncrypted, GETUTCDATE());
+    `, { userId, secretEncrypted: encryptSecret(secret, encryptionKeyMaterial()) });
+
+    const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+      `&algorithm=SHA1&digits=${CODE_DIGITS}&period=${STEP_SECONDS}`;
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl)
+    };
+  }
+
+  /**
+   * Finish enrollment with the first code from the authenticator app
+   * @returns {Promise<string[]|null>} - The recovery codes, or null when the code is wrong or
+   *   there is no enrollment in progress
+   */
+  static async confirmEnrollment(userId, code) {
+    const rows = await database.query(
+      'SELECT secret_encrypted FROM User_Two_Factor WHERE user_id = @userId AND enabled_at IS NULL',
+      { userId }
+    );
+    if (rows.length === 0) return null;
+
+    const step = matchTotpStep(decryptSecret(rows[0].secret_encrypted, encryptionKeyMaterial()), code);
+    if (step === null) return null;
+
+    await database.query(`
+      UPDATE User_Two_Factor
+      SET enabled_at = GETUTCDATE(), last_used_step = @step
+      WHERE user_id = @userId
+    `, { userId, step });
+
+    return this.regenerateRecoveryCodes(userId);
+  }
+
+  /**
+   * Check a code from the authenticator app; each code is accepted once
+   */
+  static async verifyCode(userId, code) {
+    const rows = await database.query(
+      'SELECT secret_encrypted FROM User_Two_Factor WHERE user_id = @userId AND enabled_at IS NOT NULL',
+      { userId }
+    );
+    if (rows.length === 0) return false;
+
+    const step = matchTotpStep(decryptSecret(rows[0].secret_encrypted, encryptionKeyMaterial()), code);
+    if (step === null) return false;
+
+    const claimed = await database.query(`
+      UPDATE User_Two_Factor
+      SET last_used_step = @step
+      OUTPUT INSERTED.user_id
+      WHERE user_id = @userId AND (last_used_step IS NULL OR last_used_step < @step)
+    `, { userId, step });
+    return claimed.length > 0;
+  }
+
+  static async useRecoveryCode(userId, recoveryCode) {
+    const rows = await database.query(`
+      UPDATE User_Recovery_Codes
+      SET used_at = GETUTCDATE()
+      OUTPUT INSERTED.code_id
+      WHERE user_id = @userId AND code_hash = @codeHash AND used_at IS NULL
+    `, { userId, codeHash: hashRecoveryCode(recoveryCode) });
+    return rows.length > 0;
+  }
+
+  /**
+   * Replace all recovery codes
+   * @returns {Promise<string[]>} - The new codes; only their hashes are kept
+   */
+  static async regenerateRecoveryCodes(userId) {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    await database.query('DELETE FROM User_Recovery_Codes WHERE user_id = @userId', { userId });
+    for (const code of codes) {
+      await database.query(`
+        INSERT INTO User_Recovery_Codes (user_id, code_hash, created_at)
+        VALUES (@userId, @codeHash, GETUTCDATE())
+      `, { userId, codeHash: hashRecoveryCode(code) });
+    }
+
+    return codes;
+  }
+
+  /**
+   * Remove 2FA from an account, including any enrollment in progress
+   * @returns {Promise<boolean>} - Whether there was anything to remove
+   */
+  static async disable(userId) {
+    const removed = await database.query(
+      'DELETE FROM User_Two_Factor OUTPUT DELETED.user_id WHERE user_id = @userId',
+      { userId }
+    );
+    await database.query('DELETE FROM User_Recovery_Codes WHERE user_id = @userId', { userId });
+    return removed.length > 0;
+  }
+
+  static async getPolicy() {
+    return database.query(`
+      SELECT name as role_name, display_name, requires_two_factor
+      FROM roles
+      WHERE is_active = 1
+      ORDER BY is_system_role DESC, name
+    `);
+  }
+
+  static async setRolePolicy(roleName, required) {
+    const rows = await database.query(`
+      UPDATE roles
+      SET requires_two_factor = @required, updated_at = GETDATE()
+      OUTPUT INSERTED.name as role_name, INSERTED.display_name, INSERTED.requires_two_factor
+      WHERE name = @roleName
+    `, { roleName, required });
+    return rows[0] || null;
+  }
+}
+
+export default TwoFactorService;
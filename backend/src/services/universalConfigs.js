@@ -0,0 +1,113 @@
+import sql from 'mssql';
+import database from '../config/database.js';
+import EffectiveConfigService from './effectiveConfig.js';
+
+/**
+ * Universal communication configuration operations shared by the admin routes and the
+ * activation scheduler.
+ */
+
+/**
+ * Make a universal configuration (template) the active one and record it in the audit trail
+ * @param {number} configId
+ * @param {number} userId - User the activation is attributed to
+ * @returns {Promise<Object|null>} - The activated row, or null when it doesn't exist
+ */
+export async function activateUniversalConfig(configId, userId) {
+    const rows = await database.query(
+        'SELECT * FROM Universal_Communication_Config WHERE config_id = @config_id',
+        { config_id: configId }
+    );
+    if (rows.length === 0) {
+        return null;
+    }
+    const config = rows[0];
+
+    const pool = await database.connect();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+        // Deactivate current active configuration
+        await transaction.request().query(`
+            UPDATE Universal_Communication_Config 
+            SET is_active = 0 
+            WHERE is_active = 1
+        `);
+
+        // Activate the selected template
+        await transaction.request()
+            .input('config_id', configId)
+            .input('activated_by', userId)
+            .query(`
+                UPDATE Universal_Communication_Config 
+                SET is_active = 1,
+                    activated_at = GETUTCDATE(),
+                    activated_by = @activated_by
+                WHERE config_id = @config_id
+            `);
+
+        // Log to audit
+        await transaction.request()
+            .input('config_id', configId)
+            .input('changed_by', userId)
+            .input('new_settings', config.communication_settings)
+            .query(`
+                INSERT INTO Universal_Comm_Config_Audit (
+                    config_id,
+                    action,
+                    changed_by,
+                    changed_at,
+                    new_settings
+                ) VALUES (
+                    @config_id,
+                    'ACTIVATED',
+                    @changed_by,
+                    GETUTCDATE(),
+                    @new_settings
+                )
+            `);
+
+        await transaction.commit();
+    } catch (error) {
+        await transaction.rollback();
+        throw error;
+    }
+
+    // Universal settings are the base layer of every device's effective configuration
+    await EffectiveConfigService.refreshHashesSafely();
+
+    return config;
+}
+
+// Permission types accepted by sp_ValidateUniversalConfigPermission
+export const UNIVERSAL_PERMISSION_TYPES = ['ACTIVATE', 'APPROVE'];
+
+/**
+ * Check a user's permission on a template (sp_ValidateUniversalConfigPermission)
+ * @param {string} permissionType - One of UNIVERSAL_PERMISSION_TYPES
+ */
+export async function hasUniversalConfigPermission(configId, userId, permissionType) {
+    const permissionResult = await database.execute('sp_ValidateUniversalConfigPermission', {
+        config_id: configId,
+        user_id: userId,
+        permission_type: permissionType
+    });
+
+    return !!(permissionResult && permissionResult.length > 0 && permissionResult[0].has_permission);
+}
+
+/**
+ * Record an action on a universal configuration in Universal_Comm_Config_Audit
+ */
+export async function logUniversalConfigAction(configId, action, userId, newSettings = null) {
+    await database.query(`
+        INSERT INTO Universal_Comm_Config_Audit (config_id, action, changed_by, changed_at, new_settings)
+        VALUES (@config_id, @action, @changed_by, GETUTCDATE(), @new_settings)
+    `, {
+        config_id: configId,
+        action,
+        changed_by: userId,
+        new_settings: newSettings
+    });
+}
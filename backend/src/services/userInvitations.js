@@ -0,0 +1,238 @@
+import crypto from 'crypto';
+import sql from 'mssql';
+import database from '../config/database.js';
+import { hasMinimumRole } from '../middleware/auth.js';
+
+/**
+ * Invite-only registration.
+ * An admin, or a client admin (a non-admin account bound to a client), issues an invitation for
+ * one email address with a fixed role and client; the invitee registers with the token from the
+ * invite link. Client admins can only invite into their own client, and only roles below their
+ * own. Tokens are single use, expire, and are stored as SHA-256 hashes only.
+ * With ALLOW_OPEN_REGISTRATION=true, sign-ups without an invitation become pending accounts that
+ * an admin approves or rejects.
+ */
+
+export const ACCOUNT_STATUSES = ['active', 'pending', 'rejected'];
+export const INVITATION_STATES = ['pending', 'accepted', 'expired', 'revoked'];
+
+const DEFAULT_EXPIRY_HOURS = parseInt(process.env.INVITATION_EXPIRY_HOURS) || 72;
+export const MAX_EXPIRY_HOURS = 24 * 30;
+
+// Uninvited sign-ups get the least privileged role until an admin changes it
+export const OPEN_REGISTRATION_ROLE = 'viewer';
+
+export const isOpenRegistrationAllowed = () => process.env.ALLOW_OPEN_REGISTRATION === 'true';
+
+const hashToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+export const buildInviteLink = (token) =>
+  `${(process.env.FRONTEND_URL || '').replace(/\/$/, '')}/register?invite=${encodeURIComponent(token)}`;
+
+export function getInvitationState(invitation, now = new Date()) {
+  if (invitation.revoked_at) return 'revoked';
+  if (invitation.accepted_at) return 'accepted';
+  if (new Date(invitation.expires_at) <= now) return 'expired';
+  return 'pending';
+}
+
+export const toInvitationResponse = (row) => ({
+  invitationId: row.invitation_id,
+  email: row.email,
+  role: row.role,
+  clientId: row.client_id,
+  state: getInvitationState(row),
+  invitedBy: row.invited_by,
+  invitedByName: row.invited_by_name || null,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+  acceptedAt: row.accepted_at,
+  acceptedUserId: row.accepted_user_id,
+  revokedAt: row.revoked_at
+});
+
+const INVITATION_SELECT = `
+  SELECT i.*, u.user_name as invited_by_name
+  FROM User_Invitations i
+  LEFT JOIN users u ON i.invited_by = u.id
+`;
+
+class UserInvitationService {
+  static async tablesExist() {
+    return database.tablesExist(['User_Invitations'], ['users.account_status']);
+  }
+
+  /**
+   * The inviting user with their client, for scoping what they may issue
+   */
+  static async getInviter(user) {
+    const rows = await database.query('SELECT client_id FROM users WHERE id = @userId', { userId: user.id });
+    return {
+      id: user.id,
+      role: user.role,
+      clientId: rows[0]?.client_id != null ? String(rows[0].client_id) : null,
+      isAdmin: user.role === 'admin'
+    };
+  }
+
+  /**
+   * Why an inviter may not issue an invitation, if they may not
+   */
+  static async checkInvitePermission(inviter, { role, clientId }) {
+    const roles = await database.query(
+      'SELECT name FROM roles WHERE name = @role AND is_active = 1',
+      { role }
+    );
+    if (roles.length === 0) {
+      return `Unknown role: ${role}`;
+    }
+    if (inviter.isAdmin) {
+      return null;
+    }
+
+    if (!inviter.clientId || !hasMinimumRole(inviter.role, 'user')) {
+      return 'Only admins and client admins can invite users';
+    }
+    if (String(clientId ?? '') !== inviter.clientId) {
+      return 'Client admins can only invite users to their own client';
+    }
+    if (hasMinimumRole(role, inviter.role)) {
+      return 'Client admins can only invite roles below their own';
+    }
+    return null;
+  }
+
+  /**
+   * Issue an invitation
+   * @returns {Promise<Object>} - { invitation, token, inviteLink }; the token is only returned here
+   */
+  static async create({ email, role, clientId = null, expiresInHours = DEFAULT_EXPIRY_HOURS }, inviterId) {
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    const rows = await database.query(`
+      INSERT INTO User_Invitations (token_hash, email, role, client_id, invited_by, created_at, expires_at)
+      OUTPUT INSERTED.invitation_id
+      VALUES (@tokenHash, @email, @role, @clientId, @inviterId, GETUTCDATE(), DATEADD(HOUR, @expiresInHours, GETUTCDATE()))
+    `, {
+      tokenHash: hashToken(token),
+      email: email.toLowerCase(),
+      role,
+      clientId: clientId ? String(clientId) : null,
+      inviterId,
+      expiresInHours
+    });
+
+    return {
+      invitation: await this.getInvitation(rows[0].invitation_id),
+      token,
+      inviteLink: buildInviteLink(token)
+    };
+  }
+
+  static async getInvitation(invitationId) {
+    const rows = await database.query(`${INVITATION_SELECT} WHERE i.invitation_id = @invitationId`, { invitationId });
+    return rows[0] ? toInvitationResponse(rows[0]) : null;
+  }
+
+  /**
+   * Invitations visible to an inviter: all of them for admins, their client's otherwise
+   */
+  static async list(inviter) {
+    const rows = await database.query(`
+      ${INVITATION_SELECT}
+      ${inviter.isAdmin ? '' : 'WHERE i.client_id = @clientId'}
+      ORDER BY i.created_at DESC
+    `, inviter.isAdmin ? {} : { clientId: inviter.clientId });
+
+    return rows.map(toInvitationResponse);
+  }
+
+  static async revoke(invitationId, inviter) {
+    const rows = await database.query(`
+      UPDATE User_Invitations
+      SET revoked_at = GETUTCDATE(), revoked_by = @userId
+      OUTPUT INSERTED.invitation_id
+      WHERE invitation_id = @invitationId AND revoked_at IS NULL AND accepted_at IS NULL
+        ${inviter.isAdmin ? '' : 'AND client_id = @clientId'}
+    `, { invitationId, userId: inviter.id, clientId: inviter.clientId });
+
+    return rows.length > 0 ? this.getInvitation(invitationId) : null;
+  }
+
+  /**
+   * Open invitation for a token, or null when it is unknown, used, revoked or expired
+   */
+  static async findUsable(token) {
+    const rows = await database.query(`
+      SELECT * FROM User_Invitations
+      WHERE token_hash = @tokenHash AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > GETUTCDATE()
+    `, { tokenHash: hashToken(token) });
+    return rows[0] || null;
+  }
+
+  /**
+   * Create the invited account and use up the invitation in one transaction
+   * @returns {Promise<Object|null>} - The new user row, or null when the invitation was used or
+   *   withdrawn in the meantime
+   */
+  static async acceptInvitation(invitation, { name, passwordHash }) {
+    const pool = await database.connect();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    try {
+      const claimed = await transaction.request()
+        .input('invitationId', invitation.invitation_id)
+        .query(`
+          UPDATE User_Invitations
+          SET accepted_at = GETUTCDATE()
+          OUTPUT INSERTED.invitation_id
+          WHERE invitation_id = @invitationId AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > GETUTCDATE()
+        `);
+      if (claimed.recordset.length === 0) {
+        await transaction.rollback();
+        return null;
+      }
+
+      const created = await transaction.request()
+        .input('name', name)
+        .input('email', invitation.email)
+        .input('passwordHash', passwordHash)
+        .input('role', invitation.role)
+        .input('clientId', invitation.client_id)
+        .query(`
+          INSERT INTO users (user_name, email, password, roles, client_id, account_status)
+          OUTPUT INSERTED.id, INSERTED.user_name, INSERTED.email, INSERTED.roles, INSERTED.client_id
+          VALUES (@name, @email, @passwordHash, @role, @clientId, 'active')
+        `);
+      const user = created.recordset[0];
+
+      await transaction.request()
+        .input('invitationId', invitation.invitation_id)
+        .input('userId', user.id)
+        .query('UPDATE User_Invitations SET accepted_user_id = @userId WHERE invitation_id = @invitationId');
+
+      await transaction.commit();
+      return user;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  /**
+   * Approve or reject a pending sign-up
+   * @returns {Promise<Object|null>} - The updated user, or null when it isn't pending
+   */
+  static async setAccountStatus(userId, status, changedBy) {
+    const rows = await database.query(`
+      UPDATE users
+      SET account_status = @status, status_changed_by = @changedBy, status_changed_at = GETUTCDATE()
+      OUTPUT INSERTED.id, INSERTED.user_name, INSERTED.email, INSERTED.roles, INSERTED.client_id, INSERTED.account_status
+      WHERE id = @userId AND account_status = 'pending'
+    `, { userId, status, changedBy });
+    return rows[0] || null;
+  }
+}
+
+export default UserInvitationService;
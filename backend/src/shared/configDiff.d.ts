@@ -0,0 +1,16 @@
+/**
+ * Type declarations for configDiff.js
+ * Consumed by the frontend through the @shared alias
+ */
+
+export type ConfigChangeType = 'added' | 'removed' | 'changed';
+
+export interface ConfigChange {
+  path: string;
+  type: ConfigChangeType;
+  before: unknown;
+  after: unknown;
+}
+
+export declare function diffConfigs(before: unknown, after: unknown): ConfigChange[];
+export declare function summarizeDiff(changes: ConfigChange[]): Record<ConfigChangeType, number>;
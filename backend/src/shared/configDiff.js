@@ -0,0 +1,70 @@
+/**
+ * Structural Configuration Diff
+ * Compares two configuration documents key by key so version history, rollback previews and
+ * template comparisons show which settings changed rather than a line diff of the JSON text.
+ * Shared by the backend and the frontend; types live in configDiff.d.ts.
+ */
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const joinPath = (path, key) => (path ? `${path}.${key}` : key);
+
+const sameValue = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Diff two configuration values
+ * Objects are compared per key and arrays per index; any other difference is a change of the whole value
+ * @returns {Array} - [{ path, type: 'added' | 'removed' | 'changed', before, after }] in document order
+ */
+export function diffConfigs(before, after) {
+  const changes = [];
+
+  const visit = (a, b, path) => {
+    if (isPlainObject(a) && isPlainObject(b)) {
+      const keys = [...Object.keys(a), ...Object.keys(b).filter(key => !(key in a))];
+      for (const key of keys) {
+        const childPath = joinPath(path, key);
+        if (!(key in b)) {
+          changes.push({ path: childPath, type: 'removed', before: a[key], after: undefined });
+        } else if (!(key in a)) {
+          changes.push({ path: childPath, type: 'added', before: undefined, after: b[key] });
+        } else {
+          visit(a[key], b[key], childPath);
+        }
+      }
+      return;
+    }
+
+    if (Array.isArray(a) && Array.isArray(b)) {
+      for (let index = 0; index < Math.max(a.length, b.length); index++) {
+        const childPath = `${path}[${index}]`;
+        if (index >= b.length) {
+          changes.push({ path: childPath, type: 'removed', before: a[index], after: undefined });
+        } else if (index >= a.length) {
+          changes.push({ path: childPath, type: 'added', before: undefined, after: b[index] });
+        } else {
+          visit(a[index], b[index], childPath);
+        }
+      }
+      return;
+    }
+
+    if (!sameValue(a, b)) {
+      changes.push({ path, type: 'changed', before: a, after: b });
+    }
+  };
+
+  visit(before ?? {}, after ?? {}, '');
+  return changes;
+}
+
+/**
+ * Count changes by type
+ * @returns {Object} - { added, removed, changed }
+ */
+export function summarizeDiff(changes) {
+  return changes.reduce((summary, change) => {
+    summary[change.type]++;
+    return summary;
+  }, { added: 0, removed: 0, changed: 0 });
+}
@@ -0,0 +1,42 @@
+/**
+ * Type declarations for configSchema.js
+ * Consumed by the frontend through the @shared alias
+ */
+
+export type ConfigSchemaType = 'object' | 'string' | 'integer' | 'number' | 'boolean' | 'array';
+
+export type ConfigSchemaAutofill = 'device_id' | 'channel_id' | 'field_id' | 'client_id' | 'conversion_logic_id';
+
+export interface ConfigSchemaNode {
+  type: ConfigSchemaType;
+  title?: string;
+  description?: string;
+  unit?: string;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  enum?: (string | number | boolean)[];
+  properties?: Record<string, ConfigSchemaNode>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: ConfigSchemaNode;
+  minItems?: number;
+  maxItems?: number;
+  autofill?: ConfigSchemaAutofill;
+}
+
+export interface ConfigFieldError {
+  path: string;
+  message: string;
+}
+
+export declare const CONFIG_SCHEMA_TYPES: ConfigSchemaType[];
+export declare const CONFIG_SCHEMA_AUTOFILL: ConfigSchemaAutofill[];
+
+export declare function validateConfigSchema(schema: unknown): string[];
+export declare function validateConfigData(schema: ConfigSchemaNode, data: unknown): ConfigFieldError[];
+export declare function buildDefaultConfig(schema: ConfigSchemaNode): Record<string, unknown>;
+export declare function formatConfigErrors(errors: ConfigFieldError[]): string;
@@ -0,0 +1,237 @@
+/**
+ * Device Configuration Schemas
+ * Validates device configurations against the versioned schema registered for the
+ * device's ConversionLogicID (stored in Device_Config_Schemas). Shared by the backend,
+ * which enforces it on create/activate, and the frontend ConfigBuilder, which renders
+ * its form from the same schema. Types live in configSchema.d.ts.
+ *
+ * Schemas use a subset of JSON Schema plus display keywords:
+ * {
+ *   "type": "object" | "string" | "integer" | "number" | "boolean" | "array",
+ *   "title": "Sampling Rate", "description": "Help text", "unit": "s",
+ *   "default": 300,
+ *   "minimum": 10, "maximum": 3600,                // integer / number
+ *   "minLength": 1, "maxLength": 64, "pattern": "^https?://", "enum": ["http", "https"],
+ *   "properties": { ... }, "required": ["..."],    // object
+ *   "additionalProperties": false,                 // object, defaults to true
+ *   "items": { ... }, "minItems": 0, "maxItems": 10, // array
+ *   "autofill": "channel_id"                       // ConfigBuilder fills from the device record
+ * }
+ */
+
+export const CONFIG_SCHEMA_TYPES = ['object', 'string', 'integer', 'number', 'boolean', 'array'];
+export const CONFIG_SCHEMA_AUTOFILL = ['device_id', 'channel_id', 'field_id', 'client_id', 'conversion_logic_id'];
+
+const NUMERIC_TYPES = ['integer', 'number'];
+
+const joinPath = (path, key) => (path ? `${path}.${key}` : key);
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+function typeMatches(type, value) {
+  switch (type) {
+    case 'object': return isPlainObject(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'string': return typeof value === 'string';
+    default: return false;
+  }
+}
+
+/**
+ * Validate a schema definition
+ * Returns a list of error messages; an empty list means the schema is usable
+ */
+export function validateConfigSchema(schema) {
+  const errors = [];
+
+  if (!isPlainObject(schema) || schema.type !== 'object') {
+    return ['Schema root must be an object schema ("type": "object")'];
+  }
+
+  const visit = (node, path) => {
+    const label = path || 'root';
+
+    if (!isPlainObject(node)) {
+      errors.push(`${label}: must be a schema object`);
+      return;
+    }
+    if (!CONFIG_SCHEMA_TYPES.includes(node.type)) {
+      errors.push(`${label}: type must be one of ${CONFIG_SCHEMA_TYPES.join(', ')}`);
+      return;
+    }
+
+    for (const keyword of ['minimum', 'maximum']) {
+      if (node[keyword] !== undefined && (!NUMERIC_TYPES.includes(node.type) || typeof node[keyword] !== 'number')) {
+        errors.push(`${label}: ${keyword} must be a number on an integer or number field`);
+      }
+    }
+    if (typeof node.minimum === 'number' && typeof node.maximum === 'number' && node.minimum > node.maximum) {
+      errors.push(`${label}: minimum is greater than maximum`);
+    }
+
+    for (const keyword of ['minLength', 'maxLength']) {
+      if (node[keyword] !== undefined && (node.type !== 'string' || !Number.isInteger(node[keyword]) || node[keyword] < 0)) {
+        errors.push(`${label}: ${keyword} must be a non-negative integer on a string field`);
+      }
+    }
+    if (node.pattern !== undefined) {
+      try {
+        new RegExp(node.pattern);
+      } catch {
+        errors.push(`${label}: pattern is not a valid regular expression`);
+      }
+    }
+
+    if (node.enum !== undefined) {
+      if (!Array.isArray(node.enum) || node.enum.length === 0) {
+        errors.push(`${label}: enum must be a non-empty array`);
+      } else if (node.enum.some(option => !typeMatches(node.type, option))) {
+        errors.push(`${label}: every enum value must be of type ${node.type}`);
+      }
+    }
+
+    if (node.autofill !== undefined && !CONFIG_SCHEMA_AUTOFILL.includes(node.autofill)) {
+      errors.push(`${label}: autofill must be one of ${CONFIG_SCHEMA_AUTOFILL.join(', ')}`);
+    }
+
+    if (node.default !== undefined && node.type !== 'object' && node.type !== 'array') {
+      const defaultErrors = validateConfigData(node, node.default);
+      if (defaultErrors.length > 0) {
+        errors.push(`${label}: default ${defaultErrors[0].message}`);
+      }
+    }
+
+    if (node.type === 'object') {
+      if (node.properties !== undefined && !isPlainObject(node.properties)) {
+        errors.push(`${label}: properties must be an object`);
+        return;
+      }
+      const properties = node.properties || {};
+      if (node.required !== undefined) {
+        if (!Array.isArray(node.required)) {
+          errors.push(`${label}: required must be an array of property names`);
+        } else {
+          node.required
+            .filter(key => !(key in properties))
+            .forEach(key => errors.push(`${label}: required property "${key}" is not defined in properties`));
+        }
+      }
+      if (node.additionalProperties !== undefined && typeof node.additionalProperties !== 'boolean') {
+        errors.push(`${label}: additionalProperties must be true or false`);
+      }
+      Object.entries(properties).forEach(([key, child]) => visit(child, joinPath(path, key)));
+    }
+
+    if (node.type === 'array') {
+      if (node.items === undefined) {
+        errors.push(`${label}: array fields need an items schema`);
+      } else {
+        visit(node.items, `${path}[]`);
+      }
+      for (const keyword of ['minItems', 'maxItems']) {
+        if (node[keyword] !== undefined && (!Number.isInteger(node[keyword]) || node[keyword] < 0)) {
+          errors.push(`${label}: ${keyword} must be a non-negative integer`);
+        }
+      }
+    }
+  };
+
+  visit(schema, '');
+  return errors;
+}
+
+/**
+ * Validate configuration data against a schema
+ * Returns field-level errors as { path, message }; path is dotted ("device_settings.sampling_rate_seconds",
+ * "servers[0]") and empty for the root
+ */
+export function validateConfigData(schema, data) {
+  const errors = [];
+
+  const visit = (node, value, path) => {
+    if (!typeMatches(node.type, value)) {
+      errors.push({ path, message: `must be ${node.type === 'integer' ? 'an integer' : `of type ${node.type}`}` });
+      return;
+    }
+
+    if (node.enum && !node.enum.includes(value)) {
+      errors.push({ path, message: `must be one of ${node.enum.map(option => JSON.stringify(option)).join(', ')}` });
+    }
+
+    if (NUMERIC_TYPES.includes(node.type)) {
+      const unit = node.unit ? ` ${node.unit}` : '';
+      if (node.minimum !== undefined && value < node.minimum) {
+        errors.push({ path, message: `must be at least ${node.minimum}${unit}` });
+      }
+      if (node.maximum !== undefined && value > node.maximum) {
+        errors.push({ path, message: `must be at most ${node.maximum}${unit}` });
+      }
+    }
+
+    if (node.type === 'string') {
+      if (node.minLength !== undefined && value.length < node.minLength) {
+        errors.push({ path, message: node.minLength === 1 ? 'must not be empty' : `must be at least ${node.minLength} characters` });
+      }
+      if (node.maxLength !== undefined && value.length > node.maxLength) {
+        errors.push({ path, message: `must be at most ${node.maxLength} characters` });
+      }
+      if (node.pattern !== undefined && !new RegExp(node.pattern).test(value)) {
+        errors.push({ path, message: `must match ${node.pattern}` });
+      }
+    }
+
+    if (node.type === 'object') {
+      const properties = node.properties || {};
+      (node.required || [])
+        .filter(key => value[key] === undefined)
+        .forEach(key => errors.push({ path: joinPath(path, key), message: 'is required' }));
+
+      for (const [key, child] of Object.entries(value)) {
+        if (properties[key]) {
+          visit(properties[key], child, joinPath(path, key));
+        } else if (node.additionalProperties === false) {
+          errors.push({ path: joinPath(path, key), message: 'is not allowed by the schema' });
+        }
+      }
+    }
+
+    if (node.type === 'array') {
+      if (node.minItems !== undefined && value.length < node.minItems) {
+        errors.push({ path, message: `must have at least ${node.minItems} items` });
+      }
+      if (node.maxItems !== undefined && value.length > node.maxItems) {
+        errors.push({ path, message: `must have at most ${node.maxItems} items` });
+      }
+      value.forEach((item, index) => visit(node.items, item, `${path}[${index}]`));
+    }
+  };
+
+  visit(schema, data, '');
+  return errors;
+}
+
+/**
+ * Build a configuration from the schema defaults
+ * Objects are always created so nested defaults apply; other fields without a default are left out
+ */
+export function buildDefaultConfig(schema) {
+  if (schema.type !== 'object') {
+    return schema.default;
+  }
+
+  const config = {};
+  for (const [key, child] of Object.entries(schema.properties || {})) {
+    const value = buildDefaultConfig(child);
+    if (value !== undefined) config[key] = value;
+  }
+  return config;
+}
+
+/**
+ * Format field errors as a single message for API responses and toasts
+ */
+export function formatConfigErrors(errors) {
+  return errors.map(error => `${error.path || 'configuration'} ${error.message}`).join('; ');
+}
@@ -0,0 +1,21 @@
+/**
+ * Type declarations for effectiveConfig.js
+ * Consumed by the frontend through the @shared alias
+ */
+
+export type ConfigLayer = 'universal' | 'client' | 'device';
+
+export declare const CONFIG_LAYERS: ConfigLayer[];
+
+export interface ConfigLayerInput {
+  layer: ConfigLayer;
+  data: Record<string, unknown> | null;
+}
+
+export interface MergedConfig {
+  data: Record<string, unknown>;
+  sources: Record<string, ConfigLayer>;
+}
+
+export declare function mergeConfigLayers(layers: ConfigLayerInput[]): MergedConfig;
+export declare function fieldSource(sources: Record<string, ConfigLayer>, path: string): ConfigLayer | null;
@@ -0,0 +1,70 @@
+/**
+ * Effective Device Configuration
+ * A device runs the merge of three layers, lowest precedence first: the active universal
+ * communication block, its client's overrides and its own active configuration. Objects are
+ * merged key by key; any other value (including arrays) replaces the lower layer's value.
+ * Shared by the backend, which serves the merged result to devices, and the frontend, which
+ * shows where each field came from. Types live in effectiveConfig.d.ts.
+ */
+
+export const CONFIG_LAYERS = ['universal', 'client', 'device'];
+
+const isPlainObject = (value) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const joinPath = (path, key) => (path ? `${path}.${key}` : key);
+
+/**
+ * Merge configuration layers
+ * @param {Array} layers - [{ layer, data }] from lowest to highest precedence; null data is skipped
+ * @returns {Object} - { data, sources } where sources maps each leaf path to the layer that set it
+ */
+export function mergeConfigLayers(layers) {
+  const data = {};
+  const sources = {};
+
+  const clearSources = (path) => {
+    Object.keys(sources)
+      .filter(key => key === path || key.startsWith(`${path}.`) || key.startsWith(`${path}[`))
+      .forEach(key => delete sources[key]);
+  };
+
+  const apply = (target, value, path, layer) => {
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = joinPath(path, key);
+
+      if (isPlainObject(child) && Object.keys(child).length > 0) {
+        if (!isPlainObject(target[key])) {
+          clearSources(childPath);
+          target[key] = {};
+        }
+        apply(target[key], child, childPath, layer);
+      } else {
+        clearSources(childPath);
+        target[key] = child;
+        sources[childPath] = layer;
+      }
+    }
+  };
+
+  for (const { layer, data: layerData } of layers) {
+    if (isPlainObject(layerData)) {
+      apply(data, layerData, '', layer);
+    }
+  }
+
+  return { data, sources };
+}
+
+/**
+ * Layer that set a field, or the nearest parent path recorded in sources
+ */
+export function fieldSource(sources, path) {
+  let current = path;
+  while (current) {
+    if (sources[current]) return sources[current];
+    const parent = current.replace(/(\.[^.[\]]+|\[\d+\])$/, '');
+    if (parent === current) break;
+    current = parent;
+  }
+  return null;
+}
@@ -0,0 +1,105 @@
+/**
+ * Type declarations for hexConversion.js
+ * Consumed by the frontend through the @shared alias
+ */
+
+// Built-in logic types; registered decoders may introduce new ones
+export type DecoderLogicType = 'P1' | 'P2' | 'Unknown' | (string & {});
+
+export interface ConversionStep {
+  step: number;
+  description: string;
+  input: string;
+  output: string;
+  notes?: string;
+}
+
+export interface DecodedData {
+  [key: string]: string | number;
+}
+
+export interface ConversionResult {
+  steps: ConversionStep[];
+  decodedData: DecodedData;
+  success: boolean;
+  error?: string;
+  logicType: DecoderLogicType;
+}
+
+export interface DecodedFieldMismatch {
+  field: string;
+  decoded: string | number;
+  stored: string | number | null;
+}
+
+export interface EncodeResult {
+  success: boolean;
+  /** What the device sends: the numeric string for P1, the encrypted hex for P2 */
+  payload: string;
+  hex: string;
+  /** The input values as the decoder will report them back */
+  normalizedData: DecodedData;
+  error?: string;
+  logicType: DecoderLogicType;
+}
+
+export interface RoundTripResult {
+  encoded: EncodeResult;
+  decoded: ConversionResult | null;
+  mismatches: DecodedFieldMismatch[];
+}
+
+export type DecoderFieldType = 'number' | 'text' | 'status' | 'faultCode';
+
+export interface DecoderField {
+  key: string;
+  label: string;
+  type: DecoderFieldType;
+  unit?: string;
+}
+
+export interface DecoderDefinition {
+  logicId: number;
+  name: string;
+  logicType: DecoderLogicType;
+  description?: string;
+  /** Returns an error message, or null when the payload can be decoded */
+  validateInput: (hexData: string) => string | null;
+  decode: (hexData: string) => ConversionResult;
+  /** Optional inverse of decode, used to generate test packets */
+  encode?: (data: Partial<Record<string, unknown>>) => EncodeResult;
+  /** Random encoder input for synthetic packets */
+  generateSample?: (random: () => number) => DecodedData;
+  fields: DecoderField[];
+  faultCodes?: Record<number, string>;
+  /** Built-in decoders cannot be replaced or removed at runtime */
+  builtIn?: boolean;
+}
+
+export interface RegisteredDecoder extends DecoderDefinition {
+  faultCodes: Record<number, string>;
+  builtIn: boolean;
+}
+
+export declare const P1_FAULT_CODES: Record<number, string>;
+export declare const P2_XOR_KEY: string;
+
+export declare function validateP1Input(hexData: string): string | null;
+export declare function validateP2Input(hexData: string): string | null;
+export declare function convertP1Logic(hexData: string): ConversionResult;
+export declare function convertP2Logic(hexData: string): ConversionResult;
+export declare function encodeP1Logic(data: Partial<Record<string, unknown>>): EncodeResult;
+export declare function encodeP2Logic(data: Partial<Record<string, unknown>>): EncodeResult;
+export declare function convertHexData(hexData: string, logicId: number): ConversionResult;
+export declare function compareDecodedData(
+  decodedData: DecodedData,
+  storedData: Record<string, unknown>,
+  fields?: string[]
+): DecodedFieldMismatch[];
+export declare function encodeHexData(data: Partial<Record<string, unknown>>, logicId: number): EncodeResult;
+export declare function generateSyntheticData(logicId: number, random?: () => number): DecodedData | null;
+export declare function roundTripHexData(data: Partial<Record<string, unknown>>, logicId: number): RoundTripResult;
+export declare function registerDecoder(decoder: DecoderDefinition, options?: { replace?: boolean }): void;
+export declare function unregisterDecoder(logicId: number): boolean;
+export declare function getDecoder(logicId: number): RegisteredDecoder | null;
+export declare function listDecoders(): RegisteredDecoder[];
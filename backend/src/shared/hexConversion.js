@@ -0,0 +1,824 @@
+/**
+ * Hex Data Conversion Library
+ * Shared by the backend (ingestion, bulk re-decode) and the frontend
+ * (HexTroubleshoot, imported through the @shared alias). Types live in
+ * hexConversion.d.ts next to this file - keep both in sync.
+ * Converts raw hex data from IoT devices into meaningful parameters, and
+ * encodes parameters back into device payloads for test packet generation.
+ * Decoders are looked up by the device's ConversionLogicID through the
+ * registry at the bottom of this file.
+ */
+
+// P1 Fault codes mapping (matching Python implementation)
+export const P1_FAULT_CODES = {
+  0: "FAULT_HT_VTG_TOO_LOW",
+  1: "FAULT_HT_ARC_CNT_SHORT",
+  2: "FAULT_HT_I_TOO_LOW",
+  3: "FAULT_THERMOSTAT_BROKEN",
+  4: "FAULT_GENSET_SIG_LOST",
+  5: "FAULT_MOTOR_CURRENT_TOO_LOW",
+  6: "FAULT_MOTOR_CURRENT_TOO_HIGH",
+  7: "FAULT_SCRAPPING_PENDING",
+  8: "FAULT_SOOT_COLLECTION_PENDING",
+  9: "FAULT_MOTOR_OUT_OF_PARK",
+  10: "FAULT_GSM_SIG_LOST",
+  11: "FAULT_INDUCEMENT_REQUESTED",
+  12: "FAULT_ES_SIGNAL",
+  13: "FAULT_SHAKER_MOTOR_CURRENT_TOO_LOW",
+  14: "FAULT_SHAKER_MOTOR_CURRENT_TOO_HIGH",
+  15: "FAULT_INVALID_FAULT_REPORTED"
+};
+
+export const P2_XOR_KEY = "7AC5B2E1";
+
+// Utility function to convert hex to binary with specified length
+function hexToBinary(hexValue, length = 16) {
+  return parseInt(hexValue, 16).toString(2).padStart(length, '0');
+}
+
+function errorMessage(error) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Input validators return an error message, or null when the payload is decodable
+export function validateP1Input(hexData) {
+  if (!hexData || !hexData.trim()) return "Empty input data";
+  if (!/^\d+$/.test(hexData)) return "Invalid format: P1 logic requires numeric string (digits only)";
+  if (BigInt(hexData) > 0xFFFFFFFFFFFFFFFFn) return "Invalid value: P1 payload exceeds 16 hex characters";
+  return null;
+}
+
+export function validateP2Input(hexData) {
+  if (!hexData || hexData.length !== 64) {
+    return `Invalid length: P2 logic requires exactly 64-character hex string, got ${hexData ? hexData.length : 0}`;
+  }
+  if (!/^[0-9a-fA-F]+$/.test(hexData)) return "Invalid format: P2 logic requires hex characters only";
+  return null;
+}
+
+/**
+ * P1 Logic Decoder - Genvolt fault-related data
+ * Processes numeric strings converted to 16-character hex
+ */
+export function convertP1Logic(hexData) {
+  const steps = [];
+  let stepCounter = 1;
+
+  try {
+    // Step 1: Input validation
+    steps.push({
+      step: stepCounter++,
+      description: "Validate input format",
+      input: `"${hexData}"`,
+      output: hexData.length > 0 ? "Valid numeric string" : "Invalid: empty input",
+      notes: "P1 requires numeric string input (digits only)"
+    });
+
+    const validationError = validateP1Input(hexData);
+    if (validationError) {
+      steps.push({
+        step: stepCounter++,
+        description: "Format validation failed",
+        input: hexData,
+        output: "Invalid format",
+        notes: validationError
+      });
+
+      return {
+        steps,
+        decodedData: {},
+        success: false,
+        error: validationError,
+        logicType: 'P1'
+      };
+    }
+
+    // Step 2: Convert to 16-character hex string
+    // BigInt keeps 64-bit payloads exact; parseInt loses precision past 2^53
+    const hexStr = BigInt(hexData).toString(16).toUpperCase().padStart(16, '0');
+    steps.push({
+      step: stepCounter++,
+      description: "Convert to 16-character hex string",
+      input: hexData,
+      output: hexStr,
+      notes: "Format as 16-character hex with leading zeros"
+    });
+
+    // Step 3: Extract runtime from last 4 characters
+    const runtimeHex = hexStr.slice(-4);
+    const runtime = parseInt(runtimeHex, 16);
+    steps.push({
+      step: stepCounter++,
+      description: "Extract runtime from last 4 characters",
+      input: `"${runtimeHex}" (hex)`,
+      output: `${runtime} minutes`,
+      notes: "Direct hex to decimal conversion"
+    });
+
+    // Step 4: Extract fault codes from positions -8 to -4
+    const faultCodeHex = hexStr.slice(-8, -4);
+    const faultCodeBinary = hexToBinary(faultCodeHex, 16);
+    const faultPositions = [];
+    for (let i = 0; i < faultCodeBinary.length; i++) {
+      if (faultCodeBinary[i] === '1') {
+        faultPositions.push(15 - i);
+      }
+    }
+    const faultDescriptions = faultPositions.map(pos => P1_FAULT_CODES[pos] || "No Fault");
+
+    steps.push({
+      step: stepCounter++,
+      description: "Extract and decode fault codes",
+      input: `"${faultCodeHex}" → "${faultCodeBinary}" (binary)`,
+      output: `Active faults: [${faultPositions.join(', ')}]`,
+      notes: "Convert to binary, find bit positions where value = 1"
+    });
+
+    steps.push({
+      step: stepCounter++,
+      description: "Map fault codes to descriptions",
+      input: `Fault positions: [${faultPositions.join(', ')}]`,
+      output: faultDescriptions.join(', ') || "No active faults",
+      notes: "Look up fault descriptions from fault code table"
+    });
+
+    // Step 5: Extract leading fault code and time
+    const leadingFaultHex = hexStr.charAt(hexStr.length - 10);
+    const leadingFaultCode = parseInt(leadingFaultHex, 16);
+    const leadingFaultTime = parseInt(hexStr.slice(-12, -10), 16);
+    steps.push({
+      step: stepCounter++,
+      description: "Extract leading fault information",
+      input: `Code: "${leadingFaultHex}", Time: "${hexStr.slice(-12, -10)}"`,
+      output: `Leading fault: ${leadingFaultCode}, Duration: ${leadingFaultTime}hr`,
+      notes: "Single hex character for code, 2 hex chars for time in hours"
+    });
+
+    // Step 6: Extract signal status (positions -14 to -12)
+    const signalStatusHex = hexStr.slice(-14, -12);
+    const signalStatusBinary = hexToBinary(signalStatusHex, 8);
+    const gensetSignal = signalStatusBinary[0] === '1' ? "On" : "Off";
+    const thermostatStatus = signalStatusBinary[1] === '1' ? "On" : "Off";
+    const hvOutputVoltage = parseInt(signalStatusBinary.slice(2), 2);
+
+    steps.push({
+      step: stepCounter++,
+      description: "Extract signal status information",
+      input: `"${signalStatusHex}" → "${signalStatusBinary}" (binary)`,
+      output: `Genset: ${gensetSignal}, Thermostat: ${thermostatStatus}, HV: ${hvOutputVoltage}kV`,
+      notes: "Bit 0: Genset Signal, Bit 1: Thermostat, Bits 2-7: HV Output Voltage"
+    });
+
+    // Step 7: Extract HV current information (first 2 hex characters)
+    const hvCurrentHex = hexStr.slice(0, 2);
+    const hvCurrentBinary = hexToBinary(hvCurrentHex, 8);
+    const hvSourceNo = parseInt(hvCurrentBinary.slice(0, 2), 2);
+    const hvOutputCurrent = parseInt(hvCurrentBinary.slice(-6), 2);
+
+    steps.push({
+      step: stepCounter++,
+      description: "Extract HV current information",
+      input: `"${hvCurrentHex}" → "${hvCurrentBinary}" (binary)`,
+      output: `Source: ${hvSourceNo}, Current: ${hvOutputCurrent}mA`,
+      notes: "Bits 0-1: HV Source Number, Bits 2-7: HV Output Current"
+    });
+
+    // Final decoded data
+    const decodedData = {
+      "RuntimeMin": runtime,
+      "FaultCodes": faultPositions.join(", "),
+      "FaultDescriptions": faultDescriptions.join(", "),
+      "LeadingFaultCode": leadingFaultCode,
+      "LeadingFaultTimeHr": leadingFaultTime,
+      "GensetSignal": gensetSignal,
+      "ThermostatStatus": thermostatStatus,
+      "HVOutputVoltage_kV": hvOutputVoltage,
+      "HVSourceNo": hvSourceNo,
+      "HVOutputCurrent_mA": hvOutputCurrent
+    };
+
+    return {
+      steps,
+      decodedData,
+      success: true,
+      logicType: 'P1'
+    };
+
+  } catch (error) {
+    steps.push({
+      step: stepCounter++,
+      description: "Conversion failed",
+      input: hexData,
+      output: "Error occurred",
+      notes: `Error: ${errorMessage(error)}`
+    });
+
+    return {
+      steps,
+      decodedData: {},
+      success: false,
+      error: `Failed to decode P1 hex data: ${errorMessage(error)}`,
+      logicType: 'P1'
+    };
+  }
+}
+
+/**
+ * P2 Logic Decoder - SICK sensor operational data
+ * Processes 64-character hex strings using XOR decryption
+ */
+export function convertP2Logic(hexData) {
+  const steps = [];
+  let stepCounter = 1;
+
+  try {
+    // Step 1: Input validation
+    const validationError = validateP2Input(hexData);
+    steps.push({
+      step: stepCounter++,
+      description: "Validate input format",
+      input: `"${hexData}" (${hexData.length} chars)`,
+      output: validationError ? `Invalid: ${hexData.length} characters` : "Valid 64-character hex string",
+      notes: "P2 requires exactly 64-character hex string"
+    });
+
+    if (validationError) {
+      return {
+        steps,
+        decodedData: {},
+        success: false,
+        error: validationError,
+        logicType: 'P2'
+      };
+    }
+
+    // Step 2: XOR Key setup
+    const xorKeyInt = parseInt(P2_XOR_KEY, 16);
+    steps.push({
+      step: stepCounter++,
+      description: "Setup XOR decryption key",
+      input: `Key: "${P2_XOR_KEY}"`,
+      output: `Key integer: ${xorKeyInt}`,
+      notes: "Standard decryption key for P2 devices"
+    });
+
+    // Step 3: Split into 8 chunks of 8 characters
+    const chunks = [];
+    for (let i = 0; i < 64; i += 8) {
+      chunks.push(hexData.slice(i, i + 8));
+    }
+    steps.push({
+      step: stepCounter++,
+      description: "Split 64-character hex into 8 chunks",
+      input: `64-char string`,
+      output: `8 chunks: [${chunks.join(', ')}]`,
+      notes: "Each chunk represents different data categories"
+    });
+
+    // Step 4: XOR decrypt each chunk
+    const decryptedChunks = [];
+    for (const chunk of chunks) {
+      const chunkInt = parseInt(chunk, 16);
+      const decryptedInt = (chunkInt ^ xorKeyInt) >>> 0; // Unsigned 32-bit operation
+      const decryptedHex = decryptedInt.toString(16).toUpperCase().padStart(8, '0');
+      decryptedChunks.push(decryptedHex);
+    }
+    steps.push({
+      step: stepCounter++,
+      description: "XOR decrypt each chunk",
+      input: `Encrypted chunks with key ${P2_XOR_KEY}`,
+      output: `Decrypted: [${decryptedChunks.join(', ')}]`,
+      notes: "Apply XOR operation to each 8-character chunk"
+    });
+
+    // Step 5: Process Chunk 1 for Device ID (optional)
+    const chunk1 = decryptedChunks[0];
+    const seriesHex = chunk1.slice(0, 4);
+    const serialHex = chunk1.slice(4);
+    let seriesAscii = "";
+    try {
+      // Convert hex to ASCII
+      seriesAscii = seriesHex.match(/.{2}/g)?.map(hex => String.fromCharCode(parseInt(hex, 16))).join('') || "";
+      seriesAscii = seriesAscii.replace(/\0/g, ''); // Remove null characters
+    } catch (e) {
+      seriesAscii = "";
+    }
+    const serialDecimal = parseInt(serialHex, 16);
+    const deviceIdExtracted = seriesAscii + serialDecimal.toString().padStart(5, '0');
+
+    steps.push({
+      step: stepCounter++,
+      description: "Extract Device ID from Chunk 1",
+      input: `Series: "${seriesHex}", Serial: "${serialHex}"`,
+      output: `Device ID: "${deviceIdExtracted}"`,
+      notes: "Series (4 hex → ASCII) + Serial (4 hex → 5-digit decimal)"
+    });
+
+    // Step 6: Process Chunk 2 for operational values
+    const chunk2 = decryptedChunks[1];
+    let gsmSignalStrength = parseInt(chunk2.slice(0, 2), 16);
+    if (gsmSignalStrength > 6) {
+      gsmSignalStrength = gsmSignalStrength - 128; // Handle overflow adjustment
+    }
+    const motorOnTimeSec = parseInt(chunk2.slice(2, 4), 16);
+    const motorOffTimeSec = parseInt(chunk2.slice(4, 6), 16);
+    const wheelsConfigured = parseInt(chunk2.slice(6, 8), 16);
+
+    steps.push({
+      step: stepCounter++,
+      description: "Extract operational values from Chunk 2",
+      input: `"${chunk2}" split into 2-char segments`,
+      output: `GSM: ${gsmSignalStrength}, Motor ON: ${motorOnTimeSec}s, Motor OFF: ${motorOffTimeSec}s, Wheels: ${wheelsConfigured}`,
+      notes: "GSM signal (with overflow check), motor timings, wheel count"
+    });
+
+    // Step 7: Process Chunk 3 for coordinate integers
+    const chunk3 = decryptedChunks[2];
+    const latitudeInteger = parseInt(chunk3.slice(0, 4), 16);
+    const longitudeInteger = parseInt(chunk3.slice(4), 16);
+
+    steps.push({
+      step: stepCounter++,
+      description: "Extract coordinate integer parts from Chunk 3",
+      input: `"${chunk3}" → Lat: "${chunk3.slice(0, 4)}", Lng: "${chunk3.slice(4)}"`,
+      output: `Latitude int: ${latitudeInteger}, Longitude int: ${longitudeInteger}`,
+      notes: "Integer parts of GPS coordinates"
+    });
+
+    // Step 8: Process Chunks 4 & 5 for coordinate decimals
+    const latitudeDecimal = parseInt(decryptedChunks[3], 16);
+    const longitudeDecimal = parseInt(decryptedChunks[4], 16);
+    const latitude = parseFloat(`${latitudeInteger}.${latitudeDecimal}`);
+    const longitude = parseFloat(`${longitudeInteger}.${longitudeDecimal}`);
+
+    steps.push({
+      step: stepCounter++,
+      description: "Extract coordinate decimal parts and combine",
+      input: `Chunk 4: "${decryptedChunks[3]}" (lat decimal), Chunk 5: "${decryptedChunks[4]}" (lng decimal)`,
+      output: `Final coordinates: ${latitude}, ${longitude}`,
+      notes: "Combine integer.decimal format for final GPS coordinates"
+    });
+
+    // Step 9: Process Chunk 6 for detection and current values
+    const chunk6 = decryptedChunks[5];
+    const wheelsDetected = parseInt(chunk6.slice(0, 2), 16);
+    const faultCode = parseInt(chunk6.slice(2, 4), 16);
+    // Byte swapping for motor current
+    const motorCurrentSwapped = chunk6.slice(6, 8) + chunk6.slice(4, 6);
+    const motorCurrentMA = parseInt(motorCurrentSwapped, 16);
+
+    steps.push({
+      step: stepCounter++,
+      description: "Extract detection and current values from Chunk 6",
+      input: `"${chunk6}" with byte swapping for current`,
+      output: `Wheels detected: ${wheelsDetected}, Fault: ${faultCode}, Current: ${motorCurrentMA}mA`,
+      notes: "Wheels detected, fault code, motor current with byte swapping"
+    });
+
+    // Final decoded data
+    const decodedData = {
+      "device_id_extracted": deviceIdExtracted,
+      "GSM_Signal_Strength": gsmSignalStrength,
+      "Motor_ON_Time_sec": motorOnTimeSec,
+      "Motor_OFF_Time_sec": motorOffTimeSec,
+      "Number_of_Wheels_Configured": wheelsConfigured,
+      "Latitude": latitude,
+      "Longitude": longitude,
+      "Number_of_Wheels_Detected": wheelsDetected,
+      "Fault_Code": faultCode,
+      "Motor_Current_mA": motorCurrentMA
+    };
+
+    return {
+      steps,
+      decodedData,
+      success: true,
+      logicType: 'P2'
+    };
+
+  } catch (error) {
+    steps.push({
+      step: stepCounter++,
+      description: "Conversion failed",
+      input: hexData,
+      output: "Error occurred",
+      notes: `Error: ${errorMessage(error)}`
+    });
+
+    return {
+      steps,
+      decodedData: {},
+      success: false,
+      error: `Failed to decode P2 hex data: ${errorMessage(error)}`,
+      logicType: 'P2'
+    };
+  }
+}
+
+// Range-check an integer field for the encoders; returns an error message or null
+function checkRange(data, key, min, max) {
+  const value = Number(data[key]);
+  if (data[key] === undefined || data[key] === null || data[key] === '' || !Number.isInteger(value)) {
+    return `${key} must be an integer`;
+  }
+  if (value < min || value > max) return `${key} must be between ${min} and ${max}`;
+  return null;
+}
+
+function encodeFailure(error, logicType) {
+  return { success: false, payload: '', hex: '', normalizedData: {}, error, logicType };
+}
+
+const isOn = (value) => value === true || value === 1 || String(value).toLowerCase() === 'on';
+
+// Accepts "0, 3", [0, 3] or an empty value; returns sorted unique bit positions
+function parseFaultPositions(value) {
+  if (value === undefined || value === null || value === '') return [];
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  return [...new Set(items.map(item => String(item).trim()).filter(Boolean).map(Number))]
+    .sort((a, b) => b - a);
+}
+
+/**
+ * P1 Logic Encoder - inverse of convertP1Logic
+ * Builds the 16-character hex frame and the numeric string the firmware sends.
+ * FaultDescriptions is derived from FaultCodes, so only the bit positions are read.
+ */
+export function encodeP1Logic(data) {
+  const faultPositions = parseFaultPositions(data.FaultCodes);
+  const invalidFault = faultPositions.find(pos => !Number.isInteger(pos) || pos < 0 || pos > 15);
+  if (invalidFault !== undefined) {
+    return encodeFailure(`FaultCodes must be bit positions between 0 and 15, got ${invalidFault}`, 'P1');
+  }
+
+  const rangeError = [
+    checkRange(data, 'RuntimeMin', 0, 0xFFFF),
+    checkRange(data, 'LeadingFaultCode', 0, 0xF),
+    checkRange(data, 'LeadingFaultTimeHr', 0, 0xFF),
+    checkRange(data, 'HVOutputVoltage_kV', 0, 63),
+    checkRange(data, 'HVSourceNo', 0, 3),
+    checkRange(data, 'HVOutputCurrent_mA', 0, 63)
+  ].find(Boolean);
+  if (rangeError) return encodeFailure(rangeError, 'P1');
+
+  const gensetOn = isOn(data.GensetSignal);
+  const thermostatOn = isOn(data.ThermostatStatus);
+  const faultMask = faultPositions.reduce((mask, pos) => mask | (1 << pos), 0);
+  const hvCurrentByte = (Number(data.HVSourceNo) << 6) | Number(data.HVOutputCurrent_mA);
+  const signalByte = (gensetOn ? 0x80 : 0) | (thermostatOn ? 0x40 : 0) | Number(data.HVOutputVoltage_kV);
+  const toHex = (value, length) => value.toString(16).toUpperCase().padStart(length, '0');
+
+  // Layout (left to right): HV current, signal status, leading fault time,
+  // leading fault code, unused nibble, fault bitmask, runtime
+  const hex = toHex(hvCurrentByte, 2) + toHex(signalByte, 2) +
+    toHex(Number(data.LeadingFaultTimeHr), 2) + toHex(Number(data.LeadingFaultCode), 1) + '0' +
+    toHex(faultMask, 4) + toHex(Number(data.RuntimeMin), 4);
+
+  return {
+    success: true,
+    payload: BigInt(`0x${hex}`).toString(),
+    hex,
+    normalizedData: {
+      "RuntimeMin": Number(data.RuntimeMin),
+      "FaultCodes": faultPositions.join(", "),
+      "FaultDescriptions": faultPositions.map(pos => P1_FAULT_CODES[pos] || "No Fault").join(", "),
+      "LeadingFaultCode": Number(data.LeadingFaultCode),
+      "LeadingFaultTimeHr": Number(data.LeadingFaultTimeHr),
+      "GensetSignal": gensetOn ? "On" : "Off",
+      "ThermostatStatus": thermostatOn ? "On" : "Off",
+      "HVOutputVoltage_kV": Number(data.HVOutputVoltage_kV),
+      "HVSourceNo": Number(data.HVSourceNo),
+      "HVOutputCurrent_mA": Number(data.HVOutputCurrent_mA)
+    },
+    logicType: 'P1'
+  };
+}
+
+// Split a coordinate into the integer and "decimal digits as integer" chunks P2 firmware sends
+function splitP2Coordinate(key, value) {
+  const text = String(value ?? '').trim();
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(text);
+  if (!match) return { error: `${key} must be a non-negative decimal number` };
+
+  const integer = Number(match[1]);
+  const digits = (match[2] || '0').replace(/0+$/, '') || '0';
+  if (integer > 0xFFFF) return { error: `${key} integer part must be at most 65535` };
+  // The decoder rebuilds the value as "integer.decimal", so leading zeros in the fraction are lost
+  if (digits.length > 1 && digits.startsWith('0')) {
+    return { error: `${key} fraction cannot start with 0 in the P2 format` };
+  }
+  if (Number(digits) > 0xFFFFFFFF) return { error: `${key} has too many decimal digits` };
+
+  return { integer, decimal: Number(digits) };
+}
+
+/**
+ * P2 Logic Encoder - inverse of convertP2Logic
+ * Packs the 8 plaintext chunks and XOR-encrypts each one with P2_XOR_KEY.
+ * Chunks 7 and 8 are not decoded and are sent as zeros.
+ */
+export function encodeP2Logic(data) {
+  const deviceMatch = /^(\D{0,2})(\d{1,5})$/.exec(String(data.device_id_extracted ?? '').trim());
+  if (!deviceMatch || Number(deviceMatch[2]) > 0xFFFF) {
+    return encodeFailure("device_id_extracted must be up to 2 letters followed by a serial of at most 65535", 'P2');
+  }
+  if ([...deviceMatch[1]].some(char => char.charCodeAt(0) > 0xFF)) {
+    return encodeFailure("device_id_extracted series must be single-byte characters", 'P2');
+  }
+
+  const rangeError = [
+    checkRange(data, 'GSM_Signal_Strength', -121, 127),
+    checkRange(data, 'Motor_ON_Time_sec', 0, 0xFF),
+    checkRange(data, 'Motor_OFF_Time_sec', 0, 0xFF),
+    checkRange(data, 'Number_of_Wheels_Configured', 0, 0xFF),
+    checkRange(data, 'Number_of_Wheels_Detected', 0, 0xFF),
+    checkRange(data, 'Fault_Code', 0, 0xFF),
+    checkRange(data, 'Motor_Current_mA', 0, 0xFFFF)
+  ].find(Boolean);
+  if (rangeError) return encodeFailure(rangeError, 'P2');
+
+  const latitude = splitP2Coordinate('Latitude', data.Latitude);
+  const longitude = splitP2Coordinate('Longitude', data.Longitude);
+  const coordinateError = latitude.error || longitude.error;
+  if (coordinateError) return encodeFailure(coordinateError, 'P2');
+
+  const toHex = (value, length) => value.toString(16).toUpperCase().padStart(length, '0');
+  const seriesHex = [...deviceMatch[1].padEnd(2, '\0')].map(char => toHex(char.charCodeAt(0), 2)).join('');
+  // Decoder subtracts 128 from any byte above 6, so only 0-6 are stored as-is
+  const gsm = Number(data.GSM_Signal_Strength);
+  const gsmByte = gsm >= 0 && gsm <= 6 ? gsm : gsm + 128;
+  const motorCurrent = Number(data.Motor_Current_mA);
+
+  const plainChunks = [
+    seriesHex + toHex(Number(deviceMatch[2]), 4),
+    toHex(gsmByte, 2) + toHex(Number(data.Motor_ON_Time_sec), 2) +
+      toHex(Number(data.Motor_OFF_Time_sec), 2) + toHex(Number(data.Number_of_Wheels_Configured), 2),
+    toHex(latitude.integer, 4) + toHex(longitude.integer, 4),
+    toHex(latitude.decimal, 8),
+    toHex(longitude.decimal, 8),
+    // Motor current is sent little-endian (low byte first)
+    toHex(Number(data.Number_of_Wheels_Detected), 2) + toHex(Number(data.Fault_Code), 2) +
+      toHex(motorCurrent & 0xFF, 2) + toHex(motorCurrent >> 8, 2),
+    '00000000',
+    '00000000'
+  ];
+
+  const xorKeyInt = parseInt(P2_XOR_KEY, 16);
+  const hex = plainChunks
+    .map(chunk => toHex((parseInt(chunk, 16) ^ xorKeyInt) >>> 0, 8))
+    .join('');
+
+  return {
+    success: true,
+    payload: hex,
+    hex,
+    normalizedData: {
+      "device_id_extracted": deviceMatch[1] + deviceMatch[2].padStart(5, '0'),
+      "GSM_Signal_Strength": gsm,
+      "Motor_ON_Time_sec": Number(data.Motor_ON_Time_sec),
+      "Motor_OFF_Time_sec": Number(data.Motor_OFF_Time_sec),
+      "Number_of_Wheels_Configured": Number(data.Number_of_Wheels_Configured),
+      "Latitude": parseFloat(`${latitude.integer}.${latitude.decimal}`),
+      "Longitude": parseFloat(`${longitude.integer}.${longitude.decimal}`),
+      "Number_of_Wheels_Detected": Number(data.Number_of_Wheels_Detected),
+      "Fault_Code": Number(data.Fault_Code),
+      "Motor_Current_mA": motorCurrent
+    },
+    logicType: 'P2'
+  };
+}
+
+const randomInt = (random, min, max) => min + Math.floor(random() * (max - min + 1));
+
+// Random but realistic P1 values; each fault bit is set with a low probability
+function sampleP1Data(random) {
+  const faults = Object.keys(P1_FAULT_CODES).map(Number).filter(() => random() < 0.15);
+  return {
+    "RuntimeMin": randomInt(random, 0, 0xFFFF),
+    "FaultCodes": faults.join(", "),
+    "LeadingFaultCode": faults.length > 0 ? faults[faults.length - 1] : 0,
+    "LeadingFaultTimeHr": faults.length > 0 ? randomInt(random, 0, 48) : 0,
+    "GensetSignal": random() < 0.5 ? "On" : "Off",
+    "ThermostatStatus": random() < 0.5 ? "On" : "Off",
+    "HVOutputVoltage_kV": randomInt(random, 0, 63),
+    "HVSourceNo": randomInt(random, 0, 3),
+    "HVOutputCurrent_mA": randomInt(random, 0, 63)
+  };
+}
+
+function sampleP2Data(random) {
+  const wheelsConfigured = randomInt(random, 1, 16);
+  // Fractions start at 1000 so they never begin with a zero the P2 format cannot carry
+  return {
+    "device_id_extracted": `SK${String(randomInt(random, 1, 0xFFFF)).padStart(5, '0')}`,
+    "GSM_Signal_Strength": randomInt(random, -110, 6),
+    "Motor_ON_Time_sec": randomInt(random, 0, 0xFF),
+    "Motor_OFF_Time_sec": randomInt(random, 0, 0xFF),
+    "Number_of_Wheels_Configured": wheelsConfigured,
+    "Latitude": `${randomInt(random, 8, 37)}.${randomInt(random, 1000, 9999)}`,
+    "Longitude": `${randomInt(random, 68, 97)}.${randomInt(random, 1000, 9999)}`,
+    "Number_of_Wheels_Detected": randomInt(random, 0, wheelsConfigured),
+    "Fault_Code": randomInt(random, 0, 15),
+    "Motor_Current_mA": randomInt(random, 0, 5000)
+  };
+}
+
+/**
+ * Main hex conversion router function
+ * Looks up the decoder registered for the device's ConversionLogicID
+ */
+export function convertHexData(hexData, logicId) {
+  if (!hexData || !String(hexData).trim()) {
+    return {
+      steps: [],
+      decodedData: {},
+      success: false,
+      error: "No hex data provided",
+      logicType: 'Unknown'
+    };
+  }
+
+  const decoder = getDecoder(logicId);
+  if (!decoder) {
+    const supported = listDecoders().map(d => `${d.logicId} (${d.logicType})`).join(', ');
+    return {
+      steps: [{
+        step: 1,
+        description: "Unknown conversion logic",
+        input: `Logic ID: ${logicId}`,
+        output: "No decoder available",
+        notes: `Supported logic IDs: ${listDecoders().map(d => `${d.logicId} (${d.name})`).join(', ')}`
+      }],
+      decodedData: {},
+      success: false,
+      error: `Unknown conversion logic ID: ${logicId}. Supported values: ${supported}`,
+      logicType: 'Unknown'
+    };
+  }
+
+  return decoder.decode(String(hexData).trim());
+}
+
+/**
+ * Compare decoded values against the columns stored for the same reading
+ * Numbers are compared with a small tolerance to absorb float column rounding
+ */
+export function compareDecodedData(decodedData, storedData, fields = Object.keys(decodedData)) {
+  const mismatches = [];
+
+  for (const field of fields) {
+    const decoded = decodedData[field];
+    const stored = storedData[field];
+
+    const bothNumeric = decoded !== '' && stored !== '' && stored !== null && stored !== undefined &&
+      !isNaN(Number(decoded)) && !isNaN(Number(stored));
+    const matches = bothNumeric
+      ? Math.abs(Number(decoded) - Number(stored)) < 1e-6
+      : String(decoded ?? '').trim() === String(stored ?? '').trim();
+
+    if (!matches) {
+      mismatches.push({ field, decoded, stored: stored ?? null });
+    }
+  }
+
+  return mismatches;
+}
+
+/**
+ * Encode decoded values back into the payload a device would send
+ * Only decoders that provide an encode function (the built-ins) support this
+ */
+export function encodeHexData(data, logicId) {
+  const decoder = getDecoder(logicId);
+  if (!decoder) {
+    return encodeFailure(`Unknown conversion logic ID: ${logicId}`, 'Unknown');
+  }
+  if (typeof decoder.encode !== 'function') {
+    return encodeFailure(`Decoder ${decoder.name} does not support encoding`, decoder.logicType);
+  }
+  return decoder.encode(data || {});
+}
+
+/**
+ * Generate random input values for a synthetic packet
+ * Returns null when the decoder has no sample generator
+ */
+export function generateSyntheticData(logicId, random = Math.random) {
+  const decoder = getDecoder(logicId);
+  return typeof decoder?.generateSample === 'function' ? decoder.generateSample(random) : null;
+}
+
+/**
+ * Encode, decode the result again and compare it with the normalized input
+ * An empty mismatch list means the packet round-trips exactly
+ */
+export function roundTripHexData(data, logicId) {
+  const encoded = encodeHexData(data, logicId);
+  if (!encoded.success) {
+    return { encoded, decoded: null, mismatches: [] };
+  }
+
+  const decoded = convertHexData(encoded.payload, logicId);
+  const mismatches = decoded.success
+    ? compareDecodedData(decoded.decodedData, encoded.normalizedData, Object.keys(encoded.normalizedData))
+    : [];
+
+  return { encoded, decoded, mismatches };
+}
+
+// Decoder registry keyed by ConversionLogicID
+const decoderRegistry = new Map();
+
+/**
+ * Register a decoder for a ConversionLogicID
+ * New hardware revisions add a decoder here instead of editing convertHexData;
+ * admin-defined payload layouts register with { replace: true } when reloaded
+ */
+export function registerDecoder(decoder, { replace = false } = {}) {
+  const logicId = Number(decoder.logicId);
+  if (!Number.isInteger(logicId) || logicId <= 0) {
+    throw new Error(`Invalid decoder logic ID: ${decoder.logicId}`);
+  }
+  if (typeof decoder.decode !== 'function' || typeof decoder.validateInput !== 'function') {
+    throw new Error(`Decoder ${logicId} must provide decode and validateInput functions`);
+  }
+  const existing = decoderRegistry.get(logicId);
+  if (existing && (!replace || existing.builtIn)) {
+    throw new Error(`A decoder is already registered for logic ID ${logicId}`);
+  }
+
+  decoderRegistry.set(logicId, {
+    ...decoder,
+    logicId,
+    builtIn: Boolean(decoder.builtIn),
+    faultCodes: decoder.faultCodes || {}
+  });
+}
+
+// Remove a non built-in decoder (e.g. a deactivated payload layout)
+export function unregisterDecoder(logicId) {
+  const existing = decoderRegistry.get(Number(logicId));
+  if (existing?.builtIn) {
+    throw new Error(`Built-in decoder ${logicId} cannot be removed`);
+  }
+  return decoderRegistry.delete(Number(logicId));
+}
+
+export function getDecoder(logicId) {
+  return decoderRegistry.get(Number(logicId)) || null;
+}
+
+export function listDecoders() {
+  return [...decoderRegistry.values()].sort((a, b) => a.logicId - b.logicId);
+}
+
+registerDecoder({
+  logicId: 1,
+  name: "P1 Fault Data",
+  logicType: 'P1',
+  builtIn: true,
+  description: "Genvolt fault-related data sent as a numeric string (16 hex characters)",
+  validateInput: validateP1Input,
+  decode: convertP1Logic,
+  encode: encodeP1Logic,
+  generateSample: sampleP1Data,
+  faultCodes: P1_FAULT_CODES,
+  fields: [
+    { key: "RuntimeMin", label: "Runtime", type: 'number', unit: "min" },
+    { key: "FaultCodes", label: "Fault Codes", type: 'text' },
+    { key: "FaultDescriptions", label: "Fault Descriptions", type: 'text' },
+    { key: "LeadingFaultCode", label: "Leading Fault", type: 'faultCode' },
+    { key: "LeadingFaultTimeHr", label: "Leading Fault Duration", type: 'number', unit: "hr" },
+    { key: "GensetSignal", label: "Genset Signal", type: 'status' },
+    { key: "ThermostatStatus", label: "Thermostat", type: 'status' },
+    { key: "HVOutputVoltage_kV", label: "HV Output Voltage", type: 'number', unit: "kV" },
+    { key: "HVSourceNo", label: "HV Source No", type: 'number' },
+    { key: "HVOutputCurrent_mA", label: "HV Output Current", type: 'number', unit: "mA" }
+  ]
+});
+
+registerDecoder({
+  logicId: 2,
+  name: "P2 SICK Sensor Data",
+  logicType: 'P2',
+  builtIn: true,
+  description: "SICK sensor operational data as a 64-character XOR-encrypted hex string",
+  validateInput: validateP2Input,
+  decode: convertP2Logic,
+  encode: encodeP2Logic,
+  generateSample: sampleP2Data,
+  // P2 firmware reports a raw numeric fault code; no description table has been published yet
+  faultCodes: {},
+  fields: [
+    { key: "device_id_extracted", label: "Device ID (payload)", type: 'text' },
+    { key: "GSM_Signal_Strength", label: "GSM Signal Strength", type: 'number' },
+    { key: "Motor_ON_Time_sec", label: "Motor ON Time", type: 'number', unit: "s" },
+    { key: "Motor_OFF_Time_sec", label: "Motor OFF Time", type: 'number', unit: "s" },
+    { key: "Number_of_Wheels_Configured", label: "Wheels Configured", type: 'number' },
+    { key: "Latitude", label: "Latitude", type: 'number' },
+    { key: "Longitude", label: "Longitude", type: 'number' },
+    { key: "Number_of_Wheels_Detected", label: "Wheels Detected", type: 'number' },
+    { key: "Fault_Code", label: "Fault Code", type: 'faultCode' },
+    { key: "Motor_Current_mA", label: "Motor Current", type: 'number', unit: "mA" }
+  ]
+});
@@ -0,0 +1,54 @@
+/**
+ * Type declarations for payloadLayout.js
+ * Consumed by the frontend through the @shared alias
+ */
+import type { ConversionResult, DecoderDefinition } from './hexConversion';
+
+export type LayoutFieldType = 'uint' | 'int' | 'bitmask' | 'enum' | 'boolean' | 'ascii';
+
+export interface LayoutField {
+  key: string;
+  label?: string;
+  unit?: string;
+  offset: number;
+  length: number;
+  endianness?: 'big' | 'little';
+  bits?: { start: number; length: number };
+  type: LayoutFieldType;
+  scale?: number;
+  add?: number;
+  decimals?: number;
+  enum?: Record<string, string>;
+  descriptionsKey?: string;
+  faultCode?: boolean;
+}
+
+export interface PayloadLayout {
+  input: { encoding: 'hex' | 'decimal'; length: number };
+  xor?: { key: string };
+  faultCodes?: Record<number, string>;
+  fields: LayoutField[];
+}
+
+export interface PayloadLayoutRecord {
+  id?: number;
+  conversionLogicId: number;
+  name: string;
+  logicType?: string;
+  description?: string;
+  targetTable?: string | null;
+  layout: PayloadLayout;
+}
+
+export interface LayoutDecoder extends DecoderDefinition {
+  layoutId?: number;
+}
+
+export declare const LAYOUT_FIELD_TYPES: LayoutFieldType[];
+
+export declare function validatePayloadLayout(layout: unknown): string[];
+export declare function decodeWithLayout(layout: PayloadLayout, hexData: string, logicType?: string): ConversionResult;
+export declare function createLayoutDecoder(record: PayloadLayoutRecord): LayoutDecoder;
+export declare function syncLayoutDecoders(
+  records: PayloadLayoutRecord[]
+): { conversionLogicId: number; errors: string[] }[];
@@ -0,0 +1,335 @@
+/**
+ * Declarative Payload Layouts
+ * Interprets admin-defined layouts (stored in Payload_Layouts) so new firmware
+ * payloads can be decoded without a code deploy. Shared by the backend and the
+ * frontend like hexConversion.js; types live in payloadLayout.d.ts.
+ *
+ * Layout format (offsets and lengths are in hex characters of the normalised payload):
+ * {
+ *   "input": { "encoding": "hex" | "decimal", "length": 16 },
+ *   "xor": { "key": "7AC5B2E1" },                  // optional, applied per key-sized chunk
+ *   "faultCodes": { "0": "FAULT_X" },              // optional fault-code table
+ *   "fields": [{
+ *     "key": "RuntimeMin", "label": "Runtime", "unit": "min",
+ *     "offset": 12, "length": 4,
+ *     "endianness": "big" | "little",              // little swaps bytes before reading
+ *     "bits": { "start": 0, "length": 2 },         // optional, MSB-first within the field
+ *     "type": "uint" | "int" | "bitmask" | "enum" | "boolean" | "ascii",
+ *     "scale": 0.1, "add": 0, "decimals": 1,       // numeric fields only
+ *     "enum": { "0": "Off", "1": "On" },           // enum labels / bitmask bit names
+ *     "descriptionsKey": "FaultDescriptions",      // bitmask only, defaults to <key>Descriptions
+ *     "faultCode": true                            // resolve through faultCodes for display
+ *   }]
+ * }
+ */
+import { registerDecoder, unregisterDecoder, listDecoders } from './hexConversion.js';
+
+export const LAYOUT_FIELD_TYPES = ['uint', 'int', 'bitmask', 'enum', 'boolean', 'ascii'];
+
+const isNonNegativeInt = (value) => Number.isInteger(value) && value >= 0;
+
+/**
+ * Validate a layout definition
+ * Returns a list of error messages; an empty list means the layout is usable
+ */
+export function validatePayloadLayout(layout) {
+  const errors = [];
+
+  if (!layout || typeof layout !== 'object') {
+    return ['Layout must be an object'];
+  }
+
+  const input = layout.input || {};
+  if (!['hex', 'decimal'].includes(input.encoding)) {
+    errors.push('input.encoding must be "hex" or "decimal"');
+  }
+  if (!Number.isInteger(input.length) || input.length <= 0) {
+    errors.push('input.length must be a positive integer (hex characters)');
+  }
+
+  if (layout.xor !== undefined) {
+    if (!layout.xor || typeof layout.xor.key !== 'string' || !/^[0-9a-fA-F]+$/.test(layout.xor.key)) {
+      errors.push('xor.key must be a hex string');
+    } else if (Number.isInteger(input.length) && input.length % layout.xor.key.length !== 0) {
+      errors.push('input.length must be a multiple of the xor key length');
+    }
+  }
+
+  if (!Array.isArray(layout.fields) || layout.fields.length === 0) {
+    errors.push('fields must be a non-empty array');
+    return errors;
+  }
+
+  const keys = new Set();
+  layout.fields.forEach((field, index) => {
+    const label = `fields[${index}]${field?.key ? ` (${field.key})` : ''}`;
+
+    if (!field || typeof field.key !== 'string' || !field.key.trim()) {
+      errors.push(`${label}: key is required`);
+      return;
+    }
+    if (keys.has(field.key)) {
+      errors.push(`${label}: duplicate key`);
+    }
+    keys.add(field.key);
+
+    if (!LAYOUT_FIELD_TYPES.includes(field.type)) {
+      errors.push(`${label}: type must be one of ${LAYOUT_FIELD_TYPES.join(', ')}`);
+    }
+    if (!isNonNegativeInt(field.offset) || !Number.isInteger(field.length) || field.length <= 0) {
+      errors.push(`${label}: offset and length must be non-negative integers`);
+    } else if (Number.isInteger(input.length) && field.offset + field.length > input.length) {
+      errors.push(`${label}: extends past the end of the payload`);
+    }
+    if (field.endianness !== undefined && !['big', 'little'].includes(field.endianness)) {
+      errors.push(`${label}: endianness must be "big" or "little"`);
+    }
+    if (field.endianness === 'little' && field.length % 2 !== 0) {
+      errors.push(`${label}: little-endian fields need a whole number of bytes`);
+    }
+    if (field.bits !== undefined) {
+      const width = field.length * 4;
+      if (!isNonNegativeInt(field.bits?.start) || !Number.isInteger(field.bits?.length) || field.bits.length <= 0) {
+        errors.push(`${label}: bits.start and bits.length must be non-negative integers`);
+      } else if (field.bits.start + field.bits.length > width) {
+        errors.push(`${label}: bit range exceeds the field width of ${width} bits`);
+      }
+    }
+    if (field.type === 'ascii' && field.bits !== undefined) {
+      errors.push(`${label}: ascii fields cannot use a bit range`);
+    }
+    if (field.descriptionsKey !== undefined && (field.type !== 'bitmask' || typeof field.descriptionsKey !== 'string')) {
+      errors.push(`${label}: descriptionsKey is only valid on bitmask fields`);
+    }
+    if ((field.type === 'enum') && (!field.enum || typeof field.enum !== 'object')) {
+      errors.push(`${label}: enum fields need an enum table`);
+    }
+    for (const numeric of ['scale', 'add', 'decimals']) {
+      if (field[numeric] !== undefined && typeof field[numeric] !== 'number') {
+        errors.push(`${label}: ${numeric} must be a number`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+// Normalise raw input to an uppercase hex string of the declared length
+function normalisePayload(layout, hexData) {
+  const { encoding, length } = layout.input;
+  const raw = String(hexData).trim();
+
+  if (encoding === 'decimal') {
+    if (!/^\d+$/.test(raw)) return { error: 'Invalid format: layout expects a numeric string (digits only)' };
+    const hex = BigInt(raw).toString(16).toUpperCase();
+    if (hex.length > length) return { error: `Invalid value: payload exceeds ${length} hex characters` };
+    return { payload: hex.padStart(length, '0') };
+  }
+
+  if (!/^[0-9a-fA-F]+$/.test(raw)) return { error: 'Invalid format: layout expects hex characters only' };
+  if (raw.length !== length) {
+    return { error: `Invalid length: layout expects ${length} hex characters, got ${raw.length}` };
+  }
+  return { payload: raw.toUpperCase() };
+}
+
+function applyXor(payload, key) {
+  const keyInt = BigInt(`0x${key}`);
+  let result = '';
+  for (let i = 0; i < payload.length; i += key.length) {
+    const chunk = BigInt(`0x${payload.slice(i, i + key.length)}`);
+    result += (chunk ^ keyInt).toString(16).toUpperCase().padStart(key.length, '0');
+  }
+  return result;
+}
+
+const swapBytes = (hex) => (hex.match(/.{2}/g) || []).reverse().join('');
+
+// Read one field from the normalised payload
+function readField(payload, field) {
+  let hex = payload.slice(field.offset, field.offset + field.length);
+  if (field.endianness === 'little') {
+    hex = swapBytes(hex);
+  }
+
+  if (field.type === 'ascii') {
+    const text = (hex.match(/.{2}/g) || []).map(byte => String.fromCharCode(parseInt(byte, 16))).join('');
+    return { hex, value: text.replace(/\0/g, '') };
+  }
+
+  let width = field.length * 4;
+  let raw = BigInt(`0x${hex}`);
+  if (field.bits) {
+    const shift = BigInt(width - field.bits.start - field.bits.length);
+    raw = (raw >> shift) & ((1n << BigInt(field.bits.length)) - 1n);
+    width = field.bits.length;
+  }
+
+  switch (field.type) {
+    case 'bitmask': {
+      const positions = [];
+      for (let bit = width - 1; bit >= 0; bit--) {
+        if ((raw >> BigInt(bit)) & 1n) positions.push(bit);
+      }
+      return { hex, value: positions.join(', '), positions };
+    }
+    case 'boolean': {
+      const labels = field.enum || {};
+      return { hex, value: raw ? (labels[1] ?? 'On') : (labels[0] ?? 'Off') };
+    }
+    case 'enum': {
+      const label = field.enum[String(raw)];
+      return { hex, value: label !== undefined ? label : `Unknown (${raw})` };
+    }
+    default: {
+      let numeric = raw;
+      if (field.type === 'int' && (raw >> BigInt(width - 1)) & 1n) {
+        numeric = raw - (1n << BigInt(width));
+      }
+      let value = Number(numeric) * (field.scale ?? 1) + (field.add ?? 0);
+      if (field.decimals !== undefined) {
+        value = Number(value.toFixed(field.decimals));
+      }
+      return { hex, value };
+    }
+  }
+}
+
+const DISPLAY_TYPES = {
+  uint: 'number',
+  int: 'number',
+  bitmask: 'text',
+  enum: 'text',
+  boolean: 'status',
+  ascii: 'text'
+};
+
+/**
+ * Decode a payload with a layout, producing the same ConversionResult shape
+ * as the built-in decoders (including the step-by-step trace)
+ */
+export function decodeWithLayout(layout, hexData, logicType = 'Layout') {
+  const steps = [];
+  let stepCounter = 1;
+  const fail = (error) => ({ steps, decodedData: {}, success: false, error, logicType });
+
+  try {
+    const { payload, error } = normalisePayload(layout, hexData ?? '');
+    steps.push({
+      step: stepCounter++,
+      description: "Validate and normalise input",
+      input: `"${hexData}"`,
+      output: error ? "Invalid input" : payload,
+      notes: `Layout expects ${layout.input.encoding} input, ${layout.input.length} hex characters`
+    });
+    if (error) return fail(error);
+
+    let working = payload;
+    if (layout.xor?.key) {
+      working = applyXor(payload, layout.xor.key.toUpperCase());
+      steps.push({
+        step: stepCounter++,
+        description: "XOR decrypt payload",
+        input: `Key "${layout.xor.key.toUpperCase()}" per ${layout.xor.key.length}-character chunk`,
+        output: working,
+        notes: "Each chunk is XORed with the layout key"
+      });
+    }
+
+    const decodedData = {};
+    for (const field of layout.fields) {
+      const { hex, value, positions } = readField(working, field);
+      decodedData[field.key] = value;
+
+      const bitNote = field.bits ? `, bits ${field.bits.start}-${field.bits.start + field.bits.length - 1}` : '';
+      const notes = [
+        `Offset ${field.offset}, ${field.length} chars${bitNote}`,
+        field.endianness === 'little' ? 'little-endian' : null,
+        field.scale !== undefined || field.add !== undefined ? `× ${field.scale ?? 1} + ${field.add ?? 0}` : null
+      ].filter(Boolean).join('; ');
+
+      steps.push({
+        step: stepCounter++,
+        description: `Extract ${field.label || field.key}`,
+        input: `"${hex}"`,
+        output: `${value}${field.unit ? ` ${field.unit}` : ''}`,
+        notes: `${field.type}: ${notes}`
+      });
+
+      // Bitmask fields with bit names also expose the mapped descriptions
+      if (positions && field.enum) {
+        decodedData[field.descriptionsKey || `${field.key}Descriptions`] = positions
+          .map(bit => field.enum[String(bit)] || `Bit ${bit}`)
+          .join(', ');
+      }
+    }
+
+    return { steps, decodedData, success: true, logicType };
+
+  } catch (error) {
+    return fail(`Failed to decode payload with layout: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Build a registry decoder from a stored layout record
+ * Record shape matches the /payload-layouts API: { conversionLogicId, name, logicType, description, layout }
+ */
+export function createLayoutDecoder(record) {
+  const { layout } = record;
+  const logicType = record.logicType || `L${record.conversionLogicId}`;
+
+  const fields = [];
+  for (const field of layout.fields) {
+    fields.push({
+      key: field.key,
+      label: field.label || field.key,
+      type: field.faultCode ? 'faultCode' : DISPLAY_TYPES[field.type],
+      unit: field.unit
+    });
+    if (field.type === 'bitmask' && field.enum) {
+      fields.push({
+        key: field.descriptionsKey || `${field.key}Descriptions`,
+        label: `${field.label || field.key} Descriptions`,
+        type: 'text'
+      });
+    }
+  }
+
+  return {
+    logicId: record.conversionLogicId,
+    name: record.name,
+    logicType,
+    description: record.description,
+    validateInput: (hexData) => normalisePayload(layout, hexData ?? '').error || null,
+    decode: (hexData) => decodeWithLayout(layout, hexData, logicType),
+    fields,
+    faultCodes: layout.faultCodes || {},
+    layoutId: record.id
+  };
+}
+
+/**
+ * Replace every layout-backed decoder in the registry with the given records
+ * Records whose logic ID belongs to a built-in decoder, or whose layout is invalid, are skipped
+ */
+export function syncLayoutDecoders(records) {
+  for (const decoder of listDecoders()) {
+    if (!decoder.builtIn) unregisterDecoder(decoder.logicId);
+  }
+
+  const skipped = [];
+  for (const record of records) {
+    const errors = validatePayloadLayout(record.layout);
+    if (errors.length > 0) {
+      skipped.push({ conversionLogicId: record.conversionLogicId, errors });
+      continue;
+    }
+    try {
+      registerDecoder(createLayoutDecoder(record), { replace: true });
+    } catch (error) {
+      skipped.push({ conversionLogicId: record.conversionLogicId, errors: [error.message] });
+    }
+  }
+  return skipped;
+}
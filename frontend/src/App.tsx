@@ -11,11 +11,15 @@ import ProtectedRoute from "@/components/auth/ProtectedRoute";
 import UnifiedDashboard from "./pages/UnifiedDashboard";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
 import { DeviceDetail } from "./pages/DeviceDetail";
 import { MotorDeviceDetail } from "./pages/MotorDeviceDetail";
 import { HexTroubleshoot } from "./pages/HexTroubleshoot";
 import { Reports } from "./pages/Reports";
 import { Admin } from "./pages/Admin";
+import { Notifications } from "./pages/Notifications";
+import { Alerts } from "./pages/Alerts";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -46,6 +50,8 @@ const AppRoutes = () => {
       {/* Auth routes - accessible to everyone */}
       <Route path="/login" element={<Login />} />
       <Route path="/register" element={<Register />} />
+      <Route path="/forgot-password" element={<ForgotPassword />} />
+      <Route path="/reset-password" element={<ResetPassword />} />
       
       {/* Protected dashboard routes */}
       <Route path="/" element={
@@ -113,6 +119,22 @@ const AppRoutes = () => {
         </ProtectedRoute>
       } />
       
+      <Route path="/alerts" element={
+        <ProtectedRoute>
+          <DashboardLayout>
+            <Alerts />
+          </DashboardLayout>
+        </ProtectedRoute>
+      } />
+      
+      <Route path="/notifications" element={
+        <ProtectedRoute>
+          <DashboardLayout>
+            <Notifications />
+          </DashboardLayout>
+        </ProtectedRoute>
+      } />
+      
       <Route path="/admin" element={
         <ProtectedRoute requiredRole="admin">
           <DashboardLayout>
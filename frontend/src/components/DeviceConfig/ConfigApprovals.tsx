@@ -0,0 +1,372 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ShieldCheck, CheckCircle, XCircle, Undo2, MessageSquare, RefreshCw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  deviceConfigApi,
+  ConfigApproval,
+  ConfigApprovalComment,
+  ConfigApprovalStatus
+} from "@/services/api";
+
+interface ConfigApprovalsProps {
+  // Changes whenever configurations are reloaded, so new proposals show up
+  refreshKey?: unknown;
+  // Called after an approval activated or scheduled something
+  onApproved?: () => void;
+}
+
+const statusStyles: Record<ConfigApprovalStatus, string> = {
+  proposed: "bg-blue-100 text-blue-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  expired: "bg-gray-100 text-gray-800",
+  withdrawn: "bg-gray-100 text-gray-800"
+};
+
+const describeTarget = (approval: ConfigApproval) =>
+  approval.targetType === 'universal'
+    ? `Universal: ${approval.configName ?? `#${approval.configId}`}`
+    : `${approval.deviceId} v${approval.configVersion ?? '?'}`;
+
+export const ConfigApprovals = ({ refreshKey, onApproved }: ConfigApprovalsProps) => {
+  const [statusFilter, setStatusFilter] = useState<ConfigApprovalStatus | 'all'>('proposed');
+  const [approvals, setApprovals] = useState<ConfigApproval[]>([]);
+  const [required, setRequired] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [comments, setComments] = useState<ConfigApprovalComment[]>([]);
+  const [newComment, setNewComment] = useState("");
+  const [decision, setDecision] = useState<{ approval: ConfigApproval; action: 'approve' | 'reject' } | null>(null);
+  const [decisionText, setDecisionText] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const loadApprovals = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await deviceConfigApi.getApprovals(statusFilter === 'all' ? {} : { status: statusFilter });
+      if (response.success) {
+        setApprovals(response.data);
+        setRequired(response.required);
+      }
+    } catch (error) {
+      console.error('Error loading config approvals:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadApprovals();
+  }, [loadApprovals, refreshKey]);
+
+  const toggleComments = async (approval: ConfigApproval) => {
+    if (expandedId === approval.approvalId) {
+      setExpandedId(null);
+      return;
+    }
+    try {
+      const response = await deviceConfigApi.getApproval(approval.approvalId);
+      setComments(response.data.comments);
+      setNewComment("");
+      setExpandedId(approval.approvalId);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load comments",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const addComment = async (approvalId: number) => {
+    try {
+      const response = await deviceConfigApi.addApprovalComment(approvalId, newComment.trim());
+      setComments(response.data);
+      setNewComment("");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add comment",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const submitDecision = async () => {
+    if (!decision) return;
+    const { approval, action } = decision;
+
+    try {
+      setSubmitting(true);
+      if (action === 'approve') {
+        const response = await deviceConfigApi.approveChange(approval.approvalId, decisionText.trim() || undefined);
+        toast({
+          title: "Change approved",
+          description: response.message
+        });
+        onApproved?.();
+      } else {
+        await deviceConfigApi.rejectChange(approval.approvalId, decisionText.trim());
+        toast({
+          title: "Change rejected",
+          description: `${describeTarget(approval)} will not be activated`
+        });
+      }
+      setDecision(null);
+      await loadApprovals();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to ${action} change`,
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const withdraw = async (approval: ConfigApproval) => {
+    if (!window.confirm(`Withdraw the proposed activation of ${describeTarget(approval)}?`)) return;
+
+    try {
+      await deviceConfigApi.withdrawChange(approval.approvalId);
+      toast({
+        title: "Proposal withdrawn",
+        description: describeTarget(approval)
+      });
+      await loadApprovals();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to withdraw proposal",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Nothing to show on installations that don't use approvals
+  if (!required && approvals.length === 0 && statusFilter === 'proposed') {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <ShieldCheck className="h-5 w-5" />
+            <span>Change Approvals</span>
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ConfigApprovalStatus | 'all')}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="proposed">Awaiting approval</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+                <SelectItem value="expired">Expired</SelectItem>
+                <SelectItem value="withdrawn">Withdrawn</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={loadApprovals} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {approvals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {statusFilter === 'proposed' ? 'No changes are awaiting approval.' : 'No matching changes.'}
+          </p>
+        ) : (
+          <div className="divide-y border rounded-md">
+            {approvals.map((approval) => {
+              const isOwn = String(approval.proposedBy) === user?.id;
+              const isOpen = approval.status === 'proposed';
+
+              return (
+                <div key={approval.approvalId} className="p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="space-y-1 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{describeTarget(approval)}</span>
+                        <Badge className={statusStyles[approval.status]}>{approval.status}</Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        #{approval.approvalId} proposed by {approval.proposedByName ?? `User ${approval.proposedBy}`}{' '}
+                        {formatDistanceToNow(new Date(approval.proposedAt), { addSuffix: true })}
+                        {isOpen && ` · expires ${formatDistanceToNow(new Date(approval.expiresAt), { addSuffix: true })}`}
+                      </div>
+                      {(approval.scheduledFor || approval.useMaintenanceWindow) && (
+                        <div className="text-xs text-muted-foreground">
+                          {approval.scheduledFor
+                            ? `Activates at ${new Date(approval.scheduledFor).toLocaleString()}`
+                            : 'Activates in the next maintenance window'}
+                          {approval.scheduledFor && approval.useMaintenanceWindow && ' (next maintenance window)'}
+                        </div>
+                      )}
+                      {approval.changeReason && <p className="text-xs">{approval.changeReason}</p>}
+                      {approval.decidedByName && (
+                        <p className="text-xs text-muted-foreground">
+                          {approval.status} by {approval.decidedByName}
+                          {approval.decisionComment && `: ${approval.decisionComment}`}
+                        </p>
+                      )}
+                      {approval.resultMessage && (
+                        <p className={`text-xs ${approval.resultMessage.startsWith('Failed') ? 'text-red-600' : 'text-green-700'}`}>
+                          {approval.resultMessage}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="flex gap-1 shrink-0">
+                      <Button size="sm" variant="ghost" onClick={() => toggleComments(approval)}>
+                        <MessageSquare className="h-3 w-3" />
+                      </Button>
+                      {isOpen && !isOwn && (
+                        <>
+                          <Button
+                            size="sm"
+                            onClick={() => {
+                              setDecisionText("");
+                              setDecision({ approval, action: 'approve' });
+                            }}
+                          >
+                            <CheckCircle className="h-3 w-3 mr-1" />
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              setDecisionText("");
+                              setDecision({ approval, action: 'reject' });
+                            }}
+                          >
+                            <XCircle className="h-3 w-3 mr-1" />
+                            Reject
+                          </Button>
+                        </>
+                      )}
+                      {isOpen && isOwn && (
+                        <Button size="sm" variant="outline" onClick={() => withdraw(approval)}>
+                          <Undo2 className="h-3 w-3 mr-1" />
+                          Withdraw
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {expandedId === approval.approvalId && (
+                    <div className="ml-2 pl-3 border-l space-y-2">
+                      {comments.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">No comments yet.</p>
+                      ) : (
+                        comments.map((comment) => (
+                          <div key={comment.commentId} className="text-xs">
+                            <span className="font-medium">{comment.userName ?? `User ${comment.userId}`}</span>{' '}
+                            <span className="text-muted-foreground">
+                              {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                            </span>
+                            <p>{comment.comment}</p>
+                          </div>
+                        ))
+                      )}
+                      <div className="flex gap-2">
+                        <Input
+                          value={newComment}
+                          onChange={(e) => setNewComment(e.target.value)}
+                          placeholder="Add a comment"
+                          className="h-8 text-xs"
+                        />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => addComment(approval.approvalId)}
+                          disabled={!newComment.trim()}
+                        >
+                          Post
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!decision} onOpenChange={(open) => !open && setDecision(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {decision?.action === 'approve' ? 'Approve' : 'Reject'} {decision && describeTarget(decision.approval)}
+            </DialogTitle>
+            <DialogDescription>
+              {decision?.action === 'approve'
+                ? decision.approval.scheduledFor || decision.approval.useMaintenanceWindow
+                  ? 'The activation is handed to the scheduler as proposed.'
+                  : 'The configuration is activated as soon as you approve.'
+                : 'The proposer sees the reason in the proposal and the audit trail.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="approval-decision">
+              {decision?.action === 'approve' ? 'Comment' : 'Reason *'}
+            </Label>
+            <Textarea
+              id="approval-decision"
+              value={decisionText}
+              onChange={(e) => setDecisionText(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDecision(null)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              variant={decision?.action === 'reject' ? 'destructive' : 'default'}
+              onClick={submitDecision}
+              disabled={submitting || (decision?.action === 'reject' && decisionText.trim().length < 3)}
+            >
+              {submitting ? "Saving..." : decision?.action === 'approve' ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -1,17 +1,27 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { AlertCircle, Copy, Check, Loader, CheckCircle } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { deviceConfigApi } from '@/services/api';
+import { deviceConfigApi, ConfigSchemaRecord } from '@/services/api';
+import {
+  ConfigSchemaNode,
+  ConfigSchemaAutofill,
+  buildDefaultConfig,
+  validateConfigData
+} from '@/services/configSchema';
 
 interface ConfigBuilderProps {
   deviceId: string;
+  // Current configuration JSON from the editor; the builder starts from it when it parses
+  value?: string;
   onJsonGenerated: (json: string) => void;
 }
 
@@ -19,217 +29,351 @@ interface DeviceDetails {
   device_id: string;
   channel_id: number;
   field_id: number;
-  api_key: string;
+  api_key_prefix: string | null;
   client_id: string;
   conversion_logic_id: number;
 }
 
-interface ConfigData {
-  device_id: string;
-  thingspeak: {
-    channel_id: number;
-    api_key: string;
-    field_id: number;
-  };
-  device_settings: {
-    sampling_rate_seconds: number;
-    telemetry_interval_minutes: number;
-    motor_current_threshold_ma: number;
-    enable_gps_tracking: boolean;
-  };
-  communication_settings: {
-    protocol: string;
-    endpoint_url: string;
-    retry_attempts: number;
-    timeout_seconds: number;
-    batch_size: number;
-  };
-  custom_parameters: Record<string, any>;
+type ConfigObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is ConfigObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const setIn = (target: ConfigObject, path: string[], value: unknown): ConfigObject => {
+  const [key, ...rest] = path;
+  const next = { ...target };
+  if (rest.length > 0) {
+    next[key] = setIn(isObject(target[key]) ? target[key] : {}, rest, value);
+  } else if (value === undefined) {
+    delete next[key];
+  } else {
+    next[key] = value;
+  }
+  return next;
+};
+
+const getIn = (target: unknown, path: string[]): unknown =>
+  path.reduce<unknown>((current, key) => (isObject(current) ? current[key] : undefined), target);
+
+// Fill schema fields marked with "autofill" from the device record when they are still empty
+const applyAutofill = (schema: ConfigSchemaNode, config: ConfigObject, details: DeviceDetails, path: string[] = []): ConfigObject => {
+  let result = config;
+  for (const [key, child] of Object.entries(schema.properties || {})) {
+    const childPath = [...path, key];
+    if (child.type === 'object') {
+      result = applyAutofill(child, result, details, childPath);
+      continue;
+    }
+    const source = child.autofill as ConfigSchemaAutofill | undefined;
+    const current = getIn(result, childPath);
+    if (source && details[source] !== null && details[source] !== undefined && (current === undefined || current === '' || current === 0)) {
+      result = setIn(result, childPath, details[source]);
+    }
+  }
+  return result;
+};
+
+const parseConfig = (json?: string): ConfigObject | null => {
+  if (!json?.trim()) return null;
+  try {
+    const parsed = JSON.parse(json);
+    return isObject(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const fieldLabel = (key: string, node: ConfigSchemaNode) =>
+  `${node.title || key}${node.unit ? ` (${node.unit})` : ''}`;
+
+const rangeText = (node: ConfigSchemaNode) => {
+  const unit = node.unit ? ` ${node.unit}` : '';
+  if (node.minimum !== undefined && node.maximum !== undefined) return `Range ${node.minimum}–${node.maximum}${unit}`;
+  if (node.minimum !== undefined) return `Minimum ${node.minimum}${unit}`;
+  if (node.maximum !== undefined) return `Maximum ${node.maximum}${unit}`;
+  return null;
+};
+
+interface FieldProps {
+  name: string;
+  node: ConfigSchemaNode;
+  path: string[];
+  value: unknown;
+  required: boolean;
+  errors: Map<string, string>;
+  onChange: (path: string[], value: unknown) => void;
 }
 
-const ConfigBuilder: React.FC<ConfigBuilderProps> = ({ deviceId, onJsonGenerated }) => {
+const FreeformObjectField = ({ name, node, path, value, errors, onChange }: FieldProps) => {
+  const [paramKey, setParamKey] = useState('');
+  const [paramValue, setParamValue] = useState('');
+  const entries = Object.entries(isObject(value) ? value : {});
+
+  const addParameter = () => {
+    if (paramKey && paramValue) {
+      onChange([...path, paramKey], paramValue);
+      setParamKey('');
+      setParamValue('');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {node.description && <p className="text-sm text-muted-foreground">{node.description}</p>}
+      <div className="flex gap-2">
+        <Input placeholder="Parameter key" value={paramKey} onChange={(e) => setParamKey(e.target.value)} />
+        <Input placeholder="Parameter value" value={paramValue} onChange={(e) => setParamValue(e.target.value)} />
+        <Button onClick={addParameter}>Add</Button>
+      </div>
+      {entries.length > 0 && (
+        <div className="space-y-2">
+          {entries.map(([key, entryValue]) => (
+            <div key={key} className="flex items-center justify-between p-2 bg-secondary rounded">
+              <span className="font-mono text-sm">
+                {key}: {JSON.stringify(entryValue)}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => onChange([...path, key], undefined)}>
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      {errors.get(path.join('.')) && (
+        <p className="text-xs text-destructive">{name}: {errors.get(path.join('.'))}</p>
+      )}
+    </div>
+  );
+};
+
+const SchemaField = ({ name, node, path, value, required, errors, onChange }: FieldProps) => {
+  const id = path.join('.');
+  const error = errors.get(id);
+  const range = rangeText(node);
+
+  if (node.type === 'boolean') {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2">
+          <Switch id={id} checked={value === true} onCheckedChange={(checked) => onChange(path, checked)} />
+          <Label htmlFor={id}>{fieldLabel(name, node)}</Label>
+        </div>
+        {node.description && <p className="text-xs text-muted-foreground">{node.description}</p>}
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+    );
+  }
+
+  let control: React.ReactNode;
+  if (node.enum) {
+    const options = node.enum;
+    control = (
+      <Select
+        value={value === undefined ? '' : String(value)}
+        onValueChange={(selected) => onChange(path, options.find(option => String(option) === selected))}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Select..." />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(option => (
+            <SelectItem key={String(option)} value={String(option)}>{String(option)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  } else if (node.type === 'integer' || node.type === 'number') {
+    control = (
+      <Input
+        id={id}
+        type="number"
+        min={node.minimum}
+        max={node.maximum}
+        step={node.type === 'integer' ? 1 : 'any'}
+        value={typeof value === 'number' ? value : ''}
+        onChange={(e) => onChange(path, e.target.value === '' ? undefined : Number(e.target.value))}
+      />
+    );
+  } else if (node.type === 'array') {
+    // Primitive lists are edited as comma-separated values, anything else as JSON
+    const numericItems = node.items?.type === 'integer' || node.items?.type === 'number';
+    if (node.items?.type === 'object' || node.items?.type === 'array') {
+      control = (
+        <Textarea
+          id={id}
+          className="font-mono text-xs"
+          defaultValue={JSON.stringify(value ?? [], null, 2)}
+          onBlur={(e) => {
+            try {
+              onChange(path, JSON.parse(e.target.value));
+            } catch {
+              // Keep the last valid value until the JSON parses
+            }
+          }}
+        />
+      );
+    } else {
+      control = (
+        <Input
+          id={id}
+          value={Array.isArray(value) ? value.join(', ') : ''}
+          placeholder="Comma-separated values"
+          onChange={(e) => {
+            const items = e.target.value.split(',').map(item => item.trim()).filter(Boolean);
+            onChange(path, numericItems ? items.map(Number) : items);
+          }}
+        />
+      );
+    }
+  } else {
+    control = (
+      <Input
+        id={id}
+        type="text"
+        maxLength={node.maxLength}
+        value={typeof value === 'string' ? value : ''}
+        onChange={(e) => onChange(path, e.target.value)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>
+        {fieldLabel(name, node)}
+        {required && <span className="text-destructive"> *</span>}
+      </Label>
+      {control}
+      {(node.description || range) && (
+        <p className="text-xs text-muted-foreground">
+          {[node.description, range].filter(Boolean).join(' · ')}
+        </p>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+const ObjectFields = ({ node, path, value, errors, onChange }: FieldProps) => {
+  const properties = Object.entries(node.properties || {});
+  const current = isObject(value) ? value : {};
+  const requiredKeys = node.required || [];
+
+  const scalars = properties.filter(([, child]) => child.type !== 'object');
+  const objects = properties.filter(([, child]) => child.type === 'object');
+
+  return (
+    <div className="space-y-4">
+      {path.length > 0 && node.description && (
+        <p className="text-sm text-muted-foreground">{node.description}</p>
+      )}
+      {scalars.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {scalars.map(([key, child]) => (
+            <SchemaField
+              key={key}
+              name={key}
+              node={child}
+              path={[...path, key]}
+              value={current[key]}
+              required={requiredKeys.includes(key)}
+              errors={errors}
+              onChange={onChange}
+            />
+          ))}
+        </div>
+      )}
+      {objects.map(([key, child]) => (
+        <div key={key} className="space-y-3 border-t pt-4">
+          <h4 className="font-medium text-sm">{child.title || key}</h4>
+          <ObjectOrFreeform
+            name={key}
+            node={child}
+            path={[...path, key]}
+            value={current[key]}
+            required={requiredKeys.includes(key)}
+            errors={errors}
+            onChange={onChange}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ObjectOrFreeform = (props: FieldProps) =>
+  props.node.properties && Object.keys(props.node.properties).length > 0
+    ? <ObjectFields {...props} />
+    : <FreeformObjectField {...props} />;
+
+const ConfigBuilder: React.FC<ConfigBuilderProps> = ({ deviceId, value, onJsonGenerated }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deviceDetails, setDeviceDetails] = useState<DeviceDetails | null>(null);
+  const [schemaRecord, setSchemaRecord] = useState<ConfigSchemaRecord | null>(null);
+  const [configData, setConfigData] = useState<ConfigObject>({});
   const [copied, setCopied] = useState(false);
 
-  const [configData, setConfigData] = useState<ConfigData>({
-    device_id: deviceId,
-    thingspeak: {
-      channel_id: 0,
-      api_key: '',
-      field_id: 1
-    },
-    device_settings: {
-      sampling_rate_seconds: 300,
-      telemetry_interval_minutes: 8,
-      motor_current_threshold_ma: 5000,
-      enable_gps_tracking: true
-    },
-    communication_settings: {
-      protocol: 'https',
-      endpoint_url: 'https://your-endpoint.com/api/data',
-      retry_attempts: 3,
-      timeout_seconds: 30,
-      batch_size: 100
-    },
-    custom_parameters: {}
-  });
-
-  const [customParamKey, setCustomParamKey] = useState('');
-  const [customParamValue, setCustomParamValue] = useState('');
-
-  // Fetch device details on mount
+  // Fetch the device and its schema on mount, then build the starting configuration
   useEffect(() => {
-    const fetchDeviceDetails = async () => {
-      console.log(`🚀 ConfigBuilder: Starting fetch for device ${deviceId}`);
-
+    const loadBuilder = async () => {
       try {
         setLoading(true);
         setError(null);
 
-        console.log('📡 ConfigBuilder: Calling deviceConfigApi.getDeviceDetails...');
-        const response = await deviceConfigApi.getDeviceDetails(deviceId);
-
-        console.log('📨 ConfigBuilder: API Response received:', {
-          status: response.status,
-          success: response.data?.success,
-          hasData: !!response.data?.data,
-          responseStructure: Object.keys(response.data || {}),
-          fullResponse: response.data
-        });
-
-        // Handle both wrapped and direct response formats
-        let details = null;
-        if (response.data?.success && response.data?.data) {
-          // Wrapped format: { success: true, data: {...} }
-          details = response.data.data;
-          console.log('✅ ConfigBuilder: Using wrapped response format');
-        } else if (response.data && response.data.device_id) {
-          // Direct format: { device_id: "P123", channel_id: 2878685, ... }
-          details = response.data;
-          console.log('✅ ConfigBuilder: Using direct response format');
+        const [detailsResult, schemaResult] = await Promise.allSettled([
+          deviceConfigApi.getDeviceDetails(deviceId),
+          deviceConfigApi.getDeviceConfigSchema(deviceId)
+        ]);
+
+        const details: DeviceDetails | null =
+          detailsResult.status === 'fulfilled' && detailsResult.value.data?.device_id ? detailsResult.value.data : null;
+        if (detailsResult.status === 'rejected') {
+          console.error('ConfigBuilder: Failed to fetch device details:', detailsResult.reason);
+          setError('Failed to fetch device details. Device fields will need to be filled in manually.');
         }
+        setDeviceDetails(details);
 
+        if (schemaResult.status === 'rejected') {
+          throw schemaResult.reason;
+        }
+        const record = schemaResult.value.data;
+        setSchemaRecord(record);
+        if (!record) return;
+
+        let initial = parseConfig(value) || buildDefaultConfig(record.schema);
         if (details) {
-          console.log('✅ ConfigBuilder: Device details received:', {
-            device_id: details.device_id,
-            channel_id: details.channel_id,
-            field_id: details.field_id,
-            api_key: details.api_key ? '***' + details.api_key?.slice(-4) : 'NULL',
-            client_id: details.client_id,
-            conversion_logic_id: details.conversion_logic_id
-          });
-
-          setDeviceDetails(details);
-
-          // Auto-populate fields from device table
-          const newConfigData = {
-            ...configData,
-            device_id: details.device_id || deviceId,
-            thingspeak: {
-              channel_id: details.channel_id || 0,
-              api_key: details.api_key || '',
-              field_id: details.field_id || 1
-            }
-          };
-
-          console.log('🔄 ConfigBuilder: Setting new config data:', {
-            device_id: newConfigData.device_id,
-            thingspeak: {
-              channel_id: newConfigData.thingspeak.channel_id,
-              field_id: newConfigData.thingspeak.field_id,
-              api_key: newConfigData.thingspeak.api_key ? '***' + newConfigData.thingspeak.api_key?.slice(-4) : 'NULL'
-            }
-          });
-
-          setConfigData(newConfigData);
-          console.log('✅ ConfigBuilder: Auto-population completed successfully');
-        } else {
-          console.log('❌ ConfigBuilder: No valid device data found in response');
-          console.log('Response data structure:', response.data);
-          setError('No device data found in response. You can still create configuration manually.');
+          initial = applyAutofill(record.schema, initial, details);
         }
+        setConfigData(initial);
+        onJsonGenerated(JSON.stringify(initial, null, 2));
       } catch (err) {
-        console.error('❌ ConfigBuilder: Failed to fetch device details:', err);
-        console.error('Error details:', {
-          message: err.message,
-          status: err.response?.status,
-          data: err.response?.data,
-          stack: err.stack?.split('\n')[0]
-        });
-        setError(`Failed to fetch device details: ${err.message}. You can still create configuration manually.`);
+        console.error('ConfigBuilder: Failed to load configuration schema:', err);
+        setError(`Failed to load the configuration schema: ${err instanceof Error ? err.message : 'Unknown error'}`);
       } finally {
         setLoading(false);
       }
     };
 
     if (deviceId) {
-      console.log(`🎯 ConfigBuilder: Device ID provided: ${deviceId}`);
-      fetchDeviceDetails();
-    } else {
-      console.log('⚠️ ConfigBuilder: No device ID provided');
+      loadBuilder();
     }
   }, [deviceId]);
 
-  // Update parent whenever config changes
-  useEffect(() => {
-    onJsonGenerated(JSON.stringify(configData, null, 2));
-  }, [configData, onJsonGenerated]);
-
-  const updateThingSpeak = (field: string, value: any) => {
-    setConfigData(prev => ({
-      ...prev,
-      thingspeak: {
-        ...prev.thingspeak,
-        [field]: value
-      }
-    }));
-  };
-
-  const updateDeviceSettings = (field: string, value: any) => {
-    setConfigData(prev => ({
-      ...prev,
-      device_settings: {
-        ...prev.device_settings,
-        [field]: value
-      }
-    }));
-  };
-
-  const updateCommunicationSettings = (field: string, value: any) => {
-    setConfigData(prev => ({
-      ...prev,
-      communication_settings: {
-        ...prev.communication_settings,
-        [field]: value
-      }
-    }));
-  };
-
-  const addCustomParameter = () => {
-    if (customParamKey && customParamValue) {
-      setConfigData(prev => ({
-        ...prev,
-        custom_parameters: {
-          ...prev.custom_parameters,
-          [customParamKey]: customParamValue
-        }
-      }));
-      setCustomParamKey('');
-      setCustomParamValue('');
+  const fieldErrors = useMemo(() => {
+    const errors = new Map<string, string>();
+    if (schemaRecord) {
+      validateConfigData(schemaRecord.schema, configData).forEach(fieldError => {
+        if (!errors.has(fieldError.path)) errors.set(fieldError.path, fieldError.message);
+      });
     }
-  };
+    return errors;
+  }, [schemaRecord, configData]);
 
-  const removeCustomParameter = (key: string) => {
-    setConfigData(prev => {
-      const newParams = { ...prev.custom_parameters };
-      delete newParams[key];
-      return {
-        ...prev,
-        custom_parameters: newParams
-      };
-    });
+  const updateField = (path: string[], fieldValue: unknown) => {
+    const next = setIn(configData, path, fieldValue);
+    setConfigData(next);
+    onJsonGenerated(JSON.stringify(next, null, 2));
   };
 
   const copyToClipboard = () => {
@@ -247,20 +391,30 @@ const ConfigBuilder: React.FC<ConfigBuilderProps> = ({ deviceId, onJsonGenerated
     );
   }
 
+  if (!schemaRecord) {
+    return (
+      <Alert variant={error ? 'destructive' : 'default'}>
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          {error || 'No configuration schema is registered for this device type. Use the JSON editor to write the configuration.'}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const { schema } = schemaRecord;
+  const properties = Object.entries(schema.properties || {});
+  const generalFields = properties.filter(([, node]) => node.type !== 'object');
+  const sections = properties.filter(([, node]) => node.type === 'object');
+  const requiredKeys = schema.required || [];
+  const rootErrors = fieldErrors.get('');
+
   return (
     <div className="space-y-4">
       {error && (
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
-          <AlertDescription>
-            <div className="space-y-2">
-              <div className="font-semibold">Auto-population Failed</div>
-              <div>{error}</div>
-              <div className="text-xs text-muted-foreground">
-                Device ID: {deviceId} | Check browser console for detailed error information
-              </div>
-            </div>
-          </AlertDescription>
+          <AlertDescription>{error}</AlertDescription>
         </Alert>
       )}
 
@@ -272,227 +426,86 @@ const ConfigBuilder: React.FC<ConfigBuilderProps> = ({ deviceId, onJsonGenerated
               <div className="font-semibold">Device data loaded successfully!</div>
               <div className="text-xs">
                 Channel ID: {deviceDetails.channel_id} | Field ID: {deviceDetails.field_id} |
-                API Key: {deviceDetails.api_key ? 'Configured' : 'Not configured'}
+                API Key: {deviceDetails.api_key_prefix ? 'Configured' : 'Not configured'}
               </div>
             </div>
           </AlertDescription>
         </Alert>
       )}
 
-      <Tabs defaultValue="thingspeak" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
-          <TabsTrigger value="thingspeak">ThingSpeak</TabsTrigger>
-          <TabsTrigger value="device">Device Settings</TabsTrigger>
-          <TabsTrigger value="communication">Communication</TabsTrigger>
-          <TabsTrigger value="custom">Custom Parameters</TabsTrigger>
-        </TabsList>
-
-        <TabsContent value="thingspeak">
-          <Card>
-            <CardHeader>
-              <CardTitle>ThingSpeak Configuration</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="channel_id">Channel ID</Label>
-                  <Input
-                    id="channel_id"
-                    type="number"
-                    value={configData.thingspeak.channel_id}
-                    onChange={(e) => updateThingSpeak('channel_id', parseInt(e.target.value))}
-                    placeholder="e.g., 2878685"
-                  />
-                  {deviceDetails?.channel_id && (
-                    <p className="text-xs text-muted-foreground mt-1">
-                      Auto-populated from device: {deviceDetails.channel_id}
-                    </p>
-                  )}
-                </div>
-                <div>
-                  <Label htmlFor="field_id">Field ID</Label>
-                  <Input
-                    id="field_id"
-                    type="number"
-                    value={configData.thingspeak.field_id}
-                    onChange={(e) => updateThingSpeak('field_id', parseInt(e.target.value))}
-                    placeholder="e.g., 1"
-                  />
-                </div>
-              </div>
-              <div>
-                <Label htmlFor="api_key">API Key</Label>
-                <Input
-                  id="api_key"
-                  type="text"
-                  value={configData.thingspeak.api_key}
-                  onChange={(e) => updateThingSpeak('api_key', e.target.value)}
-                  placeholder="e.g., E8R10NT7APAB7BYT"
-                />
-                {deviceDetails?.api_key && (
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Auto-populated from device database
-                  </p>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        <TabsContent value="device">
-          <Card>
-            <CardHeader>
-              <CardTitle>Device Settings</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="sampling_rate">Sampling Rate (seconds)</Label>
-                  <Input
-                    id="sampling_rate"
-                    type="number"
-                    value={configData.device_settings.sampling_rate_seconds}
-                    onChange={(e) => updateDeviceSettings('sampling_rate_seconds', parseInt(e.target.value))}
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="telemetry_interval">Telemetry Interval (minutes)</Label>
-                  <Input
-                    id="telemetry_interval"
-                    type="number"
-                    value={configData.device_settings.telemetry_interval_minutes}
-                    onChange={(e) => updateDeviceSettings('telemetry_interval_minutes', parseInt(e.target.value))}
-                  />
-                </div>
-              </div>
-              <div>
-                <Label htmlFor="motor_threshold">Motor Current Threshold (mA)</Label>
-                <Input
-                  id="motor_threshold"
-                  type="number"
-                  value={configData.device_settings.motor_current_threshold_ma}
-                  onChange={(e) => updateDeviceSettings('motor_current_threshold_ma', parseInt(e.target.value))}
-                />
-              </div>
-              <div className="flex items-center space-x-2">
-                <Switch
-                  id="gps_tracking"
-                  checked={configData.device_settings.enable_gps_tracking}
-                  onCheckedChange={(checked) => updateDeviceSettings('enable_gps_tracking', checked)}
-                />
-                <Label htmlFor="gps_tracking">Enable GPS Tracking</Label>
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        <TabsContent value="communication">
-          <Card>
-            <CardHeader>
-              <CardTitle>Communication Settings</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div>
-                <Label htmlFor="protocol">Protocol</Label>
-                <Select
-                  value={configData.communication_settings.protocol}
-                  onValueChange={(value) => updateCommunicationSettings('protocol', value)}
-                >
-                  <SelectTrigger id="protocol">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="http">HTTP</SelectItem>
-                    <SelectItem value="https">HTTPS</SelectItem>
-                    <SelectItem value="mqtt">MQTT</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div>
-                <Label htmlFor="endpoint_url">Endpoint URL</Label>
-                <Input
-                  id="endpoint_url"
-                  type="text"
-                  value={configData.communication_settings.endpoint_url}
-                  onChange={(e) => updateCommunicationSettings('endpoint_url', e.target.value)}
-                  placeholder="https://your-endpoint.com/api/data"
-                />
-              </div>
-              <div className="grid grid-cols-3 gap-4">
-                <div>
-                  <Label htmlFor="retry_attempts">Retry Attempts</Label>
-                  <Input
-                    id="retry_attempts"
-                    type="number"
-                    value={configData.communication_settings.retry_attempts}
-                    onChange={(e) => updateCommunicationSettings('retry_attempts', parseInt(e.target.value))}
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="timeout">Timeout (seconds)</Label>
-                  <Input
-                    id="timeout"
-                    type="number"
-                    value={configData.communication_settings.timeout_seconds}
-                    onChange={(e) => updateCommunicationSettings('timeout_seconds', parseInt(e.target.value))}
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="batch_size">Batch Size</Label>
-                  <Input
-                    id="batch_size"
-                    type="number"
-                    value={configData.communication_settings.batch_size}
-                    onChange={(e) => updateCommunicationSettings('batch_size', parseInt(e.target.value))}
-                  />
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        <TabsContent value="custom">
-          <Card>
-            <CardHeader>
-              <CardTitle>Custom Parameters</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex gap-2">
-                <Input
-                  placeholder="Parameter key"
-                  value={customParamKey}
-                  onChange={(e) => setCustomParamKey(e.target.value)}
-                />
-                <Input
-                  placeholder="Parameter value"
-                  value={customParamValue}
-                  onChange={(e) => setCustomParamValue(e.target.value)}
-                />
-                <Button onClick={addCustomParameter}>Add</Button>
-              </div>
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {schemaRecord.deviceType} schema{schemaRecord.description ? ` - ${schemaRecord.description}` : ''}
+        </span>
+        <div className="flex items-center gap-2">
+          {fieldErrors.size > 0 && (
+            <Badge variant="destructive">{fieldErrors.size} field{fieldErrors.size !== 1 ? 's' : ''} to fix</Badge>
+          )}
+          <Badge variant="outline">{schemaRecord.label}</Badge>
+        </div>
+      </div>
 
-              {Object.entries(configData.custom_parameters).length > 0 && (
-                <div className="space-y-2">
-                  {Object.entries(configData.custom_parameters).map(([key, value]) => (
-                    <div key={key} className="flex items-center justify-between p-2 bg-secondary rounded">
-                      <span className="font-mono text-sm">
-                        {key}: {JSON.stringify(value)}
-                      </span>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => removeCustomParameter(key)}
-                      >
-                        Remove
-                      </Button>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </TabsContent>
-      </Tabs>
+      {rootErrors && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Configuration {rootErrors}</AlertDescription>
+        </Alert>
+      )}
+
+      {generalFields.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>General</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ObjectFields
+              name=""
+              node={{ type: 'object', properties: Object.fromEntries(generalFields), required: requiredKeys }}
+              path={[]}
+              value={configData}
+              required
+              errors={fieldErrors}
+              onChange={updateField}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {sections.length > 0 && (
+        <Tabs defaultValue={sections[0][0]} className="w-full">
+          <TabsList className="flex flex-wrap h-auto">
+            {sections.map(([key, node]) => {
+              const hasErrors = [...fieldErrors.keys()].some(path => path === key || path.startsWith(`${key}.`));
+              return (
+                <TabsTrigger key={key} value={key} className={hasErrors ? 'text-destructive' : undefined}>
+                  {node.title || key}
+                </TabsTrigger>
+              );
+            })}
+          </TabsList>
+
+          {sections.map(([key, node]) => (
+            <TabsContent key={key} value={key}>
+              <Card>
+                <CardHeader>
+                  <CardTitle>{node.title || key}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ObjectOrFreeform
+                    name={key}
+                    node={node}
+                    path={[key]}
+                    value={configData[key]}
+                    required={requiredKeys.includes(key)}
+                    errors={fieldErrors}
+                    onChange={updateField}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          ))}
+        </Tabs>
+      )}
 
       <Card>
         <CardHeader>
@@ -527,4 +540,4 @@ const ConfigBuilder: React.FC<ConfigBuilderProps> = ({ deviceId, onJsonGenerated
   );
 };
 
-export default ConfigBuilder;
\ No newline at end of file
+export default ConfigBuilder;
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ConfigDiffView } from "./ConfigDiffView";
+
+export interface CompareVersion {
+  configId: number;
+  configVersion: number;
+  configName: string;
+  configData: unknown;
+  isActive: boolean;
+}
+
+export interface CompareTemplate {
+  template_id: number;
+  template_name: string;
+  template_data: unknown;
+}
+
+interface ConfigCompareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  versions: CompareVersion[];
+  templates: CompareTemplate[];
+  // Source keys: "config:<configId>" or "template:<templateId>"
+  initialBefore?: string;
+  initialAfter?: string;
+}
+
+interface CompareSource {
+  key: string;
+  label: string;
+  data: unknown;
+}
+
+export const ConfigCompareDialog = ({
+  open,
+  onOpenChange,
+  versions,
+  templates,
+  initialBefore = "",
+  initialAfter = ""
+}: ConfigCompareDialogProps) => {
+  const [beforeKey, setBeforeKey] = useState(initialBefore);
+  const [afterKey, setAfterKey] = useState(initialAfter);
+
+  useEffect(() => {
+    if (open) {
+      setBeforeKey(initialBefore);
+      setAfterKey(initialAfter);
+    }
+  }, [open, initialBefore, initialAfter]);
+
+  const sources: CompareSource[] = [
+    ...[...versions]
+      .sort((a, b) => b.configVersion - a.configVersion)
+      .map((version) => ({
+        key: `config:${version.configId}`,
+        label: `v${version.configVersion} - ${version.configName}${version.isActive ? " (active)" : ""}`,
+        data: version.configData
+      })),
+    ...templates.map((template) => ({
+      key: `template:${template.template_id}`,
+      label: `Template: ${template.template_name}`,
+      data: template.template_data
+    }))
+  ];
+
+  const before = sources.find((source) => source.key === beforeKey);
+  const after = sources.find((source) => source.key === afterKey);
+
+  const renderPicker = (id: string, label: string, value: string, onChange: (value: string) => void) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Select a version or template" />
+        </SelectTrigger>
+        <SelectContent>
+          {sources.map((source) => (
+            <SelectItem key={source.key} value={source.key}>{source.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Compare Configurations</DialogTitle>
+          <DialogDescription>
+            Field-by-field differences between two configuration versions, or a version and a template.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          {renderPicker("compare-before", "From", beforeKey, setBeforeKey)}
+          {renderPicker("compare-after", "To", afterKey, setAfterKey)}
+        </div>
+
+        {before && after ? (
+          <ConfigDiffView
+            before={before.data}
+            after={after.data}
+            beforeLabel={before.label}
+            afterLabel={after.label}
+          />
+        ) : (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            Pick two configurations to compare.
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
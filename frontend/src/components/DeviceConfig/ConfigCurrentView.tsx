@@ -1,8 +1,21 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { 
   CheckCircle, 
   Upload, 
@@ -12,9 +25,14 @@ import {
   FileText,
   Calendar,
   Hash,
-  Settings
+  Settings,
+  GitCompare,
+  RotateCcw,
+  CalendarClock
 } from "lucide-react";
 import { format, isValid } from "date-fns";
+import { ConfigCompareDialog, CompareTemplate } from "./ConfigCompareDialog";
+import { ScheduleActivationOptions } from "@/services/api";
 
 interface DeviceConfig {
   configId: number;
@@ -38,6 +56,9 @@ interface ConfigCurrentViewProps {
   onActivateConfig: (configId: number) => void;
   onDeployConfig: (configId: number) => void;
   onEditConfig: (config: DeviceConfig) => void;
+  onRollbackConfig: (configId: number, reason: string) => Promise<unknown>;
+  onScheduleConfig: (configId: number, options: ScheduleActivationOptions) => Promise<unknown>;
+  templates?: CompareTemplate[];
 }
 
 export const ConfigCurrentView = ({
@@ -46,8 +67,19 @@ export const ConfigCurrentView = ({
   loading,
   onActivateConfig,
   onDeployConfig,
-  onEditConfig
+  onEditConfig,
+  onRollbackConfig,
+  onScheduleConfig,
+  templates = []
 }: ConfigCurrentViewProps) => {
+  const [compare, setCompare] = useState({ open: false, before: "", after: "" });
+  const [rollbackTarget, setRollbackTarget] = useState<DeviceConfig | null>(null);
+  const [rollbackReason, setRollbackReason] = useState("");
+  const [rollingBack, setRollingBack] = useState(false);
+  const [scheduleTarget, setScheduleTarget] = useState<DeviceConfig | null>(null);
+  const [scheduleForm, setScheduleForm] = useState({ scheduledFor: "", useMaintenanceWindow: false, reason: "" });
+  const [scheduling, setScheduling] = useState(false);
+
   const activeConfig = configs?.find(c => c?.isActive);
   const inactiveConfigs = configs?.filter(c => c && !c.isActive).sort((a, b) => {
     const dateA = new Date(b?.createdAt || '');
@@ -74,6 +106,51 @@ export const ConfigCurrentView = ({
     }
   };
 
+  const openCompare = (before: string, after: string) => {
+    setCompare({ open: true, before, after });
+  };
+
+  const openRollback = (config: DeviceConfig) => {
+    setRollbackTarget(config);
+    setRollbackReason("");
+  };
+
+  const handleRollback = async () => {
+    if (!rollbackTarget) return;
+    setRollingBack(true);
+    try {
+      await onRollbackConfig(rollbackTarget.configId, rollbackReason.trim());
+      setRollbackTarget(null);
+    } catch {
+      // The hook reports the error; keep the dialog open so the reason isn't lost
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  const openSchedule = (config: DeviceConfig) => {
+    setScheduleTarget(config);
+    setScheduleForm({ scheduledFor: "", useMaintenanceWindow: false, reason: "" });
+  };
+
+  const handleSchedule = async () => {
+    if (!scheduleTarget) return;
+    setScheduling(true);
+    try {
+      await onScheduleConfig(scheduleTarget.configId, {
+        // datetime-local has no zone; the browser's local time is meant
+        scheduledFor: scheduleForm.scheduledFor ? new Date(scheduleForm.scheduledFor).toISOString() : undefined,
+        useMaintenanceWindow: scheduleForm.useMaintenanceWindow || undefined,
+        changeReason: scheduleForm.reason.trim() || undefined
+      });
+      setScheduleTarget(null);
+    } catch {
+      // Reported by the hook
+    } finally {
+      setScheduling(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -133,6 +210,17 @@ export const ConfigCurrentView = ({
                   </div>
                 </div>
                 <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => openCompare(
+                      templates.length > 0 ? `template:${templates[0].template_id}` : "",
+                      `config:${activeConfig.configId}`
+                    )}
+                  >
+                    <GitCompare className="h-4 w-4 mr-1" />
+                    Compare
+                  </Button>
                   {activeConfig?.deploymentStatus !== 'deployed' && (
                     <Button
                       size="sm"
@@ -193,7 +281,7 @@ export const ConfigCurrentView = ({
             <ScrollArea className="h-64">
               <div className="divide-y">
                 {inactiveConfigs.map((config, index) => (
-                  <div key={`config-${config?.config_id || index}-${config?.config_version || 0}-${index}`} className="p-4">
+                  <div key={`config-${config?.configId || index}-${config?.configVersion || 0}-${index}`} className="p-4">
                     <div className="flex items-start justify-between">
                       <div className="space-y-1">
                         <h4 className="font-medium">{config?.configName || 'Unknown Configuration'}</h4>
@@ -213,6 +301,27 @@ export const ConfigCurrentView = ({
                       </div>
                       <div className="flex items-center space-x-2">
                         {getDeploymentStatusBadge(config?.deploymentStatus || 'unknown')}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openCompare(
+                            `config:${config.configId}`,
+                            activeConfig ? `config:${activeConfig.configId}` : ""
+                          )}
+                        >
+                          <GitCompare className="h-3 w-3 mr-1" />
+                          Compare
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => openSchedule(config)}>
+                          <CalendarClock className="h-3 w-3 mr-1" />
+                          Schedule
+                        </Button>
+                        {activeConfig && (
+                          <Button size="sm" variant="outline" onClick={() => openRollback(config)}>
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Roll back
+                          </Button>
+                        )}
                         <Button
                           size="sm"
                           variant="outline"
@@ -237,6 +346,102 @@ export const ConfigCurrentView = ({
           </CardContent>
         </Card>
       )}
+
+      <ConfigCompareDialog
+        open={compare.open}
+        onOpenChange={(open) => setCompare({ ...compare, open })}
+        versions={configs || []}
+        templates={templates}
+        initialBefore={compare.before}
+        initialAfter={compare.after}
+      />
+
+      <Dialog open={rollbackTarget !== null} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Roll back to version {rollbackTarget?.configVersion}</DialogTitle>
+            <DialogDescription>
+              Creates a new version with the payload of version {rollbackTarget?.configVersion} and
+              activates it. The current version stays in the history.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="rollback-reason">Reason *</Label>
+            <Textarea
+              id="rollback-reason"
+              value={rollbackReason}
+              onChange={(e) => setRollbackReason(e.target.value)}
+              placeholder="Why is this version being restored?"
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRollbackTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRollback} disabled={rollingBack || rollbackReason.trim().length < 3}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              {rollingBack ? "Rolling back..." : "Roll back"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={scheduleTarget !== null} onOpenChange={(open) => !open && setScheduleTarget(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Schedule activation of version {scheduleTarget?.configVersion}</DialogTitle>
+            <DialogDescription>
+              The server activates the configuration at the chosen time, or at the start of the next
+              maintenance window of the device (or its client) after that time.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-time">Activate at</Label>
+              <Input
+                id="schedule-time"
+                type="datetime-local"
+                value={scheduleForm.scheduledFor}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, scheduledFor: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="schedule-window"
+                checked={scheduleForm.useMaintenanceWindow}
+                onCheckedChange={(checked) => setScheduleForm({ ...scheduleForm, useMaintenanceWindow: checked === true })}
+              />
+              <Label htmlFor="schedule-window">Wait for the next maintenance window</Label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-reason">Reason</Label>
+              <Textarea
+                id="schedule-reason"
+                value={scheduleForm.reason}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, reason: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setScheduleTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSchedule}
+              disabled={scheduling || (!scheduleForm.scheduledFor && !scheduleForm.useMaintenanceWindow)}
+            >
+              <CalendarClock className="h-4 w-4 mr-1" />
+              {scheduling ? "Scheduling..." : "Schedule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { diffConfigs, summarizeDiff, ConfigChange } from "@/services/configDiff";
+
+interface ConfigDiffViewProps {
+  before: unknown;
+  after: unknown;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+const rowStyles: Record<ConfigChange["type"], string> = {
+  added: "bg-green-50",
+  removed: "bg-red-50",
+  changed: "bg-yellow-50"
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return "";
+  return typeof value === "string" ? JSON.stringify(value) : JSON.stringify(value, null, 2);
+};
+
+export const ConfigDiffView = ({ before, after, beforeLabel, afterLabel }: ConfigDiffViewProps) => {
+  const changes = useMemo(() => diffConfigs(before, after), [before, after]);
+  const summary = summarizeDiff(changes);
+
+  if (changes.length === 0) {
+    return (
+      <div className="text-center py-6 text-sm text-muted-foreground">
+        No differences between {beforeLabel} and {afterLabel}.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <Badge variant="outline" className="text-green-700 border-green-300">+{summary.added} added</Badge>
+        <Badge variant="outline" className="text-red-700 border-red-300">-{summary.removed} removed</Badge>
+        <Badge variant="outline" className="text-yellow-700 border-yellow-300">~{summary.changed} changed</Badge>
+      </div>
+
+      <ScrollArea className="h-80 border rounded-md">
+        <table className="w-full text-xs">
+          <thead className="bg-muted sticky top-0">
+            <tr>
+              <th className="text-left font-medium p-2 w-1/4">Path</th>
+              <th className="text-left font-medium p-2">{beforeLabel}</th>
+              <th className="text-left font-medium p-2">{afterLabel}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {changes.map((change) => (
+              <tr key={change.path} className={rowStyles[change.type]}>
+                <td className="p-2 font-mono align-top break-all">{change.path || "(root)"}</td>
+                <td className="p-2 align-top">
+                  <pre className={`whitespace-pre-wrap break-all ${change.type === "added" ? "" : "text-red-700"}`}>
+                    {formatValue(change.before)}
+                  </pre>
+                </td>
+                <td className="p-2 align-top">
+                  <pre className={`whitespace-pre-wrap break-all ${change.type === "removed" ? "" : "text-green-700"}`}>
+                    {formatValue(change.after)}
+                  </pre>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -19,23 +19,25 @@ import {
   Eye,
   EyeOff,
   Wrench,
-  Code
+  Code,
+  GitCompare
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import ConfigBuilder from "./ConfigBuilder";
+import { ConfigDiffView } from "./ConfigDiffView";
 
 interface DeviceConfig {
-  config_id: number;
-  device_id: string;
-  config_version: number;
-  config_name: string;
-  config_data: any;
-  config_hash: string;
-  is_active: boolean;
-  is_deployed: boolean;
-  deployment_status: string;
-  created_at: string;
-  activated_at?: string;
+  configId: number;
+  deviceId: string;
+  configVersion: number;
+  configName: string;
+  configData: any;
+  configHash: string;
+  isActive: boolean;
+  isDeployed: boolean;
+  deploymentStatus: string;
+  createdAt: string;
+  activatedAt?: string;
   notes?: string;
 }
 
@@ -70,9 +72,9 @@ export const ConfigEditor = ({
   onSave,
   onCancel
 }: ConfigEditorProps) => {
-  const [configName, setConfigName] = useState(config?.config_name || "");
+  const [configName, setConfigName] = useState(config?.configName || "");
   const [configData, setConfigData] = useState(
-    config?.config_data ? JSON.stringify(config.config_data, null, 2) : ""
+    config?.configData ? JSON.stringify(config.configData, null, 2) : ""
   );
   const [notes, setNotes] = useState(config?.notes || "");
   const [selectedTemplate, setSelectedTemplate] = useState<string>("");
@@ -80,9 +82,19 @@ export const ConfigEditor = ({
   const [saving, setSaving] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
   const [useBuilder, setUseBuilder] = useState(false);
+  const [showChanges, setShowChanges] = useState(false);
   const { toast } = useToast();
 
   const isEditing = !!config;
+
+  // Parsed draft for the changes view; undefined while the JSON is invalid
+  const draftData = useMemo(() => {
+    try {
+      return configData.trim() ? JSON.parse(configData) : undefined;
+    } catch {
+      return undefined;
+    }
+  }, [configData]);
   
   // Debug button state
   React.useEffect(() => {
@@ -259,7 +271,7 @@ export const ConfigEditor = ({
         <CardTitle className="flex items-center space-x-2">
           <FileText className="h-5 w-5" />
           <span>
-            {isEditing ? `Edit Configuration: ${config.config_name}` : 'Create New Configuration'}
+            {isEditing ? `Edit Configuration: ${config.configName}` : 'Create New Configuration'}
           </span>
         </CardTitle>
       </CardHeader>
@@ -344,6 +356,7 @@ export const ConfigEditor = ({
         {useBuilder ? (
           <ConfigBuilder
             deviceId={deviceId}
+            value={configData}
             onJsonGenerated={(json) => setConfigData(json)}
           />
         ) : (
@@ -415,6 +428,30 @@ export const ConfigEditor = ({
           </div>
         )}
 
+        {/* Changes against the version being edited */}
+        {isEditing && (
+          <div className="space-y-3">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setShowChanges(!showChanges)}
+              disabled={draftData === undefined}
+            >
+              <GitCompare className="h-3 w-3 mr-1" />
+              {showChanges ? "Hide changes" : "Show changes"}
+            </Button>
+            {showChanges && draftData !== undefined && (
+              <ConfigDiffView
+                before={config.configData}
+                after={draftData}
+                beforeLabel={`Version ${config.configVersion}`}
+                afterLabel="Draft"
+              />
+            )}
+          </div>
+        )}
+
         {/* Notes */}
         <div className="space-y-2">
           <Label htmlFor="notes">Notes (Optional)</Label>
@@ -13,6 +13,7 @@ import {
   XCircle
 } from "lucide-react";
 import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
 
 interface DeviceWithConfigStatus {
   device_id: string;
@@ -23,9 +24,20 @@ interface DeviceWithConfigStatus {
     config_version: number;
     deployment_status: string;
     activated_at: string;
+    deployment_retries: number;
+    deployment_error: string | null;
+    completion_source: 'inferred' | 'timeout' | 'superseded' | null;
   };
   total_configs: number;
   last_updated: string;
+  last_polled_at: string | null;
+  config_sync: {
+    reported_hash: string | null;
+    reported_at: string | null;
+    firmware_version: string | null;
+    in_sync: boolean | null;
+    drift_since: string | null;
+  } | null;
 }
 
 interface DeviceConfigListProps {
@@ -155,6 +167,41 @@ export const DeviceConfigList = ({
                           Active: {device.active_config.config_name} v{device.active_config.config_version}
                         </div>
                       )}
+                      {device.active_config?.deployment_status === 'pending' && device.active_config.deployment_retries > 0 && (
+                        <div className="text-xs text-orange-600 truncate">
+                          No response yet, retry {device.active_config.deployment_retries}
+                        </div>
+                      )}
+                      {device.active_config?.deployment_status === 'failed' && device.active_config.deployment_error && (
+                        <div className="text-xs text-red-600 truncate" title={device.active_config.deployment_error}>
+                          {device.active_config.deployment_error}
+                        </div>
+                      )}
+                      {device.active_config?.completion_source === 'inferred' && (
+                        <div className="text-xs text-muted-foreground truncate">
+                          Confirmed by version check
+                        </div>
+                      )}
+                      {device.config_sync?.in_sync === false && (
+                        <div
+                          className="text-xs text-red-600 truncate"
+                          title={`Device reports ${device.config_sync.reported_hash}`}
+                        >
+                          Drift: running {device.config_sync.reported_hash}
+                          {device.config_sync.drift_since &&
+                            ` since ${formatDistanceToNow(new Date(device.config_sync.drift_since), { addSuffix: true })}`}
+                        </div>
+                      )}
+                      {device.config_sync?.firmware_version && (
+                        <div className="text-xs text-muted-foreground truncate">
+                          Firmware {device.config_sync.firmware_version}
+                        </div>
+                      )}
+                      {device.last_polled_at && (
+                        <div className="text-xs text-muted-foreground truncate">
+                          Last check-in {formatDistanceToNow(new Date(device.last_polled_at), { addSuffix: true })}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </Button>
@@ -17,7 +17,13 @@ import {
 import { DeviceConfigList } from "./DeviceConfigList";
 import { ConfigCurrentView } from "./ConfigCurrentView";
 import { ConfigEditor } from "./ConfigEditor";
+import { EffectiveConfigView } from "./EffectiveConfigView";
+import { RolloutCampaigns } from "./RolloutCampaigns";
+import { ConfigApprovals } from "./ConfigApprovals";
+import { ScheduledActivations } from "./ScheduledActivations";
+import { MaintenanceWindows } from "./MaintenanceWindows";
 import { useDeviceConfigs } from "./hooks/useDeviceConfigs";
+import { ScheduleActivationOptions } from "@/services/api";
 
 export const DeviceConfigManagement = () => {
   const {
@@ -31,6 +37,8 @@ export const DeviceConfigManagement = () => {
     templatesLoading,
     createConfig,
     activateConfig,
+    rollbackConfig,
+    scheduleConfig,
     deployConfig,
     refreshData
   } = useDeviceConfigs();
@@ -74,6 +82,17 @@ export const DeviceConfigManagement = () => {
     }
   };
 
+  // Errors are toasted by the hook and re-thrown so the rollback dialog stays open
+  const handleRollbackConfig = async (configId: number, reason: string) => {
+    if (!selectedDevice) return;
+    return rollbackConfig(selectedDevice, configId, reason);
+  };
+
+  const handleScheduleConfig = async (configId: number, options: ScheduleActivationOptions) => {
+    if (!selectedDevice) return;
+    return scheduleConfig(selectedDevice, configId, options);
+  };
+
   const handleDeployConfig = async (configId: number) => {
     if (!selectedDevice) return;
     
@@ -99,7 +118,7 @@ export const DeviceConfigManagement = () => {
         <div>
           <h2 className="text-2xl font-bold">Device Configuration Management</h2>
           <p className="text-muted-foreground">
-            Manage device configurations, deployments, and templates
+            Manage device configurations, deployments, rollouts and templates
           </p>
         </div>
         <div className="flex space-x-2">
@@ -210,6 +229,16 @@ export const DeviceConfigManagement = () => {
                 onActivateConfig={handleActivateConfig}
                 onDeployConfig={handleDeployConfig}
                 onEditConfig={handleEditConfig}
+                onRollbackConfig={handleRollbackConfig}
+                onScheduleConfig={handleScheduleConfig}
+                templates={templates}
+              />
+
+              {/* Merged universal / client / device configuration */}
+              <EffectiveConfigView
+                deviceId={selectedDevice}
+                clientId={devices.find(d => d.device_id === selectedDevice)?.client_id}
+                refreshKey={configs}
               />
 
               {/* Configuration Editor Modal/Panel */}
@@ -242,6 +271,20 @@ export const DeviceConfigManagement = () => {
           )}
         </div>
       </div>
+
+      {/* Activations awaiting a second approver */}
+      <ConfigApprovals refreshKey={configs} onApproved={refreshData} />
+
+      {/* Fleet rollouts */}
+      <RolloutCampaigns devices={devices} templates={templates} />
+
+      {/* Scheduled activations and the windows they wait for */}
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="xl:col-span-2">
+          <ScheduledActivations refreshKey={configs} />
+        </div>
+        <MaintenanceWindows devices={devices} />
+      </div>
     </div>
   );
 };
\ No newline at end of file
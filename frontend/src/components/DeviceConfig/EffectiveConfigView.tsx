@@ -0,0 +1,299 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Layers, Building2, Trash2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { deviceConfigApi, EffectiveDeviceConfig } from "@/services/api";
+import { fieldSource, ConfigLayer } from "@/services/effectiveConfig";
+
+interface EffectiveConfigViewProps {
+  deviceId: string;
+  clientId?: string | number | null;
+  // Changes whenever the device's configurations are reloaded (activation, rollback, ...)
+  refreshKey?: unknown;
+}
+
+const layerBadges: Record<ConfigLayer, { label: string; className: string }> = {
+  universal: { label: "Universal", className: "bg-gray-100 text-gray-800" },
+  client: { label: "Client", className: "bg-purple-100 text-purple-800" },
+  device: { label: "Device", className: "bg-blue-100 text-blue-800" }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+// Leaf fields in document order; arrays and empty objects are shown as one value like the merge treats them
+const flattenFields = (value: Record<string, unknown>, path = ""): { path: string; value: unknown }[] =>
+  Object.entries(value).flatMap(([key, child]) => {
+    const childPath = path ? `${path}.${key}` : key;
+    return isPlainObject(child) && Object.keys(child).length > 0
+      ? flattenFields(child, childPath)
+      : [{ path: childPath, value: child }];
+  });
+
+export const EffectiveConfigView = ({ deviceId, clientId, refreshKey }: EffectiveConfigViewProps) => {
+  const [effective, setEffective] = useState<EffectiveDeviceConfig | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [showOverrides, setShowOverrides] = useState(false);
+  const [overridesJson, setOverridesJson] = useState("");
+  const [overridesNotes, setOverridesNotes] = useState("");
+  const [hasOverrides, setHasOverrides] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const numericClientId = clientId ? Number(clientId) : null;
+
+  const loadEffective = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await deviceConfigApi.getEffectiveConfig(deviceId);
+      if (response.success) {
+        setEffective(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading effective configuration:', error);
+      setEffective(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [deviceId]);
+
+  useEffect(() => {
+    loadEffective();
+  }, [loadEffective, refreshKey]);
+
+  const openOverrides = async () => {
+    if (!numericClientId) return;
+    try {
+      const response = await deviceConfigApi.getClientOverrides(numericClientId);
+      setHasOverrides(!!response.data);
+      setOverridesJson(JSON.stringify(response.data?.overrides || {}, null, 2));
+      setOverridesNotes(response.data?.notes || "");
+      setShowOverrides(true);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load client overrides",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const saveOverrides = async () => {
+    if (!numericClientId) return;
+
+    let overrides: unknown;
+    try {
+      overrides = JSON.parse(overridesJson);
+    } catch (error) {
+      toast({
+        title: "Validation Error",
+        description: error instanceof Error ? error.message : "Invalid JSON syntax",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (!isPlainObject(overrides)) {
+      toast({
+        title: "Validation Error",
+        description: "Overrides must be a JSON object",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await deviceConfigApi.saveClientOverrides(numericClientId, overrides, overridesNotes.trim() || undefined);
+      toast({
+        title: "Overrides saved",
+        description: `Devices of client ${numericClientId} pick up the change on their next poll`
+      });
+      setShowOverrides(false);
+      await loadEffective();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save client overrides",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeOverrides = async () => {
+    if (!numericClientId) return;
+    try {
+      setSaving(true);
+      await deviceConfigApi.deleteClientOverrides(numericClientId);
+      toast({
+        title: "Overrides removed",
+        description: `Client ${numericClientId} no longer overrides any settings`
+      });
+      setShowOverrides(false);
+      await loadEffective();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove client overrides",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fields = effective ? flattenFields(effective.data) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Layers className="h-5 w-5" />
+            <span>Effective Configuration</span>
+          </CardTitle>
+          {effective?.layered && numericClientId && (
+            <Button size="sm" variant="outline" onClick={openOverrides}>
+              <Building2 className="h-4 w-4 mr-1" />
+              Client Overrides
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && !effective ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-1/2" />
+            <Skeleton className="h-32 w-full" />
+          </div>
+        ) : !effective || fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No configuration layers apply to this device yet.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              {effective.layers.universal && (
+                <Badge className={layerBadges.universal.className}>
+                  Universal #{effective.layers.universal.configId}
+                </Badge>
+              )}
+              {effective.layers.client && (
+                <Badge className={layerBadges.client.className}>
+                  Client {effective.layers.client.clientId}
+                </Badge>
+              )}
+              {effective.layers.device && (
+                <Badge className={layerBadges.device.className}>
+                  Device v{effective.layers.device.configVersion}
+                </Badge>
+              )}
+              <span className="text-muted-foreground ml-auto">
+                Hash <span className="font-mono">{effective.hash ? effective.hash.slice(0, 8) : "—"}</span>
+              </span>
+            </div>
+
+            {!effective.layers.device && (
+              <p className="text-xs text-muted-foreground">
+                The device has no active configuration, so it won't download these settings until one is activated.
+              </p>
+            )}
+
+            <ScrollArea className="h-64 border rounded-md">
+              <table className="w-full text-xs">
+                <thead className="bg-muted sticky top-0">
+                  <tr>
+                    <th className="text-left font-medium p-2">Field</th>
+                    <th className="text-left font-medium p-2">Value</th>
+                    <th className="text-left font-medium p-2">Source</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {fields.map((field) => {
+                    const source = fieldSource(effective.sources, field.path);
+                    return (
+                      <tr key={field.path}>
+                        <td className="p-2 font-mono break-all">{field.path}</td>
+                        <td className="p-2 font-mono break-all">{JSON.stringify(field.value)}</td>
+                        <td className="p-2">
+                          {source && (
+                            <Badge className={layerBadges[source].className}>{layerBadges[source].label}</Badge>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </ScrollArea>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={showOverrides} onOpenChange={setShowOverrides}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Client {numericClientId} Overrides</DialogTitle>
+            <DialogDescription>
+              Settings applied to every device of this client on top of the universal communication
+              settings. A device's own configuration still takes precedence.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="client-overrides">Overrides (JSON)</Label>
+              <Textarea
+                id="client-overrides"
+                value={overridesJson}
+                onChange={(e) => setOverridesJson(e.target.value)}
+                rows={12}
+                className="font-mono text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="client-overrides-notes">Notes</Label>
+              <Input
+                id="client-overrides-notes"
+                value={overridesNotes}
+                onChange={(e) => setOverridesNotes(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            {hasOverrides && (
+              <Button variant="outline" onClick={removeOverrides} disabled={saving} className="mr-auto">
+                <Trash2 className="h-4 w-4 mr-1" />
+                Remove
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setShowOverrides(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={saveOverrides} disabled={saving}>
+              <Save className="h-4 w-4 mr-1" />
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,262 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Wrench, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { deviceConfigApi, MaintenanceWindow, MaintenanceWindowInput } from "@/services/api";
+
+interface MaintenanceWindowsProps {
+  devices: { device_id: string; client_id: string | number | null }[];
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const emptyForm: MaintenanceWindowInput = {
+  scopeType: 'client',
+  scopeId: '',
+  windowName: '',
+  daysOfWeek: [0, 6],
+  startTime: '02:00',
+  durationMinutes: 120
+};
+
+export const MaintenanceWindows = ({ devices }: MaintenanceWindowsProps) => {
+  const [windows, setWindows] = useState<MaintenanceWindow[]>([]);
+  const [showCreate, setShowCreate] = useState(false);
+  const [form, setForm] = useState<MaintenanceWindowInput>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const clientIds = [...new Set(devices.map((device) => device.client_id).filter(Boolean).map(String))].sort();
+
+  const loadWindows = async () => {
+    try {
+      const response = await deviceConfigApi.getMaintenanceWindows();
+      if (response.success) {
+        setWindows(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading maintenance windows:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadWindows();
+  }, []);
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setForm({
+      ...form,
+      daysOfWeek: checked ? [...form.daysOfWeek, day] : form.daysOfWeek.filter((d) => d !== day)
+    });
+  };
+
+  const handleCreate = async () => {
+    try {
+      setSaving(true);
+      await deviceConfigApi.createMaintenanceWindow(form);
+      toast({
+        title: "Window created",
+        description: `Maintenance window "${form.windowName}" added`
+      });
+      setShowCreate(false);
+      setForm(emptyForm);
+      await loadWindows();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create maintenance window",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (window: MaintenanceWindow) => {
+    try {
+      await deviceConfigApi.deleteMaintenanceWindow(window.windowId);
+      toast({
+        title: "Window deleted",
+        description: `Maintenance window "${window.windowName}" removed`
+      });
+      await loadWindows();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete maintenance window",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const canCreate = form.scopeId && form.windowName.trim() && form.daysOfWeek.length > 0 && form.startTime;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Wrench className="h-5 w-5" />
+            <span>Maintenance Windows</span>
+          </CardTitle>
+          <Button size="sm" onClick={() => setShowCreate(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Window
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {windows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No maintenance windows. Activations scheduled for a window need one on the device or its client.
+          </p>
+        ) : (
+          <div className="divide-y border rounded-md">
+            {windows.map((window) => (
+              <div key={window.windowId} className="p-3 flex items-center justify-between text-sm">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{window.windowName}</span>
+                    <Badge variant="outline">
+                      {window.scopeType === 'client' ? `Client ${window.scopeId}` : window.scopeId}
+                    </Badge>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {window.daysOfWeek.map((day) => DAY_NAMES[day]).join(', ')} · {window.startTime} UTC for {window.durationMinutes} min
+                  </div>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => handleDelete(window)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New Maintenance Window</DialogTitle>
+            <DialogDescription>
+              A weekly window (UTC) in which scheduled activations may run. A device's own windows
+              replace its client's.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="window-name">Name *</Label>
+              <Input
+                id="window-name"
+                value={form.windowName}
+                onChange={(e) => setForm({ ...form, windowName: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Applies to</Label>
+                <Select
+                  value={form.scopeType}
+                  onValueChange={(value) => setForm({ ...form, scopeType: value as MaintenanceWindowInput['scopeType'], scopeId: '' })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="client">Client</SelectItem>
+                    <SelectItem value="device">Device</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{form.scopeType === 'client' ? 'Client' : 'Device'} *</Label>
+                <Select value={form.scopeId} onValueChange={(value) => setForm({ ...form, scopeId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(form.scopeType === 'client' ? clientIds : devices.map((device) => device.device_id)).map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {form.scopeType === 'client' ? `Client ${id}` : id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Days</Label>
+              <div className="flex flex-wrap gap-3">
+                {DAY_NAMES.map((name, day) => (
+                  <div key={name} className="flex items-center space-x-1">
+                    <Checkbox
+                      id={`window-day-${day}`}
+                      checked={form.daysOfWeek.includes(day)}
+                      onCheckedChange={(checked) => toggleDay(day, checked === true)}
+                    />
+                    <Label htmlFor={`window-day-${day}`} className="text-sm font-normal">{name}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="window-start">Start (UTC)</Label>
+                <Input
+                  id="window-start"
+                  type="time"
+                  value={form.startTime}
+                  onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="window-duration">Duration (minutes)</Label>
+                <Input
+                  id="window-duration"
+                  type="number"
+                  min={15}
+                  max={1440}
+                  value={form.durationMinutes}
+                  onChange={(e) => setForm({ ...form, durationMinutes: parseInt(e.target.value) || 15 })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreate(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !canCreate}>
+              {saving ? "Creating..." : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
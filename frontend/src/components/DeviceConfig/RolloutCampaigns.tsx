@@ -0,0 +1,571 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Rocket,
+  Plus,
+  RefreshCw,
+  Pause,
+  Play,
+  Square,
+  ChevronDown,
+  ChevronUp,
+  AlertTriangle
+} from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import {
+  deviceConfigApi,
+  RolloutCampaign,
+  RolloutCampaignDetails,
+  RolloutCampaignStatus,
+  RolloutTargetType
+} from "@/services/api";
+
+const ACTIVE_POLL_MS = 30000;
+
+interface RolloutCampaignsProps {
+  devices: { device_id: string; client_id: string }[];
+  templates: { template_id: number; template_name: string; template_data: unknown }[];
+}
+
+const emptyForm = {
+  campaignName: "",
+  configName: "",
+  configJson: "{\n  \n}",
+  targetType: "client" as RolloutTargetType,
+  targetValue: "",
+  deviceIds: "",
+  canaryPercent: 10,
+  waveCount: 3,
+  failureThresholdPercent: 20,
+  notes: ""
+};
+
+const getStatusBadge = (status: RolloutCampaignStatus) => {
+  switch (status) {
+    case 'running':
+      return <Badge className="bg-blue-100 text-blue-800">Running</Badge>;
+    case 'paused':
+      return <Badge className="bg-orange-100 text-orange-800">Paused</Badge>;
+    case 'halted':
+      return <Badge variant="destructive">Halted</Badge>;
+    case 'completed':
+      return <Badge className="bg-green-100 text-green-800">Completed</Badge>;
+    default:
+      return <Badge variant="outline">Aborted</Badge>;
+  }
+};
+
+const describeTarget = (campaign: RolloutCampaign) => {
+  switch (campaign.targetType) {
+    case 'client':
+      return `Client ${campaign.targetValue}`;
+    case 'logic':
+      return `Logic ID ${campaign.targetValue}`;
+    default:
+      return `${campaign.progress.total} selected devices`;
+  }
+};
+
+const waveLabel = (wave: number) => (wave === 0 ? 'Canary' : `Wave ${wave}`);
+
+export const RolloutCampaigns = ({ devices, templates }: RolloutCampaignsProps) => {
+  const [campaigns, setCampaigns] = useState<RolloutCampaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unavailable, setUnavailable] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [details, setDetails] = useState<RolloutCampaignDetails | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const clientIds = [...new Set(devices.map(d => String(d.client_id)).filter(Boolean))].sort();
+  const hasActiveCampaign = campaigns.some(c => c.status === 'running');
+
+  const loadCampaigns = useCallback(async (showLoading = true) => {
+    try {
+      if (showLoading) setLoading(true);
+      const response = await deviceConfigApi.getRollouts();
+      if (response.success) {
+        setCampaigns(response.data);
+        setUnavailable(false);
+      }
+    } catch (error) {
+      console.error('Failed to load rollout campaigns:', error);
+      // 501 until create_config_rollout_tables.sql has been run
+      setUnavailable(true);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, [loadCampaigns]);
+
+  const loadDetails = useCallback(async (campaignId: number) => {
+    try {
+      const response = await deviceConfigApi.getRollout(campaignId);
+      if (response.success) {
+        setDetails(response.data);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load rollout campaign details",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  // Keep progress current while a campaign is moving through its waves
+  useEffect(() => {
+    if (!hasActiveCampaign) return;
+    const interval = setInterval(() => {
+      loadCampaigns(false);
+      if (expandedId) loadDetails(expandedId);
+    }, ACTIVE_POLL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveCampaign, expandedId, loadCampaigns, loadDetails]);
+
+  const toggleExpanded = (campaignId: number) => {
+    if (expandedId === campaignId) {
+      setExpandedId(null);
+      setDetails(null);
+      return;
+    }
+    setExpandedId(campaignId);
+    setDetails(null);
+    loadDetails(campaignId);
+  };
+
+  const handleAction = async (campaign: RolloutCampaign, action: 'pause' | 'resume' | 'abort') => {
+    if (action === 'abort' && !confirm(`Abort "${campaign.campaignName}"? Devices that have not received the configuration yet will be skipped.`)) {
+      return;
+    }
+
+    try {
+      await deviceConfigApi.updateRolloutStatus(campaign.campaignId, action);
+      toast({
+        title: "Success",
+        description: `Rollout campaign ${action === 'abort' ? 'aborted' : action === 'pause' ? 'paused' : 'resumed'}`
+      });
+      await loadCampaigns(false);
+      if (expandedId === campaign.campaignId) await loadDetails(campaign.campaignId);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to ${action} rollout campaign`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleTemplateSelect = (templateId: string) => {
+    const template = templates.find(t => String(t.template_id) === templateId);
+    if (!template) return;
+    const data = typeof template.template_data === 'string'
+      ? JSON.parse(template.template_data)
+      : template.template_data;
+    setForm(prev => ({
+      ...prev,
+      configName: prev.configName || template.template_name,
+      configJson: JSON.stringify(data, null, 2)
+    }));
+  };
+
+  const handleCreate = async () => {
+    let configData: Record<string, unknown>;
+    try {
+      configData = JSON.parse(form.configJson);
+    } catch (error) {
+      toast({
+        title: "Invalid configuration",
+        description: "Configuration must be valid JSON",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const deviceIds = form.deviceIds.split(/[\s,]+/).map(id => id.trim()).filter(Boolean);
+
+    try {
+      setSaving(true);
+      await deviceConfigApi.createRollout({
+        campaignName: form.campaignName.trim(),
+        configName: form.configName.trim(),
+        configData,
+        targetType: form.targetType,
+        targetValue: form.targetType === 'devices' ? undefined : parseInt(form.targetValue),
+        deviceIds: form.targetType === 'devices' ? deviceIds : undefined,
+        canaryPercent: form.canaryPercent,
+        waveCount: form.waveCount,
+        failureThresholdPercent: form.failureThresholdPercent,
+        notes: form.notes.trim() || undefined
+      });
+      toast({
+        title: "Success",
+        description: "Rollout campaign started with its canary wave"
+      });
+      setShowCreate(false);
+      setForm(emptyForm);
+      await loadCampaigns(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create rollout campaign",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canSubmit = form.campaignName.trim() && form.configName.trim() && (
+    form.targetType === 'devices' ? form.deviceIds.trim() : form.targetValue.trim()
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center space-x-2">
+            <Rocket className="h-5 w-5" />
+            <span>Rollout Campaigns</span>
+          </CardTitle>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => loadCampaigns()} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button size="sm" onClick={() => setShowCreate(true)} disabled={unavailable}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Rollout
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : unavailable ? (
+          <p className="text-sm text-muted-foreground">
+            Rollout campaigns are not available yet. Run create_config_rollout_tables.sql to enable them.
+          </p>
+        ) : campaigns.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No rollout campaigns yet. Start one to push a configuration to many devices in waves.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {campaigns.map(campaign => {
+              const { progress } = campaign;
+              const reported = progress.succeeded + progress.failed;
+              const percentDone = progress.total > 0 ? Math.round((reported / progress.total) * 100) : 0;
+              const isExpanded = expandedId === campaign.campaignId;
+
+              return (
+                <div key={campaign.campaignId} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex justify-between items-start">
+                    <div className="space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium">{campaign.campaignName}</span>
+                        {getStatusBadge(campaign.status)}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {campaign.configName} → {describeTarget(campaign)} · {waveLabel(campaign.currentWave)} of {campaign.totalWaves} waves ·
+                        halts above {campaign.failureThresholdPercent}% failures
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Started {format(new Date(campaign.createdAt), 'MMM dd, yyyy HH:mm')}
+                        {campaign.createdByName ? ` by ${campaign.createdByName}` : ''}
+                      </p>
+                    </div>
+                    <div className="flex space-x-2">
+                      {campaign.status === 'running' && (
+                        <Button variant="outline" size="sm" onClick={() => handleAction(campaign, 'pause')}>
+                          <Pause className="h-4 w-4 mr-1" />
+                          Pause
+                        </Button>
+                      )}
+                      {(campaign.status === 'paused' || campaign.status === 'halted') && (
+                        <Button variant="outline" size="sm" onClick={() => handleAction(campaign, 'resume')}>
+                          <Play className="h-4 w-4 mr-1" />
+                          Resume
+                        </Button>
+                      )}
+                      {['running', 'paused', 'halted'].includes(campaign.status) && (
+                        <Button variant="outline" size="sm" onClick={() => handleAction(campaign, 'abort')}>
+                          <Square className="h-4 w-4 mr-1" />
+                          Abort
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => toggleExpanded(campaign.campaignId)}>
+                        {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {campaign.statusReason && (
+                    <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                      {campaign.status === 'halted' && <AlertTriangle className="h-3 w-3 text-red-500" />}
+                      <span>{campaign.statusReason}</span>
+                    </div>
+                  )}
+
+                  <div className="space-y-1">
+                    <Progress value={percentDone} />
+                    <div className="flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+                      <span>{reported}/{progress.total} reported</span>
+                      <span className="text-green-700">{progress.succeeded} succeeded</span>
+                      <span className="text-red-700">{progress.failed} failed</span>
+                      <span>{progress.pending + progress.inProgress} in flight</span>
+                      <span>{progress.waiting} waiting</span>
+                      {progress.cancelled > 0 && <span>{progress.cancelled} cancelled</span>}
+                    </div>
+                  </div>
+
+                  {isExpanded && (
+                    details?.campaignId === campaign.campaignId ? (
+                      <div className="space-y-3 pt-2 border-t">
+                        {details.waves.map(wave => (
+                          <div key={wave.wave} className="grid grid-cols-4 items-center gap-2 text-xs">
+                            <span className="font-medium">
+                              {waveLabel(wave.wave)} ({wave.total} devices)
+                            </span>
+                            <div className="col-span-2">
+                              <Progress value={wave.total > 0 ? ((wave.succeeded + wave.failed) / wave.total) * 100 : 0} />
+                            </div>
+                            <span className="text-muted-foreground">
+                              {wave.succeeded} ok · {wave.failed} failed · {wave.pending + wave.inProgress} in flight
+                            </span>
+                          </div>
+                        ))}
+
+                        {details.targets.filter(t => t.status === 'failed').length > 0 && (
+                          <div className="space-y-1">
+                            <Label className="text-xs">Failed devices</Label>
+                            {details.targets.filter(t => t.status === 'failed').map(target => (
+                              <div key={target.deviceId} className="text-xs flex justify-between">
+                                <span className="font-mono">{target.deviceId}</span>
+                                <span className="text-muted-foreground truncate ml-4">
+                                  {target.errorMessage || 'No error message reported'}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ) : (
+                      <Skeleton className="h-12 w-full" />
+                    )
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Rollout Campaign</DialogTitle>
+            <DialogDescription>
+              The configuration goes to a canary wave first. Later waves start once every device in the
+              previous wave has reported back, and the rollout halts if failures pass the threshold.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-name">Campaign name *</Label>
+                <Input
+                  id="campaign-name"
+                  value={form.campaignName}
+                  onChange={(e) => setForm({ ...form, campaignName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-config-name">Configuration name *</Label>
+                <Input
+                  id="campaign-config-name"
+                  value={form.configName}
+                  onChange={(e) => setForm({ ...form, configName: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Target</Label>
+                <Select
+                  value={form.targetType}
+                  onValueChange={(value) => setForm({ ...form, targetType: value as RolloutTargetType, targetValue: "" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="client">All devices of a client</SelectItem>
+                    <SelectItem value="logic">All devices with a logic ID</SelectItem>
+                    <SelectItem value="devices">Selected devices</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                {form.targetType === 'client' && (
+                  <>
+                    <Label>Client</Label>
+                    <Select value={form.targetValue} onValueChange={(value) => setForm({ ...form, targetValue: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select client" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {clientIds.map(clientId => (
+                          <SelectItem key={clientId} value={clientId}>
+                            Client {clientId} ({devices.filter(d => String(d.client_id) === clientId).length} devices)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </>
+                )}
+                {form.targetType === 'logic' && (
+                  <>
+                    <Label htmlFor="campaign-logic-id">Conversion logic ID</Label>
+                    <Input
+                      id="campaign-logic-id"
+                      type="number"
+                      min={1}
+                      value={form.targetValue}
+                      onChange={(e) => setForm({ ...form, targetValue: e.target.value })}
+                    />
+                  </>
+                )}
+              </div>
+            </div>
+
+            {form.targetType === 'devices' && (
+              <div className="space-y-2">
+                <Label htmlFor="campaign-devices">Device IDs</Label>
+                <Textarea
+                  id="campaign-devices"
+                  placeholder="Comma or newline separated device IDs"
+                  value={form.deviceIds}
+                  onChange={(e) => setForm({ ...form, deviceIds: e.target.value })}
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-canary">Canary (%)</Label>
+                <Input
+                  id="campaign-canary"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={form.canaryPercent}
+                  onChange={(e) => setForm({ ...form, canaryPercent: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-waves">Waves after canary</Label>
+                <Input
+                  id="campaign-waves"
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={form.waveCount}
+                  onChange={(e) => setForm({ ...form, waveCount: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-threshold">Halt above failure (%)</Label>
+                <Input
+                  id="campaign-threshold"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={form.failureThresholdPercent}
+                  onChange={(e) => setForm({ ...form, failureThresholdPercent: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label htmlFor="campaign-config">Configuration JSON *</Label>
+                {templates.length > 0 && (
+                  <Select onValueChange={handleTemplateSelect}>
+                    <SelectTrigger className="w-48 h-8">
+                      <SelectValue placeholder="Start from template" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.map(template => (
+                        <SelectItem key={template.template_id} value={String(template.template_id)}>
+                          {template.template_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <Textarea
+                id="campaign-config"
+                className="font-mono text-xs min-h-[160px]"
+                value={form.configJson}
+                onChange={(e) => setForm({ ...form, configJson: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="campaign-notes">Notes</Label>
+              <Input
+                id="campaign-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreate(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !canSubmit}>
+              {saving ? 'Starting...' : 'Start Rollout'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,168 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CalendarClock, RefreshCw, XCircle } from "lucide-react";
+import { addMonths, endOfMonth, format, isSameDay, startOfMonth } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { deviceConfigApi, ScheduledActivation, ScheduledActivationStatus } from "@/services/api";
+
+interface ScheduledActivationsProps {
+  // Changes whenever configurations are reloaded, so executed activations show up
+  refreshKey?: unknown;
+}
+
+const statusStyles: Record<ScheduledActivationStatus, string> = {
+  scheduled: "bg-blue-100 text-blue-800",
+  executing: "bg-orange-100 text-orange-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-800"
+};
+
+export const ScheduledActivations = ({ refreshKey }: ScheduledActivationsProps) => {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(undefined);
+  const [schedules, setSchedules] = useState<ScheduledActivation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      setLoading(true);
+      // Include the days of the neighbouring months the calendar shows
+      const response = await deviceConfigApi.getScheduledActivations({
+        from: startOfMonth(addMonths(month, -1)).toISOString(),
+        to: endOfMonth(addMonths(month, 1)).toISOString()
+      });
+      if (response.success) {
+        setSchedules(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading scheduled activations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules, refreshKey]);
+
+  const handleCancel = async (schedule: ScheduledActivation) => {
+    const target = schedule.targetType === 'universal' ? 'the universal configuration' : `device ${schedule.deviceId}`;
+    if (!window.confirm(`Cancel the scheduled activation of ${target}?`)) return;
+
+    try {
+      await deviceConfigApi.cancelScheduledActivation(schedule.scheduleId);
+      toast({
+        title: "Cancelled",
+        description: `Scheduled activation of ${target} cancelled`
+      });
+      await loadSchedules();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel scheduled activation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const scheduledDays = schedules
+    .filter((schedule) => schedule.status === 'scheduled')
+    .map((schedule) => new Date(schedule.scheduledFor));
+  const pastDays = schedules
+    .filter((schedule) => schedule.status !== 'scheduled')
+    .map((schedule) => new Date(schedule.scheduledFor));
+
+  const visible = selectedDay
+    ? schedules.filter((schedule) => isSameDay(new Date(schedule.scheduledFor), selectedDay))
+    : schedules.filter((schedule) => schedule.status === 'scheduled' || schedule.status === 'executing');
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <CalendarClock className="h-5 w-5" />
+            <span>Scheduled Activations</span>
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={loadSchedules} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-[auto_1fr] gap-6">
+          <Calendar
+            mode="single"
+            month={month}
+            onMonthChange={setMonth}
+            selected={selectedDay}
+            onSelect={setSelectedDay}
+            modifiers={{ scheduled: scheduledDays, past: pastDays }}
+            modifiersClassNames={{
+              scheduled: "font-bold text-blue-700 underline",
+              past: "text-muted-foreground underline"
+            }}
+            className="rounded-md border"
+          />
+
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">
+              {selectedDay ? format(selectedDay, 'EEEE, MMM d, yyyy') : 'Upcoming'}
+            </h4>
+
+            {loading && schedules.length === 0 ? (
+              <div className="space-y-2">
+                <Skeleton className="h-12 w-full" />
+                <Skeleton className="h-12 w-full" />
+              </div>
+            ) : visible.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {selectedDay ? 'Nothing scheduled on this day.' : 'No activations are scheduled.'}
+              </p>
+            ) : (
+              <div className="divide-y border rounded-md">
+                {visible.map((schedule) => (
+                  <div key={schedule.scheduleId} className="p-3 flex items-start justify-between gap-3">
+                    <div className="space-y-1 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">
+                          {schedule.targetType === 'universal'
+                            ? 'Universal communication'
+                            : `${schedule.deviceId} v${schedule.configVersion ?? '?'}`}
+                        </span>
+                        <Badge className={statusStyles[schedule.status]}>{schedule.status}</Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {format(new Date(schedule.scheduledFor), 'MMM d, yyyy HH:mm')}
+                        {schedule.windowName && ` · window "${schedule.windowName}"`}
+                        {schedule.configName && ` · ${schedule.configName}`}
+                        {schedule.createdByName && ` · by ${schedule.createdByName}`}
+                      </div>
+                      {schedule.reason && <p className="text-xs">{schedule.reason}</p>}
+                      {schedule.errorMessage && (
+                        <p className="text-xs text-red-600">{schedule.errorMessage}</p>
+                      )}
+                    </div>
+                    {schedule.status === 'scheduled' && (
+                      <Button size="sm" variant="outline" onClick={() => handleCancel(schedule)}>
+                        <XCircle className="h-3 w-3 mr-1" />
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { deviceConfigApi } from '@/services/api';
+import { deviceConfigApi, ScheduleActivationOptions } from '@/services/api';
 import { useToast } from '@/hooks/use-toast';
 
 interface DeviceConfig {
@@ -26,9 +26,20 @@ interface DeviceWithConfigStatus {
     config_version: number;
     deployment_status: string;
     activated_at: string;
+    deployment_retries: number;
+    deployment_error: string | null;
+    completion_source: 'inferred' | 'timeout' | 'superseded' | null;
   };
   total_configs: number;
   last_updated: string;
+  last_polled_at: string | null;
+  config_sync: {
+    reported_hash: string | null;
+    reported_at: string | null;
+    firmware_version: string | null;
+    in_sync: boolean | null;
+    drift_since: string | null;
+  } | null;
 }
 
 interface ConfigTemplate {
@@ -134,7 +145,7 @@ export const useDeviceConfigs = () => {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to create configuration",
+        description: error instanceof Error ? error.message : "Failed to create configuration",
         variant: "destructive"
       });
       throw error;
@@ -146,6 +157,13 @@ export const useDeviceConfigs = () => {
       console.log('Frontend: Activating config', { deviceId, configId });
       const response = await deviceConfigApi.activateConfig(deviceId, configId);
       console.log('Frontend: Activation response', response);
+      if (response.approvalRequired) {
+        toast({
+          title: "Awaiting approval",
+          description: response.message
+        });
+        return response.data;
+      }
       if (response.success) {
         toast({
           title: "Success",
@@ -159,7 +177,56 @@ export const useDeviceConfigs = () => {
       console.error('Frontend: Activation error', error);
       toast({
         title: "Error",
-        description: "Failed to activate configuration",
+        description: error instanceof Error ? error.message : "Failed to activate configuration",
+        variant: "destructive"
+      });
+      throw error;
+    }
+  };
+
+  const scheduleConfig = async (deviceId: string, configId: number, options: ScheduleActivationOptions) => {
+    try {
+      const response = await deviceConfigApi.scheduleActivation(deviceId, configId, options);
+      if (response.approvalRequired) {
+        toast({
+          title: "Awaiting approval",
+          description: response.message
+        });
+        return response.data;
+      }
+      if (response.success) {
+        toast({
+          title: "Activation scheduled",
+          description: `Configuration will be activated ${new Date(response.data.scheduledFor).toLocaleString()}`
+        });
+        return response.data;
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to schedule activation",
+        variant: "destructive"
+      });
+      throw error;
+    }
+  };
+
+  const rollbackConfig = async (deviceId: string, configId: number, reason: string) => {
+    try {
+      const response = await deviceConfigApi.rollbackConfig(deviceId, configId, reason);
+      if (response.success) {
+        toast({
+          title: "Rolled back",
+          description: `Version ${response.data.rolledBackFrom} restored as version ${response.data.configVersion}`
+        });
+        await loadConfigs(deviceId);
+        await loadDevices(); // Refresh device status
+        return response.data;
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to roll back configuration",
         variant: "destructive"
       });
       throw error;
@@ -219,6 +286,8 @@ export const useDeviceConfigs = () => {
     templatesLoading,
     createConfig,
     activateConfig,
+    rollbackConfig,
+    scheduleConfig,
     deployConfig,
     refreshData,
     loadConfigs,
@@ -0,0 +1,541 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bell, Plus, Edit, Trash2, Loader2, Play } from "lucide-react";
+import { alertRuleApi, AlertRule, AlertRuleInput, AlertRuleMeta } from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface RuleFormData {
+  name: string;
+  description: string;
+  clientId: string;
+  deviceId: string;
+  telemetryTable: string;
+  conditionType: 'threshold' | 'fault_code';
+  fieldName: string;
+  operator: string;
+  thresholdSource: 'value' | 'config';
+  thresholdValue: string;
+  thresholdConfigKey: string;
+  faultCodes: string;
+  consecutiveReadings: string;
+  clearReadings: string;
+  severity: 'info' | 'warning' | 'critical';
+  isEnabled: boolean;
+}
+
+const emptyForm: RuleFormData = {
+  name: '',
+  description: '',
+  clientId: '',
+  deviceId: '',
+  telemetryTable: 'IoT_Data_New',
+  conditionType: 'threshold',
+  fieldName: '',
+  operator: 'lt',
+  thresholdSource: 'value',
+  thresholdValue: '',
+  thresholdConfigKey: 'device_settings.motor_current_threshold_ma',
+  faultCodes: '',
+  consecutiveReadings: '1',
+  clearReadings: '1',
+  severity: 'warning',
+  isEnabled: true
+};
+
+const severityVariant = (severity: string) =>
+  severity === 'critical' ? "destructive" : severity === 'warning' ? "default" : "secondary";
+
+export const AlertRuleManagement = () => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [meta, setMeta] = useState<AlertRuleMeta | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [evaluating, setEvaluating] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
+  const [formData, setFormData] = useState<RuleFormData>(emptyForm);
+  const { toast } = useToast();
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [rulesResponse, metaResponse] = await Promise.all([
+        alertRuleApi.getAll(),
+        alertRuleApi.getMeta()
+      ]);
+      if (rulesResponse.success) {
+        setRules(rulesResponse.data);
+      }
+      if (metaResponse.success) {
+        setMeta(metaResponse.data);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch alert rules",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const columns = meta?.tables.find(table => table.table === formData.telemetryTable)?.columns || [];
+
+  const openCreateDialog = () => {
+    setEditingRule(null);
+    setFormData(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (rule: AlertRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      description: rule.description || '',
+      clientId: rule.clientId || '',
+      deviceId: rule.deviceId || '',
+      telemetryTable: rule.telemetryTable,
+      conditionType: rule.conditionType,
+      fieldName: rule.fieldName,
+      operator: rule.operator || 'lt',
+      thresholdSource: rule.thresholdConfigKey ? 'config' : 'value',
+      thresholdValue: rule.thresholdValue?.toString() ?? '',
+      thresholdConfigKey: rule.thresholdConfigKey || emptyForm.thresholdConfigKey,
+      faultCodes: (rule.faultCodes || []).join(', '),
+      consecutiveReadings: rule.consecutiveReadings.toString(),
+      clearReadings: rule.clearReadings.toString(),
+      severity: rule.severity,
+      isEnabled: rule.isEnabled
+    });
+    setDialogOpen(true);
+  };
+
+  const buildPayload = (): AlertRuleInput => ({
+    name: formData.name,
+    description: formData.description || null,
+    clientId: formData.clientId || null,
+    deviceId: formData.deviceId || null,
+    telemetryTable: formData.telemetryTable,
+    conditionType: formData.conditionType,
+    fieldName: formData.fieldName,
+    operator: formData.conditionType === 'threshold' ? formData.operator : null,
+    thresholdValue: formData.conditionType === 'threshold' && formData.thresholdSource === 'value'
+      ? parseFloat(formData.thresholdValue)
+      : null,
+    thresholdConfigKey: formData.conditionType === 'threshold' && formData.thresholdSource === 'config'
+      ? formData.thresholdConfigKey
+      : null,
+    faultCodes: formData.conditionType === 'fault_code'
+      ? formData.faultCodes.split(',').map(code => code.trim()).filter(Boolean).map(Number)
+      : undefined,
+    consecutiveReadings: parseInt(formData.consecutiveReadings) || 1,
+    clearReadings: parseInt(formData.clearReadings) || 1,
+    severity: formData.severity,
+    isEnabled: formData.isEnabled
+  });
+
+  const handleSave = async () => {
+    if (!formData.name || !formData.fieldName) {
+      toast({
+        title: "Validation Error",
+        description: "Name and field are required",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const payload = buildPayload();
+      const response = editingRule
+        ? await alertRuleApi.update(editingRule.id, payload)
+        : await alertRuleApi.create(payload);
+
+      if (response.success) {
+        toast({
+          title: "Success",
+          description: editingRule ? "Alert rule updated" : "Alert rule created"
+        });
+        setDialogOpen(false);
+        await fetchRules();
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save alert rule",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!confirm(`Delete alert rule "${rule.name}"? Alerts it already raised are kept.`)) return;
+
+    try {
+      const response = await alertRuleApi.delete(rule.id);
+      if (response.success) {
+        setRules(prev => prev.filter(item => item.id !== rule.id));
+        toast({
+          title: "Success",
+          description: "Alert rule deleted"
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete alert rule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleEvaluate = async () => {
+    try {
+      setEvaluating(true);
+      const response = await alertRuleApi.evaluate();
+      if (response.success) {
+        toast({
+          title: "Rules evaluated",
+          description: `${response.data.readings} readings checked, ${response.data.raised} alerts raised, ${response.data.resolved} resolved`
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to evaluate alert rules",
+        variant: "destructive"
+      });
+    } finally {
+      setEvaluating(false);
+    }
+  };
+
+  const describeScope = (rule: AlertRule) =>
+    rule.deviceId ? `Device ${rule.deviceId}` : rule.clientId ? `Client ${rule.clientId}` : "All devices";
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Bell className="h-5 w-5" />
+            <span>Alert Rules</span>
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleEvaluate} disabled={evaluating}>
+              {evaluating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+              Evaluate Now
+            </Button>
+            <Button onClick={openCreateDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Rules are checked against new telemetry rows. Matching readings raise one alert per rule and device, which resolves automatically once the condition clears.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No alert rules defined yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Condition</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Table</TableHead>
+                <TableHead>Severity</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map(rule => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell className="font-mono text-xs">{rule.condition}</TableCell>
+                  <TableCell>{describeScope(rule)}</TableCell>
+                  <TableCell>{rule.telemetryTable}</TableCell>
+                  <TableCell>
+                    <Badge variant={severityVariant(rule.severity)}>{rule.severity}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={rule.isEnabled ? "default" : "secondary"}>
+                      {rule.isEnabled ? "Enabled" : "Disabled"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => openEditDialog(rule)}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(rule)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Alert Rule" : "Add Alert Rule"}</DialogTitle>
+            <DialogDescription>
+              Leave client and device empty to apply the rule to every device writing to the selected table.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="ruleName">Name *</Label>
+              <Input
+                id="ruleName"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="ruleDescription">Description</Label>
+              <Input
+                id="ruleDescription"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="ruleClientId">Client ID</Label>
+              <Input
+                id="ruleClientId"
+                value={formData.clientId}
+                disabled={!!formData.deviceId}
+                onChange={(e) => setFormData(prev => ({ ...prev, clientId: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="ruleDeviceId">Device ID</Label>
+              <Input
+                id="ruleDeviceId"
+                value={formData.deviceId}
+                onChange={(e) => setFormData(prev => ({ ...prev, deviceId: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label>Telemetry Table *</Label>
+              <Select
+                value={formData.telemetryTable}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, telemetryTable: value, fieldName: '' }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {meta?.tables.map(table => (
+                    <SelectItem key={table.table} value={table.table}>{table.table}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Field *</Label>
+              <Select
+                value={formData.fieldName}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, fieldName: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select field" />
+                </SelectTrigger>
+                <SelectContent>
+                  {columns.map(column => (
+                    <SelectItem key={column} value={column}>{column}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Condition *</Label>
+              <Select
+                value={formData.conditionType}
+                onValueChange={(value: 'threshold' | 'fault_code') => setFormData(prev => ({ ...prev, conditionType: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="threshold">Threshold</SelectItem>
+                  <SelectItem value="fault_code">Fault code present</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Severity *</Label>
+              <Select
+                value={formData.severity}
+                onValueChange={(value: 'info' | 'warning' | 'critical') => setFormData(prev => ({ ...prev, severity: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="info">Info</SelectItem>
+                  <SelectItem value="warning">Warning</SelectItem>
+                  <SelectItem value="critical">Critical</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formData.conditionType === 'threshold' ? (
+              <>
+                <div>
+                  <Label>Operator *</Label>
+                  <Select
+                    value={formData.operator}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, operator: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {meta?.operators.map(operator => (
+                        <SelectItem key={operator.value} value={operator.value}>{operator.symbol}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Threshold Source</Label>
+                  <Select
+                    value={formData.thresholdSource}
+                    onValueChange={(value: 'value' | 'config') => setFormData(prev => ({ ...prev, thresholdSource: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="value">Fixed value</SelectItem>
+                      <SelectItem value="config">Device config setting</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2">
+                  {formData.thresholdSource === 'value' ? (
+                    <>
+                      <Label htmlFor="ruleThreshold">Threshold *</Label>
+                      <Input
+                        id="ruleThreshold"
+                        type="number"
+                        value={formData.thresholdValue}
+                        onChange={(e) => setFormData(prev => ({ ...prev, thresholdValue: e.target.value }))}
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <Label htmlFor="ruleConfigKey">Config Key *</Label>
+                      <Input
+                        id="ruleConfigKey"
+                        className="font-mono"
+                        value={formData.thresholdConfigKey}
+                        onChange={(e) => setFormData(prev => ({ ...prev, thresholdConfigKey: e.target.value }))}
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Read from each device's active configuration; devices without the setting are skipped.
+                      </p>
+                    </>
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className="col-span-2">
+                <Label htmlFor="ruleFaultCodes">Fault Codes *</Label>
+                <Input
+                  id="ruleFaultCodes"
+                  placeholder="e.g. 3, 6"
+                  value={formData.faultCodes}
+                  onChange={(e) => setFormData(prev => ({ ...prev, faultCodes: e.target.value }))}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Triggers when the reading reports any of these codes (P1 fault bit positions or the P2 fault code).
+                </p>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="ruleConsecutive">Consecutive Readings to Raise</Label>
+              <Input
+                id="ruleConsecutive"
+                type="number"
+                min="1"
+                value={formData.consecutiveReadings}
+                onChange={(e) => setFormData(prev => ({ ...prev, consecutiveReadings: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="ruleClear">Clear Readings to Resolve</Label>
+              <Input
+                id="ruleClear"
+                type="number"
+                min="1"
+                value={formData.clearReadings}
+                onChange={(e) => setFormData(prev => ({ ...prev, clearReadings: e.target.value }))}
+              />
+            </div>
+            <div className="col-span-2 flex items-center space-x-2">
+              <Switch
+                id="ruleEnabled"
+                checked={formData.isEnabled}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isEnabled: checked }))}
+              />
+              <Label htmlFor="ruleEnabled">Enabled</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={submitting}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingRule ? "Save Changes" : "Create Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
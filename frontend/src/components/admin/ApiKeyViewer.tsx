@@ -1,13 +1,14 @@
 /**
  * API Key Viewer Component for Phase 5 Device Authentication
  * Allows admin users to view and manage device API keys with security audit logging
- * 
+ *
  * Features:
- * - Masked/revealed API key display
- * - One-click copy to clipboard
- * - API key regeneration
+ * - Key prefix, usage count and last-used display (keys are stored hashed)
+ * - API key regeneration with a grace period for the previous key
+ * - One-time reveal and copy of a newly generated key
+ * - Key expiry dates and revocation
  * - Auto-hide after 60 seconds for security
- * - Comprehensive audit logging
+ * - Audit trail of every reveal, copy and rotation
  */
 
 import React, { useState, useEffect } from 'react';
@@ -16,130 +17,129 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui
 import { Badge } from '../ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
 import { Textarea } from '../ui/textarea';
+import { Input } from '../ui/input';
 import { Label } from '../ui/label';
 import { Alert, AlertDescription } from '../ui/alert';
-import { Copy, Eye, EyeOff, RefreshCw, Shield, Clock, Activity } from 'lucide-react';
+import { Copy, Eye, RefreshCw, Shield, Clock, Activity, History, Ban, CalendarClock } from 'lucide-react';
 import { useToast } from '../ui/use-toast';
-
-interface ApiKeyDetails {
-  device_id: string;
-  api_key: string;
-  created_at: string;
-  last_used: string | null;
-  usage_count: number;
-  is_active: boolean;
-  expires_at: string | null;
-  viewed_by: string;
-  viewed_at: string;
-}
+import {
+  adminApi,
+  DeviceApiKey,
+  DeviceApiKeyAuditEntry,
+  DeviceApiKeyDetails,
+  DeviceApiKeyState
+} from '@/services/api';
 
 interface ApiKeyViewerProps {
   deviceId: string;
   onApiKeyRegenerated?: (newKey: string) => void;
 }
 
-export const ApiKeyViewer: React.FC<ApiKeyViewerProps> = ({ 
-  deviceId, 
-  onApiKeyRegenerated 
+const DEFAULT_GRACE_HOURS = 24;
+
+const stateVariant = (state: DeviceApiKeyState) =>
+  state === 'active' ? 'default' : state === 'grace' ? 'secondary' : 'destructive';
+
+const auditActionLabels: Record<DeviceApiKeyAuditEntry['action'], string> = {
+  view: 'Viewed',
+  copy: 'Copied',
+  rotate: 'Regenerated',
+  import: 'Set manually',
+  revoke: 'Revoked',
+  set_expiry: 'Expiry changed'
+};
+
+// datetime-local inputs work in local time without a timezone suffix
+const toLocalInputValue = (dateString: string | null): string => {
+  if (!dateString) return '';
+  const date = new Date(dateString);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const ApiKeyViewer: React.FC<ApiKeyViewerProps> = ({
+  deviceId,
+  onApiKeyRegenerated
 }) => {
-  const [apiKeyDetails, setApiKeyDetails] = useState<ApiKeyDetails | null>(null);
-  const [isRevealed, setIsRevealed] = useState(false);
+  const [apiKeyDetails, setApiKeyDetails] = useState<DeviceApiKeyDetails | null>(null);
+  const [newApiKey, setNewApiKey] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isRegenerating, setIsRegenerating] = useState(false);
   const [regenerateReason, setRegenerateReason] = useState('');
+  const [graceHours, setGraceHours] = useState(DEFAULT_GRACE_HOURS);
+  const [newKeyExpiry, setNewKeyExpiry] = useState('');
+  const [expiryInput, setExpiryInput] = useState('');
   const [hideTimer, setHideTimer] = useState<NodeJS.Timeout | null>(null);
   const [showRegenerateDialog, setShowRegenerateDialog] = useState(false);
+  const [auditEntries, setAuditEntries] = useState<DeviceApiKeyAuditEntry[] | null>(null);
   const { toast } = useToast();
 
-  // Auto-hide API key after 60 seconds for security
+  // Clear the auto-hide timer when the component unmounts or the timer is replaced
   useEffect(() => {
-    if (apiKeyDetails && hideTimer) {
+    if (hideTimer) {
       return () => clearTimeout(hideTimer);
     }
-  }, [apiKeyDetails, hideTimer]);
+  }, [hideTimer]);
+
+  const showError = (error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : fallback,
+      variant: 'destructive'
+    });
+  };
 
   /**
-   * Fetch API key details from admin API
+   * Hide key details (and any newly generated key) after 60 seconds
    */
-  const fetchApiKey = async () => {
-    setIsLoading(true);
-    try {
-      const response = await fetch(`/api/admin/device/${deviceId}/api-key`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('adminToken')}`,
-          'X-Admin-User': localStorage.getItem('adminUser') || 'unknown',
-          'Content-Type': 'application/json'
-        }
+  const startHideTimer = () => {
+    if (hideTimer) clearTimeout(hideTimer);
+    const timer = setTimeout(() => {
+      setApiKeyDetails(null);
+      setNewApiKey(null);
+      setAuditEntries(null);
+      toast({
+        title: 'Security Auto-Hide',
+        description: 'API key details hidden automatically for security.',
+        variant: 'default'
       });
+    }, 60000);
+    setHideTimer(timer);
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to fetch API key');
-      }
-
-      const data = await response.json();
-      setApiKeyDetails(data);
-
-      // Set auto-hide timer for 60 seconds
-      const timer = setTimeout(() => {
-        setIsRevealed(false);
-        setApiKeyDetails(null);
+  /**
+   * Fetch API key details from admin API (logged as a view)
+   */
+  const fetchApiKey = async (restartTimer = true) => {
+    setIsLoading(true);
+    try {
+      const response = await adminApi.getDeviceApiKeys(deviceId);
+      setApiKeyDetails(response.data);
+      setExpiryInput(toLocalInputValue(response.data.current?.expiresAt || null));
+      if (restartTimer) {
+        startHideTimer();
         toast({
-          title: 'Security Auto-Hide',
-          description: 'API key hidden automatically for security.',
+          title: 'API Key Loaded',
+          description: 'Key details will auto-hide in 60 seconds for security.',
           variant: 'default'
         });
-      }, 60000);
-      setHideTimer(timer);
-
-      toast({
-        title: 'API Key Loaded',
-        description: 'API key will auto-hide in 60 seconds for security.',
-        variant: 'default'
-      });
-
+      }
     } catch (error) {
-      console.error('Failed to fetch API key:', error);
-      toast({
-        title: 'Error',
-        description: error instanceof Error ? error.message : 'Failed to fetch API key',
-        variant: 'destructive'
-      });
+      showError(error, 'Failed to fetch API key');
     } finally {
       setIsLoading(false);
     }
   };
 
   /**
-   * Mask API key for secure display
-   */
-  const maskApiKey = (key: string): string => {
-    if (!key) return '';
-    const prefix = key.substring(0, 7);
-    const suffix = key.substring(key.length - 4);
-    return `${prefix}****...****${suffix}`;
-  };
-
-  /**
-   * Copy API key to clipboard with audit logging
+   * Copy a newly generated API key to clipboard with audit logging
    */
   const copyToClipboard = async () => {
-    if (!apiKeyDetails?.api_key) return;
+    if (!newApiKey) return;
 
     try {
-      await navigator.clipboard.writeText(apiKeyDetails.api_key);
-      
-      // Log copy action to audit trail
-      await fetch(`/api/admin/device/${deviceId}/api-key/log`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('adminToken')}`,
-          'X-Admin-User': localStorage.getItem('adminUser') || 'unknown',
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ action: 'copy' })
-      });
+      await navigator.clipboard.writeText(newApiKey);
+      await adminApi.logDeviceApiKeyAction(deviceId, 'copy', apiKeyDetails?.current?.keyId);
 
       toast({
         title: 'Copied to Clipboard',
@@ -171,44 +171,26 @@ export const ApiKeyViewer: React.FC<ApiKeyViewerProps> = ({
 
     setIsRegenerating(true);
     try {
-      const response = await fetch(`/api/admin/device/${deviceId}/api-key`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('adminToken')}`,
-          'X-Admin-User': localStorage.getItem('adminUser') || 'unknown',
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ reason: regenerateReason.trim() })
+      const response = await adminApi.regenerateDeviceApiKey(deviceId, {
+        reason: regenerateReason.trim(),
+        graceHours,
+        expiresAt: newKeyExpiry ? new Date(newKeyExpiry).toISOString() : null
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to regenerate API key');
-      }
-
-      const data = await response.json();
-      
-      // Update state with new key
-      if (apiKeyDetails) {
-        setApiKeyDetails({
-          ...apiKeyDetails,
-          api_key: data.new_api_key,
-          created_at: data.regenerated_at,
-          usage_count: 0,
-          last_used: null
-        });
-      }
-
-      // Callback to parent component
-      onApiKeyRegenerated?.(data.new_api_key);
+      setNewApiKey(response.data.apiKey);
+      onApiKeyRegenerated?.(response.data.apiKey);
 
       setShowRegenerateDialog(false);
       setRegenerateReason('');
-      setIsRevealed(true); // Show new key
+      setNewKeyExpiry('');
+      await fetchApiKey(false);
+      startHideTimer();
 
       toast({
         title: 'API Key Regenerated',
-        description: 'New API key generated successfully. The old key has been deactivated.',
+        description: response.data.previousKeyGraceUntil
+          ? `The old key keeps working until ${formatDate(response.data.previousKeyGraceUntil)}.`
+          : 'The old key has been deactivated.',
         variant: 'default'
       });
 
@@ -224,6 +206,56 @@ export const ApiKeyViewer: React.FC<ApiKeyViewerProps> = ({
     }
   };
 
+  /**
+   * Set or clear the current key's expiry date
+   */
+  const saveExpiry = async (value: string | null) => {
+    const current = apiKeyDetails?.current;
+    if (!current) return;
+
+    try {
+      await adminApi.setDeviceApiKeyExpiry(deviceId, current.keyId, value ? new Date(value).toISOString() : null);
+      toast({
+        title: 'Expiry Updated',
+        description: value ? `Key expires ${formatDate(new Date(value).toISOString())}.` : 'Key no longer expires.',
+        variant: 'default'
+      });
+      await fetchApiKey(false);
+    } catch (error) {
+      showError(error, 'Failed to update key expiry');
+    }
+  };
+
+  /**
+   * Revoke a key immediately, e.g. to end a grace period early
+   */
+  const revokeKey = async (key: DeviceApiKey) => {
+    if (!confirm(`Revoke key ${key.keyPrefix}…? Devices still using it will be rejected immediately.`)) {
+      return;
+    }
+
+    try {
+      await adminApi.revokeDeviceApiKey(deviceId, key.keyId, 'Revoked from API key management');
+      toast({
+        title: 'Key Revoked',
+        description: `Key ${key.keyPrefix}… can no longer be used.`,
+        variant: 'default'
+      });
+      await fetchApiKey(false);
+    } catch (error) {
+      showError(error, 'Failed to revoke API key');
+    }
+  };
+
+  const loadAuditTrail = async () => {
+    try {
+      const response = await adminApi.getDeviceApiKeyAudit(deviceId, 20);
+      setAuditEntries(response.data);
+    } catch (error) {
+      showError(error, 'Failed to load API key audit trail');
+    }
+  };
+
   /**
    * Format date for display
    */
@@ -233,17 +265,21 @@ export const ApiKeyViewer: React.FC<ApiKeyViewerProps> = ({
   };
 
   /**
-   * Hide API key manually
+   * Hide API key details manually
    */
   const hideApiKey = () => {
-    setIsRevealed(false);
     setApiKeyDetails(null);
+    setNewApiKey(null);
+    setAuditEntries(null);
     if (hideTimer) {
       clearTimeout(hideTimer);
       setHideTimer(null);
     }
   };
 
+  const current = apiKeyDetails?.current || null;
+  const otherUsableKeys = apiKeyDetails?.keys.filter(key => key.state === 'grace') || [];
+
   return (
     <Card className="w-full">
       <CardHeader>
@@ -261,12 +297,12 @@ export const ApiKeyViewer: React.FC<ApiKeyViewerProps> = ({
             <Alert>
               <Shield className="h-4 w-4" />
               <AlertDescription>
-                API keys are only shown for 60 seconds before automatically hiding for security.
-                All viewing and copy actions are logged for audit purposes.
+                API keys are stored hashed, so a key can only be copied right after it is generated.
+                Details hide automatically after 60 seconds and every view, copy and rotation is logged.
               </AlertDescription>
             </Alert>
-            <Button 
-              onClick={fetchApiKey} 
+            <Button
+              onClick={() => fetchApiKey()}
               disabled={isLoading}
               className="w-full"
             >
@@ -285,57 +321,131 @@ export const ApiKeyViewer: React.FC<ApiKeyViewerProps> = ({
           </div>
         ) : (
           <div className="space-y-4">
+            {/* Newly generated key - shown once */}
+            {newApiKey && (
+              <Alert>
+                <Shield className="h-4 w-4" />
+                <AlertDescription className="space-y-2">
+                  <p>Copy the new key now and update the device. It will not be shown again.</p>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 p-2 bg-muted rounded text-sm font-mono border break-all">
+                      {newApiKey}
+                    </code>
+                    <Button variant="outline" size="sm" onClick={copyToClipboard}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* API Key Display */}
             <div className="space-y-2">
               <Label htmlFor="api-key">API Key</Label>
-              <div className="flex items-center gap-2">
-                <code className="flex-1 p-2 bg-muted rounded text-sm font-mono border">
-                  {isRevealed ? apiKeyDetails.api_key : maskApiKey(apiKeyDetails.api_key)}
-                </code>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setIsRevealed(!isRevealed)}
-                >
-                  {isRevealed ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={copyToClipboard}
-                  disabled={!isRevealed}
-                >
-                  <Copy className="h-4 w-4" />
-                </Button>
-              </div>
+              <code id="api-key" className="block p-2 bg-muted rounded text-sm font-mono border">
+                {current ? `${current.keyPrefix}****************` : 'No active key'}
+              </code>
             </div>
 
             {/* Key Details */}
-            <div className="grid grid-cols-2 gap-4 text-sm">
-              <div>
-                <Label className="text-muted-foreground">Created</Label>
-                <p className="flex items-center gap-1">
-                  <Clock className="h-3 w-3" />
-                  {formatDate(apiKeyDetails.created_at)}
-                </p>
-              </div>
-              <div>
-                <Label className="text-muted-foreground">Last Used</Label>
-                <p className="flex items-center gap-1">
-                  <Activity className="h-3 w-3" />
-                  {formatDate(apiKeyDetails.last_used)}
-                </p>
-              </div>
-              <div>
-                <Label className="text-muted-foreground">Usage Count</Label>
-                <p>{apiKeyDetails.usage_count.toLocaleString()}</p>
+            {current && (
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <Label className="text-muted-foreground">Created</Label>
+                  <p className="flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    {formatDate(current.createdAt)}
+                    {current.createdByName ? ` by ${current.createdByName}` : ''}
+                  </p>
+                </div>
+                <div>
+                  <Label className="text-muted-foreground">Last Used</Label>
+                  <p className="flex items-center gap-1">
+                    <Activity className="h-3 w-3" />
+                    {formatDate(current.lastUsedAt)}
+                  </p>
+                </div>
+                <div>
+                  <Label className="text-muted-foreground">Usage Count</Label>
+                  <p>{current.usageCount.toLocaleString()}</p>
+                </div>
+                <div>
+                  <Label className="text-muted-foreground">Status</Label>
+                  <div>
+                    <Badge variant={stateVariant(current.state)} className="capitalize">
+                      {current.state}
+                    </Badge>
+                  </div>
+                </div>
+                <div className="col-span-2">
+                  <Label htmlFor="key-expiry" className="text-muted-foreground">Expires</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id="key-expiry"
+                      type="datetime-local"
+                      value={expiryInput}
+                      onChange={(e) => setExpiryInput(e.target.value)}
+                    />
+                    <Button variant="outline" size="sm" onClick={() => saveExpiry(expiryInput || null)}>
+                      <CalendarClock className="h-4 w-4 mr-1" />
+                      Save
+                    </Button>
+                    {current.expiresAt && (
+                      <Button variant="outline" size="sm" onClick={() => saveExpiry(null)}>
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+                </div>
               </div>
-              <div>
-                <Label className="text-muted-foreground">Status</Label>
-                <Badge variant={apiKeyDetails.is_active ? 'default' : 'destructive'}>
-                  {apiKeyDetails.is_active ? 'Active' : 'Inactive'}
-                </Badge>
+            )}
+
+            {/* Previous keys still inside their grace period */}
+            {otherUsableKeys.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-muted-foreground">Previous keys (grace period)</Label>
+                {otherUsableKeys.map(key => (
+                  <div key={key.keyId} className="flex items-center justify-between text-sm border rounded p-2">
+                    <div>
+                      <code className="font-mono">{key.keyPrefix}…</code>
+                      <span className="text-muted-foreground ml-2">
+                        valid until {formatDate(key.graceUntil)} · {key.usageCount.toLocaleString()} uses · last used {formatDate(key.lastUsedAt)}
+                      </span>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => revokeKey(key)}>
+                      <Ban className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  </div>
+                ))}
               </div>
+            )}
+
+            {/* Audit trail */}
+            <div className="space-y-2">
+              {auditEntries === null ? (
+                <Button variant="ghost" size="sm" onClick={loadAuditTrail}>
+                  <History className="h-4 w-4 mr-2" />
+                  Show audit trail
+                </Button>
+              ) : auditEntries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No key activity recorded yet.</p>
+              ) : (
+                <div className="space-y-1 text-xs">
+                  <Label className="text-muted-foreground">Recent key activity</Label>
+                  {auditEntries.map(entry => (
+                    <div key={entry.auditId} className="flex justify-between border-b py-1">
+                      <span>
+                        <span className="font-medium">{auditActionLabels[entry.action] || entry.action}</span>
+                        {entry.keyPrefix ? ` ${entry.keyPrefix}…` : ''}
+                        {entry.userName ? ` by ${entry.userName}` : ''}
+                        {entry.reason ? ` - ${entry.reason}` : ''}
+                      </span>
+                      <span className="text-muted-foreground whitespace-nowrap ml-2">{formatDate(entry.timestamp)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Actions */}
@@ -343,7 +453,7 @@ export const ApiKeyViewer: React.FC<ApiKeyViewerProps> = ({
               <Button variant="outline" onClick={hideApiKey}>
                 Hide Key
               </Button>
-              
+
               <Dialog open={showRegenerateDialog} onOpenChange={setShowRegenerateDialog}>
                 <DialogTrigger asChild>
                   <Button variant="destructive">
@@ -355,22 +465,48 @@ export const ApiKeyViewer: React.FC<ApiKeyViewerProps> = ({
                   <DialogHeader>
                     <DialogTitle>Regenerate API Key</DialogTitle>
                     <DialogDescription>
-                      This will deactivate the current API key and generate a new one.
-                      The device will need to be updated with the new key.
+                      This generates a new API key. The current key keeps working for the grace period
+                      so the device can be updated with the new key.
                     </DialogDescription>
                   </DialogHeader>
-                  <div className="space-y-2">
-                    <Label htmlFor="reason">Reason for regeneration *</Label>
-                    <Textarea
-                      id="reason"
-                      placeholder="Enter reason for key regeneration (required for audit trail)"
-                      value={regenerateReason}
-                      onChange={(e) => setRegenerateReason(e.target.value)}
-                      maxLength={500}
-                    />
-                    <p className="text-xs text-muted-foreground">
-                      {regenerateReason.length}/500 characters
-                    </p>
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="reason">Reason for regeneration *</Label>
+                      <Textarea
+                        id="reason"
+                        placeholder="Enter reason for key regeneration (required for audit trail)"
+                        value={regenerateReason}
+                        onChange={(e) => setRegenerateReason(e.target.value)}
+                        maxLength={500}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {regenerateReason.length}/500 characters
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="grace-hours">Grace period (hours)</Label>
+                        <Input
+                          id="grace-hours"
+                          type="number"
+                          min={0}
+                          max={720}
+                          value={graceHours}
+                          onChange={(e) => setGraceHours(Math.max(0, parseInt(e.target.value) || 0))}
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">0 revokes the current key immediately.</p>
+                      </div>
+                      <div>
+                        <Label htmlFor="new-key-expiry">New key expires</Label>
+                        <Input
+                          id="new-key-expiry"
+                          type="datetime-local"
+                          value={newKeyExpiry}
+                          onChange={(e) => setNewKeyExpiry(e.target.value)}
+                        />
+                        <p className="text-xs text-muted-foreground mt-1">Optional.</p>
+                      </div>
+                    </div>
                   </div>
                   <DialogFooter>
                     <Button
@@ -402,4 +538,4 @@ export const ApiKeyViewer: React.FC<ApiKeyViewerProps> = ({
       </CardContent>
     </Card>
   );
-};
\ No newline at end of file
+};
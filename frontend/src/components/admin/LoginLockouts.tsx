@@ -0,0 +1,155 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, Lock, RefreshCw, Unlock } from "lucide-react";
+import { format } from "date-fns";
+import { adminApi, LoginLockout } from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+
+// Accounts and addresses currently locked out of login, with a way to lift the lock early
+export const LoginLockouts = () => {
+  const [lockouts, setLockouts] = useState<LoginLockout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unlockingKey, setUnlockingKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchLockouts = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await adminApi.getLoginLockouts();
+      if (response.success) {
+        setLockouts(response.data);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch login lockouts",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchLockouts();
+  }, [fetchLockouts]);
+
+  const handleUnlock = async (lockout: LoginLockout) => {
+    try {
+      setUnlockingKey(lockout.throttleKey);
+      const response = await adminApi.unlockLogin(lockout.throttleKey);
+      if (response.success) {
+        setLockouts(prev => prev.filter(l => l.throttleKey !== lockout.throttleKey));
+        toast({
+          title: "Success",
+          description: `Lockout lifted for ${lockout.subject}`
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to lift lockout",
+        variant: "destructive"
+      });
+    } finally {
+      setUnlockingKey(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5" />
+              Login Lockouts
+            </CardTitle>
+            <CardDescription>
+              Accounts and IP addresses locked after too many failed login attempts
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchLockouts} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Account / Address</TableHead>
+                <TableHead>Last Failure</TableHead>
+                <TableHead>Locked Until</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : lockouts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    No active lockouts
+                  </TableCell>
+                </TableRow>
+              ) : (
+                lockouts.map((lockout) => (
+                  <TableRow key={lockout.throttleKey}>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {lockout.scope === 'account' ? 'Account' : 'IP address'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className={lockout.scope === 'ip' ? 'font-mono text-sm' : 'text-sm'}>
+                      {lockout.subject}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {format(new Date(lockout.lastFailedAt), 'MMM dd, yyyy HH:mm:ss')}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {format(new Date(lockout.lockedUntil), 'MMM dd, yyyy HH:mm:ss')}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleUnlock(lockout)}
+                        disabled={unlockingKey === lockout.throttleKey}
+                      >
+                        <Unlock className="h-4 w-4 mr-1" />
+                        Unlock
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
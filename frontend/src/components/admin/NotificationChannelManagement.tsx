@@ -0,0 +1,456 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Send, Plus, Edit, Trash2, Loader2, Play, FlaskConical } from "lucide-react";
+import {
+  notificationApi,
+  NotificationChannel,
+  NotificationChannelInput,
+  NotificationChannelType
+} from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface ChannelFormData {
+  name: string;
+  type: NotificationChannelType;
+  recipients: string;
+  url: string;
+  secret: string;
+  headers: string;
+  slackChannel: string;
+  isEnabled: boolean;
+}
+
+const emptyForm: ChannelFormData = {
+  name: '',
+  type: 'email',
+  recipients: '',
+  url: '',
+  secret: '',
+  headers: '',
+  slackChannel: '',
+  isEnabled: true
+};
+
+const channelTypeLabels: Record<NotificationChannelType, string> = {
+  email: 'Email (SMTP)',
+  webhook: 'Webhook',
+  slack: 'Slack-compatible'
+};
+
+const describeTarget = (channel: NotificationChannel) => {
+  const config = channel.config || {};
+  if (channel.type === 'email') {
+    const extra = (config.to as string[] | undefined) || [];
+    return extra.length > 0 ? `Subscriber + ${extra.join(', ')}` : 'Subscriber\'s email address';
+  }
+  return (config.url as string) || '-';
+};
+
+export const NotificationChannelManagement = () => {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [dispatching, setDispatching] = useState(false);
+  const [testingId, setTestingId] = useState<number | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingChannel, setEditingChannel] = useState<NotificationChannel | null>(null);
+  const [formData, setFormData] = useState<ChannelFormData>(emptyForm);
+  const { toast } = useToast();
+
+  const fetchChannels = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await notificationApi.getChannels();
+      if (response.success) {
+        setChannels(response.data);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch notification channels",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchChannels();
+  }, [fetchChannels]);
+
+  const openCreateDialog = () => {
+    setEditingChannel(null);
+    setFormData(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (channel: NotificationChannel) => {
+    const config = channel.config || {};
+    setEditingChannel(channel);
+    setFormData({
+      name: channel.name,
+      type: channel.type,
+      recipients: ((config.to as string[] | undefined) || []).join(', '),
+      url: (config.url as string) || '',
+      secret: (config.secret as string) || '',
+      headers: config.headers ? JSON.stringify(config.headers, null, 2) : '',
+      slackChannel: (config.channel as string) || '',
+      isEnabled: channel.isEnabled
+    });
+    setDialogOpen(true);
+  };
+
+  const buildPayload = (): NotificationChannelInput => {
+    const config: Record<string, unknown> = {};
+
+    if (formData.type === 'email') {
+      const recipients = formData.recipients.split(',').map(address => address.trim()).filter(Boolean);
+      if (recipients.length > 0) config.to = recipients;
+    } else {
+      config.url = formData.url.trim();
+      if (formData.headers.trim()) config.headers = JSON.parse(formData.headers);
+      if (formData.type === 'webhook' && formData.secret) config.secret = formData.secret;
+      if (formData.type === 'slack' && formData.slackChannel) config.channel = formData.slackChannel.trim();
+    }
+
+    return {
+      name: formData.name,
+      type: formData.type,
+      config,
+      isEnabled: formData.isEnabled
+    };
+  };
+
+  const handleSave = async () => {
+    if (!formData.name || (formData.type !== 'email' && !formData.url)) {
+      toast({
+        title: "Validation Error",
+        description: formData.type === 'email' ? "Name is required" : "Name and URL are required",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    let payload: NotificationChannelInput;
+    try {
+      payload = buildPayload();
+    } catch {
+      toast({
+        title: "Validation Error",
+        description: "Headers must be a JSON object",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = editingChannel
+        ? await notificationApi.updateChannel(editingChannel.id, payload)
+        : await notificationApi.createChannel(payload);
+
+      if (response.success) {
+        toast({
+          title: "Success",
+          description: editingChannel ? "Notification channel updated" : "Notification channel created"
+        });
+        setDialogOpen(false);
+        await fetchChannels();
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save notification channel",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (channel: NotificationChannel) => {
+    if (!confirm(`Delete notification channel "${channel.name}"? Subscriptions to it are removed as well.`)) return;
+
+    try {
+      const response = await notificationApi.deleteChannel(channel.id);
+      if (response.success) {
+        setChannels(prev => prev.filter(item => item.id !== channel.id));
+        toast({
+          title: "Success",
+          description: "Notification channel deleted"
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete notification channel",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleTest = async (channel: NotificationChannel) => {
+    try {
+      setTestingId(channel.id);
+      const response = await notificationApi.testChannel(channel.id);
+      if (response.success) {
+        toast({
+          title: response.data.success ? "Test sent" : "Test failed",
+          description: response.data.success
+            ? `A test message was delivered through "${channel.name}"`
+            : response.data.error || "Delivery failed",
+          variant: response.data.success ? "default" : "destructive"
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send test notification",
+        variant: "destructive"
+      });
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleDispatch = async () => {
+    try {
+      setDispatching(true);
+      const response = await notificationApi.dispatch();
+      if (response.success) {
+        toast({
+          title: "Notifications dispatched",
+          description: `${response.data.queued} queued, ${response.data.sent} sent, ${response.data.failed} failed, ${response.data.digests} digests`
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to dispatch notifications",
+        variant: "destructive"
+      });
+    } finally {
+      setDispatching(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Send className="h-5 w-5" />
+            <span>Notification Channels</span>
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleDispatch} disabled={dispatching}>
+              {dispatching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+              Dispatch Now
+            </Button>
+            <Button onClick={openCreateDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Channel
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Channels are where alert notifications are sent. Users subscribe to them from the Notifications page; email channels send to the subscriber's own address.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : channels.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No notification channels defined yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Target</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {channels.map(channel => (
+                <TableRow key={channel.id}>
+                  <TableCell className="font-medium">{channel.name}</TableCell>
+                  <TableCell>{channelTypeLabels[channel.type]}</TableCell>
+                  <TableCell className="font-mono text-xs max-w-[300px] truncate">{describeTarget(channel)}</TableCell>
+                  <TableCell>
+                    <Badge variant={channel.isEnabled ? "default" : "secondary"}>
+                      {channel.isEnabled ? "Enabled" : "Disabled"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      title="Send test message"
+                      disabled={testingId === channel.id}
+                      onClick={() => handleTest(channel)}
+                    >
+                      {testingId === channel.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <FlaskConical className="h-3 w-3" />}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => openEditDialog(channel)}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(channel)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{editingChannel ? "Edit Notification Channel" : "Add Notification Channel"}</DialogTitle>
+            <DialogDescription>
+              Email uses the server's SMTP settings. Webhook and Slack channels POST JSON to the given URL.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="channelName">Name *</Label>
+              <Input
+                id="channelName"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label>Type *</Label>
+              <Select
+                value={formData.type}
+                onValueChange={(value: NotificationChannelType) => setFormData(prev => ({ ...prev, type: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(channelTypeLabels) as NotificationChannelType[]).map(type => (
+                    <SelectItem key={type} value={type}>{channelTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formData.type === 'email' ? (
+              <div>
+                <Label htmlFor="channelRecipients">Additional Recipients</Label>
+                <Input
+                  id="channelRecipients"
+                  placeholder="ops@example.com, oncall@example.com"
+                  value={formData.recipients}
+                  onChange={(e) => setFormData(prev => ({ ...prev, recipients: e.target.value }))}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Copied on every message in addition to the subscriber.
+                </p>
+              </div>
+            ) : (
+              <>
+                <div>
+                  <Label htmlFor="channelUrl">URL *</Label>
+                  <Input
+                    id="channelUrl"
+                    className="font-mono"
+                    placeholder="https://"
+                    value={formData.url}
+                    onChange={(e) => setFormData(prev => ({ ...prev, url: e.target.value }))}
+                  />
+                </div>
+                {formData.type === 'webhook' ? (
+                  <div>
+                    <Label htmlFor="channelSecret">Signing Secret</Label>
+                    <Input
+                      id="channelSecret"
+                      type="password"
+                      value={formData.secret}
+                      onChange={(e) => setFormData(prev => ({ ...prev, secret: e.target.value }))}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      When set, requests carry an X-Signature-SHA256 HMAC of the body.
+                    </p>
+                  </div>
+                ) : (
+                  <div>
+                    <Label htmlFor="channelSlackChannel">Channel Override</Label>
+                    <Input
+                      id="channelSlackChannel"
+                      placeholder="#alerts"
+                      value={formData.slackChannel}
+                      onChange={(e) => setFormData(prev => ({ ...prev, slackChannel: e.target.value }))}
+                    />
+                  </div>
+                )}
+                <div>
+                  <Label htmlFor="channelHeaders">Extra Headers (JSON)</Label>
+                  <Textarea
+                    id="channelHeaders"
+                    className="font-mono text-xs"
+                    rows={3}
+                    placeholder='{"Authorization": "Bearer ..."}'
+                    value={formData.headers}
+                    onChange={(e) => setFormData(prev => ({ ...prev, headers: e.target.value }))}
+                  />
+                </div>
+              </>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="channelEnabled"
+                checked={formData.isEnabled}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isEnabled: checked }))}
+              />
+              <Label htmlFor="channelEnabled">Enabled</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={submitting}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingChannel ? "Save Changes" : "Create Channel"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
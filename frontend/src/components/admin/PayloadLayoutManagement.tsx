@@ -0,0 +1,396 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Binary, Plus, Edit, Power, Loader2, CheckCircle, XCircle } from "lucide-react";
+import { payloadLayoutApi } from "@/services/api";
+import { listDecoders } from "@/services/hexConversion";
+import {
+  decodeWithLayout,
+  loadLayoutDecoders,
+  validatePayloadLayout,
+  PayloadLayoutRecord
+} from "@/services/payloadLayouts";
+import { useToast } from "@/hooks/use-toast";
+
+const TARGET_TABLES = ["IoT_Data_New", "IoT_Data_Sick_Test"];
+
+const EXAMPLE_LAYOUT = {
+  input: { encoding: "hex", length: 16 },
+  fields: [
+    { key: "RuntimeMin", label: "Runtime", unit: "min", offset: 12, length: 4, type: "uint" },
+    { key: "FaultCodes", label: "Fault Codes", offset: 8, length: 4, type: "bitmask", descriptionsKey: "FaultDescriptions", enum: { "0": "FAULT_HT_VTG_TOO_LOW" } },
+    { key: "GensetSignal", label: "Genset Signal", offset: 2, length: 2, bits: { start: 0, length: 1 }, type: "boolean" },
+    { key: "HVOutputVoltage_kV", label: "HV Output Voltage", unit: "kV", offset: 2, length: 2, bits: { start: 2, length: 6 }, type: "uint" }
+  ]
+};
+
+interface LayoutFormData {
+  conversionLogicId: string;
+  name: string;
+  logicType: string;
+  description: string;
+  targetTable: string;
+  layoutJson: string;
+  testPayload: string;
+}
+
+const emptyForm: LayoutFormData = {
+  conversionLogicId: '',
+  name: '',
+  logicType: '',
+  description: '',
+  targetTable: 'none',
+  layoutJson: JSON.stringify(EXAMPLE_LAYOUT, null, 2),
+  testPayload: ''
+};
+
+export const PayloadLayoutManagement = () => {
+  const [layouts, setLayouts] = useState<PayloadLayoutRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingLayout, setEditingLayout] = useState<PayloadLayoutRecord | null>(null);
+  const [formData, setFormData] = useState<LayoutFormData>(emptyForm);
+  const { toast } = useToast();
+
+  const fetchLayouts = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await payloadLayoutApi.getAll(true);
+      if (response.success) {
+        setLayouts(response.data);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to fetch payload layouts",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchLayouts();
+  }, [fetchLayouts]);
+
+  // Parse and validate the JSON as the admin types, using the same validator as the backend
+  const parsed = useMemo(() => {
+    try {
+      const layout = JSON.parse(formData.layoutJson);
+      return { layout, errors: validatePayloadLayout(layout) };
+    } catch (error) {
+      return { layout: null, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+  }, [formData.layoutJson]);
+
+  const testResult = useMemo(() => {
+    if (!formData.testPayload.trim() || !parsed.layout || parsed.errors.length > 0) return null;
+    return decodeWithLayout(parsed.layout, formData.testPayload, formData.logicType || 'Layout');
+  }, [formData.testPayload, formData.logicType, parsed]);
+
+  const builtInLogicIds = listDecoders().filter(decoder => decoder.builtIn).map(decoder => decoder.logicId);
+
+  const openCreateDialog = () => {
+    setEditingLayout(null);
+    setFormData(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (layout: PayloadLayoutRecord) => {
+    setEditingLayout(layout);
+    setFormData({
+      conversionLogicId: layout.conversionLogicId.toString(),
+      name: layout.name,
+      logicType: layout.logicType || '',
+      description: layout.description || '',
+      targetTable: layout.targetTable || 'none',
+      layoutJson: JSON.stringify(layout.layout, null, 2),
+      testPayload: ''
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!parsed.layout || parsed.errors.length > 0) return;
+
+    const logicId = parseInt(formData.conversionLogicId);
+    if (!editingLayout && (!logicId || builtInLogicIds.includes(logicId))) {
+      toast({
+        title: "Validation Error",
+        description: "Choose a conversion logic ID that is not used by a built-in decoder",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const payload = {
+        name: formData.name,
+        logicType: formData.logicType || null,
+        description: formData.description || null,
+        targetTable: formData.targetTable === 'none' ? null : formData.targetTable,
+        layout: parsed.layout
+      };
+
+      const response = editingLayout
+        ? await payloadLayoutApi.update(editingLayout.id, payload)
+        : await payloadLayoutApi.create({ ...payload, conversionLogicId: logicId });
+
+      if (response.success) {
+        toast({
+          title: "Success",
+          description: editingLayout ? "Payload layout updated" : "Payload layout created"
+        });
+        setDialogOpen(false);
+        await fetchLayouts();
+        await loadLayoutDecoders(true);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save payload layout",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleToggleActive = async (layout: PayloadLayoutRecord) => {
+    if (layout.isActive && !confirm(`Deactivate layout "${layout.name}"? Devices using logic ${layout.conversionLogicId} will no longer decode.`)) return;
+
+    try {
+      const response = layout.isActive
+        ? await payloadLayoutApi.deactivate(layout.id)
+        : await payloadLayoutApi.update(layout.id, { isActive: true });
+      if (response.success) {
+        await fetchLayouts();
+        await loadLayoutDecoders(true);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update payload layout",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Binary className="h-5 w-5" />
+            <span>Payload Layouts</span>
+          </CardTitle>
+          <Button onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Layout
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Declarative decoders for new firmware payloads. Built-in logic IDs: {builtInLogicIds.join(', ')}.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : layouts.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No payload layouts defined yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Logic ID</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Target Table</TableHead>
+                <TableHead>Fields</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {layouts.map(layout => (
+                <TableRow key={layout.id}>
+                  <TableCell className="font-medium">{layout.conversionLogicId}</TableCell>
+                  <TableCell>{layout.name}</TableCell>
+                  <TableCell>{layout.logicType || `L${layout.conversionLogicId}`}</TableCell>
+                  <TableCell>{layout.targetTable || "Decode only"}</TableCell>
+                  <TableCell>{layout.layout.fields?.length ?? 0}</TableCell>
+                  <TableCell>
+                    <Badge variant={layout.isActive ? "default" : "secondary"}>
+                      {layout.isActive ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => openEditDialog(layout)}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleToggleActive(layout)}>
+                      <Power className="h-3 w-3" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingLayout ? "Edit Payload Layout" : "Add Payload Layout"}</DialogTitle>
+            <DialogDescription>
+              Offsets and lengths are in hex characters of the normalised payload. Bit ranges count from the most significant bit.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="layoutLogicId">Conversion Logic ID *</Label>
+              <Input
+                id="layoutLogicId"
+                type="number"
+                value={formData.conversionLogicId}
+                disabled={!!editingLayout}
+                onChange={(e) => setFormData(prev => ({ ...prev, conversionLogicId: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="layoutName">Name *</Label>
+              <Input
+                id="layoutName"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="layoutLogicType">Logic Type</Label>
+              <Input
+                id="layoutLogicType"
+                placeholder="e.g. P3"
+                value={formData.logicType}
+                onChange={(e) => setFormData(prev => ({ ...prev, logicType: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label>Target Table</Label>
+              <Select
+                value={formData.targetTable}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, targetTable: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Decode only (no ingestion)</SelectItem>
+                  {TARGET_TABLES.map(table => (
+                    <SelectItem key={table} value={table}>{table}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="layoutDescription">Description</Label>
+              <Input
+                id="layoutDescription"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="layoutJson">Layout JSON *</Label>
+              <Textarea
+                id="layoutJson"
+                className="font-mono text-xs min-h-[260px]"
+                value={formData.layoutJson}
+                onChange={(e) => setFormData(prev => ({ ...prev, layoutJson: e.target.value }))}
+              />
+              {parsed.errors.length > 0 ? (
+                <ul className="mt-2 text-xs text-destructive space-y-1">
+                  {parsed.errors.map(error => (
+                    <li key={error} className="flex items-center gap-1">
+                      <XCircle className="h-3 w-3" />
+                      {error}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-2 text-xs text-success flex items-center gap-1">
+                  <CheckCircle className="h-3 w-3" />
+                  Layout is valid
+                </p>
+              )}
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="layoutTestPayload">Test Payload</Label>
+              <Input
+                id="layoutTestPayload"
+                className="font-mono"
+                placeholder="Paste a raw payload to preview the decoded fields"
+                value={formData.testPayload}
+                onChange={(e) => setFormData(prev => ({ ...prev, testPayload: e.target.value }))}
+              />
+              {testResult && (
+                <div className="mt-2 bg-muted/30 p-3 rounded-lg text-xs">
+                  {testResult.success ? (
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {Object.entries(testResult.decodedData).map(([key, value]) => (
+                        <div key={key}>
+                          <span className="text-muted-foreground">{key}:</span>{" "}
+                          <span className="font-medium">{String(value)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <span className="text-destructive">{testResult.error}</span>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={handleSave}
+              disabled={submitting || !formData.name || parsed.errors.length > 0}
+            >
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingLayout ? "Save Changes" : "Create Layout"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
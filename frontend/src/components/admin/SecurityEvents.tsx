@@ -0,0 +1,243 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, RefreshCw, Search, ShieldAlert } from "lucide-react";
+import { format } from "date-fns";
+import { adminApi, AuthEvent, AuthEventType } from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+
+const EVENT_LABELS: Record<AuthEventType, string> = {
+  TWO_FACTOR_ENROLLED: '2FA enabled',
+  TWO_FACTOR_DISABLED: '2FA turned off',
+  TWO_FACTOR_RESET: '2FA reset by admin',
+  TWO_FACTOR_FAILED: 'Failed 2FA code',
+  RECOVERY_CODE_USED: 'Recovery code used',
+  RECOVERY_CODES_REGENERATED: 'Recovery codes replaced',
+  TWO_FACTOR_POLICY_CHANGED: '2FA policy changed',
+  PASSWORD_RESET_REQUESTED: 'Password reset requested',
+  PASSWORD_RESET: 'Password reset',
+  LOGIN_SUCCEEDED: 'Signed in',
+  LOGIN_FAILED: 'Failed sign-in',
+  LOGIN_BLOCKED: 'Sign-in throttled',
+  LOGIN_LOCKED: 'Locked out',
+  LOGIN_UNLOCKED: 'Lockout lifted',
+  LOGOUT: 'Signed out',
+  TOKEN_REFRESHED: 'Token refreshed',
+  REFRESH_TOKEN_REUSED: 'Refresh token reused'
+};
+
+const WARNING_EVENTS: AuthEventType[] = [
+  'TWO_FACTOR_FAILED',
+  'TWO_FACTOR_RESET',
+  'TWO_FACTOR_DISABLED',
+  'LOGIN_FAILED',
+  'LOGIN_BLOCKED',
+  'LOGIN_LOCKED',
+  'REFRESH_TOKEN_REUSED'
+];
+
+const TIME_RANGES: Record<string, { label: string; hours: number | null }> = {
+  '24h': { label: 'Last 24 hours', hours: 24 },
+  '7d': { label: 'Last 7 days', hours: 24 * 7 },
+  '30d': { label: 'Last 30 days', hours: 24 * 30 },
+  all: { label: 'All time', hours: null }
+};
+
+// Authentication audit log, next to the session list it relates to
+export const SecurityEvents = () => {
+  const [events, setEvents] = useState<AuthEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [eventType, setEventType] = useState<AuthEventType | 'all'>('all');
+  const [timeRange, setTimeRange] = useState('7d');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [ipAddress, setIpAddress] = useState('');
+  const [debouncedFilters, setDebouncedFilters] = useState({ search: '', ipAddress: '' });
+  const { toast } = useToast();
+
+  // Debounce the text filters
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedFilters({ search: searchTerm.trim(), ipAddress: ipAddress.trim() });
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [searchTerm, ipAddress]);
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true);
+      const hours = TIME_RANGES[timeRange].hours;
+      const response = await adminApi.getSecurityEvents({
+        eventType: eventType === 'all' ? undefined : eventType,
+        search: debouncedFilters.search || undefined,
+        ipAddress: debouncedFilters.ipAddress || undefined,
+        since: hours ? new Date(Date.now() - hours * 60 * 60 * 1000).toISOString() : undefined,
+        limit: 200
+      });
+      if (response.success) {
+        setEvents(response.data);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch security events",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [eventType, timeRange, debouncedFilters, toast]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              Authentication Log
+            </CardTitle>
+            <CardDescription>
+              Sign-ins, failures, lockouts, sign-outs, token refreshes, two-factor and password events
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchEvents} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+            <Input
+              placeholder="Search by username, email, or details..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Input
+            placeholder="IP address"
+            value={ipAddress}
+            onChange={(e) => setIpAddress(e.target.value)}
+            className="w-[160px] font-mono"
+          />
+          <Select value={eventType} onValueChange={(value) => setEventType(value as AuthEventType | 'all')}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All events</SelectItem>
+              {(Object.keys(EVENT_LABELS) as AuthEventType[]).map((type) => (
+                <SelectItem key={type} value={type}>{EVENT_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={timeRange} onValueChange={setTimeRange}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TIME_RANGES).map(([value, range]) => (
+                <SelectItem key={value} value={value}>{range.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>IP Address</TableHead>
+                <TableHead>User Agent</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : events.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    No events match these filters
+                  </TableCell>
+                </TableRow>
+              ) : (
+                events.map((event) => (
+                  <TableRow key={event.eventId}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {format(new Date(event.createdAt), 'MMM dd, yyyy HH:mm:ss')}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={WARNING_EVENTS.includes(event.eventType) ? 'destructive' : 'secondary'}>
+                        {EVENT_LABELS[event.eventType] || event.eventType}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {event.userName ? (
+                        <div>
+                          <div className="font-medium">{event.userName}</div>
+                          <div className="text-muted-foreground">{event.email}</div>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{event.actorName || '-'}</TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {event.ipAddress ? (
+                        <button
+                          type="button"
+                          className="hover:underline"
+                          title="Show events from this address"
+                          onClick={() => setIpAddress(event.ipAddress || '')}
+                        >
+                          {event.ipAddress}
+                        </button>
+                      ) : '-'}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-[200px] truncate" title={event.userAgent || undefined}>
+                      {event.userAgent || '-'}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{event.details || '-'}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
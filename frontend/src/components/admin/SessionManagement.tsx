@@ -42,6 +42,8 @@ import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { adminApi } from "@/services/api";
 import { useToast } from "@/hooks/use-toast";
+import { SecurityEvents } from "./SecurityEvents";
+import { LoginLockouts } from "./LoginLockouts";
 
 interface Session {
   session_id: string;
@@ -835,6 +837,10 @@ export const SessionManagement = () => {
           </div>
         </CardContent>
       </Card>
+
+      <LoginLockouts />
+
+      <SecurityEvents />
     </div>
   );
 };
\ No newline at end of file
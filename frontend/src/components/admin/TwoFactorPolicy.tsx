@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { adminApi, TwoFactorRolePolicy } from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+
+// Per-role switch that makes two-factor authentication mandatory at the next login
+export const TwoFactorPolicy = () => {
+  const [policy, setPolicy] = useState<TwoFactorRolePolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingRole, setSavingRole] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchPolicy = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await adminApi.getTwoFactorPolicy();
+      if (response.success) {
+        setPolicy(response.data);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch two-factor policy",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPolicy();
+  }, [fetchPolicy]);
+
+  const handleToggle = async (roleName: string, required: boolean) => {
+    try {
+      setSavingRole(roleName);
+      const response = await adminApi.setTwoFactorPolicy(roleName, required);
+      if (response.success) {
+        setPolicy(prev => prev.map(role => role.role_name === roleName ? response.data : role));
+        toast({
+          title: "Success",
+          description: required
+            ? `Two-factor authentication is now required for ${roleName}`
+            : `Two-factor authentication is now optional for ${roleName}`
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update two-factor policy",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingRole(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5" />
+          <span>Two-Factor Policy</span>
+        </CardTitle>
+        <CardDescription>
+          Users in a required role must set up an authenticator app the next time they sign in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {policy.map((role) => (
+              <div key={role.role_name} className="flex items-center justify-between rounded-md border p-3">
+                <Label htmlFor={`two-factor-${role.role_name}`} className="flex flex-col">
+                  <span className="font-medium">{role.display_name}</span>
+                  <span className="text-xs text-muted-foreground font-mono">{role.role_name}</span>
+                </Label>
+                <Switch
+                  id={`two-factor-${role.role_name}`}
+                  checked={role.requires_two_factor}
+                  onCheckedChange={(checked) => handleToggle(role.role_name, checked)}
+                  disabled={savingRole === role.role_name}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
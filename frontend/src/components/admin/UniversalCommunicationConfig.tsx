@@ -12,7 +12,7 @@ import { Separator } from '@/components/ui/separator';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from '@/components/ui/dialog';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Globe, History, AlertTriangle, CheckCircle, Save, Play, Trash2, Users, Plus, Settings, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { Loader2, Globe, History, AlertTriangle, CheckCircle, Save, Play, Trash2, Users, Plus, Settings, ChevronDown, ChevronUp, X, CalendarClock } from 'lucide-react';
 import { adminApi } from '@/services/api';
 
 // Helper function to get authentication headers
@@ -121,6 +121,9 @@ export const UniversalCommunicationConfig: React.FC = () => {
         notes: ''
     });
     const [selectedUsers, setSelectedUsers] = useState<number[]>([]);
+    const [scheduleTarget, setScheduleTarget] = useState<{ id: number; name: string } | null>(null);
+    const [scheduleFor, setScheduleFor] = useState('');
+    const [scheduleReason, setScheduleReason] = useState('');
     
     // JSON Builder state
     const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
@@ -470,11 +473,13 @@ export const UniversalCommunicationConfig: React.FC = () => {
         setIsLoading(true);
 
         try {
-            await adminApi.universalCommunication.activateConfig(templateId);
+            const response = await adminApi.universalCommunication.activateConfig(templateId);
 
             toast({
-                title: "Success",
-                description: "Configuration activated successfully. All devices will receive the new configuration.",
+                title: response.approvalRequired ? "Awaiting approval" : "Success",
+                description: response.approvalRequired
+                    ? response.message
+                    : "Configuration activated successfully. All devices will receive the new configuration.",
                 variant: "default"
             });
             fetchCurrentConfig();
@@ -483,7 +488,40 @@ export const UniversalCommunicationConfig: React.FC = () => {
         } catch (error) {
             toast({
                 title: "Network Error",
-                description: "Network error while activating configuration",
+                description: error instanceof Error ? error.message : "Network error while activating configuration",
+                variant: "destructive"
+            });
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleScheduleTemplate = async () => {
+        if (!scheduleTarget || !scheduleFor) return;
+
+        setIsLoading(true);
+
+        try {
+            const response = await adminApi.universalCommunication.scheduleActivation(
+                scheduleTarget.id,
+                new Date(scheduleFor).toISOString(),
+                scheduleReason.trim() || undefined
+            );
+
+            toast({
+                title: response.approvalRequired ? "Awaiting approval" : "Activation scheduled",
+                description: response.approvalRequired
+                    ? response.message
+                    : `"${scheduleTarget.name}" will be activated for all devices on ${new Date(scheduleFor).toLocaleString()}.`,
+                variant: "default"
+            });
+            setScheduleTarget(null);
+            setScheduleFor('');
+            setScheduleReason('');
+        } catch (error) {
+            toast({
+                title: "Error",
+                description: error instanceof Error ? error.message : "Failed to schedule activation",
                 variant: "destructive"
             });
         } finally {
@@ -1393,6 +1431,19 @@ export const UniversalCommunicationConfig: React.FC = () => {
                                                         Activate
                                                     </Button>
                                                 )}
+
+                                                {!template.is_active && (
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() => setScheduleTarget({ id: template.config_id, name: template.configuration_name })}
+                                                        disabled={isLoading}
+                                                        className="flex items-center gap-1"
+                                                    >
+                                                        <CalendarClock className="h-3 w-3" />
+                                                        Schedule
+                                                    </Button>
+                                                )}
                                                 
                                                 {!template.is_active && (
                                                     <Button
@@ -1460,6 +1511,46 @@ export const UniversalCommunicationConfig: React.FC = () => {
                     </CardContent>
                 </Card>
             )}
+
+            <Dialog open={!!scheduleTarget} onOpenChange={(open) => !open && setScheduleTarget(null)}>
+                <DialogContent className="sm:max-w-[500px]">
+                    <DialogHeader>
+                        <DialogTitle>Schedule Activation</DialogTitle>
+                        <DialogDescription>
+                            Activate "{scheduleTarget?.name}" for all devices at a later time. Pending
+                            activations can be cancelled from Device Configuration.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="universal-schedule-for">Activate at *</Label>
+                            <Input
+                                id="universal-schedule-for"
+                                type="datetime-local"
+                                value={scheduleFor}
+                                onChange={(e) => setScheduleFor(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="universal-schedule-reason">Reason</Label>
+                            <Input
+                                id="universal-schedule-reason"
+                                value={scheduleReason}
+                                onChange={(e) => setScheduleReason(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setScheduleTarget(null)} disabled={isLoading}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleScheduleTemplate} disabled={isLoading || !scheduleFor}>
+                            {isLoading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <CalendarClock className="h-4 w-4 mr-2" />}
+                            Schedule
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
         </div>
     );
-};
\ No newline at end of file
+};
@@ -0,0 +1,377 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Mail, Plus, Copy, Ban, Loader2 } from "lucide-react";
+import { adminApi, UserInvitation } from "@/services/api";
+import { useToast } from "@/hooks/use-toast";
+
+const stateVariant = (state: UserInvitation["state"]) => {
+  switch (state) {
+    case "pending": return "default";
+    case "accepted": return "outline";
+    case "revoked": return "destructive";
+    default: return "secondary";
+  }
+};
+
+const emptyInvite = {
+  email: "",
+  role: "viewer",
+  clientId: "",
+  expiresInHours: "72"
+};
+
+export const UserInvitations = () => {
+  const [invitations, setInvitations] = useState<UserInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [clientIds, setClientIds] = useState<string[]>([]);
+  const [availableRoles, setAvailableRoles] = useState<Array<{ name: string; display_name: string }>>([]);
+  const [newInvite, setNewInvite] = useState(emptyInvite);
+  // Only shown right after creation; the token can't be retrieved again
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchInvitations = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await adminApi.getInvitations();
+      if (response.success) {
+        setInvitations(response.data);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch invitations",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchInvitations();
+    fetchClientIds();
+    fetchRoles();
+  }, [fetchInvitations]);
+
+  const fetchClientIds = async () => {
+    try {
+      const response = await adminApi.getClientIds();
+      if (response.success) {
+        setClientIds(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch client IDs:', error);
+    }
+  };
+
+  const fetchRoles = async () => {
+    try {
+      const response = await adminApi.getRoles();
+      if (response.success) {
+        setAvailableRoles(response.data.roles.map((role: { role_name: string; display_name: string }) => ({
+          name: role.role_name,
+          display_name: role.display_name
+        })));
+      }
+    } catch (error) {
+      console.error('Failed to fetch roles:', error);
+    }
+  };
+
+  const handleCreateInvitation = async () => {
+    if (!newInvite.email) {
+      toast({
+        title: "Error",
+        description: "Email is required",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const response = await adminApi.createInvitation({
+        email: newInvite.email,
+        role: newInvite.role,
+        clientId: newInvite.clientId || null,
+        expiresInHours: parseInt(newInvite.expiresInHours) || undefined
+      });
+      if (response.success) {
+        const { token, inviteLink: serverLink, ...invitation } = response.data;
+        setInvitations(prev => [invitation, ...prev]);
+        // The server only knows the dashboard URL when FRONTEND_URL is set
+        setInviteLink(serverLink.startsWith('http')
+          ? serverLink
+          : `${window.location.origin}/register?invite=${encodeURIComponent(token)}`);
+        setNewInvite(emptyInvite);
+        toast({
+          title: "Success",
+          description: `Invitation created for ${invitation.email}`
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create invitation",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevokeInvitation = async (invitationId: number) => {
+    if (!confirm("Revoke this invitation? The invite link will stop working.")) return;
+
+    try {
+      const response = await adminApi.revokeInvitation(invitationId);
+      if (response.success) {
+        setInvitations(prev => prev.map(invitation =>
+          invitation.invitationId === invitationId ? response.data : invitation
+        ));
+        toast({
+          title: "Success",
+          description: "Invitation revoked"
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke invitation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const copyInviteLink = async () => {
+    if (!inviteLink) return;
+
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      toast({
+        title: "Copied to Clipboard",
+        description: "Invite link copied"
+      });
+    } catch (error) {
+      console.error('Failed to copy invite link:', error);
+      toast({
+        title: "Copy Failed",
+        description: "Failed to copy invite link to clipboard.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDialogChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (!open) {
+      setInviteLink(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Mail className="h-5 w-5" />
+            <span>Invitations</span>
+          </CardTitle>
+          <Dialog open={isDialogOpen} onOpenChange={handleDialogChange}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Invite User
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Invite User</DialogTitle>
+                <DialogDescription>
+                  The invitee registers with the link below. The email, role and client can't be changed on sign-up.
+                </DialogDescription>
+              </DialogHeader>
+
+              {inviteLink ? (
+                <Alert>
+                  <AlertDescription className="space-y-2">
+                    <p>Send this link to the invitee. It will not be shown again.</p>
+                    <div className="flex items-center gap-2">
+                      <code className="flex-1 p-2 bg-muted rounded text-sm font-mono border break-all">
+                        {inviteLink}
+                      </code>
+                      <Button variant="outline" size="sm" onClick={copyInviteLink}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-email">Email</Label>
+                    <Input
+                      id="invite-email"
+                      type="email"
+                      value={newInvite.email}
+                      onChange={(e) => setNewInvite(prev => ({ ...prev, email: e.target.value }))}
+                      placeholder="Enter email address"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-role">Role</Label>
+                    <Select
+                      value={newInvite.role}
+                      onValueChange={(value) => setNewInvite(prev => ({ ...prev, role: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select role" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableRoles.map((role) => (
+                          <SelectItem key={role.name} value={role.name}>
+                            {role.display_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-client">Client ID</Label>
+                    <Select
+                      value={newInvite.clientId || "none"}
+                      onValueChange={(value) => setNewInvite(prev => ({ ...prev, clientId: value === "none" ? "" : value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select client" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No client</SelectItem>
+                        {clientIds.map((clientId) => (
+                          <SelectItem key={clientId} value={clientId}>
+                            {clientId}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-expiry">Expires after (hours)</Label>
+                    <Input
+                      id="invite-expiry"
+                      type="number"
+                      min={1}
+                      value={newInvite.expiresInHours}
+                      onChange={(e) => setNewInvite(prev => ({ ...prev, expiresInHours: e.target.value }))}
+                    />
+                  </div>
+                  <Button onClick={handleCreateInvitation} disabled={isSubmitting} className="w-full">
+                    {isSubmitting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Creating...
+                      </>
+                    ) : (
+                      'Create Invitation'
+                    )}
+                  </Button>
+                </div>
+              )}
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Client ID</TableHead>
+                <TableHead>State</TableHead>
+                <TableHead>Invited By</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="w-[70px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : invitations.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    No invitations yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                invitations.map((invitation) => (
+                  <TableRow key={invitation.invitationId}>
+                    <TableCell className="font-medium">{invitation.email}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{invitation.role}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {invitation.clientId || 'Not assigned'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={stateVariant(invitation.state)}>{invitation.state}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {invitation.invitedByName || invitation.invitedBy}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(invitation.expiresAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      {invitation.state === "pending" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={() => handleRevokeInvitation(invitation.invitationId)}
+                          title="Revoke invitation"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -27,7 +27,10 @@ import {
   Edit, 
   Trash2, 
   Search,
-  MoreHorizontal 
+  MoreHorizontal,
+  UserCheck,
+  UserX,
+  ShieldOff
 } from "lucide-react";
 import { 
   DropdownMenu, 
@@ -45,7 +48,7 @@ interface User {
   email: string;
   role: string;
   clientId?: string;
-  status: "active" | "inactive";
+  status: "active" | "pending" | "rejected";
   createdAt: string;
   updatedAt?: string;
 }
@@ -194,6 +197,50 @@ export const UserManagement = () => {
     }
   };
 
+  // Accounts that signed up without an invitation
+  const handleDecidePendingUser = async (userId: number, decision: "approve" | "reject") => {
+    try {
+      const response = await adminApi.decidePendingUser(userId.toString(), decision);
+      if (response.success) {
+        setUsers(prev => prev.map(user =>
+          user.id === userId ? { ...user, status: response.data.status } : user
+        ));
+        toast({
+          title: "Success",
+          description: decision === "approve" ? "Account approved" : "Account rejected"
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update account status",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // For users who lost their authenticator; they enroll again at next login if their role requires it
+  const handleResetTwoFactor = async (user: User) => {
+    const reason = prompt(`Reset two-factor authentication for ${user.name}? Enter a reason for the audit log:`);
+    if (reason === null) return;
+
+    try {
+      const response = await adminApi.resetTwoFactor(user.id.toString(), reason.trim() || undefined);
+      if (response.success) {
+        toast({
+          title: "Success",
+          description: `Two-factor authentication reset for ${user.name}`
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reset two-factor authentication",
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleEditUser = async (user: User) => {
     try {
       // Get full user details
@@ -531,7 +578,9 @@ export const UserManagement = () => {
                       {user.clientId || 'Not assigned'}
                     </TableCell>
                     <TableCell>
-                      <Badge variant={user.status === "active" ? "outline" : "secondary"}>
+                      <Badge variant={
+                        user.status === "active" ? "outline" : user.status === "rejected" ? "destructive" : "secondary"
+                      }>
                         {user.status}
                       </Badge>
                     </TableCell>
@@ -546,10 +595,26 @@ export const UserManagement = () => {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
+                          {user.status === "pending" && (
+                            <>
+                              <DropdownMenuItem onClick={() => handleDecidePendingUser(user.id, "approve")}>
+                                <UserCheck className="h-4 w-4 mr-2" />
+                                Approve
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleDecidePendingUser(user.id, "reject")}>
+                                <UserX className="h-4 w-4 mr-2" />
+                                Reject
+                              </DropdownMenuItem>
+                            </>
+                          )}
                           <DropdownMenuItem onClick={() => handleEditUser(user)}>
                             <Edit className="h-4 w-4 mr-2" />
                             Edit
                           </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleResetTwoFactor(user)}>
+                            <ShieldOff className="h-4 w-4 mr-2" />
+                            Reset 2FA
+                          </DropdownMenuItem>
                           <DropdownMenuItem 
                             className="text-destructive"
                             onClick={() => handleDeleteUser(user.id)}
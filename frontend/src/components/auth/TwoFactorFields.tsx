@@ -0,0 +1,84 @@
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Copy } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { TwoFactorEnrollment } from '@/services/api';
+
+interface TotpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Six-digit code from the authenticator app
+export const TotpCodeInput = ({ value, onChange, onComplete, disabled }: TotpCodeInputProps) => (
+  <InputOTP
+    maxLength={6}
+    value={value}
+    onChange={onChange}
+    onComplete={onComplete}
+    disabled={disabled}
+    inputMode="numeric"
+    pattern="^[0-9]*$"
+    autoFocus
+  >
+    <InputOTPGroup>
+      {Array.from({ length: 6 }, (_, index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+// QR code to scan, with the secret for apps that can't scan
+export const EnrollmentDetails = ({ enrollment }: { enrollment: TwoFactorEnrollment }) => (
+  <div className="flex flex-col items-center space-y-3">
+    <img
+      src={enrollment.qrCode}
+      alt="Scan with your authenticator app"
+      className="h-44 w-44 rounded border bg-white p-2"
+    />
+    <div className="text-center text-xs text-muted-foreground">
+      <p>Scan with an authenticator app, or enter this key:</p>
+      <code className="mt-1 inline-block rounded bg-muted px-2 py-1 font-mono text-sm break-all">
+        {enrollment.secret}
+      </code>
+    </div>
+  </div>
+);
+
+// One-time recovery codes; only shown right after they are generated
+export const RecoveryCodesList = ({ codes }: { codes: string[] }) => {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast({
+        title: 'Copied to Clipboard',
+        description: 'Recovery codes copied'
+      });
+    } catch (error) {
+      console.error('Failed to copy recovery codes:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+        <Copy className="mr-2 h-4 w-4" />
+        Copy codes
+      </Button>
+    </div>
+  );
+};
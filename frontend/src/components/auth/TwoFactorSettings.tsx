@@ -0,0 +1,215 @@
+import { useEffect, useState, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { twoFactorApi, TwoFactorEnrollment, TwoFactorStatus } from '@/services/api';
+import { EnrollmentDetails, RecoveryCodesList, TotpCodeInput } from './TwoFactorFields';
+
+interface TwoFactorSettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Actions on an enabled 2FA setup that need a current code
+type CodeAction = 'regenerate' | 'disable';
+
+export const TwoFactorSettings = ({ open, onOpenChange }: TwoFactorSettingsProps) => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const { toast } = useToast();
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await twoFactorApi.getStatus();
+      if (response.success) {
+        setStatus(response.data);
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load two-factor settings',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setEnrollment(null);
+    setCodeAction(null);
+    setCode('');
+    setRecoveryCodes(null);
+    loadStatus();
+  }, [open, loadStatus]);
+
+  const handleStartEnrollment = async () => {
+    try {
+      setIsSubmitting(true);
+      const response = await twoFactorApi.enroll();
+      if (response.success) {
+        setEnrollment(response.data);
+        setCode('');
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start two-factor setup',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmitCode = async () => {
+    try {
+      setIsSubmitting(true);
+
+      if (enrollment) {
+        const response = await twoFactorApi.confirmEnrollment(code);
+        setEnrollment(null);
+        setRecoveryCodes(response.data.recoveryCodes);
+        toast({ title: 'Success', description: 'Two-factor authentication enabled' });
+      } else if (codeAction === 'regenerate') {
+        const response = await twoFactorApi.regenerateRecoveryCodes(code);
+        setRecoveryCodes(response.data.recoveryCodes);
+        toast({ title: 'Success', description: 'Recovery codes regenerated' });
+      } else if (codeAction === 'disable') {
+        await twoFactorApi.disable(code);
+        toast({ title: 'Success', description: 'Two-factor authentication disabled' });
+      }
+
+      setCodeAction(null);
+      await loadStatus();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to verify code',
+        variant: 'destructive'
+      });
+    } finally {
+      setCode('');
+      setIsSubmitting(false);
+    }
+  };
+
+  const needsCode = !!enrollment || !!codeAction;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            Protect your account with a code from an authenticator app in addition to your password.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !status ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : recoveryCodes ? (
+          <div className="space-y-4">
+            <RecoveryCodesList codes={recoveryCodes} />
+            <Button className="w-full" onClick={() => setRecoveryCodes(null)}>
+              Done
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Status</span>
+              <div className="flex items-center gap-2">
+                {status.required && <Badge variant="outline">Required for your role</Badge>}
+                <Badge variant={status.enabled ? 'default' : 'secondary'}>
+                  {status.enabled ? 'Enabled' : 'Not enabled'}
+                </Badge>
+              </div>
+            </div>
+
+            {status.enabled && (
+              <p className="text-sm text-muted-foreground">
+                {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+              </p>
+            )}
+
+            {enrollment && <EnrollmentDetails enrollment={enrollment} />}
+
+            {needsCode ? (
+              <div className="space-y-3">
+                <Label className="block text-center">
+                  {enrollment
+                    ? 'Enter the code shown in your authenticator app'
+                    : codeAction === 'disable'
+                      ? 'Enter a current code to turn off two-factor authentication'
+                      : 'Enter a current code to replace your recovery codes'}
+                </Label>
+                <div className="flex justify-center">
+                  <TotpCodeInput value={code} onChange={setCode} disabled={isSubmitting} />
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => {
+                      setEnrollment(null);
+                      setCodeAction(null);
+                      setCode('');
+                    }}
+                    disabled={isSubmitting}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    className="flex-1"
+                    variant={codeAction === 'disable' ? 'destructive' : 'default'}
+                    onClick={handleSubmitCode}
+                    disabled={isSubmitting || code.length !== 6}
+                  >
+                    {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Confirm
+                  </Button>
+                </div>
+              </div>
+            ) : status.enabled ? (
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1" onClick={() => setCodeAction('regenerate')}>
+                  New recovery codes
+                </Button>
+                {!status.required && (
+                  <Button variant="destructive" className="flex-1" onClick={() => setCodeAction('disable')}>
+                    Turn off
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <Button className="w-full" onClick={handleStartEnrollment} disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Set up authenticator app
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,6 +1,8 @@
-import { Home, BarChart3, Settings, Users } from "lucide-react";
+import { useState, useEffect } from "react";
+import { Home, BarChart3, Settings, Users, Bell, BellRing } from "lucide-react";
 import { NavLink, useLocation } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
+import { alertApi } from "@/services/api";
 
 import {
   Sidebar,
@@ -9,13 +11,18 @@ import {
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarMenu,
+  SidebarMenuBadge,
   SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
 
+const CRITICAL_ALERT_POLL_MS = 60000;
+
 const allItems = [
   { title: "Dashboard", url: "/", icon: Home, requiredRole: null },
   { title: "Reports", url: "/reports", icon: BarChart3, requiredRole: null },
+  { title: "Alerts", url: "/alerts", icon: Bell, requiredRole: null },
+  { title: "Notifications", url: "/notifications", icon: BellRing, requiredRole: null },
   { title: "Admin", url: "/admin", icon: Settings, requiredRole: "admin" },
   { title: "Users", url: "/users", icon: Users, requiredRole: "admin" },
 ];
@@ -24,6 +31,27 @@ export function AppSidebar() {
   const location = useLocation();
   const { user } = useAuth();
   const currentPath = location.pathname;
+  const [activeCriticalAlerts, setActiveCriticalAlerts] = useState(0);
+
+  // Keep the Alerts badge current while the sidebar is mounted
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchActiveCritical = async () => {
+      try {
+        const response = await alertApi.getStats();
+        if (response.success) {
+          setActiveCriticalAlerts(response.data.summary?.active_critical_alerts || 0);
+        }
+      } catch (error) {
+        console.error('Failed to load active critical alert count:', error);
+      }
+    };
+
+    fetchActiveCritical();
+    const interval = setInterval(fetchActiveCritical, CRITICAL_ALERT_POLL_MS);
+    return () => clearInterval(interval);
+  }, [user]);
 
   const isActive = (path: string) => currentPath === path;
 
@@ -52,6 +80,14 @@ export function AppSidebar() {
                       <span>{item.title}</span>
                     </NavLink>
                   </SidebarMenuButton>
+                  {item.url === "/alerts" && activeCriticalAlerts > 0 && (
+                    <SidebarMenuBadge
+                      className="bg-destructive text-destructive-foreground"
+                      title={`${activeCriticalAlerts} active critical alert${activeCriticalAlerts === 1 ? '' : 's'}`}
+                    >
+                      {activeCriticalAlerts}
+                    </SidebarMenuBadge>
+                  )}
                 </SidebarMenuItem>
               ))}
             </SidebarMenu>
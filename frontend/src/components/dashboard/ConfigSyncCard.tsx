@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Settings } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { deviceApi } from "@/services/api";
+import { ConfigCheckin, DeviceConfigSync } from "@/types/device";
+
+interface ConfigSyncCardProps {
+  deviceId: string;
+  configSync?: DeviceConfigSync | null;
+}
+
+const SyncBadge = ({ inSync }: { inSync: boolean | null }) => {
+  if (inSync === null) {
+    return <Badge variant="outline">Unknown</Badge>;
+  }
+  return inSync
+    ? <Badge variant="outline" className="text-success border-success">In sync</Badge>
+    : <Badge variant="outline" className="text-destructive border-destructive">Drift</Badge>;
+};
+
+const shortHash = (hash: string | null) => (hash ? hash.slice(0, 8) : "—");
+
+export const ConfigSyncCard = ({ deviceId, configSync }: ConfigSyncCardProps) => {
+  const [checkins, setCheckins] = useState<ConfigCheckin[]>([]);
+
+  useEffect(() => {
+    const fetchCheckins = async () => {
+      try {
+        const response = await deviceApi.getConfigCheckins(deviceId, 10);
+        if (response.success) {
+          setCheckins(response.data);
+        }
+      } catch (err) {
+        console.error('Error fetching config check-ins:', err);
+      }
+    };
+
+    fetchCheckins();
+  }, [deviceId]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Settings className="h-5 w-5" />
+          Device Configuration
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!configSync ? (
+          <p className="text-sm text-muted-foreground">
+            This device has not reported its running configuration yet.
+          </p>
+        ) : (
+          <div className="space-y-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Status:</span>
+              <SyncBadge inSync={configSync.inSync} />
+            </div>
+            {configSync.driftSince && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Drifting since:</span>
+                <span className="text-destructive">
+                  {formatDistanceToNow(new Date(configSync.driftSince), { addSuffix: true })}
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Running config:</span>
+              <span className="font-mono text-xs">{shortHash(configSync.reportedHash)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Active config:</span>
+              <span className="font-mono text-xs">{shortHash(configSync.expectedHash)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Firmware:</span>
+              <span>{configSync.firmwareVersion || "Unknown"}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Last check-in:</span>
+              <span>
+                {configSync.lastPolledAt
+                  ? formatDistanceToNow(new Date(configSync.lastPolledAt), { addSuffix: true })
+                  : "Never"}
+              </span>
+            </div>
+          </div>
+        )}
+
+        {checkins.length > 0 && (
+          <div className="pt-4 border-t space-y-2">
+            <h4 className="font-medium text-sm">Recent check-ins</h4>
+            {checkins.map((checkin) => (
+              <div key={checkin.id} className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">
+                  {new Date(checkin.checkedInAt).toLocaleString()}
+                </span>
+                <span className="font-mono">{shortHash(checkin.reportedHash)}</span>
+                <span>{checkin.firmwareVersion || "—"}</span>
+                <SyncBadge inSync={checkin.inSync} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
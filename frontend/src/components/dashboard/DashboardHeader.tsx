@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { User } from "@/types/device";
 import { Button } from "@/components/ui/button";
 import {
@@ -10,9 +11,10 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { SidebarTrigger } from "@/components/ui/sidebar";
-import { LogOut, Settings, User2, ChevronDown } from "lucide-react";
+import { LogOut, Settings, User2, ChevronDown, ShieldCheck } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
+import { TwoFactorSettings } from "@/components/auth/TwoFactorSettings";
 
 interface DashboardHeaderProps {
   user: User;
@@ -21,6 +23,7 @@ interface DashboardHeaderProps {
 export const DashboardHeader = ({ user }: DashboardHeaderProps) => {
   const navigate = useNavigate();
   const { logout } = useAuth();
+  const [isTwoFactorOpen, setIsTwoFactorOpen] = useState(false);
 
   const handleLogout = async () => {
     try {
@@ -73,6 +76,13 @@ export const DashboardHeader = ({ user }: DashboardHeaderProps) => {
                 <User2 className="mr-2 h-4 w-4" />
                 <span>Profile</span>
               </DropdownMenuItem>
+              <DropdownMenuItem 
+                className="cursor-pointer"
+                onClick={() => setIsTwoFactorOpen(true)}
+              >
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                <span>Two-Factor Authentication</span>
+              </DropdownMenuItem>
               {user.role === "admin" && (
                 <DropdownMenuItem 
                   className="cursor-pointer"
@@ -92,6 +102,7 @@ export const DashboardHeader = ({ user }: DashboardHeaderProps) => {
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
+          <TwoFactorSettings open={isTwoFactorOpen} onOpenChange={setIsTwoFactorOpen} />
         </div>
       </div>
     </header>
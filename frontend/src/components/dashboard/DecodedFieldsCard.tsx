@@ -0,0 +1,67 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Binary, XCircle } from "lucide-react";
+import { convertHexData, formatDecodedValue, getDecoder } from "@/services/hexConversion";
+import { useLayoutDecoders } from "@/hooks/use-layout-decoders";
+
+interface DecodedFieldsCardProps {
+  hexField: string;
+  conversionLogicId: number | null | undefined;
+  className?: string;
+}
+
+// Renders the fields declared by the decoder registered for the device's ConversionLogicID
+export const DecodedFieldsCard = ({ hexField, conversionLogicId, className }: DecodedFieldsCardProps) => {
+  const layoutsReady = useLayoutDecoders();
+  const decoder = layoutsReady ? getDecoder(conversionLogicId) : null;
+  const result = useMemo(
+    () => (hexField && decoder ? convertHexData(hexField, decoder.logicId) : null),
+    [hexField, decoder]
+  );
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Binary className="h-5 w-5" />
+            Decoded Payload
+          </div>
+          {!layoutsReady ? null : decoder ? (
+            <Badge variant="outline">{decoder.name}</Badge>
+          ) : (
+            <Badge variant="destructive">No decoder for logic {conversionLogicId ?? "—"}</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!layoutsReady ? (
+          <p className="text-sm text-muted-foreground">Loading decoders...</p>
+        ) : !decoder ? (
+          <p className="text-sm text-muted-foreground">
+            This device's conversion logic has no registered decoder.
+          </p>
+        ) : !hexField ? (
+          <p className="text-sm text-muted-foreground">No hex data available for this record.</p>
+        ) : !result?.success ? (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <XCircle className="h-4 w-4" />
+            {result?.error || "Failed to decode payload"}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+            {decoder.fields.map(field => (
+              <div key={field.key} className="bg-muted/30 p-3 rounded-lg">
+                <p className="text-xs text-muted-foreground mb-1">{field.label}</p>
+                <p className="text-sm font-medium break-words">
+                  {formatDecodedValue(field, result.decodedData[field.key], decoder)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
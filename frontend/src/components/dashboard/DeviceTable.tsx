@@ -28,6 +28,7 @@ import {
   Eye
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { LivenessBadge } from "./LivenessBadge";
 
 interface DeviceTableProps {
   devices: Device[];
@@ -44,7 +45,8 @@ export const DeviceTable = ({ devices }: DeviceTableProps) => {
   const [filters, setFilters] = useState({
     gensetSignal: "",
     thermostatStatus: "",
-    hasErrors: ""
+    hasErrors: "",
+    liveness: ""
   });
 
   // Filter and search logic
@@ -56,8 +58,9 @@ export const DeviceTable = ({ devices }: DeviceTableProps) => {
       const matchesErrors = !filters.hasErrors || 
         (filters.hasErrors === "yes" && device.faultCodes) ||
         (filters.hasErrors === "no" && !device.faultCodes);
+      const matchesLiveness = !filters.liveness || device.liveness?.state === filters.liveness;
       
-      return matchesSearch && matchesGenset && matchesThermostat && matchesErrors;
+      return matchesSearch && matchesGenset && matchesThermostat && matchesErrors && matchesLiveness;
     });
   }, [devices, searchTerm, filters]);
 
@@ -182,6 +185,32 @@ export const DeviceTable = ({ devices }: DeviceTableProps) => {
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Filter className="h-4 w-4 mr-2" />
+                  Connectivity
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                <DropdownMenuItem onClick={() => setFilters({...filters, liveness: ""})}>
+                  All
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setFilters({...filters, liveness: "online"})}>
+                  Online
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setFilters({...filters, liveness: "late"})}>
+                  Late
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setFilters({...filters, liveness: "offline"})}>
+                  Offline
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setFilters({...filters, liveness: "maintenance"})}>
+                  Maintenance
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
       </CardHeader>
@@ -192,6 +221,7 @@ export const DeviceTable = ({ devices }: DeviceTableProps) => {
             <TableHeader>
               <TableRow>
                 <SortableHeader field="deviceId">Device ID</SortableHeader>
+                <TableHead>Connectivity</TableHead>
                 <SortableHeader field="runtimeMin">Runtime (min)</SortableHeader>
                 <SortableHeader field="faultDescriptions">Fault Status</SortableHeader>
                 <SortableHeader field="gensetSignal">Genset</SortableHeader>
@@ -209,6 +239,9 @@ export const DeviceTable = ({ devices }: DeviceTableProps) => {
                   onClick={() => handleDeviceClick(device.deviceId)}
                 >
                   <TableCell className="font-medium">{device.deviceId}</TableCell>
+                  <TableCell>
+                    <LivenessBadge liveness={device.liveness} />
+                  </TableCell>
                   <TableCell>{device.runtimeMin}</TableCell>
                   <TableCell>
                     <div className="space-y-1">
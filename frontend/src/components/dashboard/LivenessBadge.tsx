@@ -0,0 +1,40 @@
+import { Badge } from "@/components/ui/badge";
+import { DeviceLiveness, LivenessState } from "@/types/device";
+
+interface LivenessBadgeProps {
+  liveness?: DeviceLiveness | null;
+}
+
+const STATE_STYLES: Record<LivenessState, { label: string; className: string }> = {
+  online: { label: "Online", className: "text-success border-success" },
+  late: { label: "Late", className: "text-warning border-warning" },
+  offline: { label: "Offline", className: "text-destructive border-destructive" },
+  maintenance: { label: "Maintenance", className: "text-muted-foreground border-muted-foreground" },
+};
+
+const describeLiveness = (liveness: DeviceLiveness) => {
+  if (liveness.state === "maintenance") {
+    const until = liveness.maintenanceUntil
+      ? `until ${new Date(liveness.maintenanceUntil).toLocaleString()}`
+      : "until ended manually";
+    return [`In maintenance ${until}`, liveness.maintenanceReason].filter(Boolean).join(" - ");
+  }
+
+  const lastSeen = liveness.lastSeenAt
+    ? `Last seen ${new Date(liveness.lastSeenAt).toLocaleString()}`
+    : "Never reported";
+  return `${lastSeen} (expected every ${liveness.expectedIntervalMinutes} min)`;
+};
+
+export const LivenessBadge = ({ liveness }: LivenessBadgeProps) => {
+  if (!liveness) {
+    return <Badge variant="outline">Unknown</Badge>;
+  }
+
+  const style = STATE_STYLES[liveness.state];
+  return (
+    <Badge variant="outline" className={style.className} title={describeLiveness(liveness)}>
+      {style.label}
+    </Badge>
+  );
+};
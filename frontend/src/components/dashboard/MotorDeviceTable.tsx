@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { ChevronUp, ChevronDown, MapPin, Signal, Zap } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { MotorDevice } from "@/types/motorDevice";
+import { LivenessBadge } from "./LivenessBadge";
 import {
   Pagination,
   PaginationContent,
@@ -32,7 +33,8 @@ export const MotorDeviceTable = ({ devices }: MotorDeviceTableProps) => {
   const [filters, setFilters] = useState({
     motorStatus: "all",
     faultStatus: "all",
-    gsmStrength: "all"
+    gsmStrength: "all",
+    liveness: "all"
   });
 
   const filteredDevices = useMemo(() => {
@@ -47,8 +49,9 @@ export const MotorDeviceTable = ({ devices }: MotorDeviceTableProps) => {
       const matchesGsmStrength = filters.gsmStrength === "all" ||
         (filters.gsmStrength === "strong" && device.gsmSignalStrength >= 4) ||
         (filters.gsmStrength === "weak" && device.gsmSignalStrength <= 3);
+      const matchesLiveness = filters.liveness === "all" || device.liveness?.state === filters.liveness;
 
-      return matchesSearch && matchesMotorStatus && matchesFaultStatus && matchesGsmStrength;
+      return matchesSearch && matchesMotorStatus && matchesFaultStatus && matchesGsmStrength && matchesLiveness;
     });
   }, [devices, searchTerm, filters]);
 
@@ -179,6 +182,19 @@ export const MotorDeviceTable = ({ devices }: MotorDeviceTableProps) => {
                 <SelectItem value="weak">Weak (0-3)</SelectItem>
               </SelectContent>
             </Select>
+
+            <Select value={filters.liveness} onValueChange={(value) => setFilters(prev => ({ ...prev, liveness: value }))}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue placeholder="Connectivity" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All States</SelectItem>
+                <SelectItem value="online">Online</SelectItem>
+                <SelectItem value="late">Late</SelectItem>
+                <SelectItem value="offline">Offline</SelectItem>
+                <SelectItem value="maintenance">Maintenance</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
         </div>
       </CardHeader>
@@ -190,6 +206,7 @@ export const MotorDeviceTable = ({ devices }: MotorDeviceTableProps) => {
               <TableRow>
                 <SortableHeader field="entryId">Entry ID</SortableHeader>
                 <SortableHeader field="deviceId">Device ID</SortableHeader>
+                <TableHead>Connectivity</TableHead>
                 <SortableHeader field="gsmSignalStrength">GSM Signal</SortableHeader>
                 <SortableHeader field="motorOnTimeSec">Motor Status</SortableHeader>
                 <TableHead>Location</TableHead>
@@ -207,6 +224,9 @@ export const MotorDeviceTable = ({ devices }: MotorDeviceTableProps) => {
                 >
                   <TableCell className="font-medium">{device.entryId}</TableCell>
                   <TableCell className="font-mono">{device.deviceId}</TableCell>
+                  <TableCell>
+                    <LivenessBadge liveness={device.liveness} />
+                  </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
                       {getGsmStrengthIcon(device.gsmSignalStrength)}
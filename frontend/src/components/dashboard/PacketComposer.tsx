@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, XCircle, Shuffle, Send, Copy, Loader2, PenTool } from "lucide-react";
+import { deviceApi } from "@/services/api";
+import {
+  generateSyntheticData,
+  roundTripHexData,
+  DecodedData,
+  RegisteredDecoder
+} from "@/services/hexConversion";
+import { useToast } from "@/hooks/use-toast";
+
+// Values the encoder derives from other fields, so they are not editable
+const DERIVED_FIELDS = ["FaultDescriptions"];
+
+interface PacketComposerProps {
+  deviceId: string;
+  decoder: RegisteredDecoder;
+  initialData?: DecodedData;
+  canPush: boolean;
+  onPayloadChange: (payload: string | null) => void;
+}
+
+// Builds a device payload from field values and checks it decodes back to the same values
+export const PacketComposer = ({ deviceId, decoder, initialData, canPush, onPayloadChange }: PacketComposerProps) => {
+  const [values, setValues] = useState<DecodedData>(
+    () => initialData ?? generateSyntheticData(decoder.logicId) ?? {}
+  );
+  const [pushing, setPushing] = useState(false);
+  const { toast } = useToast();
+
+  const roundTrip = useMemo(() => roundTripHexData(values, decoder.logicId), [values, decoder.logicId]);
+  const { encoded, decoded, mismatches } = roundTrip;
+
+  useEffect(() => {
+    onPayloadChange(encoded.success ? encoded.payload : null);
+  }, [encoded, onPayloadChange]);
+
+  const faultBits = Object.entries(decoder.faultCodes).map(([bit, name]) => ({ bit: Number(bit), name }));
+  // P1-style fault bitmask fields are edited as checkboxes over the decoder's fault table
+  const isBitmaskField = (key: string) => key === "FaultCodes" && faultBits.length > 0;
+  const activeFaults = String(values.FaultCodes ?? "")
+    .split(",")
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(Number);
+
+  const setValue = (key: string, value: string | number) => {
+    setValues(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleFault = (bit: number, checked: boolean) => {
+    const next = checked ? [...activeFaults, bit] : activeFaults.filter(item => item !== bit);
+    setValue("FaultCodes", [...new Set(next)].sort((a, b) => b - a).join(", "));
+  };
+
+  const handleRandomize = () => {
+    const sample = generateSyntheticData(decoder.logicId);
+    if (sample) setValues(sample);
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(encoded.payload);
+    toast({ title: "Copied", description: "Payload copied to clipboard" });
+  };
+
+  const handlePush = async () => {
+    try {
+      setPushing(true);
+      const response = await deviceApi.pushSyntheticReading(deviceId, encoded.payload);
+      if (response.success) {
+        toast({
+          title: "Packet ingested",
+          description: `Stored in ${response.data.table} as entry #${response.data.entryIds[0]}`
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to push packet",
+        variant: "destructive"
+      });
+    } finally {
+      setPushing(false);
+    }
+  };
+
+  const editableFields = decoder.fields.filter(field => !DERIVED_FIELDS.includes(field.key));
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <PenTool className="w-5 h-5" />
+            Compose Test Packet
+          </div>
+          <Button variant="outline" size="sm" onClick={handleRandomize}>
+            <Shuffle className="w-4 h-4 mr-2" />
+            Randomize
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {editableFields.filter(field => !isBitmaskField(field.key)).map(field => (
+            <div key={field.key}>
+              <Label htmlFor={`compose-${field.key}`}>
+                {field.label}{field.unit ? ` (${field.unit})` : ""}
+              </Label>
+              {field.type === "status" ? (
+                <Select
+                  value={String(values[field.key] ?? "Off")}
+                  onValueChange={(value) => setValue(field.key, value)}
+                >
+                  <SelectTrigger id={`compose-${field.key}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="On">On</SelectItem>
+                    <SelectItem value="Off">Off</SelectItem>
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id={`compose-${field.key}`}
+                  value={values[field.key] ?? ""}
+                  onChange={(e) => setValue(field.key, e.target.value)}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        {editableFields.some(field => isBitmaskField(field.key)) && (
+          <div>
+            <Label className="mb-2 block">Active Faults</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-2">
+              {faultBits.map(({ bit, name }) => (
+                <label key={bit} className="flex items-center gap-2 text-xs">
+                  <Checkbox
+                    checked={activeFaults.includes(bit)}
+                    onCheckedChange={(checked) => toggleFault(bit, checked === true)}
+                  />
+                  <span>{bit}: {name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Generated Payload:</span>
+            {!encoded.success ? (
+              <Badge variant="destructive">Cannot encode</Badge>
+            ) : decoded?.success && mismatches.length === 0 ? (
+              <Badge variant="default" className="flex items-center gap-1">
+                <CheckCircle className="w-3 h-3" />
+                Round-trip OK
+              </Badge>
+            ) : (
+              <Badge variant="destructive" className="flex items-center gap-1">
+                <XCircle className="w-3 h-3" />
+                Round-trip mismatch
+              </Badge>
+            )}
+          </div>
+          <div className="bg-muted/30 p-4 rounded-lg">
+            <p className="font-mono text-sm break-all leading-relaxed">
+              {encoded.success ? encoded.payload : encoded.error}
+            </p>
+            {encoded.success && encoded.hex !== encoded.payload && (
+              <p className="font-mono text-xs text-muted-foreground mt-2">Hex frame: {encoded.hex}</p>
+            )}
+          </div>
+          {mismatches.length > 0 && (
+            <ul className="text-xs text-destructive space-y-1">
+              {mismatches.map(mismatch => (
+                <li key={mismatch.field}>
+                  {mismatch.field}: composed {String(mismatch.stored)}, decoded {String(mismatch.decoded)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handleCopy} disabled={!encoded.success}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copy Payload
+          </Button>
+          {canPush && (
+            <Button onClick={handlePush} disabled={!encoded.success || mismatches.length > 0 || pushing}>
+              {pushing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+              Push to Ingestion
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
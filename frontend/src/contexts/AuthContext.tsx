@@ -1,20 +1,27 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { authApi, AuthManager } from '@/services/api';
-
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  role: string;
-  clientId?: string;
+import { authApi, AuthManager, AuthUser } from '@/services/api';
+
+type User = AuthUser;
+
+// Second login step still to complete when two-factor authentication applies
+export interface TwoFactorChallenge {
+  type: 'verify' | 'setup';
+  challengeToken: string;
 }
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
-  register: (name: string, email: string, password: string, role?: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<TwoFactorChallenge | null>;
+  verifyTwoFactor: (challengeToken: string, credentials: { code: string } | { recoveryCode: string }) => Promise<void>;
+  completeSignIn: (user: User) => void;
+  register: (
+    name: string,
+    email: string,
+    password: string,
+    inviteToken?: string
+  ) => Promise<{ pending: boolean; challenge: TwoFactorChallenge | null }>;
   logout: () => Promise<void>;
   updateUser: (userData: Partial<User>) => void;
 }
@@ -70,13 +77,20 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkAuthStatus();
   }, []);
 
-  const login = async (email: string, password: string): Promise<void> => {
+  const login = async (email: string, password: string): Promise<TwoFactorChallenge | null> => {
     try {
       setIsLoading(true);
       const response = await authApi.login(email, password);
       
+      if ('twoFactorRequired' in response) {
+        return { type: 'verify', challengeToken: response.challengeToken };
+      }
+      if ('twoFactorSetupRequired' in response) {
+        return { type: 'setup', challengeToken: response.challengeToken };
+      }
       if (response.user) {
         setUser(response.user);
+        return null;
       } else {
         throw new Error('Login response missing user data');
       }
@@ -88,18 +102,40 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const verifyTwoFactor = async (
+    challengeToken: string,
+    credentials: { code: string } | { recoveryCode: string }
+  ): Promise<void> => {
+    const response = await authApi.verifyTwoFactor(challengeToken, credentials);
+    setUser(response.user);
+  };
+
+  // For sign-ins finished outside login(), e.g. after mandatory 2FA enrollment
+  const completeSignIn = (signedInUser: User) => {
+    setUser(signedInUser);
+  };
+
   const register = async (
     name: string, 
     email: string, 
     password: string, 
-    role?: string
-  ): Promise<void> => {
+    inviteToken?: string
+  ): Promise<{ pending: boolean; challenge: TwoFactorChallenge | null }> => {
     try {
       setIsLoading(true);
-      const response = await authApi.register(name, email, password, role);
+      const response = await authApi.register(name, email, password, inviteToken);
       
+      // Sign-ups without an invitation wait for an admin and aren't signed in
+      if (response.pending) {
+        return { pending: true, challenge: null };
+      }
+      // Invited into a role that requires 2FA: enrollment comes before the first session
+      if (response.twoFactorSetupRequired && response.challengeToken) {
+        return { pending: false, challenge: { type: 'setup', challengeToken: response.challengeToken } };
+      }
       if (response.user) {
         setUser(response.user);
+        return { pending: false, challenge: null };
       } else {
         throw new Error('Registration response missing user data');
       }
@@ -127,6 +163,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isAuthenticated,
     isLoading,
     login,
+    verifyTwoFactor,
+    completeSignIn,
     register,
     logout,
     updateUser
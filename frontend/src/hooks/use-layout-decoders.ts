@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react"
+import { loadLayoutDecoders } from "@/services/payloadLayouts"
+
+// Resolves once admin-defined layout decoders are registered (or failed to load)
+export function useLayoutDecoders() {
+  const [ready, setReady] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    loadLayoutDecoders().finally(() => {
+      if (!cancelled) setReady(true)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return ready
+}
@@ -3,14 +3,19 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Settings, Users, Database, Shield, Activity, Building2, HardDrive, TrendingUp, Loader2, Globe } from "lucide-react";
+import { Settings, Users, Database, Shield, Activity, Building2, HardDrive, TrendingUp, Loader2, Globe, Binary, Bell, Send } from "lucide-react";
 import { UserManagement } from "@/components/admin/UserManagement";
+import { UserInvitations } from "@/components/admin/UserInvitations";
 import { ClientManagement } from "@/components/admin/ClientManagement";
 import { DeviceManagement } from "@/components/admin/DeviceManagement";
 import { SessionManagement } from "@/components/admin/SessionManagement";
 import RoleManagement from "@/components/admin/RoleManagement";
+import { TwoFactorPolicy } from "@/components/admin/TwoFactorPolicy";
 import { DeviceConfigManagement } from "@/components/DeviceConfig/DeviceConfigManagement";
 import { UniversalCommunicationConfig } from "@/components/admin/UniversalCommunicationConfig";
+import { PayloadLayoutManagement } from "@/components/admin/PayloadLayoutManagement";
+import { AlertRuleManagement } from "@/components/admin/AlertRuleManagement";
+import { NotificationChannelManagement } from "@/components/admin/NotificationChannelManagement";
 import { adminApi } from "@/services/api";
 import { useToast } from "@/hooks/use-toast";
 
@@ -50,7 +55,7 @@ export const Admin = () => {
         </div>
 
         <Tabs defaultValue="users" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-7">
+          <TabsList className="grid w-full grid-cols-10">
             <TabsTrigger value="users" className="flex items-center space-x-2">
               <Users className="h-4 w-4" />
               <span>User Management</span>
@@ -79,14 +84,28 @@ export const Admin = () => {
               <Globe className="h-4 w-4" />
               <span>Universal Communication</span>
             </TabsTrigger>
+            <TabsTrigger value="payload-layouts" className="flex items-center space-x-2">
+              <Binary className="h-4 w-4" />
+              <span>Payload Layouts</span>
+            </TabsTrigger>
+            <TabsTrigger value="alert-rules" className="flex items-center space-x-2">
+              <Bell className="h-4 w-4" />
+              <span>Alert Rules</span>
+            </TabsTrigger>
+            <TabsTrigger value="notification-channels" className="flex items-center space-x-2">
+              <Send className="h-4 w-4" />
+              <span>Notifications</span>
+            </TabsTrigger>
           </TabsList>
 
-          <TabsContent value="users">
+          <TabsContent value="users" className="space-y-6">
             <UserManagement />
+            <UserInvitations />
           </TabsContent>
 
-          <TabsContent value="roles">
+          <TabsContent value="roles" className="space-y-6">
             <RoleManagement />
+            <TwoFactorPolicy />
           </TabsContent>
 
           <TabsContent value="sessions">
@@ -108,6 +127,18 @@ export const Admin = () => {
           <TabsContent value="universal-comm">
             <UniversalCommunicationConfig />
           </TabsContent>
+
+          <TabsContent value="payload-layouts">
+            <PayloadLayoutManagement />
+          </TabsContent>
+
+          <TabsContent value="alert-rules">
+            <AlertRuleManagement />
+          </TabsContent>
+
+          <TabsContent value="notification-channels">
+            <NotificationChannelManagement />
+          </TabsContent>
         </Tabs>
 
         {/* System Statistics Overview */}
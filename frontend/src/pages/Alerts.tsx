@@ -0,0 +1,509 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Bell,
+  BellRing,
+  CheckCircle,
+  Eye,
+  History,
+  Loader2,
+  Mail,
+  RefreshCw,
+  Repeat,
+  Search,
+  ExternalLink
+} from "lucide-react";
+import {
+  alertApi,
+  Alert,
+  AlertSeverity,
+  AlertStatus,
+  AlertTimeline,
+  AlertTimelineEvent
+} from "@/services/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+const PAGE_SIZE = 25;
+
+const severityVariant = (severity: AlertSeverity) =>
+  severity === 'critical' ? "destructive" : severity === 'warning' ? "default" : "secondary";
+
+const statusVariant = (status: AlertStatus) =>
+  status === 'active' ? "destructive" : status === 'acknowledged' ? "default" : "outline";
+
+const timelineIcons: Record<AlertTimelineEvent['type'], typeof Bell> = {
+  created: BellRing,
+  retriggered: Repeat,
+  notification: Mail,
+  acknowledged: Eye,
+  resolved: CheckCircle
+};
+
+// Motor devices report into IoT_Data_Sick_Test; everything else uses the standard troubleshoot page
+const troubleshootPath = (alert: Alert, table: string, entryId: number) =>
+  table === 'IoT_Data_Sick_Test'
+    ? `/motor-device/${alert.deviceId}/troubleshoot/${entryId}`
+    : `/device/${alert.deviceId}/troubleshoot/${entryId}`;
+
+export const Alerts = () => {
+  const { user } = useAuth();
+  const canManage = user?.role === 'admin' || user?.role === 'user';
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string>('active');
+  const [severityFilter, setSeverityFilter] = useState<string>('all');
+  const [deviceInput, setDeviceInput] = useState('');
+  const [deviceFilter, setDeviceFilter] = useState('');
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [acknowledging, setAcknowledging] = useState(false);
+  const [resolvingAlert, setResolvingAlert] = useState<Alert | null>(null);
+  const [resolution, setResolution] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [timelineAlert, setTimelineAlert] = useState<Alert | null>(null);
+  const [timeline, setTimeline] = useState<AlertTimeline | null>(null);
+  const { toast } = useToast();
+
+  const fetchAlerts = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await alertApi.getAll({
+        status: statusFilter !== 'all' ? statusFilter : undefined,
+        severity: severityFilter !== 'all' ? severityFilter : undefined,
+        deviceId: deviceFilter || undefined,
+        page,
+        limit: PAGE_SIZE
+      });
+      if (response.success) {
+        setAlerts(response.data);
+        setPages(Math.max(response.pagination.pages, 1));
+        setTotal(response.pagination.total);
+        setSelectedIds([]);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load alerts",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, severityFilter, deviceFilter, page, toast]);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  const applyFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const handleDeviceSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setDeviceFilter(deviceInput.trim());
+    setPage(1);
+  };
+
+  const selectableIds = alerts.filter(alert => alert.status === 'active').map(alert => alert.id);
+  const allSelected = selectableIds.length > 0 && selectableIds.every(id => selectedIds.includes(id));
+
+  const toggleSelected = (alertId: number, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, alertId] : prev.filter(id => id !== alertId));
+  };
+
+  const handleAcknowledge = async (alertIds: number[]) => {
+    try {
+      setAcknowledging(true);
+      if (alertIds.length === 1) {
+        await alertApi.acknowledge(alertIds[0]);
+        toast({
+          title: "Success",
+          description: "Alert acknowledged"
+        });
+      } else {
+        const response = await alertApi.acknowledgeMany(alertIds);
+        toast({
+          title: "Success",
+          description: response.data.skipped.length > 0
+            ? `${response.data.acknowledged.length} acknowledged, ${response.data.skipped.length} were no longer active`
+            : `${response.data.acknowledged.length} alerts acknowledged`
+        });
+      }
+      fetchAlerts();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to acknowledge alerts",
+        variant: "destructive"
+      });
+    } finally {
+      setAcknowledging(false);
+    }
+  };
+
+  const openResolveDialog = (alert: Alert) => {
+    setResolvingAlert(alert);
+    setResolution('');
+  };
+
+  const handleResolve = async () => {
+    if (!resolvingAlert) return;
+
+    try {
+      setSubmitting(true);
+      await alertApi.resolve(resolvingAlert.id, resolution.trim() || undefined);
+      toast({
+        title: "Success",
+        description: "Alert resolved"
+      });
+      setResolvingAlert(null);
+      if (timelineAlert?.id === resolvingAlert.id) {
+        openTimeline(resolvingAlert);
+      }
+      fetchAlerts();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to resolve alert",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openTimeline = async (alert: Alert) => {
+    setTimelineAlert(alert);
+    setTimeline(null);
+    try {
+      const response = await alertApi.getTimeline(alert.id);
+      if (response.success) {
+        setTimeline(response.data);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load alert timeline",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Alerts</h1>
+          <p className="text-muted-foreground">Review, acknowledge and resolve device alerts</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center space-x-2">
+                <Bell className="h-5 w-5" />
+                <span>Alert Inbox</span>
+                <Badge variant="secondary">{total}</Badge>
+              </CardTitle>
+              <div className="flex items-center space-x-2">
+                {canManage && (
+                  <Button
+                    onClick={() => handleAcknowledge(selectedIds)}
+                    disabled={selectedIds.length === 0 || acknowledging}
+                  >
+                    {acknowledging ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                    Acknowledge Selected{selectedIds.length > 0 ? ` (${selectedIds.length})` : ''}
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={fetchAlerts} disabled={loading}>
+                  <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4 pt-2">
+              <div>
+                <Label>Status</Label>
+                <Select value={statusFilter} onValueChange={applyFilter(setStatusFilter)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Statuses</SelectItem>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="acknowledged">Acknowledged</SelectItem>
+                    <SelectItem value="resolved">Resolved</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Severity</Label>
+                <Select value={severityFilter} onValueChange={applyFilter(setSeverityFilter)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Severities</SelectItem>
+                    <SelectItem value="critical">Critical</SelectItem>
+                    <SelectItem value="warning">Warning</SelectItem>
+                    <SelectItem value="info">Info</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <form onSubmit={handleDeviceSearch}>
+                <Label htmlFor="alertDeviceFilter">Device</Label>
+                <div className="flex space-x-2">
+                  <Input
+                    id="alertDeviceFilter"
+                    placeholder="Device ID"
+                    value={deviceInput}
+                    onChange={(e) => setDeviceInput(e.target.value)}
+                  />
+                  <Button type="submit" variant="outline">
+                    <Search className="h-4 w-4" />
+                  </Button>
+                </div>
+              </form>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading && alerts.length === 0 ? (
+              <div className="flex items-center justify-center h-32">
+                <Loader2 className="h-8 w-8 animate-spin" />
+              </div>
+            ) : alerts.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No alerts match these filters.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {canManage && (
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={allSelected}
+                          disabled={selectableIds.length === 0}
+                          onCheckedChange={(checked) => setSelectedIds(checked === true ? selectableIds : [])}
+                        />
+                      </TableHead>
+                    )}
+                    <TableHead>Severity</TableHead>
+                    <TableHead>Alert</TableHead>
+                    <TableHead>Device</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Raised</TableHead>
+                    <TableHead>Triggers</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {alerts.map(alert => (
+                    <TableRow key={alert.id}>
+                      {canManage && (
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.includes(alert.id)}
+                            disabled={alert.status !== 'active'}
+                            onCheckedChange={(checked) => toggleSelected(alert.id, checked === true)}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <Badge variant={severityVariant(alert.severity)} className="capitalize">{alert.severity}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-[320px]">
+                        <div className="font-medium">{alert.title}</div>
+                        {alert.description && (
+                          <div className="text-xs text-muted-foreground truncate" title={alert.description}>
+                            {alert.description}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-mono text-sm">{alert.deviceId}</div>
+                        {alert.clientId && <div className="text-xs text-muted-foreground">Client {alert.clientId}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariant(alert.status)} className="capitalize">{alert.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{new Date(alert.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>{alert.triggerCount}</TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        <Button size="sm" variant="outline" onClick={() => openTimeline(alert)}>
+                          <History className="h-4 w-4" />
+                        </Button>
+                        {canManage && alert.status === 'active' && (
+                          <Button size="sm" variant="outline" onClick={() => handleAcknowledge([alert.id])} disabled={acknowledging}>
+                            Acknowledge
+                          </Button>
+                        )}
+                        {canManage && alert.status !== 'resolved' && (
+                          <Button size="sm" variant="outline" onClick={() => openResolveDialog(alert)}>
+                            Resolve
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {pages > 1 && (
+              <div className="flex items-center justify-between pt-4">
+                <p className="text-sm text-muted-foreground">Page {page} of {pages}</p>
+                <div className="space-x-2">
+                  <Button size="sm" variant="outline" onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+                    Previous
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setPage(page + 1)} disabled={page >= pages || loading}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!resolvingAlert} onOpenChange={(open) => !open && setResolvingAlert(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve Alert</DialogTitle>
+            <DialogDescription>
+              {resolvingAlert?.title} on {resolvingAlert?.deviceId}
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="alertResolution">Resolution Notes</Label>
+            <Textarea
+              id="alertResolution"
+              placeholder="What was done to fix the problem?"
+              maxLength={500}
+              rows={4}
+              value={resolution}
+              onChange={(e) => setResolution(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground mt-1">{resolution.length}/500</p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolvingAlert(null)}>Cancel</Button>
+            <Button onClick={handleResolve} disabled={submitting}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Resolve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!timelineAlert} onOpenChange={(open) => !open && setTimelineAlert(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Alert #{timelineAlert?.id}: {timelineAlert?.title}</DialogTitle>
+            <DialogDescription>
+              {timelineAlert?.deviceId}{timelineAlert?.clientId ? ` (client ${timelineAlert.clientId})` : ''}
+            </DialogDescription>
+          </DialogHeader>
+          {!timeline ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {timeline.triggerEntry && (
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" variant="outline" asChild>
+                    <Link to={troubleshootPath(timeline.alert, timeline.triggerEntry.table, timeline.triggerEntry.entryId)}>
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      Triggering entry #{timeline.triggerEntry.entryId}
+                    </Link>
+                  </Button>
+                  {timeline.triggerEntry.lastEntryId !== timeline.triggerEntry.entryId && (
+                    <Button size="sm" variant="outline" asChild>
+                      <Link to={troubleshootPath(timeline.alert, timeline.triggerEntry.table, timeline.triggerEntry.lastEntryId)}>
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        Latest trigger #{timeline.triggerEntry.lastEntryId}
+                      </Link>
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              <ol className="relative border-l ml-3 space-y-4">
+                {timeline.events.map((event, index) => {
+                  const Icon = timelineIcons[event.type] || Bell;
+                  return (
+                    <li key={index} className="ml-6">
+                      <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-muted">
+                        <Icon className="h-3 w-3" />
+                      </span>
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{event.title}</span>
+                        <span className="text-xs text-muted-foreground">{new Date(event.at).toLocaleString()}</span>
+                      </div>
+                      {event.actor && <p className="text-sm text-muted-foreground">by {event.actor}</p>}
+                      {event.detail && <p className="text-sm">{event.detail}</p>}
+                      {event.entryId && timeline.triggerEntry && (
+                        <Link
+                          to={troubleshootPath(timeline.alert, timeline.triggerEntry.table, event.entryId)}
+                          className="text-xs text-primary hover:underline"
+                        >
+                          View entry #{event.entryId}
+                        </Link>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+
+              {canManage && timeline.alert.status !== 'resolved' && (
+                <DialogFooter>
+                  {timeline.alert.status === 'active' && (
+                    <Button
+                      variant="outline"
+                      onClick={async () => {
+                        await handleAcknowledge([timeline.alert.id]);
+                        openTimeline(timeline.alert);
+                      }}
+                      disabled={acknowledging}
+                    >
+                      Acknowledge
+                    </Button>
+                  )}
+                  <Button onClick={() => openResolveDialog(timeline.alert)}>Resolve</Button>
+                </DialogFooter>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -8,6 +8,10 @@ import { ArrowLeft, AlertTriangle, Activity, Zap, Loader2, Settings, Wrench } fr
 import { deviceApi } from "@/services/api";
 import { HistoricDataTable } from "@/components/dashboard/HistoricDataTable";
 import { ApiKeyViewer } from "@/components/admin/ApiKeyViewer";
+import { DecodedFieldsCard } from "@/components/dashboard/DecodedFieldsCard";
+import { ConfigSyncCard } from "@/components/dashboard/ConfigSyncCard";
+import { getDecoder } from "@/services/hexConversion";
+import { useLayoutDecoders } from "@/hooks/use-layout-decoders";
 import { Device } from "@/types/device";
 
 export const DeviceDetail = () => {
@@ -19,6 +23,7 @@ export const DeviceDetail = () => {
   const [historicData, setHistoricData] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  useLayoutDecoders(); // re-render once layout decoders are registered so the logic name resolves
 
   useEffect(() => {
     const fetchDeviceData = async () => {
@@ -52,7 +57,7 @@ export const DeviceDetail = () => {
             name: apiDevice.name,
             channelId: apiDevice.channelId,
             clientId: apiDevice.clientId,
-            apiKey: apiDevice.apiKey,
+            configSync: apiDevice.configSync,
             conversionLogicID: apiDevice.conversionLogicID,
             
             // Latest data
@@ -226,7 +231,10 @@ export const DeviceDetail = () => {
               </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Conversion Logic:</span>
-                <span className="font-medium">{device.conversionLogicID}</span>
+                <span className="font-medium">
+                  {device.conversionLogicID}
+                  {getDecoder(device.conversionLogicID) && ` (${getDecoder(device.conversionLogicID).name})`}
+                </span>
               </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Record Time:</span>
@@ -372,6 +380,13 @@ export const DeviceDetail = () => {
             </CardContent>
           </Card>
 
+          {/* Decoded Payload Card */}
+          <DecodedFieldsCard
+            className="lg:col-span-3"
+            hexField={displayData.hexField}
+            conversionLogicId={device.conversionLogicID}
+          />
+
           {/* Technical Details Card */}
           <Card className="lg:col-span-3">
             <CardHeader>
@@ -383,8 +398,8 @@ export const DeviceDetail = () => {
                   <h4 className="font-medium text-sm">Device Configuration</h4>
                   <div className="text-sm space-y-2">
                     <div className="flex justify-between">
-                      <span className="text-muted-foreground">API Key:</span>
-                      <span className="font-mono text-xs">{device.apiKey || "Not configured"}</span>
+                      <span className="text-muted-foreground">Firmware:</span>
+                      <span className="font-medium">{device.configSync?.firmwareVersion || "Unknown"}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Entry ID:</span>
@@ -455,36 +470,8 @@ export const DeviceDetail = () => {
                   }}
                 />
                 
-                {/* Device Configuration Card - Placeholder for future features */}
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <Settings className="h-5 w-5" />
-                      Device Configuration
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <div className="space-y-3">
-                      <div className="flex justify-between">
-                        <span className="text-muted-foreground">Configuration Version:</span>
-                        <Badge variant="outline">v1.0.0</Badge>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-muted-foreground">Last Updated:</span>
-                        <span className="text-sm">Not configured</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-muted-foreground">Status:</span>
-                        <Badge variant="secondary">Default</Badge>
-                      </div>
-                    </div>
-                    <div className="pt-4 border-t">
-                      <p className="text-sm text-muted-foreground">
-                        Device configuration management will be available in Phase 5 implementation.
-                      </p>
-                    </div>
-                  </CardContent>
-                </Card>
+                {/* Running configuration reported by the device vs its active config */}
+                <ConfigSyncCard deviceId={deviceId!} configSync={device.configSync} />
               </div>
             </TabsContent>
           </Tabs>
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Navigate, Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { authApi } from '@/services/api';
+
+const ForgotPassword = () => {
+  const { isAuthenticated } = useAuth();
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Redirect if already authenticated
+  if (isAuthenticated) {
+    return <Navigate to="/" replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const response = await authApi.forgotPassword(email);
+      setSentMessage(response.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request password reset. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted/20 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="w-12 h-12 bg-gradient-to-r from-primary to-primary-glow rounded-lg flex items-center justify-center mx-auto mb-4">
+            <span className="text-white font-bold text-lg">IoT</span>
+          </div>
+          <CardTitle className="text-2xl">Forgot Password</CardTitle>
+          <CardDescription>
+            We'll email you a link to choose a new password
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sentMessage ? (
+            <Alert>
+              <AlertDescription>{sentMessage}</AlertDescription>
+            </Alert>
+          ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <Alert className="border-destructive/50 text-destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                name="email"
+                type="email"
+                placeholder="Enter your email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending link...
+                </>
+              ) : (
+                'Send Reset Link'
+              )}
+            </Button>
+          </form>
+          )}
+
+          <div className="mt-6 text-center text-sm">
+            <span className="text-muted-foreground">Remembered it? </span>
+            <Link
+              to="/login"
+              className="text-primary hover:underline font-medium"
+            >
+              Sign in here
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ForgotPassword;
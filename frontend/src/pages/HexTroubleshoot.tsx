@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,10 +11,14 @@ import {
   XCircle,
   AlertCircle,
   Info,
-  Loader2
+  Loader2,
+  PenTool
 } from "lucide-react";
 import { deviceApi, motorApi } from "@/services/api";
-import { convertHexData, ConversionResult, ConversionStep, DecodedData } from "@/services/hexConversion";
+import { useLayoutDecoders } from "@/hooks/use-layout-decoders";
+import { useAuth } from "@/contexts/AuthContext";
+import { PacketComposer } from "@/components/dashboard/PacketComposer";
+import { convertHexData, formatDecodedValue, getDecoder, ConversionResult, ConversionStep } from "@/services/hexConversion";
 
 interface DeviceData {
   deviceId: string;
@@ -34,7 +38,11 @@ export const HexTroubleshoot = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isMotorDevice, setIsMotorDevice] = useState(false);
+  const [composeMode, setComposeMode] = useState(false);
+  const [composedPayload, setComposedPayload] = useState<string | null>(null);
   const fetchingRef = useRef(false);
+  const layoutsReady = useLayoutDecoders();
+  const { user } = useAuth();
 
   // Detect if this is a motor device based on the URL path
   useEffect(() => {
@@ -91,7 +99,7 @@ export const HexTroubleshoot = () => {
             if (targetData) {
               const deviceData = {
                 deviceId: apiDevice.deviceId,
-                conversionLogicID: 2, // Motor devices use P2 logic for SICK sensor data
+                conversionLogicID: apiDevice.conversionLogicID ?? 2, // Motor readings are P2 only; fall back when the device row has none
                 hexField: targetData.hexField || "",
                 entryId: targetData.entryId || 0,
                 createdAt: targetData.createdAt || targetData.timestamp || new Date().toISOString(),
@@ -122,7 +130,7 @@ export const HexTroubleshoot = () => {
             if (targetData) {
               setDeviceData({
                 deviceId: apiDevice.id,
-                conversionLogicID: apiDevice.conversionLogicID || 1, // IoT devices typically use P1 logic
+                conversionLogicID: apiDevice.conversionLogicID,
                 hexField: targetData.hexField || "",
                 entryId: targetData.entryId || 0,
                 createdAt: targetData.timestamp || new Date().toISOString(),
@@ -149,13 +157,13 @@ export const HexTroubleshoot = () => {
     fetchDeviceData();
   }, [deviceId, entryId, isMotorDevice]);
 
-  // Perform hex conversion when device data is available
+  // Perform hex conversion when device data and layout decoders are available
   useEffect(() => {
-    if (deviceData) {
+    if (deviceData && layoutsReady) {
       const result = convertHexData(deviceData.hexField, deviceData.conversionLogicID);
       setConversionResult(result);
     }
-  }, [deviceData]);
+  }, [deviceData, layoutsReady]);
 
   const handleGoBack = () => {
     const basePath = isMotorDevice ? '/motor-device' : '/device';
@@ -163,24 +171,28 @@ export const HexTroubleshoot = () => {
   };
 
   const getStepIcon = (step: ConversionStep, index: number, totalSteps: number) => {
-    if (conversionResult?.success === false && index === totalSteps - 1) {
+    if (displayedResult?.success === false && index === totalSteps - 1) {
       return <XCircle className="w-5 h-5 text-red-500" />;
     }
     return <CheckCircle className="w-5 h-5 text-green-500" />;
   };
 
-  const getLogicTypeBadge = (logicType: string) => {
-    switch (logicType) {
-      case 'P1':
-        return <Badge variant="default">P1 Logic - Fault Data</Badge>;
-      case 'P2':
-        return <Badge variant="secondary">P2 Logic - SICK Sensor Data</Badge>;
-      default:
-        return <Badge variant="outline">Unknown Logic</Badge>;
+  const decoder = deviceData ? getDecoder(deviceData.conversionLogicID) : null;
+
+  // In compose mode the steps and results below follow the composed packet
+  const displayedResult = useMemo(() => {
+    if (!composeMode) return conversionResult;
+    return composedPayload && deviceData ? convertHexData(composedPayload, deviceData.conversionLogicID) : null;
+  }, [composeMode, composedPayload, conversionResult, deviceData]);
+
+  const getLogicTypeBadge = () => {
+    if (!decoder) {
+      return <Badge variant="outline">Unknown Logic</Badge>;
     }
+    return <Badge variant="default">{decoder.logicType} Logic - {decoder.name}</Badge>;
   };
 
-  if (loading) {
+  if (loading || !layoutsReady) {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="flex items-center justify-center min-h-[400px]">
@@ -231,137 +243,160 @@ export const HexTroubleshoot = () => {
           <Wrench className="w-5 h-5 text-primary" />
           <h1 className="text-2xl font-bold">Hex Data Troubleshooting</h1>
         </div>
+        {decoder?.encode && (
+          <Button
+            variant={composeMode ? "default" : "outline"}
+            className="ml-auto"
+            onClick={() => setComposeMode(!composeMode)}
+          >
+            <PenTool className="w-4 h-4 mr-2" />
+            {composeMode ? "Back to Decode" : "Compose Packet"}
+          </Button>
+        )}
       </div>
 
+      {/* Packet Composer */}
+      {composeMode && decoder && (
+        <PacketComposer
+          deviceId={deviceData.deviceId}
+          decoder={decoder}
+          initialData={conversionResult.success ? conversionResult.decodedData : undefined}
+          canPush={user?.role === 'admin'}
+          onPayloadChange={setComposedPayload}
+        />
+      )}
+
       {/* Raw Data Overview */}
-      <Card className="mb-6">
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Info className="w-5 h-5" />
-            Raw Data Overview
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <div className="space-y-4">
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Device ID:</span>
-                <span className="font-medium">{deviceData.deviceId}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Entry ID:</span>
-                <span className="font-medium">#{deviceData.entryId}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Timestamp:</span>
-                <span className="font-medium text-sm">
-                  {new Date(deviceData.createdAt).toLocaleString()}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Data Length:</span>
-                <span className="font-medium">{deviceData.hexField.length} characters</span>
-              </div>
-              <div className="flex justify-between items-center">
-                <span className="text-muted-foreground">Conversion Logic:</span>
-                <div className="flex items-center gap-2">
-                  <span className="font-medium">{deviceData.conversionLogicID}</span>
-                  {getLogicTypeBadge(conversionResult.logicType)}
+      {!composeMode && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Info className="w-5 h-5" />
+              Raw Data Overview
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-4">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Device ID:</span>
+                  <span className="font-medium">{deviceData.deviceId}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Entry ID:</span>
+                  <span className="font-medium">#{deviceData.entryId}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Timestamp:</span>
+                  <span className="font-medium text-sm">
+                    {new Date(deviceData.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Data Length:</span>
+                  <span className="font-medium">{deviceData.hexField.length} characters</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Conversion Logic:</span>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{deviceData.conversionLogicID}</span>
+                    {getLogicTypeBadge()}
+                  </div>
                 </div>
               </div>
-            </div>
-            <div className="space-y-2">
-              <span className="text-sm font-medium">Raw Hex Data:</span>
-              <div className="bg-muted/30 p-4 rounded-lg">
-                <p className="font-mono text-sm break-all leading-relaxed">
-                  {deviceData.hexField || "No hex data available"}
-                </p>
+              <div className="space-y-2">
+                <span className="text-sm font-medium">Raw Hex Data:</span>
+                <div className="bg-muted/30 p-4 rounded-lg">
+                  <p className="font-mono text-sm break-all leading-relaxed">
+                    {deviceData.hexField || "No hex data available"}
+                  </p>
+                </div>
               </div>
             </div>
-          </div>
 
-          {/* Conversion Status */}
-          <Separator className="my-4" />
-          <div className="flex items-center gap-2">
-            {conversionResult.success ? (
-              <CheckCircle className="w-5 h-5 text-green-500" />
-            ) : (
-              <XCircle className="w-5 h-5 text-red-500" />
-            )}
-            <span className="font-medium">
-              Conversion {conversionResult.success ? "Successful" : "Failed"}
-            </span>
-            {conversionResult.error && (
-              <span className="text-red-500 text-sm ml-2">
-                {conversionResult.error}
+            {/* Conversion Status */}
+            <Separator className="my-4" />
+            <div className="flex items-center gap-2">
+              {conversionResult.success ? (
+                <CheckCircle className="w-5 h-5 text-green-500" />
+              ) : (
+                <XCircle className="w-5 h-5 text-red-500" />
+              )}
+              <span className="font-medium">
+                Conversion {conversionResult.success ? "Successful" : "Failed"}
               </span>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+              {conversionResult.error && (
+                <span className="text-red-500 text-sm ml-2">
+                  {conversionResult.error}
+                </span>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Step-by-Step Conversion Process */}
-      <Card className="mb-6">
-        <CardHeader>
-          <CardTitle>Step-by-Step Conversion Process</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {conversionResult.steps.map((step, index) => (
-              <div key={step.step} className="border rounded-lg p-4">
-                <div className="flex items-start gap-3">
-                  {getStepIcon(step, index, conversionResult.steps.length)}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-3 mb-2">
-                      <span className="font-semibold text-sm">Step {step.step}</span>
-                      <span className="text-sm font-medium">{step.description}</span>
-                    </div>
+      {displayedResult && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Step-by-Step Conversion Process</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {displayedResult.steps.map((step, index) => (
+                <div key={step.step} className="border rounded-lg p-4">
+                  <div className="flex items-start gap-3">
+                    {getStepIcon(step, index, displayedResult.steps.length)}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-3 mb-2">
+                        <span className="font-semibold text-sm">Step {step.step}</span>
+                        <span className="text-sm font-medium">{step.description}</span>
+                      </div>
 
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                      <div>
-                        <span className="text-muted-foreground font-medium block mb-1">Input:</span>
-                        <div className="bg-blue-50 dark:bg-blue-950/20 p-2 rounded font-mono text-xs break-all">
-                          {step.input}
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                        <div>
+                          <span className="text-muted-foreground font-medium block mb-1">Input:</span>
+                          <div className="bg-blue-50 dark:bg-blue-950/20 p-2 rounded font-mono text-xs break-all">
+                            {step.input}
+                          </div>
                         </div>
-                      </div>
-                      <div>
-                        <span className="text-muted-foreground font-medium block mb-1">Output:</span>
-                        <div className="bg-green-50 dark:bg-green-950/20 p-2 rounded font-mono text-xs break-all">
-                          {step.output}
+                        <div>
+                          <span className="text-muted-foreground font-medium block mb-1">Output:</span>
+                          <div className="bg-green-50 dark:bg-green-950/20 p-2 rounded font-mono text-xs break-all">
+                            {step.output}
+                          </div>
                         </div>
                       </div>
-                    </div>
 
-                    {step.notes && (
-                      <div className="mt-3 p-2 bg-muted/30 rounded text-xs text-muted-foreground">
-                        <strong>Notes:</strong> {step.notes}
-                      </div>
-                    )}
+                      {step.notes && (
+                        <div className="mt-3 p-2 bg-muted/30 rounded text-xs text-muted-foreground">
+                          <strong>Notes:</strong> {step.notes}
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Final Decoded Results */}
-      {conversionResult.success && Object.keys(conversionResult.decodedData).length > 0 && (
+      {displayedResult?.success && Object.keys(displayedResult.decodedData).length > 0 && (
         <Card>
           <CardHeader>
             <CardTitle>Final Decoded Results</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {Object.entries(conversionResult.decodedData).map(([key, value]) => (
-                <Card key={key} className="bg-gradient-to-br from-background to-muted/20">
+              {decoder?.fields.map(field => (
+                <Card key={field.key} className="bg-gradient-to-br from-background to-muted/20">
                   <CardContent className="p-4">
                     <div className="text-center">
-                      <p className="text-sm text-muted-foreground mb-1">
-                        {key.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
-                      </p>
+                      <p className="text-sm text-muted-foreground mb-1">{field.label}</p>
                       <p className="text-lg font-semibold">
-                        {typeof value === 'number' ? value.toLocaleString() : String(value)}
+                        {formatDecodedValue(field, displayedResult.decodedData[field.key], decoder)}
                       </p>
                     </div>
                   </CardContent>
@@ -38,7 +38,8 @@ const Index = () => {
             hvOutputCurrent_mA: 0, // Not in current API
             hexField: "", // Not in current API
             createdAt: apiDevice.latestData?.timestamp || new Date().toISOString(),
-            deviceId: apiDevice.id
+            deviceId: apiDevice.id,
+            liveness: apiDevice.liveness
           }));
           setDevices(transformedDevices);
         }
@@ -51,25 +52,25 @@ const Index = () => {
               title: "Critical Alerts",
               count: overview.alerts?.critical_alerts || 0,
               severity: "high",
-              description: "Devices with critical system failures"
+              description: "Open critical alerts"
             },
             {
               title: "Warning Alerts", 
               count: overview.alerts?.warning_alerts || 0,
               severity: "medium",
-              description: "Devices with warning conditions"
-            },
-            {
-              title: "Info Alerts",
-              count: overview.alerts?.info_alerts || 0,
-              severity: "low", 
-              description: "Informational alerts"
+              description: "Open warning alerts"
             },
             {
               title: "Online Devices",
               count: overview.devices?.online_devices || 0,
               severity: "low",
-              description: "Devices currently online"
+              description: `${overview.devices?.late_devices || 0} more reporting late`
+            },
+            {
+              title: "Offline Devices",
+              count: overview.devices?.offline_devices || 0,
+              severity: "medium",
+              description: `${overview.devices?.maintenance_devices || 0} more in maintenance`
             }
           ];
           setFaultTiles(tiles);
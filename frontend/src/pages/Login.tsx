@@ -1,15 +1,18 @@
-import { useState } from 'react';
-import { Navigate, Link } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { Navigate, Link, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, Eye, EyeOff } from 'lucide-react';
-import { useAuth } from '@/contexts/AuthContext';
+import { Loader2, Eye, EyeOff, ShieldCheck } from 'lucide-react';
+import { useAuth, TwoFactorChallenge } from '@/contexts/AuthContext';
+import { authApi, AuthUser, TwoFactorEnrollment } from '@/services/api';
+import { EnrollmentDetails, RecoveryCodesList, TotpCodeInput } from '@/components/auth/TwoFactorFields';
 
 const Login = () => {
-  const { login, isAuthenticated, isLoading } = useAuth();
+  const { login, verifyTwoFactor, completeSignIn, isAuthenticated, isLoading } = useAuth();
+  const location = useLocation();
   const [formData, setFormData] = useState({
     email: '',
     password: ''
@@ -17,6 +20,26 @@ const Login = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Second step after the password when two-factor authentication applies
+  // Registration hands over its setup challenge when the invited role requires 2FA
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(
+    (location.state as { challenge?: TwoFactorChallenge } | null)?.challenge ?? null
+  );
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  // Held back until the new recovery codes have been seen
+  const [enrolled, setEnrolled] = useState<{ user: AuthUser; recoveryCodes: string[] } | null>(null);
+
+  // Roles that require 2FA enroll before their first session
+  useEffect(() => {
+    if (challenge?.type !== 'setup') return;
+
+    authApi.startTwoFactorSetup(challenge.challengeToken)
+      .then((response) => setEnrollment(response.data))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to start two-factor setup'));
+  }, [challenge]);
 
   // Redirect if already authenticated
   if (isAuthenticated) {
@@ -29,8 +52,9 @@ const Login = () => {
     setIsSubmitting(true);
 
     try {
-      await login(formData.email, formData.password);
-      // Navigation will happen automatically due to auth state change
+      const nextStep = await login(formData.email, formData.password);
+      setChallenge(nextStep);
+      // Otherwise navigation will happen automatically due to auth state change
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed. Please try again.');
     } finally {
@@ -38,6 +62,43 @@ const Login = () => {
     }
   };
 
+  const submitTwoFactor = async (submittedCode = code) => {
+    if (!challenge) return;
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      if (challenge.type === 'verify') {
+        await verifyTwoFactor(
+          challenge.challengeToken,
+          useRecoveryCode ? { recoveryCode } : { code: submittedCode }
+        );
+      } else {
+        const response = await authApi.confirmTwoFactorSetup(challenge.challengeToken, submittedCode);
+        setEnrolled({ user: response.user, recoveryCodes: response.recoveryCodes });
+      }
+    } catch (err) {
+      setCode('');
+      setError(err instanceof Error ? err.message : 'Verification failed. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleTwoFactorSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitTwoFactor();
+  };
+
+  const restartLogin = () => {
+    setChallenge(null);
+    setEnrollment(null);
+    setCode('');
+    setRecoveryCode('');
+    setUseRecoveryCode(false);
+    setError(null);
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -64,12 +125,103 @@ const Login = () => {
           <div className="w-12 h-12 bg-gradient-to-r from-primary to-primary-glow rounded-lg flex items-center justify-center mx-auto mb-4">
             <span className="text-white font-bold text-lg">IoT</span>
           </div>
-          <CardTitle className="text-2xl">Welcome Back</CardTitle>
+          <CardTitle className="text-2xl">
+            {challenge ? 'Two-Factor Authentication' : 'Welcome Back'}
+          </CardTitle>
           <CardDescription>
-            Sign in to your IoT Dashboard account
+            {!challenge && 'Sign in to your IoT Dashboard account'}
+            {challenge?.type === 'verify' && 'Enter the code from your authenticator app'}
+            {challenge?.type === 'setup' && 'Your role requires two-factor authentication. Set it up to continue.'}
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {enrolled ? (
+            <div className="space-y-4">
+              <Alert>
+                <ShieldCheck className="h-4 w-4" />
+                <AlertDescription>Two-factor authentication is enabled.</AlertDescription>
+              </Alert>
+              <RecoveryCodesList codes={enrolled.recoveryCodes} />
+              <Button className="w-full" onClick={() => completeSignIn(enrolled.user)}>
+                I've saved my recovery codes
+              </Button>
+            </div>
+          ) : challenge ? (
+            <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+              {error && (
+                <Alert className="border-destructive/50 text-destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              {challenge.type === 'setup' && (
+                enrollment ? (
+                  <EnrollmentDetails enrollment={enrollment} />
+                ) : (
+                  <div className="flex justify-center py-6">
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  </div>
+                )
+              )}
+
+              {useRecoveryCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="recoveryCode">Recovery code</Label>
+                  <Input
+                    id="recoveryCode"
+                    placeholder="xxxxx-xxxxx"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    autoComplete="off"
+                    autoFocus
+                    disabled={isSubmitting}
+                  />
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <TotpCodeInput
+                    value={code}
+                    onChange={setCode}
+                    onComplete={submitTwoFactor}
+                    disabled={isSubmitting || (challenge.type === 'setup' && !enrollment)}
+                  />
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isSubmitting || (useRecoveryCode ? !recoveryCode.trim() : code.length !== 6)}
+              >
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  'Verify'
+                )}
+              </Button>
+
+              <div className="flex justify-between text-sm">
+                <button type="button" className="text-primary hover:underline" onClick={restartLogin}>
+                  Back to sign in
+                </button>
+                {challenge.type === 'verify' && (
+                  <button
+                    type="button"
+                    className="text-primary hover:underline"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setError(null);
+                    }}
+                  >
+                    {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                  </button>
+                )}
+              </div>
+            </form>
+          ) : (
           <form onSubmit={handleSubmit} className="space-y-4">
             {error && (
               <Alert className="border-destructive/50 text-destructive">
@@ -92,7 +244,15 @@ const Login = () => {
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                <Link
+                  to="/forgot-password"
+                  className="text-sm text-primary hover:underline"
+                >
+                  Forgot password?
+                </Link>
+              </div>
               <div className="relative">
                 <Input
                   id="password"
@@ -136,6 +296,7 @@ const Login = () => {
               )}
             </Button>
           </form>
+          )}
           
           <div className="mt-6 text-center text-sm">
             <span className="text-muted-foreground">Don't have an account? </span>
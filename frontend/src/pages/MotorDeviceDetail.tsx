@@ -6,9 +6,11 @@ import { Badge } from "@/components/ui/badge";
 import { ArrowLeft, AlertTriangle, Activity, Zap, MapPin, Signal, Loader2, Settings, Gauge, Wrench } from "lucide-react";
 import { motorApi } from "@/services/api";
 import { MotorHistoricDataTable } from "@/components/dashboard/MotorHistoricDataTable";
+import { DecodedFieldsCard } from "@/components/dashboard/DecodedFieldsCard";
 
 interface MotorDeviceData {
   deviceId: string;
+  conversionLogicID: number | null;
   latestData: {
     entryId: number;
     gsmSignalStrength: number;
@@ -406,6 +408,14 @@ export const MotorDeviceDetail = () => {
             </CardContent>
           </Card>
 
+          {/* Decoded Payload Card */}
+          {/* Motor readings are P2 only, so fall back to logic 2 when the device row has none */}
+          <DecodedFieldsCard
+            className="lg:col-span-3"
+            hexField={displayData?.hexField || latestData.hexField}
+            conversionLogicId={device.conversionLogicID ?? 2}
+          />
+
           {/* Technical Details Card */}
           <Card className="lg:col-span-3">
             <CardHeader>
@@ -0,0 +1,665 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BellRing, Moon, History, Plus, Edit, Trash2, Loader2, RefreshCw } from "lucide-react";
+import {
+  notificationApi,
+  AlertSeverity,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationDeliveryAttempt,
+  NotificationDeliveryStatus,
+  NotificationPreferences,
+  NotificationSubscription,
+  NotificationSubscriptionInput
+} from "@/services/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+const SEVERITIES: AlertSeverity[] = ['critical', 'warning', 'info'];
+
+interface SubscriptionFormData {
+  channelId: string;
+  clientId: string;
+  deviceId: string;
+  severities: AlertSeverity[];
+  alertTypes: string;
+  deliveryMode: 'immediate' | 'digest';
+  isEnabled: boolean;
+}
+
+const emptySubscriptionForm: SubscriptionFormData = {
+  channelId: '',
+  clientId: '',
+  deviceId: '',
+  severities: ['critical', 'warning'],
+  alertTypes: '',
+  deliveryMode: 'immediate',
+  isEnabled: true
+};
+
+const defaultPreferences: NotificationPreferences = {
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  criticalBypassesQuietHours: true,
+  digestHour: 8
+};
+
+const deliveryStatusVariant = (status: NotificationDeliveryStatus) =>
+  status === 'sent' ? "default" : status === 'failed' ? "destructive" : "secondary";
+
+const describeScope = (subscription: NotificationSubscription) =>
+  subscription.deviceId ? `Device ${subscription.deviceId}`
+    : subscription.clientId ? `Client ${subscription.clientId}`
+    : "All my devices";
+
+export const Notifications = () => {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [subscriptions, setSubscriptions] = useState<NotificationSubscription[]>([]);
+  const [preferences, setPreferences] = useState<NotificationPreferences>(defaultPreferences);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [showAllDeliveries, setShowAllDeliveries] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [savingPreferences, setSavingPreferences] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSubscription, setEditingSubscription] = useState<NotificationSubscription | null>(null);
+  const [formData, setFormData] = useState<SubscriptionFormData>(emptySubscriptionForm);
+  const [attemptsDelivery, setAttemptsDelivery] = useState<NotificationDelivery | null>(null);
+  const [attempts, setAttempts] = useState<NotificationDeliveryAttempt[]>([]);
+  const { toast } = useToast();
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [channelsResponse, subscriptionsResponse, preferencesResponse] = await Promise.all([
+        notificationApi.getChannels(),
+        notificationApi.getSubscriptions(),
+        notificationApi.getPreferences()
+      ]);
+      if (channelsResponse.success) {
+        setChannels(channelsResponse.data.filter(channel => channel.isEnabled));
+      }
+      if (subscriptionsResponse.success) {
+        setSubscriptions(subscriptionsResponse.data);
+      }
+      if (preferencesResponse.success) {
+        setPreferences(preferencesResponse.data);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load notification settings",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const response = await notificationApi.getDeliveries({ all: showAllDeliveries, limit: 100 });
+      if (response.success) {
+        setDeliveries(response.data);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load delivery log",
+        variant: "destructive"
+      });
+    }
+  }, [showAllDeliveries, toast]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const handleSavePreferences = async () => {
+    if (Boolean(preferences.quietHoursStart) !== Boolean(preferences.quietHoursEnd)) {
+      toast({
+        title: "Validation Error",
+        description: "Set both the start and end of quiet hours, or neither",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setSavingPreferences(true);
+      const response = await notificationApi.updatePreferences({
+        timezone: preferences.timezone,
+        quietHoursStart: preferences.quietHoursStart || null,
+        quietHoursEnd: preferences.quietHoursEnd || null,
+        criticalBypassesQuietHours: preferences.criticalBypassesQuietHours,
+        digestHour: preferences.digestHour
+      });
+      if (response.success) {
+        setPreferences(response.data);
+        toast({
+          title: "Success",
+          description: "Notification preferences saved"
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save notification preferences",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingPreferences(false);
+    }
+  };
+
+  const openCreateDialog = () => {
+    setEditingSubscription(null);
+    setFormData({ ...emptySubscriptionForm, channelId: channels[0]?.id.toString() || '' });
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (subscription: NotificationSubscription) => {
+    setEditingSubscription(subscription);
+    setFormData({
+      channelId: subscription.channelId.toString(),
+      clientId: subscription.clientId || '',
+      deviceId: subscription.deviceId || '',
+      severities: subscription.severities,
+      alertTypes: subscription.alertTypes.join(', '),
+      deliveryMode: subscription.deliveryMode,
+      isEnabled: subscription.isEnabled
+    });
+    setDialogOpen(true);
+  };
+
+  const toggleSeverity = (severity: AlertSeverity, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      severities: checked
+        ? [...prev.severities, severity]
+        : prev.severities.filter(item => item !== severity)
+    }));
+  };
+
+  const handleSaveSubscription = async () => {
+    if (!formData.channelId) {
+      toast({
+        title: "Validation Error",
+        description: "Choose a channel",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const payload: NotificationSubscriptionInput = {
+      channelId: parseInt(formData.channelId),
+      clientId: formData.clientId || null,
+      deviceId: formData.deviceId || null,
+      severities: formData.severities,
+      alertTypes: formData.alertTypes.split(',').map(type => type.trim()).filter(Boolean),
+      deliveryMode: formData.deliveryMode,
+      isEnabled: formData.isEnabled
+    };
+
+    try {
+      setSubmitting(true);
+      const response = editingSubscription
+        ? await notificationApi.updateSubscription(editingSubscription.id, payload)
+        : await notificationApi.createSubscription(payload);
+
+      if (response.success) {
+        toast({
+          title: "Success",
+          description: editingSubscription ? "Subscription updated" : "Subscription created"
+        });
+        setDialogOpen(false);
+        await fetchSettings();
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save subscription",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDeleteSubscription = async (subscription: NotificationSubscription) => {
+    if (!confirm(`Stop sending alerts to "${subscription.channelName}" for ${describeScope(subscription).toLowerCase()}?`)) return;
+
+    try {
+      const response = await notificationApi.deleteSubscription(subscription.id);
+      if (response.success) {
+        setSubscriptions(prev => prev.filter(item => item.id !== subscription.id));
+        toast({
+          title: "Success",
+          description: "Subscription deleted"
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete subscription",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const openAttempts = async (delivery: NotificationDelivery) => {
+    setAttemptsDelivery(delivery);
+    setAttempts([]);
+    try {
+      const response = await notificationApi.getDeliveryAttempts(delivery.id);
+      if (response.success) {
+        setAttempts(response.data);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load delivery attempts",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Notifications</h1>
+          <p className="text-muted-foreground">Choose which alerts reach you, where, and when</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center space-x-2">
+                <BellRing className="h-5 w-5" />
+                <span>My Subscriptions</span>
+              </CardTitle>
+              <Button onClick={openCreateDialog} disabled={channels.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Subscription
+              </Button>
+            </div>
+            {channels.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No notification channels are available yet. An administrator needs to add one first.
+              </p>
+            )}
+          </CardHeader>
+          <CardContent>
+            {subscriptions.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">You are not subscribed to any alerts.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Channel</TableHead>
+                    <TableHead>Scope</TableHead>
+                    <TableHead>Severities</TableHead>
+                    <TableHead>Alert Types</TableHead>
+                    <TableHead>Delivery</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {subscriptions.map(subscription => (
+                    <TableRow key={subscription.id}>
+                      <TableCell className="font-medium">
+                        {subscription.channelName}
+                        <span className="text-xs text-muted-foreground ml-2">{subscription.channelType}</span>
+                      </TableCell>
+                      <TableCell>{describeScope(subscription)}</TableCell>
+                      <TableCell>{subscription.severities.length > 0 ? subscription.severities.join(', ') : 'All'}</TableCell>
+                      <TableCell>{subscription.alertTypes.length > 0 ? subscription.alertTypes.join(', ') : 'All'}</TableCell>
+                      <TableCell>{subscription.deliveryMode === 'digest' ? 'Daily digest' : 'Immediate'}</TableCell>
+                      <TableCell>
+                        <Badge variant={subscription.isEnabled ? "default" : "secondary"}>
+                          {subscription.isEnabled ? "Enabled" : "Paused"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button size="sm" variant="outline" onClick={() => openEditDialog(subscription)}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleDeleteSubscription(subscription)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Moon className="h-5 w-5" />
+              <span>Quiet Hours & Digest</span>
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Immediate notifications raised during quiet hours are held and sent when they end. Digest subscriptions are sent once a day at the chosen hour.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <Label htmlFor="prefTimezone">Timezone</Label>
+                <Input
+                  id="prefTimezone"
+                  value={preferences.timezone}
+                  onChange={(e) => setPreferences(prev => ({ ...prev, timezone: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="prefQuietStart">Quiet Hours Start</Label>
+                <Input
+                  id="prefQuietStart"
+                  type="time"
+                  value={preferences.quietHoursStart || ''}
+                  onChange={(e) => setPreferences(prev => ({ ...prev, quietHoursStart: e.target.value || null }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="prefQuietEnd">Quiet Hours End</Label>
+                <Input
+                  id="prefQuietEnd"
+                  type="time"
+                  value={preferences.quietHoursEnd || ''}
+                  onChange={(e) => setPreferences(prev => ({ ...prev, quietHoursEnd: e.target.value || null }))}
+                />
+              </div>
+              <div>
+                <Label>Digest Time</Label>
+                <Select
+                  value={preferences.digestHour.toString()}
+                  onValueChange={(value) => setPreferences(prev => ({ ...prev, digestHour: parseInt(value) }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <SelectItem key={hour} value={hour.toString()}>{`${hour.toString().padStart(2, '0')}:00`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center justify-between mt-4">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="prefCriticalBypass"
+                  checked={preferences.criticalBypassesQuietHours}
+                  onCheckedChange={(checked) => setPreferences(prev => ({ ...prev, criticalBypassesQuietHours: checked }))}
+                />
+                <Label htmlFor="prefCriticalBypass">Critical alerts ignore quiet hours</Label>
+              </div>
+              <Button onClick={handleSavePreferences} disabled={savingPreferences}>
+                {savingPreferences && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Preferences
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center space-x-2">
+                <History className="h-5 w-5" />
+                <span>Delivery Log</span>
+              </CardTitle>
+              <div className="flex items-center gap-4">
+                {isAdmin && (
+                  <div className="flex items-center space-x-2">
+                    <Switch id="showAllDeliveries" checked={showAllDeliveries} onCheckedChange={setShowAllDeliveries} />
+                    <Label htmlFor="showAllDeliveries">All users</Label>
+                  </div>
+                )}
+                <Button variant="outline" size="sm" onClick={fetchDeliveries}>
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {deliveries.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No notifications have been sent yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Created</TableHead>
+                    {showAllDeliveries && <TableHead>User</TableHead>}
+                    <TableHead>Message</TableHead>
+                    <TableHead>Channel</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Last Error</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map(delivery => (
+                    <TableRow key={delivery.id} className="cursor-pointer hover:bg-muted/50" onClick={() => openAttempts(delivery)}>
+                      <TableCell className="text-sm text-muted-foreground">{new Date(delivery.createdAt).toLocaleString()}</TableCell>
+                      {showAllDeliveries && <TableCell>{delivery.userName || '-'}</TableCell>}
+                      <TableCell>
+                        {delivery.kind === 'alert'
+                          ? `${delivery.deviceId || ''}: ${delivery.alertTitle || `Alert #${delivery.alertId}`}`
+                          : delivery.kind === 'digest' ? 'Daily digest' : 'Test message'}
+                      </TableCell>
+                      <TableCell>{delivery.channelName || `#${delivery.channelId}`}</TableCell>
+                      <TableCell>
+                        <Badge variant={deliveryStatusVariant(delivery.status)}>{delivery.status}</Badge>
+                      </TableCell>
+                      <TableCell>{delivery.attempts}</TableCell>
+                      <TableCell className="text-xs text-destructive max-w-[250px] truncate">{delivery.lastError || ''}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{editingSubscription ? "Edit Subscription" : "Add Subscription"}</DialogTitle>
+            <DialogDescription>
+              Leave client and device empty to receive alerts for every device you can access.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <Label>Channel *</Label>
+              <Select
+                value={formData.channelId}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, channelId: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select channel" />
+                </SelectTrigger>
+                <SelectContent>
+                  {channels.map(channel => (
+                    <SelectItem key={channel.id} value={channel.id.toString()}>{channel.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="subscriptionClientId">Client ID</Label>
+              <Input
+                id="subscriptionClientId"
+                value={formData.clientId}
+                disabled={!!formData.deviceId}
+                onChange={(e) => setFormData(prev => ({ ...prev, clientId: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="subscriptionDeviceId">Device ID</Label>
+              <Input
+                id="subscriptionDeviceId"
+                value={formData.deviceId}
+                onChange={(e) => setFormData(prev => ({ ...prev, deviceId: e.target.value }))}
+              />
+            </div>
+            <div className="col-span-2">
+              <Label>Severities</Label>
+              <div className="flex gap-4 mt-2">
+                {SEVERITIES.map(severity => (
+                  <div key={severity} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`severity-${severity}`}
+                      checked={formData.severities.includes(severity)}
+                      onCheckedChange={(checked) => toggleSeverity(severity, checked === true)}
+                    />
+                    <Label htmlFor={`severity-${severity}`} className="capitalize">{severity}</Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">None selected means every severity.</p>
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="subscriptionAlertTypes">Alert Types</Label>
+              <Input
+                id="subscriptionAlertTypes"
+                placeholder="e.g. threshold, fault_code, device_offline"
+                value={formData.alertTypes}
+                onChange={(e) => setFormData(prev => ({ ...prev, alertTypes: e.target.value }))}
+              />
+              <p className="text-xs text-muted-foreground mt-1">Comma separated; leave empty for every type.</p>
+            </div>
+            <div>
+              <Label>Delivery</Label>
+              <Select
+                value={formData.deliveryMode}
+                onValueChange={(value: 'immediate' | 'digest') => setFormData(prev => ({ ...prev, deliveryMode: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="immediate">Immediate</SelectItem>
+                  <SelectItem value="digest">Daily digest</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end space-x-2 pb-2">
+              <Switch
+                id="subscriptionEnabled"
+                checked={formData.isEnabled}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isEnabled: checked }))}
+              />
+              <Label htmlFor="subscriptionEnabled">Enabled</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveSubscription} disabled={submitting}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingSubscription ? "Save Changes" : "Subscribe"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!attemptsDelivery} onOpenChange={(open) => !open && setAttemptsDelivery(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Delivery #{attemptsDelivery?.id}</DialogTitle>
+            <DialogDescription>
+              {attemptsDelivery?.recipient ? `Sent to ${attemptsDelivery.recipient}. ` : ''}
+              {attemptsDelivery?.nextAttemptAt && attemptsDelivery.status === 'pending'
+                ? `Next attempt ${new Date(attemptsDelivery.nextAttemptAt).toLocaleString()}.`
+                : ''}
+            </DialogDescription>
+          </DialogHeader>
+          {attempts.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">No send attempts yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead>Duration</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attempts.map(attempt => (
+                  <TableRow key={attempt.id}>
+                    <TableCell>{attempt.attemptNumber}</TableCell>
+                    <TableCell className="text-sm">{new Date(attempt.attemptedAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={attempt.succeeded ? "default" : "destructive"}>
+                        {attempt.succeeded ? "Delivered" : "Failed"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs font-mono max-w-[250px] truncate" title={attempt.error || ''}>
+                      {attempt.error || attempt.responseCode || '-'}
+                    </TableCell>
+                    <TableCell>{attempt.durationMs != null ? `${attempt.durationMs} ms` : '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
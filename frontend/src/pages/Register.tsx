@@ -1,13 +1,20 @@
-import { useState } from 'react';
-import { Navigate, Link } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { Navigate, Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Loader2, Eye, EyeOff } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { authApi } from '@/services/api';
+
+interface Invitation {
+  email: string;
+  role: string;
+  clientId: string | null;
+  expiresAt: string;
+}
 
 const Register = () => {
   const { register, isAuthenticated, isLoading } = useAuth();
@@ -15,13 +22,32 @@ const Register = () => {
     name: '',
     email: '',
     password: '',
-    confirmPassword: '',
-    role: 'user'
+    confirmPassword: ''
   });
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const inviteToken = searchParams.get('invite');
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [invitationError, setInvitationError] = useState<string | null>(null);
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+
+  // The invitation fixes the email, role and client of the new account
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    authApi.getInvitation(inviteToken)
+      .then((data) => {
+        setInvitation(data);
+        setFormData(prev => ({ ...prev, email: data.email }));
+      })
+      .catch((err) => {
+        setInvitationError(err instanceof Error ? err.message : 'This invitation is not valid');
+      });
+  }, [inviteToken]);
 
   // Redirect if already authenticated
   if (isAuthenticated) {
@@ -46,8 +72,14 @@ const Register = () => {
     setIsSubmitting(true);
 
     try {
-      await register(formData.name, formData.email, formData.password, formData.role);
-      // Navigation will happen automatically due to auth state change
+      const { pending, challenge } = await register(formData.name, formData.email, formData.password, inviteToken || undefined);
+      if (pending) {
+        setPendingMessage('Your account has been created and is waiting for an administrator to approve it.');
+      } else if (challenge) {
+        // The login page runs the mandatory two-factor setup
+        navigate('/login', { state: { challenge } });
+      }
+      // Otherwise navigation will happen automatically due to auth state change
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Registration failed. Please try again.');
     } finally {
@@ -63,13 +95,6 @@ const Register = () => {
     }));
   };
 
-  const handleRoleChange = (value: string) => {
-    setFormData(prev => ({
-      ...prev,
-      role: value
-    }));
-  };
-
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted/20">
@@ -90,11 +115,32 @@ const Register = () => {
           </div>
           <CardTitle className="text-2xl">Create Account</CardTitle>
           <CardDescription>
-            Sign up for IoT Dashboard access
+            {invitation
+              ? 'You have been invited to the IoT Dashboard'
+              : 'Sign up for IoT Dashboard access'}
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {pendingMessage ? (
+            <Alert>
+              <AlertDescription>{pendingMessage}</AlertDescription>
+            </Alert>
+          ) : (
           <form onSubmit={handleSubmit} className="space-y-4">
+            {invitationError && (
+              <Alert className="border-destructive/50 text-destructive">
+                <AlertDescription>{invitationError}</AlertDescription>
+              </Alert>
+            )}
+
+            {!inviteToken && (
+              <Alert>
+                <AlertDescription>
+                  Registration is by invitation. Without an invite link, your account may need to be approved by an administrator before you can sign in.
+                </AlertDescription>
+              </Alert>
+            )}
+
             {error && (
               <Alert className="border-destructive/50 text-destructive">
                 <AlertDescription>{error}</AlertDescription>
@@ -125,24 +171,27 @@ const Register = () => {
                 value={formData.email}
                 onChange={handleInputChange}
                 required
-                disabled={isSubmitting}
+                disabled={isSubmitting || !!invitation}
               />
             </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="role">Role</Label>
-              <Select value={formData.role} onValueChange={handleRoleChange} disabled={isSubmitting}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select your role" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="viewer">Viewer - Read-only access</SelectItem>
-                  <SelectItem value="dashboard_viewer">Dashboard Viewer - View all dashboards</SelectItem>
-                  <SelectItem value="user">User - Standard access</SelectItem>
-                  <SelectItem value="admin">Admin - Full access</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+
+            {invitation && (
+              <div className="rounded-md border p-3 text-sm space-y-1">
+                <div>
+                  <span className="text-muted-foreground">Role: </span>
+                  <span className="font-medium">{invitation.role}</span>
+                </div>
+                {invitation.clientId && (
+                  <div>
+                    <span className="text-muted-foreground">Client: </span>
+                    <span className="font-medium">{invitation.clientId}</span>
+                  </div>
+                )}
+                <div className="text-muted-foreground">
+                  Invitation expires {new Date(invitation.expiresAt).toLocaleString()}
+                </div>
+              </div>
+            )}
             
             <div className="space-y-2">
               <Label htmlFor="password">Password</Label>
@@ -207,7 +256,7 @@ const Register = () => {
             <Button 
               type="submit" 
               className="w-full" 
-              disabled={isSubmitting}
+              disabled={isSubmitting || (!!inviteToken && !invitation)}
             >
               {isSubmitting ? (
                 <>
@@ -219,6 +268,7 @@ const Register = () => {
               )}
             </Button>
           </form>
+          )}
           
           <div className="mt-6 text-center text-sm">
             <span className="text-muted-foreground">Already have an account? </span>
@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Eye, EyeOff } from 'lucide-react';
+import { authApi } from '@/services/api';
+
+interface PasswordReset {
+  email: string;
+  expiresAt: string;
+}
+
+const ResetPassword = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [reset, setReset] = useState<PasswordReset | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(
+    token ? null : 'This reset link is incomplete. Please request a new one.'
+  );
+  const [formData, setFormData] = useState({
+    password: '',
+    confirmPassword: ''
+  });
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [doneMessage, setDoneMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Check the link up front so an expired one doesn't cost the user a typed password
+  useEffect(() => {
+    if (!token) return;
+
+    authApi.getPasswordReset(token)
+      .then(setReset)
+      .catch((err) => {
+        setLinkError(err instanceof Error ? err.message : 'This reset link is not valid');
+      });
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (formData.password !== formData.confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    if (formData.password.length < 6) {
+      setError('Password must be at least 6 characters long');
+      return;
+    }
+
+    if (!token) return;
+    setIsSubmitting(true);
+
+    try {
+      const response = await authApi.resetPassword(token, formData.password);
+      setDoneMessage(response.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset password. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }));
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted/20 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="w-12 h-12 bg-gradient-to-r from-primary to-primary-glow rounded-lg flex items-center justify-center mx-auto mb-4">
+            <span className="text-white font-bold text-lg">IoT</span>
+          </div>
+          <CardTitle className="text-2xl">Reset Password</CardTitle>
+          <CardDescription>
+            {reset ? `Choose a new password for ${reset.email}` : 'Choose a new password'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {doneMessage ? (
+            <Alert>
+              <AlertDescription>
+                {doneMessage} You have been signed out on all devices.
+              </AlertDescription>
+            </Alert>
+          ) : linkError ? (
+            <div className="space-y-4">
+              <Alert className="border-destructive/50 text-destructive">
+                <AlertDescription>{linkError}</AlertDescription>
+              </Alert>
+              <Button asChild variant="outline" className="w-full">
+                <Link to="/forgot-password">Request a new link</Link>
+              </Button>
+            </div>
+          ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <Alert className="border-destructive/50 text-destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="password">New Password</Label>
+              <div className="relative">
+                <Input
+                  id="password"
+                  name="password"
+                  type={showPassword ? 'text' : 'password'}
+                  placeholder="Enter a new password"
+                  value={formData.password}
+                  onChange={handleInputChange}
+                  required
+                  disabled={isSubmitting}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                  onClick={() => setShowPassword(!showPassword)}
+                  disabled={isSubmitting}
+                >
+                  {showPassword ? (
+                    <EyeOff className="h-4 w-4" />
+                  ) : (
+                    <Eye className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm Password</Label>
+              <Input
+                id="confirmPassword"
+                name="confirmPassword"
+                type={showPassword ? 'text' : 'password'}
+                placeholder="Confirm your new password"
+                value={formData.confirmPassword}
+                onChange={handleInputChange}
+                required
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={isSubmitting || !reset}
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving password...
+                </>
+              ) : (
+                'Reset Password'
+              )}
+            </Button>
+          </form>
+          )}
+
+          <div className="mt-6 text-center text-sm">
+            <Link
+              to="/login"
+              className="text-primary hover:underline font-medium"
+            >
+              Back to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
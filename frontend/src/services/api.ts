@@ -1,4 +1,11 @@
 // API configuration and service layer
+import type { ConversionResult, DecodedFieldMismatch } from './hexConversion';
+import type { PayloadLayoutRecord } from './payloadLayouts';
+import type { ConfigSchemaNode } from './configSchema';
+import type { ConfigChange } from './configDiff';
+import type { ConfigLayer } from './effectiveConfig';
+import type { ConfigCheckin, DeviceLiveness, LivenessHistoryEntry } from '@/types/device';
+
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://genvolt-webapp-backend-epezdjc9hfcyf4hr.centralindia-01.azurewebsites.net/api/v1';
 
 // Types for API responses
@@ -20,6 +27,7 @@ interface PaginatedResponse<T> extends ApiResponse<T> {
 // Auth token management
 class AuthManager {
   private static readonly TOKEN_KEY = 'auth_token';
+  private static readonly REFRESH_TOKEN_KEY = 'refresh_token';
   private static readonly SESSION_KEY = 'session_active';
   
   // Always use sessionStorage for authentication tokens
@@ -33,9 +41,12 @@ class AuthManager {
     return sessionStorage.getItem(this.TOKEN_KEY);
   }
   
-  static setToken(token: string): void {
+  static setToken(token: string, refreshToken?: string | null): void {
     // Store token in sessionStorage (cleared when tab closes)
     sessionStorage.setItem(this.TOKEN_KEY, token);
+    if (refreshToken) {
+      sessionStorage.setItem(this.REFRESH_TOKEN_KEY, refreshToken);
+    }
     // Mark session as active
     sessionStorage.setItem(this.SESSION_KEY, 'true');
     
@@ -51,6 +62,7 @@ class AuthManager {
     // Remove from both storage types to be thorough
     try {
       sessionStorage.removeItem(this.TOKEN_KEY);
+      sessionStorage.removeItem(this.REFRESH_TOKEN_KEY);
       sessionStorage.removeItem(this.SESSION_KEY);
       localStorage.removeItem(this.TOKEN_KEY);
     } catch (e) {
@@ -58,6 +70,10 @@ class AuthManager {
     }
   }
   
+  static getRefreshToken(): string | null {
+    return this.isSessionActive() ? sessionStorage.getItem(this.REFRESH_TOKEN_KEY) : null;
+  }
+  
   static isSessionActive(): boolean {
     return sessionStorage.getItem(this.SESSION_KEY) === 'true';
   }
@@ -68,17 +84,59 @@ class AuthManager {
   }
 }
 
+// A 401 from these means bad credentials or codes, not an expired access token
+const CREDENTIAL_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/2fa/verify',
+  '/auth/2fa/setup',
+  '/auth/2fa/setup/confirm'
+];
+
 // Base API client
 class ApiClient {
   private baseURL: string;
+  // Shared by every request that hits a 401 while a refresh is already under way
+  private refreshPromise: Promise<boolean> | null = null;
   
   constructor(baseURL: string) {
     this.baseURL = baseURL;
   }
   
+  // Trade the refresh token for a new token pair; false when the session can't be renewed
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        const refreshToken = AuthManager.getRefreshToken();
+        if (!refreshToken) return false;
+
+        try {
+          const response = await fetch(`${this.baseURL}/auth/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken }),
+          });
+          if (!response.ok) return false;
+
+          const data: { token: string; refreshToken: string } = await response.json();
+          AuthManager.setToken(data.token, data.refreshToken);
+          return true;
+        } catch (error) {
+          console.error('Token refresh failed:', error);
+          return false;
+        }
+      })().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+  
   private async request<T>(
     endpoint: string, 
-    options: RequestInit = {}
+    options: RequestInit = {},
+    retried = false
   ): Promise<T> {
     const url = `${this.baseURL}${endpoint}`;
     const headers = {
@@ -94,7 +152,12 @@ class ApiClient {
       });
       
       if (!response.ok) {
-        if (response.status === 401) {
+        if (response.status === 401 && !CREDENTIAL_ENDPOINTS.includes(endpoint)) {
+          // Expired access tokens are renewed silently and the request is sent again once
+          if (!retried && await this.refreshSession()) {
+            return this.request<T>(endpoint, options, true);
+          }
+
           AuthManager.removeToken();
           // Only redirect to login if not already on login or register page
           if (!window.location.pathname.includes('/login') && !window.location.pathname.includes('/register')) {
@@ -140,39 +203,167 @@ class ApiClient {
 // Create API client instances
 const apiClient = new ApiClient(API_BASE_URL);
 
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  clientId?: string;
+}
+
+interface SignedInResponse {
+  message: string;
+  token: string;
+  refreshToken: string | null;
+  user: AuthUser;
+}
+
+// With two-factor authentication the password only earns a challenge token for the second step
+export type LoginResponse =
+  | SignedInResponse
+  | { message: string; twoFactorRequired: true; challengeToken: string }
+  | { message: string; twoFactorSetupRequired: true; challengeToken: string };
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of the otpauth URL
+  qrCode: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+export type AuthEventType =
+  | 'TWO_FACTOR_ENROLLED'
+  | 'TWO_FACTOR_DISABLED'
+  | 'TWO_FACTOR_RESET'
+  | 'TWO_FACTOR_FAILED'
+  | 'RECOVERY_CODE_USED'
+  | 'RECOVERY_CODES_REGENERATED'
+  | 'TWO_FACTOR_POLICY_CHANGED'
+  | 'PASSWORD_RESET_REQUESTED'
+  | 'PASSWORD_RESET'
+  | 'LOGIN_SUCCEEDED'
+  | 'LOGIN_FAILED'
+  | 'LOGIN_BLOCKED'
+  | 'LOGIN_LOCKED'
+  | 'LOGIN_UNLOCKED'
+  | 'LOGOUT'
+  | 'TOKEN_REFRESHED'
+  | 'REFRESH_TOKEN_REUSED';
+
+export interface AuthEvent {
+  eventId: number;
+  eventType: AuthEventType;
+  userId: number | null;
+  userName: string | null;
+  email: string | null;
+  actorUserId: number | null;
+  actorName: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  details: string | null;
+  createdAt: string;
+}
+
+export interface LoginLockout {
+  throttleKey: string;
+  scope: 'account' | 'ip';
+  subject: string;
+  lastFailedAt: string;
+  lockedUntil: string;
+}
+
+export interface TwoFactorRolePolicy {
+  role_name: string;
+  display_name: string;
+  requires_two_factor: boolean;
+}
+
 // Authentication API
 export const authApi = {
   login: async (email: string, password: string) => {
-    const response = await apiClient.post<{
-      token: string;
-      user: {
-        id: string;
-        name: string;
-        email: string;
-        role: string;
-        clientId?: string;
-      };
-    }>('/auth/login', { email, password });
+    const response = await apiClient.post<LoginResponse>('/auth/login', { email, password });
     
-    AuthManager.setToken(response.token);
+    if ('token' in response) {
+      AuthManager.setToken(response.token, response.refreshToken);
+    }
+    return response;
+  },
+
+  // Second login step, with a code from the authenticator app or a recovery code
+  verifyTwoFactor: async (challengeToken: string, credentials: { code: string } | { recoveryCode: string }) => {
+    const response = await apiClient.post<SignedInResponse>('/auth/2fa/verify', { challengeToken, ...credentials });
+    AuthManager.setToken(response.token, response.refreshToken);
+    return response;
+  },
+
+  // Mandatory enrollment during login for roles that require 2FA
+  startTwoFactorSetup: async (challengeToken: string) => {
+    return apiClient.post<ApiResponse<TwoFactorEnrollment>>('/auth/2fa/setup', { challengeToken });
+  },
+
+  confirmTwoFactorSetup: async (challengeToken: string, code: string) => {
+    const response = await apiClient.post<SignedInResponse & { recoveryCodes: string[] }>(
+      '/auth/2fa/setup/confirm',
+      { challengeToken, code }
+    );
+    AuthManager.setToken(response.token, response.refreshToken);
     return response;
   },
   
-  register: async (name: string, email: string, password: string, role?: string) => {
+  // Invited users are signed in right away; uninvited sign-ups come back pending admin approval
+  register: async (name: string, email: string, password: string, inviteToken?: string) => {
     const response = await apiClient.post<{
-      token: string;
-      user: {
+      message: string;
+      pending?: boolean;
+      twoFactorSetupRequired?: boolean;
+      challengeToken?: string;
+      token?: string;
+      refreshToken?: string | null;
+      user?: {
         id: string;
         name: string;
         email: string;
         role: string;
         clientId?: string;
       };
-    }>('/auth/register', { name, email, password, role });
+    }>('/auth/register', { name, email, password, inviteToken });
     
-    AuthManager.setToken(response.token);
+    if (response.token) {
+      AuthManager.setToken(response.token, response.refreshToken);
+    }
     return response;
   },
+
+  getInvitation: async (token: string) => {
+    return apiClient.get<{
+      email: string;
+      role: string;
+      clientId: string | null;
+      expiresAt: string;
+    }>(`/auth/invitations/${encodeURIComponent(token)}`);
+  },
+
+  forgotPassword: async (email: string) => {
+    return apiClient.post<{ message: string }>('/auth/forgot-password', { email });
+  },
+
+  getPasswordReset: async (token: string) => {
+    return apiClient.get<{
+      email: string;
+      expiresAt: string;
+    }>(`/auth/reset-password/${encodeURIComponent(token)}`);
+  },
+
+  resetPassword: async (token: string, password: string) => {
+    return apiClient.post<{ message: string }>('/auth/reset-password', { token, password });
+  },
   
   verify: async () => {
     return apiClient.get<{
@@ -202,6 +393,29 @@ export const authApi = {
   }
 };
 
+// Two-factor settings for the signed-in user
+export const twoFactorApi = {
+  getStatus: async () => {
+    return apiClient.get<ApiResponse<TwoFactorStatus>>('/auth/2fa');
+  },
+
+  enroll: async () => {
+    return apiClient.post<ApiResponse<TwoFactorEnrollment>>('/auth/2fa/enroll');
+  },
+
+  confirmEnrollment: async (code: string) => {
+    return apiClient.post<ApiResponse<{ recoveryCodes: string[] }>>('/auth/2fa/enroll/confirm', { code });
+  },
+
+  regenerateRecoveryCodes: async (code: string) => {
+    return apiClient.post<ApiResponse<{ recoveryCodes: string[] }>>('/auth/2fa/recovery-codes', { code });
+  },
+
+  disable: async (code: string) => {
+    return apiClient.post<ApiResponse<null>>('/auth/2fa/disable', { code });
+  },
+};
+
 // Device API
 export const deviceApi = {
   getAll: async () => {
@@ -236,6 +450,71 @@ export const deviceApi = {
   getStats: async (deviceId: string, period?: string) => {
     const query = period ? `?period=${period}` : '';
     return apiClient.get<ApiResponse<any>>(`/devices/${deviceId}/stats${query}`);
+  },
+
+  decodeEntry: async (deviceId: string, entryId: number) => {
+    return apiClient.get<ApiResponse<ConversionResult & {
+      deviceId: string;
+      entryId: number;
+      hexField: string;
+      conversionLogicId: number;
+      mismatches: DecodedFieldMismatch[];
+    }>>(`/devices/${deviceId}/data/${entryId}/decode`);
+  },
+
+  verifyDecoding: async (
+    deviceId: string,
+    params?: {
+      limit?: number;
+      startDate?: string;
+      endDate?: string;
+    }
+  ) => {
+    const queryParams = new URLSearchParams();
+    if (params?.limit) queryParams.append('limit', params.limit.toString());
+    if (params?.startDate) queryParams.append('startDate', params.startDate);
+    if (params?.endDate) queryParams.append('endDate', params.endDate);
+
+    const query = queryParams.toString();
+    return apiClient.get<ApiResponse<{
+      deviceId: string;
+      conversionLogicId: number;
+      table: string;
+      checked: number;
+      matched: number;
+      mismatched: { entryId: number; hexField: string; timestamp: string; mismatches: DecodedFieldMismatch[] }[];
+      failed: { entryId: number; hexField: string; error: string }[];
+    }>>(`/devices/${deviceId}/decode/verify${query ? `?${query}` : ''}`);
+  },
+
+  // Admin only: push a composed test packet through the ingestion pipeline
+  pushSyntheticReading: async (deviceId: string, data: string) => {
+    return apiClient.post<ApiResponse<{
+      deviceId: string;
+      logicType: string;
+      table: string;
+      inserted: number;
+      entryIds: number[];
+    }>>(`/ingest/${deviceId}/synthetic`, { data });
+  },
+
+  getLivenessHistory: async (deviceId: string, limit?: number) => {
+    const query = limit ? `?limit=${limit}` : '';
+    return apiClient.get<ApiResponse<LivenessHistoryEntry[]>>(`/devices/${deviceId}/liveness/history${query}`);
+  },
+
+  getConfigCheckins: async (deviceId: string, limit?: number) => {
+    const query = limit ? `?limit=${limit}` : '';
+    return apiClient.get<ApiResponse<ConfigCheckin[]>>(`/devices/${deviceId}/config-checkins${query}`);
+  },
+
+  // Silence during maintenance isn't reported as offline; omit until to keep it open-ended
+  startMaintenance: async (deviceId: string, data: { until?: string | null; reason?: string | null }) => {
+    return apiClient.put<ApiResponse<DeviceLiveness>>(`/devices/${deviceId}/maintenance`, data);
+  },
+
+  endMaintenance: async (deviceId: string) => {
+    return apiClient.delete<ApiResponse<DeviceLiveness>>(`/devices/${deviceId}/maintenance`);
   }
 };
 
@@ -326,6 +605,51 @@ export const userApi = {
 };
 
 // Alert API
+export type AlertStatus = 'active' | 'acknowledged' | 'resolved';
+
+export interface Alert {
+  id: number;
+  deviceId: string;
+  clientId: string | null;
+  type: string;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  title: string;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string | null;
+  acknowledgedAt: string | null;
+  acknowledgedBy: number | null;
+  acknowledgedByName: string | null;
+  resolvedAt: string | null;
+  resolvedBy: number | null;
+  resolvedByName: string | null;
+  resolution: string | null;
+  ruleId: number | null;
+  triggerCount: number;
+  triggerValue: string | null;
+  lastTriggeredAt: string | null;
+}
+
+export interface AlertTimelineEvent {
+  type: 'created' | 'retriggered' | 'acknowledged' | 'resolved' | 'notification';
+  at: string;
+  title: string;
+  detail?: string | null;
+  actor?: string | null;
+  entryId?: number | null;
+}
+
+export interface AlertTimeline {
+  alert: Alert;
+  triggerEntry: {
+    table: string;
+    entryId: number;
+    lastEntryId: number;
+  } | null;
+  events: AlertTimelineEvent[];
+}
+
 export const alertApi = {
   getAll: async (params?: {
     status?: string;
@@ -342,11 +666,15 @@ export const alertApi = {
     if (params?.limit) queryParams.append('limit', params.limit.toString());
     
     const query = queryParams.toString();
-    return apiClient.get<PaginatedResponse<any[]>>(`/alerts${query ? `?${query}` : ''}`);
+    return apiClient.get<PaginatedResponse<Alert[]>>(`/alerts${query ? `?${query}` : ''}`);
   },
   
-  getById: async (alertId: string) => {
-    return apiClient.get<ApiResponse<any>>(`/alerts/${alertId}`);
+  getById: async (alertId: number) => {
+    return apiClient.get<ApiResponse<Alert>>(`/alerts/${alertId}`);
+  },
+
+  getTimeline: async (alertId: number) => {
+    return apiClient.get<ApiResponse<AlertTimeline>>(`/alerts/${alertId}/timeline`);
   },
   
   create: async (data: {
@@ -359,11 +687,17 @@ export const alertApi = {
     return apiClient.post<ApiResponse<any>>('/alerts', data);
   },
   
-  acknowledge: async (alertId: string) => {
+  acknowledge: async (alertId: number) => {
     return apiClient.put<ApiResponse<any>>(`/alerts/${alertId}/acknowledge`);
   },
+
+  acknowledgeMany: async (alertIds: number[]) => {
+    return apiClient.put<ApiResponse<{ acknowledged: number[]; skipped: number[] }>>('/alerts/acknowledge', {
+      alertIds
+    });
+  },
   
-  resolve: async (alertId: string, resolution?: string) => {
+  resolve: async (alertId: number, resolution?: string) => {
     return apiClient.put<ApiResponse<any>>(`/alerts/${alertId}/resolve`, {
       resolution
     });
@@ -374,6 +708,213 @@ export const alertApi = {
   }
 };
 
+// Alert rule API
+export interface AlertRuleInput {
+  name: string;
+  description?: string | null;
+  clientId?: string | null;
+  deviceId?: string | null;
+  telemetryTable: string;
+  conditionType: 'threshold' | 'fault_code';
+  fieldName: string;
+  operator?: string | null;
+  thresholdValue?: number | null;
+  thresholdConfigKey?: string | null;
+  faultCodes?: number[];
+  consecutiveReadings: number;
+  clearReadings: number;
+  severity: 'info' | 'warning' | 'critical';
+  isEnabled: boolean;
+}
+
+export interface AlertRule extends AlertRuleInput {
+  id: number;
+  condition: string;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+export interface AlertRuleMeta {
+  tables: { table: string; columns: string[] }[];
+  operators: { value: string; symbol: string }[];
+  conditionTypes: string[];
+}
+
+export const alertRuleApi = {
+  getAll: async () => {
+    return apiClient.get<ApiResponse<AlertRule[]>>('/alert-rules');
+  },
+
+  getMeta: async () => {
+    return apiClient.get<ApiResponse<AlertRuleMeta>>('/alert-rules/meta');
+  },
+
+  create: async (data: AlertRuleInput) => {
+    return apiClient.post<ApiResponse<AlertRule>>('/alert-rules', data);
+  },
+
+  update: async (ruleId: number, data: AlertRuleInput) => {
+    return apiClient.put<ApiResponse<AlertRule>>(`/alert-rules/${ruleId}`, data);
+  },
+
+  delete: async (ruleId: number) => {
+    return apiClient.delete<ApiResponse<void>>(`/alert-rules/${ruleId}`);
+  },
+
+  evaluate: async () => {
+    return apiClient.post<ApiResponse<{ rules: number; readings: number; raised: number; resolved: number }>>(
+      '/alert-rules/evaluate'
+    );
+  }
+};
+
+// Notification API
+export type NotificationChannelType = 'email' | 'webhook' | 'slack';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface NotificationChannelInput {
+  name: string;
+  type: NotificationChannelType;
+  config?: Record<string, unknown>;
+  isEnabled: boolean;
+}
+
+export interface NotificationChannel extends NotificationChannelInput {
+  id: number;
+  createdAt?: string;
+  updatedAt?: string | null;
+}
+
+export interface NotificationSubscriptionInput {
+  channelId: number;
+  clientId?: string | null;
+  deviceId?: string | null;
+  severities: AlertSeverity[];
+  alertTypes: string[];
+  deliveryMode: 'immediate' | 'digest';
+  isEnabled: boolean;
+}
+
+export interface NotificationSubscription extends NotificationSubscriptionInput {
+  id: number;
+  userId: number;
+  channelName: string;
+  channelType: NotificationChannelType;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+export interface NotificationPreferences {
+  timezone: string;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  criticalBypassesQuietHours: boolean;
+  digestHour: number;
+  lastDigestAt?: string | null;
+}
+
+export type NotificationDeliveryStatus = 'pending' | 'deferred' | 'digest' | 'digested' | 'sent' | 'failed';
+
+export interface NotificationDelivery {
+  id: number;
+  kind: 'alert' | 'digest' | 'test';
+  alertId: number | null;
+  alertTitle: string | null;
+  alertSeverity: AlertSeverity | null;
+  deviceId: string | null;
+  channelId: number;
+  channelName: string | null;
+  channelType: NotificationChannelType | null;
+  userId: number | null;
+  userName: string | null;
+  recipient: string | null;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  digestId: number | null;
+  createdAt: string;
+  sentAt: string | null;
+}
+
+export interface NotificationDeliveryAttempt {
+  id: number;
+  attemptNumber: number;
+  succeeded: boolean;
+  responseCode: string | null;
+  error: string | null;
+  durationMs: number | null;
+  attemptedAt: string;
+}
+
+export const notificationApi = {
+  getChannels: async () => {
+    return apiClient.get<ApiResponse<NotificationChannel[]>>('/notifications/channels');
+  },
+
+  createChannel: async (data: NotificationChannelInput) => {
+    return apiClient.post<ApiResponse<NotificationChannel>>('/notifications/channels', data);
+  },
+
+  updateChannel: async (channelId: number, data: NotificationChannelInput) => {
+    return apiClient.put<ApiResponse<NotificationChannel>>(`/notifications/channels/${channelId}`, data);
+  },
+
+  deleteChannel: async (channelId: number) => {
+    return apiClient.delete<ApiResponse<void>>(`/notifications/channels/${channelId}`);
+  },
+
+  testChannel: async (channelId: number) => {
+    return apiClient.post<ApiResponse<{ deliveryId: number; success: boolean; error: string | null }>>(
+      `/notifications/channels/${channelId}/test`
+    );
+  },
+
+  getSubscriptions: async () => {
+    return apiClient.get<ApiResponse<NotificationSubscription[]>>('/notifications/subscriptions');
+  },
+
+  createSubscription: async (data: NotificationSubscriptionInput) => {
+    return apiClient.post<ApiResponse<NotificationSubscription>>('/notifications/subscriptions', data);
+  },
+
+  updateSubscription: async (subscriptionId: number, data: NotificationSubscriptionInput) => {
+    return apiClient.put<ApiResponse<NotificationSubscription>>(`/notifications/subscriptions/${subscriptionId}`, data);
+  },
+
+  deleteSubscription: async (subscriptionId: number) => {
+    return apiClient.delete<ApiResponse<void>>(`/notifications/subscriptions/${subscriptionId}`);
+  },
+
+  getPreferences: async () => {
+    return apiClient.get<ApiResponse<NotificationPreferences>>('/notifications/preferences');
+  },
+
+  updatePreferences: async (data: NotificationPreferences) => {
+    return apiClient.put<ApiResponse<NotificationPreferences>>('/notifications/preferences', data);
+  },
+
+  getDeliveries: async (params?: { status?: NotificationDeliveryStatus; all?: boolean; limit?: number }) => {
+    const queryParams = new URLSearchParams();
+    if (params?.status) queryParams.append('status', params.status);
+    if (params?.all) queryParams.append('all', 'true');
+    if (params?.limit) queryParams.append('limit', params.limit.toString());
+
+    const query = queryParams.toString();
+    return apiClient.get<ApiResponse<NotificationDelivery[]>>(`/notifications/deliveries${query ? `?${query}` : ''}`);
+  },
+
+  getDeliveryAttempts: async (deliveryId: number) => {
+    return apiClient.get<ApiResponse<NotificationDeliveryAttempt[]>>(`/notifications/deliveries/${deliveryId}/attempts`);
+  },
+
+  dispatch: async () => {
+    return apiClient.post<ApiResponse<{ queued: number; released: number; digests: number; sent: number; failed: number }>>(
+      '/notifications/dispatch'
+    );
+  }
+};
+
 // Motor API
 export const motorApi = {
   getAll: async () => {
@@ -419,6 +960,57 @@ export const motorApi = {
 };
 
 // Admin API
+export type DeviceApiKeyState = 'active' | 'grace' | 'expired' | 'revoked';
+
+export interface DeviceApiKey {
+  keyId: number;
+  keyPrefix: string;
+  state: DeviceApiKeyState;
+  createdAt: string;
+  createdBy: number | null;
+  createdByName: string | null;
+  expiresAt: string | null;
+  graceUntil: string | null;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  usageCount: number;
+}
+
+export interface DeviceApiKeyDetails {
+  deviceId: string;
+  current: DeviceApiKey | null;
+  keys: DeviceApiKey[];
+  viewedBy: string;
+  viewedAt: string;
+}
+
+export interface DeviceApiKeyAuditEntry {
+  auditId: number;
+  keyId: number | null;
+  keyPrefix: string | null;
+  action: 'view' | 'copy' | 'rotate' | 'import' | 'revoke' | 'set_expiry';
+  reason: string | null;
+  userId: number | null;
+  userName: string | null;
+  timestamp: string;
+  ipAddress: string | null;
+}
+
+export interface UserInvitation {
+  invitationId: number;
+  email: string;
+  role: string;
+  clientId: string | null;
+  state: 'pending' | 'accepted' | 'expired' | 'revoked';
+  invitedBy: number;
+  invitedByName: string | null;
+  createdAt: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+  acceptedUserId: number | null;
+  revokedAt: string | null;
+}
+
 export const adminApi = {
   // User management
   getUsers: async () => {
@@ -452,6 +1044,24 @@ export const adminApi = {
     return apiClient.delete<ApiResponse<any>>(`/admin/users/${userId}`);
   },
 
+  // Accounts that signed up without an invitation
+  decidePendingUser: async (userId: string, decision: 'approve' | 'reject') => {
+    return apiClient.put<ApiResponse<{ id: number; status: 'active' | 'pending' | 'rejected' }>>(`/admin/users/${userId}/${decision}`);
+  },
+
+  // Invitations (also available to client admins through the same endpoints)
+  getInvitations: async () => {
+    return apiClient.get<ApiResponse<UserInvitation[]>>('/users/invitations');
+  },
+
+  createInvitation: async (data: { email: string; role: string; clientId?: string | null; expiresInHours?: number }) => {
+    return apiClient.post<ApiResponse<UserInvitation & { token: string; inviteLink: string }>>('/users/invitations', data);
+  },
+
+  revokeInvitation: async (invitationId: number) => {
+    return apiClient.delete<ApiResponse<UserInvitation>>(`/users/invitations/${invitationId}`);
+  },
+
   // Get available client IDs
   getClientIds: async () => {
     return apiClient.get<ApiResponse<string[]>>('/admin/client-ids');
@@ -502,6 +1112,41 @@ export const adminApi = {
     return apiClient.delete<ApiResponse<any>>(`/admin/devices/${deviceId}`);
   },
 
+  // Device API keys
+  getDeviceApiKeys: async (deviceId: string) => {
+    return apiClient.get<ApiResponse<DeviceApiKeyDetails>>(`/admin/device/${deviceId}/api-key`);
+  },
+
+  regenerateDeviceApiKey: async (deviceId: string, data: {
+    reason: string;
+    graceHours?: number;
+    expiresAt?: string | null;
+  }) => {
+    return apiClient.post<ApiResponse<{
+      apiKey: string;
+      key: DeviceApiKey;
+      previousKeyGraceUntil: string | null;
+    }>>(`/admin/device/${deviceId}/api-key`, data);
+  },
+
+  setDeviceApiKeyExpiry: async (deviceId: string, keyId: number, expiresAt: string | null) => {
+    return apiClient.put<ApiResponse<DeviceApiKey>>(`/admin/device/${deviceId}/api-key/${keyId}/expiry`, { expiresAt });
+  },
+
+  revokeDeviceApiKey: async (deviceId: string, keyId: number, reason?: string) => {
+    return apiClient.put<ApiResponse<DeviceApiKey>>(`/admin/device/${deviceId}/api-key/${keyId}/revoke`, { reason });
+  },
+
+  logDeviceApiKeyAction: async (deviceId: string, action: 'copy', keyId?: number) => {
+    return apiClient.post<ApiResponse<void>>(`/admin/device/${deviceId}/api-key/log`, { action, keyId });
+  },
+
+  getDeviceApiKeyAudit: async (deviceId: string, limit?: number) => {
+    return apiClient.get<ApiResponse<DeviceApiKeyAuditEntry[]>>(
+      `/admin/device/${deviceId}/api-key/audit${limit ? `?limit=${limit}` : ''}`
+    );
+  },
+
   // Session management
   getSessions: async (params?: {
     page?: number;
@@ -579,6 +1224,50 @@ export const adminApi = {
     }>>('/admin/sessions/stats');
   },
 
+  getSecurityEvents: async (params?: {
+    userId?: string;
+    eventType?: AuthEventType;
+    search?: string;
+    ipAddress?: string;
+    since?: string;
+    limit?: number;
+  }) => {
+    const queryParams = new URLSearchParams();
+    if (params?.userId) queryParams.append('userId', params.userId);
+    if (params?.eventType) queryParams.append('eventType', params.eventType);
+    if (params?.search) queryParams.append('search', params.search);
+    if (params?.ipAddress) queryParams.append('ipAddress', params.ipAddress);
+    if (params?.since) queryParams.append('since', params.since);
+    if (params?.limit) queryParams.append('limit', params.limit.toString());
+
+    const query = queryParams.toString();
+    return apiClient.get<ApiResponse<AuthEvent[]>>(`/admin/sessions/events${query ? `?${query}` : ''}`);
+  },
+
+  getLoginLockouts: async () => {
+    return apiClient.get<ApiResponse<LoginLockout[]>>('/admin/sessions/lockouts');
+  },
+
+  unlockLogin: async (throttleKey: string) => {
+    return apiClient.delete<ApiResponse<null>>(`/admin/sessions/lockouts/${encodeURIComponent(throttleKey)}`);
+  },
+
+  // Two-factor authentication
+  resetTwoFactor: async (userId: string, reason?: string) => {
+    return apiClient.post<ApiResponse<null>>(`/admin/users/${userId}/2fa/reset`, { reason });
+  },
+
+  getTwoFactorPolicy: async () => {
+    return apiClient.get<ApiResponse<TwoFactorRolePolicy[]>>('/admin/two-factor/policy');
+  },
+
+  setTwoFactorPolicy: async (roleName: string, required: boolean) => {
+    return apiClient.put<ApiResponse<TwoFactorRolePolicy>>(
+      `/admin/two-factor/policy/${encodeURIComponent(roleName)}`,
+      { required }
+    );
+  },
+
   // Role Management
   getRoles: async () => {
     return apiClient.get<ApiResponse<{
@@ -784,7 +1473,23 @@ export const adminApi = {
 
     // Activate configuration
     activateConfig: async (configId: number) => {
-      return apiClient.post<any>(`/admin/universal-communication/activate/${configId}`);
+      return apiClient.post<{ success: boolean; approvalRequired?: boolean; approval?: ConfigApproval; message: string }>(
+        `/admin/universal-communication/activate/${configId}`
+      );
+    },
+
+    // Queue an activation for the scheduler
+    scheduleActivation: async (configId: number, scheduledFor: string, reason?: string) => {
+      return apiClient.post<{
+        success: boolean;
+        schedule?: ScheduledActivation;
+        approvalRequired?: boolean;
+        approval?: ConfigApproval;
+        message: string;
+      }>(
+        `/admin/universal-communication/activate/${configId}`,
+        { scheduledFor, reason }
+      );
     },
 
     // Delete template
@@ -811,6 +1516,206 @@ export const healthApi = {
   }
 };
 
+export type RolloutCampaignStatus = 'running' | 'paused' | 'halted' | 'aborted' | 'completed';
+export type RolloutTargetType = 'client' | 'logic' | 'devices';
+
+export interface RolloutProgress {
+  total: number;
+  waiting: number;
+  cancelled: number;
+  pending: number;
+  inProgress: number;
+  succeeded: number;
+  failed: number;
+}
+
+export interface RolloutCampaign {
+  campaignId: number;
+  campaignName: string;
+  configName: string;
+  configHash: string;
+  targetType: RolloutTargetType;
+  targetValue: string | null;
+  canaryPercent: number;
+  waveCount: number;
+  failureThresholdPercent: number;
+  status: RolloutCampaignStatus;
+  statusReason: string | null;
+  currentWave: number;
+  totalWaves: number;
+  notes: string | null;
+  createdBy: number | null;
+  createdByName: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  progress: RolloutProgress;
+}
+
+export interface RolloutTarget {
+  deviceId: string;
+  wave: number;
+  status: 'waiting' | 'cancelled' | 'pending' | 'in_progress' | 'success' | 'failed';
+  configId: number | null;
+  deploymentId: number | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  errorMessage: string | null;
+}
+
+export interface RolloutCampaignDetails extends RolloutCampaign {
+  configData: Record<string, unknown>;
+  waves: (RolloutProgress & { wave: number })[];
+  targets: RolloutTarget[];
+}
+
+export interface RolloutCampaignInput {
+  campaignName: string;
+  configName: string;
+  configData: Record<string, unknown>;
+  targetType: RolloutTargetType;
+  targetValue?: number;
+  deviceIds?: string[];
+  canaryPercent?: number;
+  waveCount?: number;
+  failureThresholdPercent?: number;
+  notes?: string;
+}
+
+// Versioned configuration schema for a ConversionLogicID (null = generic fallback)
+export interface ConfigSchemaRecord {
+  id: number;
+  conversionLogicId: number | null;
+  deviceType: string;
+  version: number;
+  label: string;
+  description: string | null;
+  schema: ConfigSchemaNode;
+  isActive: boolean;
+  createdBy: number | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface ConfigSchemaInput {
+  conversionLogicId?: number | null;
+  deviceType: string;
+  description?: string | null;
+  schema: ConfigSchemaNode;
+}
+
+// Universal settings, client overrides and device config merged into what the device downloads
+export interface EffectiveDeviceConfig {
+  deviceId: string;
+  data: Record<string, unknown>;
+  sources: Record<string, ConfigLayer>;
+  hash: string | null;
+  layers: {
+    universal: { configId: number; hash: string } | null;
+    client: { clientId: number; updatedAt: string } | null;
+    device: { configId: number; configVersion: number; configName: string; configHash: string } | null;
+  };
+  layered: boolean;
+}
+
+export interface ClientConfigOverrides {
+  clientId: number;
+  overrides: Record<string, unknown>;
+  notes: string | null;
+  updatedBy: number | null;
+  updatedByName: string | null;
+  updatedAt: string;
+}
+
+export type ScheduledActivationStatus = 'scheduled' | 'executing' | 'completed' | 'failed' | 'cancelled';
+
+// Device or universal activation queued for the server-side scheduler
+export interface ScheduledActivation {
+  scheduleId: number;
+  targetType: 'device' | 'universal';
+  deviceId: string | null;
+  configId: number;
+  configName: string | null;
+  configVersion: number | null;
+  scheduledFor: string;
+  windowId: number | null;
+  windowName: string | null;
+  windowEndsAt: string | null;
+  status: ScheduledActivationStatus;
+  reason: string | null;
+  errorMessage: string | null;
+  createdBy: number;
+  createdByName: string | null;
+  createdAt: string;
+  executedAt: string | null;
+  cancelledBy: number | null;
+  cancelledAt: string | null;
+}
+
+export interface ScheduleActivationOptions {
+  scheduledFor?: string;
+  useMaintenanceWindow?: boolean;
+  changeReason?: string;
+}
+
+// Weekly maintenance window in UTC (daysOfWeek: 0 = Sunday)
+export interface MaintenanceWindow {
+  windowId: number;
+  scopeType: 'client' | 'device';
+  scopeId: string;
+  windowName: string;
+  daysOfWeek: number[];
+  startTime: string;
+  durationMinutes: number;
+  isActive: boolean;
+  createdBy: number | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export type MaintenanceWindowInput = Pick<
+  MaintenanceWindow,
+  'scopeType' | 'scopeId' | 'windowName' | 'daysOfWeek' | 'startTime' | 'durationMinutes'
+>;
+
+export type ConfigApprovalStatus = 'proposed' | 'approved' | 'rejected' | 'expired' | 'withdrawn';
+
+// A proposed activation waiting for (or decided by) a second user
+export interface ConfigApproval {
+  approvalId: number;
+  targetType: 'device' | 'universal';
+  deviceId: string | null;
+  configId: number;
+  configName: string | null;
+  configVersion: number | null;
+  status: ConfigApprovalStatus;
+  changeReason: string | null;
+  scheduledFor: string | null;
+  useMaintenanceWindow: boolean;
+  proposedBy: number;
+  proposedByName: string | null;
+  proposedAt: string;
+  expiresAt: string;
+  decidedBy: number | null;
+  decidedByName: string | null;
+  decidedAt: string | null;
+  decisionComment: string | null;
+  resultMessage: string | null;
+}
+
+export interface ConfigApprovalComment {
+  commentId: number;
+  userId: number;
+  userName: string | null;
+  comment: string;
+  createdAt: string;
+}
+
+// Activation endpoints answer with a proposal instead while approvals are required
+export type ActivationResponse<T> =
+  | (ApiResponse<T> & { approvalRequired?: false; message?: string })
+  | (ApiResponse<ConfigApproval> & { approvalRequired: true; message: string });
+
 // Device Configuration API
 export const deviceConfigApi = {
   // Admin routes for device configuration management (using Express backend)
@@ -828,11 +1733,93 @@ export const deviceConfigApi = {
   
   activateConfig: async (deviceId: string, configId: number) => {
     console.log('API: Making activation request', { deviceId, configId });
-    const response = await apiClient.post<ApiResponse<any>>(`/device-config/admin/configs/${deviceId}/activate`, { configId });
+    const response = await apiClient.post<ActivationResponse<null>>(`/device-config/admin/configs/${deviceId}/activate`, { configId });
     console.log('API: Activation response received', response);
     return response;
   },
   
+  // Queue an activation for a time or the device's next maintenance window
+  scheduleActivation: async (deviceId: string, configId: number, options: ScheduleActivationOptions) => {
+    return apiClient.post<ActivationResponse<ScheduledActivation>>(`/device-config/admin/configs/${deviceId}/activate`, {
+      configId,
+      ...options
+    });
+  },
+
+  getScheduledActivations: async (params: { from?: string; to?: string; status?: ScheduledActivationStatus; deviceId?: string } = {}) => {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value) searchParams.append(key, value);
+    });
+    const query = searchParams.toString();
+    return apiClient.get<ApiResponse<ScheduledActivation[]>>(`/device-config/admin/scheduled-activations${query ? `?${query}` : ''}`);
+  },
+
+  cancelScheduledActivation: async (scheduleId: number) => {
+    return apiClient.post<ApiResponse<ScheduledActivation>>(`/device-config/admin/scheduled-activations/${scheduleId}/cancel`, {});
+  },
+
+  getMaintenanceWindows: async () => {
+    return apiClient.get<ApiResponse<MaintenanceWindow[]>>('/device-config/admin/maintenance-windows');
+  },
+
+  createMaintenanceWindow: async (data: MaintenanceWindowInput) => {
+    return apiClient.post<ApiResponse<MaintenanceWindow>>('/device-config/admin/maintenance-windows', data);
+  },
+
+  deleteMaintenanceWindow: async (windowId: number) => {
+    return apiClient.delete<ApiResponse<null>>(`/device-config/admin/maintenance-windows/${windowId}`);
+  },
+
+  // Two-person approval
+  getApprovals: async (params: { status?: ConfigApprovalStatus; targetType?: 'device' | 'universal'; deviceId?: string } = {}) => {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value) searchParams.append(key, value);
+    });
+    const query = searchParams.toString();
+    return apiClient.get<ApiResponse<ConfigApproval[]> & { required: boolean }>(
+      `/device-config/admin/approvals${query ? `?${query}` : ''}`
+    );
+  },
+
+  getApproval: async (approvalId: number) => {
+    return apiClient.get<ApiResponse<ConfigApproval & { comments: ConfigApprovalComment[] }>>(
+      `/device-config/admin/approvals/${approvalId}`
+    );
+  },
+
+  addApprovalComment: async (approvalId: number, comment: string) => {
+    return apiClient.post<ApiResponse<ConfigApprovalComment[]>>(`/device-config/admin/approvals/${approvalId}/comments`, { comment });
+  },
+
+  approveChange: async (approvalId: number, comment?: string) => {
+    return apiClient.post<ApiResponse<ConfigApproval> & { message: string }>(
+      `/device-config/admin/approvals/${approvalId}/approve`,
+      { comment }
+    );
+  },
+
+  rejectChange: async (approvalId: number, reason: string) => {
+    return apiClient.post<ApiResponse<ConfigApproval>>(`/device-config/admin/approvals/${approvalId}/reject`, { reason });
+  },
+
+  withdrawChange: async (approvalId: number) => {
+    return apiClient.post<ApiResponse<ConfigApproval>>(`/device-config/admin/approvals/${approvalId}/withdraw`, {});
+  },
+
+  // Restore an earlier version as a new, active version
+  rollbackConfig: async (deviceId: string, configId: number, reason: string) => {
+    return apiClient.post<ApiResponse<{
+      configId: number;
+      deviceId: string;
+      configVersion: number;
+      configHash: string;
+      rolledBackFrom: number;
+      changes: ConfigChange[];
+    }>>(`/device-config/admin/configs/${deviceId}/rollback`, { configId, reason });
+  },
+
   getDeployments: async () => {
     return apiClient.get<ApiResponse<any[]>>(`/device-config/admin/deployments`);
   },
@@ -858,6 +1845,82 @@ export const deviceConfigApi = {
   // Get device details with ThingSpeak data for Config Builder
   getDeviceDetails: async (deviceId: string) => {
     return apiClient.get<ApiResponse<any>>(`/device-config/admin/device/${deviceId}/details`);
+  },
+
+  // Configuration schemas
+  getConfigSchemas: async (options: { logicId?: number; includeInactive?: boolean } = {}) => {
+    const params = new URLSearchParams();
+    if (options.logicId) params.append('logicId', options.logicId.toString());
+    if (options.includeInactive) params.append('includeInactive', 'true');
+    const query = params.toString() ? `?${params.toString()}` : '';
+    return apiClient.get<ApiResponse<ConfigSchemaRecord[]>>(`/device-config/admin/schemas${query}`);
+  },
+
+  getDeviceConfigSchema: async (deviceId: string) => {
+    return apiClient.get<ApiResponse<ConfigSchemaRecord | null>>(`/device-config/admin/schemas/device/${deviceId}`);
+  },
+
+  createConfigSchema: async (data: ConfigSchemaInput) => {
+    return apiClient.post<ApiResponse<ConfigSchemaRecord>>('/device-config/admin/schemas', data);
+  },
+
+  activateConfigSchema: async (schemaId: number) => {
+    return apiClient.post<ApiResponse<ConfigSchemaRecord>>(`/device-config/admin/schemas/${schemaId}/activate`, {});
+  },
+
+  // Layered configuration
+  getEffectiveConfig: async (deviceId: string) => {
+    return apiClient.get<ApiResponse<EffectiveDeviceConfig>>(`/device-config/admin/configs/${deviceId}/effective`);
+  },
+
+  getClientOverrides: async (clientId: number) => {
+    return apiClient.get<ApiResponse<ClientConfigOverrides | null>>(`/device-config/admin/client-overrides/${clientId}`);
+  },
+
+  saveClientOverrides: async (clientId: number, overrides: Record<string, unknown>, notes?: string) => {
+    return apiClient.put<ApiResponse<ClientConfigOverrides>>(`/device-config/admin/client-overrides/${clientId}`, { overrides, notes });
+  },
+
+  deleteClientOverrides: async (clientId: number) => {
+    return apiClient.delete<ApiResponse<null>>(`/device-config/admin/client-overrides/${clientId}`);
+  },
+
+  // Staged rollout campaigns
+  getRollouts: async (status?: RolloutCampaignStatus | 'all') => {
+    const query = status ? `?status=${status}` : '';
+    return apiClient.get<ApiResponse<RolloutCampaign[]>>(`/device-config/admin/rollouts${query}`);
+  },
+
+  getRollout: async (campaignId: number) => {
+    return apiClient.get<ApiResponse<RolloutCampaignDetails>>(`/device-config/admin/rollouts/${campaignId}`);
+  },
+
+  createRollout: async (data: RolloutCampaignInput) => {
+    return apiClient.post<ApiResponse<RolloutCampaign>>('/device-config/admin/rollouts', data);
+  },
+
+  updateRolloutStatus: async (campaignId: number, action: 'pause' | 'resume' | 'abort', reason?: string) => {
+    return apiClient.post<ApiResponse<RolloutCampaign>>(`/device-config/admin/rollouts/${campaignId}/${action}`, { reason });
+  }
+};
+
+// Payload Layout API (admin-defined decoders for new firmware payloads)
+export const payloadLayoutApi = {
+  getAll: async (includeInactive?: boolean) => {
+    const query = includeInactive ? '?includeInactive=true' : '';
+    return apiClient.get<ApiResponse<PayloadLayoutRecord[]>>(`/payload-layouts${query}`);
+  },
+
+  create: async (data: Omit<PayloadLayoutRecord, 'id'>) => {
+    return apiClient.post<ApiResponse<PayloadLayoutRecord>>('/payload-layouts', data);
+  },
+
+  update: async (layoutId: number, data: Partial<Omit<PayloadLayoutRecord, 'id' | 'conversionLogicId'>> & { isActive?: boolean }) => {
+    return apiClient.put<ApiResponse<PayloadLayoutRecord>>(`/payload-layouts/${layoutId}`, data);
+  },
+
+  deactivate: async (layoutId: number) => {
+    return apiClient.delete<ApiResponse<void>>(`/payload-layouts/${layoutId}`);
   }
 };
 
@@ -0,0 +1,8 @@
+/**
+ * Configuration Diff Service
+ * Re-exports the shared structural diff (backend/src/shared/configDiff.js) used to compare
+ * configuration versions and templates.
+ */
+export type { ConfigChange, ConfigChangeType } from "@shared/configDiff";
+
+export { diffConfigs, summarizeDiff } from "@shared/configDiff";
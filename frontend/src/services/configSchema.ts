@@ -0,0 +1,19 @@
+/**
+ * Configuration Schema Service
+ * Re-exports the shared schema validator (backend/src/shared/configSchema.js) so the
+ * configuration builder checks fields with the same rules the backend enforces.
+ */
+export type {
+  ConfigSchemaNode,
+  ConfigSchemaType,
+  ConfigSchemaAutofill,
+  ConfigFieldError
+} from "@shared/configSchema";
+
+export {
+  CONFIG_SCHEMA_TYPES,
+  validateConfigSchema,
+  validateConfigData,
+  buildDefaultConfig,
+  formatConfigErrors
+} from "@shared/configSchema";
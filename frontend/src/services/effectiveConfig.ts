@@ -0,0 +1,8 @@
+/**
+ * Effective Configuration Service
+ * Re-exports the shared layer merge (backend/src/shared/effectiveConfig.js) so the UI attributes
+ * each field to the same layer the backend used.
+ */
+export type { ConfigLayer, MergedConfig } from "@shared/effectiveConfig";
+
+export { CONFIG_LAYERS, fieldSource } from "@shared/effectiveConfig";
@@ -0,0 +1,50 @@
+/**
+ * Payload Layout Service
+ * Re-exports the shared layout interpreter (backend/src/shared/payloadLayout.js)
+ * and registers admin-defined layouts as decoders in the browser.
+ */
+import { syncLayoutDecoders } from "@shared/payloadLayout";
+import type { PayloadLayoutRecord as SharedPayloadLayoutRecord } from "@shared/payloadLayout";
+import { payloadLayoutApi } from "./api";
+
+export type {
+  LayoutField,
+  LayoutFieldType,
+  PayloadLayout,
+  LayoutDecoder
+} from "@shared/payloadLayout";
+
+export {
+  LAYOUT_FIELD_TYPES,
+  validatePayloadLayout,
+  decodeWithLayout,
+  createLayoutDecoder
+} from "@shared/payloadLayout";
+
+export interface PayloadLayoutRecord extends SharedPayloadLayoutRecord {
+  isActive?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+let loadPromise: Promise<void> | null = null;
+
+/**
+ * Fetch active layouts once and register them in the decoder registry
+ * Pass force = true after layouts are edited to pick up the changes
+ */
+export function loadLayoutDecoders(force = false): Promise<void> {
+  if (!loadPromise || force) {
+    loadPromise = payloadLayoutApi.getAll()
+      .then(response => {
+        if (response.success) {
+          syncLayoutDecoders(response.data);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading payload layouts:', error);
+        loadPromise = null;
+      });
+  }
+  return loadPromise;
+}
@@ -13,6 +13,52 @@ export interface Device {
   hexField: string;
   createdAt: string;
   deviceId: string;
+  liveness?: DeviceLiveness | null;
+}
+
+export type LivenessState = "online" | "late" | "offline" | "maintenance";
+
+// Reporting state derived from the device's last telemetry and its expected interval
+export interface DeviceLiveness {
+  state: LivenessState;
+  lastSeenAt: string | null;
+  expectedIntervalMinutes: number;
+  lateAfterMinutes: number;
+  offlineAfterMinutes: number;
+  stateChangedAt: string | null;
+  maintenanceUntil: string | null;
+  maintenanceReason: string | null;
+}
+
+export interface LivenessHistoryEntry {
+  id: number;
+  fromState: LivenessState | null;
+  toState: LivenessState;
+  lastSeenAt: string | null;
+  reason: string | null;
+  changedBy: number | null;
+  changedAt: string;
+}
+
+// Running config / firmware the device reported on its last version poll, compared with its active config
+export interface DeviceConfigSync {
+  reportedHash: string | null;
+  firmwareVersion: string | null;
+  reportedAt: string | null;
+  lastPolledAt: string | null;
+  expectedHash: string | null;
+  inSync: boolean | null;
+  driftSince: string | null;
+}
+
+export interface ConfigCheckin {
+  id: number;
+  reportedHash: string | null;
+  firmwareVersion: string | null;
+  expectedConfigId: number | null;
+  expectedHash: string | null;
+  inSync: boolean | null;
+  checkedInAt: string;
 }
 
 export interface FaultTileData {
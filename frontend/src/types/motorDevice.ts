@@ -1,4 +1,5 @@
 // TypeScript interfaces for Motor IoT devices from IoT_Data_Sick_Test table
+import { DeviceLiveness } from "./device";
 
 export interface MotorDevice {
   entryId: number;
@@ -15,6 +16,7 @@ export interface MotorDevice {
   createdAt: string;
   hexField: string;
   timestamp: string;
+  liveness?: DeviceLiveness | null;
 }
 
 export interface MotorFaultTileData {
@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    fs: {
+      // Allow serving the decoder library shared with the backend
+      allow: [".."]
+    },
     proxy: {
       // Development: All API routes go to Express Backend (Universal Communication migrated)
       // Production: API calls will go directly to deployed backend endpoint
@@ -42,6 +46,7 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "../backend/src/shared"),
     },
   },
 }));